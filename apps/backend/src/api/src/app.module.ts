@@ -21,7 +21,7 @@ import secretsConfig from 'src/config/secrets.config';
 import relationaldbConfig from 'src/config/relationaldb.config';
 import csrfConfig from 'src/config/csrf.config';
 import cookieConfig from 'src/config/cookie.config';
-import websocketConfig, { IWebSocketConfig } from 'src/config/websocket.config';
+import websocketConfig from 'src/config/websocket.config';
 import { getGraphQLCorsConfig } from 'src/config/cors.config';
 
 import { CsrfMiddleware } from 'src/common/middleware/csrf.middleware';
@@ -36,6 +36,7 @@ import { HttpExceptionFilter } from 'src/common/exceptions/http-exception.filter
 import { HealthModule } from 'src/common/health';
 import { HmacSignerService } from 'src/common/services/hmac-signer.service';
 import { HmacRemoteGraphQLDataSource } from './hmac-data-source';
+import { SubscriptionProxyService } from './subscription-proxy.service';
 
 /**
  * Extract authenticated user from request context for GraphQL operations.
@@ -119,10 +120,8 @@ const handleAuth = ({ req, res }: { req: Request; res: Response }) => {
       useFactory: async (
         configService: ConfigService,
         hmacSigner: HmacSignerService,
-        wsAuthService: WebSocketAuthService,
+        subscriptionProxy: SubscriptionProxyService,
       ) => {
-        const wsConfig = configService.get<IWebSocketConfig>('websocket');
-
         return {
           server: {
             // SECURITY: Restrict CORS to allowed origins in production
@@ -131,6 +130,8 @@ const handleAuth = ({ req, res }: { req: Request; res: Response }) => {
             cors: getGraphQLCorsConfig(configService),
             path: 'api',
             context: handleAuth,
+            // Subscriptions are forwarded to the subgraphs that serve them
+            plugins: [subscriptionProxy],
             // SECURITY: Disable introspection in production to prevent schema enumeration attacks
             introspection: configService.get('NODE_ENV') !== 'production',
           },
@@ -147,39 +148,9 @@ const handleAuth = ({ req, res }: { req: Request; res: Response }) => {
               ),
             }),
           },
-          // SECURITY: WebSocket subscription authentication
-          // All WebSocket connections must provide a valid JWT in connection params
-          // @see https://github.com/CommonwealthLabsCode/qckstrt/issues/194
-          subscriptions: wsConfig?.enabled
-            ? {
-                'graphql-ws': {
-                  path: `/${wsConfig.path || 'api'}`,
-                  onConnect: async (context: {
-                    connectionParams?: Record<string, unknown>;
-                  }) => {
-                    const { connectionParams } = context;
-                    if (!connectionParams) {
-                      throw new Error('Missing connection parameters');
-                    }
-
-                    // Validate JWT and get authenticated user
-                    const user =
-                      await wsAuthService.authenticateConnection(
-                        connectionParams,
-                      );
-
-                    // Return user context for use in subscriptions
-                    return { user: JSON.stringify(user) };
-                  },
-                  onDisconnect: () => {
-                    // Optional: Log disconnection for monitoring
-                  },
-                },
-              }
-            : undefined,
         };
       },
-      inject: [ConfigService, HmacSignerService, WebSocketAuthService],
+      inject: [ConfigService, HmacSignerService, SubscriptionProxyService],
     }),
   ],
   providers: [
@@ -200,6 +171,7 @@ const handleAuth = ({ req, res }: { req: Request; res: Response }) => {
     // SECURITY: WebSocket authentication for GraphQL subscriptions
     // @see https://github.com/CommonwealthLabsCode/qckstrt/issues/194
     WebSocketAuthService,
+    SubscriptionProxyService,
   ],
 })
 export class AppModule implements NestModule {
@@ -0,0 +1,236 @@
+import { ConfigService } from '@nestjs/config';
+import { HttpAdapterHost } from '@nestjs/core';
+import { ExecutionResult, GraphQLSchema, parse } from 'graphql';
+import { WebSocketAuthService } from 'src/common/auth/websocket-auth.service';
+import { HmacSignerService } from 'src/common/services/hmac-signer.service';
+import { formatEvent } from 'src/common/subscriptions';
+import {
+  findSubscriptionRoutes,
+  SubscriptionProxyService,
+} from './subscription-proxy.service';
+
+const SUPERGRAPH = `
+  schema
+    @link(url: "https://specs.apollo.dev/link/v1.0")
+    @link(url: "https://specs.apollo.dev/join/v0.3", for: EXECUTION) {
+    query: Query
+    subscription: Subscription
+  }
+
+  enum join__Graph {
+    REGION @join__graph(name: "region", url: "http://region:8080/graphql")
+    USERS @join__graph(name: "users", url: "http://users:8080/graphql")
+  }
+
+  type Query @join__type(graph: REGION) @join__type(graph: USERS) {
+    ok: Boolean
+  }
+
+  type Subscription @join__type(graph: REGION) @join__type(graph: USERS) {
+    regionSyncProgress(jobId: ID!): String @join__field(graph: REGION)
+    notificationAdded: String @join__field(graph: USERS)
+  }
+`;
+
+describe('findSubscriptionRoutes', () => {
+  it('maps each subscription field to the subgraph that serves it', () => {
+    expect(findSubscriptionRoutes(SUPERGRAPH)).toEqual(
+      new Map([
+        ['regionSyncProgress', 'http://region:8080/graphql'],
+        ['notificationAdded', 'http://users:8080/graphql'],
+      ]),
+    );
+  });
+
+  it('uses the type graph when only one subgraph defines subscriptions', () => {
+    const supergraph = `
+      enum join__Graph {
+        REGION @join__graph(name: "region", url: "http://region:8080/graphql")
+      }
+      type Subscription @join__type(graph: REGION) {
+        regionSyncProgress(jobId: ID!): String
+      }
+    `;
+
+    expect(findSubscriptionRoutes(supergraph)).toEqual(
+      new Map([['regionSyncProgress', 'http://region:8080/graphql']]),
+    );
+  });
+
+  it('finds nothing in a supergraph without subscriptions', () => {
+    expect(findSubscriptionRoutes('type Query { ok: Boolean }').size).toBe(0);
+  });
+});
+
+describe('SubscriptionProxyService', () => {
+  const user = { id: 'user-1', email: 'a@example.com', roles: [] };
+  let service: SubscriptionProxyService;
+  let hmacSigner: { isEnabled: jest.Mock; sign: jest.Mock };
+  let fetchMock: jest.SpyInstance;
+
+  const eventStream = (chunks: string[], open = false) =>
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) {
+          controller.enqueue(new TextEncoder().encode(chunk));
+        }
+        if (!open) {
+          controller.close();
+        }
+      },
+    });
+
+  const subscribe = (query: string, variableValues?: Record<string, unknown>) =>
+    service.subscribe({
+      schema: new GraphQLSchema({}),
+      document: parse(query),
+      variableValues,
+      contextValue: { user },
+    });
+
+  const collect = async (
+    result: AsyncGenerator<ExecutionResult, void, void> | ExecutionResult,
+  ) => {
+    const values: ExecutionResult[] = [];
+    for await (const value of result as AsyncGenerator<ExecutionResult>) {
+      values.push(value);
+    }
+    return values;
+  };
+
+  beforeEach(async () => {
+    hmacSigner = {
+      isEnabled: jest.fn().mockReturnValue(true),
+      sign: jest.fn().mockReturnValue('HMAC {"signature":"abc"}'),
+    };
+    service = new SubscriptionProxyService(
+      {
+        get: jest.fn().mockReturnValue({ enabled: false }),
+      } as unknown as ConfigService,
+      hmacSigner as unknown as HmacSignerService,
+      {} as WebSocketAuthService,
+      {} as HttpAdapterHost,
+    );
+
+    const listener = await service.serverWillStart();
+    listener.schemaDidLoadOrUpdate?.({
+      apiSchema: new GraphQLSchema({}),
+      coreSupergraphSdl: SUPERGRAPH,
+    });
+
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('forwards the subscription to its subgraph, signed and with the user', async () => {
+    fetchMock.mockResolvedValue(new Response(eventStream([])));
+
+    await collect(
+      await subscribe(
+        'subscription Progress($jobId: ID!) { regionSyncProgress(jobId: $jobId) }',
+        { jobId: 'job-1' },
+      ),
+    );
+
+    const [url, init] = fetchMock.mock.calls[0] as [URL, RequestInit];
+    expect(url.toString()).toBe('http://region:8080/subscriptions');
+    expect(init.method).toBe('POST');
+    expect(init.headers).toMatchObject({
+      user: JSON.stringify(user),
+      'X-HMAC-Auth': 'HMAC {"signature":"abc"}',
+    });
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      query: expect.stringContaining('regionSyncProgress(jobId: $jobId)'),
+      variables: { jobId: 'job-1' },
+    });
+    expect(hmacSigner.sign).toHaveBeenCalledWith('POST', '/subscriptions');
+  });
+
+  it('relays the results until the subgraph completes', async () => {
+    fetchMock.mockResolvedValue(
+      new Response(
+        eventStream([
+          formatEvent({
+            event: 'next',
+            data: { data: { notificationAdded: 'a' } },
+          }),
+          ': keep-alive\n\n',
+          formatEvent({
+            event: 'next',
+            data: { data: { notificationAdded: 'b' } },
+          }),
+          formatEvent({ event: 'complete' }),
+        ]),
+      ),
+    );
+
+    const results = await collect(
+      await subscribe('subscription { notificationAdded }'),
+    );
+
+    expect(results).toEqual([
+      { data: { notificationAdded: 'a' } },
+      { data: { notificationAdded: 'b' } },
+    ]);
+  });
+
+  it('aborts the request when the client unsubscribes', async () => {
+    let signal: AbortSignal | undefined;
+    fetchMock.mockImplementation(async (_url, init: RequestInit) => {
+      signal = init.signal ?? undefined;
+      return new Response(
+        eventStream(
+          [
+            formatEvent({
+              event: 'next',
+              data: { data: { notificationAdded: 'a' } },
+            }),
+          ],
+          true,
+        ),
+      );
+    });
+
+    const results = (await subscribe(
+      'subscription { notificationAdded }',
+    )) as AsyncGenerator<ExecutionResult, void, void>;
+    await results.next();
+    await results.return(undefined);
+
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('reports a subgraph that cannot be reached', async () => {
+    fetchMock.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    const results = await collect(
+      await subscribe('subscription { notificationAdded }'),
+    );
+
+    expect(results).toEqual([
+      { errors: [expect.objectContaining({ message: 'Subscription failed' })] },
+    ]);
+  });
+
+  it('rejects queries and mutations', async () => {
+    const result = (await subscribe('{ ok }')) as ExecutionResult;
+
+    expect(result.errors?.[0].message).toBe(
+      'Only subscriptions are served over WebSocket',
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects subscriptions no subgraph serves', async () => {
+    const result = (await subscribe(
+      'subscription { unknown }',
+    )) as ExecutionResult;
+
+    expect(result.errors?.[0].message).toBe(
+      'No service serves this subscription',
+    );
+  });
+});
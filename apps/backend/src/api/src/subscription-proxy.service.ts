@@ -0,0 +1,310 @@
+import { ApolloServerPlugin, GraphQLServerListener } from '@apollo/server';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpAdapterHost } from '@nestjs/core';
+import { GqlSubscriptionService } from '@nestjs/graphql';
+import {
+  ConstArgumentNode,
+  ConstDirectiveNode,
+  ExecutionArgs,
+  ExecutionResult,
+  getOperationAST,
+  GraphQLError,
+  GraphQLSchema,
+  Kind,
+  OperationTypeNode,
+  parse,
+  print,
+} from 'graphql';
+import { WebSocketAuthService } from 'src/common/auth/websocket-auth.service';
+import { HmacSignerService } from 'src/common/services/hmac-signer.service';
+import { readEvents } from 'src/common/subscriptions';
+import { IWebSocketConfig } from 'src/config/websocket.config';
+import { ILogin } from 'src/interfaces/login.interface';
+
+/**
+ * Connection state kept by graphql-ws for each WebSocket
+ */
+interface SubscriptionExtra {
+  user?: ILogin;
+}
+
+/**
+ * Context each subscription runs with
+ */
+interface SubscriptionContext {
+  user?: ILogin;
+}
+
+function directiveArguments(
+  directives: readonly ConstDirectiveNode[] | undefined,
+  name: string,
+  argument: string,
+): string[] {
+  return (directives ?? [])
+    .filter((directive) => directive.name.value === name)
+    .flatMap((directive) => directive.arguments ?? [])
+    .filter((arg: ConstArgumentNode) => arg.name.value === argument)
+    .flatMap((arg) =>
+      arg.value.kind === Kind.ENUM || arg.value.kind === Kind.STRING
+        ? [arg.value.value]
+        : [],
+    );
+}
+
+/**
+ * Map each subscription field of a supergraph to the URL of the subgraph
+ * that serves it
+ *
+ * Fields carry the subgraph in `@join__field(graph:)`, or take it from
+ * `@join__type(graph:)` when only one subgraph defines subscriptions.
+ */
+export function findSubscriptionRoutes(
+  supergraphSdl: string,
+): Map<string, string> {
+  const document = parse(supergraphSdl);
+  const graphUrls = new Map<string, string>();
+  let subscriptionType = 'Subscription';
+
+  for (const definition of document.definitions) {
+    if (
+      definition.kind === Kind.ENUM_TYPE_DEFINITION &&
+      definition.name.value === 'join__Graph'
+    ) {
+      for (const value of definition.values ?? []) {
+        const [url] = directiveArguments(
+          value.directives,
+          'join__graph',
+          'url',
+        );
+        if (url) {
+          graphUrls.set(value.name.value, url);
+        }
+      }
+    } else if (definition.kind === Kind.SCHEMA_DEFINITION) {
+      const operation = definition.operationTypes.find(
+        (type) => type.operation === OperationTypeNode.SUBSCRIPTION,
+      );
+      subscriptionType = operation?.type.name.value ?? subscriptionType;
+    }
+  }
+
+  const routes = new Map<string, string>();
+  for (const definition of document.definitions) {
+    if (
+      (definition.kind !== Kind.OBJECT_TYPE_DEFINITION &&
+        definition.kind !== Kind.OBJECT_TYPE_EXTENSION) ||
+      definition.name.value !== subscriptionType
+    ) {
+      continue;
+    }
+
+    const typeGraphs = directiveArguments(
+      definition.directives,
+      'join__type',
+      'graph',
+    );
+    for (const field of definition.fields ?? []) {
+      const [graph] = directiveArguments(
+        field.directives,
+        'join__field',
+        'graph',
+      );
+      const url = graphUrls.get(
+        graph ?? (typeGraphs.length === 1 ? typeGraphs[0] : ''),
+      );
+      if (url) {
+        routes.set(field.name.value, url);
+      }
+    }
+  }
+
+  return routes;
+}
+
+/**
+ * Subscription Proxy Service
+ *
+ * Serves GraphQL subscriptions over the gateway's WebSocket endpoint.
+ * Apollo Gateway only executes queries and mutations, so each subscription
+ * is forwarded to the subgraph that owns its field (found in the
+ * supergraph) and the subgraph's results are relayed to the client.
+ *
+ * SECURITY: Connections must provide a valid JWT in connection params.
+ * Forwarded subscriptions carry the authenticated user and are signed
+ * with HMAC like every other gateway-to-subgraph request.
+ * @see https://github.com/CommonwealthLabsCode/qckstrt/issues/185
+ * @see https://github.com/CommonwealthLabsCode/qckstrt/issues/194
+ */
+@Injectable()
+export class SubscriptionProxyService implements ApolloServerPlugin {
+  private readonly logger = new Logger(SubscriptionProxyService.name, {
+    timestamp: true,
+  });
+  private routes = new Map<string, string>();
+  private server?: GqlSubscriptionService;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly hmacSigner: HmacSignerService,
+    private readonly wsAuthService: WebSocketAuthService,
+    private readonly httpAdapterHost: HttpAdapterHost,
+  ) {}
+
+  async serverWillStart(): Promise<GraphQLServerListener> {
+    return {
+      schemaDidLoadOrUpdate: ({ apiSchema, coreSupergraphSdl }) => {
+        if (coreSupergraphSdl) {
+          this.routes = findSubscriptionRoutes(coreSupergraphSdl);
+        }
+        this.listen(apiSchema);
+      },
+      serverWillStop: async () => {
+        await this.server?.stop();
+      },
+    };
+  }
+
+  /**
+   * Start accepting WebSocket connections once the supergraph is loaded
+   *
+   * The supergraph is composed once at startup, so the first API schema
+   * is the one operations are validated against.
+   */
+  private listen(schema: GraphQLSchema): void {
+    const wsConfig = this.configService.get<IWebSocketConfig>('websocket');
+    if (!wsConfig?.enabled || this.server) {
+      return;
+    }
+
+    this.server = new GqlSubscriptionService(
+      {
+        schema,
+        execute: () => ({
+          errors: [
+            new GraphQLError('Only subscriptions are served over WebSocket'),
+          ],
+        }),
+        subscribe: (args) => this.subscribe(args),
+        context: (ctx: { extra: unknown }): SubscriptionContext => ({
+          user: (ctx.extra as SubscriptionExtra).user,
+        }),
+        'graphql-ws': {
+          path: `/${wsConfig.path || 'api'}`,
+          onConnect: async (ctx: {
+            connectionParams?: Record<string, unknown>;
+            extra: unknown;
+          }) => {
+            if (!ctx.connectionParams) {
+              throw new Error('Missing connection parameters');
+            }
+            (ctx.extra as SubscriptionExtra).user =
+              await this.wsAuthService.authenticateConnection(
+                ctx.connectionParams,
+              );
+          },
+        },
+      },
+      this.httpAdapterHost.httpAdapter.getHttpServer(),
+    );
+    this.logger.log(
+      `Serving subscriptions on /${wsConfig.path || 'api'}: ${[...this.routes.keys()].join(', ') || 'none'}`,
+    );
+  }
+
+  /**
+   * Forward a subscription to the subgraph that owns its field
+   */
+  async subscribe(
+    args: ExecutionArgs,
+  ): Promise<AsyncGenerator<ExecutionResult, void, void> | ExecutionResult> {
+    const operation = getOperationAST(args.document, args.operationName);
+    if (operation?.operation !== OperationTypeNode.SUBSCRIPTION) {
+      return {
+        errors: [
+          new GraphQLError('Only subscriptions are served over WebSocket'),
+        ],
+      };
+    }
+
+    // Subscriptions have exactly one root field
+    const [field] = operation.selectionSet.selections;
+    const url =
+      field?.kind === Kind.FIELD
+        ? this.routes.get(field.name.value)
+        : undefined;
+    if (!url) {
+      return {
+        errors: [new GraphQLError('No service serves this subscription')],
+      };
+    }
+
+    const { user } = (args.contextValue ?? {}) as SubscriptionContext;
+    const body = JSON.stringify({
+      query: print(args.document),
+      variables: args.variableValues ?? undefined,
+      operationName: args.operationName ?? undefined,
+    });
+
+    // Unsubscribing aborts the request right away, rather than after the
+    // next result, so the subgraph ends the subscription too
+    const controller = new AbortController();
+    const results = this.stream(url, body, user, controller.signal);
+    const finish = results.return.bind(results);
+    results.return = (value) => {
+      controller.abort();
+      return finish(value);
+    };
+    return results;
+  }
+
+  private async *stream(
+    subgraphUrl: string,
+    body: string,
+    user: ILogin | undefined,
+    signal: AbortSignal,
+  ): AsyncGenerator<ExecutionResult, void, void> {
+    const url = new URL('/subscriptions', subgraphUrl);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+    };
+    if (user) {
+      headers.user = JSON.stringify(user);
+    }
+    if (this.hmacSigner.isEnabled()) {
+      headers['X-HMAC-Auth'] = this.hmacSigner.sign('POST', url.pathname);
+    }
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal,
+      });
+      if (!response.ok || !response.body) {
+        this.logger.warn(
+          `Subscription to ${url.host} failed: HTTP ${response.status}`,
+        );
+        yield { errors: [new GraphQLError('Subscription failed')] };
+        return;
+      }
+
+      for await (const event of readEvents(response.body)) {
+        if (event.event === 'complete') {
+          return;
+        }
+        yield event.data;
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
+      this.logger.warn(
+        `Subscription to ${url.host} failed: ${(error as Error).message}`,
+      );
+      yield { errors: [new GraphQLError('Subscription failed')] };
+    }
+  }
+}
@@ -24,6 +24,9 @@ import storageConfig from 'src/config/storage.config';
 import authConfig from 'src/config/auth.config';
 import secretsConfig from 'src/config/secrets.config';
 import relationaldbConfig from 'src/config/relationaldb.config';
+import emailConfig from 'src/config/email.config';
+import notificationsConfig from 'src/config/notifications.config';
+import pushConfig from 'src/config/push.config';
 
 import { LoggerMiddleware } from 'src/common/middleware/logger.middleware';
 import { HMACMiddleware } from 'src/common/middleware/hmac.middleware';
@@ -34,6 +37,15 @@ import {
 } from 'src/common/config/shared-app.config';
 import { DbModule } from 'src/db/db.module';
 import { AuditLogEntity } from 'src/db/entities/audit-log.entity';
+import { UserEntity } from 'src/db/entities/user.entity';
+import { UserProfileEntity } from 'src/db/entities/user-profile.entity';
+import { UserConsentEntity } from 'src/db/entities/user-consent.entity';
+import { NotificationPreferenceEntity } from 'src/db/entities/notification-preference.entity';
+import { NotificationDeliveryEntity } from 'src/db/entities/notification-delivery.entity';
+import { NotificationDigestEntity } from 'src/db/entities/notification-digest.entity';
+import { NotificationEntity } from 'src/db/entities/notification.entity';
+import { PushSubscriptionEntity } from 'src/db/entities/push-subscription.entity';
+import { EmailCorrespondenceEntity } from 'src/db/entities/email-correspondence.entity';
 import { AuditModule } from 'src/common/audit/audit.module';
 import { CaslModule } from 'src/permissions/casl.module';
 import { HealthModule } from 'src/common/health';
@@ -43,6 +55,7 @@ import { HealthModule } from 'src/common/health';
  *
  * Handles semantic search and RAG operations.
  * Uses pgvector for vector storage and embeddings for text processing.
+ * Notifies users when their documents are indexed.
  */
 @Module({
   imports: [
@@ -54,12 +67,30 @@ import { HealthModule } from 'src/common/health';
         authConfig,
         secretsConfig,
         relationaldbConfig,
+        emailConfig,
+        notificationsConfig,
+        pushConfig,
       ],
       isGlobal: true,
     }),
     LoggingModule.forRootAsync(createLoggingConfig('knowledge-service')),
     ThrottlerModule.forRoot(THROTTLER_CONFIG),
-    DbModule.forRoot({ entities: [AuditLogEntity] }),
+    DbModule.forRoot({
+      entities: [
+        AuditLogEntity,
+        // Read-only: notifications are delivered per preferences, consents
+        // and profile timezone
+        UserEntity,
+        NotificationPreferenceEntity,
+        UserProfileEntity,
+        UserConsentEntity,
+        NotificationDeliveryEntity,
+        NotificationDigestEntity,
+        NotificationEntity,
+        PushSubscriptionEntity,
+        EmailCorrespondenceEntity,
+      ],
+    }),
     AuditModule.forRoot(),
     GraphQLModule.forRoot<ApolloFederationDriverConfig>({
       driver: ApolloFederationDriver,
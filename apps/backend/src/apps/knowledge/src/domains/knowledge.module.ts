@@ -4,18 +4,20 @@ import { KnowledgeResolver } from './knowledge.resolver';
 import { EmbeddingsModule } from '@qckstrt/embeddings-provider';
 import { VectorDBModule } from '@qckstrt/vectordb-provider';
 import { LLMModule } from '@qckstrt/llm-provider';
+import { NotificationsModule } from 'src/common/notifications';
 
 /**
  * Knowledge Module
  *
  * Provides semantic search and RAG capabilities.
  * Uses embeddings (Xenova/Ollama), vector database (pgvector on PostgreSQL),
- * and LLM (Ollama) for answer generation.
+ * and LLM (Ollama) for answer generation. Notifies users through the
+ * notification dispatcher when their documents are indexed.
  *
  * All components are self-hosted OSS for full transparency and privacy.
  */
 @Module({
-  imports: [EmbeddingsModule, VectorDBModule, LLMModule],
+  imports: [EmbeddingsModule, VectorDBModule, LLMModule, NotificationsModule],
   providers: [KnowledgeService, KnowledgeResolver],
   exports: [KnowledgeService],
 })
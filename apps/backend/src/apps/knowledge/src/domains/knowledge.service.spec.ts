@@ -1,16 +1,20 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { createMock } from '@golevelup/ts-jest';
 
 import { KnowledgeService } from './knowledge.service';
 import { EmbeddingsService } from '@qckstrt/embeddings-provider';
 import { IVectorDBProvider, IVectorDocument } from '@qckstrt/vectordb-provider';
 import { ILLMProvider, GenerateResult } from '@qckstrt/llm-provider';
+import { NotificationDispatcherService } from 'src/common/notifications';
+import { NotificationCategory } from 'src/db/entities/notification-delivery.entity';
 
 describe('KnowledgeService', () => {
   let knowledgeService: KnowledgeService;
   let embeddingsService: EmbeddingsService;
   let vectorDB: IVectorDBProvider;
   let llm: ILLMProvider;
+  let dispatcher: { dispatch: jest.Mock };
 
   const mockEmbeddings = [[0.1, 0.2, 0.3]];
   const mockTexts = ['chunk 1', 'chunk 2'];
@@ -33,6 +37,8 @@ describe('KnowledgeService', () => {
       } as GenerateResult),
     };
 
+    dispatcher = { dispatch: jest.fn().mockResolvedValue([]) };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         KnowledgeService,
@@ -48,6 +54,15 @@ describe('KnowledgeService', () => {
           provide: 'LLM_PROVIDER',
           useValue: mockLLM,
         },
+        { provide: NotificationDispatcherService, useValue: dispatcher },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'FRONTEND_URL' ? 'https://app.example.com' : undefined,
+            ),
+          },
+        },
       ],
     }).compile();
 
@@ -84,6 +99,38 @@ describe('KnowledgeService', () => {
       );
     });
 
+    it('should notify the user once the document is indexed', async () => {
+      embeddingsService.getEmbeddingsForText = jest.fn().mockResolvedValue({
+        embeddings: mockEmbeddings,
+        texts: mockTexts,
+      });
+
+      await knowledgeService.indexDocument('user-1', 'doc-1', 'Test content');
+
+      expect(dispatcher.dispatch).toHaveBeenCalledWith([
+        {
+          userId: 'user-1',
+          category: NotificationCategory.DOCUMENT_PROCESSED,
+          title: 'Document processed',
+          lines: ['doc-1 is indexed and ready to search.'],
+          url: 'https://app.example.com/rag-demo',
+          source: { type: 'document', id: 'doc-1' },
+        },
+      ]);
+    });
+
+    it('should index a document even when the notification fails', async () => {
+      embeddingsService.getEmbeddingsForText = jest.fn().mockResolvedValue({
+        embeddings: mockEmbeddings,
+        texts: mockTexts,
+      });
+      dispatcher.dispatch.mockRejectedValue(new Error('db down'));
+
+      await expect(
+        knowledgeService.indexDocument('user-1', 'doc-1', 'Test content'),
+      ).resolves.toBeUndefined();
+    });
+
     it('should throw error when indexing fails', async () => {
       embeddingsService.getEmbeddingsForText = jest
         .fn()
@@ -92,6 +139,7 @@ describe('KnowledgeService', () => {
       await expect(
         knowledgeService.indexDocument('user-1', 'doc-1', 'Test content'),
       ).rejects.toThrow('Embedding failed');
+      expect(dispatcher.dispatch).not.toHaveBeenCalled();
     });
   });
 
@@ -1,7 +1,10 @@
 import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { EmbeddingsService } from '@qckstrt/embeddings-provider';
 import { IVectorDBProvider } from '@qckstrt/vectordb-provider';
 import { ILLMProvider } from '@qckstrt/llm-provider';
+import { NotificationDispatcherService } from 'src/common/notifications';
+import { NotificationCategory } from 'src/db/entities/notification-delivery.entity';
 import {
   SearchResult,
   PaginatedSearchResults,
@@ -11,19 +14,26 @@ import {
  * Knowledge Service
  *
  * Handles semantic search and RAG (Retrieval-Augmented Generation) operations.
- * Uses pluggable providers for vector database and LLM.
+ * Uses pluggable providers for vector database and LLM. Users are notified
+ * in the app once their documents are indexed.
  */
 @Injectable()
 export class KnowledgeService {
   private readonly logger = new Logger(KnowledgeService.name, {
     timestamp: true,
   });
+  private readonly frontendUrl: string;
 
   constructor(
     @Inject() private embeddingsService: EmbeddingsService,
     @Inject('VECTOR_DB_PROVIDER') private vectorDB: IVectorDBProvider,
     @Inject('LLM_PROVIDER') private llm: ILLMProvider,
+    private readonly dispatcher: NotificationDispatcherService,
+    configService: ConfigService,
   ) {
+    this.frontendUrl =
+      configService.get<string>('FRONTEND_URL') ||
+      'https://app.commonwealthlabs.io';
     this.logger.log(
       `KnowledgeService initialized with vector DB: ${this.vectorDB.getName()}, LLM: ${this.llm.getName()}/${this.llm.getModelName()}`,
     );
@@ -60,6 +70,35 @@ export class KnowledgeService {
       this.logger.error(`Failed to index document ${documentId}:`, error);
       throw error;
     }
+
+    await this.notifyProcessed(userId, documentId);
+  }
+
+  /**
+   * Tell the user their document is ready to search
+   *
+   * The document is indexed either way, so failures are only logged.
+   */
+  private async notifyProcessed(
+    userId: string,
+    documentId: string,
+  ): Promise<void> {
+    try {
+      await this.dispatcher.dispatch([
+        {
+          userId,
+          category: NotificationCategory.DOCUMENT_PROCESSED,
+          title: 'Document processed',
+          lines: [`${documentId} is indexed and ready to search.`],
+          url: `${this.frontendUrl}/rag-demo`,
+          source: { type: 'document', id: documentId },
+        },
+      ]);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to notify user ${userId} about document ${documentId}: ${(error as Error).message}`,
+      );
+    }
   }
 
   /**
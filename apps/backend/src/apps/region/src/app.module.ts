@@ -26,8 +26,13 @@ import authConfig from 'src/config/auth.config';
 import secretsConfig from 'src/config/secrets.config';
 import relationaldbConfig from 'src/config/relationaldb.config';
 import regionConfig from 'src/config/region.config';
+import extractionConfig from 'src/config/extraction.config';
+import emailConfig from 'src/config/email.config';
+import notificationsConfig from 'src/config/notifications.config';
+import pushConfig from 'src/config/push.config';
 
 import { LoggerMiddleware } from 'src/common/middleware/logger.middleware';
+import { HMACMiddleware } from 'src/common/middleware/hmac.middleware';
 import {
   THROTTLER_CONFIG,
   SHARED_PROVIDERS,
@@ -36,17 +41,40 @@ import {
 import { DbModule } from 'src/db/db.module';
 import { AuditLogEntity } from 'src/db/entities/audit-log.entity';
 import { PropositionEntity } from 'src/db/entities/proposition.entity';
+import { PropositionRevisionEntity } from 'src/db/entities/proposition-revision.entity';
 import { MeetingEntity } from 'src/db/entities/meeting.entity';
+import { MeetingDocumentEntity } from 'src/db/entities/meeting-document.entity';
 import { RepresentativeEntity } from 'src/db/entities/representative.entity';
+import { ElectionEntity } from 'src/db/entities/election.entity';
+import { BillEntity } from 'src/db/entities/bill.entity';
+import { VoteEntity } from 'src/db/entities/vote.entity';
+import { RaceEntity } from 'src/db/entities/race.entity';
+import { RegionSyncRunEntity } from 'src/db/entities/region-sync-run.entity';
+import { UserEntity } from 'src/db/entities/user.entity';
+import { UserAddressEntity } from 'src/db/entities/user-address.entity';
+import { UserFollowEntity } from 'src/db/entities/user-follow.entity';
+import { FollowAlertEntity } from 'src/db/entities/follow-alert.entity';
+import { NotificationPreferenceEntity } from 'src/db/entities/notification-preference.entity';
+import { EmailCorrespondenceEntity } from 'src/db/entities/email-correspondence.entity';
+import { NotificationDeliveryEntity } from 'src/db/entities/notification-delivery.entity';
+import { NotificationDigestEntity } from 'src/db/entities/notification-digest.entity';
+import { NotificationEntity } from 'src/db/entities/notification.entity';
+import { PushSubscriptionEntity } from 'src/db/entities/push-subscription.entity';
+import { UserProfileEntity } from 'src/db/entities/user-profile.entity';
+import { UserConsentEntity } from 'src/db/entities/user-consent.entity';
+import { CalendarFeedTokenEntity } from 'src/db/entities/calendar-feed-token.entity';
 import { AuditModule } from 'src/common/audit/audit.module';
 import { CaslModule } from 'src/permissions/casl.module';
 import { HealthModule } from 'src/common/health';
+import { SubscriptionsModule } from 'src/common/subscriptions';
 
 /**
  * Region App Module
  *
  * Handles civic data management for the region.
  * Syncs propositions, meetings, and representatives from the configured region provider.
+ * Ingests meeting agendas and minutes into a searchable civic collection.
+ * Notifies users about changes to what they follow.
  */
 @Module({
   imports: [
@@ -59,6 +87,10 @@ import { HealthModule } from 'src/common/health';
         secretsConfig,
         relationaldbConfig,
         regionConfig,
+        extractionConfig,
+        emailConfig,
+        notificationsConfig,
+        pushConfig,
       ],
       isGlobal: true,
     }),
@@ -69,8 +101,31 @@ import { HealthModule } from 'src/common/health';
       entities: [
         AuditLogEntity,
         PropositionEntity,
+        PropositionRevisionEntity,
         MeetingEntity,
+        MeetingDocumentEntity,
         RepresentativeEntity,
+        ElectionEntity,
+        BillEntity,
+        VoteEntity,
+        RaceEntity,
+        RegionSyncRunEntity,
+        // Read-only: user addresses are matched to representatives
+        UserEntity,
+        UserAddressEntity,
+        UserFollowEntity,
+        FollowAlertEntity,
+        // Read-only: notifications are delivered per preferences, consents
+        // and profile timezone
+        NotificationPreferenceEntity,
+        UserProfileEntity,
+        UserConsentEntity,
+        NotificationDeliveryEntity,
+        NotificationDigestEntity,
+        NotificationEntity,
+        PushSubscriptionEntity,
+        EmailCorrespondenceEntity,
+        CalendarFeedTokenEntity,
       ],
     }),
     AuditModule.forRoot(),
@@ -83,6 +138,7 @@ import { HealthModule } from 'src/common/health';
     }),
     CaslModule.forRoot(),
     RegionDomainModule,
+    SubscriptionsModule,
     HealthModule.forRoot({ serviceName: 'region-service', hasDatabase: true }),
   ],
   providers: SHARED_PROVIDERS,
@@ -92,5 +148,11 @@ export class AppModule implements NestModule {
     consumer
       .apply(LoggerMiddleware)
       .forRoutes({ path: '*', method: RequestMethod.ALL });
+    // SECURITY: Subscriptions are forwarded by the API Gateway with the
+    // user it authenticated, so only requests it signed are accepted
+    // @see https://github.com/CommonwealthLabsCode/qckstrt/issues/185
+    consumer
+      .apply(HMACMiddleware)
+      .forRoutes({ path: 'subscriptions', method: RequestMethod.POST });
   }
 }
@@ -0,0 +1,64 @@
+import { splitAgendaItems } from './agenda-items';
+
+describe('splitAgendaItems', () => {
+  it('should split numbered headings into items', () => {
+    const text = [
+      'CITY COUNCIL REGULAR MEETING',
+      'Call to order 6:30 PM',
+      '1. Roll Call',
+      '2.   Public   Comment',
+      'Speakers are limited to three minutes.',
+      '',
+      '7.2) Bike lane on Main Street',
+      'Approve the design contract.',
+      'Item 12A Adjournment',
+    ].join('\n');
+
+    expect(splitAgendaItems(text)).toEqual([
+      { number: '1', title: 'Roll Call', text: 'Roll Call' },
+      {
+        number: '2',
+        title: 'Public Comment',
+        text: 'Public Comment\nSpeakers are limited to three minutes.',
+      },
+      {
+        number: '7.2',
+        title: 'Bike lane on Main Street',
+        text: 'Bike lane on Main Street\nApprove the design contract.',
+      },
+      { number: '12A', title: 'Adjournment', text: 'Adjournment' },
+    ]);
+  });
+
+  it('should not treat numbers inside sentences as headings', () => {
+    const items = splitAgendaItems(
+      '1. Budget\n2024 revenue is up.\n3 members were absent.',
+    );
+
+    expect(items).toHaveLength(1);
+    expect(items[0].text).toBe(
+      'Budget\n2024 revenue is up.\n3 members were absent.',
+    );
+  });
+
+  it('should keep a document without headings as one item', () => {
+    expect(splitAgendaItems('Minutes of the Board\r\nAll present.')).toEqual([
+      {
+        title: 'Minutes of the Board',
+        text: 'Minutes of the Board\nAll present.',
+      },
+    ]);
+  });
+
+  it('should shorten long titles', () => {
+    const [item] = splitAgendaItems(`1. ${'x'.repeat(300)}`);
+
+    expect(item.title).toHaveLength(200);
+    expect(item.title.endsWith('…')).toBe(true);
+    expect(item.text).toHaveLength(300);
+  });
+
+  it('should return no items for empty text', () => {
+    expect(splitAgendaItems(' \n\n ')).toEqual([]);
+  });
+});
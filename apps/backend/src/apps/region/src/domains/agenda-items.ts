@@ -0,0 +1,60 @@
+/**
+ * Agenda Item Splitter
+ *
+ * Splits the extracted text of meeting agendas and minutes into numbered
+ * agenda items.
+ */
+
+import { AgendaItemJSON } from 'src/db/entities/meeting-document.entity';
+
+// Longest item title kept; the rest of a long heading stays in the text
+const MAX_TITLE_LENGTH = 200;
+
+// An item heading: "Item 4 Title", or a number followed by "." or ")"
+// ("4. Title", "7.2) Title", "12A. Title")
+const ITEM_HEADING =
+  /^(?:item\s+(\d+[a-z]?(?:\.\d+)*)[.):]?|(\d+[a-z]?(?:\.\d+)*)[.)])\s+(\S.*)$/i;
+
+/**
+ * Split the text of an agenda or minutes into agenda items
+ *
+ * Each numbered heading starts an item holding the lines up to the next
+ * heading; text before the first heading (call to order, notices) is left
+ * out. A document without numbered headings becomes one item titled by
+ * its first line.
+ */
+export function splitAgendaItems(text: string): AgendaItemJSON[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  if (lines.length === 0) return [];
+
+  const items: { number: string; lines: string[] }[] = [];
+  for (const line of lines) {
+    const heading = ITEM_HEADING.exec(line);
+    if (heading) {
+      items.push({ number: heading[1] ?? heading[2], lines: [heading[3]] });
+    } else {
+      items[items.length - 1]?.lines.push(line);
+    }
+  }
+
+  if (items.length === 0) {
+    return [{ title: toTitle(lines[0]), text: lines.join('\n') }];
+  }
+  return items.map((item) => ({
+    number: item.number,
+    title: toTitle(item.lines[0]),
+    text: item.lines.join('\n'),
+  }));
+}
+
+/**
+ * Shorten an item's first line to its title
+ */
+function toTitle(line: string): string {
+  return line.length > MAX_TITLE_LENGTH
+    ? `${line.slice(0, MAX_TITLE_LENGTH - 1)}…`
+    : line;
+}
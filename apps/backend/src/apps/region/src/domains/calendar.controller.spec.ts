@@ -0,0 +1,53 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createMock } from '@golevelup/ts-jest';
+import { CalendarController } from './calendar.controller';
+import { CalendarService } from './calendar.service';
+
+describe('CalendarController', () => {
+  let controller: CalendarController;
+  let calendarService: jest.Mocked<CalendarService>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CalendarController],
+      providers: [
+        { provide: CalendarService, useValue: createMock<CalendarService>() },
+      ],
+    }).compile();
+
+    controller = module.get(CalendarController);
+    calendarService = module.get(CalendarService);
+  });
+
+  it('should serve the region feed', async () => {
+    calendarService.getRegionCalendar.mockResolvedValue('BEGIN:VCALENDAR');
+
+    expect(await controller.regionFeed('springfield')).toBe('BEGIN:VCALENDAR');
+    expect(calendarService.getRegionCalendar).toHaveBeenCalledWith(
+      'springfield',
+    );
+  });
+
+  it('should serve a meeting body feed', async () => {
+    calendarService.getBodyCalendar.mockResolvedValue('BEGIN:VCALENDAR');
+
+    await controller.bodyFeed('springfield', 'City Council');
+
+    expect(calendarService.getBodyCalendar).toHaveBeenCalledWith(
+      'springfield',
+      'City Council',
+    );
+  });
+
+  it('should serve a user feed by token', async () => {
+    calendarService.getUserCalendar.mockRejectedValue(
+      new NotFoundException('Calendar feed not found'),
+    );
+
+    await expect(controller.userFeed('guess')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(calendarService.getUserCalendar).toHaveBeenCalledWith('guess');
+  });
+});
@@ -0,0 +1,46 @@
+import { Controller, Get, Header, Param } from '@nestjs/common';
+import { CalendarService } from './calendar.service';
+
+const CALENDAR_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+/**
+ * Calendar Controller
+ *
+ * Serves iCalendar (RFC 5545) feeds for calendar clients to subscribe to.
+ * Region and meeting body feeds are public; a user's feed is reached by
+ * the random token in its URL.
+ *
+ * Endpoints:
+ * - GET /calendar/regions/:regionId.ics - Meetings and election days
+ * - GET /calendar/regions/:regionId/bodies/:body.ics - One body's meetings
+ * - GET /calendar/feeds/:token.ics - A user's followed items
+ */
+@Controller('calendar')
+export class CalendarController {
+  constructor(private readonly calendarService: CalendarService) {}
+
+  @Get('regions/:regionId.ics')
+  @Header('Content-Type', CALENDAR_CONTENT_TYPE)
+  @Header('Cache-Control', 'public, max-age=900')
+  async regionFeed(@Param('regionId') regionId: string): Promise<string> {
+    return this.calendarService.getRegionCalendar(regionId);
+  }
+
+  @Get('regions/:regionId/bodies/:body.ics')
+  @Header('Content-Type', CALENDAR_CONTENT_TYPE)
+  @Header('Cache-Control', 'public, max-age=900')
+  async bodyFeed(
+    @Param('regionId') regionId: string,
+    @Param('body') body: string,
+  ): Promise<string> {
+    return this.calendarService.getBodyCalendar(regionId, body);
+  }
+
+  @Get('feeds/:token.ics')
+  @Header('Content-Type', CALENDAR_CONTENT_TYPE)
+  // The URL is a credential, so shared caches must not keep the feed
+  @Header('Cache-Control', 'private, max-age=900')
+  async userFeed(@Param('token') token: string): Promise<string> {
+    return this.calendarService.getUserCalendar(token);
+  }
+}
@@ -0,0 +1,67 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { createMock } from '@golevelup/ts-jest';
+import { UserInputError } from '@nestjs/apollo';
+import { UnknownRegionError } from '@qckstrt/region-provider';
+import { GqlContext } from 'src/common/utils/graphql-context';
+import { CalendarResolver } from './calendar.resolver';
+import { CalendarService } from './calendar.service';
+
+describe('CalendarResolver', () => {
+  let resolver: CalendarResolver;
+  let calendarService: jest.Mocked<CalendarService>;
+
+  const context = {
+    req: { user: { id: 'user-1', email: 'user@example.com' }, headers: {} },
+  } as unknown as GqlContext;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CalendarResolver,
+        { provide: CalendarService, useValue: createMock<CalendarService>() },
+      ],
+    }).compile();
+
+    resolver = module.get(CalendarResolver);
+    calendarService = module.get(CalendarService);
+  });
+
+  describe('regionCalendarFeeds', () => {
+    it('should return the feed URLs', async () => {
+      const feeds = {
+        regionUrl: 'https://region.example.com/calendar/regions/a.ics',
+        bodies: [],
+      };
+      calendarService.getFeedUrls.mockResolvedValue(feeds);
+
+      expect(await resolver.regionCalendarFeeds('a')).toBe(feeds);
+      expect(calendarService.getFeedUrls).toHaveBeenCalledWith('a');
+    });
+
+    it('should reject unknown regions as user input errors', async () => {
+      calendarService.getFeedUrls.mockRejectedValue(
+        new UnknownRegionError('b'),
+      );
+
+      await expect(resolver.regionCalendarFeeds('b')).rejects.toThrow(
+        UserInputError,
+      );
+    });
+  });
+
+  it("should create the signed-in user's feed URL", async () => {
+    calendarService.createUserFeedUrl.mockResolvedValue('https://x/feed.ics');
+
+    expect(await resolver.createMyCalendarFeedUrl(context)).toBe(
+      'https://x/feed.ics',
+    );
+    expect(calendarService.createUserFeedUrl).toHaveBeenCalledWith('user-1');
+  });
+
+  it("should revoke the signed-in user's feed", async () => {
+    calendarService.revokeUserFeed.mockResolvedValue(true);
+
+    expect(await resolver.revokeMyCalendarFeed(context)).toBe(true);
+    expect(calendarService.revokeUserFeed).toHaveBeenCalledWith('user-1');
+  });
+});
@@ -0,0 +1,61 @@
+import { Args, Context, Mutation, Query, Resolver } from '@nestjs/graphql';
+import { UserInputError } from '@nestjs/apollo';
+import { UnknownRegionError } from '@qckstrt/region-provider';
+import {
+  GqlContext,
+  getUserFromContext,
+} from 'src/common/utils/graphql-context';
+import { CalendarService } from './calendar.service';
+import { RegionCalendarFeedsModel } from './models/calendar-feed.model';
+
+/**
+ * Calendar Resolver
+ *
+ * Hands out the URLs of the iCalendar feeds served by CalendarController.
+ */
+@Resolver()
+export class CalendarResolver {
+  constructor(private readonly calendarService: CalendarService) {}
+
+  /**
+   * Get the public feed URLs of a region and its meeting bodies
+   */
+  @Query(() => RegionCalendarFeedsModel)
+  async regionCalendarFeeds(
+    @Args({ name: 'regionId', nullable: true }) regionId?: string,
+  ): Promise<RegionCalendarFeedsModel> {
+    try {
+      return await this.calendarService.getFeedUrls(regionId);
+    } catch (error) {
+      if (error instanceof UnknownRegionError) {
+        throw new UserInputError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create the URL of the signed-in user's feed of followed items
+   *
+   * The URL is the only credential for the feed, so it is shown once;
+   * creating another one revokes the previous URL.
+   */
+  @Mutation(() => String)
+  async createMyCalendarFeedUrl(
+    @Context() context: GqlContext,
+  ): Promise<string> {
+    const user = getUserFromContext(context);
+    return this.calendarService.createUserFeedUrl(user.id);
+  }
+
+  /**
+   * Revoke the signed-in user's feed URL
+   *
+   * Returns false if the user had none.
+   */
+  @Mutation(() => Boolean)
+  async revokeMyCalendarFeed(@Context() context: GqlContext): Promise<boolean> {
+    const user = getUserFromContext(context);
+    return this.calendarService.revokeUserFeed(user.id);
+  }
+}
@@ -0,0 +1,341 @@
+import { createHash } from 'node:crypto';
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { createMock } from '@golevelup/ts-jest';
+import { UnknownRegionError } from '@qckstrt/region-provider';
+import { MeetingEntity } from 'src/db/entities/meeting.entity';
+import { PropositionEntity } from 'src/db/entities/proposition.entity';
+import { CalendarFeedTokenEntity } from 'src/db/entities/calendar-feed-token.entity';
+import {
+  FollowTargetType,
+  UserFollowEntity,
+} from 'src/db/entities/user-follow.entity';
+import { CalendarService } from './calendar.service';
+import { RegionDomainService } from './region.service';
+import { RegionInfoModel } from './models/region-info.model';
+
+describe('CalendarService', () => {
+  let service: CalendarService;
+  let regionService: jest.Mocked<RegionDomainService>;
+  let meetingRepo: {
+    find: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+  let propositionRepo: { find: jest.Mock };
+  let followRepo: { find: jest.Mock };
+  let tokenRepo: { findOne: jest.Mock; upsert: jest.Mock; delete: jest.Mock };
+
+  const updatedAt = new Date('2024-10-01T12:00:00Z');
+
+  const meeting = {
+    id: 'meeting-uuid',
+    regionId: 'springfield',
+    externalId: 'm-1',
+    title: 'Regular Meeting',
+    body: 'City Council',
+    scheduledAt: new Date('2024-10-08T23:30:00Z'),
+    location: 'City Hall',
+    agendaUrl: 'https://example.gov/agenda.pdf',
+    updatedAt,
+  } as MeetingEntity;
+
+  const propositions = [
+    {
+      id: 'prop-a',
+      regionId: 'springfield',
+      title: 'Library Parcel Tax',
+      electionDate: new Date('2024-11-05T08:00:00Z'),
+      updatedAt,
+    },
+    {
+      id: 'prop-b',
+      regionId: 'springfield',
+      title: 'Road Bond',
+      electionDate: new Date('2024-11-05T08:00:00Z'),
+      updatedAt: new Date('2024-10-02T12:00:00Z'),
+    },
+  ] as PropositionEntity[];
+
+  const regionInfo = {
+    id: 'springfield',
+    name: 'Springfield',
+    timezone: 'America/Los_Angeles',
+  } as RegionInfoModel;
+
+  beforeEach(async () => {
+    meetingRepo = {
+      find: jest.fn().mockResolvedValue([]),
+      createQueryBuilder: jest.fn(),
+    };
+    propositionRepo = { find: jest.fn().mockResolvedValue([]) };
+    followRepo = { find: jest.fn().mockResolvedValue([]) };
+    tokenRepo = {
+      findOne: jest.fn(),
+      upsert: jest.fn().mockResolvedValue({}),
+      delete: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+
+    const configService = createMock<ConfigService>();
+    configService.get.mockImplementation((key: string) =>
+      key === 'region.calendarBaseUrl'
+        ? 'https://region.example.com/'
+        : undefined,
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CalendarService,
+        { provide: getRepositoryToken(MeetingEntity), useValue: meetingRepo },
+        {
+          provide: getRepositoryToken(PropositionEntity),
+          useValue: propositionRepo,
+        },
+        { provide: getRepositoryToken(UserFollowEntity), useValue: followRepo },
+        {
+          provide: getRepositoryToken(CalendarFeedTokenEntity),
+          useValue: tokenRepo,
+        },
+        {
+          provide: RegionDomainService,
+          useValue: createMock<RegionDomainService>(),
+        },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = module.get(CalendarService);
+    regionService = module.get(RegionDomainService);
+    regionService.getRegionInfo.mockReturnValue(regionInfo);
+  });
+
+  describe('getRegionCalendar', () => {
+    it('should include meetings and one event per election day', async () => {
+      meetingRepo.find.mockResolvedValue([meeting]);
+      propositionRepo.find.mockResolvedValue(propositions);
+
+      const ics = await service.getRegionCalendar('springfield');
+
+      expect(ics).toContain('X-WR-CALNAME:Springfield Meetings and Elections');
+      expect(ics).toContain('X-WR-TIMEZONE:America/Los_Angeles');
+      expect(ics).toContain('UID:meeting-meeting-uuid@calendar.qckstrt');
+      expect(ics).toContain('DTSTART:20241008T233000Z');
+      expect(ics).toContain('LOCATION:City Hall');
+      expect(ics).toContain(
+        'DESCRIPTION:City Council\\nAgenda: https://example.gov/agenda.pdf',
+      );
+      expect(ics).toContain('URL:https://example.gov/agenda.pdf');
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+      expect(ics).toContain(
+        'UID:election-springfield-2024-11-05@calendar.qckstrt',
+      );
+      expect(ics).toContain('DTSTART;VALUE=DATE:20241105');
+      expect(ics).toContain(
+        'DESCRIPTION:On the ballot:\\n- Library Parcel Tax\\n- Road Bond',
+      );
+      // Election days change when any of their measures do
+      expect(ics).toContain('LAST-MODIFIED:20241002T120000Z');
+    });
+
+    it('should take election dates in the region timezone', async () => {
+      propositionRepo.find.mockResolvedValue([
+        { ...propositions[0], electionDate: new Date('2024-11-06T03:00:00Z') },
+      ]);
+
+      const ics = await service.getRegionCalendar('springfield');
+
+      expect(ics).toContain('DTSTART;VALUE=DATE:20241105');
+    });
+
+    it('should only query the region, from 90 days back', async () => {
+      await service.getRegionCalendar('springfield');
+
+      const [{ where }] = meetingRepo.find.mock.calls[0];
+      expect(where.regionId).toBe('springfield');
+      const since = where.scheduledAt.value as Date;
+      expect(Date.now() - since.getTime()).toBeCloseTo(
+        90 * 24 * 60 * 60 * 1000,
+        -4,
+      );
+    });
+
+    it('should throw NotFoundException for unknown regions', async () => {
+      regionService.getRegionInfo.mockImplementation(() => {
+        throw new UnknownRegionError('shelbyville');
+      });
+
+      await expect(service.getRegionCalendar('shelbyville')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('getBodyCalendar', () => {
+    it("should include only the body's meetings", async () => {
+      meetingRepo.find.mockResolvedValue([meeting]);
+
+      const ics = await service.getBodyCalendar('springfield', 'City Council');
+
+      expect(meetingRepo.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            regionId: 'springfield',
+            body: 'City Council',
+          }),
+        }),
+      );
+      expect(ics).toContain('X-WR-CALNAME:City Council (Springfield)');
+      expect(ics).toContain('UID:meeting-meeting-uuid@calendar.qckstrt');
+      expect(propositionRepo.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getUserCalendar', () => {
+    const token = 'feed-token';
+
+    it('should include followed bodies and propositions', async () => {
+      tokenRepo.findOne.mockResolvedValue({ userId: 'user-1' });
+      followRepo.find.mockResolvedValue([
+        {
+          regionId: 'springfield',
+          targetType: FollowTargetType.MEETING_BODY,
+          targetId: 'City Council',
+        },
+        {
+          regionId: 'springfield',
+          targetType: FollowTargetType.PROPOSITION,
+          targetId: 'prop-a',
+        },
+        {
+          regionId: 'springfield',
+          targetType: FollowTargetType.REPRESENTATIVE,
+          targetId: 'rep-1',
+        },
+      ]);
+      meetingRepo.find.mockResolvedValue([meeting]);
+      propositionRepo.find.mockResolvedValue([propositions[0]]);
+
+      const ics = await service.getUserCalendar(token);
+
+      expect(tokenRepo.findOne).toHaveBeenCalledWith({
+        where: {
+          tokenHash: createHash('sha256').update(token).digest('hex'),
+        },
+      });
+      expect(followRepo.find).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+      });
+      expect(meetingRepo.find.mock.calls[0][0].where).toEqual([
+        expect.objectContaining({
+          regionId: 'springfield',
+          body: 'City Council',
+        }),
+      ]);
+      expect(propositionRepo.find.mock.calls[0][0].where.id.value).toEqual([
+        'prop-a',
+      ]);
+      expect(ics).toContain('X-WR-CALNAME:My Civic Calendar');
+      expect(ics).toContain('UID:meeting-meeting-uuid@calendar.qckstrt');
+      expect(ics).toContain(
+        'DESCRIPTION:On the ballot:\\n- Library Parcel Tax',
+      );
+    });
+
+    it('should skip queries for kinds the user does not follow', async () => {
+      tokenRepo.findOne.mockResolvedValue({ userId: 'user-1' });
+
+      const ics = await service.getUserCalendar(token);
+
+      expect(meetingRepo.find).not.toHaveBeenCalled();
+      expect(propositionRepo.find).not.toHaveBeenCalled();
+      expect(ics).not.toContain('BEGIN:VEVENT');
+    });
+
+    it('should throw NotFoundException for unknown tokens', async () => {
+      tokenRepo.findOne.mockResolvedValue(null);
+
+      await expect(service.getUserCalendar('guess')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('createUserFeedUrl', () => {
+    it('should store only the hash of a random token', async () => {
+      const url = await service.createUserFeedUrl('user-1');
+
+      const [, token] = /\/calendar\/feeds\/([\w-]+)\.ics$/.exec(url)!;
+      expect(url).toBe(
+        `https://region.example.com/calendar/feeds/${token}.ics`,
+      );
+      expect(token.length).toBeGreaterThanOrEqual(43);
+      expect(tokenRepo.upsert).toHaveBeenCalledWith(
+        {
+          userId: 'user-1',
+          tokenHash: createHash('sha256').update(token).digest('hex'),
+          createdAt: expect.any(Date),
+        },
+        ['userId'],
+      );
+    });
+
+    it('should create a different token each time', async () => {
+      const first = await service.createUserFeedUrl('user-1');
+      const second = await service.createUserFeedUrl('user-1');
+
+      expect(second).not.toBe(first);
+    });
+  });
+
+  describe('revokeUserFeed', () => {
+    it("should delete the user's token", async () => {
+      expect(await service.revokeUserFeed('user-1')).toBe(true);
+      expect(tokenRepo.delete).toHaveBeenCalledWith({ userId: 'user-1' });
+    });
+
+    it('should return false without a token', async () => {
+      tokenRepo.delete.mockResolvedValue({ affected: 0 });
+
+      expect(await service.revokeUserFeed('user-1')).toBe(false);
+    });
+  });
+
+  describe('getFeedUrls', () => {
+    it('should list the region feed and one feed per body', async () => {
+      const qb = {
+        select: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        orderBy: jest.fn().mockReturnThis(),
+        getRawMany: jest
+          .fn()
+          .mockResolvedValue([
+            { body: 'City Council' },
+            { body: 'Planning Commission' },
+          ]),
+      };
+      meetingRepo.createQueryBuilder.mockReturnValue(qb);
+
+      const feeds = await service.getFeedUrls();
+
+      expect(regionService.getRegionInfo).toHaveBeenCalledWith(undefined);
+      expect(qb.where).toHaveBeenCalledWith('m.regionId = :regionId', {
+        regionId: 'springfield',
+      });
+      expect(feeds).toEqual({
+        regionUrl:
+          'https://region.example.com/calendar/regions/springfield.ics',
+        bodies: [
+          {
+            body: 'City Council',
+            url: 'https://region.example.com/calendar/regions/springfield/bodies/City%20Council.ics',
+          },
+          {
+            body: 'Planning Commission',
+            url: 'https://region.example.com/calendar/regions/springfield/bodies/Planning%20Commission.ics',
+          },
+        ],
+      });
+    });
+  });
+});
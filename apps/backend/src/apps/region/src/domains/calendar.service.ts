@@ -0,0 +1,318 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, In, MoreThanOrEqual, Repository } from 'typeorm';
+import { UnknownRegionError } from '@qckstrt/region-provider';
+import { MeetingEntity } from 'src/db/entities/meeting.entity';
+import { PropositionEntity } from 'src/db/entities/proposition.entity';
+import { CalendarFeedTokenEntity } from 'src/db/entities/calendar-feed-token.entity';
+import {
+  FollowTargetType,
+  UserFollowEntity,
+} from 'src/db/entities/user-follow.entity';
+import { RegionDomainService } from './region.service';
+import { CalendarEvent, toLocalDate, writeCalendar } from './ical';
+
+// Right-hand side of every event UID
+const UID_DOMAIN = 'calendar.qckstrt';
+
+// Sources give no end time, so meetings are shown as one hour long
+const MEETING_DURATION_MINUTES = 60;
+
+// How far back feeds include past meetings and elections
+const FEED_HISTORY_DAYS = 90;
+
+/**
+ * Calendar Service
+ *
+ * Writes iCalendar feeds of meetings and election dates: one per region,
+ * one per meeting body, and one per user of the items they follow.
+ *
+ * Event UIDs are derived from record IDs (or the region and date for
+ * election days), so calendar clients update events instead of adding
+ * duplicates when a feed refreshes.
+ */
+@Injectable()
+export class CalendarService {
+  private readonly baseUrl: string;
+
+  constructor(
+    @InjectRepository(MeetingEntity)
+    private readonly meetingRepo: Repository<MeetingEntity>,
+    @InjectRepository(PropositionEntity)
+    private readonly propositionRepo: Repository<PropositionEntity>,
+    @InjectRepository(UserFollowEntity)
+    private readonly followRepo: Repository<UserFollowEntity>,
+    @InjectRepository(CalendarFeedTokenEntity)
+    private readonly tokenRepo: Repository<CalendarFeedTokenEntity>,
+    private readonly regionService: RegionDomainService,
+    configService: ConfigService,
+  ) {
+    this.baseUrl = (
+      configService.get<string>('region.calendarBaseUrl') ?? ''
+    ).replace(/\/+$/, '');
+  }
+
+  /**
+   * Feed of a region's meetings and election days
+   *
+   * @throws NotFoundException if the region is not configured
+   */
+  async getRegionCalendar(regionId: string): Promise<string> {
+    const region = this.getRegion(regionId);
+    const since = this.getFeedStart();
+
+    const [meetings, propositions] = await Promise.all([
+      this.meetingRepo.find({
+        where: { regionId, scheduledAt: MoreThanOrEqual(since) },
+        order: { scheduledAt: 'ASC' },
+      }),
+      this.propositionRepo.find({
+        where: { regionId, electionDate: MoreThanOrEqual(since) },
+        order: { electionDate: 'ASC' },
+      }),
+    ]);
+
+    return writeCalendar({
+      name: `${region.name} Meetings and Elections`,
+      timezone: region.timezone,
+      events: [
+        ...meetings.map((meeting) => this.toMeetingEvent(meeting)),
+        ...this.toElectionEvents(propositions, region.timezone),
+      ],
+    });
+  }
+
+  /**
+   * Feed of one meeting body's meetings
+   *
+   * @throws NotFoundException if the region is not configured
+   */
+  async getBodyCalendar(regionId: string, body: string): Promise<string> {
+    const region = this.getRegion(regionId);
+
+    const meetings = await this.meetingRepo.find({
+      where: {
+        regionId,
+        body,
+        scheduledAt: MoreThanOrEqual(this.getFeedStart()),
+      },
+      order: { scheduledAt: 'ASC' },
+    });
+
+    return writeCalendar({
+      name: `${body} (${region.name})`,
+      timezone: region.timezone,
+      events: meetings.map((meeting) => this.toMeetingEvent(meeting)),
+    });
+  }
+
+  /**
+   * Feed of the meetings and election days of what a user follows
+   *
+   * Followed meeting bodies give their meetings; followed propositions give
+   * their election days.
+   *
+   * @throws NotFoundException if the token is unknown or was replaced
+   */
+  async getUserCalendar(token: string): Promise<string> {
+    const feedToken = await this.tokenRepo.findOne({
+      where: { tokenHash: this.hashToken(token) },
+    });
+    if (!feedToken) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    const follows = await this.followRepo.find({
+      where: { userId: feedToken.userId },
+    });
+    const since = this.getFeedStart();
+
+    const bodies = follows.filter(
+      (follow) => follow.targetType === FollowTargetType.MEETING_BODY,
+    );
+    const propositionIds = follows
+      .filter((follow) => follow.targetType === FollowTargetType.PROPOSITION)
+      .map((follow) => follow.targetId);
+
+    const [meetings, propositions]: [MeetingEntity[], PropositionEntity[]] =
+      await Promise.all([
+        bodies.length > 0
+          ? this.meetingRepo.find({
+              where: bodies.map(
+                ({ regionId, targetId }): FindOptionsWhere<MeetingEntity> => ({
+                  regionId,
+                  body: targetId,
+                  scheduledAt: MoreThanOrEqual(since),
+                }),
+              ),
+              order: { scheduledAt: 'ASC' },
+            })
+          : [],
+        propositionIds.length > 0
+          ? this.propositionRepo.find({
+              where: {
+                id: In(propositionIds),
+                electionDate: MoreThanOrEqual(since),
+              },
+              order: { electionDate: 'ASC' },
+            })
+          : [],
+      ]);
+
+    const regionIds = [
+      ...new Set(propositions.map((proposition) => proposition.regionId)),
+    ];
+    return writeCalendar({
+      name: 'My Civic Calendar',
+      timezone: this.findTimezone(follows[0]?.regionId),
+      events: [
+        ...meetings.map((meeting) => this.toMeetingEvent(meeting)),
+        ...regionIds.flatMap((regionId) =>
+          this.toElectionEvents(
+            propositions.filter((p) => p.regionId === regionId),
+            this.findTimezone(regionId) ?? 'UTC',
+          ),
+        ),
+      ],
+    });
+  }
+
+  /**
+   * Create the URL of a user's personal feed
+   *
+   * The token is only returned here; creating a new one revokes the
+   * previous URL.
+   */
+  async createUserFeedUrl(userId: string): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+
+    await this.tokenRepo.upsert(
+      { userId, tokenHash: this.hashToken(token), createdAt: new Date() },
+      ['userId'],
+    );
+
+    return `${this.baseUrl}/calendar/feeds/${token}.ics`;
+  }
+
+  /**
+   * Revoke a user's personal feed URL
+   *
+   * @returns Whether the user had one
+   */
+  async revokeUserFeed(userId: string): Promise<boolean> {
+    const result = await this.tokenRepo.delete({ userId });
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * URLs of a region's feed and of each of its meeting bodies' feeds
+   *
+   * @throws UnknownRegionError if regionId is not a configured region
+   */
+  async getFeedUrls(
+    regionId?: string,
+  ): Promise<{ regionUrl: string; bodies: { body: string; url: string }[] }> {
+    const { id } = this.regionService.getRegionInfo(regionId);
+    const regionUrl = `${this.baseUrl}/calendar/regions/${encodeURIComponent(id)}`;
+
+    const rows = await this.meetingRepo
+      .createQueryBuilder('m')
+      .select('DISTINCT m.body', 'body')
+      .where('m.regionId = :regionId', { regionId: id })
+      .orderBy('body', 'ASC')
+      .getRawMany<{ body: string }>();
+
+    return {
+      regionUrl: `${regionUrl}.ics`,
+      bodies: rows.map(({ body }) => ({
+        body,
+        url: `${regionUrl}/bodies/${encodeURIComponent(body)}.ics`,
+      })),
+    };
+  }
+
+  private toMeetingEvent(meeting: MeetingEntity): CalendarEvent {
+    const description = [
+      meeting.body,
+      meeting.agendaUrl && `Agenda: ${meeting.agendaUrl}`,
+      meeting.videoUrl && `Video: ${meeting.videoUrl}`,
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    return {
+      uid: `meeting-${meeting.id}@${UID_DOMAIN}`,
+      summary: meeting.title,
+      start: meeting.scheduledAt,
+      durationMinutes: MEETING_DURATION_MINUTES,
+      location: meeting.location,
+      description,
+      url: meeting.agendaUrl ?? meeting.videoUrl,
+      lastModified: meeting.updatedAt,
+    };
+  }
+
+  /**
+   * One all-day event per election date, listing the measures on the ballot
+   *
+   * Dates are taken in the region's timezone.
+   */
+  private toElectionEvents(
+    propositions: PropositionEntity[],
+    timezone: string,
+  ): CalendarEvent[] {
+    const elections = new Map<string, PropositionEntity[]>();
+    for (const proposition of propositions) {
+      const date = toLocalDate(proposition.electionDate!, timezone);
+      elections.set(date, [...(elections.get(date) ?? []), proposition]);
+    }
+
+    return [...elections].map(([date, measures]) => ({
+      uid: `election-${measures[0].regionId}-${date}@${UID_DOMAIN}`,
+      summary: 'Election Day',
+      start: date,
+      description: [
+        'On the ballot:',
+        ...measures.map((measure) => `- ${measure.title}`),
+      ].join('\n'),
+      lastModified: new Date(
+        Math.max(...measures.map((measure) => measure.updatedAt.getTime())),
+      ),
+    }));
+  }
+
+  private getRegion(regionId: string) {
+    try {
+      return this.regionService.getRegionInfo(regionId);
+    } catch (error) {
+      if (error instanceof UnknownRegionError) {
+        throw new NotFoundException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Timezone of a region, if it is still configured
+   */
+  private findTimezone(regionId: string | undefined): string | undefined {
+    if (!regionId) {
+      return undefined;
+    }
+    try {
+      return this.regionService.getRegionInfo(regionId).timezone;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private getFeedStart(): Date {
+    return new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
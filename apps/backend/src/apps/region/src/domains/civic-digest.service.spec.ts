@@ -0,0 +1,343 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { createMock } from '@golevelup/ts-jest';
+import { Between, In } from 'typeorm';
+import { PropositionEntity } from 'src/db/entities/proposition.entity';
+import { MeetingEntity } from 'src/db/entities/meeting.entity';
+import { UserAddressEntity } from 'src/db/entities/user-address.entity';
+import { NotificationCategory } from 'src/db/entities/notification-delivery.entity';
+import { NotificationFrequency } from 'src/db/entities/notification-preference.entity';
+import {
+  DigestRequest,
+  NotificationDigestService,
+} from 'src/common/notifications';
+import { CivicDigestService } from './civic-digest.service';
+import { RegionDomainService } from './region.service';
+import { RegionInfoModel } from './models/region-info.model';
+import { VoterDeadlineType } from './models/election.model';
+import { MyBallotModel } from './models/my-ballot.model';
+
+describe('CivicDigestService', () => {
+  let service: CivicDigestService;
+  let regionService: jest.Mocked<RegionDomainService>;
+  let digestService: jest.Mocked<NotificationDigestService>;
+  let propositionRepo: { find: jest.Mock };
+  let meetingRepo: { find: jest.Mock };
+  let addressRepo: { findOne: jest.Mock };
+
+  const since = new Date('2024-03-11T14:00:00Z');
+  const until = new Date('2024-03-12T14:00:00Z');
+
+  const request = (overrides: Partial<DigestRequest> = {}): DigestRequest => ({
+    userId: 'user-1',
+    frequency: NotificationFrequency.DAILY_DIGEST,
+    since,
+    until,
+    categories: [
+      NotificationCategory.CIVIC_BALLOT_UPDATE,
+      NotificationCategory.CIVIC_LOCAL_NEWS,
+      NotificationCategory.CIVIC_VOTER_DEADLINE,
+    ],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    propositionRepo = { find: jest.fn().mockResolvedValue([]) };
+    meetingRepo = { find: jest.fn().mockResolvedValue([]) };
+    addressRepo = { findOne: jest.fn().mockResolvedValue(null) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CivicDigestService,
+        {
+          provide: getRepositoryToken(PropositionEntity),
+          useValue: propositionRepo,
+        },
+        { provide: getRepositoryToken(MeetingEntity), useValue: meetingRepo },
+        {
+          provide: getRepositoryToken(UserAddressEntity),
+          useValue: addressRepo,
+        },
+        {
+          provide: NotificationDigestService,
+          useValue: createMock<NotificationDigestService>(),
+        },
+        {
+          provide: RegionDomainService,
+          useValue: createMock<RegionDomainService>(),
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'FRONTEND_URL' ? 'https://app.example.com' : undefined,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(CivicDigestService);
+    regionService = module.get(RegionDomainService);
+    digestService = module.get(NotificationDigestService);
+
+    regionService.getRegionIds.mockReturnValue(['springfield', 'shelbyville']);
+    regionService.getRegionInfo.mockReturnValue({
+      id: 'springfield',
+      timezone: 'America/Los_Angeles',
+    } as RegionInfoModel);
+    regionService.getVoterDeadlines.mockResolvedValue([]);
+  });
+
+  describe('onModuleInit', () => {
+    it('should add civic sections to digests', async () => {
+      const collect = jest.spyOn(service, 'collect').mockResolvedValue([]);
+
+      service.onModuleInit();
+      const source = digestService.addSource.mock.calls[0][0];
+      await source(request());
+
+      expect(collect).toHaveBeenCalledWith(request());
+    });
+  });
+
+  describe('collect', () => {
+    it('should list new and changed propositions', async () => {
+      propositionRepo.find.mockResolvedValue([
+        {
+          title: 'Prop 12 - Housing Bond',
+          status: 'passed',
+          regionId: 'springfield',
+          electionDate: new Date('2024-11-05T16:00:00Z'),
+          createdAt: new Date('2024-01-02T00:00:00Z'),
+        },
+        {
+          title: 'Prop 13 - Parks',
+          status: 'pending',
+          regionId: 'springfield',
+          createdAt: new Date('2024-03-12T01:00:00Z'),
+        },
+      ]);
+
+      const [section] = await service.collect(
+        request({ categories: [NotificationCategory.CIVIC_BALLOT_UPDATE] }),
+      );
+
+      expect(propositionRepo.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: [
+            { regionId: In(['springfield']), createdAt: Between(since, until) },
+            { regionId: In(['springfield']), updatedAt: Between(since, until) },
+          ],
+        }),
+      );
+      expect(section).toEqual({
+        category: NotificationCategory.CIVIC_BALLOT_UPDATE,
+        title: 'Propositions',
+        items: [
+          {
+            title: 'Updated: Prop 12 - Housing Bond',
+            lines: ['Status: passed', 'On the ballot Nov 5, 2024'],
+            url: 'https://app.example.com/region/propositions',
+          },
+          {
+            title: 'New: Prop 13 - Parks',
+            lines: ['Status: pending'],
+            url: 'https://app.example.com/region/propositions',
+          },
+        ],
+      });
+    });
+
+    it('should list meetings before the next digest in the region timezone', async () => {
+      meetingRepo.find.mockResolvedValue([
+        {
+          title: 'Regular Meeting',
+          body: 'City Council',
+          regionId: 'springfield',
+          scheduledAt: new Date('2024-03-13T01:30:00Z'),
+          location: 'City Hall',
+        },
+      ]);
+
+      const [section] = await service.collect(
+        request({ categories: [NotificationCategory.CIVIC_LOCAL_NEWS] }),
+      );
+
+      expect(meetingRepo.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            regionId: In(['springfield']),
+            scheduledAt: Between(until, new Date('2024-03-14T14:00:00Z')),
+          },
+        }),
+      );
+      expect(section.items).toEqual([
+        {
+          title: 'City Council: Regular Meeting',
+          lines: ['Mar 12, 2024, 6:30 PM', 'City Hall'],
+          url: 'https://app.example.com/region/meetings',
+        },
+      ]);
+    });
+
+    it('should list voter deadlines in the next two weeks', async () => {
+      regionService.getVoterDeadlines.mockResolvedValue([
+        {
+          type: VoterDeadlineType.EARLY_VOTING,
+          date: new Date('2024-03-16T16:00:00Z'),
+          endDate: new Date('2024-03-18T16:00:00Z'),
+          electionId: 'election-1',
+          electionName: 'Primary Election',
+          electionDate: new Date('2024-03-19T16:00:00Z'),
+          regionId: 'springfield',
+        },
+      ]);
+
+      const [section] = await service.collect(
+        request({ categories: [NotificationCategory.CIVIC_VOTER_DEADLINE] }),
+      );
+
+      expect(regionService.getVoterDeadlines).toHaveBeenCalledWith(
+        'springfield',
+        until,
+        new Date('2024-03-26T14:00:00Z'),
+      );
+      expect(section.items).toEqual([
+        {
+          title: 'Early voting: Primary Election',
+          lines: ['Mar 16, 2024 to Mar 18, 2024'],
+          url: 'https://app.example.com/region',
+        },
+      ]);
+    });
+
+    describe('with a primary address', () => {
+      const address = {
+        id: 'address-1',
+        state: 'IL',
+        municipality: 'Shelbyville',
+      } as UserAddressEntity;
+
+      beforeEach(() => {
+        addressRepo.findOne.mockResolvedValue(address);
+        regionService.getRegionIdsForAddress.mockReturnValue(['shelbyville']);
+        regionService.getBallotForAddress.mockResolvedValue(null);
+      });
+
+      it('should use the regions containing the address', async () => {
+        await service.collect(
+          request({ categories: [NotificationCategory.CIVIC_LOCAL_NEWS] }),
+        );
+
+        expect(addressRepo.findOne).toHaveBeenCalledWith({
+          where: { userId: 'user-1', isPrimary: true },
+        });
+        expect(regionService.getRegionIdsForAddress).toHaveBeenCalledWith(
+          address,
+        );
+        expect(meetingRepo.find).toHaveBeenCalledWith(
+          expect.objectContaining({
+            where: expect.objectContaining({ regionId: In(['shelbyville']) }),
+          }),
+        );
+      });
+
+      it('should only list meetings of bodies governing the address', async () => {
+        meetingRepo.find.mockResolvedValue(
+          [
+            'Springfield City Council',
+            'Shelbyville City Council',
+            'Planning Commission',
+          ].map((body) => ({
+            title: 'Regular Meeting',
+            body,
+            regionId: 'shelbyville',
+            scheduledAt: new Date('2024-03-13T01:30:00Z'),
+          })),
+        );
+
+        const [section] = await service.collect(
+          request({ categories: [NotificationCategory.CIVIC_LOCAL_NEWS] }),
+        );
+
+        expect(section.items.map((item) => item.title)).toEqual([
+          'Shelbyville City Council: Regular Meeting',
+          'Planning Commission: Regular Meeting',
+        ]);
+      });
+
+      it("should list races on the address's ballot changed since the last digest", async () => {
+        const race = {
+          regionId: 'shelbyville',
+          electionDate: new Date('2024-11-05T16:00:00Z'),
+          createdAt: new Date('2024-01-02T00:00:00Z'),
+          updatedAt: new Date('2024-01-02T00:00:00Z'),
+          candidates: [{ name: 'Pat Lee' }, { name: 'Sam Roe' }],
+        };
+        regionService.getBallotForAddress.mockResolvedValue({
+          addressId: 'address-1',
+          races: [
+            {
+              race: {
+                ...race,
+                office: 'Mayor',
+                createdAt: new Date('2024-03-12T01:00:00Z'),
+                updatedAt: new Date('2024-03-12T01:00:00Z'),
+              },
+            },
+            {
+              race: {
+                ...race,
+                office: 'State Senate District 1',
+                updatedAt: new Date('2024-03-12T02:00:00Z'),
+              },
+            },
+            { race: { ...race, office: 'Governor' } },
+          ],
+          missingDistricts: [],
+        } as unknown as MyBallotModel);
+
+        const sections = await service.collect(
+          request({ categories: [NotificationCategory.CIVIC_BALLOT_UPDATE] }),
+        );
+
+        expect(regionService.getBallotForAddress).toHaveBeenCalledWith(
+          'user-1',
+          'address-1',
+        );
+        expect(sections[1]).toEqual({
+          category: NotificationCategory.CIVIC_BALLOT_UPDATE,
+          title: 'Races on your ballot',
+          items: [
+            {
+              title: 'New: Mayor',
+              lines: [
+                'On the ballot Nov 5, 2024',
+                'Candidates: Pat Lee, Sam Roe',
+              ],
+              url: 'https://app.example.com/region',
+            },
+            {
+              title: 'Updated: State Senate District 1',
+              lines: [
+                'On the ballot Nov 5, 2024',
+                'Candidates: Pat Lee, Sam Roe',
+              ],
+              url: 'https://app.example.com/region',
+            },
+          ],
+        });
+      });
+    });
+
+    it('should only collect the categories the user wants', async () => {
+      expect(await service.collect(request({ categories: [] }))).toEqual([]);
+      expect(addressRepo.findOne).toHaveBeenCalled();
+      expect(propositionRepo.find).not.toHaveBeenCalled();
+      expect(meetingRepo.find).not.toHaveBeenCalled();
+      expect(regionService.getVoterDeadlines).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, In, Repository } from 'typeorm';
+import { PropositionEntity } from 'src/db/entities/proposition.entity';
+import { MeetingEntity } from 'src/db/entities/meeting.entity';
+import { UserAddressEntity } from 'src/db/entities/user-address.entity';
+import { NotificationCategory } from 'src/db/entities/notification-delivery.entity';
+import { NotificationFrequency } from 'src/db/entities/notification-preference.entity';
+import {
+  DigestFrequency,
+  DigestRequest,
+  DigestSection,
+  NotificationDigestService,
+} from 'src/common/notifications';
+import { RegionDomainService } from './region.service';
+import { isAddressMeeting } from './district-matcher';
+import { VoterDeadlineType } from './models/election.model';
+
+// Items listed per section, most relevant first
+const MAX_SECTION_ITEMS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days ahead upcoming meetings are listed for, about one digest period
+const MEETING_DAYS: Record<DigestFrequency, number> = {
+  [NotificationFrequency.DAILY_DIGEST]: 2,
+  [NotificationFrequency.WEEKLY_DIGEST]: 7,
+};
+
+// Days ahead voter deadlines count as approaching
+const DEADLINE_DAYS = 14;
+
+const DEADLINE_LABELS: Record<VoterDeadlineType, string> = {
+  [VoterDeadlineType.REGISTRATION]: 'Voter registration deadline',
+  [VoterDeadlineType.MAIL_BALLOT_REQUEST]: 'Mail ballot request deadline',
+  [VoterDeadlineType.MAIL_BALLOT_RETURN]: 'Mail ballot return deadline',
+  [VoterDeadlineType.EARLY_VOTING]: 'Early voting',
+};
+
+/**
+ * Civic Digest Service
+ *
+ * Fills users' daily and weekly digests with civic data for their primary
+ * address, from the regions containing it (the default region for users
+ * without an address):
+ * - Propositions, and races on the address's ballot, created or changed
+ *   since the last digest (ballot updates)
+ * - Meetings coming up before the next digest, of bodies governing the
+ *   address (local news)
+ * - Voter deadlines in the next two weeks (voter deadlines)
+ *
+ * Followed items are covered by the follow alerts batched into the digest.
+ */
+@Injectable()
+export class CivicDigestService implements OnModuleInit {
+  private readonly frontendUrl: string;
+
+  constructor(
+    @InjectRepository(PropositionEntity)
+    private readonly propositionRepo: Repository<PropositionEntity>,
+    @InjectRepository(MeetingEntity)
+    private readonly meetingRepo: Repository<MeetingEntity>,
+    @InjectRepository(UserAddressEntity)
+    private readonly addressRepo: Repository<UserAddressEntity>,
+    private readonly digestService: NotificationDigestService,
+    private readonly regionService: RegionDomainService,
+    configService: ConfigService,
+  ) {
+    this.frontendUrl =
+      configService.get<string>('FRONTEND_URL') ||
+      'https://app.commonwealthlabs.io';
+  }
+
+  /**
+   * Contribute civic sections to every digest
+   */
+  onModuleInit() {
+    this.digestService.addSource((request) => this.collect(request));
+  }
+
+  /**
+   * Collect the civic sections of one user's digest
+   */
+  async collect(request: DigestRequest): Promise<DigestSection[]> {
+    const address = await this.addressRepo.findOne({
+      where: { userId: request.userId, isPrimary: true },
+    });
+    const regionIds = address
+      ? this.regionService.getRegionIdsForAddress(address)
+      : [this.regionService.getRegionInfo().id];
+    const wants = (category: NotificationCategory) =>
+      request.categories.includes(category);
+
+    const sections: DigestSection[] = [];
+    if (wants(NotificationCategory.CIVIC_BALLOT_UPDATE)) {
+      sections.push(await this.collectPropositions(regionIds, request));
+      if (address) {
+        sections.push(await this.collectRaces(address, request));
+      }
+    }
+    if (wants(NotificationCategory.CIVIC_LOCAL_NEWS)) {
+      sections.push(await this.collectMeetings(regionIds, address, request));
+    }
+    if (wants(NotificationCategory.CIVIC_VOTER_DEADLINE)) {
+      sections.push(await this.collectDeadlines(regionIds, request));
+    }
+    return sections;
+  }
+
+  private async collectPropositions(
+    regionIds: string[],
+    { since, until }: DigestRequest,
+  ): Promise<DigestSection> {
+    const propositions = await this.propositionRepo.find({
+      where: [
+        { regionId: In(regionIds), createdAt: Between(since, until) },
+        { regionId: In(regionIds), updatedAt: Between(since, until) },
+      ],
+      order: { updatedAt: 'DESC' },
+      take: MAX_SECTION_ITEMS,
+    });
+
+    return {
+      category: NotificationCategory.CIVIC_BALLOT_UPDATE,
+      title: 'Propositions',
+      items: propositions.map((proposition) => ({
+        title: `${proposition.createdAt >= since ? 'New' : 'Updated'}: ${proposition.title}`,
+        lines: [
+          `Status: ${proposition.status}`,
+          ...(proposition.electionDate
+            ? [
+                `On the ballot ${this.formatDate(proposition.electionDate, proposition.regionId, false)}`,
+              ]
+            : []),
+        ],
+        url: `${this.frontendUrl}/region/propositions`,
+      })),
+    };
+  }
+
+  /**
+   * Races on the address's ballot created or changed since the last digest
+   */
+  private async collectRaces(
+    address: UserAddressEntity,
+    { userId, since, until }: DigestRequest,
+  ): Promise<DigestSection> {
+    const ballot = await this.regionService.getBallotForAddress(
+      userId,
+      address.id,
+    );
+    const races = (ballot?.races ?? [])
+      .map(({ race }) => race)
+      .filter(
+        (race) =>
+          (race.createdAt >= since && race.createdAt <= until) ||
+          (race.updatedAt >= since && race.updatedAt <= until),
+      )
+      .slice(0, MAX_SECTION_ITEMS);
+
+    return {
+      category: NotificationCategory.CIVIC_BALLOT_UPDATE,
+      title: 'Races on your ballot',
+      items: races.map((race) => ({
+        title: `${race.createdAt >= since ? 'New' : 'Updated'}: ${race.office}`,
+        lines: [
+          `On the ballot ${this.formatDate(race.electionDate, race.regionId, false)}`,
+          `Candidates: ${race.candidates.map((c) => c.name).join(', ') || 'none yet'}`,
+        ],
+        url: `${this.frontendUrl}/region`,
+      })),
+    };
+  }
+
+  /**
+   * Upcoming meetings of the bodies governing the address
+   */
+  private async collectMeetings(
+    regionIds: string[],
+    address: UserAddressEntity | null,
+    { until, frequency }: DigestRequest,
+  ): Promise<DigestSection> {
+    const meetings = (
+      await this.meetingRepo.find({
+        where: {
+          regionId: In(regionIds),
+          scheduledAt: Between(
+            until,
+            new Date(until.getTime() + MEETING_DAYS[frequency] * DAY_MS),
+          ),
+        },
+        order: { scheduledAt: 'ASC' },
+      })
+    )
+      .filter((meeting) => !address || isAddressMeeting(address, meeting.body))
+      .slice(0, MAX_SECTION_ITEMS);
+
+    return {
+      category: NotificationCategory.CIVIC_LOCAL_NEWS,
+      title: 'Upcoming meetings',
+      items: meetings.map((meeting) => ({
+        title: `${meeting.body}: ${meeting.title}`,
+        lines: [
+          this.formatDate(meeting.scheduledAt, meeting.regionId, true),
+          ...(meeting.location ? [meeting.location] : []),
+        ],
+        url: `${this.frontendUrl}/region/meetings`,
+      })),
+    };
+  }
+
+  private async collectDeadlines(
+    regionIds: string[],
+    { until }: DigestRequest,
+  ): Promise<DigestSection> {
+    const deadlines = (
+      await Promise.all(
+        regionIds.map((regionId) =>
+          this.regionService.getVoterDeadlines(
+            regionId,
+            until,
+            new Date(until.getTime() + DEADLINE_DAYS * DAY_MS),
+          ),
+        ),
+      )
+    )
+      .flat()
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .slice(0, MAX_SECTION_ITEMS);
+
+    return {
+      category: NotificationCategory.CIVIC_VOTER_DEADLINE,
+      title: 'Approaching deadlines',
+      items: deadlines.map((deadline) => {
+        const date = this.formatDate(deadline.date, deadline.regionId, false);
+        return {
+          title: `${DEADLINE_LABELS[deadline.type]}: ${deadline.electionName}`,
+          lines: [
+            deadline.endDate
+              ? `${date} to ${this.formatDate(deadline.endDate, deadline.regionId, false)}`
+              : date,
+          ],
+          url: `${this.frontendUrl}/region`,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Show a date in its region's timezone
+   */
+  private formatDate(date: Date, regionId: string, withTime: boolean): string {
+    return date.toLocaleString('en-US', {
+      timeZone: this.regionService.getRegionInfo(regionId).timezone,
+      dateStyle: 'medium',
+      ...(withTime && { timeStyle: 'short' }),
+    });
+  }
+}
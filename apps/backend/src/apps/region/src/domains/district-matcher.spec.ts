@@ -0,0 +1,225 @@
+import {
+  chamberDistrictType,
+  getAddressDistricts,
+  isAddressMeeting,
+  matchRaces,
+  matchRepresentatives,
+  normalizeDistrict,
+} from './district-matcher';
+import { DistrictTypeGQL } from './models/my-representatives.model';
+import { RepresentativeEntity } from 'src/db/entities/representative.entity';
+import { RaceEntity } from 'src/db/entities/race.entity';
+
+describe('district-matcher', () => {
+  const rep = (
+    id: string,
+    chamber: string,
+    district: string,
+    regionId: string = 'test-region',
+  ): RepresentativeEntity =>
+    ({
+      id,
+      regionId,
+      externalId: id,
+      name: `Rep ${id}`,
+      chamber,
+      district,
+      party: 'Independent',
+    }) as RepresentativeEntity;
+
+  describe('normalizeDistrict', () => {
+    it.each([
+      ['CA-12', '12'],
+      ['District 12', '12'],
+      ['012', '12'],
+      ['Assembly District 7', '7'],
+    ])('should reduce numbered district %s to %s', (value, expected) => {
+      expect(normalizeDistrict(value)).toBe(expected);
+    });
+
+    it('should drop filler words from named districts', () => {
+      expect(normalizeDistrict('Los Angeles County')).toBe('los angeles');
+      expect(normalizeDistrict('County of Los Angeles')).toBe('los angeles');
+      expect(normalizeDistrict('City of San José')).toBe('san josé');
+    });
+  });
+
+  describe('chamberDistrictType', () => {
+    it.each([
+      ['U.S. House', 'District 12', DistrictTypeGQL.CONGRESSIONAL],
+      ['House', 'CA-12', DistrictTypeGQL.CONGRESSIONAL],
+      ['House', 'Congressional District 12', DistrictTypeGQL.CONGRESSIONAL],
+      ['House', 'District 12', DistrictTypeGQL.STATE_ASSEMBLY],
+      ['House of Representatives', 'HD-80', DistrictTypeGQL.STATE_ASSEMBLY],
+      ['State Senate', 'SD-1', DistrictTypeGQL.STATE_SENATE],
+      ['Parks Board', 'District 1', undefined],
+    ])('should serve %s %s as %s', (chamber, district, expected) => {
+      expect(chamberDistrictType(chamber, district)).toBe(expected);
+    });
+  });
+
+  describe('getAddressDistricts', () => {
+    it('should split known and missing districts', () => {
+      const { known, missing } = getAddressDistricts({
+        congressionalDistrict: 'CA-12',
+        stateSenatorialDistrict: ' ',
+        county: 'Alameda',
+      });
+
+      expect(known).toEqual([
+        { districtType: DistrictTypeGQL.CONGRESSIONAL, district: 'CA-12' },
+        { districtType: DistrictTypeGQL.COUNTY, district: 'Alameda' },
+      ]);
+      expect(missing).toEqual([
+        DistrictTypeGQL.STATE_SENATE,
+        DistrictTypeGQL.STATE_ASSEMBLY,
+        DistrictTypeGQL.MUNICIPALITY,
+        DistrictTypeGQL.SCHOOL_DISTRICT,
+      ]);
+    });
+  });
+
+  describe('matchRepresentatives', () => {
+    const representatives = [
+      rep('house-12', 'U.S. House', 'District 12'),
+      rep('senate-1', 'Senate', 'District 1'),
+      rep('senate-2', 'Senate', 'District 2'),
+      rep('assembly-1', 'Assembly', 'District 1'),
+      rep('council-oak', 'City Council', 'Oakland'),
+    ];
+
+    it('should match representatives by chamber and normalized district', () => {
+      const matches = matchRepresentatives(
+        {
+          congressionalDistrict: 'CA-12',
+          stateSenatorialDistrict: 'SD-1',
+          municipality: 'City of Oakland',
+        },
+        representatives,
+      );
+
+      expect(
+        matches.map((m) => [m.representative.id, m.districtType, m.district]),
+      ).toEqual([
+        ['house-12', DistrictTypeGQL.CONGRESSIONAL, 'CA-12'],
+        ['senate-1', DistrictTypeGQL.STATE_SENATE, 'SD-1'],
+        ['council-oak', DistrictTypeGQL.MUNICIPALITY, 'City of Oakland'],
+      ]);
+    });
+
+    it('should not match a district number in another chamber', () => {
+      const matches = matchRepresentatives(
+        { stateAssemblyDistrict: '2' },
+        representatives,
+      );
+
+      expect(matches).toEqual([]);
+    });
+
+    it('should return no matches when the address has no districts', () => {
+      expect(matchRepresentatives({}, representatives)).toEqual([]);
+    });
+
+    it('should not match the same district number in another state', () => {
+      const regionStates = new Map([
+        ['california', 'CA'],
+        ['new-york', 'NY'],
+      ]);
+      const candidates = [
+        rep('ny-house-12', 'U.S. House', 'NY-12', 'california'),
+        rep('ny-senate-1', 'State Senate', 'District 1', 'new-york'),
+        rep('ca-house-12', 'U.S. House', 'District 12', 'california'),
+        rep('ca-senate-1', 'State Senate', 'District 1', 'california'),
+      ];
+
+      const matches = matchRepresentatives(
+        {
+          state: 'CA',
+          congressionalDistrict: 'CA-12',
+          stateSenatorialDistrict: 'SD-1',
+        },
+        candidates,
+        regionStates,
+      );
+
+      expect(matches.map((m) => m.representative.id)).toEqual([
+        'ca-house-12',
+        'ca-senate-1',
+      ]);
+    });
+
+    it('should match a state House member to the lower chamber district', () => {
+      const candidates = [rep('house-12', 'House', 'District 12')];
+
+      expect(
+        matchRepresentatives({ congressionalDistrict: 'CA-12' }, candidates),
+      ).toEqual([]);
+      expect(
+        matchRepresentatives({ stateAssemblyDistrict: '12' }, candidates).map(
+          (m) => [m.representative.id, m.districtType],
+        ),
+      ).toEqual([['house-12', DistrictTypeGQL.STATE_ASSEMBLY]]);
+    });
+  });
+
+  describe('matchRaces', () => {
+    const race = (id: string, chamber?: string, district?: string) =>
+      ({
+        id,
+        regionId: 'test-region',
+        externalId: id,
+        office: `Office ${id}`,
+        chamber,
+        district,
+        electionDate: new Date('2024-11-05'),
+        candidates: [],
+      }) as unknown as RaceEntity;
+
+    const races = [
+      race('governor'),
+      race('senate-1', 'Senate', 'District 1'),
+      race('senate-2', 'Senate', 'District 2'),
+      race('measure-board', undefined, 'District 1'),
+    ];
+
+    it('should match region-wide races and races in the address districts', () => {
+      const matches = matchRaces({ stateSenatorialDistrict: 'SD-1' }, races);
+
+      expect(
+        matches.map((m) => [m.race.id, m.districtType, m.district]),
+      ).toEqual([
+        ['governor', undefined, undefined],
+        ['senate-1', DistrictTypeGQL.STATE_SENATE, 'SD-1'],
+      ]);
+    });
+
+    it('should only match region-wide races when the address has no districts', () => {
+      expect(matchRaces({}, races).map((m) => m.race.id)).toEqual(['governor']);
+    });
+  });
+
+  describe('isAddressMeeting', () => {
+    const address = {
+      county: 'Alameda County',
+      municipality: 'City of Oakland',
+      schoolDistrict: 'Oakland Unified School District',
+    };
+
+    it.each([
+      ['Oakland City Council', true],
+      ['Berkeley City Council', false],
+      ['City Council', true],
+      ['Alameda County Board of Supervisors', true],
+      ['Contra Costa County Board of Supervisors', false],
+      ['Oakland Unified School Board', true],
+      ['Board of Supervisors District 5', true],
+      ['Planning Commission', true],
+    ])('should decide whether %s governs the address', (body, expected) => {
+      expect(isAddressMeeting(address, body)).toBe(expected);
+    });
+
+    it('should keep local bodies when the address district is unknown', () => {
+      expect(isAddressMeeting({}, 'Berkeley City Council')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,340 @@
+import { UserAddressEntity } from 'src/db/entities/user-address.entity';
+import { RepresentativeEntity } from 'src/db/entities/representative.entity';
+import { RaceEntity } from 'src/db/entities/race.entity';
+import { DistrictTypeGQL } from './models/my-representatives.model';
+
+/**
+ * District fields of a user address, as used for matching
+ */
+export type AddressDistricts = Pick<
+  UserAddressEntity,
+  | 'congressionalDistrict'
+  | 'stateSenatorialDistrict'
+  | 'stateAssemblyDistrict'
+  | 'county'
+  | 'municipality'
+  | 'schoolDistrict'
+> &
+  Partial<Pick<UserAddressEntity, 'state'>>;
+
+/**
+ * Two-letter state code of each region that declares one, by region ID
+ */
+export type RegionStates = ReadonlyMap<string, string>;
+
+/**
+ * A representative matched to one of an address's districts
+ */
+export interface RepresentativeMatch {
+  representative: RepresentativeEntity;
+  districtType: DistrictTypeGQL;
+  district: string;
+}
+
+/**
+ * A race matched to an address; region-wide races match no district
+ */
+export interface RaceMatch {
+  race: RaceEntity;
+  districtType?: DistrictTypeGQL;
+  district?: string;
+}
+
+/**
+ * Address field holding each district type
+ */
+const ADDRESS_DISTRICT_FIELDS: Record<DistrictTypeGQL, keyof AddressDistricts> =
+  {
+    [DistrictTypeGQL.CONGRESSIONAL]: 'congressionalDistrict',
+    [DistrictTypeGQL.STATE_SENATE]: 'stateSenatorialDistrict',
+    [DistrictTypeGQL.STATE_ASSEMBLY]: 'stateAssemblyDistrict',
+    [DistrictTypeGQL.COUNTY]: 'county',
+    [DistrictTypeGQL.MUNICIPALITY]: 'municipality',
+    [DistrictTypeGQL.SCHOOL_DISTRICT]: 'schoolDistrict',
+  };
+
+/**
+ * Chambers (lowercase) named the same in Congress and most state
+ * legislatures; the district's level tells them apart
+ */
+const LOWER_HOUSE_CHAMBERS = ['house', 'house of representatives'];
+
+/**
+ * Representative chambers (lowercase) that may serve each district type
+ *
+ * Providers name chambers freely, so this covers the common spellings.
+ * Lower houses appear under both the congressional and the state lower
+ * chamber type; see chamberDistrictType.
+ */
+export const DISTRICT_CHAMBERS: Record<DistrictTypeGQL, string[]> = {
+  [DistrictTypeGQL.CONGRESSIONAL]: [
+    ...LOWER_HOUSE_CHAMBERS,
+    'u.s. house',
+    'us house',
+    'u.s. house of representatives',
+    'congress',
+  ],
+  [DistrictTypeGQL.STATE_SENATE]: ['senate', 'state senate'],
+  [DistrictTypeGQL.STATE_ASSEMBLY]: [
+    ...LOWER_HOUSE_CHAMBERS,
+    'assembly',
+    'state assembly',
+    'state house',
+    'house of delegates',
+  ],
+  [DistrictTypeGQL.COUNTY]: [
+    'board of supervisors',
+    'county board',
+    'county commission',
+  ],
+  [DistrictTypeGQL.MUNICIPALITY]: ['city council', 'council', 'mayor'],
+  [DistrictTypeGQL.SCHOOL_DISTRICT]: ['school board', 'board of education'],
+};
+
+// Two-letter codes of the states, DC and the territories
+const STATE_CODES = new Set(
+  (
+    'AL AK AZ AR CA CO CT DE DC FL GA HI ID IL IN IA KS KY LA ME MD MA ' +
+    'MI MN MS MO MT NE NV NH NJ NM NY NC ND OH OK OR PA RI SC SD TN TX ' +
+    'UT VT VA WA WV WI WY AS GU MP PR VI'
+  ).split(' '),
+);
+
+// Congressional districts written with their state, e.g. 'CA-12', 'AK-AL'
+const STATE_DISTRICT_PATTERN = /^\s*([a-z]{2})\s*-\s*(?:\d+|al)\b/i;
+
+/**
+ * Normalize a district name so differently formatted values compare equal
+ *
+ * Numbered districts reduce to their number ('CA-12', 'District 12' and
+ * '012' all become '12'); named districts drop filler words and punctuation
+ * ('Los Angeles County' and 'County of Los Angeles' become 'los angeles').
+ * The state is compared separately, see districtState.
+ */
+export function normalizeDistrict(value: string): string {
+  const numbers = value.match(/\d+/g);
+  if (numbers) {
+    return String(Number(numbers[numbers.length - 1]));
+  }
+
+  return value
+    .toLowerCase()
+    .replace(/\b(district|county|city|of|the)\b/g, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Two-letter code of a state, or undefined if the value isn't one
+ */
+function toStateCode(value?: string): string | undefined {
+  const code = value?.trim().toUpperCase();
+  return code && STATE_CODES.has(code) ? code : undefined;
+}
+
+/**
+ * State a district is in
+ *
+ * Congressional districts may carry their state ('CA-12'); other districts
+ * are in the state of the address or region they come from. Prefixes of
+ * other district types are not states ('SD-1' is Senate District 1).
+ */
+function districtState(
+  district: string,
+  districtType: DistrictTypeGQL,
+  fallbackState?: string,
+): string | undefined {
+  if (districtType === DistrictTypeGQL.CONGRESSIONAL) {
+    const prefix = toStateCode(STATE_DISTRICT_PATTERN.exec(district)?.[1]);
+    if (prefix) return prefix;
+  }
+  return toStateCode(fallbackState);
+}
+
+/**
+ * District type a chamber serves, for a representative or race in a district
+ *
+ * Lower houses are federal for congressional districts (those naming
+ * Congress or written with their state, like 'CA-12') and state otherwise.
+ */
+export function chamberDistrictType(
+  chamber: string,
+  district: string,
+): DistrictTypeGQL | undefined {
+  const label = chamber.trim().toLowerCase();
+  if (LOWER_HOUSE_CHAMBERS.includes(label)) {
+    const congressional =
+      /congress/i.test(district) ||
+      toStateCode(STATE_DISTRICT_PATTERN.exec(district)?.[1]) !== undefined;
+    return congressional
+      ? DistrictTypeGQL.CONGRESSIONAL
+      : DistrictTypeGQL.STATE_ASSEMBLY;
+  }
+  return Object.values(DistrictTypeGQL).find((districtType) =>
+    DISTRICT_CHAMBERS[districtType].includes(label),
+  );
+}
+
+/**
+ * Get the district types known for an address, and those still missing
+ */
+export function getAddressDistricts(address: AddressDistricts): {
+  known: { districtType: DistrictTypeGQL; district: string }[];
+  missing: DistrictTypeGQL[];
+} {
+  const known: { districtType: DistrictTypeGQL; district: string }[] = [];
+  const missing: DistrictTypeGQL[] = [];
+
+  for (const districtType of Object.values(DistrictTypeGQL)) {
+    const district = address[ADDRESS_DISTRICT_FIELDS[districtType]]?.trim();
+    if (district) {
+      known.push({ districtType, district });
+    } else {
+      missing.push(districtType);
+    }
+  }
+
+  return { known, missing };
+}
+
+/**
+ * Whether a chamber's district in a region is the address's district of a
+ * type
+ *
+ * States are compared when both sides' are known, so 'CA-12' never matches
+ * New York's 12th district.
+ */
+function isAddressDistrict(
+  chamber: string,
+  district: string,
+  regionState: string | undefined,
+  address: AddressDistricts,
+  districtType: DistrictTypeGQL,
+  addressDistrict: string,
+): boolean {
+  if (
+    chamberDistrictType(chamber, district) !== districtType ||
+    normalizeDistrict(district) !== normalizeDistrict(addressDistrict)
+  ) {
+    return false;
+  }
+
+  const state = districtState(district, districtType, regionState);
+  const addressState = districtState(
+    addressDistrict,
+    districtType,
+    address.state,
+  );
+  return !state || !addressState || state === addressState;
+}
+
+/**
+ * Match representatives to the districts of an address
+ *
+ * A representative matches when their chamber serves the district type,
+ * their district normalizes to the same value as the address's district,
+ * and the district is in the address's state.
+ */
+export function matchRepresentatives(
+  address: AddressDistricts,
+  representatives: RepresentativeEntity[],
+  regionStates: RegionStates = new Map(),
+): RepresentativeMatch[] {
+  const matches: RepresentativeMatch[] = [];
+
+  for (const { districtType, district } of getAddressDistricts(address).known) {
+    for (const representative of representatives) {
+      if (
+        isAddressDistrict(
+          representative.chamber,
+          representative.district,
+          regionStates.get(representative.regionId),
+          address,
+          districtType,
+          district,
+        )
+      ) {
+        matches.push({ representative, districtType, district });
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Match races to the districts of an address
+ *
+ * Races without a district are region-wide and always match. A race with a
+ * district matches like a representative, by chamber and district; without
+ * a chamber its district type is unknown, so it never matches.
+ */
+export function matchRaces(
+  address: AddressDistricts,
+  races: RaceEntity[],
+  regionStates: RegionStates = new Map(),
+): RaceMatch[] {
+  const { known } = getAddressDistricts(address);
+
+  return races.flatMap((race) => {
+    const { chamber, district: raceDistrict } = race;
+    if (!raceDistrict) {
+      return [{ race }];
+    }
+    if (!chamber) {
+      return [];
+    }
+
+    const match = known.find(({ districtType, district }) =>
+      isAddressDistrict(
+        chamber,
+        raceDistrict,
+        regionStates.get(race.regionId),
+        address,
+        districtType,
+        district,
+      ),
+    );
+    return match ? [{ race, ...match }] : [];
+  });
+}
+
+// District types whose governing bodies hold the meetings regions list
+const LOCAL_DISTRICT_TYPES = [
+  DistrictTypeGQL.COUNTY,
+  DistrictTypeGQL.MUNICIPALITY,
+  DistrictTypeGQL.SCHOOL_DISTRICT,
+];
+
+/**
+ * Whether a meeting's body may govern an address
+ *
+ * A local body that names its place ('Oakland City Council') only governs
+ * addresses in that place. Bodies that name no place or only a numbered
+ * district, region-wide bodies, and addresses whose district of the body's
+ * type is unknown are kept.
+ */
+export function isAddressMeeting(
+  address: AddressDistricts,
+  body: string,
+): boolean {
+  const label = body.toLowerCase();
+  for (const districtType of LOCAL_DISTRICT_TYPES) {
+    const chamber = [...DISTRICT_CHAMBERS[districtType]]
+      .sort((a, b) => b.length - a.length)
+      .find((c) => label.includes(c));
+    if (!chamber) continue;
+
+    const place = normalizeDistrict(label.replace(chamber, ' '));
+    const district = address[ADDRESS_DISTRICT_FIELDS[districtType]]?.trim();
+    if (!place || /^\d+$/.test(place) || !district) return true;
+
+    // Either may carry extra words ('Oakland Unified' and 'Oakland Unified
+    // School'), so whole words of one found in the other match
+    const addressPlace = ` ${normalizeDistrict(district)} `;
+    return (
+      addressPlace.includes(` ${place} `) || ` ${place} `.includes(addressPlace)
+    );
+  }
+  return true;
+}
@@ -0,0 +1,212 @@
+import { Field, InputType, registerEnumType } from '@nestjs/graphql';
+import {
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PropositionStatusGQL } from '../models/proposition.model';
+import { BillStatusGQL } from '../models/bill.model';
+
+/**
+ * Sort direction for list queries
+ */
+export enum SortOrder {
+  ASC = 'ASC',
+  DESC = 'DESC',
+}
+
+registerEnumType(SortOrder, {
+  name: 'SortOrder',
+  description: 'Sort direction',
+});
+
+/**
+ * Fields propositions can be sorted by
+ */
+export enum PropositionSortField {
+  RELEVANCE = 'relevance',
+  ELECTION_DATE = 'electionDate',
+  TITLE = 'title',
+}
+
+registerEnumType(PropositionSortField, {
+  name: 'PropositionSortField',
+  description:
+    'Proposition sort field (RELEVANCE only applies with a text query)',
+});
+
+/**
+ * Filters for the propositions query
+ */
+@InputType()
+export class PropositionFilterInput {
+  @Field(() => [PropositionStatusGQL], { nullable: true })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(PropositionStatusGQL, { each: true })
+  statuses?: PropositionStatusGQL[];
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  electionDateFrom?: Date;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  electionDateTo?: Date;
+
+  // Full-text search over title, summary and full text
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200, { message: 'Query must not exceed 200 characters' })
+  query?: string;
+
+  @Field(() => PropositionSortField, { nullable: true })
+  @IsOptional()
+  @IsEnum(PropositionSortField)
+  sortBy?: PropositionSortField;
+
+  @Field(() => SortOrder, { nullable: true })
+  @IsOptional()
+  @IsEnum(SortOrder)
+  sortOrder?: SortOrder;
+}
+
+/**
+ * Filters for the meetings query
+ */
+@InputType()
+export class MeetingFilterInput {
+  // Legislative body, matched case-insensitively
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  body?: string;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  dateFrom?: Date;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  dateTo?: Date;
+
+  // Only meetings scheduled from now on, soonest first by default
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsBoolean()
+  upcoming?: boolean;
+
+  // Substring of the meeting location, matched case-insensitively
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  location?: string;
+
+  @Field(() => SortOrder, { nullable: true })
+  @IsOptional()
+  @IsEnum(SortOrder)
+  sortOrder?: SortOrder;
+}
+
+/**
+ * Filters for the elections query
+ */
+@InputType()
+export class ElectionFilterInput {
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  dateFrom?: Date;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  dateTo?: Date;
+
+  // Only elections from now on, soonest first by default
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsBoolean()
+  upcoming?: boolean;
+
+  @Field(() => SortOrder, { nullable: true })
+  @IsOptional()
+  @IsEnum(SortOrder)
+  sortOrder?: SortOrder;
+}
+
+/**
+ * Filters for the bills query
+ */
+@InputType()
+export class BillFilterInput {
+  @Field(() => [BillStatusGQL], { nullable: true })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(BillStatusGQL, { each: true })
+  statuses?: BillStatusGQL[];
+
+  // Chamber the bill was introduced in, matched case-insensitively
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  chamber?: string;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  session?: string;
+
+  // Substring of the bill number or title, matched case-insensitively
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  query?: string;
+}
+
+/**
+ * Filters for the races query
+ */
+@InputType()
+export class RaceFilterInput {
+  // Only races from now on, soonest first
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsBoolean()
+  upcoming?: boolean;
+
+  // Chamber of the office, matched case-insensitively
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  chamber?: string;
+
+  // Substring of the office, matched case-insensitively
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  query?: string;
+}
@@ -0,0 +1,453 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { createMock } from '@golevelup/ts-jest';
+import { In } from 'typeorm';
+import { CivicDataType } from '@qckstrt/region-provider';
+import { MeetingEntity } from 'src/db/entities/meeting.entity';
+import {
+  FollowTargetType,
+  UserFollowEntity,
+} from 'src/db/entities/user-follow.entity';
+import {
+  FollowAlertChange,
+  FollowAlertEntity,
+  FollowAlertStatus,
+} from 'src/db/entities/follow-alert.entity';
+import {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationDeliveryEntity,
+  NotificationDeliveryStatus,
+} from 'src/db/entities/notification-delivery.entity';
+import { NotificationDispatcherService } from 'src/common/notifications';
+import { FollowAlertsService } from './follow-alerts.service';
+import {
+  RegionDomainService,
+  RegionSyncResult,
+  SyncListener,
+} from './region.service';
+import { RegionInfoModel } from './models/region-info.model';
+
+describe('FollowAlertsService', () => {
+  let service: FollowAlertsService;
+  let regionService: jest.Mocked<RegionDomainService>;
+  let dispatcher: jest.Mocked<NotificationDispatcherService>;
+  let alertRepo: { create: jest.Mock; save: jest.Mock; update: jest.Mock };
+  let followRepo: { find: jest.Mock };
+  let meetingRepo: { find: jest.Mock };
+  let deliveryQuery: Record<string, jest.Mock>;
+
+  const statusChange = {
+    id: 'prop-1',
+    externalId: 'prop-12',
+    label: 'Prop 12 - Housing Bond',
+    restored: false,
+    changes: [
+      { field: 'status', previousValue: 'pending', newValue: 'passed' },
+    ],
+  };
+
+  const syncResult = (
+    dataType: CivicDataType,
+    changes: Partial<RegionSyncResult['changes']>,
+  ) =>
+    ({
+      runId: 'run-1',
+      regionId: 'springfield',
+      dataType,
+      changes: { created: [], updated: [], retired: [], ...changes },
+    }) as RegionSyncResult;
+
+  const follow = (
+    userId: string,
+    targetType: FollowTargetType,
+    targetId: string,
+  ) =>
+    ({
+      userId,
+      regionId: 'springfield',
+      targetType,
+      targetId,
+    }) as UserFollowEntity;
+
+  const alert = (overrides: Partial<FollowAlertEntity> = {}) =>
+    ({
+      id: 'alert-1',
+      userId: 'user-1',
+      regionId: 'springfield',
+      targetType: FollowTargetType.PROPOSITION,
+      targetId: 'prop-1',
+      recordId: 'prop-1',
+      label: 'Prop 12 - Housing Bond',
+      change: FollowAlertChange.UPDATED,
+      changes: statusChange.changes,
+      status: FollowAlertStatus.PENDING,
+      ...overrides,
+    }) as FollowAlertEntity;
+
+  beforeEach(async () => {
+    alertRepo = {
+      create: jest.fn((values) => values),
+      save: jest.fn((alerts: FollowAlertEntity[]) =>
+        Promise.resolve(alerts.map((a, i) => ({ ...a, id: `alert-${i + 1}` }))),
+      ),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+    followRepo = { find: jest.fn().mockResolvedValue([]) };
+    meetingRepo = { find: jest.fn().mockResolvedValue([]) };
+    deliveryQuery = {
+      innerJoin: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FollowAlertsService,
+        { provide: getRepositoryToken(FollowAlertEntity), useValue: alertRepo },
+        { provide: getRepositoryToken(UserFollowEntity), useValue: followRepo },
+        { provide: getRepositoryToken(MeetingEntity), useValue: meetingRepo },
+        {
+          provide: getRepositoryToken(NotificationDeliveryEntity),
+          useValue: { createQueryBuilder: jest.fn(() => deliveryQuery) },
+        },
+        {
+          provide: NotificationDispatcherService,
+          useValue: createMock<NotificationDispatcherService>(),
+        },
+        {
+          provide: RegionDomainService,
+          useValue: createMock<RegionDomainService>(),
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'FRONTEND_URL' ? 'https://app.example.com' : undefined,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(FollowAlertsService);
+    regionService = module.get(RegionDomainService);
+    dispatcher = module.get(NotificationDispatcherService);
+
+    regionService.getRegionInfo.mockReturnValue({
+      id: 'springfield',
+      timezone: 'America/Los_Angeles',
+    } as RegionInfoModel);
+  });
+
+  describe('onModuleInit', () => {
+    it('should create and deliver alerts after each sync', async () => {
+      service.onModuleInit();
+      const listener = regionService.onSynced.mock.calls[0][0] as SyncListener;
+      const deliver = jest.spyOn(service, 'deliver').mockResolvedValue();
+      jest.spyOn(service, 'createAlerts').mockResolvedValueOnce([]);
+      jest.spyOn(service, 'createAlerts').mockResolvedValueOnce([alert()]);
+
+      await listener(syncResult(CivicDataType.PROPOSITIONS, {}));
+      await listener(syncResult(CivicDataType.PROPOSITIONS, {}));
+
+      expect(deliver).toHaveBeenCalledTimes(1);
+      expect(deliver).toHaveBeenCalledWith([alert()]);
+    });
+
+    it('should record alert outcomes after each sync', async () => {
+      service.onModuleInit();
+      const listener = regionService.onSynced.mock.calls[0][0] as SyncListener;
+      jest.spyOn(service, 'createAlerts').mockResolvedValue([]);
+      const recordOutcomes = jest
+        .spyOn(service, 'recordOutcomes')
+        .mockResolvedValue(0);
+
+      await listener(syncResult(CivicDataType.PROPOSITIONS, {}));
+
+      expect(recordOutcomes).toHaveBeenCalled();
+    });
+
+    it('should record alert outcomes after notifications are delivered', async () => {
+      service.onModuleInit();
+      const listener = dispatcher.onDelivered.mock.calls[0][0];
+      const recordOutcomes = jest
+        .spyOn(service, 'recordOutcomes')
+        .mockResolvedValue(0);
+
+      await listener([]);
+
+      expect(recordOutcomes).toHaveBeenCalled();
+    });
+  });
+
+  describe('createAlerts', () => {
+    it('should create one alert per follower of a changed proposition', async () => {
+      followRepo.find.mockResolvedValue([
+        follow('user-1', FollowTargetType.PROPOSITION, 'prop-1'),
+        follow('user-2', FollowTargetType.PROPOSITION, 'prop-1'),
+      ]);
+
+      const alerts = await service.createAlerts(
+        syncResult(CivicDataType.PROPOSITIONS, {
+          created: [{ ...statusChange, id: undefined, externalId: 'prop-13' }],
+          updated: [
+            statusChange,
+            {
+              id: 'prop-2',
+              externalId: 'prop-14',
+              label: 'Unchanged',
+              restored: false,
+              changes: [],
+            },
+          ],
+        }),
+      );
+
+      expect(followRepo.find).toHaveBeenCalledWith({
+        where: {
+          targetType: FollowTargetType.PROPOSITION,
+          regionId: 'springfield',
+          targetId: In(['prop-1']),
+        },
+      });
+      expect(alerts).toHaveLength(2);
+      expect(alerts[1]).toEqual({
+        id: 'alert-2',
+        userId: 'user-2',
+        regionId: 'springfield',
+        targetType: FollowTargetType.PROPOSITION,
+        targetId: 'prop-1',
+        recordId: 'prop-1',
+        label: 'Prop 12 - Housing Bond',
+        change: FollowAlertChange.UPDATED,
+        changes: statusChange.changes,
+        syncRunId: 'run-1',
+      });
+    });
+
+    it('should alert followers of a body about its new meetings', async () => {
+      meetingRepo.find.mockResolvedValue([
+        { id: 'meeting-1', externalId: 'cc-2024-03-12', body: 'City Council' },
+      ]);
+      followRepo.find.mockResolvedValue([
+        follow('user-1', FollowTargetType.MEETING_BODY, 'City Council'),
+      ]);
+
+      const alerts = await service.createAlerts(
+        syncResult(CivicDataType.MEETINGS, {
+          created: [
+            {
+              externalId: 'cc-2024-03-12',
+              label: 'Regular Meeting',
+              restored: false,
+              changes: [],
+            },
+          ],
+        }),
+      );
+
+      expect(alerts).toEqual([
+        expect.objectContaining({
+          targetType: FollowTargetType.MEETING_BODY,
+          targetId: 'City Council',
+          recordId: 'meeting-1',
+          change: FollowAlertChange.CREATED,
+        }),
+      ]);
+    });
+
+    it('should not create alerts for data types users cannot follow', async () => {
+      const alerts = await service.createAlerts(
+        syncResult(CivicDataType.ELECTIONS, { updated: [statusChange] }),
+      );
+
+      expect(alerts).toEqual([]);
+      expect(followRepo.find).not.toHaveBeenCalled();
+    });
+
+    it('should not save anything when nobody follows the changes', async () => {
+      const alerts = await service.createAlerts(
+        syncResult(CivicDataType.PROPOSITIONS, { updated: [statusChange] }),
+      );
+
+      expect(alerts).toEqual([]);
+      expect(alertRepo.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deliver', () => {
+    it('should dispatch one notification per alert', async () => {
+      await service.deliver([
+        alert(),
+        alert({
+          id: 'alert-2',
+          targetType: FollowTargetType.MEETING_BODY,
+          targetId: 'City Council',
+          recordId: 'meeting-1',
+          label: 'Regular Meeting',
+          changes: [
+            {
+              field: 'agendaUrl',
+              previousValue: null,
+              newValue: 'https://springfield.example.gov/agenda.pdf',
+            },
+          ],
+        }),
+      ]);
+
+      expect(dispatcher.dispatch).toHaveBeenCalledWith([
+        {
+          userId: 'user-1',
+          category: NotificationCategory.CIVIC_BALLOT_UPDATE,
+          title: 'Proposition updated: Prop 12 - Housing Bond',
+          lines: ['Status: pending → passed'],
+          url: 'https://app.example.com/region/propositions',
+          source: { type: 'follow_alert', id: 'alert-1' },
+        },
+        {
+          userId: 'user-1',
+          category: NotificationCategory.CIVIC_REPRESENTATIVE_UPDATE,
+          title: 'City Council meeting updated: Regular Meeting',
+          lines: ['Agenda posted'],
+          url: 'https://app.example.com/region/meetings',
+          source: { type: 'follow_alert', id: 'alert-2' },
+        },
+      ]);
+    });
+
+    it('should describe new meetings by their time in the region', async () => {
+      await service.deliver([
+        alert({
+          targetType: FollowTargetType.MEETING_BODY,
+          targetId: 'City Council',
+          label: 'Regular Meeting',
+          change: FollowAlertChange.CREATED,
+          changes: [
+            {
+              field: 'scheduledAt',
+              previousValue: null,
+              newValue: '2024-03-13T01:30:00.000Z',
+            },
+          ],
+        }),
+      ]);
+
+      expect(dispatcher.dispatch).toHaveBeenCalledWith([
+        expect.objectContaining({
+          title: 'New City Council meeting: Regular Meeting',
+          lines: ['Scheduled for Mar 12, 2024, 6:30 PM'],
+        }),
+      ]);
+    });
+
+    it('should describe representative changes', async () => {
+      await service.deliver([
+        alert({
+          targetType: FollowTargetType.REPRESENTATIVE,
+          targetId: 'rep-1',
+          recordId: 'rep-1',
+          label: 'Jane Smith',
+          changes: [
+            { field: 'party', previousValue: 'Independent', newValue: null },
+          ],
+        }),
+      ]);
+
+      expect(dispatcher.dispatch).toHaveBeenCalledWith([
+        expect.objectContaining({
+          category: NotificationCategory.CIVIC_REPRESENTATIVE_UPDATE,
+          title: 'Representative updated: Jane Smith',
+          lines: ['Party: Independent → none'],
+        }),
+      ]);
+    });
+  });
+
+  describe('recordOutcomes', () => {
+    const delivery = (overrides: Partial<NotificationDeliveryEntity>) =>
+      ({
+        sourceType: 'follow_alert',
+        sourceId: 'alert-1',
+        channel: NotificationChannel.EMAIL,
+        ...overrides,
+      }) as NotificationDeliveryEntity;
+
+    it('should record the outcome of each notification on its alert', async () => {
+      const sentAt = new Date('2024-03-12T18:00:00Z');
+      deliveryQuery.getMany.mockResolvedValue([
+        delivery({ status: NotificationDeliveryStatus.SENT, sentAt }),
+        delivery({
+          sourceId: 'alert-2',
+          status: NotificationDeliveryStatus.SKIPPED,
+        }),
+        delivery({
+          sourceId: 'alert-3',
+          status: NotificationDeliveryStatus.FAILED,
+          errorMessage: 'Invalid recipient',
+        }),
+      ]);
+
+      expect(await service.recordOutcomes()).toBe(3);
+
+      expect(alertRepo.update).toHaveBeenCalledWith(
+        { id: 'alert-1', status: FollowAlertStatus.PENDING },
+        { status: FollowAlertStatus.SENT, deliveredAt: sentAt },
+      );
+      expect(alertRepo.update).toHaveBeenCalledWith(
+        { id: 'alert-2', status: FollowAlertStatus.PENDING },
+        { status: FollowAlertStatus.SKIPPED },
+      );
+      expect(alertRepo.update).toHaveBeenCalledWith(
+        { id: 'alert-3', status: FollowAlertStatus.PENDING },
+        { status: FollowAlertStatus.FAILED, errorMessage: 'Invalid recipient' },
+      );
+    });
+
+    it('should read final email notifications of pending alerts from the database', async () => {
+      await service.recordOutcomes();
+
+      expect(deliveryQuery.innerJoin).toHaveBeenCalledWith(
+        FollowAlertEntity,
+        'alert',
+        'alert.id::text = delivery.sourceId',
+      );
+      expect(deliveryQuery.where).toHaveBeenCalledWith(
+        'delivery.sourceType = :sourceType',
+        { sourceType: 'follow_alert' },
+      );
+      expect(deliveryQuery.andWhere).toHaveBeenCalledWith(
+        'delivery.channel = :channel',
+        { channel: NotificationChannel.EMAIL },
+      );
+      expect(deliveryQuery.andWhere).toHaveBeenCalledWith(
+        'delivery.status IN (:...statuses)',
+        {
+          statuses: [
+            NotificationDeliveryStatus.SENT,
+            NotificationDeliveryStatus.SKIPPED,
+            NotificationDeliveryStatus.FAILED,
+          ],
+        },
+      );
+      expect(deliveryQuery.andWhere).toHaveBeenCalledWith(
+        'alert.status = :pending',
+        { pending: FollowAlertStatus.PENDING },
+      );
+      expect(alertRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('should not count alerts another run already recorded', async () => {
+      deliveryQuery.getMany.mockResolvedValue([
+        delivery({ status: NotificationDeliveryStatus.SENT }),
+      ]);
+      alertRepo.update.mockResolvedValue({ affected: 0 });
+
+      expect(await service.recordOutcomes()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,416 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { CivicDataType } from '@qckstrt/region-provider';
+import { MeetingEntity } from 'src/db/entities/meeting.entity';
+import {
+  FollowTargetType,
+  UserFollowEntity,
+} from 'src/db/entities/user-follow.entity';
+import {
+  FollowAlertChange,
+  FollowAlertEntity,
+  FollowAlertStatus,
+} from 'src/db/entities/follow-alert.entity';
+import {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationDeliveryEntity,
+  NotificationDeliveryStatus,
+} from 'src/db/entities/notification-delivery.entity';
+import {
+  NotificationDispatcherService,
+  NotificationEvent,
+} from 'src/common/notifications';
+import {
+  FieldChange,
+  RecordChange,
+  RegionDomainService,
+  RegionSyncResult,
+} from './region.service';
+
+/**
+ * What users follow of each synced data type
+ */
+const FOLLOWED_DATA_TYPES: Partial<Record<CivicDataType, FollowTargetType>> = {
+  [CivicDataType.PROPOSITIONS]: FollowTargetType.PROPOSITION,
+  [CivicDataType.REPRESENTATIVES]: FollowTargetType.REPRESENTATIVE,
+  [CivicDataType.MEETINGS]: FollowTargetType.MEETING_BODY,
+};
+
+/**
+ * Frontend page listing each kind of followed item
+ */
+const TARGET_PAGES: Record<FollowTargetType, string> = {
+  [FollowTargetType.PROPOSITION]: '/region/propositions',
+  [FollowTargetType.REPRESENTATIVE]: '/region/representatives',
+  [FollowTargetType.MEETING_BODY]: '/region/meetings',
+};
+
+// Source type of follow alert notifications
+const FOLLOW_ALERT_SOURCE = 'follow_alert';
+
+/**
+ * Alert status of each final delivery status
+ */
+const ALERT_STATUSES: Partial<
+  Record<NotificationDeliveryStatus, FollowAlertStatus>
+> = {
+  [NotificationDeliveryStatus.SENT]: FollowAlertStatus.SENT,
+  [NotificationDeliveryStatus.SKIPPED]: FollowAlertStatus.SKIPPED,
+  [NotificationDeliveryStatus.FAILED]: FollowAlertStatus.FAILED,
+};
+
+// Alert outcomes recorded per run
+const OUTCOME_BATCH_SIZE = 500;
+
+// Longer values (summaries, full text) are only reported as changed
+const MAX_VALUE_LENGTH = 80;
+
+/**
+ * A changed record with the follow target it belongs to
+ */
+interface FollowedChange {
+  targetId: string;
+  recordId: string;
+  record: RecordChange;
+  change: FollowAlertChange;
+}
+
+/**
+ * Follow Alerts Service
+ *
+ * Turns region syncs into per-user alerts: when a sync creates or updates
+ * something users follow (a proposition or representative, or a meeting of
+ * a followed body), one alert is stored per follower. Alerts are delivered
+ * through the NotificationDispatcherService, which applies each user's
+ * notification preferences (civicBallotUpdates, civicRepresentativeUpdates,
+ * civicFrequency) and sends one email per user and sync, or holds them for
+ * quiet hours or a digest. Alerts stay pending until their email
+ * notification is sent, skipped or failed; followers also see them in the
+ * in-app notification center.
+ */
+@Injectable()
+export class FollowAlertsService implements OnModuleInit {
+  private readonly logger = new Logger(FollowAlertsService.name, {
+    timestamp: true,
+  });
+  private readonly frontendUrl: string;
+
+  constructor(
+    @InjectRepository(FollowAlertEntity)
+    private readonly alertRepo: Repository<FollowAlertEntity>,
+    @InjectRepository(UserFollowEntity)
+    private readonly followRepo: Repository<UserFollowEntity>,
+    @InjectRepository(MeetingEntity)
+    private readonly meetingRepo: Repository<MeetingEntity>,
+    @InjectRepository(NotificationDeliveryEntity)
+    private readonly deliveryRepo: Repository<NotificationDeliveryEntity>,
+    private readonly dispatcher: NotificationDispatcherService,
+    private readonly regionService: RegionDomainService,
+    configService: ConfigService,
+  ) {
+    this.frontendUrl =
+      configService.get<string>('FRONTEND_URL') ||
+      'https://app.commonwealthlabs.io';
+  }
+
+  /**
+   * Create and deliver alerts after each sync, and record how their
+   * notifications went after each delivery run and sync
+   */
+  onModuleInit() {
+    this.regionService.onSynced(async (result) => {
+      const alerts = await this.createAlerts(result);
+      if (alerts.length > 0) {
+        await this.deliver(alerts);
+      }
+      await this.recordOutcomes();
+    });
+    this.dispatcher.onDelivered(async () => {
+      await this.recordOutcomes();
+    });
+  }
+
+  /**
+   * Store one alert per follower of each record a sync created or updated
+   *
+   * Records whose stored fields didn't change are left out.
+   */
+  async createAlerts(result: RegionSyncResult): Promise<FollowAlertEntity[]> {
+    const targetType = FOLLOWED_DATA_TYPES[result.dataType];
+    if (!targetType || !result.changes || !result.regionId) return [];
+    const { regionId } = result;
+
+    const changed = await this.findFollowedChanges(
+      targetType,
+      regionId,
+      result.changes.created,
+      result.changes.updated.filter(
+        (record) => record.restored || record.changes.length > 0,
+      ),
+    );
+    if (changed.length === 0) return [];
+
+    const follows = await this.followRepo.find({
+      where: {
+        targetType,
+        regionId,
+        targetId: In([...new Set(changed.map((c) => c.targetId))]),
+      },
+    });
+    if (follows.length === 0) return [];
+
+    const alerts = changed.flatMap(({ targetId, recordId, record, change }) =>
+      follows
+        .filter((follow) => follow.targetId === targetId)
+        .map((follow) =>
+          this.alertRepo.create({
+            userId: follow.userId,
+            regionId,
+            targetType,
+            targetId,
+            recordId,
+            label: record.label,
+            change,
+            changes: record.changes,
+            syncRunId: result.runId,
+          }),
+        ),
+    );
+
+    const saved = await this.alertRepo.save(alerts);
+    this.logger.log(
+      `Created ${saved.length} follow alerts for ${regionId}/${result.dataType}`,
+    );
+    return saved;
+  }
+
+  /**
+   * Deliver alerts through the notification dispatcher
+   *
+   * Proposition alerts are ballot updates; representative and meeting body
+   * alerts are representative updates.
+   */
+  async deliver(alerts: FollowAlertEntity[]): Promise<void> {
+    await this.dispatcher.dispatch(
+      alerts.map((alert) => ({
+        userId: alert.userId,
+        category:
+          alert.targetType === FollowTargetType.PROPOSITION
+            ? NotificationCategory.CIVIC_BALLOT_UPDATE
+            : NotificationCategory.CIVIC_REPRESENTATIVE_UPDATE,
+        ...this.toNotification(alert),
+        source: { type: FOLLOW_ALERT_SOURCE, id: alert.id },
+      })),
+    );
+  }
+
+  /**
+   * Mark pending alerts sent, skipped or failed as their email
+   * notifications are, whether right away, after quiet hours or in a digest
+   *
+   * Outcomes are read from the stored notifications, so they are recorded
+   * whichever service delivered them.
+   *
+   * @returns the number of alerts recorded
+   */
+  async recordOutcomes(): Promise<number> {
+    const deliveries = await this.deliveryRepo
+      .createQueryBuilder('delivery')
+      .innerJoin(
+        FollowAlertEntity,
+        'alert',
+        'alert.id::text = delivery.sourceId',
+      )
+      .where('delivery.sourceType = :sourceType', {
+        sourceType: FOLLOW_ALERT_SOURCE,
+      })
+      .andWhere('delivery.channel = :channel', {
+        channel: NotificationChannel.EMAIL,
+      })
+      .andWhere('delivery.status IN (:...statuses)', {
+        statuses: Object.keys(ALERT_STATUSES),
+      })
+      .andWhere('alert.status = :pending', {
+        pending: FollowAlertStatus.PENDING,
+      })
+      .orderBy('delivery.createdAt', 'ASC')
+      .limit(OUTCOME_BATCH_SIZE)
+      .getMany();
+
+    let recorded = 0;
+    for (const delivery of deliveries) {
+      const status = ALERT_STATUSES[delivery.status];
+      if (!delivery.sourceId || !status) continue;
+      const result = await this.alertRepo.update(
+        { id: delivery.sourceId, status: FollowAlertStatus.PENDING },
+        {
+          status,
+          ...(delivery.sentAt && { deliveredAt: delivery.sentAt }),
+          ...(delivery.errorMessage && {
+            errorMessage: delivery.errorMessage,
+          }),
+        },
+      );
+      recorded += result.affected ?? 0;
+    }
+    if (recorded > 0) {
+      this.logger.log(`Recorded the outcome of ${recorded} follow alerts`);
+    }
+    return recorded;
+  }
+
+  /**
+   * Find the follow target of each changed record
+   *
+   * Propositions and representatives are followed by ID. Meetings are
+   * followed by body, which is read from the stored meetings since updates
+   * only list the fields that changed.
+   */
+  private async findFollowedChanges(
+    targetType: FollowTargetType,
+    regionId: string,
+    created: RecordChange[],
+    updated: RecordChange[],
+  ): Promise<FollowedChange[]> {
+    const toChange = (record: RecordChange): FollowAlertChange => {
+      if (record.restored) return FollowAlertChange.RESTORED;
+      return record.id ? FollowAlertChange.UPDATED : FollowAlertChange.CREATED;
+    };
+
+    if (targetType !== FollowTargetType.MEETING_BODY) {
+      // Records are followed after they exist, so new ones have no followers
+      return updated.flatMap((record) =>
+        record.id
+          ? [
+              {
+                targetId: record.id,
+                recordId: record.id,
+                record,
+                change: toChange(record),
+              },
+            ]
+          : [],
+      );
+    }
+
+    const records = [...created, ...updated];
+    if (records.length === 0) return [];
+    const meetings = await this.meetingRepo.find({
+      where: {
+        regionId,
+        externalId: In(records.map((record) => record.externalId)),
+      },
+      select: { id: true, externalId: true, body: true },
+    });
+    const meetingsByExternalId = new Map(
+      meetings.map((meeting) => [meeting.externalId, meeting]),
+    );
+
+    return records.flatMap((record) => {
+      const meeting = meetingsByExternalId.get(record.externalId);
+      return meeting
+        ? [
+            {
+              targetId: meeting.body,
+              recordId: meeting.id,
+              record,
+              change: toChange(record),
+            },
+          ]
+        : [];
+    });
+  }
+
+  /**
+   * Describe an alert as a notification
+   */
+  private toNotification(
+    alert: FollowAlertEntity,
+  ): Pick<NotificationEvent, 'title' | 'lines' | 'url'> {
+    const { timezone } = this.regionService.getRegionInfo(alert.regionId);
+    const url = `${this.frontendUrl}${TARGET_PAGES[alert.targetType]}`;
+
+    if (alert.targetType === FollowTargetType.MEETING_BODY) {
+      const scheduledAt = formatValue(
+        'scheduledAt',
+        alert.changes.find((c) => c.field === 'scheduledAt')?.newValue ?? null,
+        timezone,
+      );
+      if (alert.change === FollowAlertChange.CREATED) {
+        return {
+          title: `New ${alert.targetId} meeting: ${alert.label}`,
+          lines: scheduledAt ? [`Scheduled for ${scheduledAt}`] : [],
+          url,
+        };
+      }
+      return {
+        title: `${alert.targetId} meeting ${alert.change}: ${alert.label}`,
+        lines: alert.changes.map((c) => describeChange(c, timezone)),
+        url,
+      };
+    }
+
+    const noun =
+      alert.targetType === FollowTargetType.PROPOSITION
+        ? 'Proposition'
+        : 'Representative';
+    return {
+      title: `${noun} ${alert.change}: ${alert.label}`,
+      lines: alert.changes.map((c) => describeChange(c, timezone)),
+      url,
+    };
+  }
+}
+
+/**
+ * Describe a field change in a sentence, e.g. "Status: pending → passed"
+ */
+function describeChange(change: FieldChange, timezone: string): string {
+  const name = humanizeField(change.field);
+  if (change.field === 'agendaUrl' || change.field === 'minutesUrl') {
+    if (!change.newValue) return `${name} removed`;
+    return change.previousValue ? `${name} replaced` : `${name} posted`;
+  }
+
+  const previous = formatValue(change.field, change.previousValue, timezone);
+  const next = formatValue(change.field, change.newValue, timezone);
+  if (
+    (previous?.length ?? 0) > MAX_VALUE_LENGTH ||
+    (next?.length ?? 0) > MAX_VALUE_LENGTH
+  ) {
+    return `${name} changed`;
+  }
+  return `${name}: ${previous ?? 'none'} → ${next ?? 'none'}`;
+}
+
+/**
+ * Turn a field name into a label, e.g. "agendaUrl" → "Agenda"
+ */
+function humanizeField(field: string): string {
+  const words = field
+    .replace(/Url$/, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Show date fields in the region's timezone
+ */
+function formatValue(
+  field: string,
+  value: string | null,
+  timezone: string,
+): string | null {
+  if (value === null || !/At$|Date$/.test(field)) return value;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString('en-US', {
+    timeZone: timezone,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
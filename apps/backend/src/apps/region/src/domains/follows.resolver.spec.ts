@@ -0,0 +1,113 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createMock } from '@golevelup/ts-jest';
+import { UserInputError } from '@nestjs/apollo';
+import { UnknownRegionError } from '@qckstrt/region-provider';
+import { GqlContext } from 'src/common/utils/graphql-context';
+import {
+  FollowTargetType,
+  UserFollowEntity,
+} from 'src/db/entities/user-follow.entity';
+import { FollowsResolver } from './follows.resolver';
+import { FollowsService } from './follows.service';
+
+describe('FollowsResolver', () => {
+  let resolver: FollowsResolver;
+  let followsService: jest.Mocked<FollowsService>;
+
+  const context = {
+    req: { user: { id: 'user-1', email: 'user@example.com' }, headers: {} },
+  } as unknown as GqlContext;
+
+  const follow = {
+    id: 'follow-1',
+    userId: 'user-1',
+    regionId: 'springfield',
+    targetType: FollowTargetType.MEETING_BODY,
+    targetId: 'City Council',
+    createdAt: new Date(),
+  } as UserFollowEntity;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FollowsResolver,
+        { provide: FollowsService, useValue: createMock<FollowsService>() },
+      ],
+    }).compile();
+
+    resolver = module.get(FollowsResolver);
+    followsService = module.get(FollowsService);
+  });
+
+  it("should list the user's follows", async () => {
+    followsService.getFollows.mockResolvedValue([follow]);
+
+    expect(await resolver.myFollows(context)).toEqual([follow]);
+    expect(followsService.getFollows).toHaveBeenCalledWith('user-1');
+  });
+
+  it('should follow for the signed-in user', async () => {
+    followsService.follow.mockResolvedValue(follow);
+
+    const result = await resolver.follow(
+      context,
+      FollowTargetType.MEETING_BODY,
+      'City Council',
+      'springfield',
+    );
+
+    expect(result).toBe(follow);
+    expect(followsService.follow).toHaveBeenCalledWith(
+      'user-1',
+      FollowTargetType.MEETING_BODY,
+      'City Council',
+      'springfield',
+    );
+  });
+
+  it('should reject unknown regions as user input errors', async () => {
+    followsService.follow.mockRejectedValue(
+      new UnknownRegionError('shelbyville'),
+    );
+
+    await expect(
+      resolver.follow(
+        context,
+        FollowTargetType.MEETING_BODY,
+        'City Council',
+        'shelbyville',
+      ),
+    ).rejects.toThrow(UserInputError);
+  });
+
+  it('should propagate missing targets', async () => {
+    followsService.follow.mockRejectedValue(
+      new NotFoundException('proposition x not found'),
+    );
+
+    await expect(
+      resolver.follow(context, FollowTargetType.PROPOSITION, 'x'),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('should unfollow for the signed-in user', async () => {
+    followsService.unfollow.mockResolvedValue(true);
+
+    expect(
+      await resolver.unfollow(context, FollowTargetType.PROPOSITION, 'prop-1'),
+    ).toBe(true);
+    expect(followsService.unfollow).toHaveBeenCalledWith(
+      'user-1',
+      FollowTargetType.PROPOSITION,
+      'prop-1',
+      undefined,
+    );
+  });
+
+  it('should require a signed-in user', async () => {
+    const anonymous = { req: { headers: {} } } as unknown as GqlContext;
+
+    await expect(resolver.myFollows(anonymous)).rejects.toThrow(UserInputError);
+  });
+});
@@ -0,0 +1,93 @@
+import { Args, Context, ID, Mutation, Query, Resolver } from '@nestjs/graphql';
+import { UserInputError } from '@nestjs/apollo';
+import { UnknownRegionError } from '@qckstrt/region-provider';
+import { FollowTargetType } from 'src/db/entities/user-follow.entity';
+import {
+  GqlContext,
+  getUserFromContext,
+} from 'src/common/utils/graphql-context';
+import { FollowsService } from './follows.service';
+import { FollowModel } from './models/follow.model';
+
+/**
+ * Follows Resolver
+ *
+ * Lets the signed-in user follow propositions, representatives and meeting
+ * bodies.
+ */
+@Resolver(() => FollowModel)
+export class FollowsResolver {
+  constructor(private readonly followsService: FollowsService) {}
+
+  /**
+   * Get everything the signed-in user follows
+   */
+  @Query(() => [FollowModel])
+  async myFollows(@Context() context: GqlContext): Promise<FollowModel[]> {
+    const user = getUserFromContext(context);
+    return this.followsService.getFollows(user.id);
+  }
+
+  /**
+   * Follow a proposition or representative by ID, or a meeting body by name
+   *
+   * regionId picks the region of a meeting body (default region when not
+   * given); records carry their own region.
+   */
+  @Mutation(() => FollowModel)
+  async follow(
+    @Context() context: GqlContext,
+    @Args({ name: 'targetType', type: () => FollowTargetType })
+    targetType: FollowTargetType,
+    @Args({ name: 'targetId', type: () => ID }) targetId: string,
+    @Args({ name: 'regionId', nullable: true }) regionId?: string,
+  ): Promise<FollowModel> {
+    const user = getUserFromContext(context);
+    try {
+      return await this.followsService.follow(
+        user.id,
+        targetType,
+        targetId,
+        regionId,
+      );
+    } catch (error) {
+      throw this.toUserInputError(error);
+    }
+  }
+
+  /**
+   * Stop following something
+   *
+   * Returns false if the user wasn't following it.
+   */
+  @Mutation(() => Boolean)
+  async unfollow(
+    @Context() context: GqlContext,
+    @Args({ name: 'targetType', type: () => FollowTargetType })
+    targetType: FollowTargetType,
+    @Args({ name: 'targetId', type: () => ID }) targetId: string,
+    @Args({ name: 'regionId', nullable: true }) regionId?: string,
+  ): Promise<boolean> {
+    const user = getUserFromContext(context);
+    try {
+      return await this.followsService.unfollow(
+        user.id,
+        targetType,
+        targetId,
+        regionId,
+      );
+    } catch (error) {
+      throw this.toUserInputError(error);
+    }
+  }
+
+  /**
+   * Surface unknown region IDs as client errors
+   */
+  private toUserInputError(error: unknown): unknown {
+    if (error instanceof UnknownRegionError) {
+      return new UserInputError(error.message);
+    }
+    return error;
+  }
+}
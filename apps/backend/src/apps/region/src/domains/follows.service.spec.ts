@@ -0,0 +1,230 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { createMock } from '@golevelup/ts-jest';
+import { UnknownRegionError } from '@qckstrt/region-provider';
+import { PropositionEntity } from 'src/db/entities/proposition.entity';
+import { RepresentativeEntity } from 'src/db/entities/representative.entity';
+import { MeetingEntity } from 'src/db/entities/meeting.entity';
+import {
+  FollowTargetType,
+  UserFollowEntity,
+} from 'src/db/entities/user-follow.entity';
+import { FollowsService } from './follows.service';
+import { RegionDomainService } from './region.service';
+import { RegionInfoModel } from './models/region-info.model';
+
+describe('FollowsService', () => {
+  let service: FollowsService;
+  let regionService: jest.Mocked<RegionDomainService>;
+  let insertQb: {
+    insert: jest.Mock;
+    values: jest.Mock;
+    orIgnore: jest.Mock;
+    execute: jest.Mock;
+  };
+  let followRepo: {
+    createQueryBuilder: jest.Mock;
+    findOneByOrFail: jest.Mock;
+    delete: jest.Mock;
+    find: jest.Mock;
+  };
+  let propositionRepo: { findOne: jest.Mock };
+  let representativeRepo: { findOne: jest.Mock };
+  let meetingRepo: { exists: jest.Mock };
+
+  const follow = {
+    id: 'follow-1',
+    userId: 'user-1',
+    regionId: 'springfield',
+    targetType: FollowTargetType.PROPOSITION,
+    targetId: 'prop-1',
+    createdAt: new Date(),
+  } as UserFollowEntity;
+
+  beforeEach(async () => {
+    insertQb = {
+      insert: jest.fn().mockReturnThis(),
+      values: jest.fn().mockReturnThis(),
+      orIgnore: jest.fn().mockReturnThis(),
+      execute: jest.fn().mockResolvedValue({}),
+    };
+    followRepo = {
+      createQueryBuilder: jest.fn(() => insertQb),
+      findOneByOrFail: jest.fn().mockResolvedValue(follow),
+      delete: jest.fn().mockResolvedValue({ affected: 1 }),
+      find: jest.fn().mockResolvedValue([follow]),
+    };
+    propositionRepo = { findOne: jest.fn() };
+    representativeRepo = { findOne: jest.fn() };
+    meetingRepo = { exists: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FollowsService,
+        { provide: getRepositoryToken(UserFollowEntity), useValue: followRepo },
+        {
+          provide: getRepositoryToken(PropositionEntity),
+          useValue: propositionRepo,
+        },
+        {
+          provide: getRepositoryToken(RepresentativeEntity),
+          useValue: representativeRepo,
+        },
+        { provide: getRepositoryToken(MeetingEntity), useValue: meetingRepo },
+        {
+          provide: RegionDomainService,
+          useValue: createMock<RegionDomainService>(),
+        },
+      ],
+    }).compile();
+
+    service = module.get(FollowsService);
+    regionService = module.get(RegionDomainService);
+    regionService.getRegionInfo.mockReturnValue({
+      id: 'springfield',
+    } as RegionInfoModel);
+  });
+
+  describe('follow', () => {
+    it("should follow a proposition in the proposition's region", async () => {
+      propositionRepo.findOne.mockResolvedValue({
+        id: 'prop-1',
+        regionId: 'shelbyville',
+      });
+
+      const result = await service.follow(
+        'user-1',
+        FollowTargetType.PROPOSITION,
+        'prop-1',
+      );
+
+      const target = {
+        userId: 'user-1',
+        targetType: FollowTargetType.PROPOSITION,
+        targetId: 'prop-1',
+        regionId: 'shelbyville',
+      };
+      expect(insertQb.values).toHaveBeenCalledWith(target);
+      expect(insertQb.orIgnore).toHaveBeenCalled();
+      expect(followRepo.findOneByOrFail).toHaveBeenCalledWith(target);
+      expect(result).toBe(follow);
+    });
+
+    it('should look up representatives', async () => {
+      representativeRepo.findOne.mockResolvedValue({
+        id: 'rep-1',
+        regionId: 'springfield',
+      });
+
+      await service.follow('user-1', FollowTargetType.REPRESENTATIVE, 'rep-1');
+
+      expect(representativeRepo.findOne).toHaveBeenCalledWith({
+        where: { id: 'rep-1' },
+        select: { id: true, regionId: true },
+      });
+      expect(propositionRepo.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for unknown records', async () => {
+      propositionRepo.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.follow('user-1', FollowTargetType.PROPOSITION, 'missing'),
+      ).rejects.toThrow(NotFoundException);
+      expect(insertQb.execute).not.toHaveBeenCalled();
+    });
+
+    it('should follow a meeting body with meetings in the region', async () => {
+      meetingRepo.exists.mockResolvedValue(true);
+
+      await service.follow(
+        'user-1',
+        FollowTargetType.MEETING_BODY,
+        'City Council',
+        'springfield',
+      );
+
+      expect(regionService.getRegionInfo).toHaveBeenCalledWith('springfield');
+      expect(meetingRepo.exists).toHaveBeenCalledWith({
+        where: { regionId: 'springfield', body: 'City Council' },
+      });
+      expect(insertQb.values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          regionId: 'springfield',
+          targetId: 'City Council',
+        }),
+      );
+    });
+
+    it('should reject meeting bodies without meetings', async () => {
+      meetingRepo.exists.mockResolvedValue(false);
+
+      await expect(
+        service.follow('user-1', FollowTargetType.MEETING_BODY, 'Counsel'),
+      ).rejects.toThrow('No meetings of Counsel found in springfield');
+    });
+
+    it('should propagate unknown regions', async () => {
+      regionService.getRegionInfo.mockImplementation(() => {
+        throw new UnknownRegionError('shelbyville');
+      });
+
+      await expect(
+        service.follow(
+          'user-1',
+          FollowTargetType.MEETING_BODY,
+          'City Council',
+          'shelbyville',
+        ),
+      ).rejects.toThrow(UnknownRegionError);
+    });
+  });
+
+  describe('unfollow', () => {
+    it('should delete the follow', async () => {
+      const result = await service.unfollow(
+        'user-1',
+        FollowTargetType.PROPOSITION,
+        'prop-1',
+      );
+
+      expect(result).toBe(true);
+      expect(followRepo.delete).toHaveBeenCalledWith({
+        userId: 'user-1',
+        targetType: FollowTargetType.PROPOSITION,
+        targetId: 'prop-1',
+      });
+    });
+
+    it('should scope meeting bodies to the region', async () => {
+      await service.unfollow(
+        'user-1',
+        FollowTargetType.MEETING_BODY,
+        'City Council',
+      );
+
+      expect(followRepo.delete).toHaveBeenCalledWith(
+        expect.objectContaining({ regionId: 'springfield' }),
+      );
+    });
+
+    it('should return false when not following', async () => {
+      followRepo.delete.mockResolvedValue({ affected: 0 });
+
+      expect(
+        await service.unfollow('user-1', FollowTargetType.PROPOSITION, 'x'),
+      ).toBe(false);
+    });
+  });
+
+  describe('getFollows', () => {
+    it("should return the user's follows, most recent first", async () => {
+      expect(await service.getFollows('user-1')).toEqual([follow]);
+      expect(followRepo.find).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+        order: { createdAt: 'DESC' },
+      });
+    });
+  });
+});
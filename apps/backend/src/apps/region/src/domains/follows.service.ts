@@ -0,0 +1,131 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PropositionEntity } from 'src/db/entities/proposition.entity';
+import { RepresentativeEntity } from 'src/db/entities/representative.entity';
+import { MeetingEntity } from 'src/db/entities/meeting.entity';
+import {
+  FollowTargetType,
+  UserFollowEntity,
+} from 'src/db/entities/user-follow.entity';
+import { RegionDomainService } from './region.service';
+
+/**
+ * Follows Service
+ *
+ * Lets users follow propositions, representatives and meeting bodies.
+ */
+@Injectable()
+export class FollowsService {
+  constructor(
+    @InjectRepository(UserFollowEntity)
+    private readonly followRepo: Repository<UserFollowEntity>,
+    @InjectRepository(PropositionEntity)
+    private readonly propositionRepo: Repository<PropositionEntity>,
+    @InjectRepository(RepresentativeEntity)
+    private readonly representativeRepo: Repository<RepresentativeEntity>,
+    @InjectRepository(MeetingEntity)
+    private readonly meetingRepo: Repository<MeetingEntity>,
+    private readonly regionService: RegionDomainService,
+  ) {}
+
+  /**
+   * Follow a proposition or representative by ID, or a meeting body by name
+   *
+   * Following something already followed returns the existing follow.
+   * Meeting bodies are looked up in regionId (default region when not
+   * given); records carry their own region.
+   *
+   * @throws NotFoundException if the record or body doesn't exist
+   * @throws UnknownRegionError if regionId is not a configured region
+   */
+  async follow(
+    userId: string,
+    targetType: FollowTargetType,
+    targetId: string,
+    regionId?: string,
+  ): Promise<UserFollowEntity> {
+    const target = {
+      userId,
+      targetType,
+      targetId,
+      regionId: await this.findTargetRegion(targetType, targetId, regionId),
+    };
+
+    await this.followRepo
+      .createQueryBuilder()
+      .insert()
+      .values(target)
+      .orIgnore()
+      .execute();
+
+    return this.followRepo.findOneByOrFail(target);
+  }
+
+  /**
+   * Stop following something
+   *
+   * @returns Whether the user was following it
+   */
+  async unfollow(
+    userId: string,
+    targetType: FollowTargetType,
+    targetId: string,
+    regionId?: string,
+  ): Promise<boolean> {
+    const result = await this.followRepo.delete({
+      userId,
+      targetType,
+      targetId,
+      ...(targetType === FollowTargetType.MEETING_BODY && {
+        regionId: this.regionService.getRegionInfo(regionId).id,
+      }),
+    });
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * Get everything a user follows, most recent first
+   */
+  async getFollows(userId: string): Promise<UserFollowEntity[]> {
+    return this.followRepo.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Find the region of a follow target, checking that it exists
+   */
+  private async findTargetRegion(
+    targetType: FollowTargetType,
+    targetId: string,
+    regionId?: string,
+  ): Promise<string> {
+    if (targetType === FollowTargetType.MEETING_BODY) {
+      const region = this.regionService.getRegionInfo(regionId).id;
+      const exists = await this.meetingRepo.exists({
+        where: { regionId: region, body: targetId },
+      });
+      if (!exists) {
+        throw new NotFoundException(
+          `No meetings of ${targetId} found in ${region}`,
+        );
+      }
+      return region;
+    }
+
+    const repo: Repository<PropositionEntity | RepresentativeEntity> =
+      targetType === FollowTargetType.PROPOSITION
+        ? this.propositionRepo
+        : this.representativeRepo;
+    const record = await repo.findOne({
+      where: { id: targetId },
+      select: { id: true, regionId: true },
+    });
+    if (!record) {
+      throw new NotFoundException(`${targetType} ${targetId} not found`);
+    }
+    return record.regionId;
+  }
+}
@@ -0,0 +1,126 @@
+import {
+  escapeText,
+  foldLine,
+  formatDateTime,
+  toLocalDate,
+  writeCalendar,
+} from './ical';
+
+describe('ical', () => {
+  describe('escapeText', () => {
+    it('should escape backslashes, separators and line breaks', () => {
+      expect(escapeText('a\\b; c, d\r\ne\nf')).toBe('a\\\\b\\; c\\, d\\ne\\nf');
+    });
+  });
+
+  describe('foldLine', () => {
+    it('should leave short lines alone', () => {
+      expect(foldLine('SUMMARY:Council')).toBe('SUMMARY:Council');
+    });
+
+    it('should fold at 75 octets with a leading space', () => {
+      const line = `DESCRIPTION:${'x'.repeat(150)}`;
+
+      const lines = foldLine(line).split('\r\n');
+
+      expect(lines[0]).toHaveLength(75);
+      expect(lines.slice(1).every((l) => l.startsWith(' '))).toBe(true);
+      expect(lines.every((l) => Buffer.byteLength(l) <= 75)).toBe(true);
+      expect(lines.map((l, i) => (i ? l.slice(1) : l)).join('')).toBe(line);
+    });
+
+    it('should not split multi-byte characters', () => {
+      const line = `SUMMARY:${'é'.repeat(60)}`;
+
+      const lines = foldLine(line).split('\r\n');
+
+      expect(lines.every((l) => Buffer.byteLength(l) <= 75)).toBe(true);
+      expect(lines.map((l, i) => (i ? l.slice(1) : l)).join('')).toBe(line);
+    });
+  });
+
+  describe('formatDateTime', () => {
+    it('should format instants in UTC', () => {
+      expect(formatDateTime(new Date('2024-10-08T23:30:15.250Z'))).toBe(
+        '20241008T233015Z',
+      );
+    });
+  });
+
+  describe('toLocalDate', () => {
+    it('should take the date in the given timezone', () => {
+      const midnightUtc = new Date('2024-11-05T03:00:00Z');
+
+      expect(toLocalDate(midnightUtc, 'America/Los_Angeles')).toBe(
+        '2024-11-04',
+      );
+      expect(toLocalDate(midnightUtc, 'UTC')).toBe('2024-11-05');
+    });
+  });
+
+  describe('writeCalendar', () => {
+    const lastModified = new Date('2024-10-01T12:00:00Z');
+
+    it('should write timed and all-day events', () => {
+      const ics = writeCalendar({
+        name: 'Springfield, Meetings',
+        timezone: 'America/Chicago',
+        events: [
+          {
+            uid: 'meeting-1@calendar.qckstrt',
+            summary: 'Regular Meeting',
+            start: new Date('2024-10-08T23:30:00Z'),
+            durationMinutes: 60,
+            location: 'City Hall; Room 2',
+            description: 'City Council\nAgenda: https://example.gov/a.pdf',
+            url: 'https://example.gov/a.pdf',
+            lastModified,
+          },
+          {
+            uid: 'election-springfield-2024-11-05@calendar.qckstrt',
+            summary: 'Election Day',
+            start: '2024-11-05',
+            lastModified,
+          },
+        ],
+      });
+
+      expect(ics.split('\r\n')).toEqual([
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Qckstrt//Region Calendar//EN',
+        'CALSCALE:GREGORIAN',
+        'X-WR-CALNAME:Springfield\\, Meetings',
+        'X-WR-TIMEZONE:America/Chicago',
+        'BEGIN:VEVENT',
+        'UID:meeting-1@calendar.qckstrt',
+        'DTSTAMP:20241001T120000Z',
+        'DTSTART:20241008T233000Z',
+        'DURATION:PT60M',
+        'SUMMARY:Regular Meeting',
+        'LOCATION:City Hall\\; Room 2',
+        'DESCRIPTION:City Council\\nAgenda: https://example.gov/a.pdf',
+        'URL:https://example.gov/a.pdf',
+        'LAST-MODIFIED:20241001T120000Z',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:election-springfield-2024-11-05@calendar.qckstrt',
+        'DTSTAMP:20241001T120000Z',
+        'DTSTART;VALUE=DATE:20241105',
+        'SUMMARY:Election Day',
+        'LAST-MODIFIED:20241001T120000Z',
+        'END:VEVENT',
+        'END:VCALENDAR',
+        '',
+      ]);
+    });
+
+    it('should write an empty calendar without a timezone', () => {
+      const ics = writeCalendar({ name: 'Empty', events: [] });
+
+      expect(ics).not.toContain('X-WR-TIMEZONE');
+      expect(ics).not.toContain('BEGIN:VEVENT');
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+  });
+});
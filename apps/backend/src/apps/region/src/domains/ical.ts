@@ -0,0 +1,158 @@
+/**
+ * iCalendar (RFC 5545) Writer
+ *
+ * Writes VCALENDAR feeds of VEVENTs: text is escaped, lines are folded at
+ * 75 octets and end in CRLF.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc5545
+ */
+
+/**
+ * An event in a calendar feed
+ */
+export interface CalendarEvent {
+  // Stays the same across feed refreshes so clients update the event
+  uid: string;
+  summary: string;
+  // Timed events start at an instant; all-day events on a date (YYYY-MM-DD)
+  start: Date | string;
+  durationMinutes?: number;
+  location?: string;
+  description?: string;
+  url?: string;
+  lastModified: Date;
+}
+
+/**
+ * A calendar feed
+ */
+export interface Calendar {
+  name: string;
+  // IANA timezone clients should display the events in
+  timezone?: string;
+  events: CalendarEvent[];
+}
+
+const PRODUCT_ID = '-//Qckstrt//Region Calendar//EN';
+
+// Longest line in octets, not counting the CRLF
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape a TEXT value
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into lines of at most 75 octets
+ *
+ * Continuation lines start with a space. Multi-byte characters are never
+ * split.
+ */
+export function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines lose an octet to the leading space
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+
+  return lines.join('\r\n ');
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME, e.g. 20241008T233000Z
+ */
+export function formatDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/\.\d{3}/, '')
+    .replace(/[-:]/g, '');
+}
+
+/**
+ * The date (YYYY-MM-DD) of an instant in a timezone
+ */
+export function toLocalDate(date: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+function eventLines(event: CalendarEvent): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatDateTime(event.lastModified)}`,
+  ];
+
+  if (typeof event.start === 'string') {
+    lines.push(`DTSTART;VALUE=DATE:${event.start.replace(/-/g, '')}`);
+  } else {
+    lines.push(`DTSTART:${formatDateTime(event.start)}`);
+    if (event.durationMinutes) {
+      lines.push(`DURATION:PT${event.durationMinutes}M`);
+    }
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+  lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+/**
+ * Write a calendar as an iCalendar document
+ *
+ * Timed events are written in UTC; X-WR-TIMEZONE tells clients which
+ * timezone to show them in.
+ */
+export function writeCalendar(calendar: Calendar): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+  ];
+  if (calendar.timezone) {
+    lines.push(`X-WR-TIMEZONE:${calendar.timezone}`);
+  }
+  for (const event of calendar.events) {
+    lines.push(...eventLines(event));
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,69 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { createMock } from '@golevelup/ts-jest';
+import { UserInputError } from '@nestjs/apollo';
+import { UnknownRegionError } from '@qckstrt/region-provider';
+import { MeetingDocumentsResolver } from './meeting-documents.resolver';
+import { MeetingDocumentsService } from './meeting-documents.service';
+
+describe('MeetingDocumentsResolver', () => {
+  let resolver: MeetingDocumentsResolver;
+  let meetingDocumentsService: jest.Mocked<MeetingDocumentsService>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MeetingDocumentsResolver,
+        {
+          provide: MeetingDocumentsService,
+          useValue: createMock<MeetingDocumentsService>(),
+        },
+      ],
+    }).compile();
+
+    resolver = module.get(MeetingDocumentsResolver);
+    meetingDocumentsService = module.get(MeetingDocumentsService);
+  });
+
+  it("should return a meeting's documents", async () => {
+    meetingDocumentsService.getDocuments.mockResolvedValue([]);
+
+    expect(await resolver.meetingDocuments('meeting-1')).toEqual([]);
+    expect(meetingDocumentsService.getDocuments).toHaveBeenCalledWith(
+      'meeting-1',
+    );
+  });
+
+  describe('searchMeetings', () => {
+    it('should search the region', async () => {
+      const results = { items: [], total: 0, hasMore: false };
+      meetingDocumentsService.search.mockResolvedValue(results);
+
+      expect(await resolver.searchMeetings('bike lane', 0, 10, 'a')).toBe(
+        results,
+      );
+      expect(meetingDocumentsService.search).toHaveBeenCalledWith(
+        'bike lane',
+        'a',
+        0,
+        10,
+      );
+    });
+
+    it('should reject blank queries', async () => {
+      await expect(resolver.searchMeetings('  ', 0, 10)).rejects.toThrow(
+        UserInputError,
+      );
+      expect(meetingDocumentsService.search).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown regions as user input errors', async () => {
+      meetingDocumentsService.search.mockRejectedValue(
+        new UnknownRegionError('b'),
+      );
+
+      await expect(
+        resolver.searchMeetings('bike lane', 0, 10, 'b'),
+      ).rejects.toThrow(UserInputError);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { Args, Extensions, ID, Int, Query, Resolver } from '@nestjs/graphql';
+import { UserInputError } from '@nestjs/apollo';
+import { UnknownRegionError } from '@qckstrt/region-provider';
+import { MeetingDocumentsService } from './meeting-documents.service';
+import {
+  MeetingDocumentModel,
+  PaginatedMeetingSearchResults,
+} from './models/meeting-document.model';
+
+/**
+ * Meeting Documents Resolver
+ *
+ * Serves the agenda items of ingested meeting agendas and minutes, and
+ * searches them by meaning.
+ */
+@Resolver(() => MeetingDocumentModel)
+export class MeetingDocumentsResolver {
+  constructor(
+    private readonly meetingDocumentsService: MeetingDocumentsService,
+  ) {}
+
+  /**
+   * Get the agenda items of a meeting's agenda and minutes
+   */
+  @Query(() => [MeetingDocumentModel])
+  async meetingDocuments(
+    @Args({ name: 'meetingId', type: () => ID }) meetingId: string,
+  ): Promise<MeetingDocumentModel[]> {
+    return this.meetingDocumentsService.getDocuments(meetingId);
+  }
+
+  /**
+   * Search the agendas and minutes of a region's meetings
+   * (e.g., "when did the council discuss the bike lane")
+   */
+  @Query(() => PaginatedMeetingSearchResults)
+  @Extensions({ complexity: 50 }) // Vector search with embeddings
+  async searchMeetings(
+    @Args('query') query: string,
+    @Args({ name: 'skip', type: () => Int, defaultValue: 0 }) skip: number,
+    @Args({ name: 'take', type: () => Int, defaultValue: 10 }) take: number,
+    @Args({ name: 'regionId', nullable: true }) regionId?: string,
+  ): Promise<PaginatedMeetingSearchResults> {
+    if (!query.trim()) {
+      throw new UserInputError('Search query must not be empty');
+    }
+    try {
+      return await this.meetingDocumentsService.search(
+        query,
+        regionId,
+        skip,
+        take,
+      );
+    } catch (error) {
+      if (error instanceof UnknownRegionError) {
+        throw new UserInputError(error.message);
+      }
+      throw error;
+    }
+  }
+}
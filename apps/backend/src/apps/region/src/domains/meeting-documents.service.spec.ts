@@ -0,0 +1,348 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { createMock } from '@golevelup/ts-jest';
+import { CivicDataType } from '@qckstrt/region-provider';
+import { ExtractionProvider } from '@qckstrt/extraction-provider';
+import { EmbeddingsService } from '@qckstrt/embeddings-provider';
+import { IVectorDBProvider } from '@qckstrt/vectordb-provider';
+import { MeetingEntity } from 'src/db/entities/meeting.entity';
+import {
+  MeetingDocumentEntity,
+  MeetingDocumentKind,
+} from 'src/db/entities/meeting-document.entity';
+import { MeetingDocumentsService } from './meeting-documents.service';
+import {
+  RegionDomainService,
+  RegionSyncResult,
+  SyncListener,
+} from './region.service';
+import { RegionInfoModel } from './models/region-info.model';
+
+describe('MeetingDocumentsService', () => {
+  let service: MeetingDocumentsService;
+  let regionService: jest.Mocked<RegionDomainService>;
+  let embeddingsService: jest.Mocked<EmbeddingsService>;
+  let vectorDB: jest.Mocked<IVectorDBProvider>;
+  let extraction: ExtractionProvider;
+  let fetchBuffer: jest.SpyInstance;
+  let meetingRepo: { find: jest.Mock };
+  let documentRepo: { find: jest.Mock; save: jest.Mock };
+
+  const meeting = {
+    id: 'meeting-1',
+    regionId: 'springfield',
+    externalId: 'cc-2024-03-12',
+    title: 'Regular Meeting',
+    body: 'City Council',
+    scheduledAt: new Date('2024-03-13T01:30:00Z'),
+    agendaUrl: 'https://springfield.example.gov/agendas/cc-2024-03-12.pdf',
+  } as MeetingEntity;
+
+  const agendaHtml = `<html><head><style>p { color: red }</style></head><body>
+    <h1>City Council Agenda</h1>
+    <p>1. Roll Call</p>
+    <p>2. Bike lane on Main Street<br>Approve the design contract.</p>
+  </body></html>`;
+
+  const createService = async (ingestMeetingDocuments?: boolean) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MeetingDocumentsService,
+        { provide: getRepositoryToken(MeetingEntity), useValue: meetingRepo },
+        {
+          provide: getRepositoryToken(MeetingDocumentEntity),
+          useValue: documentRepo,
+        },
+        {
+          provide: RegionDomainService,
+          useValue: createMock<RegionDomainService>(),
+        },
+        { provide: ExtractionProvider, useValue: extraction },
+        {
+          provide: EmbeddingsService,
+          useValue: createMock<EmbeddingsService>(),
+        },
+        {
+          provide: 'VECTOR_DB_PROVIDER',
+          useValue: createMock<IVectorDBProvider>(),
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'region.ingestMeetingDocuments'
+                ? ingestMeetingDocuments
+                : undefined,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(MeetingDocumentsService);
+    regionService = module.get(RegionDomainService);
+    embeddingsService = module.get(EmbeddingsService);
+    vectorDB = module.get('VECTOR_DB_PROVIDER');
+
+    regionService.getRegionInfo.mockReturnValue({
+      id: 'springfield',
+      timezone: 'America/Los_Angeles',
+    } as RegionInfoModel);
+    embeddingsService.getEmbeddingsForText.mockImplementation((text) =>
+      Promise.resolve({
+        texts: [text],
+        embeddings: [[0.1, 0.2]],
+        model: 'test',
+        dimensions: 2,
+      }),
+    );
+  };
+
+  beforeEach(async () => {
+    meetingRepo = { find: jest.fn().mockResolvedValue([meeting]) };
+    documentRepo = {
+      find: jest.fn().mockResolvedValue([]),
+      save: jest.fn((document) =>
+        Promise.resolve({ id: 'document-1', ...document }),
+      ),
+    };
+    extraction = new ExtractionProvider();
+    fetchBuffer = jest.spyOn(extraction, 'fetchBuffer').mockResolvedValue({
+      content: Buffer.from(agendaHtml),
+      statusCode: 200,
+      contentType: 'text/html; charset=utf-8',
+    });
+
+    await createService();
+  });
+
+  afterEach(() => {
+    extraction.onModuleDestroy();
+  });
+
+  describe('onModuleInit', () => {
+    it('should ingest documents after meeting syncs', async () => {
+      service.onModuleInit();
+      const listener = regionService.onSynced.mock.calls[0][0] as SyncListener;
+      const ingest = jest.spyOn(service, 'ingestRegion').mockResolvedValue(0);
+
+      await listener({
+        regionId: 'springfield',
+        dataType: CivicDataType.PROPOSITIONS,
+      } as RegionSyncResult);
+      await listener({
+        regionId: 'springfield',
+        dataType: CivicDataType.MEETINGS,
+      } as RegionSyncResult);
+
+      expect(ingest).toHaveBeenCalledTimes(1);
+      expect(ingest).toHaveBeenCalledWith('springfield');
+    });
+
+    it('should not listen when ingestion is disabled', async () => {
+      await createService(false);
+
+      service.onModuleInit();
+
+      expect(regionService.onSynced).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ingestRegion', () => {
+    it('should split an HTML agenda into items and embed them', async () => {
+      const ingested = await service.ingestRegion('springfield');
+
+      expect(ingested).toBe(1);
+      expect(fetchBuffer).toHaveBeenCalledWith(meeting.agendaUrl);
+      const items = [
+        { number: '1', title: 'Roll Call', text: 'Roll Call' },
+        {
+          number: '2',
+          title: 'Bike lane on Main Street',
+          text: 'Bike lane on Main Street\nApprove the design contract.',
+        },
+      ];
+      const documentId = vectorDB.createEmbeddings.mock.calls[0][1];
+      expect(documentRepo.save).toHaveBeenCalledWith({
+        id: documentId,
+        meetingId: 'meeting-1',
+        regionId: 'springfield',
+        kind: MeetingDocumentKind.AGENDA,
+        url: meeting.agendaUrl,
+        items,
+      });
+      expect(vectorDB.deleteEmbeddingsByDocumentId).toHaveBeenCalledWith(
+        documentId,
+      );
+      expect(vectorDB.createEmbeddings).toHaveBeenCalledWith(
+        'civic:meetings:springfield',
+        documentId,
+        [
+          [0.1, 0.2],
+          [0.1, 0.2],
+        ],
+        [
+          'City Council: Regular Meeting (agenda, 2024-03-12)\n1. Roll Call',
+          'City Council: Regular Meeting (agenda, 2024-03-12)\n2. Bike lane on Main Street\nApprove the design contract.',
+        ],
+      );
+    });
+
+    it('should read PDFs with extractPdfText', async () => {
+      fetchBuffer.mockResolvedValue({
+        content: Buffer.from('%PDF-1.7'),
+        statusCode: 200,
+        contentType: 'application/octet-stream',
+      });
+      const extractPdfText = jest
+        .spyOn(extraction, 'extractPdfText')
+        .mockResolvedValue('1. Roll Call\n2. Adjournment');
+
+      await service.ingestRegion('springfield');
+
+      expect(extractPdfText).toHaveBeenCalledWith(Buffer.from('%PDF-1.7'));
+      expect(documentRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          items: [
+            { number: '1', title: 'Roll Call', text: 'Roll Call' },
+            { number: '2', title: 'Adjournment', text: 'Adjournment' },
+          ],
+        }),
+      );
+    });
+
+    it('should skip documents already ingested from the same URL', async () => {
+      meetingRepo.find.mockResolvedValue([
+        { ...meeting, minutesUrl: 'https://springfield.example.gov/minutes' },
+      ]);
+      documentRepo.find.mockResolvedValue([
+        {
+          id: 'document-1',
+          meetingId: 'meeting-1',
+          kind: MeetingDocumentKind.AGENDA,
+          url: meeting.agendaUrl,
+        },
+        {
+          id: 'document-2',
+          meetingId: 'meeting-1',
+          kind: MeetingDocumentKind.MINUTES,
+          url: 'https://springfield.example.gov/old-minutes',
+        },
+      ]);
+
+      const ingested = await service.ingestRegion('springfield');
+
+      expect(ingested).toBe(1);
+      expect(fetchBuffer).toHaveBeenCalledTimes(1);
+      expect(fetchBuffer).toHaveBeenCalledWith(
+        'https://springfield.example.gov/minutes',
+      );
+      expect(documentRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'document-2',
+          kind: MeetingDocumentKind.MINUTES,
+          url: 'https://springfield.example.gov/minutes',
+        }),
+      );
+      expect(vectorDB.deleteEmbeddingsByDocumentId).toHaveBeenCalledWith(
+        'document-2',
+      );
+    });
+
+    it('should not record the URL when storing vectors fails', async () => {
+      vectorDB.createEmbeddings.mockRejectedValue(new Error('Connection lost'));
+
+      const ingested = await service.ingestRegion('springfield');
+
+      expect(ingested).toBe(0);
+      expect(documentRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should record nothing for a document that fails', async () => {
+      fetchBuffer.mockRejectedValue(new Error('HTTP 404: Not Found'));
+
+      const ingested = await service.ingestRegion('springfield');
+
+      expect(ingested).toBe(0);
+      expect(documentRepo.save).not.toHaveBeenCalled();
+      expect(vectorDB.createEmbeddings).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing when no meeting links documents', async () => {
+      meetingRepo.find.mockResolvedValue([]);
+
+      expect(await service.ingestRegion('springfield')).toBe(0);
+      expect(documentRepo.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('search', () => {
+    it("should return passages with their meetings from the region's collection", async () => {
+      embeddingsService.getEmbeddingsForQuery.mockResolvedValue([0.3, 0.4]);
+      vectorDB.queryEmbeddings.mockResolvedValue([
+        {
+          id: 'document-1-1',
+          embedding: [],
+          metadata: { source: 'document-1', userId: 'civic' },
+          content: 'Bike lane on Main Street',
+          score: 0.82,
+        },
+        {
+          id: 'document-9-0',
+          embedding: [],
+          metadata: { source: 'document-9', userId: 'civic' },
+          content: 'Retired meeting',
+          score: 0.5,
+        },
+      ]);
+      documentRepo.find.mockResolvedValue([
+        {
+          id: 'document-1',
+          kind: MeetingDocumentKind.AGENDA,
+          url: meeting.agendaUrl,
+          meeting,
+        },
+      ]);
+
+      const result = await service.search('bike lane', undefined, 0, 10);
+
+      expect(vectorDB.queryEmbeddings).toHaveBeenCalledWith(
+        [0.3, 0.4],
+        'civic:meetings:springfield',
+        11,
+      );
+      expect(result).toEqual({
+        items: [
+          {
+            meeting,
+            kind: MeetingDocumentKind.AGENDA,
+            url: meeting.agendaUrl,
+            content: 'Bike lane on Main Street',
+            score: 0.82,
+          },
+        ],
+        total: 1,
+        hasMore: false,
+      });
+    });
+
+    it('should not load documents when nothing matches', async () => {
+      vectorDB.queryEmbeddings.mockResolvedValue([]);
+
+      const result = await service.search('bike lane');
+
+      expect(result).toEqual({ items: [], total: 0, hasMore: false });
+      expect(documentRepo.find).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should list the documents of a meeting', async () => {
+    await service.getDocuments('meeting-1');
+
+    expect(documentRepo.find).toHaveBeenCalledWith({
+      where: { meetingId: 'meeting-1' },
+      order: { kind: 'ASC' },
+    });
+  });
+});
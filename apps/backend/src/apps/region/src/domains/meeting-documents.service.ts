@@ -0,0 +1,280 @@
+import { randomUUID } from 'node:crypto';
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Not, Repository } from 'typeorm';
+import { CivicDataType } from '@qckstrt/region-provider';
+import { ExtractionProvider } from '@qckstrt/extraction-provider';
+import { EmbeddingsService } from '@qckstrt/embeddings-provider';
+import { IVectorDBProvider } from '@qckstrt/vectordb-provider';
+import { MeetingEntity } from 'src/db/entities/meeting.entity';
+import {
+  MeetingDocumentEntity,
+  MeetingDocumentKind,
+} from 'src/db/entities/meeting-document.entity';
+import { RegionDomainService } from './region.service';
+import { splitAgendaItems } from './agenda-items';
+import { toLocalDate } from './ical';
+import { PaginatedMeetingSearchResults } from './models/meeting-document.model';
+
+// Elements whose text ends a line when an HTML document is read
+const BLOCK_ELEMENTS =
+  'p, div, li, tr, h1, h2, h3, h4, h5, h6, section, article, header, footer';
+
+/**
+ * Vector DB owner of a region's meeting documents
+ *
+ * Embeddings are stored per owner; meeting documents are public, so each
+ * region has one civic collection instead of one per user.
+ */
+function civicCollectionId(regionId: string): string {
+  return `civic:meetings:${regionId}`;
+}
+
+/**
+ * Meeting Documents Service
+ *
+ * Ingests the agendas and minutes linked from meetings after each meeting
+ * sync: documents are fetched through the ExtractionProvider (HTML pages or
+ * PDFs), split into agenda items, and the items are stored along with their
+ * embeddings in the region's civic collection. Passages can then be
+ * searched by meaning across all of a region's meetings.
+ */
+@Injectable()
+export class MeetingDocumentsService implements OnModuleInit {
+  private readonly logger = new Logger(MeetingDocumentsService.name, {
+    timestamp: true,
+  });
+  private readonly ingestEnabled: boolean;
+
+  constructor(
+    @InjectRepository(MeetingEntity)
+    private readonly meetingRepo: Repository<MeetingEntity>,
+    @InjectRepository(MeetingDocumentEntity)
+    private readonly documentRepo: Repository<MeetingDocumentEntity>,
+    private readonly regionService: RegionDomainService,
+    private readonly extraction: ExtractionProvider,
+    private readonly embeddingsService: EmbeddingsService,
+    @Inject('VECTOR_DB_PROVIDER') private readonly vectorDB: IVectorDBProvider,
+    configService: ConfigService,
+  ) {
+    this.ingestEnabled =
+      configService.get('region.ingestMeetingDocuments') !== false;
+  }
+
+  /**
+   * Ingest meeting documents after each meeting sync
+   */
+  onModuleInit() {
+    if (!this.ingestEnabled) {
+      this.logger.log('Meeting document ingestion is disabled');
+      return;
+    }
+
+    this.regionService.onSynced(async (result) => {
+      if (result.dataType === CivicDataType.MEETINGS && result.regionId) {
+        await this.ingestRegion(result.regionId);
+      }
+    });
+  }
+
+  /**
+   * Ingest the agendas and minutes of a region's meetings
+   *
+   * Documents already ingested from the same URL are skipped; a meeting
+   * that links a new URL has its document ingested again. A document that
+   * can't be fetched or read is logged and retried after the next sync.
+   *
+   * @returns the number of documents ingested
+   */
+  async ingestRegion(regionId: string): Promise<number> {
+    const meetings = await this.meetingRepo.find({
+      where: [
+        { regionId, agendaUrl: Not(IsNull()) },
+        { regionId, minutesUrl: Not(IsNull()) },
+      ],
+    });
+    if (meetings.length === 0) return 0;
+
+    const stored = await this.documentRepo.find({
+      select: { id: true, meetingId: true, kind: true, url: true },
+      where: { meetingId: In(meetings.map((meeting) => meeting.id)) },
+    });
+    const storedByKey = new Map(
+      stored.map((document) => [
+        `${document.meetingId}/${document.kind}`,
+        document,
+      ]),
+    );
+    const { timezone } = this.regionService.getRegionInfo(regionId);
+
+    let ingested = 0;
+    for (const meeting of meetings) {
+      const links: [MeetingDocumentKind, string | undefined][] = [
+        [MeetingDocumentKind.AGENDA, meeting.agendaUrl],
+        [MeetingDocumentKind.MINUTES, meeting.minutesUrl],
+      ];
+      for (const [kind, url] of links) {
+        const existing = storedByKey.get(`${meeting.id}/${kind}`);
+        if (!url || existing?.url === url) continue;
+
+        try {
+          await this.ingestDocument(meeting, kind, url, timezone, existing);
+          ingested++;
+        } catch (error) {
+          this.logger.warn(
+            `Failed to ingest ${kind} of meeting ${meeting.id} from ${url}: ${(error as Error).message}`,
+          );
+        }
+      }
+    }
+
+    this.logger.log(`Ingested ${ingested} meeting documents for ${regionId}`);
+    return ingested;
+  }
+
+  /**
+   * Get the ingested agenda and minutes of a meeting
+   */
+  async getDocuments(meetingId: string): Promise<MeetingDocumentEntity[]> {
+    return this.documentRepo.find({
+      where: { meetingId },
+      order: { kind: 'ASC' },
+    });
+  }
+
+  /**
+   * Search a region's meeting documents by meaning
+   *
+   * Returns the closest passages, most similar first. Passages of retired
+   * meetings are left out.
+   *
+   * @throws UnknownRegionError if the region is not configured
+   */
+  async search(
+    query: string,
+    regionId?: string,
+    skip: number = 0,
+    take: number = 10,
+  ): Promise<PaginatedMeetingSearchResults> {
+    const region = this.regionService.getRegionInfo(regionId);
+    // Fetch one more than needed to determine hasMore
+    const fetchCount = skip + take + 1;
+
+    const embedding = await this.embeddingsService.getEmbeddingsForQuery(query);
+    const matches = await this.vectorDB.queryEmbeddings(
+      embedding,
+      civicCollectionId(region.id),
+      fetchCount,
+    );
+
+    const documentIds = [
+      ...new Set(matches.map((match) => match.metadata.source)),
+    ];
+    const documents =
+      documentIds.length > 0
+        ? await this.documentRepo.find({
+            where: { id: In(documentIds) },
+            relations: { meeting: true },
+          })
+        : [];
+    const documentsById = new Map(
+      documents.map((document) => [document.id, document]),
+    );
+
+    const results = matches.flatMap((match) => {
+      const document = documentsById.get(match.metadata.source);
+      if (!document?.meeting) return [];
+      return [
+        {
+          meeting: document.meeting,
+          kind: document.kind,
+          url: document.url,
+          content: match.content,
+          score: match.score ?? 0,
+        },
+      ];
+    });
+
+    return {
+      items: results.slice(skip, skip + take),
+      total: results.length,
+      hasMore: results.length > skip + take,
+    };
+  }
+
+  /**
+   * Fetch a document, split it into agenda items and store them with
+   * their embeddings
+   *
+   * Embeddings are generated and stored before the document is saved with
+   * its URL, so a document whose text or vectors fail is not recorded as
+   * ingested and is tried again after the next sync.
+   */
+  private async ingestDocument(
+    meeting: MeetingEntity,
+    kind: MeetingDocumentKind,
+    url: string,
+    timezone: string,
+    existing?: MeetingDocumentEntity,
+  ): Promise<void> {
+    const items = splitAgendaItems(await this.extractText(url));
+
+    // Each passage names its meeting, so matches read on their own
+    const context = `${meeting.body}: ${meeting.title} (${kind}, ${toLocalDate(meeting.scheduledAt, timezone)})`;
+    const texts: string[] = [];
+    const embeddings: number[][] = [];
+    for (const item of items) {
+      const heading = item.number ? `${item.number}. ` : '';
+      const result = await this.embeddingsService.getEmbeddingsForText(
+        `${context}\n${heading}${item.text}`,
+      );
+      texts.push(...result.texts);
+      embeddings.push(...result.embeddings);
+    }
+
+    // Vectors name their document, so a new document's ID is chosen here
+    const documentId = existing?.id ?? randomUUID();
+    await this.vectorDB.deleteEmbeddingsByDocumentId(documentId);
+    if (embeddings.length > 0) {
+      await this.vectorDB.createEmbeddings(
+        civicCollectionId(meeting.regionId),
+        documentId,
+        embeddings,
+        texts,
+      );
+    }
+
+    await this.documentRepo.save({
+      id: documentId,
+      meetingId: meeting.id,
+      regionId: meeting.regionId,
+      kind,
+      url,
+      items,
+    });
+    this.logger.log(
+      `Ingested ${kind} of meeting ${meeting.id}: ${items.length} items, ${texts.length} passages`,
+    );
+  }
+
+  /**
+   * Fetch a document and read its text, from a PDF or an HTML page
+   */
+  private async extractText(url: string): Promise<string> {
+    const { content, contentType } = await this.extraction.fetchBuffer(url);
+
+    if (
+      contentType.includes('pdf') ||
+      content.subarray(0, 5).toString() === '%PDF-'
+    ) {
+      return this.extraction.extractPdfText(content);
+    }
+
+    const $ = this.extraction.parseHtml(content.toString('utf8'));
+    $('script, style, noscript').remove();
+    $('br').replaceWith('\n');
+    $(BLOCK_ELEMENTS).after('\n');
+    return $('body').text() || $.root().text();
+  }
+}
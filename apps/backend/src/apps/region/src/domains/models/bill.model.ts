@@ -0,0 +1,122 @@
+import { ObjectType, Field, ID, Int, registerEnumType } from '@nestjs/graphql';
+
+/**
+ * Bill status enum for GraphQL
+ */
+export enum BillStatusGQL {
+  INTRODUCED = 'introduced',
+  IN_COMMITTEE = 'in_committee',
+  PASSED_CHAMBER = 'passed_chamber',
+  PASSED_LEGISLATURE = 'passed_legislature',
+  ENACTED = 'enacted',
+  VETOED = 'vetoed',
+  FAILED = 'failed',
+  WITHDRAWN = 'withdrawn',
+}
+
+registerEnumType(BillStatusGQL, {
+  name: 'BillStatus',
+  description: 'The status of a bill',
+});
+
+/**
+ * Sponsor of a bill
+ */
+@ObjectType()
+export class BillSponsorModel {
+  @Field()
+  name!: string;
+
+  // Representative.externalId, when the sponsor is a synced representative
+  @Field({ nullable: true })
+  representativeExternalId?: string;
+
+  @Field()
+  primary!: boolean;
+}
+
+/**
+ * Step in a bill's history
+ */
+@ObjectType()
+export class BillActionModel {
+  @Field()
+  date!: Date;
+
+  @Field()
+  description!: string;
+
+  @Field({ nullable: true })
+  chamber?: string;
+
+  // Status the bill reached with this action, if it changed
+  @Field(() => BillStatusGQL, { nullable: true })
+  status?: BillStatusGQL;
+}
+
+/**
+ * Bill GraphQL model
+ */
+@ObjectType()
+export class BillModel {
+  @Field(() => ID)
+  id!: string;
+
+  @Field()
+  regionId!: string;
+
+  @Field()
+  externalId!: string;
+
+  @Field()
+  number!: string;
+
+  @Field()
+  title!: string;
+
+  @Field({ nullable: true })
+  summary?: string;
+
+  @Field({ nullable: true })
+  chamber?: string;
+
+  @Field({ nullable: true })
+  session?: string;
+
+  @Field(() => BillStatusGQL)
+  status!: BillStatusGQL;
+
+  @Field({ nullable: true })
+  introducedAt?: Date;
+
+  @Field(() => [BillSponsorModel])
+  sponsors!: BillSponsorModel[];
+
+  // Status timeline, oldest first
+  @Field(() => [BillActionModel])
+  actions!: BillActionModel[];
+
+  @Field({ nullable: true })
+  sourceUrl?: string;
+
+  @Field()
+  createdAt!: Date;
+
+  @Field()
+  updatedAt!: Date;
+}
+
+/**
+ * Paginated bills response
+ */
+@ObjectType()
+export class PaginatedBills {
+  @Field(() => [BillModel])
+  items!: BillModel[];
+
+  @Field(() => Int)
+  total!: number;
+
+  @Field()
+  hasMore!: boolean;
+}
@@ -0,0 +1,25 @@
+import { ObjectType, Field } from '@nestjs/graphql';
+
+/**
+ * Calendar feed of a meeting body
+ */
+@ObjectType()
+export class BodyCalendarFeedModel {
+  @Field()
+  body!: string;
+
+  @Field()
+  url!: string;
+}
+
+/**
+ * Public calendar feeds of a region
+ */
+@ObjectType()
+export class RegionCalendarFeedsModel {
+  @Field({ description: 'Meetings and election days of the region' })
+  regionUrl!: string;
+
+  @Field(() => [BodyCalendarFeedModel])
+  bodies!: BodyCalendarFeedModel[];
+}
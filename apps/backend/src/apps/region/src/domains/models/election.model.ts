@@ -0,0 +1,105 @@
+import { ObjectType, Field, ID, Int, registerEnumType } from '@nestjs/graphql';
+
+/**
+ * Kinds of voter deadline
+ */
+export enum VoterDeadlineType {
+  REGISTRATION = 'registration',
+  MAIL_BALLOT_REQUEST = 'mail_ballot_request',
+  MAIL_BALLOT_RETURN = 'mail_ballot_return',
+  EARLY_VOTING = 'early_voting',
+}
+
+registerEnumType(VoterDeadlineType, {
+  name: 'VoterDeadlineType',
+  description: 'Kinds of voter deadline (EARLY_VOTING is a window)',
+});
+
+/**
+ * Election GraphQL model
+ */
+@ObjectType()
+export class ElectionModel {
+  @Field(() => ID)
+  id!: string;
+
+  @Field()
+  regionId!: string;
+
+  @Field()
+  externalId!: string;
+
+  @Field()
+  name!: string;
+
+  @Field()
+  electionDate!: Date;
+
+  @Field({ nullable: true })
+  registrationDeadline?: Date;
+
+  @Field({ nullable: true })
+  mailBallotRequestDeadline?: Date;
+
+  @Field({ nullable: true })
+  mailBallotReturnDeadline?: Date;
+
+  @Field({ nullable: true })
+  earlyVotingStart?: Date;
+
+  @Field({ nullable: true })
+  earlyVotingEnd?: Date;
+
+  @Field({ nullable: true })
+  sourceUrl?: string;
+
+  @Field()
+  createdAt!: Date;
+
+  @Field()
+  updatedAt!: Date;
+}
+
+/**
+ * Paginated elections response
+ */
+@ObjectType()
+export class PaginatedElections {
+  @Field(() => [ElectionModel])
+  items!: ElectionModel[];
+
+  @Field(() => Int)
+  total!: number;
+
+  @Field()
+  hasMore!: boolean;
+}
+
+/**
+ * One voter deadline of an election
+ */
+@ObjectType()
+export class VoterDeadlineModel {
+  @Field(() => VoterDeadlineType)
+  type!: VoterDeadlineType;
+
+  // The deadline, or the start of the early-voting window
+  @Field()
+  date!: Date;
+
+  // End of the early-voting window
+  @Field({ nullable: true })
+  endDate?: Date;
+
+  @Field(() => ID)
+  electionId!: string;
+
+  @Field()
+  electionName!: string;
+
+  @Field()
+  electionDate!: Date;
+
+  @Field()
+  regionId!: string;
+}
@@ -0,0 +1,30 @@
+import { ObjectType, Field, ID, registerEnumType } from '@nestjs/graphql';
+import { FollowTargetType } from 'src/db/entities/user-follow.entity';
+
+registerEnumType(FollowTargetType, {
+  name: 'FollowTargetType',
+  description: 'What a user can follow',
+});
+
+/**
+ * Follow GraphQL model
+ */
+@ObjectType()
+export class FollowModel {
+  @Field(() => ID)
+  id!: string;
+
+  @Field()
+  regionId!: string;
+
+  @Field(() => FollowTargetType)
+  targetType!: FollowTargetType;
+
+  @Field({
+    description: 'Proposition or representative ID, or the meeting body name',
+  })
+  targetId!: string;
+
+  @Field()
+  createdAt!: Date;
+}
@@ -0,0 +1,90 @@
+import {
+  ObjectType,
+  Field,
+  Float,
+  ID,
+  Int,
+  registerEnumType,
+} from '@nestjs/graphql';
+import { MeetingDocumentKind } from 'src/db/entities/meeting-document.entity';
+import { MeetingModel } from './meeting.model';
+
+registerEnumType(MeetingDocumentKind, {
+  name: 'MeetingDocumentKind',
+  description: 'Agenda or minutes of a meeting',
+});
+
+/**
+ * Agenda item GraphQL model
+ */
+@ObjectType()
+export class AgendaItemModel {
+  @Field({ nullable: true, description: 'Item number as printed' })
+  number?: string;
+
+  @Field()
+  title!: string;
+
+  @Field()
+  text!: string;
+}
+
+/**
+ * Meeting document GraphQL model
+ */
+@ObjectType()
+export class MeetingDocumentModel {
+  @Field(() => ID)
+  id!: string;
+
+  @Field(() => ID)
+  meetingId!: string;
+
+  @Field(() => MeetingDocumentKind)
+  kind!: MeetingDocumentKind;
+
+  @Field()
+  url!: string;
+
+  @Field(() => [AgendaItemModel])
+  items!: AgendaItemModel[];
+
+  @Field()
+  updatedAt!: Date;
+}
+
+/**
+ * Passage of a meeting document matching a search
+ */
+@ObjectType()
+export class MeetingSearchResultModel {
+  @Field(() => MeetingModel)
+  meeting!: MeetingModel;
+
+  @Field(() => MeetingDocumentKind)
+  kind!: MeetingDocumentKind;
+
+  @Field({ description: 'URL of the document the passage is from' })
+  url!: string;
+
+  @Field()
+  content!: string;
+
+  @Field(() => Float, { description: 'Similarity to the query (0-1)' })
+  score!: number;
+}
+
+/**
+ * Paginated meeting search results, most similar first
+ */
+@ObjectType()
+export class PaginatedMeetingSearchResults {
+  @Field(() => [MeetingSearchResultModel])
+  items!: MeetingSearchResultModel[];
+
+  @Field(() => Int)
+  total!: number;
+
+  @Field()
+  hasMore!: boolean;
+}
@@ -8,6 +8,9 @@ export class MeetingModel {
   @Field(() => ID)
   id!: string;
 
+  @Field()
+  regionId!: string;
+
   @Field()
   externalId!: string;
 
@@ -26,6 +29,9 @@ export class MeetingModel {
   @Field({ nullable: true })
   agendaUrl?: string;
 
+  @Field({ nullable: true })
+  minutesUrl?: string;
+
   @Field({ nullable: true })
   videoUrl?: string;
 
@@ -0,0 +1,43 @@
+import { ObjectType, Field, ID } from '@nestjs/graphql';
+import { RaceModel } from './race.model';
+import { DistrictTypeGQL } from './my-representatives.model';
+
+/**
+ * A race on the ballot of a user's address
+ */
+@ObjectType()
+export class BallotRaceModel {
+  @Field(() => RaceModel)
+  race!: RaceModel;
+
+  @Field(() => DistrictTypeGQL, {
+    nullable: true,
+    description: 'Not set for region-wide races',
+  })
+  districtType?: DistrictTypeGQL;
+
+  @Field({
+    nullable: true,
+    description: "The address's district that matched",
+  })
+  district?: string;
+}
+
+/**
+ * Upcoming races on the ballot of a user's address
+ */
+@ObjectType()
+export class MyBallotModel {
+  @Field(() => ID)
+  addressId!: string;
+
+  @Field(() => [BallotRaceModel], {
+    description: 'Soonest election first, then by office',
+  })
+  races!: BallotRaceModel[];
+
+  @Field(() => [DistrictTypeGQL], {
+    description: 'District types not yet known for the address',
+  })
+  missingDistricts!: DistrictTypeGQL[];
+}
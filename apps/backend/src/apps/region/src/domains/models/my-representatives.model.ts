@@ -0,0 +1,51 @@
+import { ObjectType, Field, ID, registerEnumType } from '@nestjs/graphql';
+import { RepresentativeModel } from './representative.model';
+
+/**
+ * District types stored on a user address
+ */
+export enum DistrictTypeGQL {
+  CONGRESSIONAL = 'congressional',
+  STATE_SENATE = 'state_senate',
+  STATE_ASSEMBLY = 'state_assembly',
+  COUNTY = 'county',
+  MUNICIPALITY = 'municipality',
+  SCHOOL_DISTRICT = 'school_district',
+}
+
+registerEnumType(DistrictTypeGQL, {
+  name: 'DistrictType',
+  description: 'The kind of district an address belongs to',
+});
+
+/**
+ * A representative matched to one of the address's districts
+ */
+@ObjectType()
+export class RepresentativeMatchModel {
+  @Field(() => RepresentativeModel)
+  representative!: RepresentativeModel;
+
+  @Field(() => DistrictTypeGQL)
+  districtType!: DistrictTypeGQL;
+
+  @Field({ description: "The address's district that matched" })
+  district!: string;
+}
+
+/**
+ * Representatives serving the districts of a user's address
+ */
+@ObjectType()
+export class MyRepresentativesModel {
+  @Field(() => ID)
+  addressId!: string;
+
+  @Field(() => [RepresentativeMatchModel])
+  matches!: RepresentativeMatchModel[];
+
+  @Field(() => [DistrictTypeGQL], {
+    description: 'District types not yet known for the address',
+  })
+  missingDistricts!: DistrictTypeGQL[];
+}
@@ -0,0 +1,71 @@
+import { ObjectType, Field, ID, registerEnumType } from '@nestjs/graphql';
+
+/**
+ * Diff line operation enum for GraphQL
+ */
+export enum DiffOperationGQL {
+  ADDED = 'added',
+  REMOVED = 'removed',
+  UNCHANGED = 'unchanged',
+}
+
+registerEnumType(DiffOperationGQL, {
+  name: 'DiffOperation',
+  description: 'Whether a line was added, removed or kept between versions',
+});
+
+/**
+ * One line of a text diff
+ */
+@ObjectType()
+export class DiffLineModel {
+  @Field(() => DiffOperationGQL)
+  operation!: DiffOperationGQL;
+
+  @Field()
+  text!: string;
+}
+
+/**
+ * A field changed by a proposition revision
+ */
+@ObjectType()
+export class PropositionFieldChangeModel {
+  @Field({ description: 'Proposition field name, e.g. fullText' })
+  field!: string;
+
+  @Field({ nullable: true })
+  previousValue?: string;
+
+  @Field({ nullable: true })
+  newValue?: string;
+
+  @Field(() => [DiffLineModel], {
+    description: 'Line-level diff from the previous to the new value',
+  })
+  diff!: DiffLineModel[];
+}
+
+/**
+ * Proposition revision GraphQL model
+ */
+@ObjectType()
+export class PropositionRevisionModel {
+  @Field(() => ID)
+  id!: string;
+
+  @Field(() => ID)
+  propositionId!: string;
+
+  @Field(() => ID, { nullable: true })
+  syncRunId?: string;
+
+  @Field(() => [String])
+  changedFields!: string[];
+
+  @Field(() => [PropositionFieldChangeModel])
+  changes!: PropositionFieldChangeModel[];
+
+  @Field({ description: 'When the change was synced' })
+  createdAt!: Date;
+}
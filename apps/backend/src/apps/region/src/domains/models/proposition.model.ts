@@ -1,4 +1,11 @@
-import { ObjectType, Field, ID, Int, registerEnumType } from '@nestjs/graphql';
+import {
+  ObjectType,
+  Field,
+  ID,
+  Int,
+  Float,
+  registerEnumType,
+} from '@nestjs/graphql';
 
 /**
  * Proposition status enum for GraphQL
@@ -15,6 +22,73 @@ registerEnumType(PropositionStatusGQL, {
   description: 'The status of a proposition',
 });
 
+/**
+ * Proposition position enum for GraphQL
+ */
+export enum PropositionPositionGQL {
+  FOR = 'for',
+  AGAINST = 'against',
+}
+
+registerEnumType(PropositionPositionGQL, {
+  name: 'PropositionPosition',
+  description: 'The side of a ballot measure an argument or endorsement takes',
+});
+
+/**
+ * Vote threshold enum for GraphQL
+ */
+export enum VoteThresholdGQL {
+  MAJORITY = 'majority',
+  FIFTY_FIVE_PERCENT = 'fifty_five_percent',
+  THREE_FIFTHS = 'three_fifths',
+  TWO_THIRDS = 'two_thirds',
+}
+
+registerEnumType(VoteThresholdGQL, {
+  name: 'VoteThreshold',
+  description: 'The share of the vote a ballot measure needs to pass',
+});
+
+/**
+ * Argument for or against a proposition, as printed in the voter guide
+ */
+@ObjectType()
+export class PropositionArgumentModel {
+  @Field(() => PropositionPositionGQL)
+  position!: PropositionPositionGQL;
+
+  @Field()
+  text!: string;
+
+  @Field(() => [String], {
+    nullable: true,
+    description: 'Signers of the argument',
+  })
+  authors?: string[];
+
+  @Field({
+    nullable: true,
+    description: "The other side's rebuttal to this argument",
+  })
+  rebuttal?: string;
+}
+
+/**
+ * Organization taking a side on a proposition
+ */
+@ObjectType()
+export class EndorsementModel {
+  @Field()
+  organization!: string;
+
+  @Field(() => PropositionPositionGQL)
+  position!: PropositionPositionGQL;
+
+  @Field({ nullable: true })
+  url?: string;
+}
+
 /**
  * Proposition GraphQL model
  */
@@ -23,6 +97,9 @@ export class PropositionModel {
   @Field(() => ID)
   id!: string;
 
+  @Field()
+  regionId!: string;
+
   @Field()
   externalId!: string;
 
@@ -44,11 +121,39 @@ export class PropositionModel {
   @Field({ nullable: true })
   sourceUrl?: string;
 
+  @Field(() => [PropositionArgumentModel], {
+    description: 'Arguments for and against, each with its rebuttal',
+  })
+  arguments!: PropositionArgumentModel[];
+
+  @Field({ nullable: true })
+  fiscalImpact?: string;
+
+  @Field(() => VoteThresholdGQL, { nullable: true })
+  voteThreshold?: VoteThresholdGQL;
+
+  @Field(() => [EndorsementModel])
+  endorsements!: EndorsementModel[];
+
   @Field()
   createdAt!: Date;
 
   @Field()
   updatedAt!: Date;
+
+  // Set only when the propositions query has a text search
+  @Field(() => Float, {
+    nullable: true,
+    description: 'Full-text search rank (higher is more relevant)',
+  })
+  searchRank?: number;
+
+  @Field({
+    nullable: true,
+    description:
+      'HTML-escaped excerpt with matching terms wrapped in <mark> tags',
+  })
+  searchSnippet?: string;
 }
 
 /**
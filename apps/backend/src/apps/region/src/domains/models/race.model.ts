@@ -0,0 +1,94 @@
+import { ObjectType, Field, ID, Int } from '@nestjs/graphql';
+import { RepresentativeModel } from './representative.model';
+
+/**
+ * Candidate running in a race
+ */
+@ObjectType()
+export class CandidateModel {
+  @Field()
+  name!: string;
+
+  @Field({ nullable: true })
+  party?: string;
+
+  @Field({ description: 'Holds the office the race is for' })
+  incumbent!: boolean;
+
+  // Representative.externalId, when the candidate is a synced representative
+  @Field({ nullable: true })
+  representativeExternalId?: string;
+
+  @Field(() => RepresentativeModel, {
+    nullable: true,
+    description: 'The synced representative the candidate is, if any',
+  })
+  representative?: RepresentativeModel;
+
+  @Field({
+    nullable: true,
+    description: 'Designation printed under the name on the ballot',
+  })
+  ballotDesignation?: string;
+
+  @Field({ nullable: true })
+  website?: string;
+}
+
+/**
+ * Race GraphQL model
+ */
+@ObjectType()
+export class RaceModel {
+  @Field(() => ID)
+  id!: string;
+
+  @Field()
+  regionId!: string;
+
+  @Field()
+  externalId!: string;
+
+  // Election.externalId of the election the race is decided in
+  @Field({ nullable: true })
+  electionExternalId?: string;
+
+  @Field()
+  office!: string;
+
+  @Field({ nullable: true })
+  chamber?: string;
+
+  @Field({ nullable: true, description: 'Not set for region-wide races' })
+  district?: string;
+
+  @Field()
+  electionDate!: Date;
+
+  @Field(() => [CandidateModel])
+  candidates!: CandidateModel[];
+
+  @Field({ nullable: true })
+  sourceUrl?: string;
+
+  @Field()
+  createdAt!: Date;
+
+  @Field()
+  updatedAt!: Date;
+}
+
+/**
+ * Paginated races response
+ */
+@ObjectType()
+export class PaginatedRaces {
+  @Field(() => [RaceModel])
+  items!: RaceModel[];
+
+  @Field(() => Int)
+  total!: number;
+
+  @Field()
+  hasMore!: boolean;
+}
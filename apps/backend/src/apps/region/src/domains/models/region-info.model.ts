@@ -1,4 +1,4 @@
-import { ObjectType, Field, registerEnumType } from '@nestjs/graphql';
+import { ObjectType, Field, ID, registerEnumType } from '@nestjs/graphql';
 
 /**
  * Civic data types enum for GraphQL
@@ -7,6 +7,10 @@ export enum CivicDataTypeGQL {
   PROPOSITIONS = 'propositions',
   MEETINGS = 'meetings',
   REPRESENTATIVES = 'representatives',
+  ELECTIONS = 'elections',
+  BILLS = 'bills',
+  VOTES = 'votes',
+  RACES = 'races',
 }
 
 registerEnumType(CivicDataTypeGQL, {
@@ -31,6 +35,12 @@ export class RegionInfoModel {
   @Field()
   timezone!: string;
 
+  @Field({
+    nullable: true,
+    description: 'Two-letter code of the US state the region is in',
+  })
+  state?: string;
+
   @Field(() => [String], { nullable: true })
   dataSourceUrls?: string[];
 
@@ -43,6 +53,15 @@ export class RegionInfoModel {
  */
 @ObjectType()
 export class SyncResultModel {
+  @Field(() => ID, {
+    nullable: true,
+    description: 'Sync history run, if it could be recorded',
+  })
+  runId?: string;
+
+  @Field({ nullable: true })
+  regionId?: string;
+
   @Field(() => CivicDataTypeGQL)
   dataType!: CivicDataTypeGQL;
 
@@ -55,6 +74,9 @@ export class SyncResultModel {
   @Field()
   itemsUpdated!: number;
 
+  @Field()
+  itemsRemoved!: number;
+
   @Field(() => [String])
   errors!: string[];
 
@@ -26,6 +26,9 @@ export class RepresentativeModel {
   @Field(() => ID)
   id!: string;
 
+  @Field()
+  regionId!: string;
+
   @Field()
   externalId!: string;
 
@@ -0,0 +1,37 @@
+import { ObjectType, Field, ID, Int } from '@nestjs/graphql';
+
+/**
+ * A civic record retired because its provider stopped returning it
+ */
+@ObjectType()
+export class RetiredRecordModel {
+  @Field(() => ID)
+  id!: string;
+
+  @Field()
+  regionId!: string;
+
+  @Field()
+  externalId!: string;
+
+  @Field({ description: 'Proposition or meeting title, representative name' })
+  label!: string;
+
+  @Field({ description: 'When the record was retired' })
+  deletedAt!: Date;
+}
+
+/**
+ * Paginated retired records response
+ */
+@ObjectType()
+export class PaginatedRetiredRecords {
+  @Field(() => [RetiredRecordModel])
+  items!: RetiredRecordModel[];
+
+  @Field(() => Int)
+  total!: number;
+
+  @Field()
+  hasMore!: boolean;
+}
@@ -0,0 +1,84 @@
+import { ObjectType, Field, ID, Int, registerEnumType } from '@nestjs/graphql';
+import { SyncJobEventType, SyncJobStatus } from '../region-sync-jobs.service';
+import { CivicDataTypeGQL, SyncResultModel } from './region-info.model';
+
+registerEnumType(SyncJobStatus, {
+  name: 'SyncJobStatus',
+  description: 'The status of a region sync job',
+});
+
+registerEnumType(SyncJobEventType, {
+  name: 'SyncJobEventType',
+  description: 'Kinds of region sync job progress events',
+});
+
+/**
+ * Region sync job GraphQL model
+ */
+@ObjectType()
+export class SyncJobModel {
+  @Field(() => ID)
+  id!: string;
+
+  @Field({
+    nullable: true,
+    description: 'Region the job syncs; every region if not set',
+  })
+  regionId?: string;
+
+  @Field(() => SyncJobStatus)
+  status!: SyncJobStatus;
+
+  @Field()
+  queuedAt!: Date;
+
+  @Field({ nullable: true })
+  startedAt?: Date;
+
+  @Field({ nullable: true })
+  finishedAt?: Date;
+
+  @Field(() => [SyncResultModel], {
+    description: 'Results per data type, once the job has finished',
+  })
+  results!: SyncResultModel[];
+
+  @Field({ nullable: true })
+  error?: string;
+}
+
+/**
+ * Region sync job progress event GraphQL model
+ */
+@ObjectType()
+export class SyncJobEventModel {
+  @Field(() => ID)
+  jobId!: string;
+
+  @Field(() => SyncJobEventType)
+  type!: SyncJobEventType;
+
+  @Field(() => SyncJobStatus)
+  status!: SyncJobStatus;
+
+  @Field({ nullable: true })
+  regionId?: string;
+
+  @Field(() => CivicDataTypeGQL, { nullable: true })
+  dataType?: CivicDataTypeGQL;
+
+  @Field(() => Int, { nullable: true })
+  itemsProcessed?: number;
+
+  @Field(() => SyncResultModel, {
+    nullable: true,
+    description: 'Result of the data type, when it finished',
+  })
+  result?: SyncResultModel;
+
+  @Field({ nullable: true })
+  error?: string;
+
+  @Field()
+  occurredAt!: Date;
+}
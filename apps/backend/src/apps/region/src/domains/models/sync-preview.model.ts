@@ -0,0 +1,94 @@
+import { ObjectType, Field, ID, Int } from '@nestjs/graphql';
+import { CivicDataTypeGQL } from './region-info.model';
+import { DiffLineModel } from './proposition-revision.model';
+
+/**
+ * A field a sync would change on an existing record
+ */
+@ObjectType()
+export class SyncFieldChangeModel {
+  @Field({ description: 'Record field name, e.g. summary' })
+  field!: string;
+
+  @Field({ nullable: true })
+  previousValue?: string;
+
+  @Field({ nullable: true })
+  newValue?: string;
+
+  @Field(() => [DiffLineModel], {
+    description: 'Line-level diff from the stored to the provider value',
+  })
+  diff!: DiffLineModel[];
+}
+
+/**
+ * A record a sync would create, update or retire
+ */
+@ObjectType()
+export class SyncRecordChangeModel {
+  @Field(() => ID, {
+    nullable: true,
+    description: 'Stored record ID; missing for records to be created',
+  })
+  id?: string;
+
+  @Field()
+  externalId!: string;
+
+  @Field({ description: 'Proposition or meeting title, representative name' })
+  label!: string;
+
+  @Field({ description: 'Whether a retired record would be restored' })
+  restored!: boolean;
+
+  @Field(() => [SyncFieldChangeModel])
+  changes!: SyncFieldChangeModel[];
+}
+
+/**
+ * Changes a sync of one data type would make, computed by a dry run
+ */
+@ObjectType()
+export class SyncPreviewModel {
+  @Field(() => ID, {
+    nullable: true,
+    description:
+      'Dry run to pass to applyRegionSyncPreview; missing if it could not be recorded',
+  })
+  runId?: string;
+
+  @Field()
+  regionId!: string;
+
+  @Field(() => CivicDataTypeGQL)
+  dataType!: CivicDataTypeGQL;
+
+  @Field(() => Int)
+  itemsProcessed!: number;
+
+  @Field(() => Int)
+  itemsCreated!: number;
+
+  @Field(() => Int, {
+    description: 'Returned records that already exist, changed or not',
+  })
+  itemsUpdated!: number;
+
+  @Field(() => Int)
+  itemsRemoved!: number;
+
+  @Field(() => [String])
+  errors!: string[];
+
+  @Field(() => [SyncRecordChangeModel])
+  created!: SyncRecordChangeModel[];
+
+  @Field(() => [SyncRecordChangeModel], {
+    description: 'Existing records whose fields would change or be restored',
+  })
+  updated!: SyncRecordChangeModel[];
+
+  @Field(() => [SyncRecordChangeModel])
+  retired!: SyncRecordChangeModel[];
+}
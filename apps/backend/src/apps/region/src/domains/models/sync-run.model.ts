@@ -0,0 +1,85 @@
+import { ObjectType, Field, ID, Int, registerEnumType } from '@nestjs/graphql';
+import {
+  SyncRunStatus,
+  SyncTrigger,
+} from 'src/db/entities/region-sync-run.entity';
+import { CivicDataTypeGQL } from './region-info.model';
+
+registerEnumType(SyncTrigger, {
+  name: 'SyncTrigger',
+  description: 'What started a region sync run',
+});
+
+registerEnumType(SyncRunStatus, {
+  name: 'SyncRunStatus',
+  description: 'The status of a region sync run',
+});
+
+/**
+ * Region sync run GraphQL model
+ */
+@ObjectType()
+export class SyncRunModel {
+  @Field(() => ID)
+  id!: string;
+
+  @Field()
+  regionId!: string;
+
+  @Field(() => CivicDataTypeGQL)
+  dataType!: CivicDataTypeGQL;
+
+  @Field(() => SyncTrigger)
+  trigger!: SyncTrigger;
+
+  @Field(() => SyncRunStatus)
+  status!: SyncRunStatus;
+
+  @Field()
+  startedAt!: Date;
+
+  @Field({ nullable: true })
+  completedAt?: Date;
+
+  @Field(() => Int, { nullable: true })
+  durationMs?: number;
+
+  @Field(() => Int)
+  itemsProcessed!: number;
+
+  @Field(() => Int)
+  itemsCreated!: number;
+
+  @Field(() => Int)
+  itemsUpdated!: number;
+
+  @Field(() => Int)
+  itemsRemoved!: number;
+
+  @Field(() => [String])
+  errors!: string[];
+
+  @Field({ description: 'Whether the run only previewed its changes' })
+  dryRun!: boolean;
+
+  @Field(() => ID, {
+    nullable: true,
+    description: 'Dry run whose changes this run applied',
+  })
+  previewRunId?: string;
+}
+
+/**
+ * Paginated sync run history response
+ */
+@ObjectType()
+export class PaginatedSyncRuns {
+  @Field(() => [SyncRunModel])
+  items!: SyncRunModel[];
+
+  @Field(() => Int)
+  total!: number;
+
+  @Field()
+  hasMore!: boolean;
+}
@@ -0,0 +1,124 @@
+import { ObjectType, Field, ID, Int, registerEnumType } from '@nestjs/graphql';
+
+/**
+ * Vote option enum for GraphQL
+ */
+export enum VoteOptionGQL {
+  YES = 'yes',
+  NO = 'no',
+  ABSTAIN = 'abstain',
+  ABSENT = 'absent',
+}
+
+registerEnumType(VoteOptionGQL, {
+  name: 'VoteOption',
+  description: 'How a member voted on a roll call',
+});
+
+/**
+ * One member's vote in a roll call
+ */
+@ObjectType()
+export class MemberVoteModel {
+  @Field()
+  name!: string;
+
+  // Representative.externalId, when the member is a synced representative
+  @Field({ nullable: true })
+  representativeExternalId?: string;
+
+  @Field(() => VoteOptionGQL)
+  option!: VoteOptionGQL;
+}
+
+/**
+ * Roll-call vote GraphQL model
+ */
+@ObjectType()
+export class VoteModel {
+  @Field(() => ID)
+  id!: string;
+
+  @Field()
+  regionId!: string;
+
+  @Field()
+  externalId!: string;
+
+  // Bill.externalId of the bill voted on; missing for other motions
+  @Field({ nullable: true })
+  billExternalId?: string;
+
+  @Field()
+  motion!: string;
+
+  @Field()
+  chamber!: string;
+
+  @Field()
+  votedAt!: Date;
+
+  @Field()
+  passed!: boolean;
+
+  @Field(() => [MemberVoteModel])
+  memberVotes!: MemberVoteModel[];
+
+  @Field({ nullable: true })
+  sourceUrl?: string;
+
+  @Field()
+  createdAt!: Date;
+
+  @Field()
+  updatedAt!: Date;
+}
+
+/**
+ * One roll call of a representative's voting record
+ */
+@ObjectType()
+export class RepresentativeVoteModel {
+  @Field(() => ID)
+  voteId!: string;
+
+  @Field()
+  motion!: string;
+
+  @Field()
+  chamber!: string;
+
+  @Field()
+  votedAt!: Date;
+
+  @Field()
+  passed!: boolean;
+
+  @Field(() => VoteOptionGQL)
+  option!: VoteOptionGQL;
+
+  // Set when the vote was on a bill that has been synced
+  @Field(() => ID, { nullable: true })
+  billId?: string;
+
+  @Field({ nullable: true })
+  billNumber?: string;
+
+  @Field({ nullable: true })
+  billTitle?: string;
+}
+
+/**
+ * Paginated voting record response
+ */
+@ObjectType()
+export class PaginatedRepresentativeVotes {
+  @Field(() => [RepresentativeVoteModel])
+  items!: RepresentativeVoteModel[];
+
+  @Field(() => Int)
+  total!: number;
+
+  @Field()
+  hasMore!: boolean;
+}
@@ -0,0 +1,287 @@
+import {
+  CivicDataType,
+  PropositionPosition,
+  PropositionStatus,
+} from '@qckstrt/region-provider';
+import { formatRejection, validateProviderItems } from './provider-validation';
+
+describe('provider-validation', () => {
+  const proposition = {
+    externalId: 'prop-1',
+    title: 'Housing Bond',
+    summary: 'Authorizes a housing bond',
+    status: PropositionStatus.PENDING,
+    electionDate: new Date('2024-11-05'),
+    sourceUrl: 'https://example.com/prop-1',
+  };
+
+  describe('validateProviderItems', () => {
+    it('should accept valid items', () => {
+      const { valid, rejected } = validateProviderItems(
+        CivicDataType.PROPOSITIONS,
+        [proposition],
+      );
+
+      expect(valid).toEqual([
+        { ...proposition, arguments: [], endorsements: [] },
+      ]);
+      expect(rejected).toEqual([]);
+    });
+
+    it('should reject malformed items and keep the rest', () => {
+      const { valid, rejected } = validateProviderItems(
+        CivicDataType.PROPOSITIONS,
+        [
+          { ...proposition, externalId: 'prop-2', title: '  ' },
+          proposition,
+          { ...proposition, externalId: 'prop-3', status: 'tabled' },
+          { ...proposition, externalId: 'prop-4', electionDate: 'soon' },
+        ],
+      );
+
+      expect(valid.map((p) => p.externalId)).toEqual(['prop-1']);
+      expect(rejected).toEqual([
+        { externalId: 'prop-2', reason: 'title: must not be empty' },
+        {
+          externalId: 'prop-3',
+          reason: expect.stringMatching(/^status: /),
+        },
+        { externalId: 'prop-4', reason: 'electionDate: must be a valid date' },
+      ]);
+    });
+
+    it('should check the voter guide sections of propositions', () => {
+      const { valid, rejected } = validateProviderItems(
+        CivicDataType.PROPOSITIONS,
+        [
+          {
+            ...proposition,
+            arguments: [{ position: 'for', text: 'Vote yes', authors: null }],
+            endorsements: null,
+            voteThreshold: 'two_thirds',
+          },
+          {
+            ...proposition,
+            externalId: 'prop-2',
+            endorsements: [{ organization: 'League', position: 'neutral' }],
+          },
+          { ...proposition, externalId: 'prop-3', voteThreshold: 'unanimous' },
+        ],
+      );
+
+      expect(valid.map((p) => p.externalId)).toEqual(['prop-1']);
+      expect(valid[0].arguments).toEqual([
+        { position: PropositionPosition.FOR, text: 'Vote yes' },
+      ]);
+      expect(valid[0].endorsements).toEqual([]);
+      expect(rejected).toEqual([
+        {
+          externalId: 'prop-2',
+          reason: expect.stringMatching(/^endorsements\.0\.position: /),
+        },
+        {
+          externalId: 'prop-3',
+          reason: expect.stringMatching(/^voteThreshold: /),
+        },
+      ]);
+    });
+
+    it('should coerce date strings and drop null optional fields', () => {
+      const { valid } = validateProviderItems(CivicDataType.MEETINGS, [
+        {
+          externalId: 'meeting-1',
+          title: 'Council Meeting',
+          body: 'City Council',
+          scheduledAt: '2024-01-15T10:00:00Z',
+          location: null,
+        },
+      ]);
+
+      expect(valid[0].scheduledAt).toEqual(new Date('2024-01-15T10:00:00Z'));
+      expect(valid[0].location).toBeUndefined();
+    });
+
+    it('should reject relative URLs and invalid emails', () => {
+      const { rejected } = validateProviderItems(
+        CivicDataType.REPRESENTATIVES,
+        [
+          {
+            externalId: 'rep-1',
+            name: 'Jane Doe',
+            chamber: 'Senate',
+            district: '1',
+            party: 'Independent',
+            photoUrl: '/photos/jane.jpg',
+            contactInfo: { email: 'jane-at-example' },
+          },
+        ],
+      );
+
+      expect(rejected).toEqual([
+        {
+          externalId: 'rep-1',
+          reason:
+            'photoUrl: must be an absolute http(s) URL; contactInfo.email: must be a valid email address',
+        },
+      ]);
+    });
+
+    it('should check the early-voting window of elections', () => {
+      const election = {
+        externalId: 'election-1',
+        name: 'General Election',
+        electionDate: '2024-11-05',
+      };
+
+      const { valid, rejected } = validateProviderItems(
+        CivicDataType.ELECTIONS,
+        [
+          {
+            ...election,
+            earlyVotingStart: '2024-10-21',
+            earlyVotingEnd: '2024-11-04',
+          },
+          {
+            ...election,
+            externalId: 'election-2',
+            earlyVotingStart: '2024-10-21',
+          },
+          {
+            ...election,
+            externalId: 'election-3',
+            earlyVotingStart: '2024-11-04',
+            earlyVotingEnd: '2024-10-21',
+          },
+        ],
+      );
+
+      expect(valid.map((e) => e.externalId)).toEqual(['election-1']);
+      expect(valid[0].electionDate).toEqual(new Date('2024-11-05'));
+      expect(rejected).toEqual([
+        {
+          externalId: 'election-2',
+          reason: 'earlyVotingEnd: early voting needs both a start and an end',
+        },
+        {
+          externalId: 'election-3',
+          reason: 'earlyVotingEnd: must not be before earlyVotingStart',
+        },
+      ]);
+    });
+
+    it('should check nested sponsors, actions and member votes', () => {
+      const bills = validateProviderItems(CivicDataType.BILLS, [
+        {
+          externalId: 'bill-1',
+          number: 'AB 1',
+          title: 'Housing Act',
+          status: 'in_committee',
+          sponsors: [{ name: 'John Doe', primary: true }],
+          actions: [{ date: '2024-01-08', description: 'Introduced' }],
+        },
+        {
+          externalId: 'bill-2',
+          number: 'AB 2',
+          title: 'Transit Act',
+          status: 'introduced',
+          sponsors: [],
+          actions: [{ date: 'someday', description: 'Introduced' }],
+        },
+      ]);
+      const votes = validateProviderItems(CivicDataType.VOTES, [
+        {
+          externalId: 'vote-1',
+          motion: 'Third Reading',
+          chamber: 'Senate',
+          votedAt: '2024-04-15T18:00:00Z',
+          passed: true,
+          memberVotes: [{ name: 'John Doe', option: 'present' }],
+        },
+      ]);
+
+      expect(bills.valid.map((b) => b.externalId)).toEqual(['bill-1']);
+      expect(bills.valid[0].actions[0].date).toEqual(new Date('2024-01-08'));
+      expect(bills.rejected).toEqual([
+        {
+          externalId: 'bill-2',
+          reason: 'actions.0.date: must be a valid date',
+        },
+      ]);
+      expect(votes.valid).toEqual([]);
+      expect(votes.rejected).toEqual([
+        {
+          externalId: 'vote-1',
+          reason: expect.stringMatching(/^memberVotes\.0\.option: /),
+        },
+      ]);
+    });
+
+    it('should check the candidates of races', () => {
+      const race = {
+        externalId: 'race-1',
+        office: 'Governor',
+        electionDate: '2024-11-05',
+      };
+
+      const { valid, rejected } = validateProviderItems(CivicDataType.RACES, [
+        {
+          ...race,
+          candidates: [{ name: 'Alex Rivera', incumbent: false, party: null }],
+        },
+        {
+          ...race,
+          externalId: 'race-2',
+          candidates: [{ name: 'Sam Chen', website: 'sam-chen.example' }],
+        },
+      ]);
+
+      expect(valid.map((r) => r.externalId)).toEqual(['race-1']);
+      expect(valid[0].candidates[0].party).toBeUndefined();
+      expect(rejected).toEqual([
+        {
+          externalId: 'race-2',
+          reason: expect.stringMatching(
+            /^candidates\.0\.incumbent: .*; candidates\.0\.website: must be an absolute http\(s\) URL$/,
+          ),
+        },
+      ]);
+    });
+
+    it('should reject repeated externalIds', () => {
+      const { valid, rejected } = validateProviderItems(
+        CivicDataType.PROPOSITIONS,
+        [proposition, { ...proposition, title: 'Duplicate' }],
+      );
+
+      expect(valid).toHaveLength(1);
+      expect(rejected).toEqual([
+        { externalId: 'prop-1', reason: 'duplicate externalId' },
+      ]);
+    });
+
+    it('should reject items without an externalId', () => {
+      const { rejected } = validateProviderItems(CivicDataType.PROPOSITIONS, [
+        { ...proposition, externalId: undefined },
+        null,
+      ]);
+
+      expect(rejected).toHaveLength(2);
+      expect(rejected[0].externalId).toBeUndefined();
+      expect(rejected[0].reason).toMatch(/^externalId: /);
+    });
+  });
+
+  describe('formatRejection', () => {
+    it('should name the item by externalId when it has one', () => {
+      expect(
+        formatRejection(CivicDataType.MEETINGS, {
+          externalId: 'meeting-1',
+          reason: 'title: must not be empty',
+        }),
+      ).toBe('Skipped invalid meeting "meeting-1": title: must not be empty');
+      expect(formatRejection(CivicDataType.MEETINGS, { reason: 'bad' })).toBe(
+        'Skipped invalid meeting: bad',
+      );
+    });
+  });
+});
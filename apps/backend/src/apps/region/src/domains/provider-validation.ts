@@ -0,0 +1,341 @@
+import { z } from 'zod';
+import {
+  Bill,
+  BillStatus,
+  CivicDataType,
+  Election,
+  Meeting,
+  Proposition,
+  PropositionPosition,
+  PropositionStatus,
+  Race,
+  Representative,
+  Vote,
+  VoteOption,
+  VoteThreshold,
+} from '@qckstrt/region-provider';
+
+/**
+ * A provider item that failed validation
+ */
+export interface RejectedItem {
+  // Missing when the item has no usable externalId
+  externalId?: string;
+  reason: string;
+}
+
+/**
+ * Provider items split into those safe to persist and those rejected
+ */
+export interface ValidationOutcome<T> {
+  valid: T[];
+  rejected: RejectedItem[];
+}
+
+const requiredText = z.string().trim().min(1, 'must not be empty');
+
+// Null and undefined both mean "not provided"
+const optional = <T extends z.ZodType>(schema: T) =>
+  schema.nullish().transform((value) => value ?? undefined);
+
+// Providers parsing JSON often hand over ISO strings instead of Dates
+const date = z.preprocess(
+  (value) =>
+    typeof value === 'string' || typeof value === 'number'
+      ? new Date(value)
+      : value,
+  z.date({ error: 'must be a valid date' }),
+);
+
+const url = z.url({
+  protocol: /^https?$/,
+  error: 'must be an absolute http(s) URL',
+});
+
+// Missing lists become empty, matching what is stored for them
+const list = <T extends z.ZodType>(schema: T) =>
+  z
+    .array(schema)
+    .nullish()
+    .transform((value) => value ?? []);
+
+const propositionSchema = z.looseObject({
+  externalId: requiredText,
+  title: requiredText,
+  summary: z.string(),
+  fullText: optional(z.string()),
+  status: z.enum(PropositionStatus),
+  electionDate: optional(date),
+  sourceUrl: optional(url),
+  arguments: list(
+    z.object({
+      position: z.enum(PropositionPosition),
+      text: requiredText,
+      authors: optional(z.array(requiredText)),
+      rebuttal: optional(z.string()),
+    }),
+  ),
+  fiscalImpact: optional(z.string()),
+  voteThreshold: optional(z.enum(VoteThreshold)),
+  endorsements: list(
+    z.object({
+      organization: requiredText,
+      position: z.enum(PropositionPosition),
+      url: optional(url),
+    }),
+  ),
+});
+
+const meetingSchema = z.looseObject({
+  externalId: requiredText,
+  title: requiredText,
+  body: requiredText,
+  scheduledAt: date,
+  location: optional(z.string()),
+  agendaUrl: optional(url),
+  minutesUrl: optional(url),
+  videoUrl: optional(url),
+});
+
+const representativeSchema = z.looseObject({
+  externalId: requiredText,
+  name: requiredText,
+  chamber: requiredText,
+  district: z.string(),
+  party: z.string(),
+  photoUrl: optional(url),
+  contactInfo: optional(
+    z.object({
+      email: optional(z.email({ error: 'must be a valid email address' })),
+      phone: optional(z.string()),
+      office: optional(z.string()),
+      website: optional(url),
+    }),
+  ),
+});
+
+const electionSchema = z
+  .looseObject({
+    externalId: requiredText,
+    name: requiredText,
+    electionDate: date,
+    registrationDeadline: optional(date),
+    mailBallotRequestDeadline: optional(date),
+    mailBallotReturnDeadline: optional(date),
+    earlyVotingStart: optional(date),
+    earlyVotingEnd: optional(date),
+    sourceUrl: optional(url),
+  })
+  .refine(
+    (election) =>
+      (election.earlyVotingStart === undefined) ===
+      (election.earlyVotingEnd === undefined),
+    {
+      path: ['earlyVotingEnd'],
+      error: 'early voting needs both a start and an end',
+    },
+  )
+  .refine(
+    (election) =>
+      !election.earlyVotingStart ||
+      !election.earlyVotingEnd ||
+      election.earlyVotingStart <= election.earlyVotingEnd,
+    {
+      path: ['earlyVotingEnd'],
+      error: 'must not be before earlyVotingStart',
+    },
+  );
+
+const billSchema = z.looseObject({
+  externalId: requiredText,
+  number: requiredText,
+  title: requiredText,
+  summary: optional(z.string()),
+  chamber: optional(z.string()),
+  session: optional(z.string()),
+  status: z.enum(BillStatus),
+  introducedAt: optional(date),
+  sponsors: z.array(
+    z.object({
+      name: requiredText,
+      representativeExternalId: optional(requiredText),
+      primary: z.boolean(),
+    }),
+  ),
+  actions: z.array(
+    z.object({
+      date,
+      description: requiredText,
+      chamber: optional(z.string()),
+      status: optional(z.enum(BillStatus)),
+    }),
+  ),
+  sourceUrl: optional(url),
+});
+
+const voteSchema = z.looseObject({
+  externalId: requiredText,
+  billExternalId: optional(requiredText),
+  motion: requiredText,
+  chamber: requiredText,
+  votedAt: date,
+  passed: z.boolean(),
+  memberVotes: z.array(
+    z.object({
+      name: requiredText,
+      representativeExternalId: optional(requiredText),
+      option: z.enum(VoteOption),
+    }),
+  ),
+  sourceUrl: optional(url),
+});
+
+const raceSchema = z.looseObject({
+  externalId: requiredText,
+  electionExternalId: optional(requiredText),
+  office: requiredText,
+  chamber: optional(z.string()),
+  district: optional(z.string()),
+  electionDate: date,
+  candidates: z.array(
+    z.object({
+      name: requiredText,
+      party: optional(z.string()),
+      incumbent: z.boolean(),
+      representativeExternalId: optional(requiredText),
+      ballotDesignation: optional(z.string()),
+      website: optional(url),
+    }),
+  ),
+  sourceUrl: optional(url),
+});
+
+// Loose objects keep fields a provider adds beyond the checked ones
+const SCHEMAS = {
+  [CivicDataType.PROPOSITIONS]: propositionSchema,
+  [CivicDataType.MEETINGS]: meetingSchema,
+  [CivicDataType.REPRESENTATIVES]: representativeSchema,
+  [CivicDataType.ELECTIONS]: electionSchema,
+  [CivicDataType.BILLS]: billSchema,
+  [CivicDataType.VOTES]: voteSchema,
+  [CivicDataType.RACES]: raceSchema,
+};
+
+/**
+ * Singular item names used in rejection messages
+ */
+const ITEM_NAMES: Record<CivicDataType, string> = {
+  [CivicDataType.PROPOSITIONS]: 'proposition',
+  [CivicDataType.MEETINGS]: 'meeting',
+  [CivicDataType.REPRESENTATIVES]: 'representative',
+  [CivicDataType.ELECTIONS]: 'election',
+  [CivicDataType.BILLS]: 'bill',
+  [CivicDataType.VOTES]: 'vote',
+  [CivicDataType.RACES]: 'race',
+};
+
+type ProviderItem =
+  | Proposition
+  | Meeting
+  | Representative
+  | Election
+  | Bill
+  | Vote
+  | Race;
+
+/**
+ * Read an item's externalId for reporting, if it has a usable one
+ */
+function getExternalId(item: unknown): string | undefined {
+  const externalId = (item as { externalId?: unknown } | null)?.externalId;
+  return typeof externalId === 'string' && externalId.trim()
+    ? externalId
+    : undefined;
+}
+
+/**
+ * Validate provider items of one data type
+ *
+ * Every item is checked independently, so one malformed item doesn't keep
+ * the rest from being stored. Items repeating an earlier externalId are
+ * rejected too, since a batch upsert can't update the same row twice.
+ */
+export function validateProviderItems(
+  dataType: CivicDataType.PROPOSITIONS,
+  items: unknown[],
+): ValidationOutcome<Proposition>;
+export function validateProviderItems(
+  dataType: CivicDataType.MEETINGS,
+  items: unknown[],
+): ValidationOutcome<Meeting>;
+export function validateProviderItems(
+  dataType: CivicDataType.REPRESENTATIVES,
+  items: unknown[],
+): ValidationOutcome<Representative>;
+export function validateProviderItems(
+  dataType: CivicDataType.ELECTIONS,
+  items: unknown[],
+): ValidationOutcome<Election>;
+export function validateProviderItems(
+  dataType: CivicDataType.BILLS,
+  items: unknown[],
+): ValidationOutcome<Bill>;
+export function validateProviderItems(
+  dataType: CivicDataType.VOTES,
+  items: unknown[],
+): ValidationOutcome<Vote>;
+export function validateProviderItems(
+  dataType: CivicDataType.RACES,
+  items: unknown[],
+): ValidationOutcome<Race>;
+export function validateProviderItems(
+  dataType: CivicDataType,
+  items: unknown[],
+): ValidationOutcome<ProviderItem>;
+export function validateProviderItems(
+  dataType: CivicDataType,
+  items: unknown[],
+): ValidationOutcome<ProviderItem> {
+  const schema: z.ZodType<ProviderItem> = SCHEMAS[dataType];
+  const valid: ProviderItem[] = [];
+  const rejected: RejectedItem[] = [];
+  const seen = new Set<string>();
+
+  for (const item of items) {
+    const externalId = getExternalId(item);
+    const result = schema.safeParse(item);
+
+    if (!result.success) {
+      rejected.push({
+        externalId,
+        reason: result.error.issues
+          .map((issue) =>
+            issue.path.length > 0
+              ? `${issue.path.join('.')}: ${issue.message}`
+              : issue.message,
+          )
+          .join('; '),
+      });
+    } else if (seen.has(result.data.externalId)) {
+      rejected.push({ externalId, reason: 'duplicate externalId' });
+    } else {
+      seen.add(result.data.externalId);
+      valid.push(result.data);
+    }
+  }
+
+  return { valid, rejected };
+}
+
+/**
+ * Describe a rejected item for SyncResult.errors
+ */
+export function formatRejection(
+  dataType: CivicDataType,
+  rejected: RejectedItem,
+): string {
+  const item = rejected.externalId
+    ? `${ITEM_NAMES[dataType]} "${rejected.externalId}"`
+    : ITEM_NAMES[dataType];
+  return `Skipped invalid ${item}: ${rejected.reason}`;
+}
@@ -0,0 +1,329 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createMock } from '@golevelup/ts-jest';
+import { CivicDataType } from '@qckstrt/region-provider';
+import { SyncTrigger } from 'src/db/entities/region-sync-run.entity';
+import {
+  RegionDomainService,
+  RegionSyncResult,
+  SyncOptions,
+  SyncProgressStage,
+} from './region.service';
+import {
+  RegionSyncJobsService,
+  SyncJobEvent,
+  SyncJobEventType,
+  SyncJobStatus,
+} from './region-sync-jobs.service';
+
+describe('RegionSyncJobsService', () => {
+  let service: RegionSyncJobsService;
+  let regionService: jest.Mocked<RegionDomainService>;
+
+  const result: RegionSyncResult = {
+    runId: 'run-1',
+    regionId: 'springfield',
+    dataType: CivicDataType.MEETINGS,
+    itemsProcessed: 2,
+    itemsCreated: 1,
+    itemsUpdated: 1,
+    itemsRemoved: 0,
+    errors: [],
+    syncedAt: new Date(),
+  };
+
+  /**
+   * Make syncAll wait until the returned function is called
+   */
+  const holdSync = () => {
+    let release!: () => void;
+    regionService.syncAll.mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          release = () => resolve([result]);
+        }),
+    );
+    return () => release();
+  };
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  const collect = async (events: AsyncIterable<SyncJobEvent>) => {
+    const collected: SyncJobEvent[] = [];
+    for await (const event of events) {
+      collected.push(event);
+    }
+    return collected;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RegionSyncJobsService,
+        {
+          provide: RegionDomainService,
+          useValue: createMock<RegionDomainService>(),
+        },
+      ],
+    }).compile();
+
+    service = module.get(RegionSyncJobsService);
+    regionService = module.get(RegionDomainService);
+    regionService.syncAll.mockResolvedValue([result]);
+    regionService.syncDataType.mockResolvedValue(result);
+  });
+
+  describe('enqueue', () => {
+    it('should run a manual sync in the background', async () => {
+      const release = holdSync();
+
+      const job = service.enqueue('springfield', 'admin-1');
+
+      expect(job).toEqual(
+        expect.objectContaining({
+          regionId: 'springfield',
+          requestedBy: 'admin-1',
+          trigger: SyncTrigger.MANUAL,
+          status: SyncJobStatus.RUNNING,
+        }),
+      );
+      expect(regionService.syncAll).toHaveBeenCalledWith(
+        SyncTrigger.MANUAL,
+        'springfield',
+        { onProgress: expect.any(Function) },
+      );
+
+      release();
+      await flush();
+
+      expect(service.getJob(job.id)).toEqual(
+        expect.objectContaining({
+          status: SyncJobStatus.COMPLETED,
+          results: [result],
+          finishedAt: expect.any(Date),
+        }),
+      );
+    });
+
+    it('should collapse requests a running job covers', async () => {
+      const release = holdSync();
+      const job = service.enqueue(undefined, 'admin-1');
+
+      expect(service.enqueue(undefined, 'admin-2')).toBe(job);
+      expect(service.enqueue('springfield', 'admin-2')).toBe(job);
+
+      release();
+      await flush();
+      expect(regionService.syncAll).toHaveBeenCalledTimes(1);
+    });
+
+    it('should queue requests the running job does not cover', async () => {
+      const release = holdSync();
+      const regionJob = service.enqueue('springfield');
+
+      const allJob = service.enqueue();
+
+      expect(allJob).not.toBe(regionJob);
+      expect(allJob.status).toBe(SyncJobStatus.QUEUED);
+      expect(service.enqueue('shelbyville')).toBe(allJob);
+      expect(regionService.syncAll).toHaveBeenCalledTimes(1);
+
+      release();
+      await flush();
+
+      expect(regionService.syncAll).toHaveBeenCalledTimes(2);
+      expect(regionService.syncAll).toHaveBeenLastCalledWith(
+        SyncTrigger.MANUAL,
+        undefined,
+        expect.any(Object),
+      );
+      expect(service.getJob(allJob.id).status).toBe(SyncJobStatus.COMPLETED);
+    });
+
+    it('should sync a single data type with the given trigger', async () => {
+      const job = service.enqueue('springfield', undefined, {
+        dataType: CivicDataType.MEETINGS,
+        trigger: SyncTrigger.SCHEDULED,
+      });
+      await flush();
+
+      expect(regionService.syncDataType).toHaveBeenCalledWith(
+        CivicDataType.MEETINGS,
+        SyncTrigger.SCHEDULED,
+        'springfield',
+        { onProgress: expect.any(Function) },
+      );
+      expect(regionService.syncAll).not.toHaveBeenCalled();
+      expect(service.getJob(job.id)).toEqual(
+        expect.objectContaining({
+          status: SyncJobStatus.COMPLETED,
+          results: [result],
+        }),
+      );
+    });
+
+    it('should only collapse data type requests a job covers', async () => {
+      const release = holdSync();
+      const regionJob = service.enqueue('springfield');
+
+      expect(
+        service.enqueue('springfield', undefined, {
+          dataType: CivicDataType.MEETINGS,
+        }),
+      ).toBe(regionJob);
+
+      const meetingsJob = service.enqueue('shelbyville', undefined, {
+        dataType: CivicDataType.MEETINGS,
+      });
+      expect(meetingsJob).not.toBe(regionJob);
+      expect(
+        service.enqueue('shelbyville', undefined, {
+          dataType: CivicDataType.PROPOSITIONS,
+        }),
+      ).not.toBe(meetingsJob);
+      expect(service.enqueue('shelbyville')).not.toBe(meetingsJob);
+
+      release();
+      await flush();
+    });
+
+    it('should start a new job once the previous one finished', async () => {
+      const first = service.enqueue();
+      await flush();
+
+      const second = service.enqueue();
+
+      expect(second).not.toBe(first);
+    });
+
+    it('should mark the job failed when the sync throws', async () => {
+      regionService.syncAll.mockRejectedValueOnce(new Error('Database down'));
+
+      const job = service.enqueue();
+      await flush();
+
+      expect(service.getJob(job.id)).toEqual(
+        expect.objectContaining({
+          status: SyncJobStatus.FAILED,
+          error: 'Database down',
+        }),
+      );
+      expect(job.events[job.events.length - 1]).toEqual(
+        expect.objectContaining({
+          type: SyncJobEventType.JOB_FINISHED,
+          status: SyncJobStatus.FAILED,
+          error: 'Database down',
+        }),
+      );
+    });
+  });
+
+  describe('getJob', () => {
+    it('should throw NotFoundException for unknown jobs', () => {
+      expect(() => service.getJob('job-9')).toThrow(NotFoundException);
+    });
+  });
+
+  describe('finished', () => {
+    it('should resolve with the job once it finished', async () => {
+      const release = holdSync();
+      const job = service.enqueue('springfield');
+
+      const finished = service.finished(job.id);
+      release();
+
+      await expect(finished).resolves.toEqual(
+        expect.objectContaining({
+          id: job.id,
+          status: SyncJobStatus.COMPLETED,
+          results: [result],
+        }),
+      );
+    });
+
+    it('should resolve right away for a finished job', async () => {
+      const job = service.enqueue();
+      await flush();
+
+      await expect(service.finished(job.id)).resolves.toBe(job);
+    });
+
+    it('should throw NotFoundException for unknown jobs', async () => {
+      await expect(service.finished('job-9')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('watch', () => {
+    it('should stream progress events until the job finishes', async () => {
+      regionService.syncAll.mockImplementationOnce(
+        async (_trigger, _regionId, options?: SyncOptions) => {
+          const base = {
+            regionId: 'springfield',
+            dataType: CivicDataType.MEETINGS,
+          };
+          options?.onProgress?.({ ...base, stage: SyncProgressStage.STARTED });
+          await flush();
+          options?.onProgress?.({
+            ...base,
+            stage: SyncProgressStage.ITEMS_PROCESSED,
+            itemsProcessed: 2,
+          });
+          options?.onProgress?.({
+            ...base,
+            stage: SyncProgressStage.ERROR,
+            error: 'Rejected meeting m-3',
+          });
+          options?.onProgress?.({
+            ...base,
+            stage: SyncProgressStage.FINISHED,
+            result,
+          });
+          return [result];
+        },
+      );
+
+      const job = service.enqueue('springfield');
+      const events = await collect(service.watch(job.id));
+
+      expect(events.map((event) => event.type)).toEqual([
+        SyncJobEventType.DATA_TYPE_STARTED,
+        SyncJobEventType.ITEMS_PROCESSED,
+        SyncJobEventType.ERROR,
+        SyncJobEventType.DATA_TYPE_FINISHED,
+        SyncJobEventType.JOB_FINISHED,
+      ]);
+      expect(events[1]).toEqual(
+        expect.objectContaining({
+          jobId: job.id,
+          status: SyncJobStatus.RUNNING,
+          regionId: 'springfield',
+          dataType: CivicDataType.MEETINGS,
+          itemsProcessed: 2,
+        }),
+      );
+      expect(events[2].error).toBe('Rejected meeting m-3');
+      expect(events[3].result).toBe(result);
+      expect(events[4].status).toBe(SyncJobStatus.COMPLETED);
+    });
+
+    it('should replay the events of a finished job', async () => {
+      const job = service.enqueue();
+      await flush();
+
+      const events = await collect(service.watch(job.id));
+
+      expect(events).toEqual(job.events);
+      expect(events[events.length - 1].type).toBe(
+        SyncJobEventType.JOB_FINISHED,
+      );
+    });
+
+    it('should throw NotFoundException for unknown jobs', async () => {
+      await expect(service.watch('job-9').next()).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
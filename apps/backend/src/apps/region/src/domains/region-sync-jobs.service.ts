@@ -0,0 +1,302 @@
+import { randomUUID } from 'node:crypto';
+import { EventEmitter, on, once } from 'node:events';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { CivicDataType } from '@qckstrt/region-provider';
+import { SyncTrigger } from 'src/db/entities/region-sync-run.entity';
+import {
+  RegionDomainService,
+  RegionSyncResult,
+  SyncProgress,
+  SyncProgressStage,
+} from './region.service';
+
+/**
+ * Lifecycle status of a sync job
+ */
+export enum SyncJobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+/**
+ * Kinds of sync job progress events
+ */
+export enum SyncJobEventType {
+  DATA_TYPE_STARTED = 'data_type_started',
+  ITEMS_PROCESSED = 'items_processed',
+  ERROR = 'error',
+  DATA_TYPE_FINISHED = 'data_type_finished',
+  JOB_FINISHED = 'job_finished',
+}
+
+/**
+ * A sync of every region (or a single region), run in the background
+ */
+export interface SyncJob {
+  id: string;
+  // Missing when the job syncs every region
+  regionId?: string;
+  // Missing when the job syncs every supported data type
+  dataType?: CivicDataType;
+  trigger: SyncTrigger;
+  status: SyncJobStatus;
+  requestedBy?: string;
+  queuedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  results: RegionSyncResult[];
+  error?: string;
+  events: SyncJobEvent[];
+}
+
+/**
+ * Progress of a sync job
+ */
+export interface SyncJobEvent {
+  jobId: string;
+  type: SyncJobEventType;
+  status: SyncJobStatus;
+  regionId?: string;
+  dataType?: string;
+  itemsProcessed?: number;
+  result?: RegionSyncResult;
+  error?: string;
+  occurredAt: Date;
+}
+
+/**
+ * What a queued sync covers besides its region, and what started it
+ */
+export interface SyncJobOptions {
+  dataType?: CivicDataType;
+  // Defaults to MANUAL
+  trigger?: SyncTrigger;
+}
+
+const PROGRESS_EVENT_TYPES: Record<SyncProgressStage, SyncJobEventType> = {
+  [SyncProgressStage.STARTED]: SyncJobEventType.DATA_TYPE_STARTED,
+  [SyncProgressStage.ITEMS_PROCESSED]: SyncJobEventType.ITEMS_PROCESSED,
+  [SyncProgressStage.ERROR]: SyncJobEventType.ERROR,
+  [SyncProgressStage.FINISHED]: SyncJobEventType.DATA_TYPE_FINISHED,
+};
+
+// Finished jobs kept so their status and events can still be read
+const FINISHED_JOBS_KEPT = 20;
+
+/**
+ * Region Sync Jobs Service
+ *
+ * Runs manual and scheduled syncs outside the request that asks for them.
+ * Jobs run one at a time in the order they were requested, so two syncs of
+ * the same region and data type never run at once. A request that a queued
+ * or running job already covers (the same region or every region, and the
+ * same data type or every data type) is collapsed into that job instead of
+ * starting another sync.
+ *
+ * Jobs and their events are kept in memory, so they are only visible on
+ * the instance that runs them.
+ */
+@Injectable()
+export class RegionSyncJobsService {
+  private readonly logger = new Logger(RegionSyncJobsService.name);
+  private readonly jobs = new Map<string, SyncJob>();
+  private readonly queue: SyncJob[] = [];
+  private readonly events = new EventEmitter();
+  private running?: SyncJob;
+
+  constructor(private readonly regionService: RegionDomainService) {
+    // Every subscriber listens on the emitter, so don't warn about many
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Queue a sync of every region (or a single region)
+   *
+   * @returns The new job, or the queued or running job that covers it
+   */
+  enqueue(
+    regionId?: string,
+    requestedBy?: string,
+    options: SyncJobOptions = {},
+  ): SyncJob {
+    const { dataType, trigger = SyncTrigger.MANUAL } = options;
+    const label = `${regionId ?? 'all regions'}${dataType ? `/${dataType}` : ''}`;
+    const covering = [this.running, ...this.queue].find(
+      (job) =>
+        job &&
+        (!job.regionId || job.regionId === regionId) &&
+        (!job.dataType || job.dataType === dataType),
+    );
+    if (covering) {
+      this.logger.log(`Sync of ${label} joined job ${covering.id}`);
+      return covering;
+    }
+
+    const job: SyncJob = {
+      id: randomUUID(),
+      regionId,
+      dataType,
+      trigger,
+      status: SyncJobStatus.QUEUED,
+      requestedBy,
+      queuedAt: new Date(),
+      results: [],
+      events: [],
+    };
+    this.jobs.set(job.id, job);
+    this.queue.push(job);
+    this.logger.log(`Queued sync job ${job.id} for ${label}`);
+
+    void this.runQueue();
+    return job;
+  }
+
+  /**
+   * Get a job by ID
+   *
+   * @throws NotFoundException if the job is unknown or no longer kept
+   */
+  getJob(jobId: string): SyncJob {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new NotFoundException(`Sync job ${jobId} not found`);
+    }
+    return job;
+  }
+
+  /**
+   * Wait for a job to finish
+   *
+   * @returns The finished job, even if it is no longer kept
+   * @throws NotFoundException if the job is unknown or no longer kept
+   */
+  async finished(jobId: string): Promise<SyncJob> {
+    const job = this.getJob(jobId);
+    while (!job.finishedAt) {
+      await once(this.events, job.id);
+    }
+    return job;
+  }
+
+  /**
+   * Stream a job's progress events until it finishes
+   *
+   * Events already emitted are replayed first, so a subscriber that
+   * connects after the job started still sees all of them.
+   *
+   * @throws NotFoundException if the job is unknown or no longer kept
+   */
+  async *watch(jobId: string): AsyncGenerator<SyncJobEvent> {
+    const job = this.getJob(jobId);
+    // Listen before taking the replay so no event falls in between
+    const live = on(this.events, jobId) as AsyncIterableIterator<
+      [SyncJobEvent]
+    >;
+    const replay = [...job.events];
+
+    try {
+      for (const event of replay) {
+        yield event;
+        if (event.type === SyncJobEventType.JOB_FINISHED) {
+          return;
+        }
+      }
+      for await (const [event] of live) {
+        yield event;
+        if (event.type === SyncJobEventType.JOB_FINISHED) {
+          return;
+        }
+      }
+    } finally {
+      await live.return?.();
+    }
+  }
+
+  /**
+   * Run queued jobs one at a time
+   */
+  private async runQueue(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    let job: SyncJob | undefined;
+    while ((job = this.queue.shift())) {
+      this.running = job;
+      await this.runJob(job);
+      this.running = undefined;
+      this.pruneFinishedJobs();
+    }
+  }
+
+  /**
+   * Run a job's sync, emitting its progress
+   */
+  private async runJob(job: SyncJob): Promise<void> {
+    job.status = SyncJobStatus.RUNNING;
+    job.startedAt = new Date();
+
+    const options = {
+      onProgress: (progress: SyncProgress) => this.onProgress(job, progress),
+    };
+    try {
+      job.results = job.dataType
+        ? [
+            await this.regionService.syncDataType(
+              job.dataType,
+              job.trigger,
+              job.regionId,
+              options,
+            ),
+          ]
+        : await this.regionService.syncAll(job.trigger, job.regionId, options);
+      job.status = SyncJobStatus.COMPLETED;
+    } catch (error) {
+      this.logger.error(`Sync job ${job.id} failed:`, error);
+      job.status = SyncJobStatus.FAILED;
+      job.error = (error as Error).message;
+    }
+
+    job.finishedAt = new Date();
+    this.emit(job, { type: SyncJobEventType.JOB_FINISHED, error: job.error });
+  }
+
+  private onProgress(job: SyncJob, progress: SyncProgress): void {
+    const { stage, regionId, dataType, itemsProcessed, error, result } =
+      progress;
+    this.emit(job, {
+      type: PROGRESS_EVENT_TYPES[stage],
+      regionId,
+      dataType,
+      itemsProcessed,
+      error,
+      result,
+    });
+  }
+
+  private emit(
+    job: SyncJob,
+    event: Omit<SyncJobEvent, 'jobId' | 'status' | 'occurredAt'>,
+  ): void {
+    const jobEvent: SyncJobEvent = {
+      ...event,
+      jobId: job.id,
+      status: job.status,
+      occurredAt: new Date(),
+    };
+    job.events.push(jobEvent);
+    this.events.emit(job.id, jobEvent);
+  }
+
+  /**
+   * Forget the oldest finished jobs beyond FINISHED_JOBS_KEPT
+   */
+  private pruneFinishedJobs(): void {
+    const finished = [...this.jobs.values()].filter((job) => job.finishedAt);
+    for (const job of finished.slice(0, -FINISHED_JOBS_KEPT)) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
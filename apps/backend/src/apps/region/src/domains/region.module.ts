@@ -1,29 +1,102 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { RegionModule } from '@qckstrt/region-provider';
+import { StorageModule } from '@qckstrt/storage-provider';
+import { ExtractionModule } from '@qckstrt/extraction-provider';
+import { EmbeddingsModule } from '@qckstrt/embeddings-provider';
+import { VectorDBModule } from '@qckstrt/vectordb-provider';
 import { RegionDomainService } from './region.service';
 import { RegionResolver } from './region.resolver';
 import { RegionScheduler } from './region.scheduler';
+import { RegionSyncJobsService } from './region-sync-jobs.service';
+import { FollowsService } from './follows.service';
+import { FollowsResolver } from './follows.resolver';
+import { FollowAlertsService } from './follow-alerts.service';
+import { CivicDigestService } from './civic-digest.service';
+import { CalendarService } from './calendar.service';
+import { CalendarResolver } from './calendar.resolver';
+import { CalendarController } from './calendar.controller';
+import { MeetingDocumentsService } from './meeting-documents.service';
+import { MeetingDocumentsResolver } from './meeting-documents.resolver';
 import { PropositionEntity } from 'src/db/entities/proposition.entity';
+import { PropositionRevisionEntity } from 'src/db/entities/proposition-revision.entity';
 import { MeetingEntity } from 'src/db/entities/meeting.entity';
+import { MeetingDocumentEntity } from 'src/db/entities/meeting-document.entity';
 import { RepresentativeEntity } from 'src/db/entities/representative.entity';
+import { ElectionEntity } from 'src/db/entities/election.entity';
+import { BillEntity } from 'src/db/entities/bill.entity';
+import { VoteEntity } from 'src/db/entities/vote.entity';
+import { RaceEntity } from 'src/db/entities/race.entity';
+import { RegionSyncRunEntity } from 'src/db/entities/region-sync-run.entity';
+import { UserAddressEntity } from 'src/db/entities/user-address.entity';
+import { UserFollowEntity } from 'src/db/entities/user-follow.entity';
+import { FollowAlertEntity } from 'src/db/entities/follow-alert.entity';
+import { CalendarFeedTokenEntity } from 'src/db/entities/calendar-feed-token.entity';
+import { NotificationDeliveryEntity } from 'src/db/entities/notification-delivery.entity';
+import {
+  NotificationsModule,
+  NotificationsSchedulerModule,
+} from 'src/common/notifications';
 
 /**
  * Region Domain Module
  *
  * Provides civic data management for the region.
  * Uses the region provider to fetch and sync data.
+ * StorageModule lets file-based regions read storage:// data files.
+ * Users can follow civic items and subscribe to iCalendar feeds.
+ * Changes to followed items are sent through the notification dispatcher,
+ * and daily and weekly digests get civic sections for the user's regions.
+ * Meeting agendas and minutes are ingested with embeddings for search.
  */
 @Module({
   imports: [
+    StorageModule,
     RegionModule.forRootAsync(),
+    ExtractionModule.forRootAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        config: configService.get('extraction'),
+      }),
+    }),
+    EmbeddingsModule,
+    VectorDBModule,
+    NotificationsModule,
+    NotificationsSchedulerModule,
     TypeOrmModule.forFeature([
       PropositionEntity,
+      PropositionRevisionEntity,
       MeetingEntity,
+      MeetingDocumentEntity,
       RepresentativeEntity,
+      ElectionEntity,
+      BillEntity,
+      VoteEntity,
+      RaceEntity,
+      RegionSyncRunEntity,
+      UserAddressEntity,
+      UserFollowEntity,
+      FollowAlertEntity,
+      CalendarFeedTokenEntity,
+      NotificationDeliveryEntity,
     ]),
   ],
-  providers: [RegionDomainService, RegionResolver, RegionScheduler],
+  controllers: [CalendarController],
+  providers: [
+    RegionDomainService,
+    RegionSyncJobsService,
+    RegionResolver,
+    RegionScheduler,
+    FollowsService,
+    FollowsResolver,
+    FollowAlertsService,
+    CivicDigestService,
+    CalendarService,
+    CalendarResolver,
+    MeetingDocumentsService,
+    MeetingDocumentsResolver,
+  ],
   exports: [RegionDomainService],
 })
 export class RegionDomainModule {}
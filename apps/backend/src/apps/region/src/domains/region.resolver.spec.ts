@@ -1,17 +1,38 @@
+import { NotFoundException } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { createMock } from '@golevelup/ts-jest';
 
 import { RegionResolver } from './region.resolver';
 import { RegionDomainService } from './region.service';
-import { CivicDataType } from '@qckstrt/region-provider';
+import {
+  RegionSyncJobsService,
+  SyncJob,
+  SyncJobEventType,
+  SyncJobStatus,
+} from './region-sync-jobs.service';
+import { UserInputError } from '@nestjs/apollo';
+import { GqlContext } from 'src/common/utils/graphql-context';
+import { CivicDataType, UnknownRegionError } from '@qckstrt/region-provider';
 import { CivicDataTypeGQL } from './models/region-info.model';
-import { PropositionModel } from './models/proposition.model';
+import {
+  PropositionModel,
+  PropositionStatusGQL,
+} from './models/proposition.model';
 import { MeetingModel } from './models/meeting.model';
 import { RepresentativeModel } from './models/representative.model';
+import { ElectionModel, VoterDeadlineType } from './models/election.model';
+import { BillModel, BillStatusGQL } from './models/bill.model';
+import { VoteModel, VoteOptionGQL } from './models/vote.model';
+import { RaceModel } from './models/race.model';
+import {
+  SyncRunStatus,
+  SyncTrigger,
+} from 'src/db/entities/region-sync-run.entity';
 
 describe('RegionResolver', () => {
   let resolver: RegionResolver;
   let regionService: jest.Mocked<RegionDomainService>;
+  let syncJobs: jest.Mocked<RegionSyncJobsService>;
 
   const mockRegionInfo = {
     id: 'test-region',
@@ -28,6 +49,7 @@ describe('RegionResolver', () => {
 
   const mockProposition = {
     id: '1',
+    regionId: 'test-region',
     externalId: 'prop-1',
     title: 'Test Proposition',
     summary: 'Summary',
@@ -38,6 +60,7 @@ describe('RegionResolver', () => {
 
   const mockMeeting = {
     id: '1',
+    regionId: 'test-region',
     externalId: 'meeting-1',
     title: 'Test Meeting',
     body: 'Council',
@@ -48,6 +71,7 @@ describe('RegionResolver', () => {
 
   const mockRepresentative = {
     id: '1',
+    regionId: 'test-region',
     externalId: 'rep-1',
     name: 'John Doe',
     chamber: 'Senate',
@@ -67,11 +91,16 @@ describe('RegionResolver', () => {
           provide: RegionDomainService,
           useValue: mockRegionService,
         },
+        {
+          provide: RegionSyncJobsService,
+          useValue: createMock<RegionSyncJobsService>(),
+        },
       ],
     }).compile();
 
     resolver = module.get<RegionResolver>(RegionResolver);
     regionService = module.get(RegionDomainService);
+    syncJobs = module.get(RegionSyncJobsService);
   });
 
   it('should be defined', () => {
@@ -87,6 +116,35 @@ describe('RegionResolver', () => {
       expect(result).toEqual(mockRegionInfo);
       expect(regionService.getRegionInfo).toHaveBeenCalled();
     });
+
+    it('should return info for the requested region', async () => {
+      regionService.getRegionInfo.mockReturnValue(mockRegionInfo);
+
+      await resolver.regionInfo('test-region');
+
+      expect(regionService.getRegionInfo).toHaveBeenCalledWith('test-region');
+    });
+
+    it('should reject unknown regions', async () => {
+      regionService.getRegionInfo.mockImplementation(() => {
+        throw new UnknownRegionError('city');
+      });
+
+      await expect(resolver.regionInfo('city')).rejects.toThrow(UserInputError);
+    });
+  });
+
+  describe('regions', () => {
+    it('should return every configured region', async () => {
+      regionService.getRegions.mockReturnValue([
+        mockRegionInfo,
+        { ...mockRegionInfo, id: 'county', name: 'County' },
+      ]);
+
+      const result = await resolver.regions();
+
+      expect(result.map((r) => r.id)).toEqual(['test-region', 'county']);
+    });
   });
 
   describe('propositions', () => {
@@ -101,7 +159,12 @@ describe('RegionResolver', () => {
       const result = await resolver.propositions(0, 10);
 
       expect(result).toEqual(mockPaginatedResult);
-      expect(regionService.getPropositions).toHaveBeenCalledWith(0, 10);
+      expect(regionService.getPropositions).toHaveBeenCalledWith(
+        0,
+        10,
+        undefined,
+        undefined,
+      );
     });
 
     it('should use default pagination values', async () => {
@@ -114,7 +177,50 @@ describe('RegionResolver', () => {
 
       await resolver.propositions(0, 10);
 
-      expect(regionService.getPropositions).toHaveBeenCalledWith(0, 10);
+      expect(regionService.getPropositions).toHaveBeenCalledWith(
+        0,
+        10,
+        undefined,
+        undefined,
+      );
+    });
+
+    it('should filter by region when provided', async () => {
+      regionService.getPropositions.mockResolvedValue({
+        items: [],
+        total: 0,
+        hasMore: false,
+      });
+
+      await resolver.propositions(0, 10, 'test-region');
+
+      expect(regionService.getPropositions).toHaveBeenCalledWith(
+        0,
+        10,
+        'test-region',
+        undefined,
+      );
+    });
+
+    it('should pass filters to the service', async () => {
+      regionService.getPropositions.mockResolvedValue({
+        items: [],
+        total: 0,
+        hasMore: false,
+      });
+      const filter = {
+        query: 'housing bond',
+        statuses: [PropositionStatusGQL.PENDING],
+      };
+
+      await resolver.propositions(0, 10, undefined, filter);
+
+      expect(regionService.getPropositions).toHaveBeenCalledWith(
+        0,
+        10,
+        undefined,
+        filter,
+      );
     });
   });
 
@@ -140,6 +246,26 @@ describe('RegionResolver', () => {
     });
   });
 
+  describe('propositionRevisions', () => {
+    it('should return the revision history', async () => {
+      const revisions = [
+        {
+          id: 'rev-1',
+          propositionId: '1',
+          changedFields: ['status'],
+          changes: [],
+          createdAt: new Date(),
+        },
+      ];
+      regionService.getPropositionRevisions.mockResolvedValue(revisions);
+
+      const result = await resolver.propositionRevisions('1');
+
+      expect(result).toEqual(revisions);
+      expect(regionService.getPropositionRevisions).toHaveBeenCalledWith('1');
+    });
+  });
+
   describe('meetings', () => {
     it('should return paginated meetings', async () => {
       const mockPaginatedResult = {
@@ -152,7 +278,30 @@ describe('RegionResolver', () => {
       const result = await resolver.meetings(0, 10);
 
       expect(result).toEqual(mockPaginatedResult);
-      expect(regionService.getMeetings).toHaveBeenCalledWith(0, 10);
+      expect(regionService.getMeetings).toHaveBeenCalledWith(
+        0,
+        10,
+        undefined,
+        undefined,
+      );
+    });
+
+    it('should pass filters to the service', async () => {
+      regionService.getMeetings.mockResolvedValue({
+        items: [],
+        total: 0,
+        hasMore: false,
+      });
+      const filter = { body: 'City Council', upcoming: true };
+
+      await resolver.meetings(0, 10, 'test-region', filter);
+
+      expect(regionService.getMeetings).toHaveBeenCalledWith(
+        0,
+        10,
+        'test-region',
+        filter,
+      );
     });
   });
 
@@ -175,6 +324,139 @@ describe('RegionResolver', () => {
     });
   });
 
+  describe('elections', () => {
+    it('should pass filters to the service', async () => {
+      regionService.getElections.mockResolvedValue({
+        items: [],
+        total: 0,
+        hasMore: false,
+      });
+      const filter = { upcoming: true };
+
+      await resolver.elections(0, 10, 'test-region', filter);
+
+      expect(regionService.getElections).toHaveBeenCalledWith(
+        0,
+        10,
+        'test-region',
+        filter,
+      );
+    });
+
+    it('should return a single election', async () => {
+      const election = {
+        id: '1',
+        regionId: 'test-region',
+        externalId: 'election-1',
+        name: 'General Election',
+        electionDate: new Date('2024-11-05'),
+      };
+      regionService.getElection.mockResolvedValue(election as ElectionModel);
+
+      expect(await resolver.election('1')).toEqual(election);
+      expect(regionService.getElection).toHaveBeenCalledWith('1');
+    });
+  });
+
+  describe('voterDeadlines', () => {
+    it('should return deadlines in the requested range', async () => {
+      const deadlines = [
+        {
+          type: VoterDeadlineType.REGISTRATION,
+          date: new Date('2024-10-21'),
+          electionId: '1',
+          electionName: 'General Election',
+          electionDate: new Date('2024-11-05'),
+          regionId: 'test-region',
+        },
+      ];
+      regionService.getVoterDeadlines.mockResolvedValue(deadlines);
+      const from = new Date('2024-10-01');
+
+      const result = await resolver.voterDeadlines('test-region', from);
+
+      expect(result).toBe(deadlines);
+      expect(regionService.getVoterDeadlines).toHaveBeenCalledWith(
+        'test-region',
+        from,
+        undefined,
+      );
+    });
+  });
+
+  describe('bills', () => {
+    it('should pass filters to the service', async () => {
+      regionService.getBills.mockResolvedValue({
+        items: [],
+        total: 0,
+        hasMore: false,
+      });
+      const filter = { statuses: [BillStatusGQL.IN_COMMITTEE] };
+
+      await resolver.bills(0, 10, 'test-region', filter);
+
+      expect(regionService.getBills).toHaveBeenCalledWith(
+        0,
+        10,
+        'test-region',
+        filter,
+      );
+    });
+
+    it('should return a single bill', async () => {
+      const bill = { id: '1', number: 'AB 1', title: 'Housing Act' };
+      regionService.getBill.mockResolvedValue(bill as BillModel);
+
+      expect(await resolver.bill('1')).toEqual(bill);
+      expect(regionService.getBill).toHaveBeenCalledWith('1');
+    });
+
+    it("should return a bill's roll-call votes", async () => {
+      const votes = [{ id: 'v1', motion: 'Third Reading' }] as VoteModel[];
+      regionService.getBillVotes.mockResolvedValue(votes);
+
+      expect(await resolver.billVotes('1')).toBe(votes);
+      expect(regionService.getBillVotes).toHaveBeenCalledWith('1');
+    });
+  });
+
+  describe('vote', () => {
+    it('should return a single roll-call vote', async () => {
+      const vote = { id: 'v1', motion: 'Third Reading' } as VoteModel;
+      regionService.getVote.mockResolvedValue(vote);
+
+      expect(await resolver.vote('v1')).toBe(vote);
+      expect(regionService.getVote).toHaveBeenCalledWith('v1');
+    });
+  });
+
+  describe('representativeVotes', () => {
+    it("should return the representative's voting record", async () => {
+      const record = {
+        items: [
+          {
+            voteId: 'v1',
+            motion: 'Third Reading',
+            chamber: 'Senate',
+            votedAt: new Date('2024-04-15'),
+            passed: true,
+            option: VoteOptionGQL.YES,
+          },
+        ],
+        total: 1,
+        hasMore: false,
+      };
+      regionService.getRepresentativeVotes.mockResolvedValue(record);
+
+      expect(await resolver.representativeVotes('rep-1', 0, 10)).toBe(record);
+      expect(regionService.getRepresentativeVotes).toHaveBeenCalledWith(
+        'rep-1',
+        0,
+        10,
+      );
+    });
+  });
+
   describe('representatives', () => {
     it('should return paginated representatives', async () => {
       const mockPaginatedResult = {
@@ -191,6 +473,7 @@ describe('RegionResolver', () => {
         0,
         10,
         undefined,
+        undefined,
       );
     });
 
@@ -208,6 +491,7 @@ describe('RegionResolver', () => {
         0,
         10,
         'Senate',
+        undefined,
       );
     });
   });
@@ -234,50 +518,402 @@ describe('RegionResolver', () => {
   });
 
   describe('syncRegionData', () => {
-    it('should trigger sync and return results', async () => {
-      const mockSyncResults = [
-        {
-          dataType: CivicDataType.PROPOSITIONS,
-          itemsProcessed: 10,
-          itemsCreated: 5,
-          itemsUpdated: 5,
-          errors: [],
-          syncedAt: new Date(),
-        },
+    const adminContext = {
+      req: { user: { id: 'admin-1', email: 'admin@example.com' }, headers: {} },
+    } as unknown as GqlContext;
+
+    const queuedJob: SyncJob = {
+      id: 'job-1',
+      trigger: SyncTrigger.MANUAL,
+      status: SyncJobStatus.QUEUED,
+      requestedBy: 'admin-1',
+      queuedAt: new Date(),
+      results: [],
+      events: [],
+    };
+
+    it('should queue a sync job and return it right away', async () => {
+      syncJobs.enqueue.mockReturnValue(queuedJob);
+
+      const result = await resolver.syncRegionData(adminContext);
+
+      expect(result).toEqual(
+        expect.objectContaining({ id: 'job-1', status: SyncJobStatus.QUEUED }),
+      );
+      expect(syncJobs.enqueue).toHaveBeenCalledWith(undefined, 'admin-1');
+      expect(regionService.syncAll).not.toHaveBeenCalled();
+    });
+
+    it('should queue a single region when requested', async () => {
+      syncJobs.enqueue.mockReturnValue({
+        ...queuedJob,
+        regionId: 'test-region',
+      });
+
+      await resolver.syncRegionData(adminContext, 'test-region');
+
+      expect(syncJobs.enqueue).toHaveBeenCalledWith('test-region', 'admin-1');
+    });
+
+    it('should reject syncing an unknown region', async () => {
+      regionService.getRegionInfo.mockImplementation(() => {
+        throw new UnknownRegionError('city');
+      });
+
+      await expect(
+        resolver.syncRegionData(adminContext, 'city'),
+      ).rejects.toThrow(UserInputError);
+      expect(syncJobs.enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('regionSyncJob', () => {
+    it('should return the job with its results', async () => {
+      syncJobs.getJob.mockReturnValue({
+        id: 'job-1',
+        trigger: SyncTrigger.MANUAL,
+        status: SyncJobStatus.COMPLETED,
+        queuedAt: new Date(),
+        results: [
+          {
+            dataType: CivicDataType.PROPOSITIONS,
+            itemsProcessed: 0,
+            itemsCreated: 0,
+            itemsUpdated: 0,
+            itemsRemoved: 0,
+            errors: ['Network error'],
+            syncedAt: new Date(),
+          },
+        ],
+        events: [],
+      });
+
+      const result = await resolver.regionSyncJob('job-1');
+
+      expect(result.status).toBe(SyncJobStatus.COMPLETED);
+      expect(result.results[0].dataType).toBe(CivicDataTypeGQL.PROPOSITIONS);
+      expect(result.results[0].errors).toContain('Network error');
+    });
+
+    it('should propagate unknown jobs', async () => {
+      syncJobs.getJob.mockImplementation(() => {
+        throw new NotFoundException('Sync job job-9 not found');
+      });
+
+      await expect(resolver.regionSyncJob('job-9')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('regionSyncProgress', () => {
+    it("should stream the job's events", async () => {
+      const event = {
+        jobId: 'job-1',
+        type: SyncJobEventType.JOB_FINISHED,
+        status: SyncJobStatus.COMPLETED,
+        occurredAt: new Date(),
+      };
+      syncJobs.watch.mockImplementation(async function* () {
+        yield event;
+      });
+
+      const events = resolver.regionSyncProgress('job-1');
+
+      expect(await events.next()).toEqual({ value: event, done: false });
+      expect(syncJobs.watch).toHaveBeenCalledWith('job-1');
+    });
+
+    it('should fail right away for unknown jobs', () => {
+      syncJobs.getJob.mockImplementation(() => {
+        throw new NotFoundException('Sync job job-9 not found');
+      });
+
+      expect(() => resolver.regionSyncProgress('job-9')).toThrow(
+        NotFoundException,
+      );
+      expect(syncJobs.watch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retiredRegionRecords', () => {
+    it('should return retired records for a data type', async () => {
+      const page = { items: [], total: 0, hasMore: false };
+      regionService.getRetiredRecords.mockResolvedValue(page);
+
+      const result = await resolver.retiredRegionRecords(
+        CivicDataTypeGQL.MEETINGS,
+        0,
+        10,
+        'test-region',
+      );
+
+      expect(result).toBe(page);
+      expect(regionService.getRetiredRecords).toHaveBeenCalledWith(
+        CivicDataType.MEETINGS,
+        0,
+        10,
+        'test-region',
+      );
+    });
+  });
+
+  describe('restoreRegionRecords', () => {
+    it('should restore records and return the count', async () => {
+      regionService.restoreRecords.mockResolvedValue(1);
+
+      const result = await resolver.restoreRegionRecords(
+        CivicDataTypeGQL.REPRESENTATIVES,
+        ['uuid-1'],
+      );
+
+      expect(result).toBe(1);
+      expect(regionService.restoreRecords).toHaveBeenCalledWith(
+        CivicDataType.REPRESENTATIVES,
+        ['uuid-1'],
+      );
+    });
+  });
+
+  describe('previewRegionSync', () => {
+    const mockPreview = {
+      runId: 'run-1',
+      regionId: 'test-region',
+      dataType: CivicDataTypeGQL.MEETINGS,
+      itemsProcessed: 1,
+      itemsCreated: 1,
+      itemsUpdated: 0,
+      itemsRemoved: 0,
+      errors: [],
+      created: [
         {
-          dataType: CivicDataType.MEETINGS,
-          itemsProcessed: 5,
-          itemsCreated: 3,
-          itemsUpdated: 2,
-          errors: [],
-          syncedAt: new Date(),
+          externalId: 'meeting-1',
+          label: 'Test Meeting',
+          restored: false,
+          changes: [],
         },
-      ];
-      regionService.syncAll.mockResolvedValue(mockSyncResults);
+      ],
+      updated: [],
+      retired: [],
+    };
+
+    it('should return previews of the requested data type', async () => {
+      regionService.previewSync.mockResolvedValue([mockPreview]);
+
+      const result = await resolver.previewRegionSync(
+        'test-region',
+        CivicDataTypeGQL.MEETINGS,
+      );
+
+      expect(result).toEqual([mockPreview]);
+      expect(regionService.previewSync).toHaveBeenCalledWith(
+        'test-region',
+        CivicDataType.MEETINGS,
+      );
+    });
+
+    it('should reject previewing an unknown region', async () => {
+      regionService.previewSync.mockRejectedValue(
+        new UnknownRegionError('city'),
+      );
+
+      await expect(resolver.previewRegionSync('city')).rejects.toThrow(
+        UserInputError,
+      );
+    });
+  });
+
+  describe('applyRegionSyncPreview', () => {
+    it('should apply the preview and return the sync result', async () => {
+      regionService.applySyncPreview.mockResolvedValue({
+        runId: 'run-2',
+        regionId: 'test-region',
+        dataType: CivicDataType.MEETINGS,
+        itemsProcessed: 1,
+        itemsCreated: 1,
+        itemsUpdated: 0,
+        itemsRemoved: 0,
+        errors: [],
+        syncedAt: new Date(),
+      });
+
+      const result = await resolver.applyRegionSyncPreview('run-1');
+
+      expect(result.runId).toBe('run-2');
+      expect(result.dataType).toBe(CivicDataTypeGQL.MEETINGS);
+      expect(regionService.applySyncPreview).toHaveBeenCalledWith('run-1');
+    });
 
-      const result = await resolver.syncRegionData();
+    it('should pass on missing previews', async () => {
+      regionService.applySyncPreview.mockRejectedValue(
+        new NotFoundException('No sync preview run-1 is awaiting apply'),
+      );
 
-      expect(result).toHaveLength(2);
-      expect(result[0].itemsProcessed).toBe(10);
-      expect(regionService.syncAll).toHaveBeenCalled();
+      await expect(resolver.applyRegionSyncPreview('run-1')).rejects.toThrow(
+        NotFoundException,
+      );
     });
+  });
 
-    it('should include errors in sync results', async () => {
-      const mockSyncResults = [
+  describe('regionSyncHistory', () => {
+    const mockHistory = {
+      items: [
         {
-          dataType: CivicDataType.PROPOSITIONS,
+          id: 'run-1',
+          regionId: 'test-region',
+          dataType: CivicDataTypeGQL.MEETINGS,
+          trigger: SyncTrigger.SCHEDULED,
+          status: SyncRunStatus.FAILED,
+          startedAt: new Date(),
+          completedAt: new Date(),
+          durationMs: 120,
           itemsProcessed: 0,
           itemsCreated: 0,
           itemsUpdated: 0,
+          itemsRemoved: 0,
           errors: ['Network error'],
-          syncedAt: new Date(),
+          dryRun: false,
         },
-      ];
-      regionService.syncAll.mockResolvedValue(mockSyncResults);
+      ],
+      total: 1,
+      hasMore: false,
+    };
+
+    it('should return paginated sync history', async () => {
+      regionService.getSyncHistory.mockResolvedValue(mockHistory);
+
+      const result = await resolver.regionSyncHistory(0, 10);
+
+      expect(result).toEqual(mockHistory);
+      expect(regionService.getSyncHistory).toHaveBeenCalledWith(
+        0,
+        10,
+        undefined,
+        undefined,
+      );
+    });
+
+    it('should filter by data type when provided', async () => {
+      regionService.getSyncHistory.mockResolvedValue(mockHistory);
+
+      await resolver.regionSyncHistory(0, 10, CivicDataTypeGQL.MEETINGS);
+
+      expect(regionService.getSyncHistory).toHaveBeenCalledWith(
+        0,
+        10,
+        CivicDataType.MEETINGS,
+        undefined,
+      );
+    });
+  });
+
+  describe('myRepresentatives', () => {
+    const context = {
+      req: { user: { id: 'user-1', email: 'user@example.com' }, headers: {} },
+    } as unknown as GqlContext;
+
+    it("should return representatives for the user's address", async () => {
+      const mockResult = {
+        addressId: 'addr-1',
+        matches: [],
+        missingDistricts: [],
+      };
+      regionService.getRepresentativesForAddress.mockResolvedValue(mockResult);
+
+      const result = await resolver.myRepresentatives(context);
+
+      expect(result).toEqual(mockResult);
+      expect(regionService.getRepresentativesForAddress).toHaveBeenCalledWith(
+        'user-1',
+        undefined,
+        undefined,
+      );
+    });
+
+    it('should return null when the user has no primary address', async () => {
+      regionService.getRepresentativesForAddress.mockResolvedValue(null);
+
+      const result = await resolver.myRepresentatives(context);
+
+      expect(result).toBeNull();
+    });
+
+    it('should reject an unknown address', async () => {
+      regionService.getRepresentativesForAddress.mockResolvedValue(null);
+
+      await expect(
+        resolver.myRepresentatives(context, 'missing'),
+      ).rejects.toThrow(UserInputError);
+    });
+
+    it('should require an authenticated user', async () => {
+      const anonymous = { req: { headers: {} } } as unknown as GqlContext;
+
+      await expect(resolver.myRepresentatives(anonymous)).rejects.toThrow(
+        'User not authenticated',
+      );
+    });
+  });
+
+  describe('races', () => {
+    it('should pass filters to the service', async () => {
+      regionService.getRaces.mockResolvedValue({
+        items: [],
+        total: 0,
+        hasMore: false,
+      });
+      const filter = { upcoming: true, chamber: 'Senate' };
+
+      await resolver.races(0, 10, 'test-region', filter);
+
+      expect(regionService.getRaces).toHaveBeenCalledWith(
+        0,
+        10,
+        'test-region',
+        filter,
+      );
+    });
+
+    it('should return a single race', async () => {
+      const race = { id: '1', office: 'Governor', candidates: [] };
+      regionService.getRace.mockResolvedValue(race as unknown as RaceModel);
+
+      expect(await resolver.race('1')).toEqual(race);
+      expect(regionService.getRace).toHaveBeenCalledWith('1');
+    });
+  });
+
+  describe('myBallot', () => {
+    const context = {
+      req: { user: { id: 'user-1', email: 'user@example.com' }, headers: {} },
+    } as unknown as GqlContext;
+
+    it("should return the races on the user's ballot", async () => {
+      const ballot = { addressId: 'addr-1', races: [], missingDistricts: [] };
+      regionService.getBallotForAddress.mockResolvedValue(ballot);
 
-      const result = await resolver.syncRegionData();
+      expect(await resolver.myBallot(context, 'addr-1', 'test-region')).toBe(
+        ballot,
+      );
+      expect(regionService.getBallotForAddress).toHaveBeenCalledWith(
+        'user-1',
+        'addr-1',
+        'test-region',
+      );
+    });
+
+    it('should return null when the user has no primary address', async () => {
+      regionService.getBallotForAddress.mockResolvedValue(null);
 
-      expect(result[0].errors).toContain('Network error');
+      expect(await resolver.myBallot(context)).toBeNull();
+    });
+
+    it('should reject an unknown address', async () => {
+      regionService.getBallotForAddress.mockResolvedValue(null);
+
+      await expect(resolver.myBallot(context, 'missing')).rejects.toThrow(
+        UserInputError,
+      );
     });
   });
 });
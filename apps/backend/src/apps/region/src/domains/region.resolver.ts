@@ -1,13 +1,24 @@
 import {
   Args,
+  Context,
   Extensions,
   ID,
   Int,
   Mutation,
   Query,
   Resolver,
+  Subscription,
 } from '@nestjs/graphql';
+import { UserInputError } from '@nestjs/apollo';
+import { CivicDataType, UnknownRegionError } from '@qckstrt/region-provider';
+import { Role } from 'src/common/enums/role.enum';
+import { Roles } from 'src/common/decorators/roles.decorator';
+import {
+  GqlContext,
+  getUserFromContext,
+} from 'src/common/utils/graphql-context';
 import { RegionDomainService } from './region.service';
+import { RegionSyncJobsService, SyncJob } from './region-sync-jobs.service';
 import {
   RegionInfoModel,
   SyncResultModel,
@@ -16,41 +27,91 @@ import {
 import {
   PropositionModel,
   PaginatedPropositions,
-  PropositionStatusGQL,
 } from './models/proposition.model';
+import { PropositionRevisionModel } from './models/proposition-revision.model';
 import { MeetingModel, PaginatedMeetings } from './models/meeting.model';
 import {
   RepresentativeModel,
   PaginatedRepresentatives,
 } from './models/representative.model';
+import { PaginatedSyncRuns } from './models/sync-run.model';
+import { SyncPreviewModel } from './models/sync-preview.model';
+import { SyncJobEventModel, SyncJobModel } from './models/sync-job.model';
+import { PaginatedRetiredRecords } from './models/retired-record.model';
+import { MyRepresentativesModel } from './models/my-representatives.model';
+import {
+  ElectionModel,
+  PaginatedElections,
+  VoterDeadlineModel,
+} from './models/election.model';
+import { BillModel, PaginatedBills } from './models/bill.model';
+import { PaginatedRepresentativeVotes, VoteModel } from './models/vote.model';
+import { PaginatedRaces, RaceModel } from './models/race.model';
+import { MyBallotModel } from './models/my-ballot.model';
+import {
+  BillFilterInput,
+  ElectionFilterInput,
+  MeetingFilterInput,
+  PropositionFilterInput,
+  RaceFilterInput,
+} from './dto/region-filters.dto';
 
 /**
  * Region Resolver
  *
  * GraphQL API for region civic data.
+ * List queries accept an optional regionId to limit results to one of the
+ * configured regions; without it, data from all regions is returned.
  */
 @Resolver()
 export class RegionResolver {
-  constructor(private readonly regionService: RegionDomainService) {}
+  constructor(
+    private readonly regionService: RegionDomainService,
+    private readonly syncJobs: RegionSyncJobsService,
+  ) {}
+
+  /**
+   * Get information for all configured regions
+   */
+  @Query(() => [RegionInfoModel])
+  async regions(): Promise<RegionInfoModel[]> {
+    return this.regionService.getRegions();
+  }
 
   /**
-   * Get region information
+   * Get region information (default region when no ID is given)
    */
   @Query(() => RegionInfoModel)
-  async regionInfo(): Promise<RegionInfoModel> {
-    return this.regionService.getRegionInfo();
+  async regionInfo(
+    @Args({ name: 'regionId', nullable: true }) regionId?: string,
+  ): Promise<RegionInfoModel> {
+    try {
+      return this.regionService.getRegionInfo(regionId);
+    } catch (error) {
+      throw this.toUserInputError(error);
+    }
   }
 
   /**
    * Get paginated propositions
+   *
+   * With a text query in the filter, results are sorted by relevance
+   * unless another sort is requested.
    */
   @Query(() => PaginatedPropositions)
   @Extensions({ complexity: 15 }) // Paginated list query
   async propositions(
     @Args({ name: 'skip', type: () => Int, defaultValue: 0 }) skip: number,
     @Args({ name: 'take', type: () => Int, defaultValue: 10 }) take: number,
+    @Args({ name: 'regionId', nullable: true }) regionId?: string,
+    @Args({
+      name: 'filter',
+      type: () => PropositionFilterInput,
+      nullable: true,
+    })
+    filter?: PropositionFilterInput,
   ): Promise<PaginatedPropositions> {
-    return this.regionService.getPropositions(skip, take);
+    return this.regionService.getPropositions(skip, take, regionId, filter);
   }
 
   /**
@@ -60,12 +121,21 @@ export class RegionResolver {
   async proposition(
     @Args({ name: 'id', type: () => ID }) id: string,
   ): Promise<PropositionModel | null> {
-    const result = await this.regionService.getProposition(id);
-    if (!result) return null;
-    return {
-      ...result,
-      status: result.status as PropositionStatusGQL,
-    };
+    return this.regionService.getProposition(id);
+  }
+
+  /**
+   * Get a proposition's revision history, most recent first
+   *
+   * Each revision lists the fields a sync changed, with a line-level diff
+   * of every changed field.
+   */
+  @Query(() => [PropositionRevisionModel])
+  @Extensions({ complexity: 15 }) // Diffs every revision of the text
+  async propositionRevisions(
+    @Args({ name: 'id', type: () => ID }) id: string,
+  ): Promise<PropositionRevisionModel[]> {
+    return this.regionService.getPropositionRevisions(id);
   }
 
   /**
@@ -76,8 +146,11 @@ export class RegionResolver {
   async meetings(
     @Args({ name: 'skip', type: () => Int, defaultValue: 0 }) skip: number,
     @Args({ name: 'take', type: () => Int, defaultValue: 10 }) take: number,
+    @Args({ name: 'regionId', nullable: true }) regionId?: string,
+    @Args({ name: 'filter', type: () => MeetingFilterInput, nullable: true })
+    filter?: MeetingFilterInput,
   ): Promise<PaginatedMeetings> {
-    return this.regionService.getMeetings(skip, take);
+    return this.regionService.getMeetings(skip, take, regionId, filter);
   }
 
   /**
@@ -99,8 +172,9 @@ export class RegionResolver {
     @Args({ name: 'skip', type: () => Int, defaultValue: 0 }) skip: number,
     @Args({ name: 'take', type: () => Int, defaultValue: 10 }) take: number,
     @Args({ name: 'chamber', nullable: true }) chamber?: string,
+    @Args({ name: 'regionId', nullable: true }) regionId?: string,
   ): Promise<PaginatedRepresentatives> {
-    return this.regionService.getRepresentatives(skip, take, chamber);
+    return this.regionService.getRepresentatives(skip, take, chamber, regionId);
   }
 
   /**
@@ -114,16 +188,361 @@ export class RegionResolver {
   }
 
   /**
-   * Trigger a full data sync
-   * Note: In production, this should be protected with admin auth
+   * Get paginated elections
+   */
+  @Query(() => PaginatedElections)
+  @Extensions({ complexity: 15 }) // Paginated list query
+  async elections(
+    @Args({ name: 'skip', type: () => Int, defaultValue: 0 }) skip: number,
+    @Args({ name: 'take', type: () => Int, defaultValue: 10 }) take: number,
+    @Args({ name: 'regionId', nullable: true }) regionId?: string,
+    @Args({ name: 'filter', type: () => ElectionFilterInput, nullable: true })
+    filter?: ElectionFilterInput,
+  ): Promise<PaginatedElections> {
+    return this.regionService.getElections(skip, take, regionId, filter);
+  }
+
+  /**
+   * Get a single election by ID
+   */
+  @Query(() => ElectionModel, { nullable: true })
+  async election(
+    @Args({ name: 'id', type: () => ID }) id: string,
+  ): Promise<ElectionModel | null> {
+    return this.regionService.getElection(id);
+  }
+
+  /**
+   * Get voter deadlines, soonest first
+   *
+   * Starts from now unless from is given. Early-voting windows that are
+   * already open are included until they close.
+   */
+  @Query(() => [VoterDeadlineModel])
+  @Extensions({ complexity: 15 }) // Expands every matching election
+  async voterDeadlines(
+    @Args({ name: 'regionId', nullable: true }) regionId?: string,
+    @Args({ name: 'from', type: () => Date, nullable: true }) from?: Date,
+    @Args({ name: 'to', type: () => Date, nullable: true }) to?: Date,
+  ): Promise<VoterDeadlineModel[]> {
+    return this.regionService.getVoterDeadlines(regionId, from, to);
+  }
+
+  /**
+   * Get paginated bills
+   */
+  @Query(() => PaginatedBills)
+  @Extensions({ complexity: 15 }) // Paginated list query
+  async bills(
+    @Args({ name: 'skip', type: () => Int, defaultValue: 0 }) skip: number,
+    @Args({ name: 'take', type: () => Int, defaultValue: 10 }) take: number,
+    @Args({ name: 'regionId', nullable: true }) regionId?: string,
+    @Args({ name: 'filter', type: () => BillFilterInput, nullable: true })
+    filter?: BillFilterInput,
+  ): Promise<PaginatedBills> {
+    return this.regionService.getBills(skip, take, regionId, filter);
+  }
+
+  /**
+   * Get a single bill by ID, with its sponsors and status timeline
+   */
+  @Query(() => BillModel, { nullable: true })
+  async bill(
+    @Args({ name: 'id', type: () => ID }) id: string,
+  ): Promise<BillModel | null> {
+    return this.regionService.getBill(id);
+  }
+
+  /**
+   * Get the roll-call votes on a bill, oldest first
+   */
+  @Query(() => [VoteModel])
+  @Extensions({ complexity: 15 }) // Loads every roll call with member votes
+  async billVotes(
+    @Args({ name: 'id', type: () => ID }) id: string,
+  ): Promise<VoteModel[]> {
+    return this.regionService.getBillVotes(id);
+  }
+
+  /**
+   * Get a single roll-call vote by ID
+   */
+  @Query(() => VoteModel, { nullable: true })
+  async vote(
+    @Args({ name: 'id', type: () => ID }) id: string,
+  ): Promise<VoteModel | null> {
+    return this.regionService.getVote(id);
+  }
+
+  /**
+   * Get a representative's voting record, most recent first
+   */
+  @Query(() => PaginatedRepresentativeVotes, { nullable: true })
+  @Extensions({ complexity: 15 }) // Paginated list query
+  async representativeVotes(
+    @Args({ name: 'id', type: () => ID }) id: string,
+    @Args({ name: 'skip', type: () => Int, defaultValue: 0 }) skip: number,
+    @Args({ name: 'take', type: () => Int, defaultValue: 10 }) take: number,
+  ): Promise<PaginatedRepresentativeVotes | null> {
+    return this.regionService.getRepresentativeVotes(id, skip, take);
+  }
+
+  /**
+   * Get paginated races with their candidates
+   */
+  @Query(() => PaginatedRaces)
+  @Extensions({ complexity: 15 }) // Paginated list query
+  async races(
+    @Args({ name: 'skip', type: () => Int, defaultValue: 0 }) skip: number,
+    @Args({ name: 'take', type: () => Int, defaultValue: 10 }) take: number,
+    @Args({ name: 'regionId', nullable: true }) regionId?: string,
+    @Args({ name: 'filter', type: () => RaceFilterInput, nullable: true })
+    filter?: RaceFilterInput,
+  ): Promise<PaginatedRaces> {
+    return this.regionService.getRaces(skip, take, regionId, filter);
+  }
+
+  /**
+   * Get a single race by ID, with its candidates
+   */
+  @Query(() => RaceModel, { nullable: true })
+  async race(
+    @Args({ name: 'id', type: () => ID }) id: string,
+  ): Promise<RaceModel | null> {
+    return this.regionService.getRace(id);
+  }
+
+  /**
+   * Get the upcoming races on the current user's ballot
+   *
+   * Uses the primary address unless addressId is given. Each district race
+   * reports which of the address's districts it came from.
+   */
+  @Query(() => MyBallotModel, { nullable: true })
+  @Extensions({ complexity: 15 }) // Loads address, races and incumbents
+  async myBallot(
+    @Context() context: GqlContext,
+    @Args({ name: 'addressId', type: () => ID, nullable: true })
+    addressId?: string,
+    @Args({ name: 'regionId', nullable: true }) regionId?: string,
+  ): Promise<MyBallotModel | null> {
+    const user = getUserFromContext(context);
+    const result = await this.regionService.getBallotForAddress(
+      user.id,
+      addressId,
+      regionId,
+    );
+
+    if (!result && addressId) {
+      throw new UserInputError('Address not found');
+    }
+    return result;
+  }
+
+  /**
+   * Get the representatives serving the current user's address districts
+   *
+   * Uses the primary address unless addressId is given. Each match reports
+   * which of the address's districts it came from.
+   */
+  @Query(() => MyRepresentativesModel, { nullable: true })
+  @Extensions({ complexity: 15 }) // Loads address and candidate representatives
+  async myRepresentatives(
+    @Context() context: GqlContext,
+    @Args({ name: 'addressId', type: () => ID, nullable: true })
+    addressId?: string,
+    @Args({ name: 'regionId', nullable: true }) regionId?: string,
+  ): Promise<MyRepresentativesModel | null> {
+    const user = getUserFromContext(context);
+    const result = await this.regionService.getRepresentativesForAddress(
+      user.id,
+      addressId,
+      regionId,
+    );
+
+    if (!result && addressId) {
+      throw new UserInputError('Address not found');
+    }
+    return result;
+  }
+
+  /**
+   * Queue a full data sync of every region (or a single region)
+   *
+   * Returns the job right away; follow it with regionSyncProgress. A
+   * request that a queued or running job already covers returns that job.
+   */
+  @Mutation(() => SyncJobModel)
+  @Roles(Role.Admin)
+  @Extensions({ complexity: 100 }) // Starts a full data sync
+  async syncRegionData(
+    @Context() context: GqlContext,
+    @Args({ name: 'regionId', nullable: true }) regionId?: string,
+  ): Promise<SyncJobModel> {
+    if (regionId) {
+      try {
+        this.regionService.getRegionInfo(regionId);
+      } catch (error) {
+        throw this.toUserInputError(error);
+      }
+    }
+
+    const user = getUserFromContext(context);
+    return this.toSyncJobModel(this.syncJobs.enqueue(regionId, user.id));
+  }
+
+  /**
+   * Get a sync job's status and, once finished, its results
+   */
+  @Query(() => SyncJobModel)
+  @Roles(Role.Admin)
+  async regionSyncJob(
+    @Args({ name: 'jobId', type: () => ID }) jobId: string,
+  ): Promise<SyncJobModel> {
+    return this.toSyncJobModel(this.syncJobs.getJob(jobId));
+  }
+
+  /**
+   * Stream a sync job's progress until it finishes
+   *
+   * Events emitted before subscribing are replayed first.
+   */
+  @Subscription(() => SyncJobEventModel, {
+    resolve: (event: SyncJobEventModel) => event,
+  })
+  @Roles(Role.Admin)
+  regionSyncProgress(
+    @Args({ name: 'jobId', type: () => ID }) jobId: string,
+  ): AsyncIterator<SyncJobEventModel> {
+    // Fail the subscription right away for unknown jobs
+    this.syncJobs.getJob(jobId);
+    return this.syncJobs.watch(jobId) as AsyncGenerator<SyncJobEventModel>;
+  }
+
+  /**
+   * Preview what a sync would change without writing any civic records
+   *
+   * Returns, per data type, the records that would be created, updated
+   * (with field diffs) and retired. Each preview is recorded in the sync
+   * history; apply it with applyRegionSyncPreview once reviewed.
+   */
+  @Mutation(() => [SyncPreviewModel])
+  @Roles(Role.Admin)
+  @Extensions({ complexity: 100 }) // Fetches every data type from the provider
+  async previewRegionSync(
+    @Args({ name: 'regionId', nullable: true }) regionId?: string,
+    @Args({ name: 'dataType', type: () => CivicDataTypeGQL, nullable: true })
+    dataType?: CivicDataTypeGQL,
+  ): Promise<SyncPreviewModel[]> {
+    try {
+      return await this.regionService.previewSync(
+        regionId,
+        dataType as unknown as CivicDataType | undefined,
+      );
+    } catch (error) {
+      throw this.toUserInputError(error);
+    }
+  }
+
+  /**
+   * Apply a reviewed sync preview
+   *
+   * Writes the provider data the preview fetched, without fetching again.
+   */
+  @Mutation(() => SyncResultModel)
+  @Roles(Role.Admin)
+  @Extensions({ complexity: 100 }) // Writes a full data type sync
+  async applyRegionSyncPreview(
+    @Args({ name: 'runId', type: () => ID }) runId: string,
+  ): Promise<SyncResultModel> {
+    try {
+      const result = await this.regionService.applySyncPreview(runId);
+      return {
+        ...result,
+        dataType: result.dataType as unknown as CivicDataTypeGQL,
+      };
+    } catch (error) {
+      throw this.toUserInputError(error);
+    }
+  }
+
+  /**
+   * Get sync run history, most recent first
+   */
+  @Query(() => PaginatedSyncRuns)
+  @Roles(Role.Admin)
+  @Extensions({ complexity: 15 }) // Paginated list query
+  async regionSyncHistory(
+    @Args({ name: 'skip', type: () => Int, defaultValue: 0 }) skip: number,
+    @Args({ name: 'take', type: () => Int, defaultValue: 10 }) take: number,
+    @Args({ name: 'dataType', type: () => CivicDataTypeGQL, nullable: true })
+    dataType?: CivicDataTypeGQL,
+    @Args({ name: 'regionId', nullable: true }) regionId?: string,
+  ): Promise<PaginatedSyncRuns> {
+    return this.regionService.getSyncHistory(
+      skip,
+      take,
+      dataType as unknown as CivicDataType | undefined,
+      regionId,
+    );
+  }
+
+  /**
+   * Get records retired because their provider stopped returning them
+   */
+  @Query(() => PaginatedRetiredRecords)
+  @Roles(Role.Admin)
+  @Extensions({ complexity: 15 }) // Paginated list query
+  async retiredRegionRecords(
+    @Args({ name: 'dataType', type: () => CivicDataTypeGQL })
+    dataType: CivicDataTypeGQL,
+    @Args({ name: 'skip', type: () => Int, defaultValue: 0 }) skip: number,
+    @Args({ name: 'take', type: () => Int, defaultValue: 10 }) take: number,
+    @Args({ name: 'regionId', nullable: true }) regionId?: string,
+  ): Promise<PaginatedRetiredRecords> {
+    return this.regionService.getRetiredRecords(
+      dataType as unknown as CivicDataType,
+      skip,
+      take,
+      regionId,
+    );
+  }
+
+  /**
+   * Restore records retired by mistake
+   *
+   * Returns the number of records restored.
+   */
+  @Mutation(() => Int)
+  @Roles(Role.Admin)
+  async restoreRegionRecords(
+    @Args({ name: 'dataType', type: () => CivicDataTypeGQL })
+    dataType: CivicDataTypeGQL,
+    @Args({ name: 'ids', type: () => [ID] }) ids: string[],
+  ): Promise<number> {
+    return this.regionService.restoreRecords(
+      dataType as unknown as CivicDataType,
+      ids,
+    );
+  }
+
+  private toSyncJobModel(job: SyncJob): SyncJobModel {
+    return {
+      ...job,
+      results: job.results.map((r) => ({
+        ...r,
+        dataType: r.dataType as unknown as CivicDataTypeGQL,
+      })),
+    };
+  }
+
+  /**
+   * Surface unknown region IDs as client errors
    */
-  @Mutation(() => [SyncResultModel])
-  @Extensions({ complexity: 100 }) // Full data sync - expensive operation
-  async syncRegionData(): Promise<SyncResultModel[]> {
-    const results = await this.regionService.syncAll();
-    return results.map((r) => ({
-      ...r,
-      dataType: r.dataType as unknown as CivicDataTypeGQL,
-    }));
+  private toUserInputError(error: unknown): unknown {
+    if (error instanceof UnknownRegionError) {
+      return new UserInputError(error.message);
+    }
+    return error;
   }
 }
@@ -1,15 +1,23 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
 import { createMock } from '@golevelup/ts-jest';
+import { CronJob } from 'cron';
 
 import { RegionScheduler } from './region.scheduler';
 import { RegionDomainService } from './region.service';
+import { RegionSyncJobsService } from './region-sync-jobs.service';
 import { CivicDataType } from '@qckstrt/region-provider';
+import { SyncTrigger } from 'src/db/entities/region-sync-run.entity';
+import { CivicDataTypeGQL } from './models/region-info.model';
 
 describe('RegionScheduler', () => {
   let scheduler: RegionScheduler;
+  let syncJobs: RegionSyncJobsService;
   let regionService: jest.Mocked<RegionDomainService>;
   let configService: jest.Mocked<ConfigService>;
+  let schedulerRegistry: jest.Mocked<SchedulerRegistry>;
+  let config: Record<string, unknown>;
 
   const mockSyncResults = [
     {
@@ -17,6 +25,7 @@ describe('RegionScheduler', () => {
       itemsProcessed: 10,
       itemsCreated: 5,
       itemsUpdated: 5,
+      itemsRemoved: 0,
       errors: [],
       syncedAt: new Date(),
     },
@@ -25,6 +34,7 @@ describe('RegionScheduler', () => {
       itemsProcessed: 5,
       itemsCreated: 3,
       itemsUpdated: 2,
+      itemsRemoved: 0,
       errors: [],
       syncedAt: new Date(),
     },
@@ -33,38 +43,72 @@ describe('RegionScheduler', () => {
       itemsProcessed: 8,
       itemsCreated: 2,
       itemsUpdated: 6,
+      itemsRemoved: 0,
       errors: [],
       syncedAt: new Date(),
     },
   ];
 
-  beforeEach(async () => {
-    const mockRegionService = createMock<RegionDomainService>();
-    mockRegionService.syncAll.mockResolvedValue(mockSyncResults);
-
-    const mockConfigService = createMock<ConfigService>();
-    mockConfigService.get.mockImplementation((key: string) => {
-      if (key === 'region.syncEnabled') return true;
-      return undefined;
-    });
-
+  const createScheduler = async (): Promise<RegionScheduler> => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         RegionScheduler,
+        RegionSyncJobsService,
         {
           provide: RegionDomainService,
-          useValue: mockRegionService,
+          useValue: regionService,
         },
         {
           provide: ConfigService,
-          useValue: mockConfigService,
+          useValue: configService,
+        },
+        {
+          provide: SchedulerRegistry,
+          useValue: schedulerRegistry,
         },
       ],
     }).compile();
 
-    scheduler = module.get<RegionScheduler>(RegionScheduler);
-    regionService = module.get(RegionDomainService);
-    configService = module.get(ConfigService);
+    syncJobs = module.get(RegionSyncJobsService);
+    return module.get<RegionScheduler>(RegionScheduler);
+  };
+
+  beforeEach(async () => {
+    config = {
+      'region.syncEnabled': true,
+      'region.syncSchedule': '0 2 * * *',
+    };
+
+    regionService = createMock<RegionDomainService>();
+    regionService.syncAll.mockResolvedValue(mockSyncResults);
+    regionService.syncDataType.mockResolvedValue(mockSyncResults[0]);
+    regionService.getRegionIds.mockReturnValue(['test-region']);
+    regionService.getSupportedDataTypes.mockReturnValue([
+      CivicDataType.PROPOSITIONS,
+      CivicDataType.MEETINGS,
+      CivicDataType.REPRESENTATIVES,
+    ]);
+    regionService.getRegionInfo.mockReturnValue({
+      id: 'test-region',
+      name: 'Test Region',
+      description: 'A test region',
+      timezone: 'America/Los_Angeles',
+      supportedDataTypes: [CivicDataTypeGQL.PROPOSITIONS],
+    });
+
+    configService = createMock<ConfigService>();
+    configService.get.mockImplementation((key: string) => config[key]);
+
+    schedulerRegistry = createMock<SchedulerRegistry>();
+
+    scheduler = await createScheduler();
+  });
+
+  afterEach(() => {
+    // Stop any cron jobs started during the test
+    for (const [, job] of schedulerRegistry.addCronJob.mock.calls) {
+      (job as CronJob).stop();
+    }
   });
 
   it('should be defined', () => {
@@ -72,39 +116,105 @@ describe('RegionScheduler', () => {
   });
 
   describe('onModuleInit', () => {
-    it('should run initial sync when sync is enabled', async () => {
+    it('should run initial sync with the startup trigger when enabled', async () => {
       await scheduler.onModuleInit();
 
-      expect(regionService.syncAll).toHaveBeenCalled();
+      expect(regionService.syncAll).toHaveBeenCalledWith(
+        SyncTrigger.STARTUP,
+        undefined,
+        { onProgress: expect.any(Function) },
+      );
     });
 
-    it('should not run initial sync when sync is disabled', async () => {
-      configService.get.mockImplementation((key: string) => {
-        if (key === 'region.syncEnabled') return false;
-        return undefined;
-      });
+    it('should register one cron job per supported data type', async () => {
+      await scheduler.onModuleInit();
+
+      const names = schedulerRegistry.addCronJob.mock.calls.map(
+        ([name]) => name,
+      );
+      expect(names).toEqual([
+        'region-sync-test-region-propositions',
+        'region-sync-test-region-meetings',
+        'region-sync-test-region-representatives',
+      ]);
+    });
 
-      // Create a new scheduler with sync disabled
-      const module = await Test.createTestingModule({
-        providers: [
-          RegionScheduler,
-          {
-            provide: RegionDomainService,
-            useValue: regionService,
-          },
-          {
-            provide: ConfigService,
-            useValue: configService,
-          },
-        ],
-      }).compile();
-
-      const disabledScheduler = module.get<RegionScheduler>(RegionScheduler);
-      regionService.syncAll.mockClear();
+    it('should use per-data-type schedules when configured', async () => {
+      config['region.syncSchedules.meetings'] = '0 * * * *';
+      config['region.syncSchedules.representatives'] = '0 3 * * 0';
+
+      await scheduler.onModuleInit();
+
+      const jobs = new Map(
+        schedulerRegistry.addCronJob.mock.calls.map(([name, job]) => [
+          name,
+          job as CronJob,
+        ]),
+      );
+      expect(
+        jobs.get('region-sync-test-region-meetings')?.cronTime.source,
+      ).toBe('0 * * * *');
+      expect(
+        jobs.get('region-sync-test-region-representatives')?.cronTime.source,
+      ).toBe('0 3 * * 0');
+      expect(
+        jobs.get('region-sync-test-region-propositions')?.cronTime.source,
+      ).toBe('0 2 * * *');
+    });
+
+    it('should skip data types with an invalid schedule', async () => {
+      config['region.syncSchedules.meetings'] = 'not a cron expression';
+
+      await scheduler.onModuleInit();
+
+      const names = schedulerRegistry.addCronJob.mock.calls.map(
+        ([name]) => name,
+      );
+      expect(names).not.toContain('region-sync-test-region-meetings');
+      expect(names).toHaveLength(2);
+    });
+
+    it('should register jobs for every region in its own timezone', async () => {
+      regionService.getRegionIds.mockReturnValue(['test-region', 'county']);
+      regionService.getSupportedDataTypes.mockImplementation((regionId) =>
+        regionId === 'county'
+          ? [CivicDataType.MEETINGS]
+          : [CivicDataType.PROPOSITIONS],
+      );
+      regionService.getRegionInfo.mockImplementation((regionId) => ({
+        id: regionId ?? 'test-region',
+        name: 'Region',
+        description: 'A test region',
+        timezone:
+          regionId === 'county' ? 'America/Chicago' : 'America/Los_Angeles',
+        supportedDataTypes: [],
+      }));
+
+      await scheduler.onModuleInit();
+
+      const jobs = new Map(
+        schedulerRegistry.addCronJob.mock.calls.map(([name, job]) => [
+          name,
+          job as CronJob,
+        ]),
+      );
+      expect([...jobs.keys()]).toEqual([
+        'region-sync-test-region-propositions',
+        'region-sync-county-meetings',
+      ]);
+      expect(jobs.get('region-sync-county-meetings')?.cronTime.timeZone).toBe(
+        'America/Chicago',
+      );
+    });
+
+    it('should not register jobs or sync when sync is disabled', async () => {
+      config['region.syncEnabled'] = false;
+      const disabledScheduler = await createScheduler();
 
       await disabledScheduler.onModuleInit();
 
       expect(regionService.syncAll).not.toHaveBeenCalled();
+      expect(schedulerRegistry.addCronJob).not.toHaveBeenCalled();
     });
 
     it('should handle sync errors gracefully', async () => {
@@ -115,72 +225,106 @@ describe('RegionScheduler', () => {
     });
   });
 
+  describe('getSchedule', () => {
+    it('should fall back to the global schedule', () => {
+      expect(scheduler.getSchedule(CivicDataType.PROPOSITIONS)).toBe(
+        '0 2 * * *',
+      );
+    });
+
+    it('should default to daily at 2 AM when nothing is configured', () => {
+      config = {};
+
+      expect(scheduler.getSchedule(CivicDataType.MEETINGS)).toBe('0 02 * * *');
+    });
+  });
+
   describe('handleScheduledSync', () => {
-    it('should run sync when enabled', async () => {
-      await scheduler.handleScheduledSync();
+    it('should sync the data type with the scheduled trigger', async () => {
+      await scheduler.handleScheduledSync(CivicDataType.MEETINGS, 'county');
 
-      expect(regionService.syncAll).toHaveBeenCalled();
+      expect(regionService.syncDataType).toHaveBeenCalledWith(
+        CivicDataType.MEETINGS,
+        SyncTrigger.SCHEDULED,
+        'county',
+        { onProgress: expect.any(Function) },
+      );
     });
 
-    it('should not run sync when disabled', async () => {
-      configService.get.mockImplementation((key: string) => {
-        if (key === 'region.syncEnabled') return false;
-        return undefined;
-      });
+    it('should wait for a running manual sync before syncing', async () => {
+      let release!: () => void;
+      regionService.syncAll.mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            release = () => resolve(mockSyncResults);
+          }),
+      );
+      syncJobs.enqueue('test-region', 'admin-1');
 
-      const module = await Test.createTestingModule({
-        providers: [
-          RegionScheduler,
-          {
-            provide: RegionDomainService,
-            useValue: regionService,
-          },
-          {
-            provide: ConfigService,
-            useValue: configService,
-          },
-        ],
-      }).compile();
-
-      const disabledScheduler = module.get<RegionScheduler>(RegionScheduler);
-      regionService.syncAll.mockClear();
-
-      await disabledScheduler.handleScheduledSync();
+      const scheduled = scheduler.handleScheduledSync(
+        CivicDataType.MEETINGS,
+        'county',
+      );
+      await new Promise((resolve) => setImmediate(resolve));
 
-      expect(regionService.syncAll).not.toHaveBeenCalled();
+      expect(regionService.syncDataType).not.toHaveBeenCalled();
+
+      release();
+      await scheduled;
+
+      expect(regionService.syncDataType).toHaveBeenCalledTimes(1);
     });
 
-    it('should handle sync errors gracefully', async () => {
-      regionService.syncAll.mockRejectedValue(new Error('Network error'));
+    it('should join a manual sync that covers the data type', async () => {
+      let release!: () => void;
+      regionService.syncAll.mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            release = () => resolve(mockSyncResults);
+          }),
+      );
+      syncJobs.enqueue('county', 'admin-1');
 
-      // Should not throw
-      await expect(scheduler.handleScheduledSync()).resolves.not.toThrow();
+      const scheduled = scheduler.handleScheduledSync(
+        CivicDataType.MEETINGS,
+        'county',
+      );
+      release();
+      await scheduled;
+
+      expect(regionService.syncAll).toHaveBeenCalledTimes(1);
+      expect(regionService.syncDataType).not.toHaveBeenCalled();
     });
 
-    it('should log sync results', async () => {
-      await scheduler.handleScheduledSync();
+    it('should not run sync when disabled', async () => {
+      config['region.syncEnabled'] = false;
+      const disabledScheduler = await createScheduler();
 
-      expect(regionService.syncAll).toHaveBeenCalled();
+      await disabledScheduler.handleScheduledSync(CivicDataType.MEETINGS);
+
+      expect(regionService.syncDataType).not.toHaveBeenCalled();
     });
-  });
 
-  describe('sync with errors', () => {
-    it('should log warnings when sync has errors', async () => {
-      const resultsWithErrors = [
-        {
-          dataType: CivicDataType.PROPOSITIONS,
-          itemsProcessed: 10,
-          itemsCreated: 5,
-          itemsUpdated: 5,
-          errors: ['Failed to parse item'],
-          syncedAt: new Date(),
-        },
-      ];
-      regionService.syncAll.mockResolvedValue(resultsWithErrors);
+    it('should handle sync errors gracefully', async () => {
+      regionService.syncDataType.mockRejectedValue(new Error('Network error'));
+
+      // Should not throw
+      await expect(
+        scheduler.handleScheduledSync(CivicDataType.PROPOSITIONS),
+      ).resolves.not.toThrow();
+    });
+
+    it('should not throw when sync has errors', async () => {
+      regionService.syncDataType.mockResolvedValue({
+        ...mockSyncResults[0],
+        errors: ['Failed to parse item'],
+      });
 
       // Should not throw, just log warnings
-      await expect(scheduler.handleScheduledSync()).resolves.not.toThrow();
-      expect(regionService.syncAll).toHaveBeenCalled();
+      await expect(
+        scheduler.handleScheduledSync(CivicDataType.PROPOSITIONS),
+      ).resolves.not.toThrow();
+      expect(regionService.syncDataType).toHaveBeenCalled();
     });
   });
 });
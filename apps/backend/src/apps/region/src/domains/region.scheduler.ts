@@ -1,13 +1,28 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
-import { Cron, CronExpression } from '@nestjs/schedule';
+import { CronExpression, SchedulerRegistry } from '@nestjs/schedule';
 import { ConfigService } from '@nestjs/config';
+import { CronJob } from 'cron';
+import { CivicDataType, SyncResult } from '@qckstrt/region-provider';
+import { SyncTrigger } from 'src/db/entities/region-sync-run.entity';
 import { RegionDomainService } from './region.service';
+import {
+  RegionSyncJobsService,
+  SyncJobOptions,
+  SyncJobStatus,
+} from './region-sync-jobs.service';
 
 /**
  * Region Scheduler
  *
  * Handles scheduled sync of region data.
- * Runs daily at 2 AM by default (configurable via REGION_SYNC_SCHEDULE).
+ * Registers one cron job per region and supported data type so each can run
+ * on its own schedule (REGION_SYNC_SCHEDULE_<DATA_TYPE>, falling back to
+ * REGION_SYNC_SCHEDULE, daily at 2 AM by default). Jobs run in their region's
+ * timezone, so regions sync independently of one another.
+ *
+ * Syncs are queued with RegionSyncJobsService, like manual syncs, so a
+ * scheduled sync never runs alongside another sync of the same region and
+ * data type.
  */
 @Injectable()
 export class RegionScheduler implements OnModuleInit {
@@ -18,13 +33,15 @@ export class RegionScheduler implements OnModuleInit {
 
   constructor(
     private readonly regionService: RegionDomainService,
+    private readonly syncJobs: RegionSyncJobsService,
     private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
   ) {
     this.syncEnabled = this.configService.get('region.syncEnabled') !== false;
   }
 
   /**
-   * Run initial sync on module initialization
+   * Register sync jobs and run initial sync on module initialization
    */
   async onModuleInit() {
     if (!this.syncEnabled) {
@@ -32,54 +49,119 @@ export class RegionScheduler implements OnModuleInit {
       return;
     }
 
+    this.registerSyncJobs();
+
     this.logger.log('Running initial data sync on startup');
     try {
-      await this.syncData();
+      await this.runSyncJob(undefined, { trigger: SyncTrigger.STARTUP });
     } catch (error) {
       this.logger.error('Initial sync failed:', error);
     }
   }
 
   /**
-   * Scheduled sync - runs every day at 2 AM
-   *
-   * Note: For custom schedules, implement dynamic cron using ConfigService
-   * and SchedulerRegistry. The @Cron decorator requires static values.
+   * Scheduled sync of a single data type in one region
    */
-  @Cron(CronExpression.EVERY_DAY_AT_2AM)
-  async handleScheduledSync() {
+  async handleScheduledSync(dataType: CivicDataType, regionId?: string) {
     if (!this.syncEnabled) {
       return;
     }
 
-    this.logger.log('Running scheduled data sync');
-    await this.syncData();
+    const label = regionId ? `${regionId}/${dataType}` : dataType;
+    this.logger.log(`Running scheduled ${label} sync`);
+    try {
+      await this.runSyncJob(regionId, {
+        dataType,
+        trigger: SyncTrigger.SCHEDULED,
+      });
+    } catch (error) {
+      this.logger.error(`Scheduled ${label} sync failed:`, error);
+    }
   }
 
   /**
-   * Perform the actual sync
+   * Get the cron expression for a data type
    */
-  private async syncData() {
-    try {
-      const results = await this.regionService.syncAll();
+  getSchedule(dataType: CivicDataType): string {
+    return (
+      this.configService.get<string>(`region.syncSchedules.${dataType}`) ||
+      this.configService.get<string>('region.syncSchedule') ||
+      CronExpression.EVERY_DAY_AT_2AM
+    );
+  }
 
-      const summary = results
-        .map(
-          (r) =>
-            `${r.dataType}: ${r.itemsProcessed} processed (${r.itemsCreated} new, ${r.itemsUpdated} updated)`,
-        )
-        .join(', ');
+  /**
+   * Register a cron job in the SchedulerRegistry for each region's supported
+   * data types
+   *
+   * An invalid expression for one data type is logged and skipped so the
+   * remaining data types still sync.
+   */
+  private registerSyncJobs() {
+    for (const regionId of this.regionService.getRegionIds()) {
+      const { timezone } = this.regionService.getRegionInfo(regionId);
 
-      this.logger.log(`Sync complete: ${summary}`);
+      for (const dataType of this.regionService.getSupportedDataTypes(
+        regionId,
+      )) {
+        const name = `region-sync-${regionId}-${dataType}`;
+        const schedule = this.getSchedule(dataType);
 
-      const errors = results.flatMap((r) => r.errors);
-      if (errors.length > 0) {
-        this.logger.warn(
-          `Sync had ${errors.length} errors: ${errors.join(', ')}`,
-        );
+        try {
+          const job = CronJob.from({
+            cronTime: schedule,
+            onTick: () => this.handleScheduledSync(dataType, regionId),
+            timeZone: timezone,
+          });
+          this.schedulerRegistry.addCronJob(name, job);
+          job.start();
+          this.logger.log(
+            `Scheduled ${regionId}/${dataType} sync with "${schedule}" (${timezone})`,
+          );
+        } catch (error) {
+          this.logger.error(
+            `Failed to schedule ${regionId}/${dataType} sync with "${schedule}": ${(error as Error).message}`,
+          );
+        }
       }
-    } catch (error) {
-      this.logger.error('Scheduled sync failed:', error);
+    }
+  }
+
+  /**
+   * Queue a sync and log its results once it finished
+   *
+   * @throws Error if the sync job failed
+   */
+  private async runSyncJob(
+    regionId: string | undefined,
+    options: SyncJobOptions,
+  ): Promise<void> {
+    const queued = this.syncJobs.enqueue(regionId, undefined, options);
+    const job = await this.syncJobs.finished(queued.id);
+    if (job.status === SyncJobStatus.FAILED) {
+      throw new Error(job.error);
+    }
+    this.logResults(job.results);
+  }
+
+  /**
+   * Log a summary of sync results
+   */
+  private logResults(results: SyncResult[]) {
+    const summary = results
+      .map(
+        (r) =>
+          `${r.regionId ? `${r.regionId}/` : ''}${r.dataType}: ${r.itemsProcessed} processed (${r.itemsCreated} new, ${r.itemsUpdated} updated, ${r.itemsRemoved} removed)`,
+      )
+      .join(', ');
+
+    this.logger.log(`Sync complete: ${summary}`);
+
+    const errors = results.flatMap((r) => r.errors);
+    if (errors.length > 0) {
+      this.logger.warn(
+        `Sync had ${errors.length} errors: ${errors.join(', ')}`,
+      );
     }
   }
 }
@@ -1,18 +1,49 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
-import { Repository, SelectQueryBuilder } from 'typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { In, Repository, SelectQueryBuilder } from 'typeorm';
 import { createMock } from '@golevelup/ts-jest';
 
-import { RegionDomainService } from './region.service';
+import { RegionDomainService, SyncProgressStage } from './region.service';
 import { PropositionEntity } from 'src/db/entities/proposition.entity';
+import { PropositionRevisionEntity } from 'src/db/entities/proposition-revision.entity';
 import { MeetingEntity } from 'src/db/entities/meeting.entity';
 import { RepresentativeEntity } from 'src/db/entities/representative.entity';
+import { ElectionEntity } from 'src/db/entities/election.entity';
+import { BillEntity } from 'src/db/entities/bill.entity';
+import { VoteEntity } from 'src/db/entities/vote.entity';
+import { RaceEntity } from 'src/db/entities/race.entity';
+import { UserAddressEntity } from 'src/db/entities/user-address.entity';
 import {
+  RegionSyncRunEntity,
+  SyncRunStatus,
+  SyncTrigger,
+} from 'src/db/entities/region-sync-run.entity';
+import {
+  RegionRegistry,
   RegionService as RegionProviderService,
   CivicDataType,
   PropositionStatus,
   Proposition,
+  PropositionArgument,
+  PropositionPosition,
+  Endorsement,
+  VoteThreshold,
+  BillStatus,
+  VoteOption,
+  UnknownRegionError,
 } from '@qckstrt/region-provider';
+import { DistrictTypeGQL } from './models/my-representatives.model';
+import {
+  PropositionPositionGQL,
+  PropositionStatusGQL,
+  VoteThresholdGQL,
+} from './models/proposition.model';
+import { PropositionSortField } from './dto/region-filters.dto';
+import { DiffOperationGQL } from './models/proposition-revision.model';
+import { VoterDeadlineType } from './models/election.model';
+import { VoteOptionGQL } from './models/vote.model';
 
 /**
  * Tests for Region Domain Service
@@ -24,8 +55,16 @@ describe('RegionDomainService', () => {
   let service: RegionDomainService;
   let regionProviderService: jest.Mocked<RegionProviderService>;
   let propositionRepo: jest.Mocked<Repository<PropositionEntity>>;
+  let revisionRepo: jest.Mocked<Repository<PropositionRevisionEntity>>;
   let meetingRepo: jest.Mocked<Repository<MeetingEntity>>;
   let representativeRepo: jest.Mocked<Repository<RepresentativeEntity>>;
+  let electionRepo: jest.Mocked<Repository<ElectionEntity>>;
+  let billRepo: jest.Mocked<Repository<BillEntity>>;
+  let voteRepo: jest.Mocked<Repository<VoteEntity>>;
+  let raceRepo: jest.Mocked<Repository<RaceEntity>>;
+  let syncRunRepo: jest.Mocked<Repository<RegionSyncRunEntity>>;
+  let addressRepo: jest.Mocked<Repository<UserAddressEntity>>;
+  let mockConfigService: jest.Mocked<ConfigService>;
 
   const mockRegionInfo = {
     id: 'test-region',
@@ -44,6 +83,8 @@ describe('RegionDomainService', () => {
       status: 'pending',
       electionDate: new Date('2024-11-05'),
       sourceUrl: 'https://example.com/prop-1',
+      arguments: [] as PropositionArgument[],
+      endorsements: [] as Endorsement[],
     },
   ];
 
@@ -71,6 +112,74 @@ describe('RegionDomainService', () => {
     },
   ];
 
+  const mockElections = [
+    {
+      externalId: 'election-1',
+      name: 'General Election',
+      electionDate: new Date('2024-11-05T20:00:00Z'),
+      registrationDeadline: new Date('2024-10-21T23:59:59Z'),
+    },
+  ];
+
+  const mockBills = [
+    {
+      externalId: 'bill-1',
+      number: 'AB 1',
+      title: 'Housing Act',
+      status: BillStatus.IN_COMMITTEE,
+      sponsors: [
+        { name: 'John Doe', representativeExternalId: 'rep-1', primary: true },
+      ],
+      actions: [
+        {
+          date: new Date('2024-01-08'),
+          description: 'Introduced',
+          status: BillStatus.INTRODUCED,
+        },
+        {
+          date: new Date('2024-02-12'),
+          description: 'Referred to Committee on Housing',
+          status: BillStatus.IN_COMMITTEE,
+        },
+      ],
+    },
+  ];
+
+  const mockVotes = [
+    {
+      externalId: 'vote-1',
+      billExternalId: 'bill-1',
+      motion: 'Third Reading',
+      chamber: 'Senate',
+      votedAt: new Date('2024-04-15T18:00:00Z'),
+      passed: true,
+      memberVotes: [
+        {
+          name: 'John Doe',
+          representativeExternalId: 'rep-1',
+          option: VoteOption.YES,
+        },
+      ],
+    },
+  ];
+
+  const mockRaces = [
+    {
+      externalId: 'race-1',
+      office: 'State Senate, District 1',
+      chamber: 'Senate',
+      district: 'District 1',
+      electionDate: new Date('2099-11-05'),
+      candidates: [
+        {
+          name: 'John Doe',
+          incumbent: true,
+          representativeExternalId: 'rep-1',
+        },
+      ],
+    },
+  ];
+
   beforeEach(async () => {
     const mockRegionProvider = {
       getProviderName: jest.fn().mockReturnValue('test-provider'),
@@ -81,10 +190,15 @@ describe('RegionDomainService', () => {
           CivicDataType.PROPOSITIONS,
           CivicDataType.MEETINGS,
           CivicDataType.REPRESENTATIVES,
+          CivicDataType.ELECTIONS,
         ]),
       fetchPropositions: jest.fn().mockResolvedValue(mockPropositions),
       fetchMeetings: jest.fn().mockResolvedValue(mockMeetings),
       fetchRepresentatives: jest.fn().mockResolvedValue(mockRepresentatives),
+      fetchElections: jest.fn().mockResolvedValue(mockElections),
+      fetchBills: jest.fn().mockResolvedValue(mockBills),
+      fetchVotes: jest.fn().mockResolvedValue(mockVotes),
+      fetchRaces: jest.fn().mockResolvedValue(mockRaces),
     };
 
     // Create mock query builders for bulk upsert operations
@@ -93,6 +207,7 @@ describe('RegionDomainService', () => {
     ) => {
       const qb = createMock<SelectQueryBuilder<T>>();
       qb.select.mockReturnThis();
+      qb.withDeleted.mockReturnThis();
       qb.where.mockReturnThis();
       qb.orderBy.mockReturnThis();
       qb.addOrderBy.mockReturnThis();
@@ -105,7 +220,10 @@ describe('RegionDomainService', () => {
 
     const mockPropositionRepo = {
       findOne: jest.fn(),
+      find: jest.fn().mockResolvedValue([]),
       findAndCount: jest.fn(),
+      softDelete: jest.fn().mockResolvedValue({ affected: 0 }),
+      restore: jest.fn().mockResolvedValue({ affected: 0 }),
       upsert: jest
         .fn()
         .mockResolvedValue({ identifiers: [], generatedMaps: [] }),
@@ -114,9 +232,17 @@ describe('RegionDomainService', () => {
       ),
     };
 
+    const mockRevisionRepo = {
+      find: jest.fn(),
+      insert: jest.fn().mockResolvedValue({ identifiers: [] }),
+    };
+
     const mockMeetingRepo = {
       findOne: jest.fn(),
+      find: jest.fn().mockResolvedValue([]),
       findAndCount: jest.fn(),
+      softDelete: jest.fn().mockResolvedValue({ affected: 0 }),
+      restore: jest.fn().mockResolvedValue({ affected: 0 }),
       upsert: jest
         .fn()
         .mockResolvedValue({ identifiers: [], generatedMaps: [] }),
@@ -127,7 +253,10 @@ describe('RegionDomainService', () => {
 
     const mockRepresentativeRepo = {
       findOne: jest.fn(),
+      find: jest.fn().mockResolvedValue([]),
       findAndCount: jest.fn(),
+      softDelete: jest.fn().mockResolvedValue({ affected: 0 }),
+      restore: jest.fn().mockResolvedValue({ affected: 0 }),
       upsert: jest
         .fn()
         .mockResolvedValue({ identifiers: [], generatedMaps: [] }),
@@ -136,6 +265,70 @@ describe('RegionDomainService', () => {
       ),
     };
 
+    const mockElectionRepo = {
+      findOne: jest.fn(),
+      find: jest.fn().mockResolvedValue([]),
+      softDelete: jest.fn().mockResolvedValue({ affected: 0 }),
+      restore: jest.fn().mockResolvedValue({ affected: 0 }),
+      upsert: jest
+        .fn()
+        .mockResolvedValue({ identifiers: [], generatedMaps: [] }),
+      createQueryBuilder: jest.fn(() =>
+        createMockQueryBuilder<ElectionEntity>(),
+      ),
+    };
+
+    const mockBillRepo = {
+      findOne: jest.fn(),
+      find: jest.fn().mockResolvedValue([]),
+      softDelete: jest.fn().mockResolvedValue({ affected: 0 }),
+      restore: jest.fn().mockResolvedValue({ affected: 0 }),
+      upsert: jest
+        .fn()
+        .mockResolvedValue({ identifiers: [], generatedMaps: [] }),
+      createQueryBuilder: jest.fn(() => createMockQueryBuilder<BillEntity>()),
+    };
+
+    const mockVoteRepo = {
+      findOne: jest.fn(),
+      find: jest.fn().mockResolvedValue([]),
+      softDelete: jest.fn().mockResolvedValue({ affected: 0 }),
+      restore: jest.fn().mockResolvedValue({ affected: 0 }),
+      upsert: jest
+        .fn()
+        .mockResolvedValue({ identifiers: [], generatedMaps: [] }),
+      createQueryBuilder: jest.fn(() => createMockQueryBuilder<VoteEntity>()),
+    };
+
+    const mockRaceRepo = {
+      findOne: jest.fn(),
+      find: jest.fn().mockResolvedValue([]),
+      softDelete: jest.fn().mockResolvedValue({ affected: 0 }),
+      restore: jest.fn().mockResolvedValue({ affected: 0 }),
+      upsert: jest
+        .fn()
+        .mockResolvedValue({ identifiers: [], generatedMaps: [] }),
+      createQueryBuilder: jest.fn(() => createMockQueryBuilder<RaceEntity>()),
+    };
+
+    const mockSyncRunRepo = {
+      create: jest.fn((run) => run),
+      save: jest.fn((run) => Promise.resolve({ id: 'run-1', ...run })),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      findOne: jest.fn(),
+      findAndCount: jest.fn(),
+    };
+
+    const mockAddressRepo = {
+      findOne: jest.fn(),
+    };
+
+    mockConfigService = createMock<ConfigService>();
+    mockConfigService.get.mockImplementation(
+      (key: string, defaultValue?: unknown) =>
+        key === 'region.removalThreshold' ? 0.5 : defaultValue,
+    );
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         RegionDomainService,
@@ -143,10 +336,20 @@ describe('RegionDomainService', () => {
           provide: RegionProviderService,
           useValue: mockRegionProvider,
         },
+        {
+          provide: RegionRegistry,
+          useFactory: (provider: RegionProviderService) =>
+            new RegionRegistry([provider]),
+          inject: [RegionProviderService],
+        },
         {
           provide: getRepositoryToken(PropositionEntity),
           useValue: mockPropositionRepo,
         },
+        {
+          provide: getRepositoryToken(PropositionRevisionEntity),
+          useValue: mockRevisionRepo,
+        },
         {
           provide: getRepositoryToken(MeetingEntity),
           useValue: mockMeetingRepo,
@@ -155,14 +358,49 @@ describe('RegionDomainService', () => {
           provide: getRepositoryToken(RepresentativeEntity),
           useValue: mockRepresentativeRepo,
         },
+        {
+          provide: getRepositoryToken(ElectionEntity),
+          useValue: mockElectionRepo,
+        },
+        {
+          provide: getRepositoryToken(BillEntity),
+          useValue: mockBillRepo,
+        },
+        {
+          provide: getRepositoryToken(VoteEntity),
+          useValue: mockVoteRepo,
+        },
+        {
+          provide: getRepositoryToken(RaceEntity),
+          useValue: mockRaceRepo,
+        },
+        {
+          provide: getRepositoryToken(RegionSyncRunEntity),
+          useValue: mockSyncRunRepo,
+        },
+        {
+          provide: getRepositoryToken(UserAddressEntity),
+          useValue: mockAddressRepo,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
       ],
     }).compile();
 
     service = module.get<RegionDomainService>(RegionDomainService);
     regionProviderService = module.get(RegionProviderService);
     propositionRepo = module.get(getRepositoryToken(PropositionEntity));
+    revisionRepo = module.get(getRepositoryToken(PropositionRevisionEntity));
     meetingRepo = module.get(getRepositoryToken(MeetingEntity));
     representativeRepo = module.get(getRepositoryToken(RepresentativeEntity));
+    electionRepo = module.get(getRepositoryToken(ElectionEntity));
+    billRepo = module.get(getRepositoryToken(BillEntity));
+    voteRepo = module.get(getRepositoryToken(VoteEntity));
+    raceRepo = module.get(getRepositoryToken(RaceEntity));
+    syncRunRepo = module.get(getRepositoryToken(RegionSyncRunEntity));
+    addressRepo = module.get(getRepositoryToken(UserAddressEntity));
   });
 
   it('should be defined', () => {
@@ -177,7 +415,125 @@ describe('RegionDomainService', () => {
       expect(info.name).toBe('Test Region');
       expect(info.description).toBeDefined();
       expect(info.timezone).toBe('America/Los_Angeles');
-      expect(info.supportedDataTypes).toHaveLength(3);
+      expect(info.supportedDataTypes).toHaveLength(4);
+    });
+  });
+
+  describe('multiple regions', () => {
+    let multiRegionService: RegionDomainService;
+    let countyProvider: jest.Mocked<RegionProviderService>;
+
+    beforeEach(() => {
+      countyProvider = {
+        getProviderName: jest.fn().mockReturnValue('county-provider'),
+        getRegionInfo: jest.fn().mockReturnValue({
+          ...mockRegionInfo,
+          id: 'county',
+          name: 'County',
+          timezone: 'America/Chicago',
+          state: 'IL',
+        }),
+        getSupportedDataTypes: jest
+          .fn()
+          .mockReturnValue([CivicDataType.MEETINGS]),
+        fetchMeetings: jest.fn().mockResolvedValue(mockMeetings),
+      } as unknown as jest.Mocked<RegionProviderService>;
+
+      multiRegionService = new RegionDomainService(
+        new RegionRegistry([regionProviderService, countyProvider]),
+        propositionRepo,
+        revisionRepo,
+        meetingRepo,
+        representativeRepo,
+        electionRepo,
+        billRepo,
+        voteRepo,
+        raceRepo,
+        syncRunRepo,
+        addressRepo,
+        mockConfigService,
+      );
+    });
+
+    it('should list every configured region', () => {
+      expect(multiRegionService.getRegionIds()).toEqual([
+        'test-region',
+        'county',
+      ]);
+      expect(multiRegionService.getRegions().map((r) => r.id)).toEqual([
+        'test-region',
+        'county',
+      ]);
+      expect(multiRegionService.getRegionInfo('county').timezone).toBe(
+        'America/Chicago',
+      );
+    });
+
+    it("should find the regions in an address's state", () => {
+      expect(
+        multiRegionService.getRegionIdsForAddress({ state: 'il ' }),
+      ).toEqual(['county']);
+    });
+
+    it('should fall back to the default region for other states', () => {
+      expect(
+        multiRegionService.getRegionIdsForAddress({ state: 'NY' }),
+      ).toEqual(['test-region']);
+    });
+
+    it('should sync each region independently', async () => {
+      const results = await multiRegionService.syncAll();
+
+      expect(results.map((r) => `${r.regionId}/${r.dataType}`)).toEqual([
+        'test-region/propositions',
+        'test-region/meetings',
+        'test-region/representatives',
+        'test-region/elections',
+        'county/meetings',
+      ]);
+      expect(countyProvider.fetchMeetings).toHaveBeenCalledTimes(1);
+      expect(meetingRepo.upsert).toHaveBeenLastCalledWith(
+        [expect.objectContaining({ regionId: 'county' })],
+        expect.objectContaining({ conflictPaths: ['regionId', 'externalId'] }),
+      );
+    });
+
+    it('should keep syncing other regions when one fails', async () => {
+      countyProvider.fetchMeetings.mockRejectedValue(new Error('Timeout'));
+
+      const results = await multiRegionService.syncAll();
+
+      expect(results).toHaveLength(5);
+      expect(results[4]).toEqual(
+        expect.objectContaining({ regionId: 'county', errors: ['Timeout'] }),
+      );
+      expect(results[0].errors).toEqual([]);
+    });
+
+    it('should sync only the requested region', async () => {
+      const results = await multiRegionService.syncAll(
+        SyncTrigger.MANUAL,
+        'county',
+      );
+
+      expect(results).toHaveLength(1);
+      expect(regionProviderService.fetchPropositions).not.toHaveBeenCalled();
+      expect(syncRunRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({ regionId: 'county' }),
+      );
+    });
+
+    it('should reject unknown regions', async () => {
+      await expect(
+        multiRegionService.syncDataType(
+          CivicDataType.MEETINGS,
+          SyncTrigger.MANUAL,
+          'city',
+        ),
+      ).rejects.toThrow(UnknownRegionError);
+      expect(() => multiRegionService.getRegionInfo('city')).toThrow(
+        UnknownRegionError,
+      );
     });
   });
 
@@ -186,13 +542,15 @@ describe('RegionDomainService', () => {
       // All repos use bulk upsert, no existing records
       const results = await service.syncAll();
 
-      expect(results).toHaveLength(3);
+      expect(results).toHaveLength(4);
       expect(results[0].dataType).toBe(CivicDataType.PROPOSITIONS);
       expect(results[1].dataType).toBe(CivicDataType.MEETINGS);
       expect(results[2].dataType).toBe(CivicDataType.REPRESENTATIVES);
+      expect(results[3].dataType).toBe(CivicDataType.ELECTIONS);
       expect(propositionRepo.upsert).toHaveBeenCalled();
       expect(meetingRepo.upsert).toHaveBeenCalled();
       expect(representativeRepo.upsert).toHaveBeenCalled();
+      expect(electionRepo.upsert).toHaveBeenCalled();
     });
 
     it('should handle sync errors gracefully', async () => {
@@ -207,6 +565,197 @@ describe('RegionDomainService', () => {
     });
   });
 
+  describe('sync progress', () => {
+    it('should report each stage of a data type', async () => {
+      const onProgress = jest.fn();
+
+      const result = await service.syncDataType(
+        CivicDataType.PROPOSITIONS,
+        SyncTrigger.MANUAL,
+        undefined,
+        { onProgress },
+      );
+
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+        {
+          stage: SyncProgressStage.STARTED,
+          regionId: 'test-region',
+          dataType: CivicDataType.PROPOSITIONS,
+        },
+        {
+          stage: SyncProgressStage.ITEMS_PROCESSED,
+          regionId: 'test-region',
+          dataType: CivicDataType.PROPOSITIONS,
+          itemsProcessed: 1,
+        },
+        {
+          stage: SyncProgressStage.FINISHED,
+          regionId: 'test-region',
+          dataType: CivicDataType.PROPOSITIONS,
+          result,
+        },
+      ]);
+    });
+
+    it('should report an error instead of finishing a failed data type', async () => {
+      regionProviderService.fetchPropositions.mockRejectedValue(
+        new Error('Network error'),
+      );
+      const onProgress = jest.fn();
+
+      await service.syncAll(SyncTrigger.MANUAL, undefined, { onProgress });
+
+      const stages = onProgress.mock.calls
+        .map(([progress]) => progress)
+        .filter((progress) => progress.dataType === CivicDataType.PROPOSITIONS);
+      expect(stages).toEqual([
+        expect.objectContaining({ stage: SyncProgressStage.STARTED }),
+        expect.objectContaining({
+          stage: SyncProgressStage.ERROR,
+          error: 'Network error',
+        }),
+      ]);
+    });
+  });
+
+  describe('sync run history', () => {
+    it('should record a completed run with counts and trigger', async () => {
+      await service.syncDataType(
+        CivicDataType.PROPOSITIONS,
+        SyncTrigger.SCHEDULED,
+      );
+
+      expect(syncRunRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          regionId: 'test-region',
+          dataType: CivicDataType.PROPOSITIONS,
+          trigger: SyncTrigger.SCHEDULED,
+          status: SyncRunStatus.RUNNING,
+          startedAt: expect.any(Date),
+        }),
+      );
+      expect(syncRunRepo.update).toHaveBeenCalledWith(
+        'run-1',
+        expect.objectContaining({
+          status: SyncRunStatus.COMPLETED,
+          itemsProcessed: 1,
+          itemsCreated: 1,
+          itemsUpdated: 0,
+          itemsRemoved: 0,
+          errors: [],
+          completedAt: expect.any(Date),
+          durationMs: expect.any(Number),
+        }),
+      );
+    });
+
+    it('should default the trigger to manual', async () => {
+      await service.syncDataType(CivicDataType.MEETINGS);
+
+      expect(syncRunRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({ trigger: SyncTrigger.MANUAL }),
+      );
+    });
+
+    it('should pass the trigger through syncAll', async () => {
+      await service.syncAll(SyncTrigger.STARTUP);
+
+      expect(syncRunRepo.save).toHaveBeenCalledTimes(4);
+      for (const [run] of syncRunRepo.save.mock.calls) {
+        expect(run).toEqual(
+          expect.objectContaining({ trigger: SyncTrigger.STARTUP }),
+        );
+      }
+    });
+
+    it('should record a failed run with the error', async () => {
+      regionProviderService.fetchPropositions.mockRejectedValue(
+        new Error('Network error'),
+      );
+
+      await expect(
+        service.syncDataType(CivicDataType.PROPOSITIONS),
+      ).rejects.toThrow('Network error');
+
+      expect(syncRunRepo.update).toHaveBeenCalledWith(
+        'run-1',
+        expect.objectContaining({
+          status: SyncRunStatus.FAILED,
+          errors: ['Network error'],
+        }),
+      );
+    });
+
+    it('should still sync when history cannot be written', async () => {
+      syncRunRepo.save.mockRejectedValue(new Error('DB unavailable'));
+
+      const result = await service.syncDataType(CivicDataType.PROPOSITIONS);
+
+      expect(result.itemsProcessed).toBe(1);
+      expect(syncRunRepo.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSyncHistory', () => {
+    it('should return paginated runs, most recent first', async () => {
+      const runs = Array.from({ length: 3 }, (_, i) => ({
+        id: `run-${i}`,
+        regionId: 'test-region',
+        dataType: 'propositions',
+        trigger: SyncTrigger.SCHEDULED,
+        status: SyncRunStatus.COMPLETED,
+        startedAt: new Date(),
+        itemsProcessed: 1,
+        itemsCreated: 0,
+        itemsUpdated: 1,
+        itemsRemoved: 0,
+        errors: [],
+        dryRun: false,
+        createdAt: new Date(),
+      }));
+      syncRunRepo.findAndCount.mockResolvedValue([
+        runs as RegionSyncRunEntity[],
+        5,
+      ]);
+
+      const result = await service.getSyncHistory(0, 2);
+
+      expect(result.items).toHaveLength(2);
+      expect(result.total).toBe(5);
+      expect(result.hasMore).toBe(true);
+      expect(syncRunRepo.findAndCount).toHaveBeenCalledWith({
+        where: {},
+        order: { startedAt: 'DESC' },
+        skip: 0,
+        take: 3,
+      });
+    });
+
+    it('should filter by data type when provided', async () => {
+      syncRunRepo.findAndCount.mockResolvedValue([[], 0]);
+
+      await service.getSyncHistory(0, 10, CivicDataType.MEETINGS);
+
+      expect(syncRunRepo.findAndCount).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { dataType: CivicDataType.MEETINGS },
+        }),
+      );
+    });
+
+    it('should filter by region when provided', async () => {
+      syncRunRepo.findAndCount.mockResolvedValue([[], 0]);
+
+      await service.getSyncHistory(0, 10, undefined, 'test-region');
+
+      expect(syncRunRepo.findAndCount).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { regionId: 'test-region' },
+        }),
+      );
+    });
+  });
+
   describe('syncDataType - PROPOSITIONS', () => {
     it('should create new propositions using bulk upsert', async () => {
       // No existing records - createQueryBuilder returns empty array
@@ -215,23 +764,42 @@ describe('RegionDomainService', () => {
       expect(result.itemsCreated).toBe(1);
       expect(result.itemsUpdated).toBe(0);
       expect(result.itemsProcessed).toBe(1);
+      expect(result.regionId).toBe('test-region');
       expect(propositionRepo.upsert).toHaveBeenCalledWith(
         expect.arrayContaining([
           expect.objectContaining({
+            regionId: 'test-region',
             externalId: 'prop-1',
             title: 'Test Proposition 1',
           }),
         ]),
         expect.objectContaining({
-          conflictPaths: ['externalId'],
+          conflictPaths: ['regionId', 'externalId'],
         }),
       );
     });
 
+    it('should match existing propositions within the region', async () => {
+      const existingQb = createMock<SelectQueryBuilder<PropositionEntity>>();
+      existingQb.select.mockReturnThis();
+      existingQb.withDeleted.mockReturnThis();
+      existingQb.where.mockReturnThis();
+      existingQb.getMany.mockResolvedValue([]);
+      propositionRepo.createQueryBuilder.mockReturnValue(existingQb);
+
+      await service.syncDataType(CivicDataType.PROPOSITIONS);
+
+      expect(existingQb.where).toHaveBeenCalledWith(
+        'p.regionId = :regionId AND p.externalId IN (:...externalIds)',
+        { regionId: 'test-region', externalIds: ['prop-1'] },
+      );
+    });
+
     it('should update existing propositions using bulk upsert', async () => {
       // Mock existing record found
       const existingQb = createMock<SelectQueryBuilder<PropositionEntity>>();
       existingQb.select.mockReturnThis();
+      existingQb.withDeleted.mockReturnThis();
       existingQb.where.mockReturnThis();
       existingQb.getMany.mockResolvedValue([
         { externalId: 'prop-1' } as PropositionEntity,
@@ -245,39 +813,141 @@ describe('RegionDomainService', () => {
       expect(propositionRepo.upsert).toHaveBeenCalled();
     });
 
-    it('should handle empty propositions list', async () => {
-      regionProviderService.fetchPropositions.mockResolvedValue([]);
-
-      const result = await service.syncDataType(CivicDataType.PROPOSITIONS);
-
-      expect(result.itemsProcessed).toBe(0);
-      expect(result.itemsCreated).toBe(0);
-      expect(result.itemsUpdated).toBe(0);
-      expect(propositionRepo.upsert).not.toHaveBeenCalled();
-    });
-  });
+    it('should record a revision when a proposition changes', async () => {
+      const existingQb = createMock<SelectQueryBuilder<PropositionEntity>>();
+      existingQb.select.mockReturnThis();
+      existingQb.withDeleted.mockReturnThis();
+      existingQb.where.mockReturnThis();
+      existingQb.getMany.mockResolvedValue([
+        {
+          ...mockPropositions[0],
+          id: 'uuid-1',
+          summary: 'Old summary',
+          status: 'pending',
+        } as PropositionEntity,
+      ]);
+      propositionRepo.createQueryBuilder.mockReturnValue(existingQb);
 
-  describe('syncDataType - MEETINGS', () => {
-    it('should create new meetings using bulk upsert', async () => {
-      const result = await service.syncDataType(CivicDataType.MEETINGS);
+      await service.syncDataType(CivicDataType.PROPOSITIONS);
 
-      expect(result.itemsCreated).toBe(1);
-      expect(result.itemsUpdated).toBe(0);
-      expect(meetingRepo.upsert).toHaveBeenCalled();
+      expect(revisionRepo.insert).toHaveBeenCalledWith([
+        {
+          propositionId: 'uuid-1',
+          syncRunId: 'run-1',
+          changedFields: ['summary'],
+          previousValues: { summary: 'Old summary' },
+          newValues: { summary: 'Summary 1' },
+        },
+      ]);
     });
 
-    it('should update existing meetings using bulk upsert', async () => {
-      const existingQb = createMock<SelectQueryBuilder<MeetingEntity>>();
+    it('should record a revision when voter guide sections change', async () => {
+      const argument = {
+        position: PropositionPosition.FOR,
+        text: 'Vote yes',
+        rebuttal: 'Vote no',
+      };
+      regionProviderService.fetchPropositions.mockResolvedValue([
+        {
+          ...mockPropositions[0],
+          status: PropositionStatus.PENDING,
+          arguments: [argument],
+          voteThreshold: VoteThreshold.TWO_THIRDS,
+        },
+      ]);
+      const existingQb = createMock<SelectQueryBuilder<PropositionEntity>>();
       existingQb.select.mockReturnThis();
+      existingQb.withDeleted.mockReturnThis();
       existingQb.where.mockReturnThis();
       existingQb.getMany.mockResolvedValue([
-        { externalId: 'meeting-1' } as MeetingEntity,
+        {
+          ...mockPropositions[0],
+          id: 'uuid-1',
+          arguments: [{ ...argument, rebuttal: 'Old rebuttal' }],
+        } as PropositionEntity,
       ]);
-      meetingRepo.createQueryBuilder.mockReturnValue(existingQb);
+      propositionRepo.createQueryBuilder.mockReturnValue(existingQb);
 
-      const result = await service.syncDataType(CivicDataType.MEETINGS);
+      await service.syncDataType(CivicDataType.PROPOSITIONS);
 
-      expect(result.itemsUpdated).toBe(1);
+      expect(revisionRepo.insert).toHaveBeenCalledWith([
+        {
+          propositionId: 'uuid-1',
+          syncRunId: 'run-1',
+          changedFields: ['arguments', 'voteThreshold'],
+          previousValues: {
+            arguments:
+              '[{"position":"for","rebuttal":"Old rebuttal","text":"Vote yes"}]',
+            voteThreshold: null,
+          },
+          newValues: {
+            arguments:
+              '[{"position":"for","rebuttal":"Vote no","text":"Vote yes"}]',
+            voteThreshold: 'two_thirds',
+          },
+        },
+      ]);
+    });
+
+    it('should not record a revision when nothing changed', async () => {
+      const existingQb = createMock<SelectQueryBuilder<PropositionEntity>>();
+      existingQb.select.mockReturnThis();
+      existingQb.withDeleted.mockReturnThis();
+      existingQb.where.mockReturnThis();
+      existingQb.getMany.mockResolvedValue([
+        {
+          ...mockPropositions[0],
+          id: 'uuid-1',
+          electionDate: new Date('2024-11-05'),
+        } as PropositionEntity,
+      ]);
+      propositionRepo.createQueryBuilder.mockReturnValue(existingQb);
+
+      await service.syncDataType(CivicDataType.PROPOSITIONS);
+
+      expect(revisionRepo.insert).not.toHaveBeenCalled();
+    });
+
+    it('should not record revisions for new propositions', async () => {
+      await service.syncDataType(CivicDataType.PROPOSITIONS);
+
+      expect(revisionRepo.insert).not.toHaveBeenCalled();
+    });
+
+    it('should handle empty propositions list', async () => {
+      regionProviderService.fetchPropositions.mockResolvedValue([]);
+
+      const result = await service.syncDataType(CivicDataType.PROPOSITIONS);
+
+      expect(result.itemsProcessed).toBe(0);
+      expect(result.itemsCreated).toBe(0);
+      expect(result.itemsUpdated).toBe(0);
+      expect(propositionRepo.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncDataType - MEETINGS', () => {
+    it('should create new meetings using bulk upsert', async () => {
+      const result = await service.syncDataType(CivicDataType.MEETINGS);
+
+      expect(result.itemsCreated).toBe(1);
+      expect(result.itemsUpdated).toBe(0);
+      expect(meetingRepo.upsert).toHaveBeenCalled();
+    });
+
+    it('should update existing meetings using bulk upsert', async () => {
+      const existingQb = createMock<SelectQueryBuilder<MeetingEntity>>();
+      existingQb.select.mockReturnThis();
+      existingQb.withDeleted.mockReturnThis();
+      existingQb.where.mockReturnThis();
+      existingQb.getMany.mockResolvedValue([
+        { externalId: 'meeting-1' } as MeetingEntity,
+      ]);
+      meetingRepo.createQueryBuilder.mockReturnValue(existingQb);
+
+      const result = await service.syncDataType(CivicDataType.MEETINGS);
+
+      expect(result.itemsUpdated).toBe(1);
       expect(meetingRepo.upsert).toHaveBeenCalled();
     });
   });
@@ -293,6 +963,7 @@ describe('RegionDomainService', () => {
     it('should update existing representatives using bulk upsert', async () => {
       const existingQb = createMock<SelectQueryBuilder<RepresentativeEntity>>();
       existingQb.select.mockReturnThis();
+      existingQb.withDeleted.mockReturnThis();
       existingQb.where.mockReturnThis();
       existingQb.getMany.mockResolvedValue([
         { externalId: 'rep-1' } as RepresentativeEntity,
@@ -306,6 +977,646 @@ describe('RegionDomainService', () => {
     });
   });
 
+  describe('syncDataType - ELECTIONS', () => {
+    it('should create new elections using bulk upsert', async () => {
+      const result = await service.syncDataType(CivicDataType.ELECTIONS);
+
+      expect(result.itemsCreated).toBe(1);
+      expect(electionRepo.upsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            regionId: 'test-region',
+            externalId: 'election-1',
+            registrationDeadline: new Date('2024-10-21T23:59:59Z'),
+          }),
+        ],
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('syncDataType - BILLS', () => {
+    it('should create new bills with their sponsors and timeline', async () => {
+      const result = await service.syncDataType(CivicDataType.BILLS);
+
+      expect(result.itemsCreated).toBe(1);
+      expect(billRepo.upsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            externalId: 'bill-1',
+            number: 'AB 1',
+            sponsors: mockBills[0].sponsors,
+            actions: mockBills[0].actions,
+          }),
+        ],
+        expect.anything(),
+      );
+    });
+
+    it('should detect changes inside the status timeline', async () => {
+      const existingQb = createMock<SelectQueryBuilder<BillEntity>>();
+      existingQb.select.mockReturnThis();
+      existingQb.withDeleted.mockReturnThis();
+      existingQb.where.mockReturnThis();
+      existingQb.getMany.mockResolvedValue([
+        {
+          id: 'uuid-1',
+          externalId: 'bill-1',
+          number: 'AB 1',
+          title: 'Housing Act',
+          status: 'introduced',
+          sponsors: mockBills[0].sponsors,
+          // Stored JSON has string dates and its own key order
+          actions: [
+            {
+              status: 'introduced',
+              description: 'Introduced',
+              date: '2024-01-08T00:00:00.000Z',
+            },
+          ],
+        } as unknown as BillEntity,
+      ]);
+      billRepo.createQueryBuilder.mockReturnValue(existingQb);
+
+      const [preview] = await service.previewSync(
+        undefined,
+        CivicDataType.BILLS,
+      );
+
+      expect(preview.updated[0].changes.map((c) => c.field)).toEqual([
+        'status',
+        'actions',
+      ]);
+    });
+
+    it('should never retire bills or votes', async () => {
+      billRepo.find.mockResolvedValue([
+        { id: 'uuid-2', externalId: 'bill-old-session' },
+      ] as BillEntity[]);
+
+      const bills = await service.syncDataType(CivicDataType.BILLS);
+      const votes = await service.syncDataType(CivicDataType.VOTES);
+
+      expect(billRepo.find).not.toHaveBeenCalled();
+      expect(voteRepo.find).not.toHaveBeenCalled();
+      expect(bills.itemsRemoved).toBe(0);
+      expect(votes.itemsRemoved).toBe(0);
+      expect(voteRepo.upsert).toHaveBeenCalled();
+    });
+  });
+
+  describe('retiring missing records', () => {
+    it('should soft-delete records the provider no longer returns', async () => {
+      propositionRepo.find.mockResolvedValue([
+        { id: 'uuid-1', externalId: 'prop-1' },
+        { id: 'uuid-2', externalId: 'prop-withdrawn' },
+      ] as PropositionEntity[]);
+
+      const result = await service.syncDataType(CivicDataType.PROPOSITIONS);
+
+      expect(propositionRepo.find).toHaveBeenCalledWith({
+        select: { id: true, externalId: true, title: true },
+        where: { regionId: 'test-region' },
+      });
+      expect(propositionRepo.softDelete).toHaveBeenCalledWith(['uuid-2']);
+      expect(result.itemsRemoved).toBe(1);
+      expect(result.errors).toEqual([]);
+      expect(syncRunRepo.update).toHaveBeenCalledWith(
+        'run-1',
+        expect.objectContaining({ itemsRemoved: 1 }),
+      );
+    });
+
+    it('should not retire anything above the removal threshold', async () => {
+      representativeRepo.find.mockResolvedValue([
+        { id: 'uuid-1', externalId: 'rep-1' },
+        { id: 'uuid-2', externalId: 'rep-2' },
+        { id: 'uuid-3', externalId: 'rep-3' },
+      ] as RepresentativeEntity[]);
+
+      const result = await service.syncDataType(CivicDataType.REPRESENTATIVES);
+
+      expect(representativeRepo.softDelete).not.toHaveBeenCalled();
+      expect(result.itemsRemoved).toBe(0);
+      expect(result.errors).toEqual([
+        'Not retiring 2 of 3 representatives: exceeds removal threshold of 50%',
+      ]);
+    });
+
+    it('should not wipe a region when the provider returns nothing', async () => {
+      regionProviderService.fetchPropositions.mockResolvedValue([]);
+      propositionRepo.find.mockResolvedValue([
+        { id: 'uuid-1', externalId: 'prop-1' },
+      ] as PropositionEntity[]);
+
+      const result = await service.syncDataType(CivicDataType.PROPOSITIONS);
+
+      expect(propositionRepo.softDelete).not.toHaveBeenCalled();
+      expect(result.errors).toHaveLength(1);
+    });
+
+    it('should only consider upcoming races', async () => {
+      await service.syncDataType(CivicDataType.RACES);
+
+      expect(raceRepo.upsert).toHaveBeenCalled();
+      expect(raceRepo.find).toHaveBeenCalledWith({
+        select: { id: true, externalId: true, office: true },
+        where: {
+          regionId: 'test-region',
+          electionDate: expect.objectContaining({ _type: 'moreThanOrEqual' }),
+        },
+      });
+    });
+
+    it('should only consider upcoming meetings', async () => {
+      await service.syncDataType(CivicDataType.MEETINGS);
+
+      expect(meetingRepo.find).toHaveBeenCalledWith({
+        select: { id: true, externalId: true, title: true },
+        where: {
+          regionId: 'test-region',
+          scheduledAt: expect.objectContaining({ _type: 'moreThanOrEqual' }),
+        },
+      });
+    });
+
+    it('should only consider upcoming elections', async () => {
+      await service.syncDataType(CivicDataType.ELECTIONS);
+
+      expect(electionRepo.find).toHaveBeenCalledWith({
+        select: { id: true, externalId: true, name: true },
+        where: {
+          regionId: 'test-region',
+          electionDate: expect.objectContaining({ _type: 'moreThanOrEqual' }),
+        },
+      });
+    });
+
+    it('should restore retired records the provider returns again', async () => {
+      const existingQb = createMock<SelectQueryBuilder<MeetingEntity>>();
+      existingQb.select.mockReturnThis();
+      existingQb.withDeleted.mockReturnThis();
+      existingQb.where.mockReturnThis();
+      existingQb.getMany.mockResolvedValue([
+        {
+          id: 'uuid-1',
+          externalId: 'meeting-1',
+          deletedAt: new Date(),
+        } as MeetingEntity,
+      ]);
+      meetingRepo.createQueryBuilder.mockReturnValue(existingQb);
+
+      const result = await service.syncDataType(CivicDataType.MEETINGS);
+
+      expect(meetingRepo.restore).toHaveBeenCalledWith(['uuid-1']);
+      expect(result.itemsUpdated).toBe(1);
+    });
+  });
+
+  describe('validating provider output', () => {
+    it('should skip invalid items and upsert the rest', async () => {
+      regionProviderService.fetchMeetings.mockResolvedValue([
+        ...mockMeetings,
+        {
+          ...mockMeetings[0],
+          externalId: 'meeting-bad',
+          title: ' ',
+          agendaUrl: 'not a url',
+        },
+      ]);
+
+      const result = await service.syncDataType(CivicDataType.MEETINGS);
+
+      expect(meetingRepo.upsert).toHaveBeenCalledWith(
+        [expect.objectContaining({ externalId: 'meeting-1' })],
+        expect.anything(),
+      );
+      expect(result.itemsProcessed).toBe(2);
+      expect(result.itemsCreated).toBe(1);
+      expect(result.errors).toEqual([
+        'Skipped invalid meeting "meeting-bad": title: must not be empty; agendaUrl: must be an absolute http(s) URL',
+      ]);
+    });
+
+    it('should not retire records whose item was rejected', async () => {
+      regionProviderService.fetchPropositions.mockResolvedValue([
+        ...mockPropositions,
+        { ...mockPropositions[0], externalId: 'prop-2', status: 'unknown' },
+      ] as Proposition[]);
+      propositionRepo.find.mockResolvedValue([
+        { id: 'uuid-1', externalId: 'prop-1' },
+        { id: 'uuid-2', externalId: 'prop-2' },
+      ] as PropositionEntity[]);
+
+      const result = await service.syncDataType(CivicDataType.PROPOSITIONS);
+
+      expect(propositionRepo.softDelete).not.toHaveBeenCalled();
+      expect(result.errors).toHaveLength(1);
+    });
+
+    it('should skip the upsert when every item is invalid', async () => {
+      regionProviderService.fetchRepresentatives.mockResolvedValue([
+        { ...mockRepresentatives[0], name: '' },
+      ]);
+
+      const result = await service.syncDataType(CivicDataType.REPRESENTATIVES);
+
+      expect(representativeRepo.upsert).not.toHaveBeenCalled();
+      expect(result.itemsProcessed).toBe(1);
+      expect(result.errors).toEqual([
+        'Skipped invalid representative "rep-1": name: must not be empty',
+      ]);
+    });
+  });
+
+  describe('sync listeners', () => {
+    it('should pass the changes a sync made to listeners', async () => {
+      const listener = jest.fn().mockResolvedValue(undefined);
+      service.onSynced(listener);
+
+      const result = await service.syncDataType(CivicDataType.MEETINGS);
+
+      expect(result.changes).toBeUndefined();
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          dataType: CivicDataType.MEETINGS,
+          itemsCreated: 1,
+          changes: expect.objectContaining({
+            created: [expect.objectContaining({ externalId: 'meeting-1' })],
+          }),
+        }),
+      );
+    });
+
+    it('should not fail the sync when a listener fails', async () => {
+      service.onSynced(() => Promise.reject(new Error('ingest failed')));
+
+      await expect(
+        service.syncDataType(CivicDataType.MEETINGS),
+      ).resolves.toEqual(expect.objectContaining({ itemsCreated: 1 }));
+    });
+
+    it('should not run listeners for dry runs', async () => {
+      const listener = jest.fn().mockResolvedValue(undefined);
+      service.onSynced(listener);
+
+      await service.syncDataType(
+        CivicDataType.MEETINGS,
+        SyncTrigger.MANUAL,
+        undefined,
+        { dryRun: true },
+      );
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dry-run sync', () => {
+    const mockChangedProposition = () => {
+      const existingQb = createMock<SelectQueryBuilder<PropositionEntity>>();
+      existingQb.select.mockReturnThis();
+      existingQb.withDeleted.mockReturnThis();
+      existingQb.where.mockReturnThis();
+      existingQb.getMany.mockResolvedValue([
+        {
+          ...mockPropositions[0],
+          id: 'uuid-1',
+          summary: 'Old summary',
+        } as PropositionEntity,
+      ]);
+      propositionRepo.createQueryBuilder.mockReturnValue(existingQb);
+      propositionRepo.find.mockResolvedValue([
+        { id: 'uuid-1', externalId: 'prop-1', title: 'Test Proposition 1' },
+        { id: 'uuid-2', externalId: 'prop-9', title: 'Withdrawn measure' },
+      ] as PropositionEntity[]);
+    };
+
+    it('should list changes without writing any records', async () => {
+      mockChangedProposition();
+
+      const result = await service.syncDataType(
+        CivicDataType.PROPOSITIONS,
+        SyncTrigger.MANUAL,
+        undefined,
+        { dryRun: true },
+      );
+
+      expect(propositionRepo.upsert).not.toHaveBeenCalled();
+      expect(propositionRepo.softDelete).not.toHaveBeenCalled();
+      expect(revisionRepo.insert).not.toHaveBeenCalled();
+      expect(result).toEqual(
+        expect.objectContaining({
+          runId: 'run-1',
+          itemsUpdated: 1,
+          itemsRemoved: 1,
+          changes: {
+            created: [],
+            updated: [
+              {
+                id: 'uuid-1',
+                externalId: 'prop-1',
+                label: 'Test Proposition 1',
+                restored: false,
+                changes: [
+                  {
+                    field: 'summary',
+                    previousValue: 'Old summary',
+                    newValue: 'Summary 1',
+                  },
+                ],
+              },
+            ],
+            retired: [
+              {
+                id: 'uuid-2',
+                externalId: 'prop-9',
+                label: 'Withdrawn measure',
+                restored: false,
+                changes: [],
+              },
+            ],
+          },
+        }),
+      );
+    });
+
+    it('should record the preview with the items it fetched', async () => {
+      await service.syncDataType(
+        CivicDataType.MEETINGS,
+        SyncTrigger.MANUAL,
+        undefined,
+        { dryRun: true },
+      );
+
+      expect(syncRunRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({ dryRun: true }),
+      );
+      expect(syncRunRepo.update).toHaveBeenCalledWith(
+        'run-1',
+        expect.objectContaining({
+          status: SyncRunStatus.PREVIEWED,
+          itemsCreated: 1,
+          previewItems: { items: mockMeetings, rejected: [] },
+        }),
+      );
+    });
+
+    it('should list the values of records to be created', async () => {
+      const result = await service.syncDataType(
+        CivicDataType.REPRESENTATIVES,
+        SyncTrigger.MANUAL,
+        undefined,
+        { dryRun: true },
+      );
+
+      expect(result.changes?.created).toEqual([
+        expect.objectContaining({
+          externalId: 'rep-1',
+          label: 'John Doe',
+          changes: expect.arrayContaining([
+            { field: 'name', previousValue: null, newValue: 'John Doe' },
+            {
+              field: 'contactInfo',
+              previousValue: null,
+              newValue: '{"email":"john@example.com"}',
+            },
+          ]),
+        }),
+      ]);
+    });
+
+    it('should leave unchanged records out of the preview', async () => {
+      const existingQb = createMock<SelectQueryBuilder<MeetingEntity>>();
+      existingQb.select.mockReturnThis();
+      existingQb.withDeleted.mockReturnThis();
+      existingQb.where.mockReturnThis();
+      existingQb.getMany.mockResolvedValue([
+        { ...mockMeetings[0], id: 'uuid-1' } as MeetingEntity,
+      ]);
+      meetingRepo.createQueryBuilder.mockReturnValue(existingQb);
+
+      const result = await service.syncDataType(
+        CivicDataType.MEETINGS,
+        SyncTrigger.MANUAL,
+        undefined,
+        { dryRun: true },
+      );
+
+      expect(result.itemsUpdated).toBe(1);
+      expect(result.changes?.updated).toEqual([]);
+    });
+
+    it('should preview every data type with line diffs', async () => {
+      mockChangedProposition();
+
+      const previews = await service.previewSync();
+
+      expect(previews.map((p) => p.dataType)).toEqual([
+        CivicDataType.PROPOSITIONS,
+        CivicDataType.MEETINGS,
+        CivicDataType.REPRESENTATIVES,
+        CivicDataType.ELECTIONS,
+      ]);
+      expect(previews[0].updated[0].changes[0]).toEqual({
+        field: 'summary',
+        previousValue: 'Old summary',
+        newValue: 'Summary 1',
+        diff: [
+          { operation: DiffOperationGQL.REMOVED, text: 'Old summary' },
+          { operation: DiffOperationGQL.ADDED, text: 'Summary 1' },
+        ],
+      });
+      expect(propositionRepo.upsert).not.toHaveBeenCalled();
+      expect(meetingRepo.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should preview a single data type', async () => {
+      const previews = await service.previewSync(
+        'test-region',
+        CivicDataType.MEETINGS,
+      );
+
+      expect(previews).toHaveLength(1);
+      expect(previews[0].created[0].externalId).toBe('meeting-1');
+      expect(regionProviderService.fetchPropositions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('applySyncPreview', () => {
+    const mockPreview = (overrides: Partial<RegionSyncRunEntity> = {}) =>
+      syncRunRepo.findOne.mockResolvedValue({
+        id: 'preview-1',
+        regionId: 'test-region',
+        dataType: CivicDataType.PROPOSITIONS,
+        status: SyncRunStatus.PREVIEWED,
+        // Stored as JSON, so dates come back as strings
+        previewItems: JSON.parse(
+          JSON.stringify({ items: mockPropositions, rejected: [] }),
+        ),
+        ...overrides,
+      } as RegionSyncRunEntity);
+
+    it('should apply the items the preview fetched', async () => {
+      mockPreview();
+
+      const result = await service.applySyncPreview('preview-1');
+
+      expect(regionProviderService.fetchPropositions).not.toHaveBeenCalled();
+      expect(propositionRepo.upsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            externalId: 'prop-1',
+            electionDate: new Date('2024-11-05'),
+          }),
+        ],
+        expect.anything(),
+      );
+      expect(result.itemsCreated).toBe(1);
+      expect(syncRunRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({ dryRun: false, previewRunId: 'preview-1' }),
+      );
+      expect(syncRunRepo.update).toHaveBeenCalledWith(
+        { id: 'preview-1', status: SyncRunStatus.PREVIEWED },
+        { status: SyncRunStatus.APPLIED },
+      );
+      expect(syncRunRepo.update).toHaveBeenCalledWith('preview-1', {
+        previewItems: null,
+      });
+    });
+
+    it('should report items the preview rejected', async () => {
+      mockPreview({
+        previewItems: {
+          items: [],
+          rejected: [{ externalId: 'prop-2', reason: 'title: required' }],
+        },
+      });
+
+      const result = await service.applySyncPreview('preview-1');
+
+      expect(result.errors).toEqual([
+        'Skipped invalid proposition "prop-2": title: required',
+      ]);
+    });
+
+    it.each([
+      ['is missing', undefined],
+      ['was applied', { status: SyncRunStatus.APPLIED }],
+      ['failed', { status: SyncRunStatus.FAILED, previewItems: null }],
+    ])('should reject a preview that %s', async (_, overrides) => {
+      if (overrides) {
+        mockPreview(overrides);
+      } else {
+        syncRunRepo.findOne.mockResolvedValue(null);
+      }
+
+      await expect(service.applySyncPreview('preview-1')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(propositionRepo.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should apply a preview only once', async () => {
+      mockPreview();
+      syncRunRepo.update.mockResolvedValueOnce({
+        affected: 0,
+        raw: [],
+        generatedMaps: [],
+      });
+
+      await expect(service.applySyncPreview('preview-1')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(propositionRepo.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should keep the preview when applying it fails', async () => {
+      mockPreview();
+      propositionRepo.upsert.mockRejectedValue(new Error('DB unavailable'));
+
+      await expect(service.applySyncPreview('preview-1')).rejects.toThrow(
+        'DB unavailable',
+      );
+      expect(syncRunRepo.update).toHaveBeenLastCalledWith('preview-1', {
+        status: SyncRunStatus.PREVIEWED,
+      });
+    });
+  });
+
+  describe('getRetiredRecords', () => {
+    it('should return retired records with their label', async () => {
+      const deletedAt = new Date();
+      representativeRepo.findAndCount.mockResolvedValue([
+        [
+          {
+            id: 'uuid-1',
+            regionId: 'test-region',
+            externalId: 'rep-1',
+            name: 'John Doe',
+            deletedAt,
+          } as RepresentativeEntity,
+        ],
+        1,
+      ]);
+
+      const result = await service.getRetiredRecords(
+        CivicDataType.REPRESENTATIVES,
+        0,
+        10,
+        'test-region',
+      );
+
+      expect(representativeRepo.findAndCount).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            deletedAt: expect.objectContaining({ _type: 'not' }),
+            regionId: 'test-region',
+          },
+          withDeleted: true,
+        }),
+      );
+      expect(result.items).toEqual([
+        {
+          id: 'uuid-1',
+          regionId: 'test-region',
+          externalId: 'rep-1',
+          label: 'John Doe',
+          deletedAt,
+        },
+      ]);
+      expect(result.hasMore).toBe(false);
+    });
+  });
+
+  describe('restoreRecords', () => {
+    it('should restore retired records by ID', async () => {
+      propositionRepo.restore.mockResolvedValue({
+        affected: 2,
+        raw: [],
+        generatedMaps: [],
+      });
+
+      const restored = await service.restoreRecords(
+        CivicDataType.PROPOSITIONS,
+        ['uuid-1', 'uuid-2'],
+      );
+
+      expect(restored).toBe(2);
+      expect(propositionRepo.restore).toHaveBeenCalledWith({
+        id: expect.objectContaining({
+          _type: 'in',
+          _value: ['uuid-1', 'uuid-2'],
+        }),
+        deletedAt: expect.objectContaining({ _type: 'not' }),
+      });
+    });
+
+    it('should do nothing without IDs', async () => {
+      expect(await service.restoreRecords(CivicDataType.MEETINGS, [])).toBe(0);
+      expect(meetingRepo.restore).not.toHaveBeenCalled();
+    });
+  });
+
   describe('bulk upsert performance', () => {
     it('should use only 2 queries per sync (SELECT existing + UPSERT)', async () => {
       // This test verifies the N+1 fix - we should call createQueryBuilder once
@@ -375,6 +1686,7 @@ describe('RegionDomainService', () => {
       // Mock 500 existing records (prop-0 through prop-499)
       const existingQb = createMock<SelectQueryBuilder<PropositionEntity>>();
       existingQb.select.mockReturnThis();
+      existingQb.withDeleted.mockReturnThis();
       existingQb.where.mockReturnThis();
       existingQb.getMany.mockResolvedValue(
         Array.from({ length: 500 }, (_, i) => ({
@@ -392,6 +1704,33 @@ describe('RegionDomainService', () => {
   });
 
   describe('getPropositions', () => {
+    const createPropositionQueryBuilder = (
+      entities: Partial<PropositionEntity>[],
+      total: number,
+      raw: Record<string, unknown>[] = [],
+    ) => {
+      const qb = createMock<SelectQueryBuilder<PropositionEntity>>();
+      qb.andWhere.mockReturnThis();
+      qb.addSelect.mockReturnThis();
+      qb.setParameters.mockReturnThis();
+      qb.orderBy.mockReturnThis();
+      qb.addOrderBy.mockReturnThis();
+      qb.skip.mockReturnThis();
+      qb.take.mockReturnThis();
+      qb.getCount.mockResolvedValue(total);
+      qb.getRawAndEntities.mockResolvedValue({
+        // Stored propositions always have their voter guide lists
+        entities: entities.map((entity) => ({
+          arguments: [],
+          endorsements: [],
+          ...entity,
+        })) as PropositionEntity[],
+        raw,
+      });
+      propositionRepo.createQueryBuilder.mockReturnValue(qb);
+      return qb;
+    };
+
     it('should return paginated propositions', async () => {
       const mockItems = [
         {
@@ -404,16 +1743,19 @@ describe('RegionDomainService', () => {
           updatedAt: new Date(),
         },
       ];
-      propositionRepo.findAndCount.mockResolvedValue([
-        mockItems as PropositionEntity[],
-        1,
-      ]);
+      const qb = createPropositionQueryBuilder(mockItems, 1);
 
       const result = await service.getPropositions(0, 10);
 
       expect(result.items).toHaveLength(1);
+      expect(result.items[0].searchRank).toBeUndefined();
       expect(result.total).toBe(1);
       expect(result.hasMore).toBe(false);
+      expect(qb.orderBy).toHaveBeenCalledWith(
+        'prop.electionDate',
+        'DESC',
+        'NULLS LAST',
+      );
     });
 
     it('should indicate hasMore when more items exist', async () => {
@@ -426,26 +1768,130 @@ describe('RegionDomainService', () => {
         createdAt: new Date(),
         updatedAt: new Date(),
       }));
-      propositionRepo.findAndCount.mockResolvedValue([
-        mockItems as PropositionEntity[],
-        15,
-      ]);
+      createPropositionQueryBuilder(mockItems, 15);
+
+      const result = await service.getPropositions(0, 10);
+
+      expect(result.items).toHaveLength(10);
+      expect(result.hasMore).toBe(true);
+    });
+
+    it('should filter by region when provided', async () => {
+      const qb = createPropositionQueryBuilder([], 0);
+
+      await service.getPropositions(0, 10, 'test-region');
+
+      expect(qb.andWhere).toHaveBeenCalledWith('prop.regionId = :regionId', {
+        regionId: 'test-region',
+      });
+    });
+
+    it('should filter by status and election date range', async () => {
+      const qb = createPropositionQueryBuilder([], 0);
+      const from = new Date('2024-01-01');
+      const to = new Date('2024-12-31');
+
+      await service.getPropositions(0, 10, undefined, {
+        statuses: [PropositionStatusGQL.PENDING, PropositionStatusGQL.PASSED],
+        electionDateFrom: from,
+        electionDateTo: to,
+      });
+
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'prop.status IN (:...statuses)',
+        { statuses: ['pending', 'passed'] },
+      );
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'prop.electionDate >= :electionDateFrom',
+        { electionDateFrom: from },
+      );
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'prop.electionDate <= :electionDateTo',
+        { electionDateTo: to },
+      );
+    });
+
+    it('should rank text matches and return escaped snippets', async () => {
+      const qb = createPropositionQueryBuilder(
+        [{ id: '1', title: 'Housing Bond', status: 'pending' }],
+        1,
+        [
+          {
+            prop_id: '1',
+            search_rank: '0.6',
+            search_snippet:
+              'Issues a <b>\u0001housing\u0002</b> bond & raises \u0001taxes\u0002',
+          },
+        ],
+      );
+
+      const result = await service.getPropositions(0, 10, undefined, {
+        query: '  housing taxes ',
+      });
+
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        "prop.searchVector @@ websearch_to_tsquery('english', :text)",
+      );
+      expect(qb.setParameters).toHaveBeenCalledWith(
+        expect.objectContaining({ text: 'housing taxes' }),
+      );
+      expect(qb.orderBy).toHaveBeenCalledWith('search_rank', 'DESC');
+      expect(result.items[0].searchRank).toBe(0.6);
+      expect(result.items[0].searchSnippet).toBe(
+        'Issues a &lt;b&gt;<mark>housing</mark>&lt;/b&gt; bond &amp; raises <mark>taxes</mark>',
+      );
+    });
 
-      const result = await service.getPropositions(0, 10);
+    it('should sort by the requested field', async () => {
+      const qb = createPropositionQueryBuilder([], 0);
 
-      expect(result.items).toHaveLength(10);
-      expect(result.hasMore).toBe(true);
+      await service.getPropositions(0, 10, undefined, {
+        query: 'housing',
+        sortBy: PropositionSortField.TITLE,
+      });
+
+      expect(qb.orderBy).toHaveBeenCalledWith('prop.title', 'ASC');
+    });
+
+    it('should ignore blank text queries', async () => {
+      const qb = createPropositionQueryBuilder([], 0);
+
+      await service.getPropositions(0, 10, undefined, { query: '   ' });
+
+      expect(qb.addSelect).not.toHaveBeenCalled();
+      expect(qb.orderBy).toHaveBeenCalledWith(
+        'prop.electionDate',
+        'DESC',
+        'NULLS LAST',
+      );
     });
   });
 
   describe('getProposition', () => {
     it('should return a single proposition by ID', async () => {
-      const mockProp = { id: '1', title: 'Test Prop' };
-      propositionRepo.findOne.mockResolvedValue(mockProp as PropositionEntity);
+      const mockProp = {
+        id: '1',
+        title: 'Test Prop',
+        status: 'pending',
+        arguments: [{ position: 'for', text: 'Vote yes' }],
+        voteThreshold: 'two_thirds',
+        endorsements: [{ organization: 'League', position: 'against' }],
+      };
+      propositionRepo.findOne.mockResolvedValue(
+        mockProp as unknown as PropositionEntity,
+      );
 
       const result = await service.getProposition('1');
 
-      expect(result).toEqual(mockProp);
+      expect(result).toEqual({
+        ...mockProp,
+        status: PropositionStatusGQL.PENDING,
+        arguments: [{ position: PropositionPositionGQL.FOR, text: 'Vote yes' }],
+        voteThreshold: VoteThresholdGQL.TWO_THIRDS,
+        endorsements: [
+          { organization: 'League', position: PropositionPositionGQL.AGAINST },
+        ],
+      });
       expect(propositionRepo.findOne).toHaveBeenCalledWith({
         where: { id: '1' },
       });
@@ -460,7 +1906,78 @@ describe('RegionDomainService', () => {
     });
   });
 
+  describe('getPropositionRevisions', () => {
+    it('should return revisions with line diffs of changed fields', async () => {
+      const createdAt = new Date('2024-06-01T00:00:00Z');
+      revisionRepo.find.mockResolvedValue([
+        {
+          id: 'rev-1',
+          propositionId: 'uuid-1',
+          syncRunId: 'run-1',
+          changedFields: ['fullText', 'sourceUrl'],
+          previousValues: {
+            fullText: 'Section 1\nTax rate: 1%\nSection 3',
+            sourceUrl: null,
+          },
+          newValues: {
+            fullText: 'Section 1\nTax rate: 2%\nSection 3',
+            sourceUrl: 'https://example.com/prop-1',
+          },
+          createdAt,
+        } as PropositionRevisionEntity,
+      ]);
+
+      const result = await service.getPropositionRevisions('uuid-1');
+
+      expect(revisionRepo.find).toHaveBeenCalledWith({
+        where: { propositionId: 'uuid-1' },
+        order: { createdAt: 'DESC' },
+      });
+      expect(result).toHaveLength(1);
+      expect(result[0].createdAt).toBe(createdAt);
+      expect(result[0].changes).toEqual([
+        {
+          field: 'fullText',
+          previousValue: 'Section 1\nTax rate: 1%\nSection 3',
+          newValue: 'Section 1\nTax rate: 2%\nSection 3',
+          diff: [
+            { operation: DiffOperationGQL.UNCHANGED, text: 'Section 1' },
+            { operation: DiffOperationGQL.REMOVED, text: 'Tax rate: 1%' },
+            { operation: DiffOperationGQL.ADDED, text: 'Tax rate: 2%' },
+            { operation: DiffOperationGQL.UNCHANGED, text: 'Section 3' },
+          ],
+        },
+        {
+          field: 'sourceUrl',
+          previousValue: undefined,
+          newValue: 'https://example.com/prop-1',
+          diff: [
+            {
+              operation: DiffOperationGQL.ADDED,
+              text: 'https://example.com/prop-1',
+            },
+          ],
+        },
+      ]);
+    });
+  });
+
   describe('getMeetings', () => {
+    const createMeetingQueryBuilder = (
+      items: Partial<MeetingEntity>[],
+      total: number,
+    ) => {
+      const qb = createMock<SelectQueryBuilder<MeetingEntity>>();
+      qb.andWhere.mockReturnThis();
+      qb.orderBy.mockReturnThis();
+      qb.skip.mockReturnThis();
+      qb.take.mockReturnThis();
+      qb.getCount.mockResolvedValue(total);
+      qb.getMany.mockResolvedValue(items as MeetingEntity[]);
+      meetingRepo.createQueryBuilder.mockReturnValue(qb);
+      return qb;
+    };
+
     it('should return paginated meetings', async () => {
       const mockItems = [
         {
@@ -473,16 +1990,58 @@ describe('RegionDomainService', () => {
           updatedAt: new Date(),
         },
       ];
-      meetingRepo.findAndCount.mockResolvedValue([
-        mockItems as MeetingEntity[],
-        1,
-      ]);
+      const qb = createMeetingQueryBuilder(mockItems, 1);
 
       const result = await service.getMeetings(0, 10);
 
       expect(result.items).toHaveLength(1);
       expect(result.total).toBe(1);
       expect(result.hasMore).toBe(false);
+      expect(qb.orderBy).toHaveBeenCalledWith('meeting.scheduledAt', 'DESC');
+    });
+
+    it('should filter by body, date range and location', async () => {
+      const qb = createMeetingQueryBuilder([], 0);
+      const from = new Date('2024-01-01');
+      const to = new Date('2024-01-31');
+
+      await service.getMeetings(0, 10, 'test-region', {
+        body: 'City Council',
+        dateFrom: from,
+        dateTo: to,
+        location: '100%_Hall',
+      });
+
+      expect(qb.andWhere).toHaveBeenCalledWith('meeting.regionId = :regionId', {
+        regionId: 'test-region',
+      });
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'LOWER(meeting.body) = LOWER(:body)',
+        { body: 'City Council' },
+      );
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'meeting.scheduledAt >= :dateFrom',
+        { dateFrom: from },
+      );
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'meeting.scheduledAt <= :dateTo',
+        { dateTo: to },
+      );
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'meeting.location ILIKE :location',
+        { location: '%100\\%\\_Hall%' },
+      );
+    });
+
+    it('should list upcoming meetings soonest first', async () => {
+      const qb = createMeetingQueryBuilder([], 0);
+
+      await service.getMeetings(0, 10, undefined, { upcoming: true });
+
+      expect(qb.andWhere).toHaveBeenCalledWith('meeting.scheduledAt >= :now', {
+        now: expect.any(Date),
+      });
+      expect(qb.orderBy).toHaveBeenCalledWith('meeting.scheduledAt', 'ASC');
     });
   });
 
@@ -497,11 +2056,310 @@ describe('RegionDomainService', () => {
     });
   });
 
+  describe('getElections', () => {
+    const createElectionQueryBuilder = (
+      items: Partial<ElectionEntity>[],
+      total: number,
+    ) => {
+      const qb = createMock<SelectQueryBuilder<ElectionEntity>>();
+      qb.andWhere.mockReturnThis();
+      qb.orderBy.mockReturnThis();
+      qb.skip.mockReturnThis();
+      qb.take.mockReturnThis();
+      qb.getCount.mockResolvedValue(total);
+      qb.getMany.mockResolvedValue(items as ElectionEntity[]);
+      electionRepo.createQueryBuilder.mockReturnValue(qb);
+      return qb;
+    };
+
+    it('should return paginated elections, newest first', async () => {
+      const qb = createElectionQueryBuilder(
+        [{ id: '1', name: 'General Election', electionDate: new Date() }],
+        1,
+      );
+
+      const result = await service.getElections(0, 10, 'test-region');
+
+      expect(result.items).toHaveLength(1);
+      expect(result.hasMore).toBe(false);
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'election.regionId = :regionId',
+        { regionId: 'test-region' },
+      );
+      expect(qb.orderBy).toHaveBeenCalledWith('election.electionDate', 'DESC');
+    });
+
+    it('should list upcoming elections soonest first', async () => {
+      const qb = createElectionQueryBuilder([], 0);
+
+      await service.getElections(0, 10, undefined, { upcoming: true });
+
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'election.electionDate >= :now',
+        { now: expect.any(Date) },
+      );
+      expect(qb.orderBy).toHaveBeenCalledWith('election.electionDate', 'ASC');
+    });
+  });
+
+  describe('getVoterDeadlines', () => {
+    const election = {
+      id: 'election-uuid',
+      regionId: 'test-region',
+      name: 'General Election',
+      electionDate: new Date('2024-11-05T20:00:00Z'),
+      registrationDeadline: new Date('2024-10-21T23:59:59Z'),
+      mailBallotRequestDeadline: new Date('2024-10-29T17:00:00Z'),
+      mailBallotReturnDeadline: new Date('2024-11-05T20:00:00Z'),
+      earlyVotingStart: new Date('2024-10-26T09:00:00Z'),
+      earlyVotingEnd: new Date('2024-11-04T17:00:00Z'),
+    } as ElectionEntity;
+
+    const createDeadlineQueryBuilder = (items: ElectionEntity[]) => {
+      const qb = createMock<SelectQueryBuilder<ElectionEntity>>();
+      qb.where.mockReturnThis();
+      qb.andWhere.mockReturnThis();
+      qb.orderBy.mockReturnThis();
+      qb.getMany.mockResolvedValue(items);
+      electionRepo.createQueryBuilder.mockReturnValue(qb);
+      return qb;
+    };
+
+    it('should flatten elections into deadlines, soonest first', async () => {
+      createDeadlineQueryBuilder([election]);
+
+      const result = await service.getVoterDeadlines(
+        undefined,
+        new Date('2024-10-01'),
+      );
+
+      expect(result.map((d) => d.type)).toEqual([
+        VoterDeadlineType.REGISTRATION,
+        VoterDeadlineType.EARLY_VOTING,
+        VoterDeadlineType.MAIL_BALLOT_REQUEST,
+        VoterDeadlineType.MAIL_BALLOT_RETURN,
+      ]);
+      expect(result[1]).toEqual({
+        type: VoterDeadlineType.EARLY_VOTING,
+        date: election.earlyVotingStart,
+        endDate: election.earlyVotingEnd,
+        electionId: 'election-uuid',
+        electionName: 'General Election',
+        electionDate: election.electionDate,
+        regionId: 'test-region',
+      });
+    });
+
+    it('should keep an open early-voting window and drop passed deadlines', async () => {
+      createDeadlineQueryBuilder([election]);
+
+      const result = await service.getVoterDeadlines(
+        undefined,
+        new Date('2024-10-30'),
+      );
+
+      expect(result.map((d) => d.type)).toEqual([
+        VoterDeadlineType.EARLY_VOTING,
+        VoterDeadlineType.MAIL_BALLOT_RETURN,
+      ]);
+    });
+
+    it('should limit deadlines to the range and region', async () => {
+      const qb = createDeadlineQueryBuilder([election]);
+      const to = new Date('2024-10-25');
+
+      const result = await service.getVoterDeadlines(
+        'test-region',
+        new Date('2024-10-01'),
+        to,
+      );
+
+      expect(result.map((d) => d.type)).toEqual([
+        VoterDeadlineType.REGISTRATION,
+      ]);
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('LEAST'),
+        {
+          to,
+        },
+      );
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'election.regionId = :regionId',
+        { regionId: 'test-region' },
+      );
+    });
+  });
+
+  describe('getBills', () => {
+    const storedBill = {
+      id: 'bill-uuid',
+      regionId: 'test-region',
+      externalId: 'bill-1',
+      number: 'AB 1',
+      title: 'Housing Act',
+      status: 'in_committee',
+      sponsors: [],
+      actions: [
+        {
+          date: '2024-01-08T00:00:00.000Z',
+          description: 'Introduced',
+          status: 'introduced',
+        },
+      ],
+    } as unknown as BillEntity;
+
+    it('should filter bills and revive timeline dates', async () => {
+      const qb = createMock<SelectQueryBuilder<BillEntity>>();
+      qb.andWhere.mockReturnThis();
+      qb.orderBy.mockReturnThis();
+      qb.addOrderBy.mockReturnThis();
+      qb.skip.mockReturnThis();
+      qb.take.mockReturnThis();
+      qb.getCount.mockResolvedValue(1);
+      qb.getMany.mockResolvedValue([storedBill]);
+      billRepo.createQueryBuilder.mockReturnValue(qb);
+
+      const result = await service.getBills(0, 10, 'test-region', {
+        chamber: 'Assembly',
+        query: 'AB_1',
+      });
+
+      expect(result.items[0].actions[0].date).toEqual(
+        new Date('2024-01-08T00:00:00.000Z'),
+      );
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'LOWER(bill.chamber) = LOWER(:chamber)',
+        { chamber: 'Assembly' },
+      );
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        '(bill.number ILIKE :text OR bill.title ILIKE :text)',
+        { text: '%AB\\_1%' },
+      );
+      expect(qb.orderBy).toHaveBeenCalledWith(
+        'bill.introducedAt',
+        'DESC',
+        'NULLS LAST',
+      );
+    });
+
+    it('should return a single bill by ID', async () => {
+      billRepo.findOne.mockResolvedValue(storedBill);
+
+      const result = await service.getBill('bill-uuid');
+
+      expect(result?.number).toBe('AB 1');
+      expect(result?.actions[0].date).toBeInstanceOf(Date);
+    });
+
+    it("should list a bill's votes within its region, oldest first", async () => {
+      billRepo.findOne.mockResolvedValue(storedBill);
+      voteRepo.find.mockResolvedValue([
+        { id: 'vote-uuid', memberVotes: [] } as unknown as VoteEntity,
+      ]);
+
+      const votes = await service.getBillVotes('bill-uuid');
+
+      expect(votes).toHaveLength(1);
+      expect(voteRepo.find).toHaveBeenCalledWith({
+        where: { regionId: 'test-region', billExternalId: 'bill-1' },
+        order: { votedAt: 'ASC' },
+      });
+    });
+
+    it('should return no votes for an unknown bill', async () => {
+      billRepo.findOne.mockResolvedValue(null);
+
+      expect(await service.getBillVotes('missing')).toEqual([]);
+      expect(voteRepo.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRepresentativeVotes', () => {
+    const createVoteQueryBuilder = (votes: Partial<VoteEntity>[]) => {
+      const qb = createMock<SelectQueryBuilder<VoteEntity>>();
+      qb.where.mockReturnThis();
+      qb.andWhere.mockReturnThis();
+      qb.orderBy.mockReturnThis();
+      qb.skip.mockReturnThis();
+      qb.take.mockReturnThis();
+      qb.getCount.mockResolvedValue(votes.length);
+      qb.getMany.mockResolvedValue(votes as VoteEntity[]);
+      voteRepo.createQueryBuilder.mockReturnValue(qb);
+      return qb;
+    };
+
+    it('should return how the representative voted, with each bill', async () => {
+      representativeRepo.findOne.mockResolvedValue({
+        id: 'rep-uuid',
+        regionId: 'test-region',
+        externalId: 'rep-1',
+      } as RepresentativeEntity);
+      const votedAt = new Date('2024-04-15T18:00:00Z');
+      const qb = createVoteQueryBuilder([
+        {
+          id: 'vote-uuid',
+          billExternalId: 'bill-1',
+          motion: 'Third Reading',
+          chamber: 'Senate',
+          votedAt,
+          passed: true,
+          memberVotes: [
+            {
+              name: 'Jane Roe',
+              representativeExternalId: 'rep-2',
+              option: 'yes',
+            },
+            {
+              name: 'John Doe',
+              representativeExternalId: 'rep-1',
+              option: 'no',
+            },
+          ],
+        },
+      ]);
+      billRepo.find.mockResolvedValue([
+        {
+          id: 'bill-uuid',
+          externalId: 'bill-1',
+          number: 'AB 1',
+          title: 'Housing Act',
+        } as BillEntity,
+      ]);
+
+      const result = await service.getRepresentativeVotes('rep-uuid');
+
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'vote.memberVotes @> :member::jsonb',
+        { member: '[{"representativeExternalId":"rep-1"}]' },
+      );
+      expect(result?.items).toEqual([
+        {
+          voteId: 'vote-uuid',
+          motion: 'Third Reading',
+          chamber: 'Senate',
+          votedAt,
+          passed: true,
+          option: VoteOptionGQL.NO,
+          billId: 'bill-uuid',
+          billNumber: 'AB 1',
+          billTitle: 'Housing Act',
+        },
+      ]);
+    });
+
+    it('should return null for an unknown representative', async () => {
+      representativeRepo.findOne.mockResolvedValue(null);
+
+      expect(await service.getRepresentativeVotes('missing')).toBeNull();
+    });
+  });
+
   describe('getRepresentatives', () => {
     it('should return paginated representatives', async () => {
       const mockItems = [
         {
           id: '1',
+          regionId: 'test-region',
           externalId: 'rep-1',
           name: 'John Doe',
           chamber: 'Senate',
@@ -551,6 +2409,27 @@ describe('RegionDomainService', () => {
         { chamber: 'Senate' },
       );
     });
+
+    it('should filter by region when provided', async () => {
+      const mockQueryBuilder =
+        createMock<SelectQueryBuilder<RepresentativeEntity>>();
+      mockQueryBuilder.andWhere.mockReturnThis();
+      mockQueryBuilder.orderBy.mockReturnThis();
+      mockQueryBuilder.addOrderBy.mockReturnThis();
+      mockQueryBuilder.skip.mockReturnThis();
+      mockQueryBuilder.take.mockReturnThis();
+      mockQueryBuilder.getCount.mockResolvedValue(0);
+      mockQueryBuilder.getMany.mockResolvedValue([]);
+
+      representativeRepo.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+      await service.getRepresentatives(0, 10, undefined, 'test-region');
+
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'rep.regionId = :regionId',
+        { regionId: 'test-region' },
+      );
+    });
   });
 
   describe('getRepresentative', () => {
@@ -565,4 +2444,246 @@ describe('RegionDomainService', () => {
       expect(result).toEqual(mockRep);
     });
   });
+
+  describe('getRepresentativesForAddress', () => {
+    const senator = {
+      id: 'senate-1',
+      regionId: 'test-region',
+      externalId: 'senate-1',
+      name: 'Jane Roe',
+      chamber: 'Senate',
+      district: 'District 1',
+      party: 'Independent',
+    } as RepresentativeEntity;
+
+    const mockRepQueryBuilder = (items: RepresentativeEntity[]) => {
+      const qb = createMock<SelectQueryBuilder<RepresentativeEntity>>();
+      qb.where.mockReturnThis();
+      qb.andWhere.mockReturnThis();
+      qb.orderBy.mockReturnThis();
+      qb.addOrderBy.mockReturnThis();
+      qb.getMany.mockResolvedValue(items);
+      representativeRepo.createQueryBuilder.mockReturnValue(qb);
+      return qb;
+    };
+
+    it("should match representatives to the user's primary address", async () => {
+      addressRepo.findOne.mockResolvedValue({
+        id: 'addr-1',
+        stateSenatorialDistrict: 'SD-1',
+      } as UserAddressEntity);
+      const qb = mockRepQueryBuilder([senator]);
+
+      const result = await service.getRepresentativesForAddress('user-1');
+
+      expect(addressRepo.findOne).toHaveBeenCalledWith({
+        where: { userId: 'user-1', isPrimary: true },
+      });
+      expect(qb.where).toHaveBeenCalledWith(
+        'LOWER(TRIM(rep.chamber)) IN (:...chambers)',
+        { chambers: ['senate', 'state senate'] },
+      );
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'rep.regionId IN (:...regionIds)',
+        { regionIds: ['test-region'] },
+      );
+      expect(result?.addressId).toBe('addr-1');
+      expect(result?.matches).toEqual([
+        {
+          representative: senator,
+          districtType: DistrictTypeGQL.STATE_SENATE,
+          district: 'SD-1',
+        },
+      ]);
+      expect(result?.missingDistricts).not.toContain(
+        DistrictTypeGQL.STATE_SENATE,
+      );
+    });
+
+    it('should use the chosen address and region', async () => {
+      addressRepo.findOne.mockResolvedValue({
+        id: 'addr-2',
+        stateSenatorialDistrict: '1',
+      } as UserAddressEntity);
+      const qb = mockRepQueryBuilder([]);
+
+      await service.getRepresentativesForAddress(
+        'user-1',
+        'addr-2',
+        'test-region',
+      );
+
+      expect(addressRepo.findOne).toHaveBeenCalledWith({
+        where: { id: 'addr-2', userId: 'user-1' },
+      });
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'rep.regionId IN (:...regionIds)',
+        { regionIds: ['test-region'] },
+      );
+    });
+
+    it('should skip the representative lookup when no districts are known', async () => {
+      addressRepo.findOne.mockResolvedValue({
+        id: 'addr-1',
+      } as UserAddressEntity);
+
+      const result = await service.getRepresentativesForAddress('user-1');
+
+      expect(result).toEqual({
+        addressId: 'addr-1',
+        matches: [],
+        missingDistricts: Object.values(DistrictTypeGQL),
+      });
+      expect(representativeRepo.createQueryBuilder).not.toHaveBeenCalled();
+    });
+
+    it('should return null when the address does not exist', async () => {
+      addressRepo.findOne.mockResolvedValue(null);
+
+      const result = await service.getRepresentativesForAddress('user-1');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('races', () => {
+    const incumbent = {
+      id: 'rep-uuid',
+      regionId: 'test-region',
+      externalId: 'rep-1',
+      name: 'John Doe',
+    } as RepresentativeEntity;
+
+    const race = (
+      id: string,
+      chamber?: string,
+      district?: string,
+    ): RaceEntity =>
+      ({
+        id,
+        regionId: 'test-region',
+        externalId: id,
+        office: `Office ${id}`,
+        chamber,
+        district,
+        electionDate: new Date('2099-11-05'),
+        candidates: [
+          {
+            name: 'John Doe',
+            incumbent: true,
+            representativeExternalId: 'rep-1',
+          },
+          { name: 'Pat Lee', incumbent: false },
+        ],
+      }) as unknown as RaceEntity;
+
+    const mockRaceQueryBuilder = (items: RaceEntity[]) => {
+      const qb = createMock<SelectQueryBuilder<RaceEntity>>();
+      qb.where.mockReturnThis();
+      qb.andWhere.mockReturnThis();
+      qb.orderBy.mockReturnThis();
+      qb.addOrderBy.mockReturnThis();
+      qb.skip.mockReturnThis();
+      qb.take.mockReturnThis();
+      qb.getCount.mockResolvedValue(items.length);
+      qb.getMany.mockResolvedValue(items);
+      raceRepo.createQueryBuilder.mockReturnValue(qb);
+      return qb;
+    };
+
+    it('should link incumbents to representatives of the same region', async () => {
+      raceRepo.findOne.mockResolvedValue(race('race-1'));
+      representativeRepo.find.mockResolvedValue([
+        incumbent,
+        { ...incumbent, id: 'other', regionId: 'other-region' },
+      ]);
+
+      const result = await service.getRace('race-1');
+
+      expect(representativeRepo.find).toHaveBeenCalledWith({
+        where: { externalId: In(['rep-1']) },
+      });
+      expect(result?.candidates.map((c) => c.representative)).toEqual([
+        incumbent,
+        undefined,
+      ]);
+    });
+
+    it('should filter races by office and chamber', async () => {
+      const qb = mockRaceQueryBuilder([]);
+
+      const result = await service.getRaces(0, 10, 'test-region', {
+        upcoming: true,
+        chamber: 'Senate',
+        query: 'district 1',
+      });
+
+      expect(result.items).toEqual([]);
+      expect(representativeRepo.find).not.toHaveBeenCalled();
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'LOWER(race.chamber) = LOWER(:chamber)',
+        { chamber: 'Senate' },
+      );
+      expect(qb.andWhere).toHaveBeenCalledWith('race.office ILIKE :text', {
+        text: '%district 1%',
+      });
+      expect(qb.orderBy).toHaveBeenCalledWith('race.electionDate', 'ASC');
+    });
+
+    it("should list the races on the user's ballot", async () => {
+      addressRepo.findOne.mockResolvedValue({
+        id: 'addr-1',
+        stateSenatorialDistrict: 'SD-1',
+      } as UserAddressEntity);
+      const qb = mockRaceQueryBuilder([
+        race('governor'),
+        race('senate-1', 'Senate', 'District 1'),
+        race('senate-2', 'Senate', 'District 2'),
+      ]);
+      representativeRepo.find.mockResolvedValue([incumbent]);
+
+      const result = await service.getBallotForAddress('user-1');
+
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        '(race.district IS NULL OR LOWER(TRIM(race.chamber)) IN (:...chambers))',
+        { chambers: ['senate', 'state senate'] },
+      );
+      expect(
+        result?.races.map((r) => [r.race.id, r.districtType, r.district]),
+      ).toEqual([
+        ['governor', undefined, undefined],
+        ['senate-1', DistrictTypeGQL.STATE_SENATE, 'SD-1'],
+      ]);
+      expect(result?.races[1].race.candidates[0].representative).toEqual(
+        incumbent,
+      );
+    });
+
+    it('should only list region-wide races when no districts are known', async () => {
+      addressRepo.findOne.mockResolvedValue({
+        id: 'addr-1',
+      } as UserAddressEntity);
+      const qb = mockRaceQueryBuilder([race('governor')]);
+
+      const result = await service.getBallotForAddress(
+        'user-1',
+        undefined,
+        'test-region',
+      );
+
+      expect(qb.andWhere).toHaveBeenCalledWith('race.district IS NULL');
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'race.regionId IN (:...regionIds)',
+        { regionIds: ['test-region'] },
+      );
+      expect(result?.races).toHaveLength(1);
+      expect(result?.missingDistricts).toEqual(Object.values(DistrictTypeGQL));
+    });
+
+    it('should return null when the address does not exist', async () => {
+      addressRepo.findOne.mockResolvedValue(null);
+
+      expect(await service.getBallotForAddress('user-1')).toBeNull();
+    });
+  });
 });
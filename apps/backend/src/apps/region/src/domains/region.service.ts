@@ -1,61 +1,571 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
 import {
+  FindOptionsWhere,
+  In,
+  IsNull,
+  MoreThanOrEqual,
+  Not,
+  ObjectLiteral,
+  Repository,
+} from 'typeorm';
+import {
+  RegionRegistry,
   RegionService as RegionProviderService,
   CivicDataType,
   SyncResult,
+  Proposition,
+  Meeting,
+  Representative,
+  Election,
+  Bill,
+  Vote,
+  Race,
 } from '@qckstrt/region-provider';
 import { PropositionEntity } from 'src/db/entities/proposition.entity';
+import { PropositionRevisionEntity } from 'src/db/entities/proposition-revision.entity';
 import { MeetingEntity } from 'src/db/entities/meeting.entity';
 import { RepresentativeEntity } from 'src/db/entities/representative.entity';
+import { ElectionEntity } from 'src/db/entities/election.entity';
+import { BillEntity } from 'src/db/entities/bill.entity';
+import { VoteEntity } from 'src/db/entities/vote.entity';
+import { RaceEntity } from 'src/db/entities/race.entity';
+import { UserAddressEntity } from 'src/db/entities/user-address.entity';
+import {
+  RegionSyncRunEntity,
+  SyncRunStatus,
+  SyncTrigger,
+} from 'src/db/entities/region-sync-run.entity';
 import { RegionInfoModel, CivicDataTypeGQL } from './models/region-info.model';
 import {
   PaginatedPropositions,
+  PropositionModel,
+  PropositionPositionGQL,
   PropositionStatusGQL,
+  VoteThresholdGQL,
 } from './models/proposition.model';
 import { PaginatedMeetings } from './models/meeting.model';
 import { PaginatedRepresentatives } from './models/representative.model';
+import {
+  PaginatedElections,
+  VoterDeadlineModel,
+  VoterDeadlineType,
+} from './models/election.model';
+import { BillModel, BillStatusGQL, PaginatedBills } from './models/bill.model';
+import {
+  PaginatedRepresentativeVotes,
+  VoteModel,
+  VoteOptionGQL,
+} from './models/vote.model';
+import { PaginatedRaces, RaceModel } from './models/race.model';
+import { MyBallotModel } from './models/my-ballot.model';
+import { PaginatedSyncRuns } from './models/sync-run.model';
+import { PaginatedRetiredRecords } from './models/retired-record.model';
+import { MyRepresentativesModel } from './models/my-representatives.model';
+import { PropositionRevisionModel } from './models/proposition-revision.model';
+import { SyncPreviewModel } from './models/sync-preview.model';
+import { diffLines } from './text-diff';
+import {
+  ValidationOutcome,
+  formatRejection,
+  validateProviderItems,
+} from './provider-validation';
+import {
+  DISTRICT_CHAMBERS,
+  getAddressDistricts,
+  matchRaces,
+  matchRepresentatives,
+  RegionStates,
+} from './district-matcher';
+import {
+  BillFilterInput,
+  ElectionFilterInput,
+  MeetingFilterInput,
+  PropositionFilterInput,
+  PropositionSortField,
+  RaceFilterInput,
+  SortOrder,
+} from './dto/region-filters.dto';
+
+// Text queries accept web-search syntax: quoted phrases, OR, -exclusions
+const SEARCH_TSQUERY = "websearch_to_tsquery('english', :text)";
+
+// Control characters mark matches so the snippet can be HTML-escaped
+// before the markers are turned into <mark> tags
+const HIGHLIGHT_START = '\u0001';
+const HIGHLIGHT_STOP = '\u0002';
+const HEADLINE_OPTIONS = [
+  `StartSel=${HIGHLIGHT_START}`,
+  `StopSel=${HIGHLIGHT_STOP}`,
+  'MaxWords=35',
+  'MinWords=15',
+  'MaxFragments=2',
+  'FragmentDelimiter=" … "',
+].join(', ');
+
+/**
+ * Escape a ts_headline snippet and wrap highlighted terms in <mark> tags
+ */
+function toHighlightedSnippet(snippet: string): string {
+  return snippet
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .replaceAll(HIGHLIGHT_START, '<mark>')
+    .replaceAll(HIGHLIGHT_STOP, '</mark>');
+}
+
+/**
+ * Escape LIKE wildcards so user input matches literally
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * Options for a sync run
+ */
+export interface SyncOptions {
+  // Work out the changes and record them in sync history without writing
+  // any civic records
+  dryRun?: boolean;
+  // Called as each data type starts, processes its items, hits an error
+  // and finishes
+  onProgress?: (progress: SyncProgress) => void;
+}
+
+/**
+ * Stages a data type goes through during a sync
+ */
+export enum SyncProgressStage {
+  STARTED = 'started',
+  ITEMS_PROCESSED = 'items_processed',
+  ERROR = 'error',
+  FINISHED = 'finished',
+}
+
+/**
+ * Progress of one data type's sync
+ *
+ * A data type that fails reports an ERROR and does not finish.
+ */
+export interface SyncProgress {
+  stage: SyncProgressStage;
+  regionId: string;
+  dataType: CivicDataType;
+  itemsProcessed?: number;
+  error?: string;
+  result?: RegionSyncResult;
+}
+
+/**
+ * A stored field value a sync changes
+ */
+export interface FieldChange {
+  field: string;
+  previousValue: string | null;
+  newValue: string | null;
+}
+
+/**
+ * A record a sync creates, updates or retires
+ */
+export interface RecordChange {
+  // Missing for records to be created
+  id?: string;
+  externalId: string;
+  label: string;
+  restored: boolean;
+  changes: FieldChange[];
+}
+
+/**
+ * Records changed by a sync of one data type
+ */
+export interface SyncChanges {
+  created: RecordChange[];
+  updated: RecordChange[];
+  retired: RecordChange[];
+}
+
+/**
+ * Outcome of a sync run; dry runs also list the changes they found
+ */
+export interface RegionSyncResult extends SyncResult {
+  runId?: string;
+  changes?: SyncChanges;
+}
+
+/**
+ * Work that runs after a sync writes a data type's records
+ *
+ * Listeners get the result with the changes the sync made. They run in the
+ * background, so a failing listener is logged and does not fail the sync.
+ */
+export type SyncListener = (result: RegionSyncResult) => Promise<void>;
+
+type CivicItem =
+  | Proposition
+  | Meeting
+  | Representative
+  | Election
+  | Bill
+  | Vote
+  | Race;
+
+/**
+ * Column values a sync writes for one civic record
+ */
+type CivicValues = Record<string, unknown> & { externalId: string };
+
+/**
+ * Everything syncing one data type would write, worked out before writing
+ *
+ * changes.updated holds every returned record that already exists, changed
+ * or not.
+ */
+interface SyncPlan {
+  dataType: CivicDataType;
+  regionId: string;
+  processed: number;
+  errors: string[];
+  entities: CivicValues[];
+  changes: SyncChanges;
+}
+
+/**
+ * Proposition fields tracked in revision history
+ */
+const PROPOSITION_REVISION_FIELDS = [
+  'title',
+  'summary',
+  'fullText',
+  'status',
+  'electionDate',
+  'sourceUrl',
+  'arguments',
+  'fiscalImpact',
+  'voteThreshold',
+  'endorsements',
+] as const;
+
+/**
+ * Fields a sync writes (and compares) for each data type, and the alias
+ * used when querying existing records
+ */
+const SYNC_FIELDS: Record<
+  CivicDataType,
+  { alias: string; fields: readonly string[] }
+> = {
+  [CivicDataType.PROPOSITIONS]: {
+    alias: 'p',
+    fields: PROPOSITION_REVISION_FIELDS,
+  },
+  [CivicDataType.MEETINGS]: {
+    alias: 'm',
+    fields: [
+      'title',
+      'body',
+      'scheduledAt',
+      'location',
+      'agendaUrl',
+      'minutesUrl',
+      'videoUrl',
+    ],
+  },
+  [CivicDataType.REPRESENTATIVES]: {
+    alias: 'r',
+    fields: ['name', 'chamber', 'district', 'party', 'photoUrl', 'contactInfo'],
+  },
+  [CivicDataType.ELECTIONS]: {
+    alias: 'e',
+    fields: [
+      'name',
+      'electionDate',
+      'registrationDeadline',
+      'mailBallotRequestDeadline',
+      'mailBallotReturnDeadline',
+      'earlyVotingStart',
+      'earlyVotingEnd',
+      'sourceUrl',
+    ],
+  },
+  [CivicDataType.BILLS]: {
+    alias: 'b',
+    fields: [
+      'number',
+      'title',
+      'summary',
+      'chamber',
+      'session',
+      'status',
+      'introducedAt',
+      'sponsors',
+      'actions',
+      'sourceUrl',
+    ],
+  },
+  [CivicDataType.VOTES]: {
+    alias: 'v',
+    fields: [
+      'billExternalId',
+      'motion',
+      'chamber',
+      'votedAt',
+      'passed',
+      'memberVotes',
+      'sourceUrl',
+    ],
+  },
+  [CivicDataType.RACES]: {
+    alias: 'rc',
+    fields: [
+      'electionExternalId',
+      'office',
+      'chamber',
+      'district',
+      'electionDate',
+      'candidates',
+      'sourceUrl',
+    ],
+  },
+};
+
+/**
+ * List an election's voter deadlines
+ */
+function toVoterDeadlines(election: ElectionEntity): VoterDeadlineModel[] {
+  const deadline = (type: VoterDeadlineType, date?: Date, endDate?: Date) =>
+    date
+      ? [
+          {
+            type,
+            date,
+            endDate,
+            electionId: election.id,
+            electionName: election.name,
+            electionDate: election.electionDate,
+            regionId: election.regionId,
+          },
+        ]
+      : [];
+
+  return [
+    ...deadline(VoterDeadlineType.REGISTRATION, election.registrationDeadline),
+    ...deadline(
+      VoterDeadlineType.MAIL_BALLOT_REQUEST,
+      election.mailBallotRequestDeadline,
+    ),
+    ...deadline(
+      VoterDeadlineType.MAIL_BALLOT_RETURN,
+      election.mailBallotReturnDeadline,
+    ),
+    ...deadline(
+      VoterDeadlineType.EARLY_VOTING,
+      election.earlyVotingStart,
+      election.earlyVotingEnd,
+    ),
+  ];
+}
+
+/**
+ * Present a stored proposition with its voter guide sections
+ */
+function toPropositionModel(proposition: PropositionEntity): PropositionModel {
+  return {
+    ...proposition,
+    status: proposition.status as PropositionStatusGQL,
+    arguments: proposition.arguments.map((argument) => ({
+      ...argument,
+      position: argument.position as PropositionPositionGQL,
+    })),
+    voteThreshold: proposition.voteThreshold as VoteThresholdGQL | undefined,
+    endorsements: proposition.endorsements.map((endorsement) => ({
+      ...endorsement,
+      position: endorsement.position as PropositionPositionGQL,
+    })),
+  };
+}
+
+/**
+ * Present a stored bill, reviving the dates of its JSON status timeline
+ */
+function toBillModel(bill: BillEntity): BillModel {
+  return {
+    ...bill,
+    status: bill.status as BillStatusGQL,
+    actions: bill.actions.map((action) => ({
+      ...action,
+      date: new Date(action.date),
+      status: action.status as BillStatusGQL | undefined,
+    })),
+  };
+}
+
+/**
+ * Present a stored roll-call vote
+ */
+function toVoteModel(vote: VoteEntity): VoteModel {
+  return {
+    ...vote,
+    memberVotes: vote.memberVotes.map((member) => ({
+      ...member,
+      option: member.option as VoteOptionGQL,
+    })),
+  };
+}
+
+/**
+ * Copy a value with the keys of every nested object sorted
+ */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value === null || typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, nested]) => [key, sortKeys(nested)]),
+  );
+}
+
+/**
+ * Compare and store a synced field value as a string (dates in ISO 8601,
+ * objects and arrays as JSON with sorted keys)
+ */
+function toFieldValue(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') {
+    return JSON.stringify(sortKeys(value));
+  }
+  return String(value);
+}
+
+/**
+ * List the fields whose values differ between a stored record and new values
+ */
+function diffFields(
+  fields: readonly string[],
+  previous: Record<string, unknown>,
+  next: Record<string, unknown>,
+): FieldChange[] {
+  return fields.flatMap((field) => {
+    const previousValue = toFieldValue(previous[field]);
+    const newValue = toFieldValue(next[field]);
+    return previousValue === newValue
+      ? []
+      : [{ field, previousValue, newValue }];
+  });
+}
+
+/**
+ * Present a dry run's result with line diffs of every changed field
+ */
+function toSyncPreview(result: RegionSyncResult): SyncPreviewModel {
+  const toModel = (record: RecordChange) => ({
+    ...record,
+    changes: record.changes.map(({ field, previousValue, newValue }) => ({
+      field,
+      previousValue: previousValue ?? undefined,
+      newValue: newValue ?? undefined,
+      diff: diffLines(previousValue ?? '', newValue ?? ''),
+    })),
+  });
+
+  return {
+    runId: result.runId,
+    regionId: result.regionId ?? '',
+    dataType: result.dataType as unknown as CivicDataTypeGQL,
+    itemsProcessed: result.itemsProcessed,
+    itemsCreated: result.itemsCreated,
+    itemsUpdated: result.itemsUpdated,
+    itemsRemoved: result.itemsRemoved,
+    errors: result.errors,
+    created: (result.changes?.created ?? []).map(toModel),
+    updated: (result.changes?.updated ?? []).map(toModel),
+    retired: (result.changes?.retired ?? []).map(toModel),
+  };
+}
 
 /**
  * Region Domain Service
  *
- * Handles civic data management for the region.
- * Syncs data from the provider and stores in the database.
+ * Handles civic data management for the configured regions.
+ * Syncs data from each region provider and stores it in the database,
+ * tagged with the provider's RegionInfo.id.
  */
 @Injectable()
 export class RegionDomainService {
   private readonly logger = new Logger(RegionDomainService.name, {
     timestamp: true,
   });
+  private readonly syncListeners: SyncListener[] = [];
 
   constructor(
-    private readonly regionService: RegionProviderService,
+    private readonly regionRegistry: RegionRegistry,
     @InjectRepository(PropositionEntity)
     private readonly propositionRepo: Repository<PropositionEntity>,
+    @InjectRepository(PropositionRevisionEntity)
+    private readonly revisionRepo: Repository<PropositionRevisionEntity>,
     @InjectRepository(MeetingEntity)
     private readonly meetingRepo: Repository<MeetingEntity>,
     @InjectRepository(RepresentativeEntity)
     private readonly representativeRepo: Repository<RepresentativeEntity>,
+    @InjectRepository(ElectionEntity)
+    private readonly electionRepo: Repository<ElectionEntity>,
+    @InjectRepository(BillEntity)
+    private readonly billRepo: Repository<BillEntity>,
+    @InjectRepository(VoteEntity)
+    private readonly voteRepo: Repository<VoteEntity>,
+    @InjectRepository(RaceEntity)
+    private readonly raceRepo: Repository<RaceEntity>,
+    @InjectRepository(RegionSyncRunEntity)
+    private readonly syncRunRepo: Repository<RegionSyncRunEntity>,
+    @InjectRepository(UserAddressEntity)
+    private readonly addressRepo: Repository<UserAddressEntity>,
+    private readonly configService: ConfigService,
   ) {
-    const info = regionService.getRegionInfo();
-    this.logger.log(
-      `RegionDomainService initialized with provider: ${regionService.getProviderName()} (${info.name})`,
-    );
+    for (const service of regionRegistry.getAll()) {
+      const info = service.getRegionInfo();
+      this.logger.log(
+        `RegionDomainService initialized with provider: ${service.getProviderName()} (${info.name})`,
+      );
+    }
+  }
+
+  /**
+   * Get the IDs of all configured regions
+   */
+  getRegionIds(): string[] {
+    return this.regionRegistry.getRegionIds();
+  }
+
+  /**
+   * Get information for all configured regions
+   */
+  getRegions(): RegionInfoModel[] {
+    return this.getRegionIds().map((regionId) => this.getRegionInfo(regionId));
   }
 
   /**
-   * Get region information
+   * Get region information (default region when no ID is given)
    */
-  getRegionInfo(): RegionInfoModel {
-    const info = this.regionService.getRegionInfo();
-    const supportedTypes = this.regionService.getSupportedDataTypes();
+  getRegionInfo(regionId?: string): RegionInfoModel {
+    const service = this.getRegionService(regionId);
+    const info = service.getRegionInfo();
+    const supportedTypes = service.getSupportedDataTypes();
 
     return {
       id: info.id,
       name: info.name,
       description: info.description,
       timezone: info.timezone,
+      state: info.state,
       dataSourceUrls: info.dataSourceUrls,
       supportedDataTypes: supportedTypes.map(
         (t) => t as unknown as CivicDataTypeGQL,
@@ -64,28 +574,118 @@ export class RegionDomainService {
   }
 
   /**
-   * Sync all data types from the provider
+   * Get the regions containing an address
+   *
+   * These are the regions in the address's state, or the default region
+   * when no region declares that state.
    */
-  async syncAll(): Promise<SyncResult[]> {
-    this.logger.log('Starting full data sync');
-    const results: SyncResult[] = [];
+  getRegionIdsForAddress(address: Pick<UserAddressEntity, 'state'>): string[] {
+    const state = address.state?.trim().toUpperCase();
+    const regionIds = this.regionRegistry
+      .getRegions()
+      .filter((region) => state && region.state?.toUpperCase() === state)
+      .map((region) => region.id);
 
-    const supportedTypes = this.regionService.getSupportedDataTypes();
+    return regionIds.length > 0
+      ? regionIds
+      : [this.regionRegistry.getDefault().getRegionInfo().id];
+  }
 
-    for (const dataType of supportedTypes) {
-      try {
-        const result = await this.syncDataType(dataType);
-        results.push(result);
-      } catch (error) {
-        this.logger.error(`Failed to sync ${dataType}:`, error);
-        results.push({
-          dataType,
-          itemsProcessed: 0,
-          itemsCreated: 0,
-          itemsUpdated: 0,
-          errors: [(error as Error).message],
-          syncedAt: new Date(),
-        });
+  /**
+   * Get the state code of each region that declares one
+   */
+  private getRegionStates(): RegionStates {
+    return new Map(
+      this.regionRegistry
+        .getRegions()
+        .flatMap((region) =>
+          region.state ? [[region.id, region.state.toUpperCase()]] : [],
+        ),
+    );
+  }
+
+  /**
+   * Get the data types supported by a region's provider
+   */
+  getSupportedDataTypes(regionId?: string): CivicDataType[] {
+    return this.getRegionService(regionId).getSupportedDataTypes();
+  }
+
+  /**
+   * Resolve a region's provider service (default region when no ID is given)
+   *
+   * @throws UnknownRegionError if the region is not configured
+   */
+  private getRegionService(regionId?: string): RegionProviderService {
+    return regionId
+      ? this.regionRegistry.get(regionId)
+      : this.regionRegistry.getDefault();
+  }
+
+  /**
+   * Register work to run after every sync that writes records
+   */
+  onSynced(listener: SyncListener): void {
+    this.syncListeners.push(listener);
+  }
+
+  /**
+   * Start the sync listeners without waiting for them
+   */
+  private notifySynced(result: RegionSyncResult): void {
+    for (const listener of this.syncListeners) {
+      listener(result).catch((error) =>
+        this.logger.error(
+          `Post-sync work for ${result.regionId}/${result.dataType} failed:`,
+          error,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Sync all data types from every region provider (or a single region)
+   *
+   * Regions are synced independently: a failure in one region's data type
+   * is reported in its result and does not stop the others.
+   */
+  async syncAll(
+    trigger: SyncTrigger = SyncTrigger.MANUAL,
+    regionId?: string,
+    options: SyncOptions = {},
+  ): Promise<RegionSyncResult[]> {
+    this.logger.log(
+      options.dryRun ? 'Starting dry-run data sync' : 'Starting full data sync',
+    );
+    const results: RegionSyncResult[] = [];
+
+    const regionIds = regionId ? [regionId] : this.getRegionIds();
+
+    for (const id of regionIds) {
+      const supportedTypes = this.getRegionService(id).getSupportedDataTypes();
+
+      for (const dataType of supportedTypes) {
+        try {
+          const result = await this.syncDataType(
+            dataType,
+            trigger,
+            id,
+            options,
+          );
+          results.push(result);
+        } catch (error) {
+          this.logger.error(`Failed to sync ${id}/${dataType}:`, error);
+          results.push({
+            regionId: id,
+            dataType,
+            itemsProcessed: 0,
+            itemsCreated: 0,
+            itemsUpdated: 0,
+            itemsRemoved: 0,
+            errors: [(error as Error).message],
+            syncedAt: new Date(),
+          });
+        }
       }
     }
 
@@ -95,244 +695,852 @@ export class RegionDomainService {
 
   /**
    * Sync a specific data type
+   *
+   * With dryRun, nothing but the sync history is written and the result
+   * lists the records that would be created, updated and retired.
    */
-  async syncDataType(dataType: CivicDataType): Promise<SyncResult> {
-    this.logger.log(`Syncing ${dataType}`);
-    const startTime = Date.now();
+  async syncDataType(
+    dataType: CivicDataType,
+    trigger: SyncTrigger = SyncTrigger.MANUAL,
+    regionId?: string,
+    options: SyncOptions = {},
+  ): Promise<RegionSyncResult> {
+    const provider = this.getRegionService(regionId);
 
-    const syncHandlers: Record<
-      CivicDataType,
-      () => Promise<{ processed: number; created: number; updated: number }>
-    > = {
-      [CivicDataType.PROPOSITIONS]: () => this.syncPropositions(),
-      [CivicDataType.MEETINGS]: () => this.syncMeetings(),
-      [CivicDataType.REPRESENTATIVES]: () => this.syncRepresentatives(),
-    };
+    return this.runSync(
+      provider.getRegionInfo().id,
+      dataType,
+      trigger,
+      async () =>
+        validateProviderItems(
+          dataType,
+          await this.fetchProviderItems(provider, dataType),
+        ),
+      options,
+    );
+  }
+
+  /**
+   * Preview what syncing would change, without writing any civic records
+   *
+   * Each data type's dry run is recorded in the sync history and can be
+   * applied with applySyncPreview once reviewed.
+   */
+  async previewSync(
+    regionId?: string,
+    dataType?: CivicDataType,
+  ): Promise<SyncPreviewModel[]> {
+    const results = dataType
+      ? [
+          await this.syncDataType(dataType, SyncTrigger.MANUAL, regionId, {
+            dryRun: true,
+          }),
+        ]
+      : await this.syncAll(SyncTrigger.MANUAL, regionId, { dryRun: true });
+
+    return results.map(toSyncPreview);
+  }
+
+  /**
+   * Apply a reviewed dry run
+   *
+   * Writes the provider items the dry run fetched rather than fetching
+   * again, so what is applied is what was reviewed. Changes are worked out
+   * again against the records stored now.
+   *
+   * @throws NotFoundException if the run is not a dry run awaiting apply
+   * @throws UnknownRegionError if its region is no longer configured
+   */
+  async applySyncPreview(runId: string): Promise<RegionSyncResult> {
+    const notFound = new NotFoundException(
+      `No sync preview ${runId} is awaiting apply`,
+    );
+    const preview = await this.syncRunRepo.findOne({
+      select: {
+        id: true,
+        regionId: true,
+        dataType: true,
+        status: true,
+        previewItems: true,
+      },
+      where: { id: runId, dryRun: true },
+    });
+    if (!preview?.previewItems || preview.status !== SyncRunStatus.PREVIEWED) {
+      throw notFound;
+    }
+    this.getRegionService(preview.regionId);
+
+    // Claim the preview first so concurrent requests apply it only once
+    const claim = await this.syncRunRepo.update(
+      { id: runId, status: SyncRunStatus.PREVIEWED },
+      { status: SyncRunStatus.APPLIED },
+    );
+    if (!claim.affected) {
+      throw notFound;
+    }
+
+    const dataType = preview.dataType as CivicDataType;
+    const { items, rejected } = preview.previewItems;
+    try {
+      const result = await this.runSync(
+        preview.regionId,
+        dataType,
+        SyncTrigger.MANUAL,
+        // Stored items are JSON; validating them again revives their dates
+        async () => {
+          const validation = validateProviderItems(dataType, items);
+          return {
+            valid: validation.valid,
+            rejected: [...rejected, ...validation.rejected],
+          };
+        },
+        { previewRunId: runId },
+      );
+      await this.syncRunRepo.update(runId, { previewItems: null });
+      return result;
+    } catch (error) {
+      await this.syncRunRepo.update(runId, {
+        status: SyncRunStatus.PREVIEWED,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Run a sync of one data type from loaded provider items
+   *
+   * Every run is recorded in the sync history, including failed ones. A
+   * dry run also records the items it loaded so it can be applied later.
+   */
+  private async runSync(
+    regionId: string,
+    dataType: CivicDataType,
+    trigger: SyncTrigger,
+    load: () => Promise<ValidationOutcome<CivicItem>>,
+    options: SyncOptions & { previewRunId?: string },
+  ): Promise<RegionSyncResult> {
+    const dryRun = options.dryRun ?? false;
+    this.logger.log(
+      `${dryRun ? 'Previewing' : 'Syncing'} ${regionId}/${dataType}`,
+    );
+    const startTime = Date.now();
+    const runId = await this.startSyncRun(
+      regionId,
+      dataType,
+      trigger,
+      startTime,
+      options,
+    );
+    const report = (progress: Omit<SyncProgress, 'regionId' | 'dataType'>) =>
+      options.onProgress?.({ regionId, dataType, ...progress });
+    report({ stage: SyncProgressStage.STARTED });
 
-    const handler = syncHandlers[dataType];
-    const { processed, created, updated } = await handler();
+    let validation: ValidationOutcome<CivicItem>;
+    let plan: SyncPlan;
+    try {
+      validation = await load();
+      plan = await this.planSync(dataType, regionId, validation);
+      report({
+        stage: SyncProgressStage.ITEMS_PROCESSED,
+        itemsProcessed: plan.processed,
+      });
+      for (const error of plan.errors) {
+        report({ stage: SyncProgressStage.ERROR, error });
+      }
+      if (!dryRun) {
+        await this.applySyncPlan(plan, runId);
+      }
+    } catch (error) {
+      await this.finishSyncRun(runId, startTime, SyncRunStatus.FAILED, {
+        errors: [(error as Error).message],
+      });
+      report({
+        stage: SyncProgressStage.ERROR,
+        error: (error as Error).message,
+      });
+      throw error;
+    }
+    const { processed, errors, changes } = plan;
+    const created = changes.created.length;
+    const updated = changes.updated.length;
+    const removed = changes.retired.length;
 
     const duration = Date.now() - startTime;
     this.logger.log(
-      `Synced ${dataType}: ${processed} items (${created} created, ${updated} updated) in ${duration}ms`,
+      `${dryRun ? 'Previewed' : 'Synced'} ${regionId}/${dataType}: ${processed} items (${created} created, ${updated} updated, ${removed} removed) in ${duration}ms`,
     );
 
-    return {
+    const result: RegionSyncResult = {
+      runId,
+      regionId,
       dataType,
       itemsProcessed: processed,
       itemsCreated: created,
       itemsUpdated: updated,
-      errors: [],
+      itemsRemoved: removed,
+      errors,
       syncedAt: new Date(),
     };
+
+    await this.finishSyncRun(
+      runId,
+      startTime,
+      dryRun ? SyncRunStatus.PREVIEWED : SyncRunStatus.COMPLETED,
+      {
+        itemsProcessed: result.itemsProcessed,
+        itemsCreated: result.itemsCreated,
+        itemsUpdated: result.itemsUpdated,
+        itemsRemoved: result.itemsRemoved,
+        errors: result.errors,
+        ...(dryRun && {
+          previewItems: {
+            items: validation.valid,
+            rejected: validation.rejected,
+          },
+        }),
+      },
+    );
+
+    report({ stage: SyncProgressStage.FINISHED, result });
+
+    if (!dryRun) {
+      this.notifySynced({ ...result, changes });
+      return result;
+    }
+    // Unchanged records are left out of the preview
+    return {
+      ...result,
+      changes: {
+        ...changes,
+        updated: changes.updated.filter(
+          (record) => record.restored || record.changes.length > 0,
+        ),
+      },
+    };
   }
 
   /**
-   * Sync propositions using bulk upsert
+   * Record the start of a sync run
    *
-   * PERFORMANCE: Uses batch upsert instead of N+1 queries
-   * This reduces database round trips from O(2n) to O(2) queries
+   * History is best-effort: a failure to write it must not block the sync.
    */
-  private async syncPropositions(): Promise<{
-    processed: number;
-    created: number;
-    updated: number;
-  }> {
-    const propositions = await this.regionService.fetchPropositions();
-    if (propositions.length === 0) {
-      return { processed: 0, created: 0, updated: 0 };
-    }
-
-    // Get existing externalIds in a single query to calculate created vs updated
-    const externalIds = propositions.map((p) => p.externalId);
-    const existingRecords = await this.propositionRepo
-      .createQueryBuilder('p')
-      .select('p.externalId')
-      .where('p.externalId IN (:...externalIds)', { externalIds })
-      .getMany();
-    const existingExternalIds = new Set(
-      existingRecords.map((r) => r.externalId),
-    );
-
-    // Batch upsert all propositions in a single query
-    const entities = propositions.map((prop) => ({
-      externalId: prop.externalId,
-      title: prop.title,
-      summary: prop.summary,
-      fullText: prop.fullText,
-      status: prop.status,
-      electionDate: prop.electionDate,
-      sourceUrl: prop.sourceUrl,
-    }));
+  private async startSyncRun(
+    regionId: string,
+    dataType: CivicDataType,
+    trigger: SyncTrigger,
+    startTime: number,
+    options: SyncOptions & { previewRunId?: string },
+  ): Promise<string | undefined> {
+    try {
+      const run = await this.syncRunRepo.save(
+        this.syncRunRepo.create({
+          regionId,
+          dataType,
+          trigger,
+          status: SyncRunStatus.RUNNING,
+          startedAt: new Date(startTime),
+          dryRun: options.dryRun ?? false,
+          previewRunId: options.previewRunId,
+        }),
+      );
+      return run.id;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record sync run start for ${regionId}/${dataType}: ${(error as Error).message}`,
+      );
+      return undefined;
+    }
+  }
 
-    await this.propositionRepo.upsert(entities, {
-      conflictPaths: ['externalId'],
-      skipUpdateIfNoValuesChanged: true,
-    });
+  /**
+   * Record the outcome of a sync run
+   */
+  private async finishSyncRun(
+    runId: string | undefined,
+    startTime: number,
+    status: SyncRunStatus,
+    outcome: Partial<
+      Pick<
+        RegionSyncRunEntity,
+        | 'itemsProcessed'
+        | 'itemsCreated'
+        | 'itemsUpdated'
+        | 'itemsRemoved'
+        | 'errors'
+        | 'previewItems'
+      >
+    >,
+  ): Promise<void> {
+    if (!runId) return;
 
-    const created = propositions.filter(
-      (p) => !existingExternalIds.has(p.externalId),
-    ).length;
-    const updated = propositions.filter((p) =>
-      existingExternalIds.has(p.externalId),
-    ).length;
+    const completedAt = new Date();
+    try {
+      await this.syncRunRepo.update(runId, {
+        ...outcome,
+        status,
+        completedAt,
+        durationMs: completedAt.getTime() - startTime,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record sync run ${runId}: ${(error as Error).message}`,
+      );
+    }
+  }
 
-    return { processed: propositions.length, created, updated };
+  /**
+   * Fetch one data type's items from a region provider
+   */
+  private fetchProviderItems(
+    provider: RegionProviderService,
+    dataType: CivicDataType,
+  ): Promise<CivicItem[]> {
+    switch (dataType) {
+      case CivicDataType.PROPOSITIONS:
+        return provider.fetchPropositions();
+      case CivicDataType.MEETINGS:
+        return provider.fetchMeetings();
+      case CivicDataType.REPRESENTATIVES:
+        return provider.fetchRepresentatives();
+      case CivicDataType.ELECTIONS:
+        return provider.fetchElections();
+      case CivicDataType.BILLS:
+        return provider.fetchBills();
+      case CivicDataType.VOTES:
+        return provider.fetchVotes();
+      case CivicDataType.RACES:
+        return provider.fetchRaces();
+    }
   }
 
   /**
-   * Sync meetings using bulk upsert
+   * Work out what syncing a data type's validated items would write
    *
-   * PERFORMANCE: Uses batch upsert instead of N+1 queries
-   * This reduces database round trips from O(2n) to O(2) queries
-   * @see https://github.com/CommonwealthLabsCode/qckstrt/issues/197
+   * Only reads: returned items are matched to existing records (including
+   * retired ones) in a single query, and records the provider no longer
+   * returns are picked for retirement.
    */
-  private async syncMeetings(): Promise<{
-    processed: number;
-    created: number;
-    updated: number;
-  }> {
-    const meetings = await this.regionService.fetchMeetings();
-    if (meetings.length === 0) {
-      return { processed: 0, created: 0, updated: 0 };
-    }
-
-    // Get existing externalIds in a single query to calculate created vs updated
-    const externalIds = meetings.map((m) => m.externalId);
-    const existingRecords = await this.meetingRepo
-      .createQueryBuilder('m')
-      .select('m.externalId')
-      .where('m.externalId IN (:...externalIds)', { externalIds })
-      .getMany();
-    const existingExternalIds = new Set(
-      existingRecords.map((r) => r.externalId),
+  private async planSync(
+    dataType: CivicDataType,
+    regionId: string,
+    validation: ValidationOutcome<CivicItem>,
+  ): Promise<SyncPlan> {
+    const { alias, fields } = SYNC_FIELDS[dataType];
+    const { repo, labelColumn } = this.getCivicRepository(dataType);
+    const { errors, returnedIds } = this.reportRejected(
+      dataType,
+      regionId,
+      validation,
     );
 
-    // Batch upsert all meetings in a single query
-    const entities = meetings.map((meeting) => ({
-      externalId: meeting.externalId,
-      title: meeting.title,
-      body: meeting.body,
-      scheduledAt: meeting.scheduledAt,
-      location: meeting.location,
-      agendaUrl: meeting.agendaUrl,
-      videoUrl: meeting.videoUrl,
+    const entities: CivicValues[] = validation.valid.map((item) => ({
+      regionId,
+      externalId: item.externalId,
+      ...Object.fromEntries(
+        fields.map((field) => [field, item[field as keyof CivicItem]]),
+      ),
     }));
 
-    await this.meetingRepo.upsert(entities, {
-      conflictPaths: ['externalId'],
-      skipUpdateIfNoValuesChanged: true,
-    });
+    // Get existing records, including retired ones, in a single query to
+    // calculate created vs updated and detect changed fields
+    const existingRecords =
+      entities.length === 0
+        ? []
+        : await repo
+            .createQueryBuilder(alias)
+            .select([
+              `${alias}.id`,
+              `${alias}.externalId`,
+              `${alias}.deletedAt`,
+              ...fields.map((field) => `${alias}.${field}`),
+            ])
+            .withDeleted()
+            .where(
+              `${alias}.regionId = :regionId AND ${alias}.externalId IN (:...externalIds)`,
+              { regionId, externalIds: entities.map((e) => e.externalId) },
+            )
+            .getMany();
+    const existingByExternalId = new Map(
+      existingRecords.map((r) => [r.externalId as string, r]),
+    );
+
+    const created: RecordChange[] = [];
+    const updated: RecordChange[] = [];
+    for (const entity of entities) {
+      const existing = existingByExternalId.get(entity.externalId);
+      const label = String(entity[labelColumn]);
+      if (existing) {
+        updated.push({
+          id: existing.id,
+          externalId: entity.externalId,
+          label,
+          restored: Boolean(existing.deletedAt),
+          changes: diffFields(fields, existing, entity),
+        });
+      } else {
+        created.push({
+          externalId: entity.externalId,
+          label,
+          restored: false,
+          changes: diffFields(fields, {}, entity),
+        });
+      }
+    }
 
-    const created = meetings.filter(
-      (m) => !existingExternalIds.has(m.externalId),
-    ).length;
-    const updated = meetings.filter((m) =>
-      existingExternalIds.has(m.externalId),
-    ).length;
+    const retirement = await this.findMissing(dataType, regionId, returnedIds);
 
-    return { processed: meetings.length, created, updated };
+    return {
+      dataType,
+      regionId,
+      processed: validation.valid.length + validation.rejected.length,
+      errors: [...errors, ...retirement.errors],
+      entities,
+      changes: { created, updated, retired: retirement.retired },
+    };
   }
 
   /**
-   * Sync representatives using bulk upsert
+   * Write a sync plan
    *
    * PERFORMANCE: Uses batch upsert instead of N+1 queries
    * This reduces database round trips from O(2n) to O(2) queries
    * @see https://github.com/CommonwealthLabsCode/qckstrt/issues/197
+   *
+   * Changes to existing propositions are recorded as revisions, tagged
+   * with the sync run.
    */
-  private async syncRepresentatives(): Promise<{
-    processed: number;
-    created: number;
-    updated: number;
-  }> {
-    const reps = await this.regionService.fetchRepresentatives();
-    if (reps.length === 0) {
-      return { processed: 0, created: 0, updated: 0 };
-    }
-
-    // Get existing externalIds in a single query to calculate created vs updated
-    const externalIds = reps.map((r) => r.externalId);
-    const existingRecords = await this.representativeRepo
-      .createQueryBuilder('r')
-      .select('r.externalId')
-      .where('r.externalId IN (:...externalIds)', { externalIds })
-      .getMany();
-    const existingExternalIds = new Set(
-      existingRecords.map((r) => r.externalId),
-    );
+  private async applySyncPlan(plan: SyncPlan, runId?: string): Promise<void> {
+    const { dataType, regionId, entities, changes } = plan;
+    const { repo } = this.getCivicRepository(dataType);
 
-    // Batch upsert all representatives in a single query
-    const entities = reps.map((rep) => ({
-      externalId: rep.externalId,
-      name: rep.name,
-      chamber: rep.chamber,
-      district: rep.district,
-      party: rep.party,
-      photoUrl: rep.photoUrl,
-      contactInfo: rep.contactInfo,
-    }));
+    if (entities.length > 0) {
+      await repo.upsert(entities, {
+        conflictPaths: ['regionId', 'externalId'],
+        skipUpdateIfNoValuesChanged: true,
+      });
+    }
 
-    await this.representativeRepo.upsert(entities, {
-      conflictPaths: ['externalId'],
-      skipUpdateIfNoValuesChanged: true,
-    });
+    if (dataType === CivicDataType.PROPOSITIONS) {
+      await this.recordRevisions(regionId, changes.updated, runId);
+    }
 
-    const created = reps.filter(
-      (r) => !existingExternalIds.has(r.externalId),
-    ).length;
-    const updated = reps.filter((r) =>
-      existingExternalIds.has(r.externalId),
-    ).length;
+    // Un-retire records the provider returns again
+    const restoredIds = changes.updated.flatMap((r) =>
+      r.restored && r.id ? [r.id] : [],
+    );
+    if (restoredIds.length > 0) {
+      await repo.restore(restoredIds);
+      this.logger.log(
+        `Restored ${restoredIds.length} retired ${dataType} returned again by ${regionId}`,
+      );
+    }
 
-    return { processed: reps.length, created, updated };
+    const retiredIds = changes.retired.flatMap((r) => (r.id ? [r.id] : []));
+    if (retiredIds.length > 0) {
+      await repo.softDelete(retiredIds);
+    }
   }
 
   /**
-   * Get propositions with pagination
+   * Record revisions of existing propositions whose tracked fields changed
    */
-  async getPropositions(
-    skip: number = 0,
-    take: number = 10,
-  ): Promise<PaginatedPropositions> {
-    const [items, total] = await this.propositionRepo.findAndCount({
-      order: { electionDate: 'DESC', createdAt: 'DESC' },
-      skip,
-      take: take + 1,
-    });
+  private async recordRevisions(
+    regionId: string,
+    updated: RecordChange[],
+    runId?: string,
+  ): Promise<void> {
+    const revisions: Partial<PropositionRevisionEntity>[] = updated
+      .filter((record) => record.changes.length > 0)
+      .map((record) => ({
+        propositionId: record.id,
+        syncRunId: runId,
+        changedFields: record.changes.map((change) => change.field),
+        previousValues: Object.fromEntries(
+          record.changes.map((change) => [change.field, change.previousValue]),
+        ),
+        newValues: Object.fromEntries(
+          record.changes.map((change) => [change.field, change.newValue]),
+        ),
+      }));
+    if (revisions.length === 0) return;
 
-    const hasMore = items.length > take;
-    const paginatedItems = items.slice(0, take);
+    await this.revisionRepo.insert(revisions);
+    this.logger.log(
+      `Recorded ${revisions.length} proposition revisions for ${regionId}`,
+    );
+  }
 
-    return {
-      items: paginatedItems.map((item) => ({
-        ...item,
-        status: item.status as unknown as PropositionStatusGQL,
+  /**
+   * Log rejected provider items and describe them for the sync result
+   *
+   * Rejected items are still returned by the provider, so their externalIds
+   * count as returned and their stored records are not retired.
+   */
+  private reportRejected(
+    dataType: CivicDataType,
+    regionId: string,
+    validation: ValidationOutcome<{ externalId: string }>,
+  ): { errors: string[]; returnedIds: string[] } {
+    const errors = validation.rejected.map((rejected) =>
+      formatRejection(dataType, rejected),
+    );
+    if (errors.length > 0) {
+      this.logger.warn(
+        `Skipped ${errors.length} invalid ${dataType} from ${regionId}`,
+      );
+    }
+
+    return {
+      errors,
+      returnedIds: [
+        ...validation.valid.map((item) => item.externalId),
+        ...validation.rejected.flatMap((r) =>
+          r.externalId ? [r.externalId] : [],
+        ),
+      ],
+    };
+  }
+
+  /**
+   * Find a region's records the provider no longer returns, to be retired
+   *
+   * Only upcoming meetings, elections and races are candidates: providers
+   * commonly list a window of recent ones, and a past one dropping out of
+   * it wasn't cancelled. Bills and votes are never retired,
+   * since they stay part of the legislative record after a session ends.
+   * Nothing is retired if the share of records to retire exceeds
+   * region.removalThreshold; the sync reports an error instead.
+   */
+  private async findMissing(
+    dataType: CivicDataType,
+    regionId: string,
+    externalIds: string[],
+  ): Promise<{ retired: RecordChange[]; errors: string[] }> {
+    if (dataType === CivicDataType.BILLS || dataType === CivicDataType.VOTES) {
+      return { retired: [], errors: [] };
+    }
+
+    const { repo, labelColumn } = this.getCivicRepository(dataType);
+    const where: FindOptionsWhere<ObjectLiteral> = { regionId };
+    if (dataType === CivicDataType.MEETINGS) {
+      where.scheduledAt = MoreThanOrEqual(new Date());
+    } else if (
+      dataType === CivicDataType.ELECTIONS ||
+      dataType === CivicDataType.RACES
+    ) {
+      where.electionDate = MoreThanOrEqual(new Date());
+    }
+    const active = await repo.find({
+      select: { id: true, externalId: true, [labelColumn]: true },
+      where,
+    });
+
+    const returned = new Set(externalIds);
+    const missing = active.filter((r) => !returned.has(r.externalId));
+    if (missing.length === 0) {
+      return { retired: [], errors: [] };
+    }
+
+    const threshold = this.configService.get<number>(
+      'region.removalThreshold',
+      0.5,
+    );
+    if (missing.length / active.length > threshold) {
+      const message = `Not retiring ${missing.length} of ${active.length} ${dataType}: exceeds removal threshold of ${Math.round(threshold * 100)}%`;
+      this.logger.warn(`${regionId}: ${message}`);
+      return { retired: [], errors: [message] };
+    }
+
+    return {
+      retired: missing.map((record) => ({
+        id: record.id,
+        externalId: record.externalId,
+        label: record[labelColumn],
+        restored: false,
+        changes: [],
+      })),
+      errors: [],
+    };
+  }
+
+  /**
+   * Repository and display column for a civic data type
+   */
+  private getCivicRepository(dataType: CivicDataType): {
+    repo: Repository<ObjectLiteral>;
+    labelColumn: string;
+  } {
+    switch (dataType) {
+      case CivicDataType.PROPOSITIONS:
+        return { repo: this.propositionRepo, labelColumn: 'title' };
+      case CivicDataType.MEETINGS:
+        return { repo: this.meetingRepo, labelColumn: 'title' };
+      case CivicDataType.REPRESENTATIVES:
+        return { repo: this.representativeRepo, labelColumn: 'name' };
+      case CivicDataType.ELECTIONS:
+        return { repo: this.electionRepo, labelColumn: 'name' };
+      case CivicDataType.BILLS:
+        return { repo: this.billRepo, labelColumn: 'number' };
+      case CivicDataType.VOTES:
+        return { repo: this.voteRepo, labelColumn: 'motion' };
+      case CivicDataType.RACES:
+        return { repo: this.raceRepo, labelColumn: 'office' };
+    }
+  }
+
+  /**
+   * Get records retired by sync, most recently retired first
+   */
+  async getRetiredRecords(
+    dataType: CivicDataType,
+    skip: number = 0,
+    take: number = 10,
+    regionId?: string,
+  ): Promise<PaginatedRetiredRecords> {
+    const { repo, labelColumn } = this.getCivicRepository(dataType);
+    const [items, total] = await repo.findAndCount({
+      where: {
+        deletedAt: Not(IsNull()),
+        ...(regionId && { regionId }),
+      },
+      withDeleted: true,
+      order: { deletedAt: 'DESC' },
+      skip,
+      take: take + 1,
+    });
+
+    const hasMore = items.length > take;
+    const paginatedItems = items.slice(0, take);
+
+    return {
+      items: paginatedItems.map((item) => ({
+        id: item.id,
+        regionId: item.regionId,
+        externalId: item.externalId,
+        label: item[labelColumn],
+        deletedAt: item.deletedAt,
       })),
       total,
       hasMore,
     };
   }
 
+  /**
+   * Restore retired records by ID
+   *
+   * Records the provider still doesn't return are retired again by the
+   * next sync.
+   *
+   * @returns the number of records restored
+   */
+  async restoreRecords(
+    dataType: CivicDataType,
+    ids: string[],
+  ): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const result = await this.getCivicRepository(dataType).repo.restore({
+      id: In(ids),
+      deletedAt: Not(IsNull()),
+    });
+    this.logger.log(`Restored ${result.affected ?? 0} retired ${dataType}`);
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Get propositions with pagination, optionally limited to one region
+   *
+   * A text query matches title, summary and full text; results are then
+   * ranked by relevance and carry a highlighted snippet.
+   */
+  async getPropositions(
+    skip: number = 0,
+    take: number = 10,
+    regionId?: string,
+    filter?: PropositionFilterInput,
+  ): Promise<PaginatedPropositions> {
+    const query = this.propositionRepo.createQueryBuilder('prop');
+
+    if (regionId) {
+      query.andWhere('prop.regionId = :regionId', { regionId });
+    }
+
+    if (filter?.statuses?.length) {
+      query.andWhere('prop.status IN (:...statuses)', {
+        statuses: filter.statuses,
+      });
+    }
+
+    if (filter?.electionDateFrom) {
+      query.andWhere('prop.electionDate >= :electionDateFrom', {
+        electionDateFrom: filter.electionDateFrom,
+      });
+    }
+
+    if (filter?.electionDateTo) {
+      query.andWhere('prop.electionDate <= :electionDateTo', {
+        electionDateTo: filter.electionDateTo,
+      });
+    }
+
+    const text = filter?.query?.trim();
+    if (text) {
+      query
+        .andWhere(`prop.searchVector @@ ${SEARCH_TSQUERY}`)
+        .addSelect(
+          `ts_rank(prop.searchVector, ${SEARCH_TSQUERY})`,
+          'search_rank',
+        )
+        .addSelect(
+          `ts_headline('english', concat_ws(' ', prop.summary, prop.fullText), ${SEARCH_TSQUERY}, :headlineOptions)`,
+          'search_snippet',
+        )
+        .setParameters({ text, headlineOptions: HEADLINE_OPTIONS });
+    }
+
+    const sortBy =
+      filter?.sortBy ??
+      (text
+        ? PropositionSortField.RELEVANCE
+        : PropositionSortField.ELECTION_DATE);
+    if (sortBy === PropositionSortField.RELEVANCE && text) {
+      query.orderBy('search_rank', filter?.sortOrder ?? SortOrder.DESC);
+    } else if (sortBy === PropositionSortField.TITLE) {
+      query.orderBy('prop.title', filter?.sortOrder ?? SortOrder.ASC);
+    } else {
+      query.orderBy(
+        'prop.electionDate',
+        filter?.sortOrder ?? SortOrder.DESC,
+        'NULLS LAST',
+      );
+    }
+    query.addOrderBy('prop.createdAt', 'DESC');
+
+    const total = await query.getCount();
+    const { entities, raw } = await query
+      .skip(skip)
+      .take(take + 1)
+      .getRawAndEntities<{
+        prop_id: string;
+        search_rank?: number;
+        search_snippet?: string;
+      }>();
+
+    const hasMore = entities.length > take;
+    const paginatedItems = entities.slice(0, take);
+    const matches = new Map(raw.map((row) => [row.prop_id, row]));
+
+    return {
+      items: paginatedItems.map((item) => {
+        const match = text ? matches.get(item.id) : undefined;
+        return {
+          ...toPropositionModel(item),
+          ...(match && {
+            searchRank: Number(match.search_rank),
+            searchSnippet: toHighlightedSnippet(match.search_snippet ?? ''),
+          }),
+        };
+      }),
+      total,
+      hasMore,
+    };
+  }
+
   /**
    * Get a single proposition by ID
    */
-  async getProposition(id: string) {
-    return this.propositionRepo.findOne({ where: { id } });
+  async getProposition(id: string): Promise<PropositionModel | null> {
+    const proposition = await this.propositionRepo.findOne({ where: { id } });
+    return proposition ? toPropositionModel(proposition) : null;
   }
 
   /**
-   * Get meetings with pagination
+   * Get a proposition's revision history, most recent first
+   *
+   * Each changed field comes with a line-level diff between its previous
+   * and new value.
+   */
+  async getPropositionRevisions(
+    propositionId: string,
+  ): Promise<PropositionRevisionModel[]> {
+    const revisions = await this.revisionRepo.find({
+      where: { propositionId },
+      order: { createdAt: 'DESC' },
+    });
+
+    return revisions.map((revision) => ({
+      id: revision.id,
+      propositionId: revision.propositionId,
+      syncRunId: revision.syncRunId ?? undefined,
+      changedFields: revision.changedFields,
+      createdAt: revision.createdAt,
+      changes: revision.changedFields.map((field) => {
+        const previousValue = revision.previousValues[field] ?? undefined;
+        const newValue = revision.newValues[field] ?? undefined;
+        return {
+          field,
+          previousValue,
+          newValue,
+          diff: diffLines(previousValue ?? '', newValue ?? ''),
+        };
+      }),
+    }));
+  }
+
+  /**
+   * Get meetings with pagination, optionally limited to one region
    */
   async getMeetings(
     skip: number = 0,
     take: number = 10,
+    regionId?: string,
+    filter?: MeetingFilterInput,
   ): Promise<PaginatedMeetings> {
-    const [items, total] = await this.meetingRepo.findAndCount({
-      order: { scheduledAt: 'DESC' },
-      skip,
-      take: take + 1,
-    });
+    const query = this.meetingRepo.createQueryBuilder('meeting');
+
+    if (regionId) {
+      query.andWhere('meeting.regionId = :regionId', { regionId });
+    }
+
+    if (filter?.body) {
+      query.andWhere('LOWER(meeting.body) = LOWER(:body)', {
+        body: filter.body.trim(),
+      });
+    }
+
+    if (filter?.dateFrom) {
+      query.andWhere('meeting.scheduledAt >= :dateFrom', {
+        dateFrom: filter.dateFrom,
+      });
+    }
+
+    if (filter?.dateTo) {
+      query.andWhere('meeting.scheduledAt <= :dateTo', {
+        dateTo: filter.dateTo,
+      });
+    }
+
+    if (filter?.upcoming) {
+      query.andWhere('meeting.scheduledAt >= :now', { now: new Date() });
+    }
+
+    if (filter?.location) {
+      query.andWhere('meeting.location ILIKE :location', {
+        location: `%${escapeLikePattern(filter.location.trim())}%`,
+      });
+    }
+
+    // Upcoming meetings read soonest first; history reads newest first
+    query.orderBy(
+      'meeting.scheduledAt',
+      filter?.sortOrder ?? (filter?.upcoming ? SortOrder.ASC : SortOrder.DESC),
+    );
+
+    const total = await query.getCount();
+    const items = await query
+      .skip(skip)
+      .take(take + 1)
+      .getMany();
 
     const hasMore = items.length > take;
     const paginatedItems = items.slice(0, take);
@@ -352,12 +1560,13 @@ export class RegionDomainService {
   }
 
   /**
-   * Get representatives with pagination
+   * Get representatives with pagination, optionally limited to one region
    */
   async getRepresentatives(
     skip: number = 0,
     take: number = 10,
     chamber?: string,
+    regionId?: string,
   ): Promise<PaginatedRepresentatives> {
     const query = this.representativeRepo.createQueryBuilder('rep');
 
@@ -365,6 +1574,10 @@ export class RegionDomainService {
       query.where('rep.chamber = :chamber', { chamber });
     }
 
+    if (regionId) {
+      query.andWhere('rep.regionId = :regionId', { regionId });
+    }
+
     query.orderBy('rep.chamber', 'ASC').addOrderBy('rep.name', 'ASC');
 
     const total = await query.getCount();
@@ -389,4 +1602,543 @@ export class RegionDomainService {
   async getRepresentative(id: string) {
     return this.representativeRepo.findOne({ where: { id } });
   }
+
+  /**
+   * Get elections with pagination, optionally limited to one region
+   */
+  async getElections(
+    skip: number = 0,
+    take: number = 10,
+    regionId?: string,
+    filter?: ElectionFilterInput,
+  ): Promise<PaginatedElections> {
+    const query = this.electionRepo.createQueryBuilder('election');
+
+    if (regionId) {
+      query.andWhere('election.regionId = :regionId', { regionId });
+    }
+
+    if (filter?.dateFrom) {
+      query.andWhere('election.electionDate >= :dateFrom', {
+        dateFrom: filter.dateFrom,
+      });
+    }
+
+    if (filter?.dateTo) {
+      query.andWhere('election.electionDate <= :dateTo', {
+        dateTo: filter.dateTo,
+      });
+    }
+
+    if (filter?.upcoming) {
+      query.andWhere('election.electionDate >= :now', { now: new Date() });
+    }
+
+    // Upcoming elections read soonest first; history reads newest first
+    query.orderBy(
+      'election.electionDate',
+      filter?.sortOrder ?? (filter?.upcoming ? SortOrder.ASC : SortOrder.DESC),
+    );
+
+    const total = await query.getCount();
+    const items = await query
+      .skip(skip)
+      .take(take + 1)
+      .getMany();
+
+    const hasMore = items.length > take;
+    const paginatedItems = items.slice(0, take);
+
+    return {
+      items: paginatedItems,
+      total,
+      hasMore,
+    };
+  }
+
+  /**
+   * Get a single election by ID
+   */
+  async getElection(id: string) {
+    return this.electionRepo.findOne({ where: { id } });
+  }
+
+  /**
+   * Get voter deadlines between two dates, soonest first
+   *
+   * An early-voting window is included while any of it is left, so one
+   * that has already opened still counts until it closes.
+   */
+  async getVoterDeadlines(
+    regionId?: string,
+    from: Date = new Date(),
+    to?: Date,
+  ): Promise<VoterDeadlineModel[]> {
+    // Mail ballots may be due after election day; every other deadline
+    // comes before it
+    const query = this.electionRepo
+      .createQueryBuilder('election')
+      .where(
+        'GREATEST(election.electionDate, election.mailBallotReturnDeadline) >= :from',
+        { from },
+      );
+
+    if (to) {
+      query.andWhere(
+        'LEAST(election.registrationDeadline, election.mailBallotRequestDeadline, election.mailBallotReturnDeadline, election.earlyVotingStart) <= :to',
+        { to },
+      );
+    }
+
+    if (regionId) {
+      query.andWhere('election.regionId = :regionId', { regionId });
+    }
+
+    const elections = await query
+      .orderBy('election.electionDate', SortOrder.ASC)
+      .getMany();
+
+    return elections
+      .flatMap(toVoterDeadlines)
+      .filter(
+        (deadline) =>
+          (deadline.endDate ?? deadline.date) >= from &&
+          (!to || deadline.date <= to),
+      )
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * Get bills with pagination, optionally limited to one region
+   */
+  async getBills(
+    skip: number = 0,
+    take: number = 10,
+    regionId?: string,
+    filter?: BillFilterInput,
+  ): Promise<PaginatedBills> {
+    const query = this.billRepo.createQueryBuilder('bill');
+
+    if (regionId) {
+      query.andWhere('bill.regionId = :regionId', { regionId });
+    }
+
+    if (filter?.statuses?.length) {
+      query.andWhere('bill.status IN (:...statuses)', {
+        statuses: filter.statuses,
+      });
+    }
+
+    if (filter?.chamber) {
+      query.andWhere('LOWER(bill.chamber) = LOWER(:chamber)', {
+        chamber: filter.chamber.trim(),
+      });
+    }
+
+    if (filter?.session) {
+      query.andWhere('bill.session = :session', {
+        session: filter.session.trim(),
+      });
+    }
+
+    const text = filter?.query?.trim();
+    if (text) {
+      query.andWhere('(bill.number ILIKE :text OR bill.title ILIKE :text)', {
+        text: `%${escapeLikePattern(text)}%`,
+      });
+    }
+
+    query
+      .orderBy('bill.introducedAt', SortOrder.DESC, 'NULLS LAST')
+      .addOrderBy('bill.number', SortOrder.ASC);
+
+    const total = await query.getCount();
+    const items = await query
+      .skip(skip)
+      .take(take + 1)
+      .getMany();
+
+    const hasMore = items.length > take;
+    const paginatedItems = items.slice(0, take);
+
+    return {
+      items: paginatedItems.map(toBillModel),
+      total,
+      hasMore,
+    };
+  }
+
+  /**
+   * Get a single bill by ID
+   */
+  async getBill(id: string): Promise<BillModel | null> {
+    const bill = await this.billRepo.findOne({ where: { id } });
+    return bill ? toBillModel(bill) : null;
+  }
+
+  /**
+   * Get the roll-call votes on a bill, oldest first
+   */
+  async getBillVotes(billId: string): Promise<VoteModel[]> {
+    const bill = await this.billRepo.findOne({
+      select: { id: true, regionId: true, externalId: true },
+      where: { id: billId },
+    });
+    if (!bill) return [];
+
+    const votes = await this.voteRepo.find({
+      where: { regionId: bill.regionId, billExternalId: bill.externalId },
+      order: { votedAt: 'ASC' },
+    });
+    return votes.map(toVoteModel);
+  }
+
+  /**
+   * Get a single roll-call vote by ID
+   */
+  async getVote(id: string): Promise<VoteModel | null> {
+    const vote = await this.voteRepo.findOne({ where: { id } });
+    return vote ? toVoteModel(vote) : null;
+  }
+
+  /**
+   * Get a representative's voting record, most recent first
+   *
+   * Returns null when the representative does not exist.
+   */
+  async getRepresentativeVotes(
+    representativeId: string,
+    skip: number = 0,
+    take: number = 10,
+  ): Promise<PaginatedRepresentativeVotes | null> {
+    const representative = await this.representativeRepo.findOne({
+      select: { id: true, regionId: true, externalId: true },
+      where: { id: representativeId },
+    });
+    if (!representative) return null;
+
+    // JSON containment is served by the GIN index on memberVotes
+    const query = this.voteRepo
+      .createQueryBuilder('vote')
+      .where('vote.regionId = :regionId', {
+        regionId: representative.regionId,
+      })
+      .andWhere('vote.memberVotes @> :member::jsonb', {
+        member: JSON.stringify([
+          { representativeExternalId: representative.externalId },
+        ]),
+      })
+      .orderBy('vote.votedAt', SortOrder.DESC);
+
+    const total = await query.getCount();
+    const votes = await query
+      .skip(skip)
+      .take(take + 1)
+      .getMany();
+
+    const hasMore = votes.length > take;
+    const paginatedVotes = votes.slice(0, take);
+
+    const billExternalIds = [
+      ...new Set(
+        paginatedVotes.flatMap((vote) =>
+          vote.billExternalId ? [vote.billExternalId] : [],
+        ),
+      ),
+    ];
+    const bills =
+      billExternalIds.length === 0
+        ? []
+        : await this.billRepo.find({
+            select: { id: true, externalId: true, number: true, title: true },
+            where: {
+              regionId: representative.regionId,
+              externalId: In(billExternalIds),
+            },
+          });
+    const billsByExternalId = new Map(
+      bills.map((bill) => [bill.externalId, bill]),
+    );
+
+    return {
+      items: paginatedVotes.map((vote) => {
+        const memberVote = vote.memberVotes.find(
+          (member) =>
+            member.representativeExternalId === representative.externalId,
+        );
+        const bill = vote.billExternalId
+          ? billsByExternalId.get(vote.billExternalId)
+          : undefined;
+        return {
+          voteId: vote.id,
+          motion: vote.motion,
+          chamber: vote.chamber,
+          votedAt: vote.votedAt,
+          passed: vote.passed,
+          option: memberVote?.option as VoteOptionGQL,
+          billId: bill?.id,
+          billNumber: bill?.number,
+          billTitle: bill?.title,
+        };
+      }),
+      total,
+      hasMore,
+    };
+  }
+
+  /**
+   * Get races with pagination, optionally limited to one region
+   */
+  async getRaces(
+    skip: number = 0,
+    take: number = 10,
+    regionId?: string,
+    filter?: RaceFilterInput,
+  ): Promise<PaginatedRaces> {
+    const query = this.raceRepo.createQueryBuilder('race');
+
+    if (regionId) {
+      query.andWhere('race.regionId = :regionId', { regionId });
+    }
+
+    if (filter?.upcoming) {
+      query.andWhere('race.electionDate >= :now', { now: new Date() });
+    }
+
+    if (filter?.chamber) {
+      query.andWhere('LOWER(race.chamber) = LOWER(:chamber)', {
+        chamber: filter.chamber.trim(),
+      });
+    }
+
+    const text = filter?.query?.trim();
+    if (text) {
+      query.andWhere('race.office ILIKE :text', {
+        text: `%${escapeLikePattern(text)}%`,
+      });
+    }
+
+    // Upcoming races read soonest first; past ones newest first
+    query
+      .orderBy(
+        'race.electionDate',
+        filter?.upcoming ? SortOrder.ASC : SortOrder.DESC,
+      )
+      .addOrderBy('race.office', SortOrder.ASC);
+
+    const total = await query.getCount();
+    const items = await query
+      .skip(skip)
+      .take(take + 1)
+      .getMany();
+
+    const hasMore = items.length > take;
+    const paginatedItems = items.slice(0, take);
+
+    return {
+      items: await this.toRaceModels(paginatedItems),
+      total,
+      hasMore,
+    };
+  }
+
+  /**
+   * Get a single race by ID, with its candidates
+   */
+  async getRace(id: string): Promise<RaceModel | null> {
+    const race = await this.raceRepo.findOne({ where: { id } });
+    if (!race) return null;
+
+    const [model] = await this.toRaceModels([race]);
+    return model;
+  }
+
+  /**
+   * Get the upcoming races on the ballot of a user's address
+   *
+   * Uses the user's primary address unless an address ID is given, and
+   * matches races to its districts like representatives. Region-wide races
+   * of the regions containing the address (or the given region) are on
+   * every ballot. Returns null when the user has no such address.
+   */
+  async getBallotForAddress(
+    userId: string,
+    addressId?: string,
+    regionId?: string,
+  ): Promise<MyBallotModel | null> {
+    const address = await this.addressRepo.findOne({
+      where: addressId
+        ? { id: addressId, userId }
+        : { userId, isPrimary: true },
+    });
+
+    if (!address) {
+      return null;
+    }
+
+    const { known, missing } = getAddressDistricts(address);
+    const chambers = [
+      ...new Set(known.flatMap((d) => DISTRICT_CHAMBERS[d.districtType])),
+    ];
+
+    // Narrow to region-wide races and chambers serving the address's
+    // district types; districts are compared in matchRaces
+    const query = this.raceRepo
+      .createQueryBuilder('race')
+      .where('race.electionDate >= :now', { now: new Date() });
+
+    if (chambers.length > 0) {
+      query.andWhere(
+        '(race.district IS NULL OR LOWER(TRIM(race.chamber)) IN (:...chambers))',
+        { chambers },
+      );
+    } else {
+      query.andWhere('race.district IS NULL');
+    }
+
+    query.andWhere('race.regionId IN (:...regionIds)', {
+      regionIds: regionId ? [regionId] : this.getRegionIdsForAddress(address),
+    });
+
+    const races = await query
+      .orderBy('race.electionDate', SortOrder.ASC)
+      .addOrderBy('race.office', SortOrder.ASC)
+      .getMany();
+
+    const matches = matchRaces(address, races, this.getRegionStates());
+    const models = await this.toRaceModels(matches.map((m) => m.race));
+
+    return {
+      addressId: address.id,
+      races: matches.map(({ districtType, district }, index) => ({
+        race: models[index],
+        districtType,
+        district,
+      })),
+      missingDistricts: missing,
+    };
+  }
+
+  /**
+   * Present stored races, linking candidates to the synced representatives
+   * they are
+   */
+  private async toRaceModels(races: RaceEntity[]): Promise<RaceModel[]> {
+    const externalIds = [
+      ...new Set(
+        races.flatMap((race) =>
+          race.candidates.flatMap((c) => c.representativeExternalId ?? []),
+        ),
+      ),
+    ];
+    const representatives =
+      externalIds.length === 0
+        ? []
+        : await this.representativeRepo.find({
+            where: { externalId: In(externalIds) },
+          });
+    const byRegionAndId = new Map(
+      representatives.map((rep) => [`${rep.regionId}/${rep.externalId}`, rep]),
+    );
+
+    return races.map((race) => ({
+      ...race,
+      candidates: race.candidates.map((candidate) => ({
+        ...candidate,
+        representative: candidate.representativeExternalId
+          ? byRegionAndId.get(
+              `${race.regionId}/${candidate.representativeExternalId}`,
+            )
+          : undefined,
+      })),
+    }));
+  }
+
+  /**
+   * Get the representatives serving the districts of a user's address
+   *
+   * Uses the user's primary address unless an address ID is given, and
+   * looks in the regions containing it unless a region ID is given.
+   * Returns null when the user has no such address.
+   */
+  async getRepresentativesForAddress(
+    userId: string,
+    addressId?: string,
+    regionId?: string,
+  ): Promise<MyRepresentativesModel | null> {
+    const address = await this.addressRepo.findOne({
+      where: addressId
+        ? { id: addressId, userId }
+        : { userId, isPrimary: true },
+    });
+
+    if (!address) {
+      return null;
+    }
+
+    const { known, missing } = getAddressDistricts(address);
+    if (known.length === 0) {
+      return { addressId: address.id, matches: [], missingDistricts: missing };
+    }
+
+    // Narrow to the address's regions and chambers serving its district
+    // types; districts are compared after normalization in
+    // matchRepresentatives
+    const chambers = [
+      ...new Set(known.flatMap((d) => DISTRICT_CHAMBERS[d.districtType])),
+    ];
+    const query = this.representativeRepo
+      .createQueryBuilder('rep')
+      .where('LOWER(TRIM(rep.chamber)) IN (:...chambers)', { chambers })
+      .andWhere('rep.regionId IN (:...regionIds)', {
+        regionIds: regionId ? [regionId] : this.getRegionIdsForAddress(address),
+      });
+
+    const representatives = await query
+      .orderBy('rep.chamber', 'ASC')
+      .addOrderBy('rep.name', 'ASC')
+      .getMany();
+
+    return {
+      addressId: address.id,
+      matches: matchRepresentatives(
+        address,
+        representatives,
+        this.getRegionStates(),
+      ),
+      missingDistricts: missing,
+    };
+  }
+
+  /**
+   * Get sync run history, most recent first
+   */
+  async getSyncHistory(
+    skip: number = 0,
+    take: number = 10,
+    dataType?: CivicDataType,
+    regionId?: string,
+  ): Promise<PaginatedSyncRuns> {
+    const [items, total] = await this.syncRunRepo.findAndCount({
+      where: {
+        ...(dataType && { dataType }),
+        ...(regionId && { regionId }),
+      },
+      order: { startedAt: 'DESC' },
+      skip,
+      take: take + 1,
+    });
+
+    const hasMore = items.length > take;
+    const paginatedItems = items.slice(0, take);
+
+    return {
+      items: paginatedItems.map((item) => ({
+        ...item,
+        dataType: item.dataType as CivicDataTypeGQL,
+      })),
+      total,
+      hasMore,
+    };
+  }
 }
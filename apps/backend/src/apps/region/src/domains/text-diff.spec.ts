@@ -0,0 +1,68 @@
+import { diffLines } from './text-diff';
+import { DiffOperationGQL } from './models/proposition-revision.model';
+
+const { ADDED, REMOVED, UNCHANGED } = DiffOperationGQL;
+
+describe('text-diff', () => {
+  describe('diffLines', () => {
+    it('should mark every line unchanged for identical text', () => {
+      expect(diffLines('a\nb', 'a\nb')).toEqual([
+        { operation: UNCHANGED, text: 'a' },
+        { operation: UNCHANGED, text: 'b' },
+      ]);
+    });
+
+    it('should report added and removed lines in reading order', () => {
+      expect(diffLines('a\nb\nc\nd', 'a\nc\nx\nd')).toEqual([
+        { operation: UNCHANGED, text: 'a' },
+        { operation: REMOVED, text: 'b' },
+        { operation: UNCHANGED, text: 'c' },
+        { operation: ADDED, text: 'x' },
+        { operation: UNCHANGED, text: 'd' },
+      ]);
+    });
+
+    it('should find the shortest diff for reordered lines', () => {
+      const diff = diffLines('a\nb\nc\na\nb\nb\na', 'c\nb\na\nb\na\nc');
+
+      const edits = diff.filter((l) => l.operation !== UNCHANGED);
+      expect(edits).toHaveLength(5);
+      expect(
+        diff.filter((l) => l.operation !== ADDED).map((l) => l.text),
+      ).toEqual(['a', 'b', 'c', 'a', 'b', 'b', 'a']);
+      expect(
+        diff.filter((l) => l.operation !== REMOVED).map((l) => l.text),
+      ).toEqual(['c', 'b', 'a', 'b', 'a', 'c']);
+    });
+
+    it('should treat empty text as having no lines', () => {
+      expect(diffLines('', 'new')).toEqual([{ operation: ADDED, text: 'new' }]);
+      expect(diffLines('old', '')).toEqual([
+        { operation: REMOVED, text: 'old' },
+      ]);
+      expect(diffLines('', '')).toEqual([]);
+    });
+
+    it('should ignore line ending differences', () => {
+      expect(diffLines('a\r\nb', 'a\nb')).toEqual([
+        { operation: UNCHANGED, text: 'a' },
+        { operation: UNCHANGED, text: 'b' },
+      ]);
+    });
+
+    it('should replace the changed block when the texts share too little', () => {
+      const previous = Array.from({ length: 600 }, (_, i) => `old ${i}`);
+      const next = Array.from({ length: 600 }, (_, i) => `new ${i}`);
+
+      const diff = diffLines(
+        ['header', ...previous].join('\n'),
+        ['header', ...next].join('\n'),
+      );
+
+      expect(diff).toHaveLength(1201);
+      expect(diff[0]).toEqual({ operation: UNCHANGED, text: 'header' });
+      expect(diff[1]).toEqual({ operation: REMOVED, text: 'old 0' });
+      expect(diff[601]).toEqual({ operation: ADDED, text: 'new 0' });
+    });
+  });
+});
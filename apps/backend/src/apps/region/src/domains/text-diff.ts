@@ -0,0 +1,141 @@
+import { DiffOperationGQL } from './models/proposition-revision.model';
+
+/**
+ * One line of a text diff
+ */
+export interface DiffLine {
+  operation: DiffOperationGQL;
+  text: string;
+}
+
+/**
+ * Edit distance beyond which lines are no longer aligned
+ *
+ * Myers' algorithm keeps O(D²) state; past this many edits the changed
+ * block is reported as removed and re-added instead.
+ */
+const MAX_EDIT_DISTANCE = 1000;
+
+/**
+ * Split text into lines, treating empty text as no lines
+ */
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split(/\r?\n/);
+}
+
+function line(operation: DiffOperationGQL, text: string): DiffLine {
+  return { operation, text };
+}
+
+/**
+ * Find the shortest edit script between two line arrays (Myers, 1986)
+ *
+ * Returns null when the edit distance exceeds MAX_EDIT_DISTANCE.
+ */
+function shortestEdit(a: string[], b: string[]): DiffLine[] | null {
+  const n = a.length;
+  const m = b.length;
+  const maxD = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = maxD + 1;
+
+  // v[k + offset] is the furthest x reached on diagonal k = x - y
+  const v = new Array<number>(2 * offset + 1).fill(0);
+  // trace[d] holds diagonals -(d + 1)..(d + 1) of v before step d
+  const trace: number[][] = [];
+
+  for (let d = 0; d <= maxD; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset])
+          ? v[k + 1 + offset]
+          : v[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + offset] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Walk the Myers trace back from the end to build the diff
+ */
+function backtrack(a: string[], b: string[], trace: number[][]): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const at = (k: number) => trace[d][k + d + 1];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      lines.push(line(DiffOperationGQL.UNCHANGED, a[x - 1]));
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        lines.push(line(DiffOperationGQL.ADDED, b[prevY]));
+      } else {
+        lines.push(line(DiffOperationGQL.REMOVED, a[prevX]));
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return lines.reverse();
+}
+
+/**
+ * Compute a line-level diff between two versions of a text
+ *
+ * Lines common to both versions are UNCHANGED; the rest are REMOVED from
+ * the previous version or ADDED in the next, in reading order.
+ */
+export function diffLines(previous: string, next: string): DiffLine[] {
+  const a = splitLines(previous);
+  const b = splitLines(next);
+
+  // Common prefix and suffix need no alignment
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const removed = a.slice(start, endA);
+  const added = b.slice(start, endB);
+  const middle = shortestEdit(removed, added) ?? [
+    ...removed.map((text) => line(DiffOperationGQL.REMOVED, text)),
+    ...added.map((text) => line(DiffOperationGQL.ADDED, text)),
+  ];
+
+  return [
+    ...a.slice(0, start).map((text) => line(DiffOperationGQL.UNCHANGED, text)),
+    ...middle,
+    ...a.slice(endA).map((text) => line(DiffOperationGQL.UNCHANGED, text)),
+  ];
+}
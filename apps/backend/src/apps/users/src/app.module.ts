@@ -21,6 +21,8 @@ import { UsersModule } from './domains/user/users.module';
 import { ProfileModule } from './domains/profile/profile.module';
 import { ActivityModule } from './domains/activity/activity.module';
 import { EmailDomainModule } from './domains/email/email.module';
+import { NotificationCenterModule } from './domains/notification-center/notification-center.module';
+import { PushModule } from './domains/push/push.module';
 
 import configuration from 'src/config';
 import supabaseConfig from 'src/config/supabase.config';
@@ -30,6 +32,10 @@ import secretsConfig from 'src/config/secrets.config';
 import relationaldbConfig from 'src/config/relationaldb.config';
 import emailConfig from 'src/config/email.config';
 import authThrottleConfig from 'src/config/auth-throttle.config';
+import districtsConfig from 'src/config/districts.config';
+import geocodingConfig from 'src/config/geocoding.config';
+import notificationsConfig from 'src/config/notifications.config';
+import pushConfig from 'src/config/push.config';
 
 import { LoggerMiddleware } from 'src/common/middleware/logger.middleware';
 import { HMACMiddleware } from 'src/common/middleware/hmac.middleware';
@@ -50,9 +56,15 @@ import { UserConsentEntity } from 'src/db/entities/user-consent.entity';
 import { PasskeyCredentialEntity } from 'src/db/entities/passkey-credential.entity';
 import { WebAuthnChallengeEntity } from 'src/db/entities/webauthn-challenge.entity';
 import { EmailCorrespondenceEntity } from 'src/db/entities/email-correspondence.entity';
+import { DistrictBoundaryEntity } from 'src/db/entities/district-boundary.entity';
+import { NotificationEntity } from 'src/db/entities/notification.entity';
+import { NotificationDeliveryEntity } from 'src/db/entities/notification-delivery.entity';
+import { NotificationDigestEntity } from 'src/db/entities/notification-digest.entity';
+import { PushSubscriptionEntity } from 'src/db/entities/push-subscription.entity';
 import { AuditModule } from 'src/common/audit/audit.module';
 import { CaslModule } from 'src/permissions/casl.module';
 import { HealthModule } from 'src/common/health';
+import { SubscriptionsModule } from 'src/common/subscriptions';
 
 @Module({
   imports: [
@@ -66,6 +78,10 @@ import { HealthModule } from 'src/common/health';
         relationaldbConfig,
         emailConfig,
         authThrottleConfig,
+        districtsConfig,
+        geocodingConfig,
+        notificationsConfig,
+        pushConfig,
       ],
       isGlobal: true,
     }),
@@ -84,6 +100,11 @@ import { HealthModule } from 'src/common/health';
         PasskeyCredentialEntity,
         WebAuthnChallengeEntity,
         EmailCorrespondenceEntity,
+        DistrictBoundaryEntity,
+        NotificationEntity,
+        NotificationDeliveryEntity,
+        NotificationDigestEntity,
+        PushSubscriptionEntity,
       ],
     }),
     AuditModule.forRoot(),
@@ -99,6 +120,9 @@ import { HealthModule } from 'src/common/health';
     ProfileModule,
     ActivityModule,
     EmailDomainModule,
+    NotificationCenterModule,
+    PushModule,
+    SubscriptionsModule,
     HealthModule.forRoot({ serviceName: 'users-service', hasDatabase: true }),
   ],
   providers: SHARED_PROVIDERS,
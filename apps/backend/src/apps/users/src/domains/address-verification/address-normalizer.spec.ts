@@ -0,0 +1,154 @@
+import {
+  isZipInState,
+  normalizeAddress,
+  normalizeSecondaryLine,
+  normalizeState,
+  normalizeStreetLine,
+  normalizeZipCode,
+} from './address-normalizer';
+
+describe('address-normalizer', () => {
+  describe('normalizeStreetLine', () => {
+    it('should abbreviate street suffixes and remove punctuation', () => {
+      expect(normalizeStreetLine('123 Main Street')).toBe('123 MAIN ST');
+      expect(normalizeStreetLine('45 Elm Ave.')).toBe('45 ELM AVE');
+      expect(normalizeStreetLine('9 Sunset Boulevard')).toBe('9 SUNSET BLVD');
+      expect(normalizeStreetLine('1 Ocean Pkwy')).toBe('1 OCEAN PKWY');
+    });
+
+    it('should abbreviate pre- and post-directionals', () => {
+      expect(
+        normalizeStreetLine('123 north Main Street southwest, Apartment 4'),
+      ).toBe('123 N MAIN ST SW APT 4');
+      expect(normalizeStreetLine('1600 Pennsylvania Avenue Northwest')).toBe(
+        '1600 PENNSYLVANIA AVE NW',
+      );
+    });
+
+    it('should keep directionals and suffixes that are the street name', () => {
+      expect(normalizeStreetLine('10 North Ave')).toBe('10 NORTH AVE');
+      expect(normalizeStreetLine('10 West Street')).toBe('10 WEST ST');
+      expect(normalizeStreetLine('5 Park')).toBe('5 PARK');
+    });
+
+    it('should standardize secondary unit designators', () => {
+      expect(normalizeStreetLine('500 Market St Suite 200')).toBe(
+        '500 MARKET ST STE 200',
+      );
+      expect(normalizeStreetLine('500 Market St #12')).toBe(
+        '500 MARKET ST # 12',
+      );
+      expect(normalizeStreetLine('500 Market St Apartment #12')).toBe(
+        '500 MARKET ST APT 12',
+      );
+      expect(normalizeStreetLine('500 Market St Penthouse')).toBe(
+        '500 MARKET ST PH',
+      );
+    });
+
+    it('should not treat street words as unit designators', () => {
+      expect(normalizeStreetLine('123 Front Street')).toBe('123 FRONT ST');
+      expect(normalizeStreetLine('12 Coral Key')).toBe('12 CORAL KY');
+    });
+  });
+
+  describe('normalizeSecondaryLine', () => {
+    it('should abbreviate unit designators', () => {
+      expect(normalizeSecondaryLine('Suite 200')).toBe('STE 200');
+      expect(normalizeSecondaryLine('Floor 3')).toBe('FL 3');
+      expect(normalizeSecondaryLine('c/o Jane Doe')).toBe('C/O JANE DOE');
+    });
+  });
+
+  describe('normalizeState', () => {
+    it('should convert state names to codes', () => {
+      expect(normalizeState('California')).toBe('CA');
+      expect(normalizeState('district of columbia')).toBe('DC');
+      expect(normalizeState('ny')).toBe('NY');
+    });
+
+    it('should return null for unknown states', () => {
+      expect(normalizeState('Cascadia')).toBeNull();
+      expect(normalizeState('XX')).toBeNull();
+    });
+  });
+
+  describe('normalizeZipCode', () => {
+    it('should format ZIP and ZIP+4 codes', () => {
+      expect(normalizeZipCode('94612')).toBe('94612');
+      expect(normalizeZipCode('946121234')).toBe('94612-1234');
+      expect(normalizeZipCode('94612 1234')).toBe('94612-1234');
+    });
+
+    it('should reject malformed ZIP codes', () => {
+      expect(normalizeZipCode('9461')).toBeNull();
+      expect(normalizeZipCode('SW1A 1AA')).toBeNull();
+    });
+  });
+
+  describe('isZipInState', () => {
+    it('should check the ZIP prefix against the state', () => {
+      expect(isZipInState('94612', 'CA')).toBe(true);
+      expect(isZipInState('10001', 'NY')).toBe(true);
+      expect(isZipInState('20500', 'DC')).toBe(true);
+      expect(isZipInState('00901', 'PR')).toBe(true);
+      expect(isZipInState('94612', 'NY')).toBe(false);
+      // Unassigned prefix
+      expect(isZipInState('00000', 'NY')).toBe(false);
+    });
+  });
+
+  describe('normalizeAddress', () => {
+    it('should standardize every field', () => {
+      expect(
+        normalizeAddress({
+          addressLine1: '1 Frank H. Ogawa Plaza',
+          addressLine2: 'Suite 3',
+          city: 'Oakland',
+          state: 'California',
+          postalCode: '946121932',
+          country: 'us',
+        }),
+      ).toEqual({
+        address: {
+          addressLine1: '1 FRANK H OGAWA PLZ',
+          addressLine2: 'STE 3',
+          city: 'OAKLAND',
+          state: 'CA',
+          postalCode: '94612-1932',
+          country: 'US',
+        },
+        issues: [],
+      });
+    });
+
+    it('should report unknown states and invalid ZIP codes', () => {
+      const { address, issues } = normalizeAddress({
+        addressLine1: '1 Main St',
+        city: 'Springfield',
+        state: 'Cascadia',
+        postalCode: '1234',
+        country: 'US',
+      });
+
+      expect(issues).toEqual([
+        'Unknown state "Cascadia"',
+        'Invalid ZIP code "1234"',
+      ]);
+      expect(address.state).toBe('Cascadia');
+      expect(address.postalCode).toBe('1234');
+    });
+
+    it('should report ZIP codes outside the state', () => {
+      const { issues } = normalizeAddress({
+        addressLine1: '1 Main St',
+        city: 'Oakland',
+        state: 'NY',
+        postalCode: '94612',
+        country: 'US',
+      });
+
+      expect(issues).toEqual(['ZIP code 94612 is not in NY']);
+    });
+  });
+});
@@ -0,0 +1,633 @@
+/**
+ * Address normalization to USPS Publication 28 conventions
+ *
+ * Standardized addresses are uppercase, without punctuation, and use the
+ * Publication 28 abbreviations for street suffixes (Appendix C1),
+ * directionals (Appendix B), secondary unit designators (Appendix C2) and
+ * state names (Appendix B).
+ */
+
+/**
+ * Address fields covered by normalization
+ */
+export interface AddressFields {
+  addressLine1: string;
+  addressLine2?: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+}
+
+/**
+ * Normalized address with the problems found while normalizing it
+ */
+export interface NormalizedAddress {
+  address: AddressFields;
+  issues: string[];
+}
+
+// Street suffix abbreviations, keyed by primary name and common variants
+const STREET_SUFFIXES: Record<string, string> = {
+  ALLEY: 'ALY',
+  ALLEE: 'ALY',
+  ALLY: 'ALY',
+  ANNEX: 'ANX',
+  ANNX: 'ANX',
+  ARCADE: 'ARC',
+  AVENUE: 'AVE',
+  AV: 'AVE',
+  AVEN: 'AVE',
+  AVENU: 'AVE',
+  AVN: 'AVE',
+  AVNUE: 'AVE',
+  BAYOU: 'BYU',
+  BEACH: 'BCH',
+  BEND: 'BND',
+  BLUFF: 'BLF',
+  BOULEVARD: 'BLVD',
+  BOUL: 'BLVD',
+  BOULV: 'BLVD',
+  BRANCH: 'BR',
+  BRNCH: 'BR',
+  BRIDGE: 'BRG',
+  BRDGE: 'BRG',
+  BROOK: 'BRK',
+  BYPASS: 'BYP',
+  BYPAS: 'BYP',
+  CAMP: 'CP',
+  CANYON: 'CYN',
+  CANYN: 'CYN',
+  CAPE: 'CPE',
+  CAUSEWAY: 'CSWY',
+  CAUSWA: 'CSWY',
+  CENTER: 'CTR',
+  CENTRE: 'CTR',
+  CENT: 'CTR',
+  CENTR: 'CTR',
+  CNTER: 'CTR',
+  CIRCLE: 'CIR',
+  CIRC: 'CIR',
+  CIRCL: 'CIR',
+  CRCL: 'CIR',
+  CLIFF: 'CLF',
+  CLUB: 'CLB',
+  COMMON: 'CMN',
+  CORNER: 'COR',
+  COURSE: 'CRSE',
+  COURT: 'CT',
+  CRT: 'CT',
+  COVE: 'CV',
+  CREEK: 'CRK',
+  CRESCENT: 'CRES',
+  CRSENT: 'CRES',
+  CROSSING: 'XING',
+  CRSSNG: 'XING',
+  DALE: 'DL',
+  DAM: 'DM',
+  DIVIDE: 'DV',
+  DIV: 'DV',
+  DRIVE: 'DR',
+  DRIV: 'DR',
+  DRV: 'DR',
+  ESTATE: 'EST',
+  ESTATES: 'ESTS',
+  EXPRESSWAY: 'EXPY',
+  EXPRESS: 'EXPY',
+  EXPW: 'EXPY',
+  EXTENSION: 'EXT',
+  EXTN: 'EXT',
+  FALLS: 'FLS',
+  FERRY: 'FRY',
+  FIELD: 'FLD',
+  FIELDS: 'FLDS',
+  FLAT: 'FLT',
+  FORD: 'FRD',
+  FOREST: 'FRST',
+  FORESTS: 'FRST',
+  FORGE: 'FRG',
+  FORK: 'FRK',
+  FORT: 'FT',
+  FRT: 'FT',
+  FREEWAY: 'FWY',
+  FREEWY: 'FWY',
+  FRWAY: 'FWY',
+  GARDEN: 'GDN',
+  GARDN: 'GDN',
+  GARDENS: 'GDNS',
+  GATEWAY: 'GTWY',
+  GATEWY: 'GTWY',
+  GLEN: 'GLN',
+  GREEN: 'GRN',
+  GROVE: 'GRV',
+  GROV: 'GRV',
+  HARBOR: 'HBR',
+  HARB: 'HBR',
+  HAVEN: 'HVN',
+  HEIGHTS: 'HTS',
+  HT: 'HTS',
+  HIGHWAY: 'HWY',
+  HIGHWY: 'HWY',
+  HIWAY: 'HWY',
+  HIWY: 'HWY',
+  HWAY: 'HWY',
+  HILL: 'HL',
+  HILLS: 'HLS',
+  HOLLOW: 'HOLW',
+  HLLW: 'HOLW',
+  ISLAND: 'IS',
+  ISLND: 'IS',
+  JUNCTION: 'JCT',
+  JCTION: 'JCT',
+  JUNCTN: 'JCT',
+  KEY: 'KY',
+  KNOLL: 'KNL',
+  KNOL: 'KNL',
+  LAKE: 'LK',
+  LAKES: 'LKS',
+  LANDING: 'LNDG',
+  LNDNG: 'LNDG',
+  LANE: 'LN',
+  LIGHT: 'LGT',
+  LOOP: 'LOOP',
+  LOOPS: 'LOOP',
+  MALL: 'MALL',
+  MANOR: 'MNR',
+  MEADOW: 'MDW',
+  MEADOWS: 'MDWS',
+  MEDOWS: 'MDWS',
+  MILL: 'ML',
+  MOTORWAY: 'MTWY',
+  MOUNT: 'MT',
+  MOUNTAIN: 'MTN',
+  MNTAIN: 'MTN',
+  MOUNTIN: 'MTN',
+  ORCHARD: 'ORCH',
+  ORCHRD: 'ORCH',
+  OVAL: 'OVAL',
+  OVL: 'OVAL',
+  OVERPASS: 'OPAS',
+  PARK: 'PARK',
+  PRK: 'PARK',
+  PARKWAY: 'PKWY',
+  PARKWY: 'PKWY',
+  PKWAY: 'PKWY',
+  PKY: 'PKWY',
+  PASS: 'PASS',
+  PATH: 'PATH',
+  PATHS: 'PATH',
+  PIKE: 'PIKE',
+  PIKES: 'PIKE',
+  PINE: 'PNE',
+  PLACE: 'PL',
+  PLAIN: 'PLN',
+  PLAINS: 'PLNS',
+  PLAZA: 'PLZ',
+  PLZA: 'PLZ',
+  POINT: 'PT',
+  PORT: 'PRT',
+  PRAIRIE: 'PR',
+  PRR: 'PR',
+  RANCH: 'RNCH',
+  RANCHES: 'RNCH',
+  RIDGE: 'RDG',
+  RDGE: 'RDG',
+  RIVER: 'RIV',
+  RVR: 'RIV',
+  ROAD: 'RD',
+  ROUTE: 'RTE',
+  ROW: 'ROW',
+  RUN: 'RUN',
+  SHORE: 'SHR',
+  SHOAR: 'SHR',
+  SKYWAY: 'SKWY',
+  SPRING: 'SPG',
+  SPNG: 'SPG',
+  SPRNG: 'SPG',
+  SPRINGS: 'SPGS',
+  SQUARE: 'SQ',
+  SQR: 'SQ',
+  SQRE: 'SQ',
+  SQU: 'SQ',
+  STATION: 'STA',
+  STATN: 'STA',
+  STN: 'STA',
+  STREET: 'ST',
+  STRT: 'ST',
+  STR: 'ST',
+  SUMMIT: 'SMT',
+  SUMIT: 'SMT',
+  SUMITT: 'SMT',
+  TERRACE: 'TER',
+  TERR: 'TER',
+  TRACE: 'TRCE',
+  TRACES: 'TRCE',
+  TRAIL: 'TRL',
+  TRAILS: 'TRL',
+  TRLS: 'TRL',
+  TUNNEL: 'TUNL',
+  TUNNL: 'TUNL',
+  TURNPIKE: 'TPKE',
+  TURNPK: 'TPKE',
+  VALLEY: 'VLY',
+  VALLY: 'VLY',
+  VIEW: 'VW',
+  VILLAGE: 'VLG',
+  VILLAG: 'VLG',
+  VILLG: 'VLG',
+  VISTA: 'VIS',
+  VIST: 'VIS',
+  VST: 'VIS',
+  WALK: 'WALK',
+  WALKS: 'WALK',
+  WAY: 'WAY',
+  WY: 'WAY',
+  WELLS: 'WLS',
+};
+
+const DIRECTIONALS: Record<string, string> = {
+  NORTH: 'N',
+  SOUTH: 'S',
+  EAST: 'E',
+  WEST: 'W',
+  NORTHEAST: 'NE',
+  NORTHWEST: 'NW',
+  SOUTHEAST: 'SE',
+  SOUTHWEST: 'SW',
+};
+
+const UNIT_DESIGNATORS: Record<string, string> = {
+  APARTMENT: 'APT',
+  BASEMENT: 'BSMT',
+  BUILDING: 'BLDG',
+  DEPARTMENT: 'DEPT',
+  FLOOR: 'FL',
+  FRONT: 'FRNT',
+  HANGAR: 'HNGR',
+  KEY: 'KEY',
+  LOBBY: 'LBBY',
+  LOT: 'LOT',
+  LOWER: 'LOWR',
+  OFFICE: 'OFC',
+  PENTHOUSE: 'PH',
+  PIER: 'PIER',
+  REAR: 'REAR',
+  ROOM: 'RM',
+  SIDE: 'SIDE',
+  SLIP: 'SLIP',
+  SPACE: 'SPC',
+  STOP: 'STOP',
+  SUITE: 'STE',
+  TRAILER: 'TRLR',
+  UNIT: 'UNIT',
+  UPPER: 'UPPR',
+};
+
+// Designators used without a unit number ("REAR", "PH")
+const STANDALONE_UNIT_DESIGNATORS = new Set([
+  'BSMT',
+  'FRNT',
+  'LBBY',
+  'LOWR',
+  'OFC',
+  'PH',
+  'REAR',
+  'SIDE',
+  'UPPR',
+]);
+
+const STATE_CODES: Record<string, string> = {
+  ALABAMA: 'AL',
+  ALASKA: 'AK',
+  'AMERICAN SAMOA': 'AS',
+  ARIZONA: 'AZ',
+  ARKANSAS: 'AR',
+  CALIFORNIA: 'CA',
+  COLORADO: 'CO',
+  CONNECTICUT: 'CT',
+  DELAWARE: 'DE',
+  'DISTRICT OF COLUMBIA': 'DC',
+  FLORIDA: 'FL',
+  GEORGIA: 'GA',
+  GUAM: 'GU',
+  HAWAII: 'HI',
+  IDAHO: 'ID',
+  ILLINOIS: 'IL',
+  INDIANA: 'IN',
+  IOWA: 'IA',
+  KANSAS: 'KS',
+  KENTUCKY: 'KY',
+  LOUISIANA: 'LA',
+  MAINE: 'ME',
+  MARYLAND: 'MD',
+  MASSACHUSETTS: 'MA',
+  MICHIGAN: 'MI',
+  MINNESOTA: 'MN',
+  MISSISSIPPI: 'MS',
+  MISSOURI: 'MO',
+  MONTANA: 'MT',
+  NEBRASKA: 'NE',
+  NEVADA: 'NV',
+  'NEW HAMPSHIRE': 'NH',
+  'NEW JERSEY': 'NJ',
+  'NEW MEXICO': 'NM',
+  'NEW YORK': 'NY',
+  'NORTH CAROLINA': 'NC',
+  'NORTH DAKOTA': 'ND',
+  'NORTHERN MARIANA ISLANDS': 'MP',
+  OHIO: 'OH',
+  OKLAHOMA: 'OK',
+  OREGON: 'OR',
+  PENNSYLVANIA: 'PA',
+  'PUERTO RICO': 'PR',
+  'RHODE ISLAND': 'RI',
+  'SOUTH CAROLINA': 'SC',
+  'SOUTH DAKOTA': 'SD',
+  TENNESSEE: 'TN',
+  TEXAS: 'TX',
+  UTAH: 'UT',
+  VERMONT: 'VT',
+  'VIRGIN ISLANDS': 'VI',
+  VIRGINIA: 'VA',
+  WASHINGTON: 'WA',
+  'WEST VIRGINIA': 'WV',
+  WISCONSIN: 'WI',
+  WYOMING: 'WY',
+  // Military "states"
+  'ARMED FORCES AMERICAS': 'AA',
+  'ARMED FORCES EUROPE': 'AE',
+  'ARMED FORCES PACIFIC': 'AP',
+};
+
+const VALID_STATE_CODES = new Set(Object.values(STATE_CODES));
+
+// First three ZIP digits assigned to each state: [first, last, states]
+const ZIP_PREFIXES: [number, number, string[]][] = [
+  [5, 5, ['NY']],
+  [6, 7, ['PR']],
+  [8, 8, ['VI']],
+  [9, 9, ['PR']],
+  [10, 27, ['MA']],
+  [28, 29, ['RI']],
+  [30, 38, ['NH']],
+  [39, 49, ['ME']],
+  [50, 54, ['VT']],
+  [55, 55, ['MA']],
+  [56, 59, ['VT']],
+  [60, 69, ['CT']],
+  [70, 89, ['NJ']],
+  [90, 99, ['AE']],
+  [100, 149, ['NY']],
+  [150, 196, ['PA']],
+  [197, 199, ['DE']],
+  [200, 200, ['DC']],
+  [201, 201, ['VA']],
+  [202, 205, ['DC']],
+  [206, 219, ['MD']],
+  [220, 246, ['VA']],
+  [247, 268, ['WV']],
+  [270, 289, ['NC']],
+  [290, 299, ['SC']],
+  [300, 319, ['GA']],
+  [320, 339, ['FL']],
+  [340, 340, ['AA']],
+  [341, 349, ['FL']],
+  [350, 369, ['AL']],
+  [370, 385, ['TN']],
+  [386, 397, ['MS']],
+  [398, 399, ['GA']],
+  [400, 427, ['KY']],
+  [430, 459, ['OH']],
+  [460, 479, ['IN']],
+  [480, 499, ['MI']],
+  [500, 528, ['IA']],
+  [530, 549, ['WI']],
+  [550, 567, ['MN']],
+  [569, 569, ['DC']],
+  [570, 577, ['SD']],
+  [580, 588, ['ND']],
+  [590, 599, ['MT']],
+  [600, 629, ['IL']],
+  [630, 658, ['MO']],
+  [660, 679, ['KS']],
+  [680, 693, ['NE']],
+  [700, 715, ['LA']],
+  [716, 729, ['AR']],
+  [730, 732, ['OK']],
+  [733, 733, ['TX']],
+  [734, 749, ['OK']],
+  [750, 799, ['TX']],
+  [800, 816, ['CO']],
+  [820, 831, ['WY']],
+  [832, 838, ['ID']],
+  [840, 847, ['UT']],
+  [850, 865, ['AZ']],
+  [870, 884, ['NM']],
+  [885, 885, ['TX']],
+  [889, 898, ['NV']],
+  [900, 961, ['CA']],
+  [962, 966, ['AP']],
+  [967, 968, ['HI', 'AS']],
+  [969, 969, ['GU', 'MP']],
+  [970, 979, ['OR']],
+  [980, 994, ['WA']],
+  [995, 999, ['AK']],
+];
+
+/**
+ * Split an address line into uppercase tokens without punctuation
+ *
+ * Hyphens and slashes are kept (e.g. "123-B", "1/2") and "#" becomes its
+ * own token.
+ */
+function tokenize(line: string): string[] {
+  return line
+    .toUpperCase()
+    .replace(/#/g, ' # ')
+    .replace(/[^\p{L}\p{N}#/\- ]+/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function getUnitDesignator(token: string): string | undefined {
+  if (token === '#') {
+    return token;
+  }
+  return (
+    UNIT_DESIGNATORS[token] ??
+    (Object.values(UNIT_DESIGNATORS).includes(token) ? token : undefined)
+  );
+}
+
+/**
+ * Find where the secondary unit starts in a delivery address line
+ *
+ * Designators that double as street words ("123 FRONT ST", "12 CORAL KEY")
+ * only count after the street name and, unless they stand alone, when
+ * followed by a unit number.
+ */
+function findUnitIndex(tokens: string[]): number {
+  return tokens.findIndex((token, i) => {
+    const designator = getUnitDesignator(token);
+    if (!designator || i < 2) {
+      return false;
+    }
+    const isLast = i === tokens.length - 1;
+    return STANDALONE_UNIT_DESIGNATORS.has(designator) ? isLast : !isLast;
+  });
+}
+
+function isSuffixToken(token: string): boolean {
+  return (
+    token in STREET_SUFFIXES || Object.values(STREET_SUFFIXES).includes(token)
+  );
+}
+
+function isDirectionalToken(token: string): boolean {
+  return token in DIRECTIONALS || Object.values(DIRECTIONALS).includes(token);
+}
+
+/**
+ * Normalize a secondary unit ("Apartment #5" → "APT 5", "#5" → "# 5")
+ */
+function normalizeUnit(tokens: string[]): string {
+  if (tokens.length === 0) {
+    return '';
+  }
+
+  const [designator, ...rest] = tokens;
+  // "APT # 5" → "APT 5"
+  const identifier = (rest[0] === '#' ? rest.slice(1) : rest).join(' ');
+  const abbreviation = getUnitDesignator(designator) ?? designator;
+
+  return identifier ? `${abbreviation} ${identifier}` : abbreviation;
+}
+
+/**
+ * Normalize a delivery address line
+ *
+ * "123 north Main Street southwest, Apartment 4" → "123 N MAIN ST SW APT 4"
+ */
+export function normalizeStreetLine(line: string): string {
+  const tokens = tokenize(line);
+  const unitIndex = findUnitIndex(tokens);
+  const street = unitIndex === -1 ? tokens : tokens.slice(0, unitIndex);
+  const unit = unitIndex === -1 ? [] : tokens.slice(unitIndex);
+
+  const nameStart = /^\d/.test(street[0] ?? '') ? 1 : 0;
+  let end = street.length - 1;
+
+  // Post-directional: only when it follows a suffix ("MAIN ST SOUTHWEST")
+  if (
+    end - 1 > nameStart &&
+    isDirectionalToken(street[end]) &&
+    isSuffixToken(street[end - 1])
+  ) {
+    street[end] = DIRECTIONALS[street[end]] ?? street[end];
+    end--;
+  }
+
+  // Suffix: the last street token, when a street name precedes it
+  let nameEnd = end;
+  if (end > nameStart && isSuffixToken(street[end])) {
+    street[end] = STREET_SUFFIXES[street[end]] ?? street[end];
+    nameEnd = end - 1;
+  }
+
+  // Pre-directional: only when a street name follows it ("NORTH AVE" is a name)
+  if (nameEnd > nameStart && isDirectionalToken(street[nameStart])) {
+    street[nameStart] = DIRECTIONALS[street[nameStart]] ?? street[nameStart];
+  }
+
+  return [...street, normalizeUnit(unit)].filter(Boolean).join(' ');
+}
+
+/**
+ * Normalize a secondary address line ("Suite 200" → "STE 200")
+ */
+export function normalizeSecondaryLine(line: string): string {
+  const tokens = tokenize(line);
+  return getUnitDesignator(tokens[0] ?? '')
+    ? normalizeUnit(tokens)
+    : tokens.join(' ');
+}
+
+/**
+ * Convert a state name or abbreviation to its two-letter code
+ *
+ * @returns The code, or null for unknown states
+ */
+export function normalizeState(state: string): string | null {
+  const key = tokenize(state).join(' ');
+  if (VALID_STATE_CODES.has(key)) {
+    return key;
+  }
+  return STATE_CODES[key] ?? null;
+}
+
+/**
+ * Format a ZIP or ZIP+4 code ("123456789" → "12345-6789")
+ *
+ * @returns The formatted code, or null when it is not a valid ZIP code
+ */
+export function normalizeZipCode(postalCode: string): string | null {
+  const digits = postalCode.replace(/[\s-]/g, '');
+  if (!/^\d{5}(\d{4})?$/.test(digits)) {
+    return null;
+  }
+  return digits.length === 9
+    ? `${digits.slice(0, 5)}-${digits.slice(5)}`
+    : digits;
+}
+
+/**
+ * Check that a ZIP code belongs to a state
+ */
+export function isZipInState(zipCode: string, state: string): boolean {
+  const prefix = Number.parseInt(zipCode.slice(0, 3), 10);
+  const range = ZIP_PREFIXES.find(
+    ([first, last]) => prefix >= first && prefix <= last,
+  );
+  return range ? range[2].includes(state) : false;
+}
+
+/**
+ * Normalize a US address to Publication 28 conventions and validate its
+ * state and ZIP code
+ *
+ * Fields that cannot be normalized are kept as entered and reported in
+ * `issues`.
+ */
+export function normalizeAddress(address: AddressFields): NormalizedAddress {
+  const issues: string[] = [];
+
+  const state = normalizeState(address.state);
+  if (!state) {
+    issues.push(`Unknown state "${address.state}"`);
+  }
+
+  const postalCode = normalizeZipCode(address.postalCode);
+  if (!postalCode) {
+    issues.push(`Invalid ZIP code "${address.postalCode}"`);
+  }
+
+  if (state && postalCode && !isZipInState(postalCode, state)) {
+    issues.push(`ZIP code ${postalCode} is not in ${state}`);
+  }
+
+  const addressLine2 = address.addressLine2
+    ? normalizeSecondaryLine(address.addressLine2)
+    : undefined;
+
+  return {
+    address: {
+      addressLine1: normalizeStreetLine(address.addressLine1),
+      ...(addressLine2 ? { addressLine2 } : {}),
+      city: tokenize(address.city).join(' '),
+      state: state ?? address.state,
+      postalCode: postalCode ?? address.postalCode,
+      country: address.country.toUpperCase(),
+    },
+    issues,
+  };
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+
+import { AddressVerificationService } from './address-verification.service';
+
+@Module({
+  providers: [AddressVerificationService],
+  exports: [AddressVerificationService],
+})
+export class AddressVerificationModule {}
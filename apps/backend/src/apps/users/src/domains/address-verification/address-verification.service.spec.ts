@@ -0,0 +1,68 @@
+import { AddressVerificationService } from './address-verification.service';
+
+describe('AddressVerificationService', () => {
+  const service = new AddressVerificationService();
+
+  it('should not report case and punctuation differences', () => {
+    const result = service.checkAddress({
+      addressLine1: '123 Main St.',
+      city: 'New York',
+      state: 'NY',
+      postalCode: '10001',
+      country: 'US',
+    });
+
+    expect(result.corrections).toEqual([]);
+    expect(result.issues).toEqual([]);
+    expect(result.standardized.addressLine1).toBe('123 MAIN ST');
+  });
+
+  it('should report fields changed by standardization', () => {
+    const result = service.checkAddress({
+      addressLine1: '123 Main Street',
+      city: 'New York',
+      state: 'New York',
+      postalCode: '10001',
+      country: 'US',
+    });
+
+    expect(result.corrections).toEqual([
+      {
+        field: 'addressLine1',
+        original: '123 Main Street',
+        suggested: '123 MAIN ST',
+      },
+      { field: 'state', original: 'New York', suggested: 'NY' },
+    ]);
+  });
+
+  it('should report validation issues', () => {
+    const result = service.checkAddress({
+      addressLine1: '123 Main St',
+      city: 'New York',
+      state: 'CA',
+      postalCode: '10001',
+      country: 'US',
+    });
+
+    expect(result.issues).toEqual(['ZIP code 10001 is not in CA']);
+  });
+
+  it('should not standardize non-US addresses', () => {
+    const address = {
+      addressLine1: '10 Downing Street',
+      city: 'London',
+      state: 'England',
+      postalCode: 'SW1A 2AA',
+      country: 'GB',
+    };
+
+    expect(service.checkAddress(address)).toEqual({
+      standardized: address,
+      corrections: [],
+      issues: [],
+      unlessGeocoded:
+        'Addresses in GB are verified by locating them, and this one could not be located',
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { Injectable } from '@nestjs/common';
+
+import { AddressFields, normalizeAddress } from './address-normalizer';
+
+/**
+ * How an address was verified: standardized only, or also located by the
+ * geocoding provider
+ */
+export type AddressVerificationMethod = 'normalization' | 'geocoding';
+
+/**
+ * A field whose standardized value differs from the entered one
+ */
+export interface AddressCorrection {
+  field: keyof AddressFields;
+  original?: string;
+  suggested?: string;
+}
+
+/**
+ * Outcome of checking an address
+ */
+export interface AddressCheck {
+  // Publication 28 form of the address
+  standardized: AddressFields;
+  // Fields the user should accept before the address is verified
+  corrections: AddressCorrection[];
+  // Problems that prevent verification (unknown state, ZIP mismatch, ...)
+  issues: string[];
+  // Problem that prevents verification unless the geocoding provider
+  // locates the address, for countries that can't be standardized
+  unlessGeocoded?: string;
+}
+
+const ADDRESS_FIELDS: (keyof AddressFields)[] = [
+  'addressLine1',
+  'addressLine2',
+  'city',
+  'state',
+  'postalCode',
+  'country',
+];
+
+/**
+ * Compare values ignoring case, punctuation and spacing, which
+ * standardization always changes
+ */
+const comparable = (value?: string) =>
+  (value ?? '').toUpperCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+/**
+ * Address Verification Service
+ *
+ * Standardizes US addresses to USPS Publication 28 conventions and
+ * validates state/ZIP consistency. Non-US addresses are not standardized,
+ * so only geocoding can verify them.
+ */
+@Injectable()
+export class AddressVerificationService {
+  /**
+   * Check an address against its standardized form
+   *
+   * Differences in case and punctuation alone are not reported as
+   * corrections.
+   */
+  checkAddress(address: AddressFields): AddressCheck {
+    const country = (address.country || 'US').toUpperCase();
+    if (country !== 'US') {
+      return {
+        standardized: { ...address },
+        corrections: [],
+        issues: [],
+        unlessGeocoded: `Addresses in ${country} are verified by locating them, and this one could not be located`,
+      };
+    }
+
+    const input = { ...address, country };
+    const { address: standardized, issues } = normalizeAddress(input);
+
+    const corrections = ADDRESS_FIELDS.filter(
+      (field) => comparable(input[field]) !== comparable(standardized[field]),
+    ).map((field) => ({
+      field,
+      original: input[field],
+      suggested: standardized[field],
+    }));
+
+    return { standardized, corrections, issues };
+  }
+}
@@ -6,10 +6,12 @@ import { AuthResolver } from './auth.resolver';
 import { AuthService } from './auth.service';
 import { PasskeyService } from './services/passkey.service';
 import { AccountLockoutService } from './services/account-lockout.service';
+import { SecurityAlertService } from './services/security-alert.service';
 import { JwtStrategy } from 'src/common/auth/jwt.strategy';
 import { UsersModule } from '../user/users.module';
 import { EmailDomainModule } from '../email/email.module';
 import { AuthModule as AuthProviderModule } from '@qckstrt/auth-provider';
+import { NotificationsModule } from 'src/common/notifications';
 
 // Entities
 import { PasskeyCredentialEntity } from 'src/db/entities/passkey-credential.entity';
@@ -25,12 +27,14 @@ import { WebAuthnChallengeEntity } from 'src/db/entities/webauthn-challenge.enti
     forwardRef(() => UsersModule),
     forwardRef(() => EmailDomainModule),
     AuthProviderModule,
+    NotificationsModule,
   ],
   providers: [
     AuthResolver,
     AuthService,
     PasskeyService,
     AccountLockoutService,
+    SecurityAlertService,
     JwtStrategy,
   ],
   exports: [AuthService, PasskeyService, AccountLockoutService],
@@ -8,6 +8,10 @@ import { AuthResolver } from './auth.resolver';
 import { AuthService } from './auth.service';
 import { PasskeyService } from './services/passkey.service';
 import { AccountLockoutService } from './services/account-lockout.service';
+import {
+  SecurityAlert,
+  SecurityAlertService,
+} from './services/security-alert.service';
 import { UsersService } from '../user/users.service';
 
 import {
@@ -48,6 +52,8 @@ const createMockLockoutService = () => ({
 describe('AuthResolver', () => {
   let resolver: AuthResolver;
   let authService: AuthService;
+  let securityAlerts: SecurityAlertService;
+  let lockoutService: AccountLockoutService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -57,6 +63,10 @@ describe('AuthResolver', () => {
         { provide: PasskeyService, useValue: createMock<PasskeyService>() },
         { provide: UsersService, useValue: createMock<UsersService>() },
         { provide: ConfigService, useValue: createMock<ConfigService>() },
+        {
+          provide: SecurityAlertService,
+          useValue: createMock<SecurityAlertService>(),
+        },
         {
           provide: AccountLockoutService,
           useValue: createMockLockoutService(),
@@ -66,6 +76,8 @@ describe('AuthResolver', () => {
 
     resolver = module.get<AuthResolver>(AuthResolver);
     authService = module.get<AuthService>(AuthService);
+    securityAlerts = module.get<SecurityAlertService>(SecurityAlertService);
+    lockoutService = module.get<AccountLockoutService>(AccountLockoutService);
   });
 
   afterEach(() => {
@@ -145,6 +157,22 @@ describe('AuthResolver', () => {
     }
   });
 
+  it('should alert the user when their account is locked', async () => {
+    authService.authenticateUser = jest
+      .fn()
+      .mockRejectedValue(new Error('Failed user login!'));
+    lockoutService.recordFailedAttempt = jest.fn().mockReturnValue(true);
+
+    await expect(
+      resolver.loginUser(loginUserDto, createMockContext()),
+    ).rejects.toThrow('Account temporarily locked');
+
+    expect(securityAlerts.sendByEmail).toHaveBeenCalledWith(
+      loginUserDto.email,
+      SecurityAlert.ACCOUNT_LOCKED,
+    );
+  });
+
   it('should change a user password', async () => {
     authService.changePassword = jest
       .fn()
@@ -175,6 +203,33 @@ describe('AuthResolver', () => {
     }
   });
 
+  it('should alert the user when their password changes', async () => {
+    authService.changePassword = jest.fn().mockResolvedValue(true);
+
+    const mockContext = createMockContext();
+    mockContext.req.user = { id: 'user-1', email: 'test@example.com' } as any;
+    await resolver.changePassword(changePasswordDto, mockContext);
+
+    expect(securityAlerts.send).toHaveBeenCalledWith(
+      'user-1',
+      SecurityAlert.PASSWORD_CHANGED,
+    );
+  });
+
+  it('should not alert anyone when a password change fails', async () => {
+    authService.changePassword = jest
+      .fn()
+      .mockRejectedValue(new Error('Failed user password change!'));
+
+    const mockContext = createMockContext();
+    mockContext.req.user = { id: 'user-1', email: 'test@example.com' } as any;
+    await expect(
+      resolver.changePassword(changePasswordDto, mockContext),
+    ).rejects.toThrow('Failed user password change!');
+
+    expect(securityAlerts.send).not.toHaveBeenCalled();
+  });
+
   it('should send a forgot user password', async () => {
     authService.forgotPassword = jest
       .fn()
@@ -204,6 +259,20 @@ describe('AuthResolver', () => {
     expect(authService.confirmForgotPassword).toHaveBeenCalledTimes(1);
   });
 
+  it('should alert the user when their password is reset', async () => {
+    authService.confirmForgotPassword = jest.fn().mockResolvedValue(true);
+
+    await resolver.confirmForgotPassword(
+      confirmForgotPasswordDto,
+      createMockContext(),
+    );
+
+    expect(securityAlerts.sendByEmail).toHaveBeenCalledWith(
+      confirmForgotPasswordDto.email,
+      SecurityAlert.PASSWORD_RESET,
+    );
+  });
+
   it('should fail to confirm a forgot user password', async () => {
     authService.confirmForgotPassword = jest
       .fn()
@@ -364,6 +433,10 @@ describe('AuthResolver', () => {
           { provide: PasskeyService, useValue: createMock<PasskeyService>() },
           { provide: UsersService, useValue: createMock<UsersService>() },
           { provide: ConfigService, useValue: createMock<ConfigService>() },
+          {
+            provide: SecurityAlertService,
+            useValue: createMock<SecurityAlertService>(),
+          },
           {
             provide: AccountLockoutService,
             useValue: createMockLockoutService(),
@@ -434,6 +507,10 @@ describe('AuthResolver', () => {
           { provide: PasskeyService, useValue: createMock<PasskeyService>() },
           { provide: UsersService, useValue: createMock<UsersService>() },
           { provide: ConfigService, useValue: createMock<ConfigService>() },
+          {
+            provide: SecurityAlertService,
+            useValue: createMock<SecurityAlertService>(),
+          },
           {
             provide: AccountLockoutService,
             useValue: createMockLockoutService(),
@@ -444,6 +521,7 @@ describe('AuthResolver', () => {
       resolver = module.get<AuthResolver>(AuthResolver);
       authService = module.get<AuthService>(AuthService);
       passkeyService = module.get<PasskeyService>(PasskeyService);
+      securityAlerts = module.get<SecurityAlertService>(SecurityAlertService);
       usersService = module.get<UsersService>(UsersService);
     });
 
@@ -473,6 +551,10 @@ describe('AuthResolver', () => {
         'user-1',
         'passkey',
       );
+      expect(securityAlerts.send).toHaveBeenCalledWith(
+        'user-1',
+        SecurityAlert.PASSKEY_ADDED,
+      );
     });
 
     it('should return false when verification fails', async () => {
@@ -522,6 +604,10 @@ describe('AuthResolver', () => {
           { provide: PasskeyService, useValue: createMock<PasskeyService>() },
           { provide: UsersService, useValue: createMock<UsersService>() },
           { provide: ConfigService, useValue: createMock<ConfigService>() },
+          {
+            provide: SecurityAlertService,
+            useValue: createMock<SecurityAlertService>(),
+          },
           {
             provide: AccountLockoutService,
             useValue: createMockLockoutService(),
@@ -587,6 +673,10 @@ describe('AuthResolver', () => {
           { provide: PasskeyService, useValue: createMock<PasskeyService>() },
           { provide: UsersService, useValue: createMock<UsersService>() },
           { provide: ConfigService, useValue: createMock<ConfigService>() },
+          {
+            provide: SecurityAlertService,
+            useValue: createMock<SecurityAlertService>(),
+          },
           {
             provide: AccountLockoutService,
             useValue: createMockLockoutService(),
@@ -653,6 +743,10 @@ describe('AuthResolver', () => {
           { provide: PasskeyService, useValue: createMock<PasskeyService>() },
           { provide: UsersService, useValue: createMock<UsersService>() },
           { provide: ConfigService, useValue: createMock<ConfigService>() },
+          {
+            provide: SecurityAlertService,
+            useValue: createMock<SecurityAlertService>(),
+          },
           {
             provide: AccountLockoutService,
             useValue: createMockLockoutService(),
@@ -709,6 +803,10 @@ describe('AuthResolver', () => {
           { provide: PasskeyService, useValue: createMock<PasskeyService>() },
           { provide: UsersService, useValue: createMock<UsersService>() },
           { provide: ConfigService, useValue: createMock<ConfigService>() },
+          {
+            provide: SecurityAlertService,
+            useValue: createMock<SecurityAlertService>(),
+          },
           {
             provide: AccountLockoutService,
             useValue: createMockLockoutService(),
@@ -718,6 +816,7 @@ describe('AuthResolver', () => {
 
       resolver = module.get<AuthResolver>(AuthResolver);
       passkeyService = module.get<PasskeyService>(PasskeyService);
+      securityAlerts = module.get<SecurityAlertService>(SecurityAlertService);
     });
 
     // SECURITY: Tests now use request.user (set by passport) instead of headers.user (spoofable)
@@ -744,6 +843,10 @@ describe('AuthResolver', () => {
         'cred-1',
         'user-1',
       );
+      expect(securityAlerts.send).toHaveBeenCalledWith(
+        'user-1',
+        SecurityAlert.PASSKEY_REMOVED,
+      );
     });
 
     it('should throw error when user not authenticated', async () => {
@@ -45,6 +45,10 @@ import {
   PasskeyCredential,
 } from './dto/passkey.dto';
 import { PasskeyService } from './services/passkey.service';
+import {
+  SecurityAlert,
+  SecurityAlertService,
+} from './services/security-alert.service';
 
 // Magic Link DTOs
 import {
@@ -66,6 +70,7 @@ export class AuthResolver {
     private readonly usersService: UsersService,
     private readonly configService: ConfigService,
     private readonly lockoutService: AccountLockoutService,
+    private readonly securityAlerts: SecurityAlertService,
     @Optional() private readonly auditLogService?: AuditLogService,
   ) {}
 
@@ -220,6 +225,10 @@ export class AuthResolver {
           operationType: 'mutation',
           errorMessage: 'Account locked after too many failed attempts',
         });
+        void this.securityAlerts.sendByEmail(
+          email,
+          SecurityAlert.ACCOUNT_LOCKED,
+        );
 
         throw new ForbiddenException(
           'Too many failed login attempts. Account temporarily locked for 15 minutes.',
@@ -266,6 +275,12 @@ export class AuthResolver {
         resolverName: 'changePassword',
         operationType: 'mutation',
       });
+      if (auditContext.userId) {
+        void this.securityAlerts.send(
+          auditContext.userId,
+          SecurityAlert.PASSWORD_CHANGED,
+        );
+      }
     } catch (error) {
       // Audit: Password change failure
       this.auditLogService?.logSync({
@@ -333,6 +348,10 @@ export class AuthResolver {
         resolverName: 'confirmForgotPassword',
         operationType: 'mutation',
       });
+      void this.securityAlerts.sendByEmail(
+        confirmForgotPasswordDto.email,
+        SecurityAlert.PASSWORD_RESET,
+      );
     } catch (error) {
       // Audit: Password reset failure
       this.auditLogService?.logSync({
@@ -501,6 +520,7 @@ export class AuthResolver {
           resolverName: 'verifyPasskeyRegistration',
           operationType: 'mutation',
         });
+        void this.securityAlerts.send(user.id, SecurityAlert.PASSKEY_ADDED);
 
         return true;
       }
@@ -645,6 +665,9 @@ export class AuthResolver {
       resolverName: 'deletePasskey',
       operationType: 'mutation',
     });
+    if (result) {
+      void this.securityAlerts.send(user.id, SecurityAlert.PASSKEY_REMOVED);
+    }
 
     return result;
   }
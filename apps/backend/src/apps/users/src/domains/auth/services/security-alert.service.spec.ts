@@ -0,0 +1,239 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { createECDH, randomBytes } from 'node:crypto';
+import {
+  NotificationCategory,
+  NotificationDeliveryEntity,
+} from 'src/db/entities/notification-delivery.entity';
+import { NotificationEntity } from 'src/db/entities/notification.entity';
+import { NotificationPreferenceEntity } from 'src/db/entities/notification-preference.entity';
+import { UserProfileEntity } from 'src/db/entities/user-profile.entity';
+import { UserConsentEntity } from 'src/db/entities/user-consent.entity';
+import { UserEntity } from 'src/db/entities/user.entity';
+import { EmailCorrespondenceEntity } from 'src/db/entities/email-correspondence.entity';
+import { PushSubscriptionEntity } from 'src/db/entities/push-subscription.entity';
+import {
+  NotificationDispatcherService,
+  WebPushService,
+} from 'src/common/notifications';
+import { UsersService } from '../../user/users.service';
+import { SecurityAlert, SecurityAlertService } from './security-alert.service';
+
+describe('SecurityAlertService', () => {
+  let service: SecurityAlertService;
+  let dispatcher: { dispatch: jest.Mock };
+  let usersService: { findByEmail: jest.Mock };
+
+  beforeEach(async () => {
+    dispatcher = { dispatch: jest.fn().mockResolvedValue([]) };
+    usersService = {
+      findByEmail: jest.fn().mockResolvedValue({ id: 'user-1' }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SecurityAlertService,
+        { provide: NotificationDispatcherService, useValue: dispatcher },
+        { provide: UsersService, useValue: usersService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'FRONTEND_URL' ? 'https://app.example.com' : undefined,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SecurityAlertService>(SecurityAlertService);
+  });
+
+  it('dispatches a security alert linking to the security settings', async () => {
+    await service.send('user-1', SecurityAlert.PASSWORD_CHANGED);
+
+    expect(dispatcher.dispatch).toHaveBeenCalledWith([
+      {
+        userId: 'user-1',
+        category: NotificationCategory.SECURITY_ALERT,
+        title: 'Your password was changed',
+        lines: [
+          'The password for your account was just changed.',
+          "If this wasn't you, reset your password and review your passkeys.",
+        ],
+        url: 'https://app.example.com/settings/security',
+      },
+    ]);
+  });
+
+  it('does not fail when dispatching fails', async () => {
+    dispatcher.dispatch.mockRejectedValue(new Error('db down'));
+
+    await expect(
+      service.send('user-1', SecurityAlert.PASSKEY_ADDED),
+    ).resolves.toBeUndefined();
+  });
+
+  it('alerts the user with an email address', async () => {
+    await service.sendByEmail('a@example.com', SecurityAlert.ACCOUNT_LOCKED);
+
+    expect(usersService.findByEmail).toHaveBeenCalledWith('a@example.com');
+    expect(dispatcher.dispatch).toHaveBeenCalledWith([
+      expect.objectContaining({
+        userId: 'user-1',
+        title: 'Your account was locked',
+      }),
+    ]);
+  });
+
+  it('alerts no one for an unknown email address', async () => {
+    usersService.findByEmail.mockResolvedValue(null);
+
+    await service.sendByEmail(
+      'nobody@example.com',
+      SecurityAlert.PASSWORD_RESET,
+    );
+
+    expect(dispatcher.dispatch).not.toHaveBeenCalled();
+  });
+
+  it('does not fail when the user cannot be looked up', async () => {
+    usersService.findByEmail.mockRejectedValue(new Error('db down'));
+
+    await expect(
+      service.sendByEmail('a@example.com', SecurityAlert.PASSWORD_RESET),
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe('SecurityAlertService with the notification dispatcher', () => {
+  const server = createECDH('prime256v1');
+  server.generateKeys();
+  const browser = createECDH('prime256v1');
+  browser.generateKeys();
+
+  const config: Record<string, unknown> = {
+    FRONTEND_URL: 'https://app.example.com',
+    'push.vapidPublicKey': server.getPublicKey().toString('base64url'),
+    'push.vapidPrivateKey': server.getPrivateKey().toString('base64url'),
+  };
+
+  const subscription = {
+    id: 'subscription-1',
+    userId: 'user-1',
+    endpoint: 'https://fcm.googleapis.com/fcm/send/abc',
+    p256dh: browser.getPublicKey().toString('base64url'),
+    auth: randomBytes(16).toString('base64url'),
+  } as PushSubscriptionEntity;
+
+  let service: SecurityAlertService;
+  let webPush: WebPushService;
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(async () => {
+    fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValue(new Response(null, { status: 201 }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SecurityAlertService,
+        NotificationDispatcherService,
+        WebPushService,
+        {
+          provide: getRepositoryToken(NotificationDeliveryEntity),
+          useValue: {
+            create: jest.fn((values) => values),
+            save: jest.fn((values: NotificationDeliveryEntity[]) =>
+              Promise.resolve(
+                values.map((delivery, i) => ({ ...delivery, id: `d-${i}` })),
+              ),
+            ),
+          },
+        },
+        {
+          provide: getRepositoryToken(NotificationEntity),
+          useValue: {
+            insert: jest.fn().mockResolvedValue({ identifiers: [] }),
+            query: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(NotificationPreferenceEntity),
+          useValue: {
+            find: jest.fn().mockResolvedValue([
+              {
+                userId: 'user-1',
+                emailEnabled: false,
+                inAppEnabled: false,
+                pushEnabled: true,
+                pushSecurityAlerts: true,
+              },
+            ]),
+          },
+        },
+        {
+          provide: getRepositoryToken(UserProfileEntity),
+          useValue: { find: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: getRepositoryToken(UserConsentEntity),
+          useValue: { find: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: getRepositoryToken(UserEntity),
+          useValue: {
+            find: jest
+              .fn()
+              .mockResolvedValue([{ id: 'user-1', email: 'a@example.com' }]),
+          },
+        },
+        {
+          provide: getRepositoryToken(EmailCorrespondenceEntity),
+          useValue: {},
+        },
+        {
+          provide: getRepositoryToken(PushSubscriptionEntity),
+          useValue: {
+            find: jest.fn().mockResolvedValue([subscription]),
+            update: jest.fn().mockResolvedValue({ affected: 1 }),
+          },
+        },
+        { provide: 'EMAIL_PROVIDER', useValue: {} },
+        { provide: UsersService, useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SecurityAlertService>(SecurityAlertService);
+    webPush = module.get<WebPushService>(WebPushService);
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('pushes the alert to the browsers the user registered, urgently', async () => {
+    const send = jest.spyOn(webPush, 'send');
+
+    await service.send('user-1', SecurityAlert.PASSKEY_REMOVED);
+
+    expect(send).toHaveBeenCalledWith(
+      subscription,
+      {
+        title: 'A passkey was removed from your account',
+        body: expect.stringContaining('can no longer be used to sign in'),
+        url: 'https://app.example.com/settings/security',
+        tag: expect.any(String),
+      },
+      true,
+    );
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe(subscription.endpoint);
+    expect(init.headers).toMatchObject({ Urgency: 'high' });
+  });
+});
@@ -0,0 +1,111 @@
+import { Inject, Injectable, forwardRef } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NotificationCategory } from 'src/db/entities/notification-delivery.entity';
+import { NotificationDispatcherService } from 'src/common/notifications';
+import { SecureLogger } from 'src/common/services/secure-logger.service';
+import { UsersService } from '../../user/users.service';
+
+/**
+ * Changes to how a user signs in that they are alerted about
+ */
+export enum SecurityAlert {
+  PASSWORD_CHANGED = 'password_changed',
+  PASSWORD_RESET = 'password_reset',
+  PASSKEY_ADDED = 'passkey_added',
+  PASSKEY_REMOVED = 'passkey_removed',
+  ACCOUNT_LOCKED = 'account_locked',
+}
+
+const ALERTS: Record<SecurityAlert, { title: string; line: string }> = {
+  [SecurityAlert.PASSWORD_CHANGED]: {
+    title: 'Your password was changed',
+    line: 'The password for your account was just changed.',
+  },
+  [SecurityAlert.PASSWORD_RESET]: {
+    title: 'Your password was reset',
+    line: 'The password for your account was just reset from a password reset email.',
+  },
+  [SecurityAlert.PASSKEY_ADDED]: {
+    title: 'A passkey was added to your account',
+    line: 'A new passkey can now be used to sign in to your account.',
+  },
+  [SecurityAlert.PASSKEY_REMOVED]: {
+    title: 'A passkey was removed from your account',
+    line: 'A passkey can no longer be used to sign in to your account.',
+  },
+  [SecurityAlert.ACCOUNT_LOCKED]: {
+    title: 'Your account was locked',
+    line: 'Sign-in was locked for a while after too many failed password attempts.',
+  },
+};
+
+const NOT_YOU_LINE =
+  "If this wasn't you, reset your password and review your passkeys.";
+
+/**
+ * Security Alert Service
+ *
+ * Tells users about changes to how they sign in through the notification
+ * dispatcher, as SECURITY_ALERT notifications: by email, in the app and by
+ * push, regardless of quiet hours.
+ */
+@Injectable()
+export class SecurityAlertService {
+  // Use SecureLogger to automatically redact PII (emails, IPs) from log messages
+  // @see https://github.com/CommonwealthLabsCode/qckstrt/issues/192
+  private readonly logger = new SecureLogger(SecurityAlertService.name);
+  private readonly securityUrl: string;
+
+  constructor(
+    private readonly dispatcher: NotificationDispatcherService,
+    @Inject(forwardRef(() => UsersService))
+    private readonly usersService: UsersService,
+    configService: ConfigService,
+  ) {
+    const frontendUrl =
+      configService.get<string>('FRONTEND_URL') ||
+      'https://app.commonwealthlabs.io';
+    this.securityUrl = `${frontendUrl}/settings/security`;
+  }
+
+  /**
+   * Alert a user
+   *
+   * Failures are logged, so an alert never fails the sign-in flow that
+   * raised it.
+   */
+  async send(userId: string, alert: SecurityAlert): Promise<void> {
+    const { title, line } = ALERTS[alert];
+    try {
+      await this.dispatcher.dispatch([
+        {
+          userId,
+          category: NotificationCategory.SECURITY_ALERT,
+          title,
+          lines: [line, NOT_YOU_LINE],
+          url: this.securityUrl,
+        },
+      ]);
+    } catch (error) {
+      this.logger.error(
+        `Failed to send ${alert} alert to user ${userId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Alert the user with an email address, if there is one
+   */
+  async sendByEmail(email: string, alert: SecurityAlert): Promise<void> {
+    try {
+      const user = await this.usersService.findByEmail(email);
+      if (user) {
+        await this.send(user.id, alert);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to send ${alert} alert to ${email}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
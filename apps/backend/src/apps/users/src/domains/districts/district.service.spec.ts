@@ -0,0 +1,298 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { SelectQueryBuilder } from 'typeorm';
+import { createMock } from '@golevelup/ts-jest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { DistrictService } from './district.service';
+import {
+  DistrictBoundaryEntity,
+  DistrictType,
+} from 'src/db/entities/district-boundary.entity';
+import { UserAddressEntity } from 'src/db/entities/user-address.entity';
+
+const square = (minLon: number, minLat: number, size: number) => ({
+  type: 'Polygon' as const,
+  coordinates: [
+    [
+      [minLon, minLat],
+      [minLon + size, minLat],
+      [minLon + size, minLat + size],
+      [minLon, minLat + size],
+      [minLon, minLat],
+    ],
+  ],
+});
+
+describe('DistrictService', () => {
+  let service: DistrictService;
+  let config: Record<string, unknown>;
+  let boundaries: DistrictBoundaryEntity[];
+  let manager: { delete: jest.Mock; insert: jest.Mock };
+  let boundaryRepo: {
+    createQueryBuilder: jest.Mock;
+    manager: { transaction: jest.Mock };
+  };
+  let dir: string;
+
+  const boundary = (
+    districtType: DistrictType,
+    name: string,
+    geometry: ReturnType<typeof square>,
+  ) =>
+    ({
+      districtType,
+      name,
+      geometry,
+      source: `${districtType}.geojson`,
+    }) as DistrictBoundaryEntity;
+
+  beforeEach(async () => {
+    config = {};
+    boundaries = [
+      boundary(DistrictType.STATE_SENATE, 'SD-1', square(0, 0, 10)),
+      boundary(DistrictType.STATE_SENATE, 'SD-2', square(10, 0, 10)),
+      boundary(DistrictType.COUNTY, 'Alameda', square(0, 0, 20)),
+    ];
+
+    manager = {
+      delete: jest.fn().mockResolvedValue({}),
+      insert: jest.fn().mockResolvedValue({}),
+    };
+    boundaryRepo = {
+      createQueryBuilder: jest.fn(() => {
+        const qb = createMock<SelectQueryBuilder<DistrictBoundaryEntity>>();
+        qb.where.mockReturnThis();
+        qb.andWhere.mockReturnThis();
+        qb.select.mockReturnThis();
+        qb.getMany.mockResolvedValue(boundaries);
+        qb.getRawMany.mockResolvedValue(
+          [...new Set(boundaries.map((b) => b.districtType))].map(
+            (districtType) => ({ districtType }),
+          ),
+        );
+        return qb;
+      }),
+      manager: {
+        transaction: jest.fn((cb) => cb(manager)),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DistrictService,
+        {
+          provide: getRepositoryToken(DistrictBoundaryEntity),
+          useValue: boundaryRepo,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DistrictService>(DistrictService);
+    dir = await mkdtemp(join(tmpdir(), 'district-boundaries-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('resolveDistricts', () => {
+    it('should return the boundaries containing the point', async () => {
+      const districts = await service.resolveDistricts(12, 5);
+
+      expect(districts).toEqual(
+        new Map([
+          [DistrictType.STATE_SENATE, 'SD-2'],
+          [DistrictType.COUNTY, 'Alameda'],
+        ]),
+      );
+    });
+  });
+
+  describe('assignDistricts', () => {
+    it('should fill district fields and civicDataUpdatedAt', async () => {
+      const address = {
+        latitude: '5',
+        longitude: '5',
+        stateSenatorialDistrict: 'stale',
+        congressionalDistrict: 'CA-12',
+      } as unknown as UserAddressEntity;
+
+      const assigned = await service.assignDistricts(address);
+
+      expect(assigned).toBe(true);
+      expect(address.stateSenatorialDistrict).toBe('SD-1');
+      expect(address.county).toBe('Alameda');
+      expect(address.civicDataUpdatedAt).toBeInstanceOf(Date);
+      // No congressional boundaries are loaded, so it is left alone
+      expect(address.congressionalDistrict).toBe('CA-12');
+    });
+
+    it('should clear districts the address falls outside of', async () => {
+      const address = {
+        latitude: 15,
+        longitude: 25,
+        stateSenatorialDistrict: 'SD-1',
+      } as UserAddressEntity;
+
+      await service.assignDistricts(address);
+
+      expect(address.stateSenatorialDistrict).toBeNull();
+      expect(address.county).toBeNull();
+    });
+
+    it('should skip addresses without coordinates', async () => {
+      const address = { county: 'Alameda' } as UserAddressEntity;
+
+      expect(await service.assignDistricts(address)).toBe(false);
+      expect(address.civicDataUpdatedAt).toBeUndefined();
+      expect(boundaryRepo.createQueryBuilder).not.toHaveBeenCalled();
+    });
+
+    it('should skip assignment when no boundaries are loaded', async () => {
+      boundaries = [];
+      const address = { latitude: 5, longitude: 5 } as UserAddressEntity;
+
+      expect(await service.assignDistricts(address)).toBe(false);
+      expect(address.civicDataUpdatedAt).toBeUndefined();
+    });
+  });
+
+  describe('loadBoundaries', () => {
+    const featureCollection = {
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: { DISTRICT: 'SD-1', GEOID: '06001' },
+          geometry: square(0, 0, 10),
+        },
+        {
+          type: 'Feature',
+          properties: { DISTRICT: 'Nowhere' },
+          geometry: { type: 'Point', coordinates: [0, 0] },
+        },
+      ],
+    };
+
+    it('should load the files listed in the manifest', async () => {
+      await writeFile(
+        join(dir, 'manifest.json'),
+        JSON.stringify({
+          boundaries: [
+            {
+              file: 'senate.geojson',
+              districtType: DistrictType.STATE_SENATE,
+              nameProperty: 'DISTRICT',
+              idProperty: 'GEOID',
+            },
+          ],
+        }),
+      );
+      await writeFile(
+        join(dir, 'senate.geojson'),
+        JSON.stringify(featureCollection),
+      );
+
+      const count = await service.loadBoundaries(dir);
+
+      expect(count).toBe(1);
+      expect(manager.delete).toHaveBeenCalledWith(DistrictBoundaryEntity, {
+        source: 'senate.geojson',
+      });
+      expect(manager.insert).toHaveBeenCalledWith(DistrictBoundaryEntity, [
+        expect.objectContaining({
+          districtType: DistrictType.STATE_SENATE,
+          name: 'SD-1',
+          externalId: '06001',
+          source: 'senate.geojson',
+          minLongitude: 0,
+          minLatitude: 0,
+          maxLongitude: 10,
+          maxLatitude: 10,
+        }),
+      ]);
+    });
+
+    it('should load files named after district types without a manifest', async () => {
+      await writeFile(
+        join(dir, 'county.geojson'),
+        JSON.stringify({
+          type: 'Feature',
+          properties: { name: 'Alameda' },
+          geometry: square(0, 0, 20),
+        }),
+      );
+      await writeFile(join(dir, 'README.json'), '{}');
+
+      const count = await service.loadBoundaries(dir);
+
+      expect(count).toBe(1);
+      expect(manager.insert).toHaveBeenCalledWith(DistrictBoundaryEntity, [
+        expect.objectContaining({
+          districtType: DistrictType.COUNTY,
+          name: 'Alameda',
+        }),
+      ]);
+    });
+
+    it('should reject unknown district types in the manifest', async () => {
+      await writeFile(
+        join(dir, 'manifest.json'),
+        JSON.stringify({
+          boundaries: [{ file: 'wards.geojson', districtType: 'ward' }],
+        }),
+      );
+
+      await expect(service.loadBoundaries(dir)).rejects.toThrow(
+        'Unknown district type "ward" for wards.geojson',
+      );
+    });
+  });
+
+  describe('onModuleInit', () => {
+    it('should do nothing without a boundaries directory', async () => {
+      await service.onModuleInit();
+
+      expect(boundaryRepo.manager.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should load boundaries from the configured directory', async () => {
+      config['districts.boundariesDir'] = dir;
+      await writeFile(
+        join(dir, 'county.geojson'),
+        JSON.stringify({
+          type: 'Feature',
+          properties: { name: 'Alameda' },
+          geometry: square(0, 0, 20),
+        }),
+      );
+
+      await service.onModuleInit();
+
+      expect(manager.insert).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not load when loading on startup is disabled', async () => {
+      config['districts.boundariesDir'] = dir;
+      config['districts.loadOnStartup'] = false;
+
+      await service.onModuleInit();
+
+      expect(boundaryRepo.manager.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when the directory cannot be read', async () => {
+      config['districts.boundariesDir'] = join(dir, 'missing');
+
+      await expect(service.onModuleInit()).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { readFile, readdir } from 'node:fs/promises';
+import { extname, basename, join } from 'node:path';
+
+import {
+  DistrictBoundaryEntity,
+  DistrictType,
+} from 'src/db/entities/district-boundary.entity';
+import { UserAddressEntity } from 'src/db/entities/user-address.entity';
+import {
+  getBoundingBox,
+  isBoundaryGeometry,
+  isPointInGeometry,
+} from './geometry';
+
+/**
+ * One boundary file listed in the boundaries directory's manifest.json
+ */
+export interface BoundaryFileDefinition {
+  file: string;
+  districtType: DistrictType;
+  // Feature property holding the district name (default: 'name')
+  nameProperty?: string;
+  // Feature property holding a source identifier such as a GEOID
+  idProperty?: string;
+}
+
+/**
+ * Address field filled for each district type
+ */
+const ADDRESS_DISTRICT_FIELDS: Record<DistrictType, keyof UserAddressEntity> = {
+  [DistrictType.CONGRESSIONAL]: 'congressionalDistrict',
+  [DistrictType.STATE_SENATE]: 'stateSenatorialDistrict',
+  [DistrictType.STATE_ASSEMBLY]: 'stateAssemblyDistrict',
+  [DistrictType.COUNTY]: 'county',
+  [DistrictType.MUNICIPALITY]: 'municipality',
+  [DistrictType.SCHOOL_DISTRICT]: 'schoolDistrict',
+  [DistrictType.PRECINCT]: 'precinctId',
+};
+
+const MANIFEST_FILE = 'manifest.json';
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * District Service
+ *
+ * Assigns addresses to districts offline. Boundary polygons are loaded from
+ * the GeoJSON files a region ships into the database, and an address's
+ * coordinates are matched against them with a point-in-polygon test.
+ */
+@Injectable()
+export class DistrictService implements OnModuleInit {
+  private readonly logger = new Logger(DistrictService.name, {
+    timestamp: true,
+  });
+  private loadedTypes?: Set<DistrictType>;
+
+  constructor(
+    @InjectRepository(DistrictBoundaryEntity)
+    private readonly boundaryRepo: Repository<DistrictBoundaryEntity>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Load the configured boundary files on startup
+   */
+  async onModuleInit() {
+    const dir = this.configService.get<string>('districts.boundariesDir');
+    if (!dir) {
+      this.logger.log('No boundaries directory configured');
+      return;
+    }
+
+    if (this.configService.get('districts.loadOnStartup') === false) {
+      return;
+    }
+
+    try {
+      await this.loadBoundaries(dir);
+    } catch (error) {
+      this.logger.error(
+        `Failed to load district boundaries from ${dir}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Load every boundary file in a directory, replacing the polygons
+   * previously loaded from each file
+   *
+   * Files are listed in manifest.json; without one, files named after a
+   * district type (e.g. state_senate.geojson) are loaded.
+   *
+   * @returns Number of boundaries loaded
+   */
+  async loadBoundaries(dir: string): Promise<number> {
+    const definitions = await this.readManifest(dir);
+    let total = 0;
+
+    for (const definition of definitions) {
+      total += await this.loadBoundaryFile(dir, definition);
+    }
+
+    this.loadedTypes = undefined;
+    this.logger.log(
+      `Loaded ${total} district boundaries from ${definitions.length} files`,
+    );
+    return total;
+  }
+
+  /**
+   * Resolve the districts containing a point
+   *
+   * @returns District name per district type
+   */
+  async resolveDistricts(
+    longitude: number,
+    latitude: number,
+  ): Promise<Map<DistrictType, string>> {
+    const candidates = await this.boundaryRepo
+      .createQueryBuilder('b')
+      .where('b.minLongitude <= :longitude AND b.maxLongitude >= :longitude', {
+        longitude,
+      })
+      .andWhere('b.minLatitude <= :latitude AND b.maxLatitude >= :latitude', {
+        latitude,
+      })
+      .getMany();
+
+    const districts = new Map<DistrictType, string>();
+    for (const boundary of candidates) {
+      if (
+        !districts.has(boundary.districtType) &&
+        isPointInGeometry(longitude, latitude, boundary.geometry)
+      ) {
+        districts.set(boundary.districtType, boundary.name);
+      }
+    }
+
+    return districts;
+  }
+
+  /**
+   * Fill an address's district fields from its coordinates
+   *
+   * Only district types with loaded boundaries are touched; a field is
+   * cleared when the address falls outside every boundary of its type.
+   * Does not save the address.
+   *
+   * @returns Whether districts were assigned
+   */
+  async assignDistricts(address: UserAddressEntity): Promise<boolean> {
+    if (address.latitude == null || address.longitude == null) {
+      return false;
+    }
+
+    const loadedTypes = await this.getLoadedDistrictTypes();
+    if (loadedTypes.size === 0) {
+      return false;
+    }
+
+    // Decimal columns come back from the database as strings
+    const districts = await this.resolveDistricts(
+      Number(address.longitude),
+      Number(address.latitude),
+    );
+
+    const fields = address as unknown as Record<string, string | null>;
+    for (const districtType of loadedTypes) {
+      fields[ADDRESS_DISTRICT_FIELDS[districtType]] =
+        districts.get(districtType) ?? null;
+    }
+    address.civicDataUpdatedAt = new Date();
+
+    return true;
+  }
+
+  /**
+   * Get the district types that have boundaries loaded
+   */
+  private async getLoadedDistrictTypes(): Promise<Set<DistrictType>> {
+    if (!this.loadedTypes) {
+      const rows = await this.boundaryRepo
+        .createQueryBuilder('b')
+        .select('DISTINCT b.districtType', 'districtType')
+        .getRawMany<{ districtType: DistrictType }>();
+      this.loadedTypes = new Set(rows.map((r) => r.districtType));
+    }
+    return this.loadedTypes;
+  }
+
+  /**
+   * Read the boundary file definitions for a directory
+   */
+  private async readManifest(dir: string): Promise<BoundaryFileDefinition[]> {
+    const files = await readdir(dir);
+    const districtTypes = Object.values(DistrictType) as string[];
+
+    if (!files.includes(MANIFEST_FILE)) {
+      return files
+        .filter((file) => ['.geojson', '.json'].includes(extname(file)))
+        .map((file) => ({
+          file,
+          districtType: basename(file, extname(file)) as DistrictType,
+        }))
+        .filter((d) => districtTypes.includes(d.districtType));
+    }
+
+    const manifest = JSON.parse(
+      await readFile(join(dir, MANIFEST_FILE), 'utf8'),
+    ) as { boundaries?: BoundaryFileDefinition[] };
+
+    const definitions = manifest.boundaries ?? [];
+    for (const definition of definitions) {
+      if (!districtTypes.includes(definition.districtType)) {
+        throw new Error(
+          `Unknown district type "${definition.districtType}" for ${definition.file}`,
+        );
+      }
+    }
+    return definitions;
+  }
+
+  /**
+   * Replace the boundaries loaded from one file
+   *
+   * @returns Number of boundaries loaded
+   */
+  private async loadBoundaryFile(
+    dir: string,
+    definition: BoundaryFileDefinition,
+  ): Promise<number> {
+    const { file, districtType } = definition;
+    const nameProperty = definition.nameProperty ?? 'name';
+    const data = JSON.parse(await readFile(join(dir, file), 'utf8')) as {
+      type?: string;
+      features?: unknown[];
+    };
+    const features =
+      data.type === 'FeatureCollection' ? (data.features ?? []) : [data];
+
+    const boundaries: Partial<DistrictBoundaryEntity>[] = [];
+    let skipped = 0;
+
+    for (const feature of features as {
+      geometry?: unknown;
+      properties?: Record<string, unknown>;
+    }[]) {
+      const name = feature.properties?.[nameProperty];
+      if (!isBoundaryGeometry(feature.geometry) || name == null) {
+        skipped++;
+        continue;
+      }
+
+      const externalId = definition.idProperty
+        ? feature.properties?.[definition.idProperty]
+        : undefined;
+
+      boundaries.push({
+        districtType,
+        name: String(name),
+        externalId: externalId == null ? undefined : String(externalId),
+        source: file,
+        geometry: feature.geometry,
+        ...getBoundingBox(feature.geometry),
+      });
+    }
+
+    await this.boundaryRepo.manager.transaction(async (manager) => {
+      await manager.delete(DistrictBoundaryEntity, { source: file });
+      for (let i = 0; i < boundaries.length; i += INSERT_BATCH_SIZE) {
+        await manager.insert(
+          DistrictBoundaryEntity,
+          boundaries.slice(i, i + INSERT_BATCH_SIZE),
+        );
+      }
+    });
+
+    if (skipped > 0) {
+      this.logger.warn(
+        `Skipped ${skipped} features in ${file} without a polygon or "${nameProperty}" property`,
+      );
+    }
+    this.logger.log(
+      `Loaded ${boundaries.length} ${districtType} boundaries from ${file}`,
+    );
+    return boundaries.length;
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { DistrictBoundaryEntity } from 'src/db/entities/district-boundary.entity';
+
+import { DistrictService } from './district.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([DistrictBoundaryEntity])],
+  providers: [DistrictService],
+  exports: [DistrictService],
+})
+export class DistrictsModule {}
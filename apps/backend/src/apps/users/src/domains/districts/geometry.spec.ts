@@ -0,0 +1,100 @@
+import {
+  getBoundingBox,
+  isBoundaryGeometry,
+  isPointInGeometry,
+} from './geometry';
+import { BoundaryGeometry } from 'src/db/entities/district-boundary.entity';
+
+describe('geometry', () => {
+  // 10x10 square with a 2x2 hole in the middle
+  const squareWithHole: BoundaryGeometry = {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [0, 0],
+        [10, 0],
+        [10, 10],
+        [0, 10],
+        [0, 0],
+      ],
+      [
+        [4, 4],
+        [6, 4],
+        [6, 6],
+        [4, 6],
+        [4, 4],
+      ],
+    ],
+  };
+
+  const twoSquares: BoundaryGeometry = {
+    type: 'MultiPolygon',
+    coordinates: [
+      [
+        [
+          [-122, 37],
+          [-121, 37],
+          [-121, 38],
+          [-122, 38],
+          [-122, 37],
+        ],
+      ],
+      [
+        [
+          [-120, 36],
+          [-119, 36],
+          [-119, 37],
+          [-120, 37],
+          [-120, 36],
+        ],
+      ],
+    ],
+  };
+
+  describe('isPointInGeometry', () => {
+    it('should find points inside a polygon', () => {
+      expect(isPointInGeometry(1, 1, squareWithHole)).toBe(true);
+      expect(isPointInGeometry(9.5, 5, squareWithHole)).toBe(true);
+    });
+
+    it('should exclude points outside a polygon', () => {
+      expect(isPointInGeometry(11, 5, squareWithHole)).toBe(false);
+      expect(isPointInGeometry(-1, -1, squareWithHole)).toBe(false);
+    });
+
+    it('should exclude points inside a hole', () => {
+      expect(isPointInGeometry(5, 5, squareWithHole)).toBe(false);
+    });
+
+    it('should check every polygon of a multipolygon', () => {
+      expect(isPointInGeometry(-121.5, 37.5, twoSquares)).toBe(true);
+      expect(isPointInGeometry(-119.5, 36.5, twoSquares)).toBe(true);
+      expect(isPointInGeometry(-120.5, 37.5, twoSquares)).toBe(false);
+    });
+  });
+
+  describe('getBoundingBox', () => {
+    it('should bound all polygons', () => {
+      expect(getBoundingBox(twoSquares)).toEqual({
+        minLongitude: -122,
+        minLatitude: 36,
+        maxLongitude: -119,
+        maxLatitude: 38,
+      });
+    });
+  });
+
+  describe('isBoundaryGeometry', () => {
+    it('should accept polygons and multipolygons', () => {
+      expect(isBoundaryGeometry(squareWithHole)).toBe(true);
+      expect(isBoundaryGeometry(twoSquares)).toBe(true);
+    });
+
+    it('should reject other geometries', () => {
+      expect(isBoundaryGeometry({ type: 'Point', coordinates: [0, 0] })).toBe(
+        false,
+      );
+      expect(isBoundaryGeometry(null)).toBe(false);
+    });
+  });
+});
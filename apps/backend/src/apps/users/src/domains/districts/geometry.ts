@@ -0,0 +1,101 @@
+import { BoundaryGeometry } from 'src/db/entities/district-boundary.entity';
+
+/**
+ * Bounding box of a geometry
+ */
+export interface BoundingBox {
+  minLongitude: number;
+  minLatitude: number;
+  maxLongitude: number;
+  maxLatitude: number;
+}
+
+/**
+ * Get the polygons of a geometry as lists of rings
+ * (first ring is the outer boundary, the rest are holes)
+ */
+function getPolygons(geometry: BoundaryGeometry): number[][][][] {
+  return geometry.type === 'Polygon'
+    ? [geometry.coordinates]
+    : geometry.coordinates;
+}
+
+/**
+ * Check whether a value is a GeoJSON Polygon or MultiPolygon geometry
+ */
+export function isBoundaryGeometry(value: unknown): value is BoundaryGeometry {
+  const geometry = value as { type?: unknown; coordinates?: unknown } | null;
+  return (
+    !!geometry &&
+    (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon') &&
+    Array.isArray(geometry.coordinates)
+  );
+}
+
+/**
+ * Compute the bounding box of a geometry
+ */
+export function getBoundingBox(geometry: BoundaryGeometry): BoundingBox {
+  const box: BoundingBox = {
+    minLongitude: Infinity,
+    minLatitude: Infinity,
+    maxLongitude: -Infinity,
+    maxLatitude: -Infinity,
+  };
+
+  for (const polygon of getPolygons(geometry)) {
+    // Holes lie inside the outer ring, so it bounds the polygon
+    for (const [longitude, latitude] of polygon[0] ?? []) {
+      box.minLongitude = Math.min(box.minLongitude, longitude);
+      box.minLatitude = Math.min(box.minLatitude, latitude);
+      box.maxLongitude = Math.max(box.maxLongitude, longitude);
+      box.maxLatitude = Math.max(box.maxLatitude, latitude);
+    }
+  }
+
+  return box;
+}
+
+/**
+ * Ray-casting test for a point inside a ring of [longitude, latitude]
+ * positions
+ */
+function isPointInRing(
+  longitude: number,
+  latitude: number,
+  ring: number[][],
+): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    if (
+      yi > latitude !== yj > latitude &&
+      longitude < ((xj - xi) * (latitude - yi)) / (yj - yi) + xi
+    ) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Check whether a point lies inside a Polygon or MultiPolygon
+ *
+ * A point inside a polygon's hole is outside that polygon.
+ */
+export function isPointInGeometry(
+  longitude: number,
+  latitude: number,
+  geometry: BoundaryGeometry,
+): boolean {
+  return getPolygons(geometry).some(
+    ([outer, ...holes]) =>
+      !!outer &&
+      isPointInRing(longitude, latitude, outer) &&
+      !holes.some((hole) => isPointInRing(longitude, latitude, hole)),
+  );
+}
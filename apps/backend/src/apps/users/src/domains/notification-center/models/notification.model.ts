@@ -0,0 +1,47 @@
+import { ObjectType, Field, ID, Int, registerEnumType } from '@nestjs/graphql';
+import { NotificationCategory } from 'src/db/entities/notification-delivery.entity';
+
+// Register enum for GraphQL
+registerEnumType(NotificationCategory, {
+  name: 'NotificationCategory',
+  description: 'What a notification is about',
+});
+
+@ObjectType()
+export class NotificationModel {
+  @Field(() => ID)
+  id!: string;
+
+  @Field(() => NotificationCategory)
+  category!: NotificationCategory;
+
+  @Field()
+  title!: string;
+
+  @Field(() => [String])
+  lines!: string[];
+
+  @Field({ nullable: true })
+  url?: string;
+
+  @Field({ nullable: true })
+  readAt?: Date;
+
+  @Field()
+  createdAt!: Date;
+}
+
+@ObjectType()
+export class PaginatedNotifications {
+  @Field(() => [NotificationModel])
+  items!: NotificationModel[];
+
+  @Field(() => Int)
+  total!: number;
+
+  @Field()
+  hasMore!: boolean;
+
+  @Field(() => Int, { description: 'Unread notifications across all pages' })
+  unreadCount!: number;
+}
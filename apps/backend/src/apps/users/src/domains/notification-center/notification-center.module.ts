@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { NotificationEntity } from 'src/db/entities/notification.entity';
+
+import { NotificationCenterService } from './notification-center.service';
+import { NotificationCenterResolver } from './notification-center.resolver';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([NotificationEntity])],
+  providers: [NotificationCenterService, NotificationCenterResolver],
+})
+export class NotificationCenterModule {}
@@ -0,0 +1,130 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Test, TestingModule } from '@nestjs/testing';
+import { createMock } from '@golevelup/ts-jest';
+
+import { NotificationCenterResolver } from './notification-center.resolver';
+import { NotificationCenterService } from './notification-center.service';
+import { NotificationCategory } from 'src/db/entities/notification-delivery.entity';
+
+describe('NotificationCenterResolver', () => {
+  let resolver: NotificationCenterResolver;
+  let service: jest.Mocked<NotificationCenterService>;
+
+  const mockContext = {
+    req: { user: { id: 'user-1', email: 'test@example.com' } },
+  };
+
+  const mockContextNoUser = { req: {} };
+
+  const notification = {
+    id: 'notification-1',
+    userId: 'user-1',
+    category: NotificationCategory.SECURITY_ALERT,
+    title: 'Your password was changed',
+    lines: [],
+    createdAt: new Date(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationCenterResolver,
+        {
+          provide: NotificationCenterService,
+          useValue: createMock<NotificationCenterService>(),
+        },
+      ],
+    }).compile();
+
+    resolver = module.get(NotificationCenterResolver);
+    service = module.get(NotificationCenterService);
+  });
+
+  describe('getMyNotifications', () => {
+    it("should return the user's notifications", async () => {
+      const page = {
+        items: [notification],
+        total: 1,
+        hasMore: false,
+        unreadCount: 1,
+      };
+      service.getNotifications.mockResolvedValue(page as any);
+
+      const result = await resolver.getMyNotifications(
+        mockContext as any,
+        0,
+        10,
+        true,
+      );
+
+      expect(result).toBe(page);
+      expect(service.getNotifications).toHaveBeenCalledWith(
+        'user-1',
+        0,
+        10,
+        true,
+      );
+    });
+
+    it('should throw when not authenticated', async () => {
+      await expect(
+        resolver.getMyNotifications(mockContextNoUser as any, 0, 10, false),
+      ).rejects.toThrow('User not authenticated');
+    });
+  });
+
+  describe('markNotificationsRead', () => {
+    it('should mark the given notifications read', async () => {
+      service.markRead.mockResolvedValue(1);
+
+      const result = await resolver.markNotificationsRead(mockContext as any, [
+        'notification-1',
+      ]);
+
+      expect(result).toBe(1);
+      expect(service.markRead).toHaveBeenCalledWith('user-1', [
+        'notification-1',
+      ]);
+    });
+
+    it('should mark all notifications read without IDs', async () => {
+      service.markRead.mockResolvedValue(3);
+
+      expect(await resolver.markNotificationsRead(mockContext as any)).toBe(3);
+      expect(service.markRead).toHaveBeenCalledWith('user-1', undefined);
+    });
+  });
+
+  describe('deleteNotification', () => {
+    it("should delete the user's notification", async () => {
+      service.deleteNotification.mockResolvedValue(true);
+
+      const result = await resolver.deleteNotification(
+        'notification-1',
+        mockContext as any,
+      );
+
+      expect(result).toBe(true);
+      expect(service.deleteNotification).toHaveBeenCalledWith(
+        'user-1',
+        'notification-1',
+      );
+    });
+  });
+
+  describe('notificationAdded', () => {
+    it("should stream the current user's notifications", () => {
+      const stream = (async function* () {})();
+      service.watch.mockReturnValue(stream);
+
+      expect(resolver.notificationAdded(mockContext as any)).toBe(stream);
+      expect(service.watch).toHaveBeenCalledWith('user-1');
+    });
+
+    it('should throw when not authenticated', () => {
+      expect(() =>
+        resolver.notificationAdded(mockContextNoUser as any),
+      ).toThrow('User not authenticated');
+    });
+  });
+});
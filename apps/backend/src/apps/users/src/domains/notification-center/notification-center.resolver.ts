@@ -0,0 +1,100 @@
+import { UseGuards } from '@nestjs/common';
+import {
+  Resolver,
+  Query,
+  Mutation,
+  Subscription,
+  Args,
+  Context,
+  ID,
+  Int,
+} from '@nestjs/graphql';
+
+import { AuthGuard } from 'src/common/guards/auth.guard';
+import {
+  GqlContext,
+  getUserFromContext,
+} from 'src/common/utils/graphql-context';
+
+import { NotificationCenterService } from './notification-center.service';
+import {
+  NotificationModel,
+  PaginatedNotifications,
+} from './models/notification.model';
+
+@Resolver()
+export class NotificationCenterResolver {
+  constructor(
+    private readonly notificationCenterService: NotificationCenterService,
+  ) {}
+
+  // ============================================
+  // Queries
+  // ============================================
+
+  @Query(() => PaginatedNotifications, { name: 'myNotifications' })
+  @UseGuards(AuthGuard)
+  async getMyNotifications(
+    @Context() context: GqlContext,
+    @Args({ name: 'skip', type: () => Int, defaultValue: 0 }) skip: number,
+    @Args({ name: 'take', type: () => Int, defaultValue: 10 }) take: number,
+    @Args({ name: 'unreadOnly', defaultValue: false }) unreadOnly: boolean,
+  ): Promise<PaginatedNotifications> {
+    const user = getUserFromContext(context);
+    return this.notificationCenterService.getNotifications(
+      user.id,
+      skip,
+      take,
+      unreadOnly,
+    );
+  }
+
+  // ============================================
+  // Mutations
+  // ============================================
+
+  /**
+   * Mark notifications read, or all of them if no IDs are given
+   *
+   * Returns how many unread notifications were marked.
+   */
+  @Mutation(() => Int)
+  @UseGuards(AuthGuard)
+  async markNotificationsRead(
+    @Context() context: GqlContext,
+    @Args({ name: 'ids', type: () => [ID], nullable: true }) ids?: string[],
+  ): Promise<number> {
+    const user = getUserFromContext(context);
+    return this.notificationCenterService.markRead(user.id, ids);
+  }
+
+  @Mutation(() => Boolean)
+  @UseGuards(AuthGuard)
+  async deleteNotification(
+    @Args('id', { type: () => ID }) id: string,
+    @Context() context: GqlContext,
+  ): Promise<boolean> {
+    const user = getUserFromContext(context);
+    return this.notificationCenterService.deleteNotification(user.id, id);
+  }
+
+  // ============================================
+  // Subscriptions
+  // ============================================
+
+  /**
+   * Stream the current user's notifications as they are posted
+   */
+  @Subscription(() => NotificationModel, {
+    resolve: (notification: NotificationModel) => notification,
+  })
+  @UseGuards(AuthGuard)
+  notificationAdded(
+    @Context() context: GqlContext,
+  ): AsyncIterator<NotificationModel> {
+    const user = getUserFromContext(context);
+    return this.notificationCenterService.watch(
+      user.id,
+    ) as AsyncGenerator<NotificationModel>;
+  }
+}
@@ -0,0 +1,238 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getDataSourceToken, getRepositoryToken } from '@nestjs/typeorm';
+import { EventEmitter } from 'node:events';
+import { In, IsNull } from 'typeorm';
+import { NotificationEntity } from 'src/db/entities/notification.entity';
+import { NotificationCategory } from 'src/db/entities/notification-delivery.entity';
+import { NOTIFICATION_POSTED_CHANNEL } from 'src/common/notifications';
+import { NotificationCenterService } from './notification-center.service';
+
+describe('NotificationCenterService', () => {
+  let service: NotificationCenterService;
+  let notificationRepo: {
+    findAndCount: jest.Mock;
+    count: jest.Mock;
+    find: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+  };
+  let client: EventEmitter & { query: jest.Mock };
+  let release: jest.Mock;
+  let obtainMasterConnection: jest.Mock;
+
+  const notification = (
+    id: string,
+    overrides: Partial<NotificationEntity> = {},
+  ): NotificationEntity =>
+    ({
+      id,
+      userId: 'user-1',
+      category: NotificationCategory.CIVIC_BALLOT_UPDATE,
+      title: `Notification ${id}`,
+      lines: [],
+      createdAt: new Date(),
+      ...overrides,
+    }) as NotificationEntity;
+
+  // Let the subscription's listener attach before publishing
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(async () => {
+    notificationRepo = {
+      findAndCount: jest.fn().mockResolvedValue([[], 0]),
+      count: jest.fn().mockResolvedValue(0),
+      find: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockResolvedValue({ affected: 0 }),
+      delete: jest.fn().mockResolvedValue({ affected: 0 }),
+    };
+    client = Object.assign(new EventEmitter(), {
+      query: jest.fn().mockResolvedValue(undefined),
+    });
+    release = jest.fn();
+    obtainMasterConnection = jest.fn().mockResolvedValue([client, release]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationCenterService,
+        {
+          provide: getRepositoryToken(NotificationEntity),
+          useValue: notificationRepo,
+        },
+        {
+          provide: getDataSourceToken(),
+          useValue: { driver: { obtainMasterConnection } },
+        },
+      ],
+    }).compile();
+
+    service = module.get(NotificationCenterService);
+  });
+
+  describe('getNotifications', () => {
+    it('should return a page of notifications with the unread count', async () => {
+      notificationRepo.findAndCount.mockResolvedValue([
+        [notification('n-1'), notification('n-2'), notification('n-3')],
+        5,
+      ]);
+      notificationRepo.count.mockResolvedValue(2);
+
+      const result = await service.getNotifications('user-1', 0, 2);
+
+      expect(notificationRepo.findAndCount).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+        order: { createdAt: 'DESC' },
+        skip: 0,
+        take: 3,
+      });
+      expect(notificationRepo.count).toHaveBeenCalledWith({
+        where: { userId: 'user-1', readAt: IsNull() },
+      });
+      expect(result).toEqual({
+        items: [notification('n-1'), notification('n-2')].map((n) =>
+          expect.objectContaining({ id: n.id }),
+        ),
+        total: 5,
+        hasMore: true,
+        unreadCount: 2,
+      });
+    });
+
+    it('should only list unread notifications when asked', async () => {
+      await service.getNotifications('user-1', 10, 10, true);
+
+      expect(notificationRepo.findAndCount).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-1', readAt: IsNull() },
+          skip: 10,
+        }),
+      );
+    });
+  });
+
+  describe('markRead', () => {
+    it("should mark the user's unread notifications with the given IDs", async () => {
+      notificationRepo.update.mockResolvedValue({ affected: 1 });
+
+      expect(await service.markRead('user-1', ['n-1', 'n-2'])).toBe(1);
+      expect(notificationRepo.update).toHaveBeenCalledWith(
+        { userId: 'user-1', readAt: IsNull(), id: In(['n-1', 'n-2']) },
+        { readAt: expect.any(Date) },
+      );
+    });
+
+    it('should mark all unread notifications without IDs', async () => {
+      notificationRepo.update.mockResolvedValue({ affected: 4 });
+
+      expect(await service.markRead('user-1')).toBe(4);
+      expect(notificationRepo.update).toHaveBeenCalledWith(
+        { userId: 'user-1', readAt: IsNull() },
+        { readAt: expect.any(Date) },
+      );
+    });
+  });
+
+  describe('deleteNotification', () => {
+    it("should delete the user's notification", async () => {
+      notificationRepo.delete.mockResolvedValue({ affected: 1 });
+
+      expect(await service.deleteNotification('user-1', 'n-1')).toBe(true);
+      expect(notificationRepo.delete).toHaveBeenCalledWith({
+        id: 'n-1',
+        userId: 'user-1',
+      });
+    });
+
+    it("should report notifications that don't exist", async () => {
+      expect(await service.deleteNotification('user-1', 'n-9')).toBe(false);
+    });
+  });
+
+  describe('publishPosted', () => {
+    it('should stream posted notifications to their subscribers', async () => {
+      const stream = service.watch('user-1');
+      const next = stream.next();
+      await flush();
+
+      const posted = notification('n-1');
+      notificationRepo.find.mockResolvedValue([posted]);
+      await service.publishPosted('["n-1","n-2"]');
+
+      expect(notificationRepo.find).toHaveBeenCalledWith({
+        where: { id: In(['n-1', 'n-2']), userId: In(['user-1']) },
+        order: { createdAt: 'ASC' },
+      });
+      expect(await next).toEqual({ value: posted, done: false });
+
+      await stream.return(undefined);
+    });
+
+    it('should not load notifications without subscribers', async () => {
+      await service.publishPosted('["n-1"]');
+
+      expect(notificationRepo.find).not.toHaveBeenCalled();
+    });
+
+    it('should keep streaming when loading notifications fails', async () => {
+      const stream = service.watch('user-1');
+      const next = stream.next();
+      await flush();
+
+      notificationRepo.find.mockRejectedValueOnce(new Error('DB down'));
+      await service.publishPosted('["n-1"]');
+      notificationRepo.find.mockResolvedValue([notification('n-2')]);
+      await service.publishPosted('["n-2"]');
+
+      expect((await next).value.id).toBe('n-2');
+      await stream.return(undefined);
+    });
+  });
+
+  describe('listening', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should listen for announced notifications and publish them', async () => {
+      const publishPosted = jest
+        .spyOn(service, 'publishPosted')
+        .mockResolvedValue();
+
+      service.onModuleInit();
+      await flush();
+      client.emit('notification', {
+        channel: NOTIFICATION_POSTED_CHANNEL,
+        payload: '["n-1"]',
+      });
+
+      expect(client.query).toHaveBeenCalledWith(
+        `LISTEN ${NOTIFICATION_POSTED_CHANNEL}`,
+      );
+      expect(publishPosted).toHaveBeenCalledWith('["n-1"]');
+    });
+
+    it('should listen again on a new connection when it fails', async () => {
+      jest.useFakeTimers();
+      service.onModuleInit();
+      await jest.advanceTimersByTimeAsync(0);
+
+      const error = new Error('Connection terminated');
+      client.emit('error', error);
+      expect(release).toHaveBeenCalledWith(error);
+
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(obtainMasterConnection).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop listening before returning the connection', async () => {
+      service.onModuleInit();
+      await flush();
+
+      await service.onModuleDestroy();
+
+      expect(client.query).toHaveBeenLastCalledWith(
+        `UNLISTEN ${NOTIFICATION_POSTED_CHANNEL}`,
+      );
+      expect(release).toHaveBeenCalledWith();
+    });
+  });
+});
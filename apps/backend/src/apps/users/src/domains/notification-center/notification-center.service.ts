@@ -0,0 +1,222 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter, on } from 'node:events';
+import { DataSource, In, IsNull, Repository } from 'typeorm';
+import { PostgresDriver } from 'typeorm/driver/postgres/PostgresDriver';
+import { NOTIFICATION_POSTED_CHANNEL } from 'src/common/notifications';
+import { NotificationEntity } from 'src/db/entities/notification.entity';
+
+// Wait this long before listening again after the connection drops
+const RELISTEN_DELAY_MS = 5000;
+
+export interface NotificationPage {
+  items: NotificationEntity[];
+  total: number;
+  hasMore: boolean;
+  unreadCount: number;
+}
+
+/**
+ * Database connection held open to LISTEN on
+ */
+interface ListenClient extends EventEmitter {
+  query(sql: string): Promise<unknown>;
+}
+
+/**
+ * Notification Center Service
+ *
+ * Lists, marks read and deletes the notifications in a user's in-app
+ * notification center, and streams new ones to subscribed clients.
+ *
+ * Notifications are posted by the notification dispatcher in whichever
+ * service raised them, which announces them on NOTIFICATION_POSTED_CHANNEL.
+ * Each instance listens there and streams the ones for users with a live
+ * subscription on it.
+ */
+@Injectable()
+export class NotificationCenterService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(NotificationCenterService.name);
+  private readonly events = new EventEmitter();
+  private listener?: { client: ListenClient; release: (error?: Error) => void };
+  private relistenTimer?: NodeJS.Timeout;
+  private stopped = false;
+
+  constructor(
+    @InjectRepository(NotificationEntity)
+    private readonly notificationRepo: Repository<NotificationEntity>,
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+  ) {
+    // Every subscriber listens on the emitter, so don't warn about many
+    this.events.setMaxListeners(0);
+  }
+
+  onModuleInit() {
+    void this.listen();
+  }
+
+  async onModuleDestroy() {
+    this.stopped = true;
+    clearTimeout(this.relistenTimer);
+
+    const listener = this.listener;
+    this.listener = undefined;
+    if (listener) {
+      // The connection goes back to the pool, so stop listening on it first
+      await listener.client
+        .query(`UNLISTEN ${NOTIFICATION_POSTED_CHANNEL}`)
+        .then(() => listener.release())
+        .catch((error: Error) => listener.release(error));
+    }
+  }
+
+  /**
+   * Get a page of a user's notifications, newest first
+   */
+  async getNotifications(
+    userId: string,
+    skip: number = 0,
+    take: number = 10,
+    unreadOnly: boolean = false,
+  ): Promise<NotificationPage> {
+    const [[items, total], unreadCount] = await Promise.all([
+      this.notificationRepo.findAndCount({
+        where: unreadOnly ? { userId, readAt: IsNull() } : { userId },
+        order: { createdAt: 'DESC' },
+        skip,
+        take: take + 1,
+      }),
+      this.notificationRepo.count({ where: { userId, readAt: IsNull() } }),
+    ]);
+
+    return {
+      items: items.slice(0, take),
+      total,
+      hasMore: items.length > take,
+      unreadCount,
+    };
+  }
+
+  /**
+   * Mark a user's notifications read
+   *
+   * @param ids - Notifications to mark, or all of the user's if omitted
+   * @returns How many unread notifications were marked
+   */
+  async markRead(userId: string, ids?: string[]): Promise<number> {
+    const result = await this.notificationRepo.update(
+      {
+        userId,
+        readAt: IsNull(),
+        ...(ids && { id: In(ids) }),
+      },
+      { readAt: new Date() },
+    );
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Delete one of a user's notifications
+   *
+   * @returns Whether the notification existed
+   */
+  async deleteNotification(userId: string, id: string): Promise<boolean> {
+    const result = await this.notificationRepo.delete({ id, userId });
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * Stream a user's notifications as they are posted
+   */
+  async *watch(userId: string): AsyncGenerator<NotificationEntity> {
+    const live = on(this.events, userId) as AsyncIterableIterator<
+      [NotificationEntity]
+    >;
+    try {
+      for await (const [notification] of live) {
+        yield notification;
+      }
+    } finally {
+      await live.return?.();
+    }
+  }
+
+  /**
+   * Stream posted notifications to their users' subscribers
+   *
+   * @param payload - IDs of the posted notifications, as a JSON array
+   */
+  async publishPosted(payload: string | undefined): Promise<void> {
+    // Subscriptions also listen for 'error', which isn't a user
+    const userIds = this.events
+      .eventNames()
+      .filter((name): name is string => name !== 'error');
+    if (userIds.length === 0 || !payload) {
+      return;
+    }
+
+    try {
+      const ids = JSON.parse(payload) as string[];
+      const notifications = await this.notificationRepo.find({
+        where: { id: In(ids), userId: In(userIds) },
+        order: { createdAt: 'ASC' },
+      });
+      for (const notification of notifications) {
+        this.events.emit(notification.userId, notification);
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to publish new notifications: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Listen for notifications the dispatcher announces
+   *
+   * Holds one database connection. If it fails, listening starts again on
+   * a new one; notifications posted in between are not streamed, but are
+   * in the notification center.
+   */
+  private async listen(): Promise<void> {
+    let client: ListenClient | undefined;
+    try {
+      const [connection, release] = (await (
+        this.dataSource.driver as PostgresDriver
+      ).obtainMasterConnection()) as [ListenClient, (error?: Error) => void];
+      client = connection;
+      this.listener = { client, release };
+
+      client.on('notification', (message: { payload?: string }) => {
+        void this.publishPosted(message.payload);
+      });
+      client.on('error', (error: Error) => this.relisten(connection, error));
+      await client.query(`LISTEN ${NOTIFICATION_POSTED_CHANNEL}`);
+    } catch (error) {
+      this.relisten(client, error as Error);
+    }
+  }
+
+  private relisten(client: ListenClient | undefined, error: Error): void {
+    if (this.stopped || (client && this.listener?.client !== client)) {
+      return;
+    }
+    this.logger.warn(
+      `Stopped listening for new notifications: ${error.message}`,
+    );
+
+    this.listener?.release(error);
+    this.listener = undefined;
+    this.relistenTimer = setTimeout(() => {
+      void this.listen();
+    }, RELISTEN_DELAY_MS);
+  }
+}
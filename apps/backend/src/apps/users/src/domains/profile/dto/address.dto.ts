@@ -1,7 +1,9 @@
-import { Field, InputType, ID } from '@nestjs/graphql';
+import { Field, Float, InputType, ID } from '@nestjs/graphql';
 import {
   IsBoolean,
   IsEnum,
+  IsLatitude,
+  IsLongitude,
   IsNotEmpty,
   IsNumber,
   IsOptional,
@@ -64,6 +66,16 @@ export class CreateAddressDto {
   @Length(2, 2)
   @Field({ nullable: true, defaultValue: 'US' })
   public country?: string;
+
+  @IsOptional()
+  @IsLatitude()
+  @Field(() => Float, { nullable: true })
+  public latitude?: number;
+
+  @IsOptional()
+  @IsLongitude()
+  @Field(() => Float, { nullable: true })
+  public longitude?: number;
 }
 
 @InputType()
@@ -123,6 +135,16 @@ export class UpdateAddressDto {
   @Length(2, 2)
   @Field({ nullable: true })
   public country?: string;
+
+  @IsOptional()
+  @IsLatitude()
+  @Field(() => Float, { nullable: true })
+  public latitude?: number;
+
+  @IsOptional()
+  @IsLongitude()
+  @Field(() => Float, { nullable: true })
+  public longitude?: number;
 }
 
 @InputType()
@@ -57,6 +57,27 @@ export class UpdateNotificationPreferencesDto {
   @Field({ nullable: true })
   public pushMarketing?: boolean;
 
+  // In-app Notifications
+  @IsOptional()
+  @IsBoolean()
+  @Field({ nullable: true })
+  public inAppEnabled?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  @Field({ nullable: true })
+  public inAppSecurityAlerts?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  @Field({ nullable: true })
+  public inAppCivicUpdates?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  @Field({ nullable: true })
+  public inAppDocumentUpdates?: boolean;
+
   // SMS Notifications
   @IsOptional()
   @IsBoolean()
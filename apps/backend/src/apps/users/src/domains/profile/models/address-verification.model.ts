@@ -0,0 +1,56 @@
+import { Field, ObjectType } from '@nestjs/graphql';
+import { UserAddressEntity } from 'src/db/entities/user-address.entity';
+
+@ObjectType()
+export class AddressCorrection {
+  @Field()
+  field!: string;
+
+  @Field({ nullable: true })
+  original?: string;
+
+  @Field({ nullable: true })
+  suggested?: string;
+}
+
+@ObjectType()
+export class SuggestedAddress {
+  @Field()
+  addressLine1!: string;
+
+  @Field({ nullable: true })
+  addressLine2?: string;
+
+  @Field()
+  city!: string;
+
+  @Field()
+  state!: string;
+
+  @Field()
+  postalCode!: string;
+
+  @Field()
+  country!: string;
+}
+
+@ObjectType()
+export class AddressVerificationResult {
+  @Field(() => UserAddressEntity)
+  address!: UserAddressEntity;
+
+  @Field()
+  isVerified!: boolean;
+
+  @Field({ nullable: true })
+  verificationMethod?: string;
+
+  @Field(() => SuggestedAddress, { nullable: true })
+  suggestedAddress?: SuggestedAddress;
+
+  @Field(() => [AddressCorrection])
+  corrections!: AddressCorrection[];
+
+  @Field(() => [String])
+  issues!: string[];
+}
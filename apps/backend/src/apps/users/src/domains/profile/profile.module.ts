@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { StorageModule } from '@qckstrt/storage-provider';
+import { GeocodingModule } from '@qckstrt/geocoding-provider';
 
 import { UserProfileEntity } from 'src/db/entities/user-profile.entity';
 import { UserAddressEntity } from 'src/db/entities/user-address.entity';
@@ -9,6 +10,8 @@ import { UserConsentEntity } from 'src/db/entities/user-consent.entity';
 
 import { ProfileService } from './profile.service';
 import { ProfileResolver } from './profile.resolver';
+import { DistrictsModule } from '../districts/districts.module';
+import { AddressVerificationModule } from '../address-verification/address-verification.module';
 
 @Module({
   imports: [
@@ -19,6 +22,9 @@ import { ProfileResolver } from './profile.resolver';
       UserConsentEntity,
     ]),
     StorageModule,
+    GeocodingModule,
+    DistrictsModule,
+    AddressVerificationModule,
   ],
   providers: [ProfileService, ProfileResolver],
   exports: [ProfileService],
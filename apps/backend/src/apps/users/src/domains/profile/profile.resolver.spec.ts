@@ -237,6 +237,52 @@ describe('ProfileResolver', () => {
     });
   });
 
+  describe('verifyAddress', () => {
+    it('should verify address', async () => {
+      const verification = {
+        address: { ...mockAddress, isVerified: true },
+        isVerified: true,
+        verificationMethod: 'normalization',
+        corrections: [],
+        issues: [],
+      };
+      profileService.verifyAddress = jest.fn().mockResolvedValue(verification);
+
+      const result = await resolver.verifyAddress(
+        mockAddress.id,
+        true,
+        mockContext as any,
+      );
+
+      expect(result).toEqual(verification);
+      expect(profileService.verifyAddress).toHaveBeenCalledWith(
+        mockUserId,
+        mockAddress.id,
+        true,
+      );
+    });
+  });
+
+  describe('regeocodeAddress', () => {
+    it('should regeocode address', async () => {
+      const geocodedAddress = { ...mockAddress, latitude: 40.75 };
+      profileService.regeocodeAddress = jest
+        .fn()
+        .mockResolvedValue(geocodedAddress);
+
+      const result = await resolver.regeocodeAddress(
+        mockAddress.id,
+        mockContext as any,
+      );
+
+      expect(result).toEqual(geocodedAddress);
+      expect(profileService.regeocodeAddress).toHaveBeenCalledWith(
+        mockUserId,
+        mockAddress.id,
+      );
+    });
+  });
+
   describe('deleteAddress', () => {
     it('should delete address', async () => {
       profileService.deleteAddress = jest.fn().mockResolvedValue(true);
@@ -23,6 +23,7 @@ import {
   WithdrawConsentDto,
 } from './dto/consent.dto';
 import { ProfileCompletionResult } from './models/profile-completion.model';
+import { AddressVerificationResult } from './models/address-verification.model';
 
 @Resolver()
 export class ProfileResolver {
@@ -122,6 +123,26 @@ export class ProfileResolver {
     return this.profileService.updateAddress(user.id, input);
   }
 
+  @Mutation(() => AddressVerificationResult)
+  async verifyAddress(
+    @Args('id', { type: () => ID }) id: string,
+    @Args('acceptSuggestion', { type: () => Boolean, defaultValue: false })
+    acceptSuggestion: boolean,
+    @Context() context: GqlContext,
+  ): Promise<AddressVerificationResult> {
+    const user = getUserFromContext(context);
+    return this.profileService.verifyAddress(user.id, id, acceptSuggestion);
+  }
+
+  @Mutation(() => UserAddressEntity)
+  async regeocodeAddress(
+    @Args('id', { type: () => ID }) id: string,
+    @Context() context: GqlContext,
+  ): Promise<UserAddressEntity> {
+    const user = getUserFromContext(context);
+    return this.profileService.regeocodeAddress(user.id, id);
+  }
+
   @Mutation(() => Boolean)
   async deleteAddress(
     @Args('id', { type: () => ID }) id: string,
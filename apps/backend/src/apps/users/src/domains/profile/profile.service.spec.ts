@@ -3,9 +3,16 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { createMock } from '@golevelup/ts-jest';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { CircuitOpenError, IGeocodingProvider } from '@qckstrt/common';
 
 import { ProfileService } from './profile.service';
+import { DistrictService } from '../districts/district.service';
+import { AddressVerificationService } from '../address-verification/address-verification.service';
 import { UserProfileEntity } from 'src/db/entities/user-profile.entity';
 import {
   UserAddressEntity,
@@ -24,6 +31,8 @@ describe('ProfileService', () => {
   let addressRepo: Repository<UserAddressEntity>;
   let notificationRepo: Repository<NotificationPreferenceEntity>;
   let consentRepo: Repository<UserConsentEntity>;
+  let districtService: jest.Mocked<DistrictService>;
+  let geocodingProvider: jest.Mocked<IGeocodingProvider>;
 
   const mockUserId = 'test-user-id';
 
@@ -75,7 +84,19 @@ describe('ProfileService', () => {
     updatedAt: new Date(),
   } as unknown as UserConsentEntity;
 
+  const mockGeocodingResult = {
+    latitude: 40.7506,
+    longitude: -73.9972,
+    formattedAddress: '123 Main St, New York, NY 10001, USA',
+    placeId: 'way/123',
+  };
+
   beforeEach(async () => {
+    geocodingProvider = {
+      getName: jest.fn().mockReturnValue('Test'),
+      geocode: jest.fn().mockResolvedValue(null),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         ProfileService,
@@ -95,6 +116,15 @@ describe('ProfileService', () => {
           provide: getRepositoryToken(UserConsentEntity),
           useValue: createMock<Repository<UserConsentEntity>>(),
         },
+        AddressVerificationService,
+        {
+          provide: DistrictService,
+          useValue: createMock<DistrictService>(),
+        },
+        {
+          provide: 'GEOCODING_PROVIDER',
+          useValue: geocodingProvider,
+        },
       ],
     }).compile();
 
@@ -111,6 +141,7 @@ describe('ProfileService', () => {
     consentRepo = module.get<Repository<UserConsentEntity>>(
       getRepositoryToken(UserConsentEntity),
     );
+    districtService = module.get(DistrictService);
   });
 
   it('should be defined', () => {
@@ -265,12 +296,26 @@ describe('ProfileService', () => {
       const updateDto = { id: mockAddress.id, city: 'Boston' };
       const updatedAddress = { ...mockAddress, city: 'Boston' };
 
-      addressRepo.findOne = jest.fn().mockResolvedValue(mockAddress);
+      addressRepo.findOne = jest.fn().mockResolvedValue({
+        ...mockAddress,
+        isVerified: true,
+        verifiedAt: new Date('2024-01-01'),
+        verificationMethod: 'geocoding',
+      });
       addressRepo.save = jest.fn().mockResolvedValue(updatedAddress);
 
       const result = await service.updateAddress(mockUserId, updateDto);
 
       expect(result).toEqual(updatedAddress);
+      // The moved address has to be verified again
+      expect(addressRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          city: 'Boston',
+          isVerified: false,
+          verifiedAt: null,
+          verificationMethod: null,
+        }),
+      );
     });
 
     it('should throw NotFoundException if address not found', async () => {
@@ -282,6 +327,421 @@ describe('ProfileService', () => {
     });
   });
 
+  describe('address district assignment', () => {
+    it('should assign districts before saving a new address', async () => {
+      const address = { ...mockAddress, latitude: 37.8, longitude: -122.27 };
+      addressRepo.create = jest.fn().mockReturnValue(address);
+      addressRepo.save = jest.fn().mockResolvedValue(address);
+
+      await service.createAddress(mockUserId, {
+        addressType: AddressType.RESIDENTIAL,
+        addressLine1: '1 Frank H Ogawa Plaza',
+        city: 'Oakland',
+        state: 'CA',
+        postalCode: '94612',
+        latitude: 37.8,
+        longitude: -122.27,
+      });
+
+      expect(districtService.assignDistricts).toHaveBeenCalledWith(address);
+      expect(
+        districtService.assignDistricts.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        (addressRepo.save as jest.Mock).mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should reassign districts when coordinates change', async () => {
+      const address = {
+        ...mockAddress,
+        latitude: '37.8',
+        longitude: '-122.27',
+      };
+      addressRepo.findOne = jest.fn().mockResolvedValue(address);
+      addressRepo.save = jest.fn().mockResolvedValue(address);
+
+      await service.updateAddress(mockUserId, {
+        id: mockAddress.id,
+        latitude: 37.9,
+      });
+
+      expect(districtService.assignDistricts).toHaveBeenCalledWith(address);
+    });
+
+    it('should keep districts when coordinates are unchanged', async () => {
+      const address = {
+        ...mockAddress,
+        latitude: '37.8',
+        longitude: '-122.27',
+      };
+      addressRepo.findOne = jest.fn().mockResolvedValue(address);
+      addressRepo.save = jest.fn().mockResolvedValue(address);
+
+      await service.updateAddress(mockUserId, {
+        id: mockAddress.id,
+        city: 'Oakland',
+        latitude: 37.8,
+      });
+
+      expect(districtService.assignDistricts).not.toHaveBeenCalled();
+    });
+
+    it('should still save the address when assignment fails', async () => {
+      districtService.assignDistricts.mockRejectedValue(
+        new Error('DB unavailable'),
+      );
+      addressRepo.create = jest.fn().mockReturnValue(mockAddress);
+      addressRepo.save = jest.fn().mockResolvedValue(mockAddress);
+
+      const result = await service.createAddress(mockUserId, {
+        addressType: AddressType.RESIDENTIAL,
+        addressLine1: '123 Main St',
+        city: 'New York',
+        state: 'NY',
+        postalCode: '10001',
+      });
+
+      expect(result).toEqual(mockAddress);
+    });
+  });
+
+  describe('address geocoding', () => {
+    const createDto = {
+      addressType: AddressType.RESIDENTIAL,
+      addressLine1: '123 Main St',
+      city: 'New York',
+      state: 'NY',
+      postalCode: '10001',
+    };
+
+    it('should geocode a new address before assigning districts', async () => {
+      const address = { ...createDto, country: 'US' } as UserAddressEntity;
+      geocodingProvider.geocode.mockResolvedValue(mockGeocodingResult);
+      addressRepo.create = jest.fn().mockReturnValue(address);
+      addressRepo.save = jest.fn().mockResolvedValue(address);
+
+      await service.createAddress(mockUserId, createDto);
+
+      expect(geocodingProvider.geocode).toHaveBeenCalledWith({
+        addressLine1: '123 Main St',
+        addressLine2: undefined,
+        city: 'New York',
+        state: 'NY',
+        postalCode: '10001',
+        country: 'US',
+      });
+      expect(address).toMatchObject({
+        latitude: 40.7506,
+        longitude: -73.9972,
+        formattedAddress: '123 Main St, New York, NY 10001, USA',
+        placeId: 'way/123',
+      });
+      expect(address.geocodedAt).toBeInstanceOf(Date);
+      expect(
+        geocodingProvider.geocode.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        districtService.assignDistricts.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should not geocode when coordinates are provided', async () => {
+      addressRepo.create = jest.fn().mockReturnValue(mockAddress);
+      addressRepo.save = jest.fn().mockResolvedValue(mockAddress);
+
+      await service.createAddress(mockUserId, {
+        ...createDto,
+        latitude: 40.75,
+        longitude: -73.99,
+      });
+
+      expect(geocodingProvider.geocode).not.toHaveBeenCalled();
+    });
+
+    it('should save the address when the geocoding circuit is open', async () => {
+      geocodingProvider.geocode.mockRejectedValue(
+        new CircuitOpenError('Geocoding'),
+      );
+      addressRepo.create = jest.fn().mockReturnValue({ ...mockAddress });
+      addressRepo.save = jest.fn().mockResolvedValue(mockAddress);
+
+      const result = await service.createAddress(mockUserId, createDto);
+
+      expect(result).toEqual(mockAddress);
+      expect(addressRepo.save).toHaveBeenCalled();
+    });
+
+    it('should geocode again when the street address changes', async () => {
+      const address = { ...mockAddress };
+      geocodingProvider.geocode.mockResolvedValue(mockGeocodingResult);
+      addressRepo.findOne = jest.fn().mockResolvedValue(address);
+      addressRepo.save = jest.fn().mockResolvedValue(address);
+
+      await service.updateAddress(mockUserId, {
+        id: mockAddress.id,
+        addressLine1: '125 Main St',
+      });
+
+      expect(geocodingProvider.geocode).toHaveBeenCalledWith(
+        expect.objectContaining({ addressLine1: '125 Main St' }),
+      );
+      expect(districtService.assignDistricts).toHaveBeenCalledWith(address);
+    });
+
+    it.each([
+      [
+        'finds nothing',
+        () => geocodingProvider.geocode.mockResolvedValue(null),
+      ],
+      [
+        'is unavailable',
+        () =>
+          geocodingProvider.geocode.mockRejectedValue(
+            new CircuitOpenError('Geocoding'),
+          ),
+      ],
+    ])(
+      'should clear the old location when geocoding %s after a move',
+      async (_case, mockGeocode) => {
+        mockGeocode();
+        addressRepo.findOne = jest.fn().mockResolvedValue({
+          ...mockAddress,
+          latitude: 40.7506,
+          longitude: -73.9972,
+          formattedAddress: '123 Main St, New York, NY 10001, USA',
+          placeId: 'way/123',
+          geocodedAt: new Date(),
+          congressionalDistrict: 'NY-12',
+          county: 'New York',
+          civicDataUpdatedAt: new Date(),
+        });
+        addressRepo.save = jest.fn().mockImplementation(async (a) => a);
+
+        const result = await service.updateAddress(mockUserId, {
+          id: mockAddress.id,
+          city: 'Albany',
+        });
+
+        expect(result).toMatchObject({
+          city: 'Albany',
+          latitude: null,
+          longitude: null,
+          formattedAddress: null,
+          placeId: null,
+          geocodedAt: null,
+          congressionalDistrict: null,
+          county: null,
+          civicDataUpdatedAt: null,
+        });
+        expect(districtService.assignDistricts).not.toHaveBeenCalled();
+      },
+    );
+
+    it('should not geocode when only the label changes', async () => {
+      addressRepo.findOne = jest.fn().mockResolvedValue({ ...mockAddress });
+      addressRepo.save = jest.fn().mockResolvedValue(mockAddress);
+
+      await service.updateAddress(mockUserId, {
+        id: mockAddress.id,
+        label: 'Home',
+      });
+
+      expect(geocodingProvider.geocode).not.toHaveBeenCalled();
+      expect(districtService.assignDistricts).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyAddress', () => {
+    const standardAddress = {
+      ...mockAddress,
+      addressLine1: '350 5th Ave',
+      city: 'New York',
+      state: 'NY',
+      postalCode: '10118',
+    } as UserAddressEntity;
+
+    beforeEach(() => {
+      addressRepo.save = jest.fn().mockImplementation(async (a) => a);
+    });
+
+    it('should verify a standard address by normalization', async () => {
+      addressRepo.findOne = jest.fn().mockResolvedValue({ ...standardAddress });
+
+      const result = await service.verifyAddress(mockUserId, mockAddress.id);
+
+      expect(result.isVerified).toBe(true);
+      expect(result.verificationMethod).toBe('normalization');
+      expect(result.corrections).toEqual([]);
+      expect(result.address).toMatchObject({
+        addressLine1: '350 5th Ave',
+        isVerified: true,
+        verificationMethod: 'normalization',
+      });
+      expect(result.address.verifiedAt).toBeInstanceOf(Date);
+    });
+
+    it('should verify by geocoding when the provider locates the address', async () => {
+      geocodingProvider.geocode.mockResolvedValue(mockGeocodingResult);
+      addressRepo.findOne = jest.fn().mockResolvedValue({ ...standardAddress });
+
+      const result = await service.verifyAddress(mockUserId, mockAddress.id);
+
+      expect(result.verificationMethod).toBe('geocoding');
+      expect(result.address.latitude).toBe(40.7506);
+      expect(districtService.assignDistricts).toHaveBeenCalled();
+    });
+
+    it('should suggest corrections without verifying', async () => {
+      addressRepo.findOne = jest.fn().mockResolvedValue({
+        ...standardAddress,
+        addressLine1: '350 Fifth Avenue',
+        state: 'New York',
+      });
+
+      const result = await service.verifyAddress(mockUserId, mockAddress.id);
+
+      expect(result.isVerified).toBe(false);
+      expect(result.suggestedAddress).toMatchObject({
+        addressLine1: '350 FIFTH AVE',
+        state: 'NY',
+      });
+      expect(result.corrections.map((c) => c.field)).toEqual([
+        'addressLine1',
+        'state',
+      ]);
+      expect(addressRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should apply the suggestion when accepted', async () => {
+      addressRepo.findOne = jest.fn().mockResolvedValue({
+        ...standardAddress,
+        addressLine1: '350 Fifth Avenue',
+      });
+
+      const result = await service.verifyAddress(
+        mockUserId,
+        mockAddress.id,
+        true,
+      );
+
+      expect(result.isVerified).toBe(true);
+      expect(result.address.addressLine1).toBe('350 FIFTH AVE');
+      expect(addressRepo.save).toHaveBeenCalled();
+    });
+
+    it('should not verify addresses with validation issues', async () => {
+      addressRepo.findOne = jest
+        .fn()
+        .mockResolvedValue({ ...standardAddress, state: 'CA' });
+
+      const result = await service.verifyAddress(
+        mockUserId,
+        mockAddress.id,
+        true,
+      );
+
+      expect(result.isVerified).toBe(false);
+      expect(result.issues).toEqual(['ZIP code 10118 is not in CA']);
+      expect(addressRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should not verify a non-US address that cannot be located', async () => {
+      addressRepo.findOne = jest.fn().mockResolvedValue({
+        ...mockAddress,
+        addressLine1: '10 Downing Street',
+        city: 'London',
+        state: 'England',
+        postalCode: 'SW1A 2AA',
+        country: 'GB',
+      });
+
+      const result = await service.verifyAddress(mockUserId, mockAddress.id);
+
+      expect(result.isVerified).toBe(false);
+      expect(result.issues).toEqual([
+        'Addresses in GB are verified by locating them, and this one could not be located',
+      ]);
+      expect(addressRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should verify a non-US address by geocoding', async () => {
+      geocodingProvider.geocode.mockResolvedValue(mockGeocodingResult);
+      addressRepo.findOne = jest.fn().mockResolvedValue({
+        ...mockAddress,
+        city: 'London',
+        country: 'GB',
+      });
+
+      const result = await service.verifyAddress(mockUserId, mockAddress.id);
+
+      expect(result.isVerified).toBe(true);
+      expect(result.verificationMethod).toBe('geocoding');
+    });
+
+    it('should throw NotFoundException if address not found', async () => {
+      addressRepo.findOne = jest.fn().mockResolvedValue(null);
+
+      await expect(
+        service.verifyAddress(mockUserId, 'non-existent'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should reset verification when the address changes', async () => {
+      addressRepo.findOne = jest
+        .fn()
+        .mockResolvedValue({ ...standardAddress, isVerified: true });
+
+      const result = await service.updateAddress(mockUserId, {
+        id: mockAddress.id,
+        addressLine1: '20 W 34th St',
+      });
+
+      expect(result.isVerified).toBe(false);
+    });
+  });
+
+  describe('regeocodeAddress', () => {
+    it('should geocode and save the address', async () => {
+      const address = { ...mockAddress };
+      geocodingProvider.geocode.mockResolvedValue(mockGeocodingResult);
+      addressRepo.findOne = jest.fn().mockResolvedValue(address);
+      addressRepo.save = jest.fn().mockResolvedValue(address);
+
+      const result = await service.regeocodeAddress(mockUserId, address.id);
+
+      expect(result.latitude).toBe(40.7506);
+      expect(districtService.assignDistricts).toHaveBeenCalledWith(address);
+      expect(addressRepo.save).toHaveBeenCalledWith(address);
+    });
+
+    it('should throw NotFoundException if address not found', async () => {
+      addressRepo.findOne = jest.fn().mockResolvedValue(null);
+
+      await expect(
+        service.regeocodeAddress(mockUserId, 'non-existent'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw BadRequestException when the address is not found by the provider', async () => {
+      addressRepo.findOne = jest.fn().mockResolvedValue({ ...mockAddress });
+
+      await expect(
+        service.regeocodeAddress(mockUserId, mockAddress.id),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw ServiceUnavailableException when the provider fails', async () => {
+      geocodingProvider.geocode.mockRejectedValue(
+        new CircuitOpenError('Geocoding'),
+      );
+      addressRepo.findOne = jest.fn().mockResolvedValue({ ...mockAddress });
+
+      await expect(
+        service.regeocodeAddress(mockUserId, mockAddress.id),
+      ).rejects.toThrow(ServiceUnavailableException);
+      expect(addressRepo.save).not.toHaveBeenCalled();
+    });
+  });
+
   describe('deleteAddress', () => {
     it('should delete address and return true', async () => {
       addressRepo.delete = jest.fn().mockResolvedValue({ affected: 1 });
@@ -1,13 +1,20 @@
 import {
+  BadRequestException,
   Inject,
   Injectable,
+  Logger,
   NotFoundException,
   Optional,
+  ServiceUnavailableException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { IStorageProvider } from '@qckstrt/storage-provider';
+import {
+  GeocodingResult,
+  IGeocodingProvider,
+} from '@qckstrt/geocoding-provider';
 
 import { UserProfileEntity } from 'src/db/entities/user-profile.entity';
 import { UserAddressEntity } from 'src/db/entities/user-address.entity';
@@ -24,9 +31,48 @@ import { CreateAddressDto, UpdateAddressDto } from './dto/address.dto';
 import { UpdateNotificationPreferencesDto } from './dto/notification-preferences.dto';
 import { UpdateConsentDto } from './dto/consent.dto';
 import { ProfileCompletionResult } from './models/profile-completion.model';
+import { AddressVerificationResult } from './models/address-verification.model';
+import { DistrictService } from '../districts/district.service';
+import {
+  AddressVerificationMethod,
+  AddressVerificationService,
+} from '../address-verification/address-verification.service';
+
+/**
+ * Address fields that change an address's location
+ */
+const LOCATION_FIELDS = [
+  'addressLine1',
+  'addressLine2',
+  'city',
+  'state',
+  'postalCode',
+  'country',
+] as const;
+
+// Fields derived from where an address is, which go stale when it moves
+const LOCATED_FIELDS = [
+  'latitude',
+  'longitude',
+  'formattedAddress',
+  'placeId',
+  'geocodedAt',
+  'congressionalDistrict',
+  'stateSenatorialDistrict',
+  'stateAssemblyDistrict',
+  'county',
+  'municipality',
+  'schoolDistrict',
+  'precinctId',
+  'pollingPlace',
+  'civicDataUpdatedAt',
+] as const;
 
 @Injectable()
 export class ProfileService {
+  private readonly logger = new Logger(ProfileService.name, {
+    timestamp: true,
+  });
   private fileConfig?: IFileConfig;
 
   constructor(
@@ -38,11 +84,17 @@ export class ProfileService {
     private readonly notificationRepository: Repository<NotificationPreferenceEntity>,
     @InjectRepository(UserConsentEntity)
     private readonly consentRepository: Repository<UserConsentEntity>,
+    private readonly addressVerificationService: AddressVerificationService,
     @Optional()
     @Inject('STORAGE_PROVIDER')
     private readonly storage?: IStorageProvider,
     @Optional()
     private readonly configService?: ConfigService,
+    @Optional()
+    private readonly districtService?: DistrictService,
+    @Optional()
+    @Inject('GEOCODING_PROVIDER')
+    private readonly geocodingProvider?: IGeocodingProvider | null,
   ) {
     this.fileConfig = configService?.get<IFileConfig>('file');
   }
@@ -244,6 +296,12 @@ export class ProfileService {
       ...createDto,
     });
 
+    // Coordinates supplied by the client take precedence over geocoding
+    if (createDto.latitude === undefined || createDto.longitude === undefined) {
+      await this.geocodeAddress(address);
+    }
+    await this.assignDistricts(address);
+
     return this.addressRepository.save(address);
   }
 
@@ -270,11 +328,241 @@ export class ProfileService {
     // Update only provided fields (excluding id)
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const { id: _id, ...updateData } = updateDto;
+    const locationChanged = LOCATION_FIELDS.some(
+      (field) =>
+        updateData[field] !== undefined && updateData[field] !== address[field],
+    );
+    const coordinatesProvided =
+      updateData.latitude !== undefined || updateData.longitude !== undefined;
+    let coordinatesChanged =
+      (updateData.latitude !== undefined &&
+        updateData.latitude !== Number(address.latitude)) ||
+      (updateData.longitude !== undefined &&
+        updateData.longitude !== Number(address.longitude));
     Object.assign(address, updateData);
 
+    // A changed address has to be verified again
+    if (locationChanged) {
+      address.isVerified = false;
+      // Nulls, not undefined, so saving clears the columns
+      const fields = address as unknown as Record<string, unknown>;
+      fields.verifiedAt = null;
+      fields.verificationMethod = null;
+    }
+
+    if (locationChanged && !coordinatesProvided) {
+      coordinatesChanged = await this.geocodeAddress(address);
+      // The old coordinates and districts belong to the previous location
+      if (!coordinatesChanged) {
+        this.clearLocation(address);
+      }
+    }
+
+    if (coordinatesChanged) {
+      await this.assignDistricts(address);
+    }
+
     return this.addressRepository.save(address);
   }
 
+  /**
+   * Verify an address against its USPS Publication 28 standardized form
+   *
+   * When standardization changes the address, the suggestion is returned
+   * and the address is left unverified until the caller accepts it. An
+   * accepted or already standard address is marked verified by
+   * `geocoding` when the geocoding provider locates it, otherwise by
+   * `normalization`. Addresses that can't be standardized (outside the US)
+   * stay unverified unless the geocoding provider locates them.
+   */
+  async verifyAddress(
+    userId: string,
+    addressId: string,
+    acceptSuggestion = false,
+  ): Promise<AddressVerificationResult> {
+    const address = await this.addressRepository.findOne({
+      where: { id: addressId, userId },
+    });
+
+    if (!address) {
+      throw new NotFoundException('Address not found');
+    }
+
+    const { standardized, corrections, issues, unlessGeocoded } =
+      this.addressVerificationService.checkAddress(address);
+
+    if (issues.length > 0 || (corrections.length > 0 && !acceptSuggestion)) {
+      return {
+        address,
+        isVerified: false,
+        suggestedAddress: corrections.length > 0 ? standardized : undefined,
+        corrections,
+        issues,
+      };
+    }
+
+    // Keep the user's formatting when only case or punctuation differ
+    if (corrections.length > 0) {
+      Object.assign(address, standardized);
+    }
+
+    const geocoded = await this.geocodeAddress(address);
+    if (!geocoded && unlessGeocoded) {
+      return {
+        address,
+        isVerified: false,
+        corrections,
+        issues: [unlessGeocoded],
+      };
+    }
+    if (geocoded) {
+      await this.assignDistricts(address);
+    }
+
+    const verificationMethod: AddressVerificationMethod = geocoded
+      ? 'geocoding'
+      : 'normalization';
+    address.isVerified = true;
+    address.verifiedAt = new Date();
+    address.verificationMethod = verificationMethod;
+
+    return {
+      address: await this.addressRepository.save(address),
+      isVerified: true,
+      verificationMethod,
+      corrections,
+      issues,
+    };
+  }
+
+  /**
+   * Geocode an address again, e.g. after a geocoding outage
+   *
+   * Unlike geocoding on write, failures are reported to the caller.
+   */
+  async regeocodeAddress(
+    userId: string,
+    addressId: string,
+  ): Promise<UserAddressEntity> {
+    const address = await this.addressRepository.findOne({
+      where: { id: addressId, userId },
+    });
+
+    if (!address) {
+      throw new NotFoundException('Address not found');
+    }
+
+    if (!this.geocodingProvider) {
+      throw new BadRequestException('Geocoding is not configured');
+    }
+
+    let result: GeocodingResult | null;
+    try {
+      result = await this.geocodingProvider.geocode(
+        this.toGeocodingQuery(address),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to geocode address ${addressId}: ${(error as Error).message}`,
+      );
+      throw new ServiceUnavailableException('Geocoding service is unavailable');
+    }
+
+    if (!result) {
+      throw new BadRequestException('Address could not be geocoded');
+    }
+
+    this.applyGeocodingResult(address, result);
+    await this.assignDistricts(address);
+
+    return this.addressRepository.save(address);
+  }
+
+  /**
+   * Fill the address's coordinates from the geocoding provider
+   *
+   * Best-effort: when the provider is down (or its circuit is open) or the
+   * address is not found, the address is left as it was.
+   *
+   * @returns Whether the address was geocoded
+   */
+  private async geocodeAddress(address: UserAddressEntity): Promise<boolean> {
+    if (!this.geocodingProvider) {
+      return false;
+    }
+
+    try {
+      const result = await this.geocodingProvider.geocode(
+        this.toGeocodingQuery(address),
+      );
+      if (!result) {
+        this.logger.warn('Address could not be geocoded');
+        return false;
+      }
+
+      this.applyGeocodingResult(address, result);
+      return true;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to geocode address: ${(error as Error).message}`,
+      );
+      return false;
+    }
+  }
+
+  private toGeocodingQuery(address: UserAddressEntity) {
+    return {
+      addressLine1: address.addressLine1,
+      addressLine2: address.addressLine2,
+      city: address.city,
+      state: address.state,
+      postalCode: address.postalCode,
+      country: address.country || 'US',
+    };
+  }
+
+  private applyGeocodingResult(
+    address: UserAddressEntity,
+    result: GeocodingResult,
+  ): void {
+    address.latitude = result.latitude;
+    address.longitude = result.longitude;
+    address.formattedAddress = result.formattedAddress;
+    address.placeId = result.placeId;
+    address.geocodedAt = new Date();
+  }
+
+  /**
+   * Forget the coordinates, geocoding details and districts of an address
+   * that moved but could not be located
+   */
+  private clearLocation(address: UserAddressEntity): void {
+    // Nulls, not undefined, so saving clears the columns
+    const fields = address as unknown as Record<string, unknown>;
+    for (const field of LOCATED_FIELDS) {
+      fields[field] = null;
+    }
+  }
+
+  /**
+   * Fill the address's district fields from its coordinates
+   *
+   * Best-effort: on failure the address is saved without districts.
+   */
+  private async assignDistricts(address: UserAddressEntity): Promise<void> {
+    if (!this.districtService) {
+      return;
+    }
+
+    try {
+      await this.districtService.assignDistricts(address);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to assign districts to address: ${(error as Error).message}`,
+      );
+    }
+  }
+
   async deleteAddress(userId: string, addressId: string): Promise<boolean> {
     const result = await this.addressRepository.delete({
       id: addressId,
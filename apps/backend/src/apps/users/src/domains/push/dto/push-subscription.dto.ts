@@ -0,0 +1,41 @@
+import { Field, Float, InputType } from '@nestjs/graphql';
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+/**
+ * A browser's PushSubscription, as returned by pushManager.subscribe()
+ */
+@InputType()
+export class RegisterPushSubscriptionDto {
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  @MaxLength(2048)
+  @Field()
+  public endpoint!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^[A-Za-z0-9_-]+={0,2}$/, { message: 'p256dh must be base64url' })
+  @MaxLength(128)
+  @Field()
+  public p256dh!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^[A-Za-z0-9_-]+={0,2}$/, { message: 'auth must be base64url' })
+  @MaxLength(64)
+  @Field()
+  public auth!: string;
+
+  // Milliseconds since the epoch, if the push service expires it
+  @IsOptional()
+  @IsNumber()
+  @Field(() => Float, { nullable: true })
+  public expirationTime?: number;
+}
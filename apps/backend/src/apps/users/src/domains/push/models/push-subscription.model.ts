@@ -0,0 +1,25 @@
+import { ObjectType, Field, ID } from '@nestjs/graphql';
+
+@ObjectType()
+export class PushSubscriptionModel {
+  @Field(() => ID)
+  id!: string;
+
+  @Field()
+  endpoint!: string;
+
+  @Field({ nullable: true })
+  userAgent?: string;
+
+  @Field({ nullable: true })
+  expiresAt?: Date | null;
+
+  @Field()
+  lastSeenAt!: Date;
+
+  @Field({ nullable: true })
+  lastSentAt?: Date;
+
+  @Field()
+  createdAt!: Date;
+}
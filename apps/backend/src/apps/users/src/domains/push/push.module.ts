@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { PushSubscriptionEntity } from 'src/db/entities/push-subscription.entity';
+
+import { PushService } from './push.service';
+import { PushResolver } from './push.resolver';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([PushSubscriptionEntity])],
+  providers: [PushService, PushResolver],
+})
+export class PushModule {}
@@ -0,0 +1,103 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Test, TestingModule } from '@nestjs/testing';
+import { createMock } from '@golevelup/ts-jest';
+
+import { PushResolver } from './push.resolver';
+import { PushService } from './push.service';
+
+describe('PushResolver', () => {
+  let resolver: PushResolver;
+  let service: jest.Mocked<PushService>;
+
+  const mockContext = {
+    req: {
+      user: { id: 'user-1', email: 'test@example.com' },
+      headers: { 'user-agent': 'Mozilla/5.0' },
+    },
+  };
+
+  const mockContextNoUser = { req: { headers: {} } };
+
+  const input = {
+    endpoint: 'https://fcm.googleapis.com/fcm/send/abc',
+    p256dh: 'BPublicKey',
+    auth: 'secret',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PushResolver,
+        { provide: PushService, useValue: createMock<PushService>() },
+      ],
+    }).compile();
+
+    resolver = module.get(PushResolver);
+    service = module.get(PushService);
+  });
+
+  describe('webPushPublicKey', () => {
+    it('should return the VAPID public key', () => {
+      service.getPublicKey.mockReturnValue('public-key');
+
+      expect(resolver.webPushPublicKey()).toBe('public-key');
+    });
+  });
+
+  describe('getMyPushSubscriptions', () => {
+    it("should return the user's subscriptions", async () => {
+      const subscriptions = [{ id: 'subscription-1' }];
+      service.getSubscriptions.mockResolvedValue(subscriptions as any);
+
+      const result = await resolver.getMyPushSubscriptions(mockContext as any);
+
+      expect(result).toBe(subscriptions);
+      expect(service.getSubscriptions).toHaveBeenCalledWith('user-1');
+    });
+
+    it('should throw when not authenticated', async () => {
+      await expect(
+        resolver.getMyPushSubscriptions(mockContextNoUser as any),
+      ).rejects.toThrow('User not authenticated');
+    });
+  });
+
+  describe('registerPushSubscription', () => {
+    it("should register the browser with the request's user agent", async () => {
+      const subscription = { id: 'subscription-1' };
+      service.register.mockResolvedValue(subscription as any);
+
+      const result = await resolver.registerPushSubscription(
+        input,
+        mockContext as any,
+      );
+
+      expect(result).toBe(subscription);
+      expect(service.register).toHaveBeenCalledWith(
+        'user-1',
+        input,
+        'Mozilla/5.0',
+      );
+    });
+
+    it('should throw when not authenticated', async () => {
+      await expect(
+        resolver.registerPushSubscription(input, mockContextNoUser as any),
+      ).rejects.toThrow('User not authenticated');
+    });
+  });
+
+  describe('unregisterPushSubscription', () => {
+    it("should remove the user's browser", async () => {
+      service.unregister.mockResolvedValue(true);
+
+      const result = await resolver.unregisterPushSubscription(
+        input.endpoint,
+        mockContext as any,
+      );
+
+      expect(result).toBe(true);
+      expect(service.unregister).toHaveBeenCalledWith('user-1', input.endpoint);
+    });
+  });
+});
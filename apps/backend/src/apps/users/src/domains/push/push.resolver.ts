@@ -0,0 +1,68 @@
+import { UseGuards } from '@nestjs/common';
+import { Resolver, Query, Mutation, Args, Context } from '@nestjs/graphql';
+
+import { AuthGuard } from 'src/common/guards/auth.guard';
+import {
+  GqlContext,
+  getUserFromContext,
+} from 'src/common/utils/graphql-context';
+
+import { PushService } from './push.service';
+import { RegisterPushSubscriptionDto } from './dto/push-subscription.dto';
+import { PushSubscriptionModel } from './models/push-subscription.model';
+
+@Resolver()
+export class PushResolver {
+  constructor(private readonly pushService: PushService) {}
+
+  // ============================================
+  // Queries
+  // ============================================
+
+  /**
+   * VAPID public key to subscribe browsers with, or null when Web Push
+   * is not configured
+   */
+  @Query(() => String, { nullable: true })
+  @UseGuards(AuthGuard)
+  webPushPublicKey(): string | undefined {
+    return this.pushService.getPublicKey();
+  }
+
+  @Query(() => [PushSubscriptionModel], { name: 'myPushSubscriptions' })
+  @UseGuards(AuthGuard)
+  async getMyPushSubscriptions(
+    @Context() context: GqlContext,
+  ): Promise<PushSubscriptionModel[]> {
+    const user = getUserFromContext(context);
+    return this.pushService.getSubscriptions(user.id);
+  }
+
+  // ============================================
+  // Mutations
+  // ============================================
+
+  @Mutation(() => PushSubscriptionModel)
+  @UseGuards(AuthGuard)
+  async registerPushSubscription(
+    @Args('input') input: RegisterPushSubscriptionDto,
+    @Context() context: GqlContext,
+  ): Promise<PushSubscriptionModel> {
+    const user = getUserFromContext(context);
+    return this.pushService.register(
+      user.id,
+      input,
+      context.req.headers['user-agent'],
+    );
+  }
+
+  @Mutation(() => Boolean)
+  @UseGuards(AuthGuard)
+  async unregisterPushSubscription(
+    @Args('endpoint') endpoint: string,
+    @Context() context: GqlContext,
+  ): Promise<boolean> {
+    const user = getUserFromContext(context);
+    return this.pushService.unregister(user.id, endpoint);
+  }
+}
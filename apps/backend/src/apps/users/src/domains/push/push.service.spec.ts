@@ -0,0 +1,153 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { PushSubscriptionEntity } from 'src/db/entities/push-subscription.entity';
+import { PushService } from './push.service';
+
+describe('PushService', () => {
+  let service: PushService;
+  let pushSubscriptionRepo: {
+    upsert: jest.Mock;
+    findOneOrFail: jest.Mock;
+    find: jest.Mock;
+    delete: jest.Mock;
+  };
+
+  const config: Record<string, unknown> = {
+    'push.vapidPublicKey': 'public-key',
+    'push.vapidPrivateKey': 'private-key',
+    'push.allowedHosts': ['fcm.googleapis.com', 'push.services.mozilla.com'],
+  };
+
+  const input = {
+    endpoint: 'https://fcm.googleapis.com/fcm/send/abc',
+    p256dh: 'BPublicKey',
+    auth: 'secret',
+  };
+
+  const createService = async (values: Record<string, unknown>) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PushService,
+        {
+          provide: getRepositoryToken(PushSubscriptionEntity),
+          useValue: pushSubscriptionRepo,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => values[key]) },
+        },
+      ],
+    }).compile();
+
+    return module.get(PushService);
+  };
+
+  beforeEach(async () => {
+    pushSubscriptionRepo = {
+      upsert: jest.fn().mockResolvedValue({}),
+      findOneOrFail: jest.fn().mockResolvedValue({ id: 'subscription-1' }),
+      find: jest.fn().mockResolvedValue([]),
+      delete: jest.fn().mockResolvedValue({ affected: 0 }),
+    };
+
+    service = await createService(config);
+  });
+
+  describe('getPublicKey', () => {
+    it('should return the VAPID public key', () => {
+      expect(service.getPublicKey()).toBe('public-key');
+    });
+
+    it('should return undefined when Web Push is not configured', async () => {
+      const unconfigured = await createService({
+        'push.vapidPublicKey': 'public-key',
+      });
+
+      expect(unconfigured.getPublicKey()).toBeUndefined();
+    });
+  });
+
+  describe('register', () => {
+    it('should upsert the subscription for the user by endpoint', async () => {
+      const result = await service.register(
+        'user-1',
+        { ...input, expirationTime: 1767225600000 },
+        'Mozilla/5.0',
+      );
+
+      expect(pushSubscriptionRepo.upsert).toHaveBeenCalledWith(
+        {
+          userId: 'user-1',
+          endpoint: input.endpoint,
+          p256dh: 'BPublicKey',
+          auth: 'secret',
+          userAgent: 'Mozilla/5.0',
+          expiresAt: new Date(1767225600000),
+          lastSeenAt: expect.any(Date),
+        },
+        ['endpoint'],
+      );
+      expect(pushSubscriptionRepo.findOneOrFail).toHaveBeenCalledWith({
+        where: { endpoint: input.endpoint },
+      });
+      expect(result).toEqual({ id: 'subscription-1' });
+    });
+
+    it('should clear the expiry when the browser no longer gives one', async () => {
+      await service.register('user-1', input);
+
+      expect(pushSubscriptionRepo.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ expiresAt: null }),
+        ['endpoint'],
+      );
+    });
+
+    it('should accept subdomains of allowed push services', async () => {
+      await service.register('user-1', {
+        ...input,
+        endpoint: 'https://updates.push.services.mozilla.com/wpush/v2/abc',
+      });
+
+      expect(pushSubscriptionRepo.upsert).toHaveBeenCalled();
+    });
+
+    it('should reject endpoints on other hosts', async () => {
+      await expect(
+        service.register('user-1', {
+          ...input,
+          endpoint: 'https://fcm.googleapis.com.attacker.example/send',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(pushSubscriptionRepo.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unregister', () => {
+    it("should delete the user's subscription", async () => {
+      pushSubscriptionRepo.delete.mockResolvedValue({ affected: 1 });
+
+      expect(await service.unregister('user-1', input.endpoint)).toBe(true);
+      expect(pushSubscriptionRepo.delete).toHaveBeenCalledWith({
+        userId: 'user-1',
+        endpoint: input.endpoint,
+      });
+    });
+
+    it('should return false for unknown subscriptions', async () => {
+      expect(await service.unregister('user-1', input.endpoint)).toBe(false);
+    });
+  });
+
+  describe('getSubscriptions', () => {
+    it("should list the user's subscriptions newest first", async () => {
+      await service.getSubscriptions('user-1');
+
+      expect(pushSubscriptionRepo.find).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+        order: { createdAt: 'DESC' },
+      });
+    });
+  });
+});
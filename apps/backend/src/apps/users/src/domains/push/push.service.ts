@@ -0,0 +1,100 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PushSubscriptionEntity } from 'src/db/entities/push-subscription.entity';
+import { RegisterPushSubscriptionDto } from './dto/push-subscription.dto';
+
+/**
+ * Push Service
+ *
+ * Registers the browsers users enable push notifications on. Each browser
+ * subscription (endpoint) belongs to the user who registered it last, so
+ * a shared device only gets the signed-in user's notifications. Browsers
+ * re-register on every visit, which keeps their subscription from being
+ * cleaned up as expired.
+ */
+@Injectable()
+export class PushService {
+  private readonly publicKey?: string;
+  private readonly allowedHosts: string[];
+
+  constructor(
+    @InjectRepository(PushSubscriptionEntity)
+    private readonly pushSubscriptionRepo: Repository<PushSubscriptionEntity>,
+    configService: ConfigService,
+  ) {
+    const publicKey = configService.get<string>('push.vapidPublicKey');
+    const privateKey = configService.get<string>('push.vapidPrivateKey');
+    this.publicKey = publicKey && privateKey ? publicKey : undefined;
+    this.allowedHosts = configService.get<string[]>('push.allowedHosts') ?? [];
+  }
+
+  /**
+   * VAPID public key browsers subscribe with, if Web Push is configured
+   */
+  getPublicKey(): string | undefined {
+    return this.publicKey;
+  }
+
+  /**
+   * Register (or refresh) a browser's push subscription for a user
+   *
+   * @throws BadRequestException if the endpoint isn't on a known push
+   *   service
+   */
+  async register(
+    userId: string,
+    input: RegisterPushSubscriptionDto,
+    userAgent?: string,
+  ): Promise<PushSubscriptionEntity> {
+    // SECURITY: The server posts to registered endpoints, so only accept
+    // real push services
+    const host = new URL(input.endpoint).hostname.toLowerCase();
+    const allowed = this.allowedHosts.some(
+      (allowedHost) => host === allowedHost || host.endsWith(`.${allowedHost}`),
+    );
+    if (!allowed) {
+      throw new BadRequestException(
+        `Push endpoints on ${host} are not accepted`,
+      );
+    }
+
+    await this.pushSubscriptionRepo.upsert(
+      {
+        userId,
+        endpoint: input.endpoint,
+        p256dh: input.p256dh,
+        auth: input.auth,
+        userAgent: userAgent?.substring(0, 500),
+        // Clear the expiry of a refreshed subscription that no longer has one
+        expiresAt: input.expirationTime ? new Date(input.expirationTime) : null,
+        lastSeenAt: new Date(),
+      },
+      ['endpoint'],
+    );
+    return this.pushSubscriptionRepo.findOneOrFail({
+      where: { endpoint: input.endpoint },
+    });
+  }
+
+  /**
+   * Stop pushing to a user's browser
+   *
+   * @returns Whether the user had registered the browser
+   */
+  async unregister(userId: string, endpoint: string): Promise<boolean> {
+    const result = await this.pushSubscriptionRepo.delete({ userId, endpoint });
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * List the browsers a user registered, newest first
+   */
+  async getSubscriptions(userId: string): Promise<PushSubscriptionEntity[]> {
+    return this.pushSubscriptionRepo.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Notifications Module
+ *
+ * Delivers notifications according to users' notification preferences,
+ * consents and quiet hours, and sends daily and weekly digests with
+ * sections from registered digest sources.
+ *
+ * @example
+ * ```typescript
+ * import { NotificationDispatcherService } from 'src/common/notifications';
+ *
+ * await dispatcher.dispatch([
+ *   {
+ *     userId,
+ *     category: NotificationCategory.CIVIC_BALLOT_UPDATE,
+ *     title: 'Proposition updated: Prop 12',
+ *     lines: ['Status: pending → passed'],
+ *   },
+ * ]);
+ * ```
+ */
+export { NotificationsModule } from './notifications.module';
+export { NotificationsSchedulerModule } from './notifications-scheduler.module';
+export {
+  NotificationDispatcherService,
+  NotificationEvent,
+  NOTIFICATION_POSTED_CHANNEL,
+} from './notification-dispatcher.service';
+export {
+  NotificationDigestService,
+  DigestFrequency,
+  DigestRequest,
+  DigestSection,
+  DigestSource,
+} from './notification-digest.service';
+export { WebPushService, PushMessage, PushResult } from './web-push.service';
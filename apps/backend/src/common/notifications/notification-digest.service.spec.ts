@@ -0,0 +1,361 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In } from 'typeorm';
+import {
+  NotificationAction,
+  NotificationCategory,
+  NotificationDeliveryEntity,
+  NotificationDeliveryStatus,
+  NotificationReason,
+} from 'src/db/entities/notification-delivery.entity';
+import {
+  NotificationDigestEntity,
+  NotificationDigestStatus,
+} from 'src/db/entities/notification-digest.entity';
+import {
+  NotificationFrequency,
+  NotificationPreferenceEntity,
+} from 'src/db/entities/notification-preference.entity';
+import { EmailType } from 'src/db/entities/email-correspondence.entity';
+import { UserEntity } from 'src/db/entities/user.entity';
+import {
+  LoadedRecipient,
+  NotificationDispatcherService,
+} from './notification-dispatcher.service';
+import { DEFAULT_NOTIFICATION_SETTINGS } from './notification-rules';
+import { NotificationDigestService } from './notification-digest.service';
+
+describe('NotificationDigestService', () => {
+  let service: NotificationDigestService;
+  let digestRepo: {
+    exists: jest.Mock;
+    findOne: jest.Mock;
+    create: jest.Mock;
+    update: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+  let insertQuery: { execute: jest.Mock };
+  let deliveryRepo: {
+    find: jest.Mock;
+    save: jest.Mock;
+    update: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+  let batchedQuery: { getRawMany: jest.Mock };
+  let preferenceRepo: { find: jest.Mock };
+  let dispatcher: {
+    platformName: string;
+    preferencesUrl: string;
+    loadRecipients: jest.Mock;
+    emailUser: jest.Mock;
+    notifyDelivered: jest.Mock;
+  };
+
+  // 10:00 in Los Angeles, past the 07:00 digest hour
+  const now = new Date('2024-03-12T17:00:00Z');
+
+  const recipient = (
+    settings: Partial<LoadedRecipient['settings']> = {},
+  ): LoadedRecipient => ({
+    user: {
+      id: 'user-1',
+      email: 'jane@example.com',
+      firstName: 'Jane',
+    } as UserEntity,
+    settings: { ...DEFAULT_NOTIFICATION_SETTINGS, ...settings },
+    timezone: 'America/Los_Angeles',
+    consents: new Map(),
+  });
+
+  const batched = (overrides: Partial<NotificationDeliveryEntity> = {}) =>
+    ({
+      id: 'delivery-1',
+      userId: 'user-1',
+      category: NotificationCategory.CIVIC_BALLOT_UPDATE,
+      title: 'Proposition updated: Prop 12 - Housing Bond',
+      lines: ['Status: pending → passed'],
+      url: 'https://app.example.com/region/propositions',
+      status: NotificationDeliveryStatus.SENDING,
+      frequency: NotificationFrequency.DAILY_DIGEST,
+      digestId: 'digest-1',
+      decisions: [
+        {
+          action: NotificationAction.DIGEST,
+          reason: NotificationReason.DIGEST,
+          decidedAt: '2024-03-11T20:00:00.000Z',
+        },
+      ],
+      ...overrides,
+    }) as NotificationDeliveryEntity;
+
+  const meetings = {
+    category: NotificationCategory.CIVIC_LOCAL_NEWS,
+    title: 'Upcoming meetings',
+    items: [{ title: 'City Council: Regular Meeting', lines: ['Mar 13'] }],
+  };
+
+  beforeEach(async () => {
+    insertQuery = {
+      execute: jest.fn().mockResolvedValue({ raw: [{ id: 'digest-1' }] }),
+    };
+    const insertBuilder = {
+      insert: jest.fn().mockReturnThis(),
+      values: jest.fn().mockReturnThis(),
+      orIgnore: jest.fn().mockReturnThis(),
+      returning: jest.fn().mockReturnValue(insertQuery),
+    };
+    digestRepo = {
+      exists: jest.fn().mockResolvedValue(false),
+      findOne: jest.fn().mockResolvedValue(null),
+      create: jest.fn((values) => values),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      createQueryBuilder: jest.fn().mockReturnValue(insertBuilder),
+    };
+    batchedQuery = { getRawMany: jest.fn().mockResolvedValue([]) };
+    const selectBuilder = {
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      distinct: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnValue(batchedQuery),
+    };
+    deliveryRepo = {
+      find: jest.fn().mockResolvedValue([]),
+      save: jest.fn((values) => Promise.resolve(values)),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      createQueryBuilder: jest.fn().mockReturnValue(selectBuilder),
+    };
+    preferenceRepo = {
+      find: jest.fn().mockResolvedValue([
+        {
+          userId: 'user-1',
+          civicFrequency: NotificationFrequency.DAILY_DIGEST,
+          emailFrequency: NotificationFrequency.IMMEDIATE,
+        },
+      ]),
+    };
+    dispatcher = {
+      platformName: 'Commonwealth Labs',
+      preferencesUrl: 'https://app.example.com/settings/notifications',
+      loadRecipients: jest
+        .fn()
+        .mockResolvedValue(new Map([['user-1', recipient()]])),
+      emailUser: jest.fn().mockResolvedValue({
+        status: NotificationDeliveryStatus.SENT,
+        sentAt: now,
+      }),
+      notifyDelivered: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationDigestService,
+        {
+          provide: getRepositoryToken(NotificationDigestEntity),
+          useValue: digestRepo,
+        },
+        {
+          provide: getRepositoryToken(NotificationDeliveryEntity),
+          useValue: deliveryRepo,
+        },
+        {
+          provide: getRepositoryToken(NotificationPreferenceEntity),
+          useValue: preferenceRepo,
+        },
+        { provide: NotificationDispatcherService, useValue: dispatcher },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(NotificationDigestService);
+  });
+
+  describe('sendDueDigests', () => {
+    it('should claim the period and send sections from the digest sources', async () => {
+      const source = jest.fn().mockResolvedValue([meetings]);
+      service.addSource(source);
+
+      expect(await service.sendDueDigests(now)).toBe(1);
+
+      expect(digestRepo.exists).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          frequency: NotificationFrequency.DAILY_DIGEST,
+          periodKey: '2024-03-12',
+        },
+      });
+      expect(source).toHaveBeenCalledWith({
+        userId: 'user-1',
+        frequency: NotificationFrequency.DAILY_DIGEST,
+        since: new Date('2024-03-11T17:00:00Z'),
+        until: now,
+        categories: expect.arrayContaining([
+          NotificationCategory.CIVIC_BALLOT_UPDATE,
+          NotificationCategory.CIVIC_LOCAL_NEWS,
+        ]),
+      });
+      const [user, template, emailType] = dispatcher.emailUser.mock.calls[0];
+      expect(user.id).toBe('user-1');
+      expect(emailType).toBe(EmailType.CIVIC_UPDATE);
+      expect(template.subject).toBe('Your daily digest from Commonwealth Labs');
+      expect(template.text).toContain(
+        'UPCOMING MEETINGS\n\nCity Council: Regular Meeting\n- Mar 13',
+      );
+      expect(digestRepo.update).toHaveBeenCalledWith('digest-1', {
+        status: NotificationDigestStatus.SENT,
+        itemCount: 1,
+        sentAt: now,
+      });
+    });
+
+    it('should cover the time since the last digest', async () => {
+      digestRepo.findOne.mockResolvedValue({
+        periodEnd: new Date('2024-03-11T14:00:00Z'),
+      });
+      const source = jest.fn().mockResolvedValue([]);
+      service.addSource(source);
+
+      await service.sendDueDigests(now);
+
+      expect(source).toHaveBeenCalledWith(
+        expect.objectContaining({
+          since: new Date('2024-03-11T14:00:00Z'),
+        }),
+      );
+    });
+
+    it('should send the notifications batched for the digest first', async () => {
+      deliveryRepo.find.mockResolvedValue([batched()]);
+      service.addSource(jest.fn().mockResolvedValue([meetings]));
+
+      expect(await service.sendDueDigests(now)).toBe(1);
+
+      expect(deliveryRepo.update).toHaveBeenCalledWith(
+        {
+          userId: 'user-1',
+          status: NotificationDeliveryStatus.DIGEST,
+          frequency: NotificationFrequency.DAILY_DIGEST,
+        },
+        {
+          status: NotificationDeliveryStatus.SENDING,
+          digestId: 'digest-1',
+        },
+      );
+      const template = dispatcher.emailUser.mock.calls[0][1];
+      expect(template.text).toMatch(
+        /YOUR NOTIFICATIONS\n\nProposition updated: Prop 12 - Housing Bond[\s\S]*UPCOMING MEETINGS/,
+      );
+      expect(deliveryRepo.update).toHaveBeenCalledWith(
+        { id: In(['delivery-1']) },
+        { status: NotificationDeliveryStatus.SENT, sentAt: now },
+      );
+      expect(dispatcher.notifyDelivered).toHaveBeenLastCalledWith([
+        expect.objectContaining({
+          id: 'delivery-1',
+          status: NotificationDeliveryStatus.SENT,
+          reason: NotificationReason.DIGEST,
+        }),
+      ]);
+    });
+
+    it('should skip batched notifications the user no longer wants', async () => {
+      dispatcher.loadRecipients.mockResolvedValue(
+        new Map([['user-1', recipient({ civicBallotUpdates: false })]]),
+      );
+      deliveryRepo.find.mockResolvedValue([batched()]);
+
+      expect(await service.sendDueDigests(now)).toBe(0);
+
+      expect(dispatcher.notifyDelivered).toHaveBeenCalledWith([
+        expect.objectContaining({
+          status: NotificationDeliveryStatus.SKIPPED,
+          reason: NotificationReason.CATEGORY_DISABLED,
+        }),
+      ]);
+      expect(dispatcher.emailUser).not.toHaveBeenCalled();
+      expect(digestRepo.update).toHaveBeenCalledWith('digest-1', {
+        status: NotificationDigestStatus.EMPTY,
+      });
+    });
+
+    it('should record digests that failed to send', async () => {
+      deliveryRepo.find.mockResolvedValue([batched()]);
+      dispatcher.emailUser.mockResolvedValue({
+        status: NotificationDeliveryStatus.FAILED,
+        errorMessage: 'Invalid recipient',
+      });
+
+      expect(await service.sendDueDigests(now)).toBe(0);
+
+      expect(digestRepo.update).toHaveBeenCalledWith('digest-1', {
+        status: NotificationDigestStatus.FAILED,
+        itemCount: 1,
+        errorMessage: 'Invalid recipient',
+      });
+      expect(deliveryRepo.update).toHaveBeenCalledWith(
+        { id: In(['delivery-1']) },
+        {
+          status: NotificationDeliveryStatus.FAILED,
+          errorMessage: 'Invalid recipient',
+        },
+      );
+    });
+
+    it('should not send a digest twice for the same period', async () => {
+      digestRepo.exists.mockResolvedValue(true);
+
+      expect(await service.sendDueDigests(now)).toBe(0);
+      expect(digestRepo.createQueryBuilder).not.toHaveBeenCalled();
+    });
+
+    it('should not send a digest another run claimed', async () => {
+      insertQuery.execute.mockResolvedValue({ raw: [] });
+
+      expect(await service.sendDueDigests(now)).toBe(0);
+      expect(deliveryRepo.update).not.toHaveBeenCalled();
+      expect(dispatcher.emailUser).not.toHaveBeenCalled();
+    });
+
+    it('should hold digests during quiet hours', async () => {
+      dispatcher.loadRecipients.mockResolvedValue(
+        new Map([
+          [
+            'user-1',
+            recipient({
+              quietHoursEnabled: true,
+              quietHoursStart: '09:00',
+              quietHoursEnd: '12:00',
+            }),
+          ],
+        ]),
+      );
+
+      expect(await service.sendDueDigests(now)).toBe(0);
+      expect(digestRepo.createQueryBuilder).not.toHaveBeenCalled();
+    });
+
+    it('should send digests of users with only batched notifications', async () => {
+      preferenceRepo.find.mockResolvedValue([]);
+      batchedQuery.getRawMany.mockResolvedValue([
+        { userId: 'user-1', frequency: NotificationFrequency.WEEKLY_DIGEST },
+      ]);
+
+      await service.sendDueDigests(now);
+
+      expect(digestRepo.exists).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          frequency: NotificationFrequency.WEEKLY_DIGEST,
+          periodKey: '2024-03-11',
+        },
+      });
+    });
+
+    it('should do nothing without digest users', async () => {
+      preferenceRepo.find.mockResolvedValue([]);
+
+      expect(await service.sendDueDigests(now)).toBe(0);
+      expect(dispatcher.loadRecipients).not.toHaveBeenCalled();
+    });
+  });
+});
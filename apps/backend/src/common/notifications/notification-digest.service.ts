@@ -0,0 +1,431 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Not, Repository } from 'typeorm';
+import {
+  digestEmailTemplate,
+  DigestTemplateSection,
+} from '@qckstrt/email-provider';
+import {
+  NotificationAction,
+  NotificationCategory,
+  NotificationDeliveryEntity,
+  NotificationDeliveryStatus,
+  NotificationReason,
+} from '../../db/entities/notification-delivery.entity';
+import {
+  NotificationDigestEntity,
+  NotificationDigestStatus,
+} from '../../db/entities/notification-digest.entity';
+import {
+  NotificationFrequency,
+  NotificationPreferenceEntity,
+} from '../../db/entities/notification-preference.entity';
+import { EmailType } from '../../db/entities/email-correspondence.entity';
+import {
+  decideNotification,
+  DigestSchedule,
+  dueDigestPeriod,
+  endOfQuietHours,
+  recordDecision,
+} from './notification-rules';
+import {
+  DeliveryOutcome,
+  LoadedRecipient,
+  NotificationDispatcherService,
+} from './notification-dispatcher.service';
+
+export type DigestFrequency =
+  | NotificationFrequency.DAILY_DIGEST
+  | NotificationFrequency.WEEKLY_DIGEST;
+
+/**
+ * What a digest source is asked to collect for one user
+ */
+export interface DigestRequest {
+  userId: string;
+  frequency: DigestFrequency;
+  // Period the digest covers
+  since: Date;
+  until: Date;
+  // Categories the user wants in this digest
+  categories: NotificationCategory[];
+}
+
+/**
+ * A digest section, e.g. upcoming meetings
+ */
+export interface DigestSection extends DigestTemplateSection {
+  category: NotificationCategory;
+}
+
+/**
+ * Collects digest sections for a user, e.g. from civic data
+ */
+export type DigestSource = (request: DigestRequest) => Promise<DigestSection[]>;
+
+const DIGEST_FREQUENCIES: NotificationFrequency[] = [
+  NotificationFrequency.DAILY_DIGEST,
+  NotificationFrequency.WEEKLY_DIGEST,
+];
+
+const TEMPLATE_FREQUENCIES: Record<DigestFrequency, 'daily' | 'weekly'> = {
+  [NotificationFrequency.DAILY_DIGEST]: 'daily',
+  [NotificationFrequency.WEEKLY_DIGEST]: 'weekly',
+};
+
+// Days covered by a user's first digest
+const FIRST_PERIOD_DAYS: Record<DigestFrequency, number> = {
+  [NotificationFrequency.DAILY_DIGEST]: 1,
+  [NotificationFrequency.WEEKLY_DIGEST]: 7,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Notification Digest Service
+ *
+ * Sends daily and weekly digest emails. A digest holds the notifications
+ * the dispatcher batched for it plus sections collected by digest sources
+ * (registered with addSource) for the period since the user's last digest.
+ *
+ * Digests go out at the configured hour in each user's timezone, after
+ * quiet hours. Each user has at most one digest per period, claimed in
+ * notification_digests before anything is sent: a digest interrupted by a
+ * crash stays claimed and is never sent twice. Users who never saved
+ * preferences only get digests when notifications were batched for them.
+ */
+@Injectable()
+export class NotificationDigestService {
+  private readonly logger = new Logger(NotificationDigestService.name, {
+    timestamp: true,
+  });
+  private readonly sources: DigestSource[] = [];
+  private readonly schedule: DigestSchedule;
+
+  constructor(
+    @InjectRepository(NotificationDigestEntity)
+    private readonly digestRepo: Repository<NotificationDigestEntity>,
+    @InjectRepository(NotificationDeliveryEntity)
+    private readonly deliveryRepo: Repository<NotificationDeliveryEntity>,
+    @InjectRepository(NotificationPreferenceEntity)
+    private readonly preferenceRepo: Repository<NotificationPreferenceEntity>,
+    private readonly dispatcher: NotificationDispatcherService,
+    configService: ConfigService,
+  ) {
+    this.schedule = {
+      hour: configService.get<number>('notifications.digestHour') ?? 7,
+      weekday: configService.get<number>('notifications.weeklyDigestDay') ?? 1,
+    };
+  }
+
+  /**
+   * Register a source of digest sections
+   */
+  addSource(source: DigestSource): void {
+    this.sources.push(source);
+  }
+
+  /**
+   * Send every digest that has come due
+   *
+   * @returns the number of digests sent
+   */
+  async sendDueDigests(now: Date = new Date()): Promise<number> {
+    const candidates = await this.findCandidates();
+    if (candidates.size === 0) return 0;
+    const recipients = await this.dispatcher.loadRecipients([
+      ...candidates.keys(),
+    ]);
+
+    let sent = 0;
+    for (const [userId, frequencies] of candidates) {
+      const recipient = recipients.get(userId);
+      if (!recipient) continue;
+      for (const frequency of frequencies) {
+        try {
+          if (await this.sendDigest(recipient, frequency, now)) sent++;
+        } catch (error) {
+          this.logger.error(
+            `Failed to send the ${frequency} of user ${userId}:`,
+            error,
+          );
+        }
+      }
+    }
+
+    if (sent > 0) this.logger.log(`Sent ${sent} digests`);
+    return sent;
+  }
+
+  /**
+   * Users who may have a digest due, with the digests they get
+   *
+   * These are users who chose a digest, and users with notifications
+   * batched for a digest (including one they have since switched from).
+   */
+  private async findCandidates(): Promise<Map<string, Set<DigestFrequency>>> {
+    const [preferences, batched] = await Promise.all([
+      this.preferenceRepo.find({
+        where: [
+          { civicFrequency: In(DIGEST_FREQUENCIES) },
+          { emailFrequency: In(DIGEST_FREQUENCIES) },
+        ],
+        select: { userId: true, civicFrequency: true, emailFrequency: true },
+      }),
+      this.deliveryRepo
+        .createQueryBuilder('delivery')
+        .select('delivery.userId', 'userId')
+        .addSelect('delivery.frequency', 'frequency')
+        .distinct(true)
+        .where('delivery.status = :status', {
+          status: NotificationDeliveryStatus.DIGEST,
+        })
+        .getRawMany<{ userId: string; frequency: NotificationFrequency }>(),
+    ]);
+
+    const candidates = new Map<string, Set<DigestFrequency>>();
+    const add = (userId: string, frequency?: NotificationFrequency) => {
+      if (!frequency || !DIGEST_FREQUENCIES.includes(frequency)) return;
+      const frequencies = candidates.get(userId) ?? new Set();
+      frequencies.add(frequency as DigestFrequency);
+      candidates.set(userId, frequencies);
+    };
+    for (const preference of preferences) {
+      add(preference.userId, preference.civicFrequency);
+      add(preference.userId, preference.emailFrequency);
+    }
+    for (const row of batched) {
+      add(row.userId, row.frequency);
+    }
+    return candidates;
+  }
+
+  /**
+   * Send a user's digest for the latest period, unless it was already
+   * handled or the user is in quiet hours
+   *
+   * @returns whether a digest was sent
+   */
+  private async sendDigest(
+    recipient: LoadedRecipient,
+    frequency: DigestFrequency,
+    now: Date,
+  ): Promise<boolean> {
+    const { user, settings, timezone } = recipient;
+    const periodKey = dueDigestPeriod(frequency, this.schedule, timezone, now);
+    const handled = await this.digestRepo.exists({
+      where: { userId: user.id, frequency, periodKey },
+    });
+    // Quiet hours hold the digest until a later run
+    if (handled || endOfQuietHours(settings, timezone, now)) return false;
+
+    const digest = await this.claim(user.id, frequency, periodKey, now);
+    if (!digest) return false;
+
+    const batched = await this.claimBatched(digest, recipient, now);
+    const sections: DigestTemplateSection[] = [
+      ...(batched.length > 0
+        ? [
+            {
+              title: 'Your notifications',
+              items: batched.map(({ title, lines, url }) => ({
+                title,
+                lines,
+                url,
+              })),
+            },
+          ]
+        : []),
+      ...(await this.collectSections(recipient, digest, now)),
+    ];
+    const itemCount = sections.reduce((n, s) => n + s.items.length, 0);
+
+    if (itemCount === 0) {
+      await this.digestRepo.update(digest.id, {
+        status: NotificationDigestStatus.EMPTY,
+      });
+      return false;
+    }
+
+    const template = digestEmailTemplate({
+      userName: user.firstName,
+      platformName: this.dispatcher.platformName,
+      frequency: TEMPLATE_FREQUENCIES[frequency],
+      sections,
+      preferencesUrl: this.dispatcher.preferencesUrl,
+    });
+    const outcome = await this.dispatcher.emailUser(
+      user,
+      template,
+      EmailType.CIVIC_UPDATE,
+    );
+    const sent = outcome.status === NotificationDeliveryStatus.SENT;
+
+    await this.digestRepo.update(digest.id, {
+      status: sent
+        ? NotificationDigestStatus.SENT
+        : NotificationDigestStatus.FAILED,
+      itemCount,
+      ...(outcome.sentAt && { sentAt: outcome.sentAt }),
+      ...(outcome.errorMessage && { errorMessage: outcome.errorMessage }),
+    });
+    await this.finishBatched(batched, outcome);
+    return sent;
+  }
+
+  /**
+   * Claim a user's digest for a period
+   *
+   * The digest covers the time since the end of the user's last digest
+   * that wasn't a failure.
+   *
+   * @returns the digest, or undefined if another run claimed it first
+   */
+  private async claim(
+    userId: string,
+    frequency: DigestFrequency,
+    periodKey: string,
+    now: Date,
+  ): Promise<NotificationDigestEntity | undefined> {
+    const previous = await this.digestRepo.findOne({
+      where: {
+        userId,
+        frequency,
+        status: Not(NotificationDigestStatus.FAILED),
+      },
+      order: { periodEnd: 'DESC' },
+    });
+
+    const values = {
+      userId,
+      frequency,
+      periodKey,
+      periodStart:
+        previous?.periodEnd ??
+        new Date(now.getTime() - FIRST_PERIOD_DAYS[frequency] * DAY_MS),
+      periodEnd: now,
+      status: NotificationDigestStatus.SENDING,
+    };
+    const result = await this.digestRepo
+      .createQueryBuilder()
+      .insert()
+      .values(values)
+      .orIgnore()
+      .returning('id')
+      .execute();
+
+    const [row] = result.raw as { id: string }[];
+    return row ? this.digestRepo.create({ ...values, id: row.id }) : undefined;
+  }
+
+  /**
+   * Take the notifications batched for a digest into it
+   *
+   * Preferences may have changed while they waited, so each is decided
+   * again; those the user no longer wants are skipped.
+   *
+   * @returns the notifications to send in the digest
+   */
+  private async claimBatched(
+    digest: NotificationDigestEntity,
+    recipient: LoadedRecipient,
+    now: Date,
+  ): Promise<NotificationDeliveryEntity[]> {
+    await this.deliveryRepo.update(
+      {
+        userId: digest.userId,
+        status: NotificationDeliveryStatus.DIGEST,
+        frequency: digest.frequency,
+      },
+      { status: NotificationDeliveryStatus.SENDING, digestId: digest.id },
+    );
+    const batched = await this.deliveryRepo.find({
+      where: { digestId: digest.id },
+      order: { createdAt: 'ASC' },
+    });
+    if (batched.length === 0) return [];
+
+    for (const delivery of batched) {
+      const decision = decideNotification(delivery.category, recipient, now);
+      Object.assign(
+        delivery,
+        recordDecision(
+          decision.action === NotificationAction.SKIP
+            ? decision
+            : {
+                action: NotificationAction.SEND,
+                reason: NotificationReason.DIGEST,
+              },
+          now,
+          delivery.decisions,
+        ),
+      );
+    }
+    await this.deliveryRepo.save(batched);
+
+    const skipped = batched.filter(
+      (d) => d.status === NotificationDeliveryStatus.SKIPPED,
+    );
+    await this.dispatcher.notifyDelivered(skipped);
+    return batched.filter(
+      (d) => d.status === NotificationDeliveryStatus.SENDING,
+    );
+  }
+
+  /**
+   * Ask the digest sources for sections in the categories the user wants
+   * in this digest
+   */
+  private async collectSections(
+    recipient: LoadedRecipient,
+    digest: NotificationDigestEntity,
+    now: Date,
+  ): Promise<DigestSection[]> {
+    const categories = Object.values(NotificationCategory).filter(
+      (category) => {
+        const decision = decideNotification(category, recipient, now);
+        return (
+          decision.action === NotificationAction.DIGEST &&
+          decision.frequency === digest.frequency
+        );
+      },
+    );
+    if (categories.length === 0 || this.sources.length === 0) return [];
+
+    const request: DigestRequest = {
+      userId: digest.userId,
+      frequency: digest.frequency as DigestFrequency,
+      since: digest.periodStart,
+      until: digest.periodEnd,
+      categories,
+    };
+    const sections = await Promise.all(
+      this.sources.map((source) => source(request)),
+    );
+    return sections
+      .flat()
+      .filter(
+        (section) =>
+          categories.includes(section.category) && section.items.length > 0,
+      );
+  }
+
+  /**
+   * Record how sending the digest went on its batched notifications
+   */
+  private async finishBatched(
+    deliveries: NotificationDeliveryEntity[],
+    outcome: DeliveryOutcome,
+  ): Promise<void> {
+    if (deliveries.length === 0) return;
+    await this.deliveryRepo.update(
+      { id: In(deliveries.map((d) => d.id)) },
+      outcome,
+    );
+    for (const delivery of deliveries) {
+      Object.assign(delivery, outcome);
+    }
+    await this.dispatcher.notifyDelivered(deliveries);
+  }
+}
@@ -0,0 +1,730 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { createMock } from '@golevelup/ts-jest';
+import { In, LessThan, LessThanOrEqual } from 'typeorm';
+import { IEmailProvider } from '@qckstrt/common';
+import {
+  NotificationAction,
+  NotificationCategory,
+  NotificationChannel,
+  NotificationDeliveryEntity,
+  NotificationDeliveryStatus,
+  NotificationReason,
+} from 'src/db/entities/notification-delivery.entity';
+import {
+  NotificationFrequency,
+  NotificationPreferenceEntity,
+} from 'src/db/entities/notification-preference.entity';
+import { NotificationEntity } from 'src/db/entities/notification.entity';
+import { UserProfileEntity } from 'src/db/entities/user-profile.entity';
+import {
+  ConsentStatus,
+  ConsentType,
+  UserConsentEntity,
+} from 'src/db/entities/user-consent.entity';
+import { UserEntity } from 'src/db/entities/user.entity';
+import { PushSubscriptionEntity } from 'src/db/entities/push-subscription.entity';
+import {
+  EmailCorrespondenceEntity,
+  EmailStatus,
+  EmailType,
+} from 'src/db/entities/email-correspondence.entity';
+import {
+  NotificationDispatcherService,
+  NotificationEvent,
+  NOTIFICATION_POSTED_CHANNEL,
+} from './notification-dispatcher.service';
+import { PushMessage, WebPushService } from './web-push.service';
+import { MAX_PUSH_PAYLOAD } from './web-push';
+
+describe('NotificationDispatcherService', () => {
+  let service: NotificationDispatcherService;
+  let emailProvider: jest.Mocked<IEmailProvider>;
+  let deliveryRepo: {
+    create: jest.Mock;
+    save: jest.Mock;
+    find: jest.Mock;
+    update: jest.Mock;
+  };
+  let notificationRepo: { insert: jest.Mock; query: jest.Mock };
+  let preferenceRepo: { find: jest.Mock };
+  let profileRepo: { find: jest.Mock };
+  let consentRepo: { find: jest.Mock };
+  let userRepo: { find: jest.Mock };
+  let correspondenceRepo: { create: jest.Mock; save: jest.Mock };
+  let pushSubscriptionRepo: {
+    find: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+  };
+  let webPush: { enabled: boolean; send: jest.Mock };
+
+  // 10:00 in Los Angeles
+  const now = new Date('2024-03-12T17:00:00Z');
+
+  const event = (overrides: Partial<NotificationEvent> = {}) => ({
+    userId: 'user-1',
+    category: NotificationCategory.CIVIC_BALLOT_UPDATE,
+    title: 'Proposition updated: Prop 12 - Housing Bond',
+    lines: ['Status: pending → passed'],
+    url: 'https://app.example.com/region/propositions',
+    source: { type: 'follow_alert', id: 'alert-1' },
+    ...overrides,
+  });
+
+  const preferences = (overrides: Partial<NotificationPreferenceEntity> = {}) =>
+    ({
+      userId: 'user-1',
+      emailEnabled: true,
+      civicBallotUpdates: true,
+      civicRepresentativeUpdates: true,
+      emailSecurityAlerts: true,
+      civicFrequency: NotificationFrequency.IMMEDIATE,
+      emailFrequency: NotificationFrequency.IMMEDIATE,
+      inAppEnabled: true,
+      inAppSecurityAlerts: true,
+      inAppCivicUpdates: true,
+      pushEnabled: true,
+      pushSecurityAlerts: true,
+      quietHoursEnabled: false,
+      ...overrides,
+    }) as NotificationPreferenceEntity;
+
+  const deferred = (overrides: Partial<NotificationDeliveryEntity> = {}) =>
+    ({
+      id: 'delivery-1',
+      userId: 'user-1',
+      category: NotificationCategory.CIVIC_BALLOT_UPDATE,
+      channel: NotificationChannel.EMAIL,
+      title: 'Proposition updated: Prop 12 - Housing Bond',
+      lines: [],
+      status: NotificationDeliveryStatus.DEFERRED,
+      reason: NotificationReason.QUIET_HOURS,
+      deliverAfter: new Date('2024-03-12T15:00:00Z'),
+      decisions: [
+        {
+          action: NotificationAction.DEFER,
+          reason: NotificationReason.QUIET_HOURS,
+          decidedAt: '2024-03-12T06:00:00.000Z',
+          deliverAfter: '2024-03-12T15:00:00.000Z',
+        },
+      ],
+      ...overrides,
+    }) as NotificationDeliveryEntity;
+
+  beforeEach(async () => {
+    deliveryRepo = {
+      create: jest.fn((values) => values),
+      save: jest.fn((values) =>
+        Promise.resolve(
+          Array.isArray(values)
+            ? values.map((d, i) => ({ ...d, id: `delivery-${i + 1}` }))
+            : values,
+        ),
+      ),
+      find: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+    notificationRepo = {
+      insert: jest.fn().mockResolvedValue({ identifiers: [{ id: 'n-1' }] }),
+      query: jest.fn().mockResolvedValue([]),
+    };
+    preferenceRepo = { find: jest.fn().mockResolvedValue([preferences()]) };
+    profileRepo = {
+      find: jest
+        .fn()
+        .mockResolvedValue([
+          { userId: 'user-1', timezone: 'America/Los_Angeles' },
+        ]),
+    };
+    consentRepo = { find: jest.fn().mockResolvedValue([]) };
+    userRepo = {
+      find: jest
+        .fn()
+        .mockResolvedValue([
+          { id: 'user-1', email: 'jane@example.com', firstName: 'Jane' },
+        ]),
+    };
+    correspondenceRepo = {
+      create: jest.fn((values) => ({ id: 'email-1', ...values })),
+      save: jest.fn((values) => Promise.resolve(values)),
+    };
+    pushSubscriptionRepo = {
+      find: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      delete: jest.fn().mockResolvedValue({ affected: 0 }),
+    };
+    webPush = {
+      enabled: false,
+      send: jest
+        .fn()
+        .mockResolvedValue({ success: true, statusCode: 201, expired: false }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationDispatcherService,
+        {
+          provide: getRepositoryToken(NotificationDeliveryEntity),
+          useValue: deliveryRepo,
+        },
+        {
+          provide: getRepositoryToken(NotificationEntity),
+          useValue: notificationRepo,
+        },
+        {
+          provide: getRepositoryToken(NotificationPreferenceEntity),
+          useValue: preferenceRepo,
+        },
+        {
+          provide: getRepositoryToken(UserProfileEntity),
+          useValue: profileRepo,
+        },
+        {
+          provide: getRepositoryToken(UserConsentEntity),
+          useValue: consentRepo,
+        },
+        { provide: getRepositoryToken(UserEntity), useValue: userRepo },
+        {
+          provide: getRepositoryToken(EmailCorrespondenceEntity),
+          useValue: correspondenceRepo,
+        },
+        {
+          provide: getRepositoryToken(PushSubscriptionEntity),
+          useValue: pushSubscriptionRepo,
+        },
+        { provide: 'EMAIL_PROVIDER', useValue: createMock<IEmailProvider>() },
+        { provide: WebPushService, useValue: webPush },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'FRONTEND_URL' ? 'https://app.example.com' : undefined,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(NotificationDispatcherService);
+    emailProvider = module.get('EMAIL_PROVIDER');
+    emailProvider.send.mockResolvedValue({ success: true, id: 'resend-1' });
+  });
+
+  describe('dispatch', () => {
+    it('should send notifications due now to each user in one email', async () => {
+      const deliveries = await service.dispatch(
+        [
+          event(),
+          event({
+            category: NotificationCategory.CIVIC_REPRESENTATIVE_UPDATE,
+            title: 'Representative updated: Jane Smith',
+            lines: ['Party: Independent → none'],
+            source: { type: 'follow_alert', id: 'alert-2' },
+          }),
+        ],
+        now,
+      );
+
+      expect(emailProvider.send).toHaveBeenCalledTimes(1);
+      const email = emailProvider.send.mock.calls[0][0];
+      expect(email.to).toBe('jane@example.com');
+      expect(email.subject).toBe('2 notifications from Commonwealth Labs');
+      expect(email.text).toContain(
+        'Proposition updated: Prop 12 - Housing Bond\n- Status: pending → passed\nhttps://app.example.com/region/propositions',
+      );
+      expect(email.text).toContain(
+        'https://app.example.com/settings/notifications',
+      );
+      expect(correspondenceRepo.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          emailType: EmailType.BALLOT_UPDATE,
+          status: EmailStatus.SENT,
+          resendId: 'resend-1',
+        }),
+      );
+      expect(deliveryRepo.update).toHaveBeenCalledWith(
+        { id: In(['delivery-1', 'delivery-3']) },
+        { status: NotificationDeliveryStatus.SENT, sentAt: expect.any(Date) },
+      );
+      expect(deliveries[0]).toEqual(
+        expect.objectContaining({
+          channel: NotificationChannel.EMAIL,
+          sourceType: 'follow_alert',
+          sourceId: 'alert-1',
+          status: NotificationDeliveryStatus.SENT,
+          reason: NotificationReason.IMMEDIATE,
+          decisions: [
+            {
+              action: NotificationAction.SEND,
+              reason: NotificationReason.IMMEDIATE,
+              decidedAt: now.toISOString(),
+            },
+          ],
+        }),
+      );
+    });
+
+    it('should defer notifications during quiet hours in the user timezone', async () => {
+      preferenceRepo.find.mockResolvedValue([
+        preferences({
+          quietHoursEnabled: true,
+          quietHoursStart: '09:00',
+          quietHoursEnd: '12:00',
+        }),
+      ]);
+
+      const [delivery] = await service.dispatch([event()], now);
+
+      expect(emailProvider.send).not.toHaveBeenCalled();
+      expect(delivery).toEqual(
+        expect.objectContaining({
+          status: NotificationDeliveryStatus.DEFERRED,
+          reason: NotificationReason.QUIET_HOURS,
+          deliverAfter: new Date('2024-03-12T19:00:00Z'),
+        }),
+      );
+      expect(delivery.decisions[0].deliverAfter).toBe(
+        '2024-03-12T19:00:00.000Z',
+      );
+    });
+
+    it('should batch notifications into the user digest', async () => {
+      preferenceRepo.find.mockResolvedValue([]);
+
+      const [delivery] = await service.dispatch([event()], now);
+
+      expect(emailProvider.send).not.toHaveBeenCalled();
+      expect(delivery).toEqual(
+        expect.objectContaining({
+          status: NotificationDeliveryStatus.DIGEST,
+          frequency: NotificationFrequency.DAILY_DIGEST,
+        }),
+      );
+    });
+
+    it('should skip civic notifications when consent was withdrawn', async () => {
+      consentRepo.find.mockResolvedValue([
+        {
+          userId: 'user-1',
+          consentType: ConsentType.CIVIC_NOTIFICATIONS,
+          status: ConsentStatus.WITHDRAWN,
+        },
+      ]);
+
+      const [delivery] = await service.dispatch([event()], now);
+
+      expect(emailProvider.send).not.toHaveBeenCalled();
+      expect(delivery).toEqual(
+        expect.objectContaining({
+          status: NotificationDeliveryStatus.SKIPPED,
+          reason: NotificationReason.NO_CONSENT,
+        }),
+      );
+    });
+
+    it('should skip notifications of users that no longer exist', async () => {
+      userRepo.find.mockResolvedValue([]);
+
+      const [delivery] = await service.dispatch([event()], now);
+
+      expect(delivery.reason).toBe(NotificationReason.NO_RECIPIENT);
+      expect(emailProvider.send).not.toHaveBeenCalled();
+    });
+
+    it('should record rejected emails as failed', async () => {
+      emailProvider.send.mockResolvedValue({
+        success: false,
+        error: 'Invalid recipient',
+      });
+
+      const [delivery] = await service.dispatch(
+        [event({ category: NotificationCategory.SECURITY_ALERT })],
+        now,
+      );
+
+      expect(delivery).toEqual(
+        expect.objectContaining({
+          status: NotificationDeliveryStatus.FAILED,
+          errorMessage: 'Invalid recipient',
+        }),
+      );
+      expect(correspondenceRepo.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          emailType: EmailType.ACCOUNT_ACTIVITY,
+          status: EmailStatus.FAILED,
+          errorMessage: 'Invalid recipient',
+        }),
+      );
+    });
+
+    it('should post notifications to the in-app notification center', async () => {
+      preferenceRepo.find.mockResolvedValue([]);
+
+      const deliveries = await service.dispatch([event()], now);
+
+      expect(notificationRepo.insert).toHaveBeenCalledWith([
+        {
+          userId: 'user-1',
+          category: NotificationCategory.CIVIC_BALLOT_UPDATE,
+          title: 'Proposition updated: Prop 12 - Housing Bond',
+          lines: ['Status: pending → passed'],
+          url: 'https://app.example.com/region/propositions',
+          sourceType: 'follow_alert',
+          sourceId: 'alert-1',
+        },
+      ]);
+      expect(deliveries).toEqual([
+        expect.objectContaining({
+          channel: NotificationChannel.EMAIL,
+          status: NotificationDeliveryStatus.DIGEST,
+        }),
+        expect.objectContaining({
+          id: 'delivery-2',
+          channel: NotificationChannel.IN_APP,
+          status: NotificationDeliveryStatus.SENT,
+        }),
+      ]);
+      expect(deliveryRepo.update).toHaveBeenCalledWith(
+        { id: In(['delivery-2']) },
+        { status: NotificationDeliveryStatus.SENT, sentAt: expect.any(Date) },
+      );
+    });
+
+    it('should announce posted notifications to notification centers', async () => {
+      await service.dispatch([event()], now);
+
+      expect(notificationRepo.query).toHaveBeenCalledWith(
+        'SELECT pg_notify($1, $2)',
+        [NOTIFICATION_POSTED_CHANNEL, '["n-1"]'],
+      );
+    });
+
+    it('should keep notifications posted when announcing them fails', async () => {
+      notificationRepo.query.mockRejectedValue(new Error('DB down'));
+
+      const [, inApp] = await service.dispatch([event()], now);
+
+      expect(inApp).toEqual(
+        expect.objectContaining({ status: NotificationDeliveryStatus.SENT }),
+      );
+    });
+
+    it('should only deliver categories on the channels they are made for', async () => {
+      const deliveries = await service.dispatch(
+        [event({ category: NotificationCategory.DOCUMENT_PROCESSED })],
+        now,
+      );
+
+      expect(deliveries).toEqual([
+        expect.objectContaining({ channel: NotificationChannel.IN_APP }),
+      ]);
+      expect(emailProvider.send).not.toHaveBeenCalled();
+    });
+
+    it('should record in-app notifications that could not be posted as failed', async () => {
+      notificationRepo.insert.mockRejectedValue(new Error('DB down'));
+
+      const [, inApp] = await service.dispatch([event()], now);
+
+      expect(inApp).toEqual(
+        expect.objectContaining({
+          status: NotificationDeliveryStatus.FAILED,
+          errorMessage: 'DB down',
+        }),
+      );
+      expect(notificationRepo.query).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing without notifications', async () => {
+      expect(await service.dispatch([])).toEqual([]);
+      expect(userRepo.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deliverDeferred', () => {
+    it('should claim and send notifications whose quiet hours ended', async () => {
+      deliveryRepo.find.mockResolvedValue([deferred()]);
+
+      const sent = await service.deliverDeferred(now);
+
+      expect(sent).toBe(1);
+      expect(deliveryRepo.update).toHaveBeenCalledWith(
+        { id: 'delivery-1', status: NotificationDeliveryStatus.DEFERRED },
+        { status: NotificationDeliveryStatus.SENDING },
+      );
+      expect(deliveryRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          decisions: [
+            expect.objectContaining({ action: NotificationAction.DEFER }),
+            expect.objectContaining({
+              action: NotificationAction.SEND,
+              reason: NotificationReason.IMMEDIATE,
+            }),
+          ],
+        }),
+      );
+      expect(emailProvider.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip notifications another dispatcher claimed', async () => {
+      deliveryRepo.find.mockResolvedValue([deferred()]);
+      deliveryRepo.update.mockResolvedValue({ affected: 0 });
+
+      expect(await service.deliverDeferred(now)).toBe(0);
+      expect(emailProvider.send).not.toHaveBeenCalled();
+    });
+
+    it('should decide again with the current preferences', async () => {
+      deliveryRepo.find.mockResolvedValue([deferred()]);
+      preferenceRepo.find.mockResolvedValue([
+        preferences({ civicBallotUpdates: false }),
+      ]);
+
+      expect(await service.deliverDeferred(now)).toBe(0);
+      expect(deliveryRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: NotificationDeliveryStatus.SKIPPED,
+          reason: NotificationReason.CATEGORY_DISABLED,
+        }),
+      );
+      expect(emailProvider.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('push', () => {
+    const subscription = (id: string) =>
+      ({
+        id,
+        userId: 'user-1',
+        endpoint: `https://fcm.googleapis.com/fcm/send/${id}`,
+        p256dh: 'BPublicKey',
+        auth: 'secret',
+      }) as PushSubscriptionEntity;
+
+    const securityAlert = () =>
+      event({
+        category: NotificationCategory.SECURITY_ALERT,
+        title: 'Your password was changed',
+        lines: ['If this was not you, reset your password.'],
+        url: 'https://app.example.com/settings/security',
+      });
+
+    beforeEach(() => {
+      webPush.enabled = true;
+      pushSubscriptionRepo.find.mockResolvedValue([
+        subscription('subscription-1'),
+        subscription('subscription-2'),
+      ]);
+    });
+
+    it('should push notifications to every browser the user registered', async () => {
+      const deliveries = await service.dispatch([securityAlert()], now);
+
+      expect(webPush.send).toHaveBeenCalledTimes(2);
+      expect(webPush.send).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'subscription-1' }),
+        {
+          title: 'Your password was changed',
+          body: 'If this was not you, reset your password.',
+          url: 'https://app.example.com/settings/security',
+          tag: 'delivery-3',
+        },
+        true,
+      );
+      expect(pushSubscriptionRepo.update).toHaveBeenCalledWith(
+        { id: In(['subscription-1', 'subscription-2']) },
+        { lastSentAt: expect.any(Date) },
+      );
+      expect(deliveries[2]).toEqual(
+        expect.objectContaining({
+          channel: NotificationChannel.PUSH,
+          status: NotificationDeliveryStatus.SENT,
+          reason: NotificationReason.SECURITY,
+        }),
+      );
+    });
+
+    it('should shorten non-ASCII bodies to fit in one push payload', async () => {
+      // Three bytes per character in UTF-8, so the title and the first
+      // MAX_PUSH_BODY characters of the body are too many bytes together
+      const title = '市議会の議題が更新されました'.repeat(30);
+      const line = '議題の詳細はこちらをご覧ください。'.repeat(80);
+
+      await service.dispatch(
+        [{ ...securityAlert(), title, lines: [line] }],
+        now,
+      );
+
+      const [, message] = webPush.send.mock.calls[0] as [
+        PushSubscriptionEntity,
+        PushMessage,
+      ];
+      expect(Buffer.byteLength(JSON.stringify(message))).toBeLessThanOrEqual(
+        MAX_PUSH_PAYLOAD,
+      );
+      expect(message.title).toBe(title.substring(0, 500));
+      expect(line.startsWith(message.body ?? '')).toBe(true);
+      expect(Buffer.byteLength(JSON.stringify(message))).toBeGreaterThan(
+        MAX_PUSH_PAYLOAD - 10,
+      );
+    });
+
+    it('should delete subscriptions the push service no longer knows', async () => {
+      webPush.send
+        .mockResolvedValueOnce({
+          success: false,
+          statusCode: 410,
+          expired: true,
+          error: 'Push service responded 410',
+        })
+        .mockResolvedValueOnce({ success: true, expired: false });
+
+      const [, , push] = await service.dispatch([securityAlert()], now);
+
+      expect(push.status).toBe(NotificationDeliveryStatus.SENT);
+      expect(pushSubscriptionRepo.delete).toHaveBeenCalledWith({
+        id: In(['subscription-1']),
+      });
+      expect(pushSubscriptionRepo.update).toHaveBeenCalledWith(
+        { id: In(['subscription-2']) },
+        { lastSentAt: expect.any(Date) },
+      );
+    });
+
+    it('should record pushes no browser took as failed', async () => {
+      webPush.send.mockResolvedValue({
+        success: false,
+        statusCode: 429,
+        expired: false,
+        error: 'Push service responded 429',
+      });
+
+      const [, , push] = await service.dispatch([securityAlert()], now);
+
+      expect(push).toEqual(
+        expect.objectContaining({
+          status: NotificationDeliveryStatus.FAILED,
+          errorMessage: 'Push service responded 429',
+        }),
+      );
+      expect(deliveryRepo.update).toHaveBeenCalledWith(
+        { id: 'delivery-3' },
+        {
+          status: NotificationDeliveryStatus.FAILED,
+          errorMessage: 'Push service responded 429',
+        },
+      );
+      expect(pushSubscriptionRepo.delete).not.toHaveBeenCalled();
+    });
+
+    it('should skip pushes to users without a registered browser', async () => {
+      pushSubscriptionRepo.find.mockResolvedValue([]);
+
+      const [, , push] = await service.dispatch([securityAlert()], now);
+
+      expect(push).toEqual(
+        expect.objectContaining({
+          status: NotificationDeliveryStatus.SKIPPED,
+          reason: NotificationReason.NO_DEVICE,
+        }),
+      );
+      expect(webPush.send).not.toHaveBeenCalled();
+    });
+
+    it('should push deferred notifications once quiet hours end', async () => {
+      deliveryRepo.find.mockResolvedValue([
+        deferred({
+          id: 'delivery-9',
+          category: NotificationCategory.PRODUCT_UPDATE,
+          channel: NotificationChannel.PUSH,
+        }),
+      ]);
+      preferenceRepo.find.mockResolvedValue([
+        preferences({ pushProductUpdates: true }),
+      ]);
+
+      expect(await service.deliverDeferred(now)).toBe(1);
+      expect(webPush.send).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'subscription-1' }),
+        expect.objectContaining({ tag: 'delivery-9' }),
+        false,
+      );
+      expect(emailProvider.send).not.toHaveBeenCalled();
+    });
+
+    it('should not deliver on the push channel until Web Push is configured', async () => {
+      webPush.enabled = false;
+
+      const deliveries = await service.dispatch([securityAlert()], now);
+
+      expect(deliveries.map((d) => d.channel)).toEqual([
+        NotificationChannel.EMAIL,
+        NotificationChannel.IN_APP,
+      ]);
+      expect(webPush.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteExpiredPushSubscriptions', () => {
+    it('should delete expired and abandoned subscriptions', async () => {
+      pushSubscriptionRepo.delete.mockResolvedValue({ affected: 2 });
+
+      expect(await service.deleteExpiredPushSubscriptions(now)).toBe(2);
+      expect(pushSubscriptionRepo.delete).toHaveBeenCalledWith([
+        { expiresAt: LessThanOrEqual(now) },
+        { lastSeenAt: LessThan(new Date('2023-12-13T17:00:00Z')) },
+      ]);
+    });
+  });
+
+  describe('onDelivered', () => {
+    it('should tell listeners about notifications that were sent, skipped or failed', async () => {
+      const listener = jest.fn().mockResolvedValue(undefined);
+      service.onDelivered(listener);
+      consentRepo.find.mockResolvedValue([
+        {
+          userId: 'user-1',
+          consentType: ConsentType.CIVIC_NOTIFICATIONS,
+          status: ConsentStatus.WITHDRAWN,
+        },
+      ]);
+
+      await service.dispatch(
+        [event(), event({ category: NotificationCategory.SECURITY_ALERT })],
+        now,
+      );
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0]).toEqual([
+        expect.objectContaining({ status: NotificationDeliveryStatus.SKIPPED }),
+        expect.objectContaining({ status: NotificationDeliveryStatus.SKIPPED }),
+        expect.objectContaining({ status: NotificationDeliveryStatus.SENT }),
+        expect.objectContaining({ status: NotificationDeliveryStatus.SENT }),
+      ]);
+    });
+
+    it('should not tell listeners about notifications still waiting', async () => {
+      const listener = jest.fn().mockResolvedValue(undefined);
+      service.onDelivered(listener);
+      preferenceRepo.find.mockResolvedValue([
+        preferences({ civicFrequency: NotificationFrequency.DAILY_DIGEST }),
+      ]);
+
+      await service.dispatch([event()], now);
+
+      expect(listener).toHaveBeenCalledWith([
+        expect.objectContaining({ channel: NotificationChannel.IN_APP }),
+      ]);
+    });
+
+    it('should keep going when a listener fails', async () => {
+      service.onDelivered(jest.fn().mockRejectedValue(new Error('DB down')));
+
+      const [delivery] = await service.dispatch([event()], now);
+
+      expect(delivery.status).toBe(NotificationDeliveryStatus.SENT);
+    });
+  });
+});
@@ -0,0 +1,687 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, LessThanOrEqual, Repository } from 'typeorm';
+import { IEmailProvider } from '@qckstrt/common';
+import { notificationsEmailTemplate } from '@qckstrt/email-provider';
+import {
+  NotificationAction,
+  NotificationCategory,
+  NotificationChannel,
+  NotificationDeliveryEntity,
+  NotificationDeliveryStatus,
+  NotificationReason,
+} from '../../db/entities/notification-delivery.entity';
+import { NotificationEntity } from '../../db/entities/notification.entity';
+import { NotificationPreferenceEntity } from '../../db/entities/notification-preference.entity';
+import { UserProfileEntity } from '../../db/entities/user-profile.entity';
+import { UserConsentEntity } from '../../db/entities/user-consent.entity';
+import { UserEntity } from '../../db/entities/user.entity';
+import { PushSubscriptionEntity } from '../../db/entities/push-subscription.entity';
+import {
+  EmailCorrespondenceEntity,
+  EmailStatus,
+  EmailType,
+} from '../../db/entities/email-correspondence.entity';
+import {
+  decideNotification,
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NotificationDecision,
+  notificationChannels,
+  NotificationRecipient,
+  recordDecision,
+} from './notification-rules';
+import { PushMessage, WebPushService } from './web-push.service';
+import { MAX_PUSH_PAYLOAD } from './web-push';
+
+/**
+ * A notification for one user, raised by a feature such as follow alerts
+ */
+export interface NotificationEvent {
+  userId: string;
+  category: NotificationCategory;
+  // Email subject for a single notification, or its heading among several
+  title: string;
+  lines?: string[];
+  url?: string;
+  // What raised the notification, e.g. { type: 'follow_alert', id }
+  source?: { type: string; id: string };
+}
+
+/**
+ * Postgres channel the IDs of in-app notifications are announced on once
+ * posted, as a JSON array
+ */
+export const NOTIFICATION_POSTED_CHANNEL = 'notification_posted';
+
+/**
+ * A user with what the dispatcher needs to decide and send
+ */
+export interface LoadedRecipient extends NotificationRecipient {
+  user: UserEntity;
+}
+
+/**
+ * Work to run when notifications reach a final status (sent, skipped or
+ * failed)
+ */
+export type DeliveryListener = (
+  deliveries: NotificationDeliveryEntity[],
+) => Promise<void>;
+
+/**
+ * How sending went, as delivery column values
+ */
+export type DeliveryOutcome = Pick<
+  NotificationDeliveryEntity,
+  'status' | 'sentAt' | 'errorMessage'
+>;
+
+/**
+ * Email history type of each category
+ */
+const EMAIL_TYPES: Partial<Record<NotificationCategory, EmailType>> = {
+  [NotificationCategory.SECURITY_ALERT]: EmailType.ACCOUNT_ACTIVITY,
+  [NotificationCategory.CIVIC_BALLOT_UPDATE]: EmailType.BALLOT_UPDATE,
+  [NotificationCategory.CIVIC_ELECTION_REMINDER]: EmailType.ELECTION_REMINDER,
+};
+
+// Timezone of users without a profile, matching the column default
+const DEFAULT_TIMEZONE = 'America/Los_Angeles';
+
+// Deferred notifications sent per run
+const DEFERRED_BATCH_SIZE = 100;
+
+// Push notification bodies are cut to this many characters, and further
+// when the message would not fit in MAX_PUSH_PAYLOAD bytes
+const MAX_PUSH_BODY = 1000;
+
+// Most bytes one character takes in JSON: a \uXXXX escape
+const MAX_JSON_CHAR_BYTES = 6;
+
+// Notification IDs per announcement, well inside Postgres' 8000 byte
+// payload limit
+const POSTED_IDS_PER_NOTIFY = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FINAL_STATUSES = new Set([
+  NotificationDeliveryStatus.SENT,
+  NotificationDeliveryStatus.SKIPPED,
+  NotificationDeliveryStatus.FAILED,
+]);
+
+/**
+ * Notification Dispatcher Service
+ *
+ * The one place notifications are delivered from. For each notification it
+ * reads the user's notification preferences, consents and profile timezone,
+ * then, on each channel its category is delivered on, sends it now, defers
+ * it until quiet hours end, batches it into a digest or skips it (see
+ * decideNotification). Every notification is stored per channel with every
+ * decision made about it, for auditing.
+ *
+ * Email notifications sent together for one user go out as a single email;
+ * digested ones are sent by the NotificationDigestService. In-app
+ * notifications are posted to the user's notification center, and push
+ * notifications to every browser the user registered, once Web Push is
+ * configured. Transactional email (welcome, representative contact) is sent
+ * by EmailService directly.
+ */
+@Injectable()
+export class NotificationDispatcherService {
+  private readonly logger = new Logger(NotificationDispatcherService.name, {
+    timestamp: true,
+  });
+  readonly platformName: string;
+  private readonly frontendUrl: string;
+  private readonly pushSubscriptionMaxAgeDays: number;
+  private readonly deliveryListeners: DeliveryListener[] = [];
+
+  constructor(
+    @InjectRepository(NotificationDeliveryEntity)
+    private readonly deliveryRepo: Repository<NotificationDeliveryEntity>,
+    @InjectRepository(NotificationEntity)
+    private readonly notificationRepo: Repository<NotificationEntity>,
+    @InjectRepository(NotificationPreferenceEntity)
+    private readonly preferenceRepo: Repository<NotificationPreferenceEntity>,
+    @InjectRepository(UserProfileEntity)
+    private readonly profileRepo: Repository<UserProfileEntity>,
+    @InjectRepository(UserConsentEntity)
+    private readonly consentRepo: Repository<UserConsentEntity>,
+    @InjectRepository(UserEntity)
+    private readonly userRepo: Repository<UserEntity>,
+    @InjectRepository(EmailCorrespondenceEntity)
+    private readonly correspondenceRepo: Repository<EmailCorrespondenceEntity>,
+    @InjectRepository(PushSubscriptionEntity)
+    private readonly pushSubscriptionRepo: Repository<PushSubscriptionEntity>,
+    @Inject('EMAIL_PROVIDER')
+    private readonly emailProvider: IEmailProvider,
+    private readonly webPush: WebPushService,
+    configService: ConfigService,
+  ) {
+    this.platformName =
+      configService.get<string>('email.fromName') || 'Commonwealth Labs';
+    this.frontendUrl =
+      configService.get<string>('FRONTEND_URL') ||
+      'https://app.commonwealthlabs.io';
+    this.pushSubscriptionMaxAgeDays =
+      configService.get<number>('push.subscriptionMaxAgeDays') ?? 90;
+  }
+
+  /**
+   * Register work to run when notifications reach a final status
+   */
+  onDelivered(listener: DeliveryListener): void {
+    this.deliveryListeners.push(listener);
+  }
+
+  /**
+   * Tell the listeners about notifications that reached a final status
+   *
+   * Listener failures are logged and don't affect delivery.
+   */
+  async notifyDelivered(
+    deliveries: NotificationDeliveryEntity[],
+  ): Promise<void> {
+    const final = deliveries.filter((d) => FINAL_STATUSES.has(d.status));
+    if (final.length === 0) return;
+    await Promise.all(
+      this.deliveryListeners.map((listener) =>
+        listener(final).catch((error) =>
+          this.logger.error('Notification delivery listener failed:', error),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Decide what to do with each notification and send those due now
+   *
+   * @returns the stored notifications with their final status
+   */
+  async dispatch(
+    events: NotificationEvent[],
+    now: Date = new Date(),
+  ): Promise<NotificationDeliveryEntity[]> {
+    if (events.length === 0) return [];
+    const recipients = await this.loadRecipients(
+      events.map((event) => event.userId),
+    );
+
+    const deliveries = events.flatMap((event) =>
+      this.channels(event.category).map((channel) =>
+        this.deliveryRepo.create({
+          userId: event.userId,
+          category: event.category,
+          channel,
+          title: event.title.substring(0, 500),
+          lines: event.lines ?? [],
+          url: event.url,
+          sourceType: event.source?.type,
+          sourceId: event.source?.id,
+          ...recordDecision(
+            this.decide(
+              event.category,
+              channel,
+              recipients.get(event.userId),
+              now,
+            ),
+            now,
+            [],
+          ),
+        }),
+      ),
+    );
+    const saved = await this.deliveryRepo.save(deliveries);
+
+    await this.deliver(
+      saved.filter((d) => d.status === NotificationDeliveryStatus.SENDING),
+      recipients,
+    );
+    await this.notifyDelivered(saved);
+    return saved;
+  }
+
+  /**
+   * Send deferred notifications whose quiet hours have ended
+   *
+   * Each notification is claimed before sending, so dispatchers running in
+   * several services never send one twice. Preferences may have changed
+   * while it waited, so the decision is made again.
+   *
+   * @returns the number of notifications sent or attempted
+   */
+  async deliverDeferred(now: Date = new Date()): Promise<number> {
+    const due = await this.deliveryRepo.find({
+      where: {
+        status: NotificationDeliveryStatus.DEFERRED,
+        deliverAfter: LessThanOrEqual(now),
+      },
+      order: { deliverAfter: 'ASC' },
+      take: DEFERRED_BATCH_SIZE,
+    });
+
+    const claimed: NotificationDeliveryEntity[] = [];
+    for (const delivery of due) {
+      const result = await this.deliveryRepo.update(
+        { id: delivery.id, status: NotificationDeliveryStatus.DEFERRED },
+        { status: NotificationDeliveryStatus.SENDING },
+      );
+      if (result.affected) claimed.push(delivery);
+    }
+    if (claimed.length === 0) return 0;
+
+    const recipients = await this.loadRecipients(
+      claimed.map((delivery) => delivery.userId),
+    );
+    const toSend: NotificationDeliveryEntity[] = [];
+    for (const delivery of claimed) {
+      Object.assign(
+        delivery,
+        recordDecision(
+          this.decide(
+            delivery.category,
+            delivery.channel,
+            recipients.get(delivery.userId),
+            now,
+          ),
+          now,
+          delivery.decisions,
+        ),
+      );
+      await this.deliveryRepo.save(delivery);
+      if (delivery.status === NotificationDeliveryStatus.SENDING) {
+        toSend.push(delivery);
+      }
+    }
+
+    await this.deliver(toSend, recipients);
+    await this.notifyDelivered(claimed);
+    this.logger.log(`Sent ${toSend.length} deferred notifications`);
+    return toSend.length;
+  }
+
+  /**
+   * Delete push subscriptions that expired or whose browser stopped
+   * re-registering
+   *
+   * @returns the number of subscriptions deleted
+   */
+  async deleteExpiredPushSubscriptions(
+    now: Date = new Date(),
+  ): Promise<number> {
+    const result = await this.pushSubscriptionRepo.delete([
+      { expiresAt: LessThanOrEqual(now) },
+      {
+        lastSeenAt: LessThan(
+          new Date(now.getTime() - this.pushSubscriptionMaxAgeDays * DAY_MS),
+        ),
+      },
+    ]);
+    const deleted = result.affected ?? 0;
+    if (deleted > 0) {
+      this.logger.log(`Deleted ${deleted} expired push subscriptions`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Channels a category is delivered on here; push needs VAPID keys
+   */
+  private channels(category: NotificationCategory): NotificationChannel[] {
+    return notificationChannels(category).filter(
+      (channel) => channel !== NotificationChannel.PUSH || this.webPush.enabled,
+    );
+  }
+
+  private decide(
+    category: NotificationCategory,
+    channel: NotificationChannel,
+    recipient: LoadedRecipient | undefined,
+    now: Date,
+  ): NotificationDecision {
+    return recipient
+      ? decideNotification(category, recipient, now, channel)
+      : {
+          action: NotificationAction.SKIP,
+          reason: NotificationReason.NO_RECIPIENT,
+        };
+  }
+
+  /**
+   * Load users with their preferences, consents and timezone
+   *
+   * Users that no longer exist are left out.
+   */
+  async loadRecipients(
+    userIds: string[],
+  ): Promise<Map<string, LoadedRecipient>> {
+    const ids = [...new Set(userIds)];
+    const [users, preferences, profiles, consents, pushSubscriptions] =
+      await Promise.all([
+        this.userRepo.find({
+          where: { id: In(ids) },
+          select: { id: true, email: true, firstName: true },
+        }),
+        this.preferenceRepo.find({ where: { userId: In(ids) } }),
+        this.profileRepo.find({
+          where: { userId: In(ids) },
+          select: { userId: true, timezone: true },
+        }),
+        this.consentRepo.find({
+          where: { userId: In(ids) },
+          select: { userId: true, consentType: true, status: true },
+        }),
+        this.pushSubscriptionRepo.find({
+          where: { userId: In(ids) },
+          select: { userId: true },
+        }),
+      ]);
+
+    return new Map(
+      users.map((user) => [
+        user.id,
+        {
+          user,
+          settings:
+            preferences.find((p) => p.userId === user.id) ??
+            DEFAULT_NOTIFICATION_SETTINGS,
+          timezone:
+            profiles.find((p) => p.userId === user.id)?.timezone ||
+            DEFAULT_TIMEZONE,
+          consents: new Map(
+            consents
+              .filter((c) => c.userId === user.id)
+              .map((c) => [c.consentType, c.status]),
+          ),
+          hasPushDevice: pushSubscriptions.some((s) => s.userId === user.id),
+        },
+      ]),
+    );
+  }
+
+  /**
+   * Send notifications due now on their channels
+   */
+  private async deliver(
+    deliveries: NotificationDeliveryEntity[],
+    recipients: Map<string, LoadedRecipient>,
+  ): Promise<void> {
+    await this.sendAll(
+      deliveries.filter((d) => d.channel === NotificationChannel.EMAIL),
+      recipients,
+    );
+    await this.postInApp(
+      deliveries.filter((d) => d.channel === NotificationChannel.IN_APP),
+    );
+    await this.sendPush(
+      deliveries.filter((d) => d.channel === NotificationChannel.PUSH),
+    );
+  }
+
+  /**
+   * Send each user's notifications in one email
+   */
+  private async sendAll(
+    deliveries: NotificationDeliveryEntity[],
+    recipients: Map<string, LoadedRecipient>,
+  ): Promise<void> {
+    // Only notifications of loaded recipients are ever decided to be sent
+    for (const [userId, { user }] of recipients) {
+      const userDeliveries = deliveries.filter((d) => d.userId === userId);
+      if (userDeliveries.length > 0) {
+        await this.sendEmail(user, userDeliveries);
+      }
+    }
+  }
+
+  /**
+   * Email notifications to a user and record the outcome
+   */
+  private async sendEmail(
+    user: UserEntity,
+    deliveries: NotificationDeliveryEntity[],
+  ): Promise<void> {
+    const template = notificationsEmailTemplate({
+      userName: user.firstName,
+      platformName: this.platformName,
+      notifications: deliveries.map(({ title, lines, url }) => ({
+        title,
+        lines,
+        url,
+      })),
+      preferencesUrl: this.preferencesUrl,
+    });
+
+    const outcome = await this.emailUser(
+      user,
+      template,
+      EMAIL_TYPES[deliveries[0].category] ?? EmailType.CIVIC_UPDATE,
+    );
+    await this.deliveryRepo.update(
+      { id: In(deliveries.map((d) => d.id)) },
+      outcome,
+    );
+    for (const delivery of deliveries) {
+      Object.assign(delivery, outcome);
+    }
+  }
+
+  /**
+   * Post notifications to their users' notification centers
+   */
+  private async postInApp(
+    deliveries: NotificationDeliveryEntity[],
+  ): Promise<void> {
+    if (deliveries.length === 0) return;
+
+    let outcome: DeliveryOutcome;
+    let posted: string[] = [];
+    try {
+      const result = await this.notificationRepo.insert(
+        deliveries.map(
+          ({ userId, category, title, lines, url, sourceType, sourceId }) => ({
+            userId,
+            category,
+            title,
+            lines,
+            url,
+            sourceType,
+            sourceId,
+          }),
+        ),
+      );
+      posted = result.identifiers.map(({ id }) => id as string);
+      outcome = {
+        status: NotificationDeliveryStatus.SENT,
+        sentAt: new Date(),
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      outcome = {
+        status: NotificationDeliveryStatus.FAILED,
+        errorMessage: message,
+      };
+      this.logger.warn(`Failed to post in-app notifications: ${message}`);
+    }
+    await this.announcePosted(posted);
+
+    await this.deliveryRepo.update(
+      { id: In(deliveries.map((d) => d.id)) },
+      outcome,
+    );
+    for (const delivery of deliveries) {
+      Object.assign(delivery, outcome);
+    }
+  }
+
+  /**
+   * Announce posted notifications to the notification centers streaming
+   * them to subscribed clients
+   *
+   * The notifications are already posted, so a failed announcement is only
+   * logged; users still find them in their notification center.
+   */
+  private async announcePosted(ids: string[]): Promise<void> {
+    try {
+      for (let i = 0; i < ids.length; i += POSTED_IDS_PER_NOTIFY) {
+        await this.notificationRepo.query('SELECT pg_notify($1, $2)', [
+          NOTIFICATION_POSTED_CHANNEL,
+          JSON.stringify(ids.slice(i, i + POSTED_IDS_PER_NOTIFY)),
+        ]);
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to announce in-app notifications: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * The push message for a notification
+   *
+   * The body is shortened until the message's JSON fits in one encrypted
+   * push record, which is measured in UTF-8 bytes rather than characters.
+   */
+  private pushMessage(delivery: NotificationDeliveryEntity): PushMessage {
+    // Cut by code point so no surrogate pair is split
+    let body = Array.from(delivery.lines.join('\n')).slice(0, MAX_PUSH_BODY);
+    const toMessage = (): PushMessage => ({
+      title: delivery.title,
+      body: body.join(''),
+      url: delivery.url,
+      tag: delivery.id,
+    });
+
+    let message = toMessage();
+    let excess = Buffer.byteLength(JSON.stringify(message)) - MAX_PUSH_PAYLOAD;
+    while (excess > 0 && body.length > 0) {
+      body = body.slice(0, -Math.ceil(excess / MAX_JSON_CHAR_BYTES));
+      message = toMessage();
+      excess = Buffer.byteLength(JSON.stringify(message)) - MAX_PUSH_PAYLOAD;
+    }
+    return message;
+  }
+
+  /**
+   * Push notifications to every browser their users registered
+   *
+   * A notification is sent when at least one browser's push service took
+   * it. Subscriptions the push service no longer knows are deleted.
+   */
+  private async sendPush(
+    deliveries: NotificationDeliveryEntity[],
+  ): Promise<void> {
+    if (deliveries.length === 0) return;
+    const subscriptions = await this.pushSubscriptionRepo.find({
+      where: { userId: In([...new Set(deliveries.map((d) => d.userId))]) },
+    });
+
+    const expired = new Set<string>();
+    for (const delivery of deliveries) {
+      const targets = subscriptions.filter(
+        (s) => s.userId === delivery.userId && !expired.has(s.id),
+      );
+      const message = this.pushMessage(delivery);
+      const urgent = delivery.category === NotificationCategory.SECURITY_ALERT;
+
+      const errors: string[] = [];
+      const sentTo: PushSubscriptionEntity[] = [];
+      for (const target of targets) {
+        const result = await this.webPush.send(target, message, urgent);
+        if (result.success) {
+          sentTo.push(target);
+        } else {
+          if (result.expired) expired.add(target.id);
+          errors.push(result.error ?? 'Push failed');
+        }
+      }
+
+      const outcome: DeliveryOutcome =
+        sentTo.length > 0
+          ? { status: NotificationDeliveryStatus.SENT, sentAt: new Date() }
+          : {
+              status: NotificationDeliveryStatus.FAILED,
+              errorMessage: errors[0] ?? 'No push subscriptions',
+            };
+      if (sentTo.length === 0) {
+        this.logger.warn(
+          `Failed to push notification ${delivery.id}: ${outcome.errorMessage}`,
+        );
+      } else {
+        await this.pushSubscriptionRepo.update(
+          { id: In(sentTo.map((s) => s.id)) },
+          { lastSentAt: outcome.sentAt },
+        );
+      }
+      await this.deliveryRepo.update({ id: delivery.id }, outcome);
+      Object.assign(delivery, outcome);
+    }
+
+    if (expired.size > 0) {
+      await this.pushSubscriptionRepo.delete({ id: In([...expired]) });
+      this.logger.log(`Deleted ${expired.size} expired push subscriptions`);
+    }
+  }
+
+  /**
+   * Where users change their notification preferences
+   */
+  get preferencesUrl(): string {
+    return `${this.frontendUrl}/settings/notifications`;
+  }
+
+  /**
+   * Send a rendered email to a user, recorded in their email history
+   */
+  async emailUser(
+    user: UserEntity,
+    template: { subject: string; html: string; text: string },
+    emailType: EmailType,
+  ): Promise<DeliveryOutcome> {
+    const correspondence = this.correspondenceRepo.create({
+      userId: user.id,
+      emailType,
+      status: EmailStatus.PENDING,
+      recipientEmail: user.email,
+      recipientName: user.firstName,
+      subject: template.subject.substring(0, 500),
+      bodyPreview: template.text.substring(0, 500),
+    });
+    await this.correspondenceRepo.save(correspondence);
+
+    let outcome: DeliveryOutcome;
+    try {
+      const result = await this.emailProvider.send({
+        to: user.email,
+        subject: template.subject,
+        html: template.html,
+        text: template.text,
+      });
+      if (!result.success) {
+        throw new Error(result.error || 'Email provider rejected the email');
+      }
+
+      correspondence.status = EmailStatus.SENT;
+      correspondence.sentAt = new Date();
+      correspondence.resendId = result.id;
+      outcome = {
+        status: NotificationDeliveryStatus.SENT,
+        sentAt: correspondence.sentAt,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      correspondence.status = EmailStatus.FAILED;
+      correspondence.errorMessage = message;
+      outcome = {
+        status: NotificationDeliveryStatus.FAILED,
+        errorMessage: message,
+      };
+      this.logger.warn(`Failed to email user ${user.id}: ${message}`);
+    }
+
+    await this.correspondenceRepo.save(correspondence);
+    return outcome;
+  }
+}
@@ -0,0 +1,502 @@
+import { NotificationFrequency } from 'src/db/entities/notification-preference.entity';
+import {
+  ConsentStatus,
+  ConsentType,
+} from 'src/db/entities/user-consent.entity';
+import {
+  NotificationAction,
+  NotificationCategory,
+  NotificationChannel,
+  NotificationReason,
+} from 'src/db/entities/notification-delivery.entity';
+import {
+  decideNotification,
+  DEFAULT_NOTIFICATION_SETTINGS,
+  dueDigestPeriod,
+  endOfQuietHours,
+  notificationChannels,
+  NotificationRecipient,
+  NotificationSettings,
+} from './notification-rules';
+
+describe('notification rules', () => {
+  // 10:00 in Los Angeles
+  const now = new Date('2024-03-12T17:00:00Z');
+
+  const recipient = (
+    settings: Partial<NotificationSettings> = {},
+    consents: [ConsentType, ConsentStatus][] = [],
+  ): NotificationRecipient => ({
+    settings: {
+      ...DEFAULT_NOTIFICATION_SETTINGS,
+      civicFrequency: NotificationFrequency.IMMEDIATE,
+      ...settings,
+    },
+    timezone: 'America/Los_Angeles',
+    consents: new Map(consents),
+  });
+
+  describe('decideNotification', () => {
+    it('should send immediate notifications now', () => {
+      expect(
+        decideNotification(
+          NotificationCategory.CIVIC_BALLOT_UPDATE,
+          recipient(),
+          now,
+        ),
+      ).toEqual({
+        action: NotificationAction.SEND,
+        reason: NotificationReason.IMMEDIATE,
+      });
+    });
+
+    it.each([
+      [
+        'the user unsubscribed from everything',
+        { unsubscribedAllAt: new Date() },
+        NotificationReason.UNSUBSCRIBED,
+      ],
+      [
+        'email is turned off',
+        { emailEnabled: false },
+        NotificationReason.CHANNEL_DISABLED,
+      ],
+      [
+        'the category is turned off',
+        { civicBallotUpdates: false },
+        NotificationReason.CATEGORY_DISABLED,
+      ],
+      [
+        'the frequency is never',
+        { civicFrequency: NotificationFrequency.NEVER },
+        NotificationReason.FREQUENCY_NEVER,
+      ],
+    ])('should skip notifications when %s', (_, settings, reason) => {
+      expect(
+        decideNotification(
+          NotificationCategory.CIVIC_BALLOT_UPDATE,
+          recipient(settings),
+          now,
+        ),
+      ).toEqual({ action: NotificationAction.SKIP, reason });
+    });
+
+    it('should batch notifications into the chosen digest', () => {
+      expect(
+        decideNotification(
+          NotificationCategory.CIVIC_LOCAL_NEWS,
+          recipient({ civicFrequency: NotificationFrequency.WEEKLY_DIGEST }),
+          now,
+        ),
+      ).toEqual({
+        action: NotificationAction.DIGEST,
+        reason: NotificationReason.DIGEST,
+        frequency: NotificationFrequency.WEEKLY_DIGEST,
+      });
+    });
+
+    it('should use the email frequency for account notifications', () => {
+      expect(
+        decideNotification(
+          NotificationCategory.PRODUCT_UPDATE,
+          recipient({
+            emailFrequency: NotificationFrequency.DAILY_DIGEST,
+          }),
+          now,
+        ).action,
+      ).toBe(NotificationAction.DIGEST);
+    });
+
+    it('should defer notifications until quiet hours end', () => {
+      expect(
+        decideNotification(
+          NotificationCategory.CIVIC_BALLOT_UPDATE,
+          recipient({
+            quietHoursEnabled: true,
+            quietHoursStart: '09:00',
+            quietHoursEnd: '12:30',
+          }),
+          now,
+        ),
+      ).toEqual({
+        action: NotificationAction.DEFER,
+        reason: NotificationReason.QUIET_HOURS,
+        deliverAfter: new Date('2024-03-12T19:30:00Z'),
+      });
+    });
+
+    it('should send security alerts regardless of frequency, quiet hours and unsubscribe-all', () => {
+      expect(
+        decideNotification(
+          NotificationCategory.SECURITY_ALERT,
+          recipient({
+            unsubscribedAllAt: new Date(),
+            emailFrequency: NotificationFrequency.NEVER,
+            quietHoursEnabled: true,
+            quietHoursStart: '09:00',
+            quietHoursEnd: '12:30',
+          }),
+          now,
+        ),
+      ).toEqual({
+        action: NotificationAction.SEND,
+        reason: NotificationReason.SECURITY,
+      });
+    });
+
+    it('should skip security alerts the user turned off', () => {
+      expect(
+        decideNotification(
+          NotificationCategory.SECURITY_ALERT,
+          recipient({ emailSecurityAlerts: false }),
+          now,
+        ).reason,
+      ).toBe(NotificationReason.CATEGORY_DISABLED);
+    });
+
+    it.each([
+      [undefined, NotificationAction.SEND],
+      [ConsentStatus.PENDING, NotificationAction.SEND],
+      [ConsentStatus.GRANTED, NotificationAction.SEND],
+      [ConsentStatus.DENIED, NotificationAction.SKIP],
+      [ConsentStatus.WITHDRAWN, NotificationAction.SKIP],
+    ])(
+      'should only block civic notifications when consent is denied or withdrawn (%s → %s)',
+      (status, action) => {
+        const consents: [ConsentType, ConsentStatus][] = status
+          ? [[ConsentType.CIVIC_NOTIFICATIONS, status]]
+          : [];
+
+        expect(
+          decideNotification(
+            NotificationCategory.CIVIC_ELECTION_REMINDER,
+            recipient({}, consents),
+            now,
+          ).action,
+        ).toBe(action);
+      },
+    );
+
+    it.each([
+      [undefined, NotificationAction.SKIP],
+      [ConsentStatus.PENDING, NotificationAction.SKIP],
+      [ConsentStatus.GRANTED, NotificationAction.SEND],
+    ])(
+      'should require marketing consent to be granted (%s → %s)',
+      (status, action) => {
+        const consents: [ConsentType, ConsentStatus][] = status
+          ? [[ConsentType.MARKETING_EMAIL, status]]
+          : [];
+
+        const decision = decideNotification(
+          NotificationCategory.MARKETING,
+          recipient({ emailMarketing: true }, consents),
+          now,
+        );
+
+        expect(decision.action).toBe(action);
+        if (action === NotificationAction.SKIP) {
+          expect(decision.reason).toBe(NotificationReason.NO_CONSENT);
+        }
+      },
+    );
+  });
+
+  describe('in-app notifications', () => {
+    it('should post in-app notifications right away regardless of frequency and quiet hours', () => {
+      expect(
+        decideNotification(
+          NotificationCategory.CIVIC_BALLOT_UPDATE,
+          recipient({
+            civicFrequency: NotificationFrequency.WEEKLY_DIGEST,
+            quietHoursEnabled: true,
+            quietHoursStart: '09:00',
+            quietHoursEnd: '12:30',
+          }),
+          now,
+          NotificationChannel.IN_APP,
+        ),
+      ).toEqual({
+        action: NotificationAction.SEND,
+        reason: NotificationReason.IMMEDIATE,
+      });
+    });
+
+    it.each([
+      [
+        'in-app notifications are turned off',
+        NotificationCategory.SECURITY_ALERT,
+        { inAppEnabled: false },
+        NotificationReason.CHANNEL_DISABLED,
+      ],
+      [
+        'the category is turned off in the app',
+        NotificationCategory.CIVIC_LOCAL_NEWS,
+        { inAppCivicUpdates: false },
+        NotificationReason.CATEGORY_DISABLED,
+      ],
+      [
+        'the user unsubscribed from everything',
+        NotificationCategory.DOCUMENT_PROCESSED,
+        { unsubscribedAllAt: new Date() },
+        NotificationReason.UNSUBSCRIBED,
+      ],
+    ])(
+      'should skip in-app notifications when %s',
+      (_, category, settings, reason) => {
+        expect(
+          decideNotification(
+            category,
+            recipient(settings),
+            now,
+            NotificationChannel.IN_APP,
+          ),
+        ).toEqual({ action: NotificationAction.SKIP, reason });
+      },
+    );
+
+    it('should not depend on the email settings', () => {
+      expect(
+        decideNotification(
+          NotificationCategory.CIVIC_BALLOT_UPDATE,
+          recipient({ emailEnabled: false, civicBallotUpdates: false }),
+          now,
+          NotificationChannel.IN_APP,
+        ).action,
+      ).toBe(NotificationAction.SEND);
+    });
+
+    it('should list the channels of each category', () => {
+      expect(notificationChannels(NotificationCategory.SECURITY_ALERT)).toEqual(
+        [
+          NotificationChannel.EMAIL,
+          NotificationChannel.IN_APP,
+          NotificationChannel.PUSH,
+        ],
+      );
+      expect(notificationChannels(NotificationCategory.MARKETING)).toEqual([
+        NotificationChannel.EMAIL,
+        NotificationChannel.PUSH,
+      ]);
+      expect(
+        notificationChannels(NotificationCategory.DOCUMENT_PROCESSED),
+      ).toEqual([NotificationChannel.IN_APP]);
+    });
+  });
+
+  describe('push notifications', () => {
+    const withDevice = (
+      settings: Partial<NotificationSettings> = {},
+      consents: [ConsentType, ConsentStatus][] = [],
+    ) => ({ ...recipient(settings, consents), hasPushDevice: true });
+
+    it('should push right away regardless of the email frequency', () => {
+      expect(
+        decideNotification(
+          NotificationCategory.PRODUCT_UPDATE,
+          withDevice({ emailFrequency: NotificationFrequency.NEVER }),
+          now,
+          NotificationChannel.PUSH,
+        ),
+      ).toEqual({
+        action: NotificationAction.SEND,
+        reason: NotificationReason.IMMEDIATE,
+      });
+    });
+
+    it('should defer pushes until quiet hours end', () => {
+      expect(
+        decideNotification(
+          NotificationCategory.PRODUCT_UPDATE,
+          withDevice({
+            quietHoursEnabled: true,
+            quietHoursStart: '09:00',
+            quietHoursEnd: '12:30',
+          }),
+          now,
+          NotificationChannel.PUSH,
+        ),
+      ).toEqual({
+        action: NotificationAction.DEFER,
+        reason: NotificationReason.QUIET_HOURS,
+        deliverAfter: new Date('2024-03-12T19:30:00Z'),
+      });
+    });
+
+    it('should push security alerts during quiet hours', () => {
+      expect(
+        decideNotification(
+          NotificationCategory.SECURITY_ALERT,
+          withDevice({
+            quietHoursEnabled: true,
+            quietHoursStart: '09:00',
+            quietHoursEnd: '12:30',
+          }),
+          now,
+          NotificationChannel.PUSH,
+        ),
+      ).toEqual({
+        action: NotificationAction.SEND,
+        reason: NotificationReason.SECURITY,
+      });
+    });
+
+    it('should push marketing with push marketing consent', () => {
+      expect(
+        decideNotification(
+          NotificationCategory.MARKETING,
+          withDevice({ pushMarketing: true }, [
+            [ConsentType.MARKETING_PUSH, ConsentStatus.GRANTED],
+          ]),
+          now,
+          NotificationChannel.PUSH,
+        ).action,
+      ).toBe(NotificationAction.SEND);
+    });
+
+    it.each([
+      [
+        'push notifications are turned off',
+        NotificationCategory.SECURITY_ALERT,
+        withDevice({ pushEnabled: false }),
+        NotificationReason.CHANNEL_DISABLED,
+      ],
+      [
+        'the category is turned off for push',
+        NotificationCategory.PRODUCT_UPDATE,
+        withDevice({ pushProductUpdates: false }),
+        NotificationReason.CATEGORY_DISABLED,
+      ],
+      [
+        'only email marketing was consented to',
+        NotificationCategory.MARKETING,
+        withDevice({ pushMarketing: true }, [
+          [ConsentType.MARKETING_EMAIL, ConsentStatus.GRANTED],
+        ]),
+        NotificationReason.NO_CONSENT,
+      ],
+      [
+        'the user registered no browser',
+        NotificationCategory.SECURITY_ALERT,
+        recipient(),
+        NotificationReason.NO_DEVICE,
+      ],
+    ])('should skip pushes when %s', (_, category, target, reason) => {
+      expect(
+        decideNotification(category, target, now, NotificationChannel.PUSH),
+      ).toEqual({ action: NotificationAction.SKIP, reason });
+    });
+  });
+
+  describe('endOfQuietHours', () => {
+    const quietHours = (start: string, end: string) => ({
+      quietHoursEnabled: true,
+      quietHoursStart: start,
+      quietHoursEnd: end,
+    });
+
+    it('should end quiet hours that span midnight the next morning', () => {
+      // 23:15 in Los Angeles
+      const late = new Date('2024-03-13T06:15:00Z');
+
+      expect(
+        endOfQuietHours(
+          quietHours('22:00:00', '08:00:00'),
+          'America/Los_Angeles',
+          late,
+        ),
+      ).toEqual(new Date('2024-03-13T15:00:00Z'));
+    });
+
+    it('should use the wall clock of the user timezone', () => {
+      // 22:00 to 08:00 is already over at 17:00 UTC in New York...
+      expect(
+        endOfQuietHours(quietHours('22:00', '08:00'), 'America/New_York', now),
+      ).toBeUndefined();
+      // ...but not in Tokyo, where it is 02:00
+      expect(
+        endOfQuietHours(quietHours('22:00', '08:00'), 'Asia/Tokyo', now),
+      ).toEqual(new Date('2024-03-12T23:00:00Z'));
+    });
+
+    it('should fall back to UTC for unknown timezones', () => {
+      expect(
+        endOfQuietHours(quietHours('16:00', '18:00'), 'Mars/Olympus', now),
+      ).toEqual(new Date('2024-03-12T18:00:00Z'));
+    });
+
+    it.each([
+      ['disabled', { quietHoursEnabled: false }],
+      ['missing times', { quietHoursEnabled: true }],
+      ['an empty window', quietHours('10:00', '10:00')],
+      ['outside the window', quietHours('22:00', '08:00')],
+    ])('should not defer when quiet hours are %s', (_, settings) => {
+      expect(
+        endOfQuietHours(settings, 'America/Los_Angeles', now),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('dueDigestPeriod', () => {
+    // 07:00, Monday
+    const schedule = { hour: 7, weekday: 1 };
+
+    it.each([
+      // Tuesday 10:00 in Los Angeles
+      ['after the hour', now, '2024-03-12'],
+      // Tuesday 06:00 in Los Angeles
+      ['before the hour', new Date('2024-03-12T13:00:00Z'), '2024-03-11'],
+    ])('should give daily digests %s the due day', (_, at, period) => {
+      expect(
+        dueDigestPeriod(
+          NotificationFrequency.DAILY_DIGEST,
+          schedule,
+          'America/Los_Angeles',
+          at,
+        ),
+      ).toBe(period);
+    });
+
+    it.each([
+      // Tuesday 10:00 in Los Angeles
+      ['later in the week', now, '2024-03-11'],
+      // Monday 08:00 in Los Angeles
+      ['on the day', new Date('2024-03-11T15:00:00Z'), '2024-03-11'],
+      // Monday 06:00 in Los Angeles
+      [
+        'on the day before the hour',
+        new Date('2024-03-11T13:00:00Z'),
+        '2024-03-04',
+      ],
+    ])('should give weekly digests %s the last due day', (_, at, period) => {
+      expect(
+        dueDigestPeriod(
+          NotificationFrequency.WEEKLY_DIGEST,
+          schedule,
+          'America/Los_Angeles',
+          at,
+        ),
+      ).toBe(period);
+    });
+
+    it('should use the date of the user timezone', () => {
+      // Already Wednesday 02:00 in Tokyo
+      expect(
+        dueDigestPeriod(
+          NotificationFrequency.DAILY_DIGEST,
+          schedule,
+          'Asia/Tokyo',
+          now,
+        ),
+      ).toBe('2024-03-12');
+      expect(
+        dueDigestPeriod(
+          NotificationFrequency.DAILY_DIGEST,
+          { ...schedule, hour: 1 },
+          'Asia/Tokyo',
+          now,
+        ),
+      ).toBe('2024-03-13');
+    });
+  });
+});
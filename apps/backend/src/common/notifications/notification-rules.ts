@@ -0,0 +1,465 @@
+import {
+  NotificationFrequency,
+  NotificationPreferenceEntity,
+} from '../../db/entities/notification-preference.entity';
+import {
+  ConsentStatus,
+  ConsentType,
+} from '../../db/entities/user-consent.entity';
+import {
+  NotificationAction,
+  NotificationCategory,
+  NotificationChannel,
+  NotificationDeliveryEntity,
+  NotificationDeliveryStatus,
+  NotificationReason,
+} from '../../db/entities/notification-delivery.entity';
+
+/**
+ * Preferences the dispatcher reads
+ */
+export type NotificationSettings = Pick<
+  NotificationPreferenceEntity,
+  | 'emailEnabled'
+  | 'emailProductUpdates'
+  | 'emailSecurityAlerts'
+  | 'emailMarketing'
+  | 'emailFrequency'
+  | 'inAppEnabled'
+  | 'inAppSecurityAlerts'
+  | 'inAppCivicUpdates'
+  | 'inAppDocumentUpdates'
+  | 'pushEnabled'
+  | 'pushProductUpdates'
+  | 'pushSecurityAlerts'
+  | 'pushMarketing'
+  | 'civicElectionReminders'
+  | 'civicVoterDeadlines'
+  | 'civicBallotUpdates'
+  | 'civicLocalNews'
+  | 'civicRepresentativeUpdates'
+  | 'civicFrequency'
+  | 'quietHoursEnabled'
+  | 'quietHoursStart'
+  | 'quietHoursEnd'
+  | 'unsubscribedAllAt'
+>;
+
+/**
+ * Settings of users who never saved preferences, matching the column
+ * defaults
+ */
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  emailEnabled: true,
+  emailProductUpdates: true,
+  emailSecurityAlerts: true,
+  emailMarketing: false,
+  emailFrequency: NotificationFrequency.IMMEDIATE,
+  inAppEnabled: true,
+  inAppSecurityAlerts: true,
+  inAppCivicUpdates: true,
+  inAppDocumentUpdates: true,
+  pushEnabled: true,
+  pushProductUpdates: true,
+  pushSecurityAlerts: true,
+  pushMarketing: false,
+  civicElectionReminders: true,
+  civicVoterDeadlines: true,
+  civicBallotUpdates: true,
+  civicLocalNews: true,
+  civicRepresentativeUpdates: true,
+  civicFrequency: NotificationFrequency.DAILY_DIGEST,
+  quietHoursEnabled: false,
+};
+
+/**
+ * Everything known about a recipient when deciding
+ */
+export interface NotificationRecipient {
+  settings: NotificationSettings;
+  // IANA timezone from the user's profile
+  timezone: string;
+  consents: Map<ConsentType, ConsentStatus>;
+  // Whether the user registered a browser for push
+  hasPushDevice?: boolean;
+}
+
+/**
+ * How a category is governed
+ */
+interface CategoryRule {
+  // Toggle of the category on each channel it is delivered on
+  toggles: Partial<Record<NotificationChannel, keyof NotificationSettings>>;
+  frequency: 'emailFrequency' | 'civicFrequency';
+  consent?: {
+    type: ConsentType;
+    // Opt-in consents must be granted; opt-out ones only block when
+    // denied or withdrawn
+    optIn: boolean;
+    // Consent asked for separately on some channels
+    byChannel?: Partial<Record<NotificationChannel, ConsentType>>;
+  };
+  // Sent right away regardless of frequency, quiet hours and unsubscribe-all
+  urgent?: boolean;
+}
+
+const CIVIC_CONSENT = {
+  type: ConsentType.CIVIC_NOTIFICATIONS,
+  optIn: false,
+};
+
+const CATEGORY_RULES: Record<NotificationCategory, CategoryRule> = {
+  [NotificationCategory.PRODUCT_UPDATE]: {
+    toggles: {
+      [NotificationChannel.EMAIL]: 'emailProductUpdates',
+      [NotificationChannel.PUSH]: 'pushProductUpdates',
+    },
+    frequency: 'emailFrequency',
+  },
+  [NotificationCategory.SECURITY_ALERT]: {
+    toggles: {
+      [NotificationChannel.EMAIL]: 'emailSecurityAlerts',
+      [NotificationChannel.IN_APP]: 'inAppSecurityAlerts',
+      [NotificationChannel.PUSH]: 'pushSecurityAlerts',
+    },
+    frequency: 'emailFrequency',
+    urgent: true,
+  },
+  [NotificationCategory.MARKETING]: {
+    toggles: {
+      [NotificationChannel.EMAIL]: 'emailMarketing',
+      [NotificationChannel.PUSH]: 'pushMarketing',
+    },
+    frequency: 'emailFrequency',
+    consent: {
+      type: ConsentType.MARKETING_EMAIL,
+      optIn: true,
+      byChannel: { [NotificationChannel.PUSH]: ConsentType.MARKETING_PUSH },
+    },
+  },
+  [NotificationCategory.CIVIC_BALLOT_UPDATE]: {
+    toggles: {
+      [NotificationChannel.EMAIL]: 'civicBallotUpdates',
+      [NotificationChannel.IN_APP]: 'inAppCivicUpdates',
+    },
+    frequency: 'civicFrequency',
+    consent: CIVIC_CONSENT,
+  },
+  [NotificationCategory.CIVIC_REPRESENTATIVE_UPDATE]: {
+    toggles: {
+      [NotificationChannel.EMAIL]: 'civicRepresentativeUpdates',
+      [NotificationChannel.IN_APP]: 'inAppCivicUpdates',
+    },
+    frequency: 'civicFrequency',
+    consent: CIVIC_CONSENT,
+  },
+  [NotificationCategory.CIVIC_ELECTION_REMINDER]: {
+    toggles: {
+      [NotificationChannel.EMAIL]: 'civicElectionReminders',
+      [NotificationChannel.IN_APP]: 'inAppCivicUpdates',
+    },
+    frequency: 'civicFrequency',
+    consent: CIVIC_CONSENT,
+  },
+  [NotificationCategory.CIVIC_VOTER_DEADLINE]: {
+    toggles: {
+      [NotificationChannel.EMAIL]: 'civicVoterDeadlines',
+      [NotificationChannel.IN_APP]: 'inAppCivicUpdates',
+    },
+    frequency: 'civicFrequency',
+    consent: CIVIC_CONSENT,
+  },
+  [NotificationCategory.CIVIC_LOCAL_NEWS]: {
+    toggles: {
+      [NotificationChannel.EMAIL]: 'civicLocalNews',
+      [NotificationChannel.IN_APP]: 'inAppCivicUpdates',
+    },
+    frequency: 'civicFrequency',
+    consent: CIVIC_CONSENT,
+  },
+  [NotificationCategory.DOCUMENT_PROCESSED]: {
+    toggles: { [NotificationChannel.IN_APP]: 'inAppDocumentUpdates' },
+    frequency: 'emailFrequency',
+  },
+};
+
+// Switch of each channel as a whole
+const CHANNEL_TOGGLES: Record<NotificationChannel, keyof NotificationSettings> =
+  {
+    [NotificationChannel.EMAIL]: 'emailEnabled',
+    [NotificationChannel.IN_APP]: 'inAppEnabled',
+    [NotificationChannel.PUSH]: 'pushEnabled',
+  };
+
+/**
+ * Channels a category is delivered on
+ */
+export function notificationChannels(
+  category: NotificationCategory,
+): NotificationChannel[] {
+  return Object.keys(CATEGORY_RULES[category].toggles) as NotificationChannel[];
+}
+
+/**
+ * What to do with one notification
+ */
+export interface NotificationDecision {
+  action: NotificationAction;
+  reason: NotificationReason;
+  // When a deferred notification may be sent
+  deliverAfter?: Date;
+  // Digest a batched notification goes into
+  frequency?: NotificationFrequency;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const STATUS_BY_ACTION: Record<NotificationAction, NotificationDeliveryStatus> =
+  {
+    [NotificationAction.SEND]: NotificationDeliveryStatus.SENDING,
+    [NotificationAction.DEFER]: NotificationDeliveryStatus.DEFERRED,
+    [NotificationAction.DIGEST]: NotificationDeliveryStatus.DIGEST,
+    [NotificationAction.SKIP]: NotificationDeliveryStatus.SKIPPED,
+  };
+
+/**
+ * Decide whether to send a notification on a channel now, defer it past
+ * quiet hours, batch it into a digest or skip it
+ *
+ * Checks run in order: unsubscribe-all, the channel, the category toggle,
+ * consent, a registered device (push), frequency (email), then quiet hours
+ * (email and push). In-app notifications wait silently in the notification
+ * center, so they are posted right away.
+ */
+export function decideNotification(
+  category: NotificationCategory,
+  recipient: NotificationRecipient,
+  now: Date,
+  channel: NotificationChannel = NotificationChannel.EMAIL,
+): NotificationDecision {
+  const rule = CATEGORY_RULES[category];
+  const { settings } = recipient;
+  const skip = (reason: NotificationReason) => ({
+    action: NotificationAction.SKIP,
+    reason,
+  });
+
+  if (settings.unsubscribedAllAt && !rule.urgent) {
+    return skip(NotificationReason.UNSUBSCRIBED);
+  }
+  if (!settings[CHANNEL_TOGGLES[channel]]) {
+    return skip(NotificationReason.CHANNEL_DISABLED);
+  }
+  const toggle = rule.toggles[channel];
+  if (!toggle || !settings[toggle]) {
+    return skip(NotificationReason.CATEGORY_DISABLED);
+  }
+  if (rule.consent) {
+    const status = recipient.consents.get(
+      rule.consent.byChannel?.[channel] ?? rule.consent.type,
+    );
+    const allowed = rule.consent.optIn
+      ? status === ConsentStatus.GRANTED
+      : status !== ConsentStatus.DENIED && status !== ConsentStatus.WITHDRAWN;
+    if (!allowed) {
+      return skip(NotificationReason.NO_CONSENT);
+    }
+  }
+  if (channel === NotificationChannel.PUSH && !recipient.hasPushDevice) {
+    return skip(NotificationReason.NO_DEVICE);
+  }
+  if (rule.urgent) {
+    return {
+      action: NotificationAction.SEND,
+      reason: NotificationReason.SECURITY,
+    };
+  }
+  if (channel === NotificationChannel.IN_APP) {
+    return {
+      action: NotificationAction.SEND,
+      reason: NotificationReason.IMMEDIATE,
+    };
+  }
+
+  if (channel === NotificationChannel.EMAIL) {
+    const frequency = settings[rule.frequency];
+    if (frequency === NotificationFrequency.NEVER) {
+      return skip(NotificationReason.FREQUENCY_NEVER);
+    }
+    if (frequency !== NotificationFrequency.IMMEDIATE) {
+      return {
+        action: NotificationAction.DIGEST,
+        reason: NotificationReason.DIGEST,
+        frequency,
+      };
+    }
+  }
+
+  const quietHoursEnd = endOfQuietHours(settings, recipient.timezone, now);
+  if (quietHoursEnd) {
+    return {
+      action: NotificationAction.DEFER,
+      reason: NotificationReason.QUIET_HOURS,
+      deliverAfter: quietHoursEnd,
+    };
+  }
+  return {
+    action: NotificationAction.SEND,
+    reason: NotificationReason.IMMEDIATE,
+  };
+}
+
+/**
+ * When digests are sent, on the wall clock of each user's timezone
+ */
+export interface DigestSchedule {
+  // Hour of the day (0-23)
+  hour: number;
+  // Day weekly digests are sent on (0 = Sunday)
+  weekday: number;
+}
+
+/**
+ * The latest digest period that has come due, as the local date it came
+ * due on (e.g. "2024-03-12")
+ *
+ * Daily digests come due every day at the schedule's hour, weekly ones on
+ * its weekday at that hour. A period stays the latest until the next one
+ * comes due, so a missed run is caught up by the following one.
+ */
+export function dueDigestPeriod(
+  frequency: NotificationFrequency,
+  schedule: DigestSchedule,
+  timezone: string,
+  now: Date,
+): string {
+  const local = localTime(now, timezone);
+  const beforeHour = local.hour < schedule.hour;
+  let daysBack = beforeHour ? 1 : 0;
+  if (frequency === NotificationFrequency.WEEKLY_DIGEST) {
+    daysBack = (local.weekday - schedule.weekday + 7) % 7;
+    if (daysBack === 0 && beforeHour) daysBack = 7;
+  }
+
+  return new Date(Date.UTC(local.year, local.month - 1, local.day - daysBack))
+    .toISOString()
+    .substring(0, 10);
+}
+
+/**
+ * Column values recording a decision after the earlier ones
+ */
+export function recordDecision(
+  decision: NotificationDecision,
+  now: Date,
+  previous: NotificationDeliveryEntity['decisions'],
+): Partial<NotificationDeliveryEntity> {
+  return {
+    status: STATUS_BY_ACTION[decision.action],
+    reason: decision.reason,
+    frequency: decision.frequency,
+    deliverAfter: decision.deliverAfter,
+    decisions: [
+      ...previous,
+      {
+        action: decision.action,
+        reason: decision.reason,
+        decidedAt: now.toISOString(),
+        ...(decision.deliverAfter && {
+          deliverAfter: decision.deliverAfter.toISOString(),
+        }),
+      },
+    ],
+  };
+}
+
+/**
+ * When the user's quiet hours end, if now is within them
+ *
+ * Quiet hours are wall-clock times in the user's timezone and may span
+ * midnight (e.g. 22:00 to 08:00).
+ */
+export function endOfQuietHours(
+  settings: Pick<
+    NotificationSettings,
+    'quietHoursEnabled' | 'quietHoursStart' | 'quietHoursEnd'
+  >,
+  timezone: string,
+  now: Date,
+): Date | undefined {
+  if (!settings.quietHoursEnabled) return undefined;
+  const start = toMinutes(settings.quietHoursStart);
+  const end = toMinutes(settings.quietHoursEnd);
+  if (start === undefined || end === undefined || start === end) {
+    return undefined;
+  }
+
+  const local = localTime(now, timezone);
+  const current = local.hour * 60 + local.minute;
+  const inQuietHours =
+    start < end
+      ? current >= start && current < end
+      : current >= start || current < end;
+  if (!inQuietHours) return undefined;
+
+  const remaining = (end - current + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const deliverAfter = new Date(now.getTime() + remaining * 60_000);
+  deliverAfter.setUTCSeconds(0, 0);
+  return deliverAfter;
+}
+
+/**
+ * Minutes past midnight of a time such as "22:00" or "22:00:00"
+ */
+function toMinutes(time?: string): number | undefined {
+  const match = time ? /^(\d{1,2}):(\d{2})/.exec(time) : null;
+  if (!match) return undefined;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * An instant on the wall clock of a timezone
+ */
+interface LocalTime {
+  year: number;
+  month: number;
+  day: number;
+  // 0 = Sunday
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+function localTime(date: Date, timezone: string): LocalTime {
+  const options: Intl.DateTimeFormatOptions = {
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  };
+  let format: Intl.DateTimeFormat;
+  try {
+    format = new Intl.DateTimeFormat('en-US', {
+      ...options,
+      timeZone: timezone,
+    });
+  } catch {
+    // Unknown timezones fall back to UTC
+    format = new Intl.DateTimeFormat('en-US', { ...options, timeZone: 'UTC' });
+  }
+  const parts = format.formatToParts(date);
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+
+  const [year, month, day] = [part('year'), part('month'), part('day')];
+  return {
+    year,
+    month,
+    day,
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+    hour: part('hour'),
+    minute: part('minute'),
+  };
+}
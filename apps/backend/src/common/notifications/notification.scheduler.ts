@@ -0,0 +1,98 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { NotificationDigestService } from './notification-digest.service';
+
+/**
+ * Notification Scheduler
+ *
+ * Sends deferred notifications once their quiet hours end, checking on
+ * NOTIFICATIONS_DEFERRED_SCHEDULE (every 5 minutes by default), and digests
+ * once they come due, checking on NOTIFICATIONS_DIGEST_SCHEDULE (hourly by
+ * default). Deletes expired push subscriptions on PUSH_CLEANUP_SCHEDULE
+ * (daily by default).
+ */
+@Injectable()
+export class NotificationScheduler implements OnModuleInit {
+  private readonly logger = new Logger(NotificationScheduler.name, {
+    timestamp: true,
+  });
+
+  constructor(
+    private readonly dispatcher: NotificationDispatcherService,
+    private readonly digestService: NotificationDigestService,
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {}
+
+  onModuleInit() {
+    this.schedule(
+      'notifications-deferred',
+      this.configService.get<string>('notifications.deferredSchedule') ||
+        '*/5 * * * *',
+      () => this.handleDeferred(),
+    );
+    this.schedule(
+      'notifications-digests',
+      this.configService.get<string>('notifications.digestSchedule') ||
+        '0 * * * *',
+      () => this.handleDigests(),
+    );
+    this.schedule(
+      'notifications-push-cleanup',
+      this.configService.get<string>('push.cleanupSchedule') || '30 3 * * *',
+      () => this.handlePushCleanup(),
+    );
+  }
+
+  /**
+   * Send deferred notifications that are due
+   */
+  async handleDeferred() {
+    try {
+      await this.dispatcher.deliverDeferred();
+    } catch (error) {
+      this.logger.error('Sending deferred notifications failed:', error);
+    }
+  }
+
+  /**
+   * Send digests that are due
+   */
+  async handleDigests() {
+    try {
+      await this.digestService.sendDueDigests();
+    } catch (error) {
+      this.logger.error('Sending digests failed:', error);
+    }
+  }
+
+  /**
+   * Delete expired push subscriptions
+   */
+  async handlePushCleanup() {
+    try {
+      await this.dispatcher.deleteExpiredPushSubscriptions();
+    } catch (error) {
+      this.logger.error('Deleting expired push subscriptions failed:', error);
+    }
+  }
+
+  private schedule(
+    name: string,
+    cronTime: string,
+    onTick: () => Promise<void>,
+  ) {
+    try {
+      const job = CronJob.from({ cronTime, onTick });
+      this.schedulerRegistry.addCronJob(name, job);
+      job.start();
+    } catch (error) {
+      this.logger.error(
+        `Failed to schedule ${name} with "${cronTime}": ${(error as Error).message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  DynamicModule,
+  ForwardReference,
+  Provider,
+  Type,
+} from '@nestjs/common';
+import { MODULE_METADATA } from '@nestjs/common/constants';
+
+import { AppModule as KnowledgeAppModule } from 'src/apps/knowledge/src/app.module';
+import { AppModule as RegionAppModule } from 'src/apps/region/src/app.module';
+import { AppModule as UsersAppModule } from 'src/apps/users/src/app.module';
+import { NotificationScheduler } from './notification.scheduler';
+
+type ModuleImport = Type | DynamicModule | ForwardReference;
+
+/**
+ * Every provider a module and the modules it imports register
+ */
+function registeredProviders(
+  module: ModuleImport,
+  seen = new Set<unknown>(),
+): Provider[] {
+  const resolved = 'forwardRef' in module ? module.forwardRef() : module;
+  if (!resolved || seen.has(resolved)) return [];
+  seen.add(resolved);
+
+  const type = 'module' in resolved ? resolved.module : resolved;
+  const dynamic = 'module' in resolved ? resolved : undefined;
+  const imports: ModuleImport[] = [
+    ...(Reflect.getMetadata(MODULE_METADATA.IMPORTS, type) ?? []),
+    ...(dynamic?.imports ?? []),
+  ];
+  return [
+    ...(Reflect.getMetadata(MODULE_METADATA.PROVIDERS, type) ?? []),
+    ...(dynamic?.providers ?? []),
+    ...imports.flatMap((child) => registeredProviders(child, seen)),
+  ];
+}
+
+describe('NotificationsSchedulerModule', () => {
+  // Digests need the civic digest source the region app registers, so
+  // deferred notifications and digests are only sent from there
+  it('runs the notification scheduler in the region app', () => {
+    expect(registeredProviders(RegionAppModule)).toContain(
+      NotificationScheduler,
+    );
+  });
+
+  it.each([
+    ['users', UsersAppModule],
+    ['knowledge', KnowledgeAppModule],
+  ])('does not run the notification scheduler in the %s app', (_, module) => {
+    expect(registeredProviders(module)).not.toContain(NotificationScheduler);
+  });
+});
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+
+import { NotificationsModule } from './notifications.module';
+import { NotificationScheduler } from './notification.scheduler';
+
+/**
+ * Notifications Scheduler Module
+ *
+ * Runs the NotificationScheduler, which sends deferred notifications and
+ * digests and deletes expired push subscriptions. Import it in the region
+ * app only: it registers the civic digest source, so digests claimed by
+ * any other app would be sent without their civic sections. Requires the
+ * ScheduleModule.
+ */
+@Module({
+  imports: [NotificationsModule],
+  providers: [NotificationScheduler],
+})
+export class NotificationsSchedulerModule {}
@@ -0,0 +1,53 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { EmailModule } from '@qckstrt/email-provider';
+
+import { NotificationDeliveryEntity } from '../../db/entities/notification-delivery.entity';
+import { NotificationDigestEntity } from '../../db/entities/notification-digest.entity';
+import { NotificationEntity } from '../../db/entities/notification.entity';
+import { NotificationPreferenceEntity } from '../../db/entities/notification-preference.entity';
+import { UserProfileEntity } from '../../db/entities/user-profile.entity';
+import { UserConsentEntity } from '../../db/entities/user-consent.entity';
+import { UserEntity } from '../../db/entities/user.entity';
+import { EmailCorrespondenceEntity } from '../../db/entities/email-correspondence.entity';
+import { PushSubscriptionEntity } from '../../db/entities/push-subscription.entity';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { NotificationDigestService } from './notification-digest.service';
+import { WebPushService } from './web-push.service';
+
+/**
+ * Notifications Module
+ *
+ * Provides the NotificationDispatcherService that delivers notifications
+ * by email, in the app and by Web Push according to users' preferences and
+ * consents, and the NotificationDigestService that sends daily and weekly
+ * digests. Apps importing it must register the entities below. Deferred
+ * notifications and digests are sent by the NotificationsSchedulerModule.
+ */
+@Module({
+  imports: [
+    EmailModule,
+    TypeOrmModule.forFeature([
+      NotificationDeliveryEntity,
+      NotificationDigestEntity,
+      NotificationEntity,
+      NotificationPreferenceEntity,
+      UserProfileEntity,
+      UserConsentEntity,
+      UserEntity,
+      EmailCorrespondenceEntity,
+      PushSubscriptionEntity,
+    ]),
+  ],
+  providers: [
+    NotificationDispatcherService,
+    NotificationDigestService,
+    WebPushService,
+  ],
+  exports: [
+    NotificationDispatcherService,
+    NotificationDigestService,
+    WebPushService,
+  ],
+})
+export class NotificationsModule {}
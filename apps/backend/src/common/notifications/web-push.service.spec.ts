@@ -0,0 +1,124 @@
+import { ConfigService } from '@nestjs/config';
+import { createECDH, randomBytes } from 'node:crypto';
+import { WebPushService } from './web-push.service';
+
+describe('WebPushService', () => {
+  const server = createECDH('prime256v1');
+  server.generateKeys();
+  const browser = createECDH('prime256v1');
+  browser.generateKeys();
+
+  const config: Record<string, unknown> = {
+    'push.vapidPublicKey': server.getPublicKey().toString('base64url'),
+    'push.vapidPrivateKey': server.getPrivateKey().toString('base64url'),
+    'push.vapidSubject': 'mailto:ops@example.com',
+    'push.ttl': 3600,
+  };
+
+  const target = {
+    endpoint: 'https://fcm.googleapis.com/fcm/send/abc',
+    p256dh: browser.getPublicKey().toString('base64url'),
+    auth: randomBytes(16).toString('base64url'),
+  };
+
+  const createService = (values: Record<string, unknown>) =>
+    new WebPushService({
+      get: jest.fn((key: string) => values[key]),
+    } as unknown as ConfigService);
+
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValue(new Response(null, { status: 201 }));
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should post the encrypted message with VAPID authorization', async () => {
+    const service = createService(config);
+
+    const result = await service.send(target, { title: 'Hello' }, true);
+
+    expect(result).toEqual({ success: true, statusCode: 201, expired: false });
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe(target.endpoint);
+    expect(init.method).toBe('POST');
+    expect(init.headers).toEqual({
+      Authorization: expect.stringMatching(/^vapid t=.+, k=/),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      TTL: '3600',
+      Urgency: 'high',
+    });
+    expect(init.body).toBeInstanceOf(Uint8Array);
+  });
+
+  it('should report gone subscriptions as expired', async () => {
+    fetchMock.mockResolvedValue(
+      new Response('Subscription expired', { status: 410 }),
+    );
+    const service = createService(config);
+
+    const result = await service.send(target, { title: 'Hello' });
+
+    expect(result).toEqual({
+      success: false,
+      statusCode: 410,
+      expired: true,
+      error: 'Push service responded 410: Subscription expired',
+    });
+  });
+
+  it('should report other failures without expiring', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 429 }));
+    const service = createService(config);
+
+    const result = await service.send(target, { title: 'Hello' });
+
+    expect(result).toEqual({
+      success: false,
+      statusCode: 429,
+      expired: false,
+      error: 'Push service responded 429',
+    });
+  });
+
+  it('should report network errors', async () => {
+    fetchMock.mockRejectedValue(new Error('socket hang up'));
+    const service = createService(config);
+
+    const result = await service.send(target, { title: 'Hello' });
+
+    expect(result).toEqual({
+      success: false,
+      expired: false,
+      error: 'socket hang up',
+    });
+  });
+
+  it('should be disabled without VAPID keys', async () => {
+    const service = createService({});
+
+    expect(service.enabled).toBe(false);
+    expect(service.publicKey).toBeUndefined();
+    expect(await service.send(target, { title: 'Hello' })).toEqual({
+      success: false,
+      expired: false,
+      error: 'Web Push is not configured',
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should be disabled with invalid VAPID keys', () => {
+    const service = createService({
+      ...config,
+      'push.vapidPrivateKey': randomBytes(32).toString('base64url'),
+    });
+
+    expect(service.enabled).toBe(false);
+  });
+});
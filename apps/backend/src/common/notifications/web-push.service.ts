@@ -0,0 +1,136 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  encryptPushPayload,
+  loadVapidKeys,
+  PushTarget,
+  VapidKeys,
+  vapidAuthorization,
+} from './web-push';
+
+/**
+ * What the service worker shows
+ */
+export interface PushMessage {
+  title: string;
+  body?: string;
+  url?: string;
+  // Notifications with the same tag replace each other on the device
+  tag?: string;
+}
+
+/**
+ * How a push went
+ */
+export interface PushResult {
+  success: boolean;
+  statusCode?: number;
+  // The push service no longer knows the subscription, so it should be
+  // deleted
+  expired: boolean;
+  error?: string;
+}
+
+/**
+ * Web Push Service
+ *
+ * Sends Web Push messages (RFC 8030) to browsers' push services, with
+ * payloads encrypted for the browser (RFC 8291) and the request signed
+ * with this server's VAPID key (RFC 8292). Disabled until VAPID_PUBLIC_KEY
+ * and VAPID_PRIVATE_KEY are set.
+ */
+@Injectable()
+export class WebPushService {
+  private readonly logger = new Logger(WebPushService.name, {
+    timestamp: true,
+  });
+  private readonly vapid?: VapidKeys;
+  private readonly ttl: number;
+
+  constructor(configService: ConfigService) {
+    const publicKey = configService.get<string>('push.vapidPublicKey');
+    const privateKey = configService.get<string>('push.vapidPrivateKey');
+    this.ttl = configService.get<number>('push.ttl') ?? 86400;
+
+    if (publicKey && privateKey) {
+      try {
+        this.vapid = loadVapidKeys(
+          publicKey,
+          privateKey,
+          configService.get<string>('push.vapidSubject') ||
+            'mailto:support@commonwealthlabs.io',
+        );
+      } catch (error) {
+        this.logger.error(`Web Push is disabled: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Whether push messages can be sent
+   */
+  get enabled(): boolean {
+    return this.vapid !== undefined;
+  }
+
+  /**
+   * Public key browsers subscribe with (applicationServerKey)
+   */
+  get publicKey(): string | undefined {
+    return this.vapid?.publicKey;
+  }
+
+  /**
+   * Push a message to one browser
+   *
+   * @param urgent - Ask the push service to deliver right away, even to
+   *   devices saving battery
+   */
+  async send(
+    target: PushTarget,
+    message: PushMessage,
+    urgent: boolean = false,
+  ): Promise<PushResult> {
+    if (!this.vapid) {
+      return {
+        success: false,
+        expired: false,
+        error: 'Web Push is not configured',
+      };
+    }
+
+    try {
+      const response = await fetch(target.endpoint, {
+        method: 'POST',
+        headers: {
+          Authorization: vapidAuthorization(target.endpoint, this.vapid),
+          'Content-Encoding': 'aes128gcm',
+          'Content-Type': 'application/octet-stream',
+          TTL: String(this.ttl),
+          Urgency: urgent ? 'high' : 'normal',
+        },
+        body: new Uint8Array(
+          encryptPushPayload(Buffer.from(JSON.stringify(message)), target),
+        ),
+      });
+
+      if (response.ok) {
+        return { success: true, statusCode: response.status, expired: false };
+      }
+      const detail = await response.text().catch(() => '');
+      return {
+        success: false,
+        statusCode: response.status,
+        // 404 and 410 mean the subscription is gone for good
+        expired: response.status === 404 || response.status === 410,
+        error: `Push service responded ${response.status}${detail ? `: ${detail.substring(0, 200)}` : ''}`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        expired: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+}
@@ -0,0 +1,201 @@
+import {
+  createDecipheriv,
+  createECDH,
+  createPublicKey,
+  hkdfSync,
+  randomBytes,
+  verify,
+} from 'node:crypto';
+import {
+  encryptPushPayload,
+  loadVapidKeys,
+  MAX_PUSH_PAYLOAD,
+  vapidAuthorization,
+} from './web-push';
+
+describe('web-push', () => {
+  const newKeyPair = () => {
+    const ecdh = createECDH('prime256v1');
+    ecdh.generateKeys();
+    return ecdh;
+  };
+
+  describe('encryptPushPayload', () => {
+    const browser = newKeyPair();
+    const authSecret = randomBytes(16);
+    const target = {
+      p256dh: browser.getPublicKey().toString('base64url'),
+      auth: authSecret.toString('base64url'),
+    };
+
+    // Decrypt the way a browser does (RFC 8291)
+    const decrypt = (body: Buffer) => {
+      const salt = body.subarray(0, 16);
+      const recordSize = body.readUInt32BE(16);
+      const keyLength = body.readUInt8(20);
+      const serverPublic = body.subarray(21, 21 + keyLength);
+      const record = body.subarray(21 + keyLength);
+
+      const ikm = Buffer.from(
+        hkdfSync(
+          'sha256',
+          browser.computeSecret(serverPublic),
+          authSecret,
+          Buffer.concat([
+            Buffer.from('WebPush: info\0'),
+            browser.getPublicKey(),
+            serverPublic,
+          ]),
+          32,
+        ),
+      );
+      const cek = Buffer.from(
+        hkdfSync(
+          'sha256',
+          ikm,
+          salt,
+          Buffer.from('Content-Encoding: aes128gcm\0'),
+          16,
+        ),
+      );
+      const nonce = Buffer.from(
+        hkdfSync(
+          'sha256',
+          ikm,
+          salt,
+          Buffer.from('Content-Encoding: nonce\0'),
+          12,
+        ),
+      );
+
+      const decipher = createDecipheriv('aes-128-gcm', cek, nonce);
+      decipher.setAuthTag(record.subarray(record.length - 16));
+      const plaintext = Buffer.concat([
+        decipher.update(record.subarray(0, record.length - 16)),
+        decipher.final(),
+      ]);
+      return { recordSize, keyLength, plaintext };
+    };
+
+    it('should encrypt the payload for the browser as one aes128gcm record', () => {
+      const payload = Buffer.from(JSON.stringify({ title: 'Hello' }));
+
+      const { recordSize, keyLength, plaintext } = decrypt(
+        encryptPushPayload(payload, target),
+      );
+
+      expect(recordSize).toBe(4096);
+      expect(keyLength).toBe(65);
+      // The last record ends with the 0x02 delimiter
+      expect(plaintext).toEqual(Buffer.concat([payload, Buffer.from([0x02])]));
+    });
+
+    it('should use a fresh key and salt for every message', () => {
+      const payload = Buffer.from('same');
+
+      const first = encryptPushPayload(payload, target);
+      const second = encryptPushPayload(payload, target);
+
+      expect(first.subarray(0, 16)).not.toEqual(second.subarray(0, 16));
+      expect(first.subarray(21, 86)).not.toEqual(second.subarray(21, 86));
+    });
+
+    it('should fit the largest payload in 4096 bytes', () => {
+      const body = encryptPushPayload(
+        Buffer.alloc(MAX_PUSH_PAYLOAD, 'a'),
+        target,
+      );
+
+      expect(body.length).toBe(4096);
+    });
+
+    it('should reject payloads that are too large', () => {
+      expect(() =>
+        encryptPushPayload(Buffer.alloc(MAX_PUSH_PAYLOAD + 1), target),
+      ).toThrow('Push payload is');
+    });
+
+    it('should reject invalid browser keys', () => {
+      expect(() =>
+        encryptPushPayload(Buffer.from('x'), { ...target, p256dh: 'abc' }),
+      ).toThrow('Invalid p256dh key');
+      expect(() =>
+        encryptPushPayload(Buffer.from('x'), { ...target, auth: 'abc' }),
+      ).toThrow('Invalid auth secret');
+    });
+  });
+
+  describe('VAPID', () => {
+    const server = newKeyPair();
+    const publicKey = server.getPublicKey().toString('base64url');
+    const privateKey = server.getPrivateKey().toString('base64url');
+
+    it('should sign a JWT for the endpoint origin', () => {
+      const vapid = loadVapidKeys(
+        publicKey,
+        privateKey,
+        'mailto:ops@example.com',
+      );
+      const now = new Date('2026-01-01T00:00:00Z');
+
+      const header = vapidAuthorization(
+        'https://fcm.googleapis.com/fcm/send/abc',
+        vapid,
+        now,
+      );
+
+      const match = /^vapid t=([^,]+), k=(.+)$/.exec(header);
+      expect(match).not.toBeNull();
+      const [token, key] = [match![1], match![2]];
+      expect(key).toBe(publicKey);
+
+      const [encodedHeader, encodedClaims, signature] = token.split('.');
+      expect(
+        JSON.parse(Buffer.from(encodedHeader, 'base64url').toString()),
+      ).toEqual({ typ: 'JWT', alg: 'ES256' });
+      expect(
+        JSON.parse(Buffer.from(encodedClaims, 'base64url').toString()),
+      ).toEqual({
+        aud: 'https://fcm.googleapis.com',
+        exp: now.getTime() / 1000 + 12 * 60 * 60,
+        sub: 'mailto:ops@example.com',
+      });
+
+      const point = Buffer.from(key, 'base64url');
+      const verifier = createPublicKey({
+        key: {
+          kty: 'EC',
+          crv: 'P-256',
+          x: point.subarray(1, 33).toString('base64url'),
+          y: point.subarray(33).toString('base64url'),
+        },
+        format: 'jwk',
+      });
+      expect(
+        verify(
+          'sha256',
+          Buffer.from(`${encodedHeader}.${encodedClaims}`),
+          { key: verifier, dsaEncoding: 'ieee-p1363' },
+          Buffer.from(signature, 'base64url'),
+        ),
+      ).toBe(true);
+    });
+
+    it('should reject keys that are not a pair', () => {
+      const other = newKeyPair().getPublicKey().toString('base64url');
+
+      expect(() => loadVapidKeys(other, privateKey, 'mailto:x')).toThrow(
+        'VAPID public key does not match the private key',
+      );
+    });
+
+    it('should reject malformed keys', () => {
+      expect(() => loadVapidKeys('abc', privateKey, 'mailto:x')).toThrow(
+        'VAPID public key must be an uncompressed P-256 point',
+      );
+      expect(() => loadVapidKeys(publicKey, 'abc', 'mailto:x')).toThrow(
+        'VAPID private key must be a 32-byte P-256 key',
+      );
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import {
+  createCipheriv,
+  createECDH,
+  createPrivateKey,
+  hkdfSync,
+  KeyObject,
+  randomBytes,
+  sign,
+} from 'node:crypto';
+
+/**
+ * Where and how to push to one browser
+ */
+export interface PushTarget {
+  endpoint: string;
+  // Browser's P-256 public key, base64url encoded
+  p256dh: string;
+  // Browser's authentication secret, base64url encoded
+  auth: string;
+}
+
+/**
+ * This server's VAPID identity
+ */
+export interface VapidKeys {
+  // Uncompressed P-256 point, base64url encoded
+  publicKey: string;
+  privateKey: KeyObject;
+  // Contact for push service operators (mailto: or https:)
+  subject: string;
+}
+
+// Record size of the single record a payload is sent in (RFC 8188)
+const RECORD_SIZE = 4096;
+
+/**
+ * Largest payload sent
+ *
+ * Push services accept bodies of at least 4096 bytes (RFC 8030). The
+ * header (salt, record size and server key: 86 bytes), padding delimiter
+ * and GCM tag (17 bytes) take up the rest.
+ */
+export const MAX_PUSH_PAYLOAD = 4096 - 86 - 17;
+
+// How long a VAPID token is valid; push services accept up to 24 hours
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+/**
+ * Encrypt a push message for a browser (RFC 8291)
+ *
+ * The payload is encrypted with a key agreed between a fresh server key
+ * pair and the browser's key, mixed with the browser's auth secret, and
+ * sent as a single aes128gcm record (RFC 8188) whose header carries the
+ * salt and the server's public key.
+ *
+ * @throws Error if the payload is too large or the browser keys are invalid
+ */
+export function encryptPushPayload(
+  payload: Buffer,
+  target: Pick<PushTarget, 'p256dh' | 'auth'>,
+): Buffer {
+  if (payload.length > MAX_PUSH_PAYLOAD) {
+    throw new Error(
+      `Push payload is ${payload.length} bytes, more than ${MAX_PUSH_PAYLOAD}`,
+    );
+  }
+  const uaPublic = Buffer.from(target.p256dh, 'base64url');
+  const authSecret = Buffer.from(target.auth, 'base64url');
+  if (uaPublic.length !== 65 || uaPublic[0] !== 0x04) {
+    throw new Error('Invalid p256dh key');
+  }
+  if (authSecret.length !== 16) {
+    throw new Error('Invalid auth secret');
+  }
+
+  const sender = createECDH('prime256v1');
+  const asPublic = sender.generateKeys();
+  const ecdhSecret = sender.computeSecret(uaPublic);
+
+  // Combine the shared secret with the auth secret
+  const ikm = Buffer.from(
+    hkdfSync(
+      'sha256',
+      ecdhSecret,
+      authSecret,
+      Buffer.concat([Buffer.from('WebPush: info\0'), uaPublic, asPublic]),
+      32,
+    ),
+  );
+
+  const salt = randomBytes(16);
+  const cek = Buffer.from(
+    hkdfSync(
+      'sha256',
+      ikm,
+      salt,
+      Buffer.from('Content-Encoding: aes128gcm\0'),
+      16,
+    ),
+  );
+  const nonce = Buffer.from(
+    hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12),
+  );
+
+  const cipher = createCipheriv('aes-128-gcm', cek, nonce);
+  // 0x02 marks the last (and only) record, without padding
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([payload, Buffer.from([0x02])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(16 + 4 + 1);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(asPublic.length, 20);
+  return Buffer.concat([header, asPublic, ciphertext]);
+}
+
+/**
+ * Load VAPID keys from their base64url form
+ *
+ * @throws Error if the keys are not a P-256 key pair
+ */
+export function loadVapidKeys(
+  publicKey: string,
+  privateKey: string,
+  subject: string,
+): VapidKeys {
+  const point = Buffer.from(publicKey, 'base64url');
+  const scalar = Buffer.from(privateKey, 'base64url');
+  if (point.length !== 65 || point[0] !== 0x04) {
+    throw new Error('VAPID public key must be an uncompressed P-256 point');
+  }
+  if (scalar.length !== 32) {
+    throw new Error('VAPID private key must be a 32-byte P-256 key');
+  }
+
+  const key = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: point.subarray(1, 33).toString('base64url'),
+      y: point.subarray(33).toString('base64url'),
+      d: scalar.toString('base64url'),
+    },
+    format: 'jwk',
+  });
+  // Creating the key doesn't check the halves belong together
+  const derived = createECDH('prime256v1');
+  derived.setPrivateKey(scalar);
+  if (!derived.getPublicKey().equals(point)) {
+    throw new Error('VAPID public key does not match the private key');
+  }
+
+  return { publicKey, privateKey: key, subject };
+}
+
+/**
+ * Authorization header identifying this server to a push service
+ * (RFC 8292)
+ *
+ * The header carries a JWT signed with the VAPID private key for the
+ * endpoint's origin, and the VAPID public key to check it with.
+ */
+export function vapidAuthorization(
+  endpoint: string,
+  vapid: VapidKeys,
+  now: Date = new Date(),
+): string {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  const unsigned = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_TTL_SECONDS,
+    sub: vapid.subject,
+  })}`;
+  const signature = sign('sha256', Buffer.from(unsigned), {
+    key: vapid.privateKey,
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `vapid t=${unsigned}.${signature.toString('base64url')}, k=${vapid.publicKey}`;
+}
@@ -0,0 +1,82 @@
+import { ExecutionResult } from 'graphql';
+
+/**
+ * Subscription event sent from a subgraph to the gateway
+ *
+ * Results are streamed as server-sent events, one `next` event per result
+ * and a `complete` event when the subscription ends.
+ */
+export type SubscriptionEvent =
+  | { event: 'next'; data: ExecutionResult }
+  | { event: 'complete' };
+
+/**
+ * Comment line that keeps an idle stream open through proxies and timeouts
+ */
+export const KEEP_ALIVE_EVENT = ': keep-alive\n\n';
+
+/**
+ * Format an event for the wire
+ */
+export function formatEvent(event: SubscriptionEvent): string {
+  if (event.event === 'complete') {
+    return 'event: complete\ndata:\n\n';
+  }
+  return `event: next\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+/**
+ * Read events from a server-sent event stream
+ *
+ * Comments and events other than `next` and `complete` are skipped.
+ */
+export async function* readEvents(
+  chunks: AsyncIterable<Uint8Array>,
+): AsyncGenerator<SubscriptionEvent> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of chunks) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let end = buffer.indexOf('\n\n');
+    while (end !== -1) {
+      const event = parseEvent(buffer.slice(0, end));
+      buffer = buffer.slice(end + 2);
+      if (event) {
+        yield event;
+      }
+      end = buffer.indexOf('\n\n');
+    }
+  }
+}
+
+function parseEvent(block: string): SubscriptionEvent | undefined {
+  let name = '';
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith(':')) {
+      continue;
+    }
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'event') {
+      name = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+  }
+
+  if (name === 'next') {
+    return {
+      event: 'next',
+      data: JSON.parse(data.join('\n')) as ExecutionResult,
+    };
+  }
+  if (name === 'complete') {
+    return { event: 'complete' };
+  }
+  return undefined;
+}
@@ -0,0 +1,8 @@
+export { SubscriptionsModule } from './subscriptions.module';
+export { SubscriptionsController } from './subscriptions.controller';
+export {
+  SubscriptionEvent,
+  KEEP_ALIVE_EVENT,
+  formatEvent,
+  readEvents,
+} from './event-stream';
@@ -0,0 +1,214 @@
+import { BadRequestException } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { Request, Response } from 'express';
+import {
+  GraphQLBoolean,
+  GraphQLError,
+  GraphQLInt,
+  GraphQLObjectType,
+  GraphQLSchema,
+} from 'graphql';
+import { readEvents, SubscriptionEvent } from './event-stream';
+import { SubscriptionsController } from './subscriptions.controller';
+
+describe('SubscriptionsController', () => {
+  const contexts: unknown[] = [];
+  const schema = new GraphQLSchema({
+    query: new GraphQLObjectType({
+      name: 'Query',
+      fields: { ok: { type: GraphQLBoolean } },
+    }),
+    subscription: new GraphQLObjectType({
+      name: 'Subscription',
+      fields: {
+        counted: {
+          type: GraphQLInt,
+          args: { to: { type: GraphQLInt } },
+          subscribe: async function* (
+            _: unknown,
+            { to }: { to: number },
+            context: unknown,
+          ) {
+            contexts.push(context);
+            for (let n = 1; n <= to; n++) {
+              yield n;
+            }
+          },
+          resolve: (n: number) => n,
+        },
+        denied: {
+          type: GraphQLInt,
+          subscribe: () => {
+            throw new GraphQLError('Forbidden resource');
+          },
+        },
+        // Waits for results until it is returned
+        forever: {
+          type: GraphQLInt,
+          subscribe: () => {
+            let finish: () => void = () => undefined;
+            const ended = new Promise<IteratorResult<number>>((resolve) => {
+              finish = () => resolve({ done: true, value: undefined });
+            });
+            return {
+              [Symbol.asyncIterator]() {
+                return this;
+              },
+              next: () => ended,
+              return: returned.mockImplementation(async () => {
+                finish();
+                return { done: true, value: undefined };
+              }),
+            };
+          },
+        },
+      },
+    }),
+  });
+  const returned = jest.fn();
+
+  let controller: SubscriptionsController;
+  let written: string;
+  let closeHandler: (() => void) | undefined;
+  let res: Response;
+
+  const request = (body: unknown, user?: string) =>
+    ({ body, headers: user ? { user } : {} }) as unknown as Request;
+
+  const events = async (): Promise<SubscriptionEvent[]> => {
+    const stream = (async function* () {
+      yield new TextEncoder().encode(written);
+    })();
+    const result: SubscriptionEvent[] = [];
+    for await (const event of readEvents(stream)) {
+      result.push(event);
+    }
+    return result;
+  };
+
+  beforeEach(() => {
+    contexts.length = 0;
+    written = '';
+    closeHandler = undefined;
+    res = {
+      writableEnded: false,
+      status: jest.fn().mockReturnThis(),
+      setHeader: jest.fn(),
+      flushHeaders: jest.fn(),
+      write: jest.fn((chunk: string) => {
+        written += chunk;
+        return true;
+      }),
+      end: jest.fn(function (this: { writableEnded: boolean }, chunk = '') {
+        written += chunk;
+        this.writableEnded = true;
+      }),
+      on: jest.fn((event: string, handler: () => void) => {
+        if (event === 'close') {
+          closeHandler = handler;
+        }
+      }),
+    } as unknown as Response;
+
+    const moduleRef = {
+      get: jest.fn().mockReturnValue({ schema }),
+    } as unknown as ModuleRef;
+    controller = new SubscriptionsController(moduleRef);
+  });
+
+  it('streams results as server-sent events until the subscription ends', async () => {
+    await controller.subscribe(
+      request({
+        query: 'subscription($to: Int) { counted(to: $to) }',
+        variables: { to: 2 },
+      }),
+      res,
+    );
+
+    expect(res.setHeader).toHaveBeenCalledWith(
+      'Content-Type',
+      'text/event-stream',
+    );
+    expect(await events()).toEqual([
+      { event: 'next', data: { data: { counted: 1 } } },
+      { event: 'next', data: { data: { counted: 2 } } },
+      { event: 'complete' },
+    ]);
+    expect(res.end).toHaveBeenCalled();
+  });
+
+  it('runs the subscription as the user the gateway forwarded', async () => {
+    const user = { id: 'user-1', email: 'a@example.com', roles: ['Admin'] };
+
+    await controller.subscribe(
+      request(
+        { query: 'subscription { counted(to: 1) }' },
+        JSON.stringify(user),
+      ),
+      res,
+    );
+
+    expect(contexts).toEqual([{ req: { user, headers: {} } }]);
+  });
+
+  it('sends errors from starting the subscription, then completes', async () => {
+    await controller.subscribe(
+      request({ query: 'subscription { denied }' }),
+      res,
+    );
+
+    const [first, second] = await events();
+    expect(first).toMatchObject({
+      event: 'next',
+      data: { errors: [{ message: 'Forbidden resource' }] },
+    });
+    expect(second).toEqual({ event: 'complete' });
+  });
+
+  it('sends validation errors for operations the schema does not have', async () => {
+    await controller.subscribe(
+      request({ query: 'subscription { missing }' }),
+      res,
+    );
+
+    const [first] = await events();
+    expect(first).toMatchObject({
+      event: 'next',
+      data: {
+        errors: [
+          { message: 'Cannot query field "missing" on type "Subscription".' },
+        ],
+      },
+    });
+  });
+
+  it('ends the subscription when the gateway disconnects', async () => {
+    const pending = controller.subscribe(
+      request({ query: 'subscription { forever }' }),
+      res,
+    );
+    await new Promise((resolve) => setImmediate(resolve));
+
+    closeHandler?.();
+    await pending;
+
+    expect(returned).toHaveBeenCalled();
+    expect(await events()).toEqual([{ event: 'complete' }]);
+  });
+
+  it('rejects requests without a query', async () => {
+    await expect(controller.subscribe(request({}), res)).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(res.flushHeaders).not.toHaveBeenCalled();
+  });
+
+  it('rejects a malformed user header', async () => {
+    await expect(
+      controller.subscribe(
+        request({ query: 'subscription { counted(to: 1) }' }, '{'),
+        res,
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
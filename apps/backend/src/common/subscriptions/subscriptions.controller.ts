@@ -0,0 +1,155 @@
+import {
+  BadRequestException,
+  Controller,
+  Logger,
+  Post,
+  Req,
+  Res,
+} from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { GraphQLSchemaHost } from '@nestjs/graphql';
+import { Request, Response } from 'express';
+import {
+  ExecutionResult,
+  GraphQLError,
+  parse,
+  subscribe,
+  validate,
+} from 'graphql';
+import { ILogin } from 'src/interfaces/login.interface';
+import { formatEvent, KEEP_ALIVE_EVENT } from './event-stream';
+
+// Well inside the idle timeouts of the gateway's HTTP client and proxies
+const KEEP_ALIVE_INTERVAL = 15000;
+
+/**
+ * Subscription operation forwarded by the gateway
+ */
+interface SubscriptionRequest {
+  query?: unknown;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+}
+
+/**
+ * Subscriptions Controller
+ *
+ * Runs GraphQL subscriptions for the API gateway, which accepts the
+ * clients' WebSocket connections and forwards each subscription to the
+ * subgraph that owns its field. Results stream back as server-sent events
+ * until the subscription ends or the gateway disconnects.
+ *
+ * SECURITY: The route must sit behind HMACMiddleware. The signature proves
+ * the request came from the gateway, which sends the user it authenticated
+ * on connect in the `user` header.
+ * @see https://github.com/CommonwealthLabsCode/qckstrt/issues/185
+ *
+ * Endpoints:
+ * - POST /subscriptions - Run a subscription and stream its results
+ */
+@Controller('subscriptions')
+export class SubscriptionsController {
+  private readonly logger = new Logger(SubscriptionsController.name, {
+    timestamp: true,
+  });
+
+  constructor(private readonly moduleRef: ModuleRef) {}
+
+  @Post()
+  async subscribe(@Req() req: Request, @Res() res: Response): Promise<void> {
+    const { query, variables, operationName } = (req.body ??
+      {}) as SubscriptionRequest;
+    if (typeof query !== 'string') {
+      throw new BadRequestException('A subscription query is required');
+    }
+    const user = this.parseUser(req.headers.user);
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.flushHeaders();
+
+    const result = await this.execute(query, variables, operationName, user);
+    if (!(Symbol.asyncIterator in result)) {
+      res.write(formatEvent({ event: 'next', data: result }));
+      res.end(formatEvent({ event: 'complete' }));
+      return;
+    }
+
+    // The gateway closes the stream when the client unsubscribes
+    res.on('close', () => {
+      void result.return(undefined);
+    });
+    const keepAlive = setInterval(
+      () => res.write(KEEP_ALIVE_EVENT),
+      KEEP_ALIVE_INTERVAL,
+    );
+
+    try {
+      for await (const data of result) {
+        res.write(formatEvent({ event: 'next', data }));
+      }
+    } catch (error) {
+      this.logger.error(`Subscription failed: ${(error as Error).message}`);
+      res.write(
+        formatEvent({
+          event: 'next',
+          data: { errors: [new GraphQLError('Subscription failed')] },
+        }),
+      );
+    } finally {
+      clearInterval(keepAlive);
+      if (!res.writableEnded) {
+        res.end(formatEvent({ event: 'complete' }));
+      }
+    }
+  }
+
+  private async execute(
+    query: string,
+    variables: Record<string, unknown> | undefined,
+    operationName: string | undefined,
+    user: ILogin | undefined,
+  ): Promise<AsyncGenerator<ExecutionResult, void, void> | ExecutionResult> {
+    const { schema } = this.moduleRef.get(GraphQLSchemaHost, {
+      strict: false,
+    });
+
+    try {
+      const document = parse(query);
+      const errors = validate(schema, document);
+      if (errors.length > 0) {
+        return { errors };
+      }
+
+      // Same context shape as HTTP operations, so guards read req.user
+      return await subscribe({
+        schema,
+        document,
+        variableValues: variables,
+        operationName,
+        contextValue: { req: { user, headers: {} } },
+      });
+    } catch (error) {
+      return {
+        errors: [
+          error instanceof GraphQLError
+            ? error
+            : new GraphQLError((error as Error).message),
+        ],
+      };
+    }
+  }
+
+  private parseUser(header: string | string[] | undefined): ILogin | undefined {
+    const value = Array.isArray(header) ? header[0] : header;
+    if (!value) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(value) as ILogin;
+    } catch {
+      throw new BadRequestException('Invalid user header');
+    }
+  }
+}
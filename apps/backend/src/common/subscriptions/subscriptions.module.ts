@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { SubscriptionsController } from './subscriptions.controller';
+
+/**
+ * Subscriptions Module
+ *
+ * Serves a subgraph's GraphQL subscriptions to the API gateway, which
+ * owns the clients' WebSocket connections. Import it in subgraphs that
+ * define subscriptions and put the `subscriptions` route behind
+ * HMACMiddleware.
+ */
+@Module({
+  controllers: [SubscriptionsController],
+})
+export class SubscriptionsModule {}
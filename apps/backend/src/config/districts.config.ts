@@ -0,0 +1,15 @@
+import { registerAs } from '@nestjs/config';
+
+/**
+ * Districts Configuration
+ *
+ * Controls offline district assignment from GeoJSON boundary files.
+ */
+export default registerAs('districts', () => ({
+  // Directory of boundary files shipped with the region (unset disables
+  // district assignment). See docs/guides/district-boundaries.md
+  boundariesDir: process.env.DISTRICT_BOUNDARIES_DIR,
+
+  // Load boundary files into the database on startup
+  loadOnStartup: process.env.DISTRICT_BOUNDARIES_LOAD_ON_STARTUP !== 'false',
+}));
@@ -0,0 +1,21 @@
+import { registerAs } from '@nestjs/config';
+
+/**
+ * Geocoding Configuration
+ *
+ * Selects the provider used to geocode user addresses on write.
+ * Geocoding is disabled unless GEOCODING_PROVIDER is set.
+ */
+export default registerAs('geocoding', () => ({
+  // nominatim | pelias | file | none
+  provider: process.env.GEOCODING_PROVIDER || 'none',
+
+  // Nominatim or Pelias server
+  url: process.env.GEOCODING_URL,
+  apiKey: process.env.GEOCODING_API_KEY,
+  userAgent: process.env.GEOCODING_USER_AGENT || 'qckstrt-geocoder',
+  timeoutMs: Number.parseInt(process.env.GEOCODING_TIMEOUT_MS || '10000', 10),
+
+  // Fixture file for the file provider
+  filePath: process.env.GEOCODING_FILE_PATH,
+}));
@@ -0,0 +1,28 @@
+import { registerAs } from '@nestjs/config';
+
+/**
+ * Notifications Configuration
+ *
+ * Controls when the notification dispatcher runs its scheduled work.
+ */
+export default registerAs('notifications', () => ({
+  // How often deferred notifications are checked for delivery (cron expression)
+  // Default: Every 5 minutes
+  deferredSchedule:
+    process.env.NOTIFICATIONS_DEFERRED_SCHEDULE || '*/5 * * * *',
+
+  // How often due digests are looked for (cron expression)
+  // Default: Every hour, so each user's digest goes out at digestHour
+  // in their timezone
+  digestSchedule: process.env.NOTIFICATIONS_DIGEST_SCHEDULE || '0 * * * *',
+
+  // Local hour (0-23) digests are sent at
+  digestHour: Number.parseInt(process.env.NOTIFICATIONS_DIGEST_HOUR || '7', 10),
+
+  // Day weekly digests are sent on (0 = Sunday)
+  // Default: Monday
+  weeklyDigestDay: Number.parseInt(
+    process.env.NOTIFICATIONS_WEEKLY_DIGEST_DAY || '1',
+    10,
+  ),
+}));
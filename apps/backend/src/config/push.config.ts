@@ -0,0 +1,44 @@
+import { registerAs } from '@nestjs/config';
+
+/**
+ * Web Push Configuration
+ *
+ * VAPID keys identify this server to browser push services (RFC 8292).
+ * Web Push is off until both keys are set. Generate a key pair with
+ * `npx web-push generate-vapid-keys` or any P-256 key generator; the
+ * public key is the uncompressed point and the private key the raw
+ * scalar, both base64url encoded.
+ */
+export default registerAs('push', () => ({
+  vapidPublicKey: process.env.VAPID_PUBLIC_KEY || '',
+  vapidPrivateKey: process.env.VAPID_PRIVATE_KEY || '',
+
+  // Contact push services can reach the operator at (mailto: or https:)
+  vapidSubject:
+    process.env.VAPID_SUBJECT || 'mailto:support@commonwealthlabs.io',
+
+  // SECURITY: Hosts (and their subdomains) push endpoints may be on, so
+  // browsers can only make this server post to real push services
+  allowedHosts: (
+    process.env.PUSH_ALLOWED_HOSTS ||
+    'fcm.googleapis.com,push.services.mozilla.com,notify.windows.com,push.apple.com'
+  )
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean),
+
+  // Seconds push services keep a notification for an offline device
+  // Default: 1 day
+  ttl: Number.parseInt(process.env.PUSH_TTL || '86400', 10),
+
+  // Days a device may go without re-registering before its subscription
+  // is treated as expired
+  subscriptionMaxAgeDays: Number.parseInt(
+    process.env.PUSH_SUBSCRIPTION_MAX_AGE_DAYS || '90',
+    10,
+  ),
+
+  // How often expired push subscriptions are deleted (cron expression)
+  // Default: Daily at 3:30 AM
+  cleanupSchedule: process.env.PUSH_CLEANUP_SCHEDULE || '30 3 * * *',
+}));
@@ -9,13 +9,48 @@ export default registerAs('region', () => ({
   // Region provider selection (example, california, etc.)
   provider: process.env.REGION_PROVIDER || 'example',
 
+  // Multiple region providers served from one deployment (comma-separated)
+  // The first is the default region; unset falls back to provider
+  providers: (process.env.REGION_PROVIDERS || '')
+    .split(',')
+    .map((p) => p.trim())
+    .filter(Boolean),
+
   // Sync schedule (cron expression)
   // Default: Every day at 2 AM
   syncSchedule: process.env.REGION_SYNC_SCHEDULE || '0 2 * * *',
 
+  // Per-data-type sync schedules (cron expressions, keyed by CivicDataType)
+  // Unset entries fall back to syncSchedule
+  syncSchedules: {
+    propositions: process.env.REGION_SYNC_SCHEDULE_PROPOSITIONS,
+    meetings: process.env.REGION_SYNC_SCHEDULE_MEETINGS,
+    representatives: process.env.REGION_SYNC_SCHEDULE_REPRESENTATIVES,
+    elections: process.env.REGION_SYNC_SCHEDULE_ELECTIONS,
+    bills: process.env.REGION_SYNC_SCHEDULE_BILLS,
+    votes: process.env.REGION_SYNC_SCHEDULE_VOTES,
+    races: process.env.REGION_SYNC_SCHEDULE_RACES,
+  },
+
+  // Largest share (0-1) of a region's records a single sync may retire.
+  // Above it, nothing is retired and the sync reports an error, so a broken
+  // provider returning partial data can't wipe the table
+  removalThreshold: Number.parseFloat(
+    process.env.REGION_SYNC_REMOVAL_THRESHOLD || '0.5',
+  ),
+
   // Enable/disable automatic sync
   syncEnabled: process.env.REGION_SYNC_ENABLED !== 'false',
 
+  // Fetch, split and embed meeting agendas and minutes after meeting syncs
+  ingestMeetingDocuments:
+    process.env.REGION_INGEST_MEETING_DOCUMENTS !== 'false',
+
   // Port for the region service
   port: Number.parseInt(process.env.REGION_PORT || '3004', 10),
+
+  // Public URL the region service's calendar feeds are served from
+  calendarBaseUrl:
+    process.env.REGION_CALENDAR_BASE_URL ||
+    `http://localhost:${process.env.REGION_PORT || '3004'}`,
 }));
@@ -0,0 +1,92 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  DeleteDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Bill sponsor stored as JSON
+ */
+export interface BillSponsorJSON {
+  name: string;
+  representativeExternalId?: string;
+  primary: boolean;
+}
+
+/**
+ * Step of a bill's history stored as JSON (dates in ISO 8601)
+ */
+export interface BillActionJSON {
+  date: string;
+  description: string;
+  chamber?: string;
+  status?: string;
+}
+
+/**
+ * Bill Entity
+ *
+ * Stores legislative bills in the region with their sponsors and status
+ * timeline.
+ */
+@Entity('bills')
+@Index(['regionId', 'externalId'], { unique: true })
+export class BillEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  // RegionInfo.id of the provider this record was synced from
+  @Column({ type: 'varchar', length: 100 })
+  @Index()
+  regionId!: string;
+
+  @Column()
+  @Index()
+  externalId!: string;
+
+  @Column()
+  @Index()
+  number!: string;
+
+  @Column()
+  title!: string;
+
+  @Column('text', { nullable: true })
+  summary?: string;
+
+  @Column({ nullable: true })
+  chamber?: string;
+
+  @Column({ nullable: true })
+  session?: string;
+
+  @Column({ type: 'varchar', default: 'introduced' })
+  @Index()
+  status!: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  introducedAt?: Date;
+
+  @Column('jsonb', { default: [] })
+  sponsors!: BillSponsorJSON[];
+
+  // Oldest first
+  @Column('jsonb', { default: [] })
+  actions!: BillActionJSON[];
+
+  @Column({ nullable: true })
+  sourceUrl?: string;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  @DeleteDateColumn()
+  deletedAt?: Date;
+}
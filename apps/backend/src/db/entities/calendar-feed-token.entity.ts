@@ -0,0 +1,36 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  OneToOne,
+  JoinColumn,
+} from 'typeorm';
+import { UserEntity } from './user.entity';
+
+/**
+ * Calendar Feed Token Entity
+ *
+ * Grants access to a user's personal calendar feed. Calendar clients can't
+ * send credentials, so the feed URL carries a random token instead. Only
+ * its SHA-256 hash is stored; creating a new token revokes the old one.
+ */
+@Entity('calendar_feed_tokens')
+export class CalendarFeedTokenEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid', unique: true })
+  userId!: string;
+
+  @OneToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user?: UserEntity;
+
+  // Hex SHA-256 of the token
+  @Column({ type: 'varchar', length: 64, unique: true })
+  tokenHash!: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt!: Date;
+}
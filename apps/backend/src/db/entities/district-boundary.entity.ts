@@ -0,0 +1,77 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Kinds of district boundaries an address can fall within
+ */
+export enum DistrictType {
+  CONGRESSIONAL = 'congressional',
+  STATE_SENATE = 'state_senate',
+  STATE_ASSEMBLY = 'state_assembly',
+  COUNTY = 'county',
+  MUNICIPALITY = 'municipality',
+  SCHOOL_DISTRICT = 'school_district',
+  PRECINCT = 'precinct',
+}
+
+/**
+ * GeoJSON polygon geometry ([longitude, latitude] positions)
+ */
+export type BoundaryGeometry =
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] };
+
+/**
+ * District Boundary Entity
+ *
+ * Stores district polygons loaded from the GeoJSON boundary files a region
+ * ships, so addresses can be assigned to districts without external calls.
+ * The bounding box columns narrow candidates before the point-in-polygon
+ * test.
+ */
+@Entity('district_boundaries')
+@Index(['minLongitude', 'maxLongitude', 'minLatitude', 'maxLatitude'])
+export class DistrictBoundaryEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 30 })
+  @Index()
+  districtType!: DistrictType;
+
+  // Value assigned to the address field (e.g. 'CA-12', 'Alameda')
+  @Column({ type: 'varchar', length: 100 })
+  name!: string;
+
+  // Identifier from the source file (e.g. a GEOID), when present
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  externalId?: string;
+
+  // Boundary file the polygon was loaded from
+  @Column({ type: 'varchar', length: 255 })
+  @Index()
+  source!: string;
+
+  @Column('jsonb')
+  geometry!: BoundaryGeometry;
+
+  @Column({ type: 'double precision' })
+  minLongitude!: number;
+
+  @Column({ type: 'double precision' })
+  minLatitude!: number;
+
+  @Column({ type: 'double precision' })
+  maxLongitude!: number;
+
+  @Column({ type: 'double precision' })
+  maxLatitude!: number;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt!: Date;
+}
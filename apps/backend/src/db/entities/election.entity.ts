@@ -0,0 +1,65 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  DeleteDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Election Entity
+ *
+ * Stores elections in the region with their voter registration and
+ * mail-ballot deadlines and early-voting window.
+ */
+@Entity('elections')
+@Index(['regionId', 'externalId'], { unique: true })
+export class ElectionEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  // RegionInfo.id of the provider this record was synced from
+  @Column({ type: 'varchar', length: 100 })
+  @Index()
+  regionId!: string;
+
+  @Column()
+  @Index()
+  externalId!: string;
+
+  @Column()
+  name!: string;
+
+  @Column({ type: 'timestamp' })
+  @Index()
+  electionDate!: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  registrationDeadline?: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  mailBallotRequestDeadline?: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  mailBallotReturnDeadline?: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  earlyVotingStart?: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  earlyVotingEnd?: Date;
+
+  @Column({ nullable: true })
+  sourceUrl?: string;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  @DeleteDateColumn()
+  deletedAt?: Date;
+}
@@ -0,0 +1,105 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { UserEntity } from './user.entity';
+import { FollowTargetType } from './user-follow.entity';
+
+/**
+ * What happened to a followed item
+ */
+export enum FollowAlertChange {
+  // A new meeting of a followed body was scheduled
+  CREATED = 'created',
+  UPDATED = 'updated',
+  // A retired record came back in a sync
+  RESTORED = 'restored',
+}
+
+/**
+ * Where an alert is in delivery
+ */
+export enum FollowAlertStatus {
+  // Waiting for the user's digest
+  PENDING = 'pending',
+  SENT = 'sent',
+  // The user's notification preferences turn this alert off
+  SKIPPED = 'skipped',
+  FAILED = 'failed',
+}
+
+/**
+ * A stored field value that changed, as recorded by the sync
+ */
+export interface FollowAlertFieldChange {
+  field: string;
+  previousValue: string | null;
+  newValue: string | null;
+}
+
+/**
+ * Follow Alert Entity
+ *
+ * A change to something a user follows, found by a region sync.
+ * recordId is the changed record: the followed proposition or
+ * representative, or a meeting of the followed body.
+ */
+@Entity('follow_alerts')
+@Index(['userId', 'status'])
+export class FollowAlertEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user?: UserEntity;
+
+  @Column({ type: 'varchar', length: 100 })
+  regionId!: string;
+
+  @Column({ type: 'enum', enum: FollowTargetType })
+  targetType!: FollowTargetType;
+
+  @Column()
+  targetId!: string;
+
+  @Column({ type: 'uuid' })
+  recordId!: string;
+
+  // Title or name of the changed record
+  @Column()
+  label!: string;
+
+  @Column({ type: 'enum', enum: FollowAlertChange })
+  change!: FollowAlertChange;
+
+  @Column({ type: 'jsonb', default: [] })
+  changes!: FollowAlertFieldChange[];
+
+  @Column({ type: 'uuid', nullable: true })
+  syncRunId?: string;
+
+  @Column({
+    type: 'enum',
+    enum: FollowAlertStatus,
+    default: FollowAlertStatus.PENDING,
+  })
+  status!: FollowAlertStatus;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  deliveredAt?: Date;
+
+  @Column({ type: 'text', nullable: true })
+  errorMessage?: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt!: Date;
+}
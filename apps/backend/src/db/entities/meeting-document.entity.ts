@@ -0,0 +1,70 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { MeetingEntity } from './meeting.entity';
+
+/**
+ * Kinds of meeting document that are ingested
+ */
+export enum MeetingDocumentKind {
+  AGENDA = 'agenda',
+  MINUTES = 'minutes',
+}
+
+/**
+ * Agenda item stored as JSON
+ */
+export interface AgendaItemJSON {
+  // Item number as printed (e.g., "4", "7.2", "12A")
+  number?: string;
+  title: string;
+  text: string;
+}
+
+/**
+ * Meeting Document Entity
+ *
+ * Stores a meeting's agenda or minutes split into agenda items. The items'
+ * embeddings are stored in the vector database under the document's ID.
+ */
+@Entity('meeting_documents')
+@Index(['meetingId', 'kind'], { unique: true })
+export class MeetingDocumentEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid' })
+  meetingId!: string;
+
+  @ManyToOne(() => MeetingEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'meetingId' })
+  meeting?: MeetingEntity;
+
+  // RegionInfo.id of the meeting's region
+  @Column({ type: 'varchar', length: 100 })
+  @Index()
+  regionId!: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  kind!: MeetingDocumentKind;
+
+  // URL the document was ingested from; a new URL is ingested again
+  @Column()
+  url!: string;
+
+  @Column({ type: 'jsonb', default: [] })
+  items!: AgendaItemJSON[];
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
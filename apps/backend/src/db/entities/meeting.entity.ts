@@ -14,11 +14,17 @@ import {
  * Stores legislative meetings from the region.
  */
 @Entity('meetings')
+@Index(['regionId', 'externalId'], { unique: true })
 export class MeetingEntity {
   @PrimaryGeneratedColumn('uuid')
   id!: string;
 
-  @Column({ unique: true })
+  // RegionInfo.id of the provider this record was synced from
+  @Column({ type: 'varchar', length: 100 })
+  @Index()
+  regionId!: string;
+
+  @Column()
   @Index()
   externalId!: string;
 
@@ -39,6 +45,9 @@ export class MeetingEntity {
   @Column({ nullable: true })
   agendaUrl?: string;
 
+  @Column({ nullable: true })
+  minutesUrl?: string;
+
   @Column({ nullable: true })
   videoUrl?: string;
 
@@ -0,0 +1,170 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { UserEntity } from './user.entity';
+import { NotificationFrequency } from './notification-preference.entity';
+
+/**
+ * Kinds of notifications, each governed by its own preference toggle
+ */
+export enum NotificationCategory {
+  PRODUCT_UPDATE = 'product_update',
+  SECURITY_ALERT = 'security_alert',
+  MARKETING = 'marketing',
+  CIVIC_BALLOT_UPDATE = 'civic_ballot_update',
+  CIVIC_REPRESENTATIVE_UPDATE = 'civic_representative_update',
+  CIVIC_ELECTION_REMINDER = 'civic_election_reminder',
+  CIVIC_VOTER_DEADLINE = 'civic_voter_deadline',
+  CIVIC_LOCAL_NEWS = 'civic_local_news',
+  // A document finished processing, or failed to
+  DOCUMENT_PROCESSED = 'document_processed',
+}
+
+/**
+ * Channels notifications are delivered on
+ */
+export enum NotificationChannel {
+  EMAIL = 'email',
+  // The notification center in the app header
+  IN_APP = 'in_app',
+  // Web Push to the user's registered browsers
+  PUSH = 'push',
+}
+
+/**
+ * What the dispatcher decided to do with a notification
+ */
+export enum NotificationAction {
+  SEND = 'send',
+  // Held until the user's quiet hours end
+  DEFER = 'defer',
+  // Batched into the user's daily or weekly digest
+  DIGEST = 'digest',
+  SKIP = 'skip',
+}
+
+/**
+ * Why the dispatcher made a decision
+ */
+export enum NotificationReason {
+  IMMEDIATE = 'immediate',
+  // Security alerts bypass frequency, quiet hours and unsubscribe-all
+  SECURITY = 'security',
+  QUIET_HOURS = 'quiet_hours',
+  DIGEST = 'digest',
+  UNSUBSCRIBED = 'unsubscribed',
+  CHANNEL_DISABLED = 'channel_disabled',
+  CATEGORY_DISABLED = 'category_disabled',
+  NO_CONSENT = 'no_consent',
+  FREQUENCY_NEVER = 'frequency_never',
+  NO_RECIPIENT = 'no_recipient',
+  // Push needs a registered browser
+  NO_DEVICE = 'no_device',
+}
+
+/**
+ * Where a notification is in delivery
+ */
+export enum NotificationDeliveryStatus {
+  DEFERRED = 'deferred',
+  DIGEST = 'digest',
+  // Claimed by a dispatcher that is sending it
+  SENDING = 'sending',
+  SENT = 'sent',
+  SKIPPED = 'skipped',
+  FAILED = 'failed',
+}
+
+/**
+ * One decision the dispatcher made, kept for auditing
+ */
+export interface NotificationDecisionRecord {
+  action: NotificationAction;
+  reason: NotificationReason;
+  decidedAt: string;
+  deliverAfter?: string;
+}
+
+/**
+ * Notification Delivery Entity
+ *
+ * A notification for one user on one channel, with every decision the
+ * dispatcher made about it. Deferred and digest notifications wait here
+ * until they are sent.
+ */
+@Entity('notification_deliveries')
+@Index(['userId', 'status'])
+@Index(['status', 'deliverAfter'])
+export class NotificationDeliveryEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user?: UserEntity;
+
+  @Column({ type: 'enum', enum: NotificationCategory })
+  category!: NotificationCategory;
+
+  @Column({ type: 'enum', enum: NotificationChannel })
+  channel!: NotificationChannel;
+
+  @Column({ type: 'varchar', length: 500 })
+  title!: string;
+
+  @Column({ type: 'jsonb', default: [] })
+  lines!: string[];
+
+  @Column({ type: 'varchar', nullable: true })
+  url?: string;
+
+  // What raised the notification, e.g. a follow alert
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  sourceType?: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  sourceId?: string;
+
+  @Column({ type: 'enum', enum: NotificationDeliveryStatus })
+  status!: NotificationDeliveryStatus;
+
+  @Column({ type: 'enum', enum: NotificationReason })
+  reason!: NotificationReason;
+
+  // Digest the notification is batched into
+  @Column({ type: 'enum', enum: NotificationFrequency, nullable: true })
+  frequency?: NotificationFrequency;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  deliverAfter?: Date;
+
+  @Column({ type: 'jsonb', default: [] })
+  decisions!: NotificationDecisionRecord[];
+
+  // Digest the notification was sent in
+  @Column({ type: 'uuid', nullable: true })
+  @Index()
+  digestId?: string;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  sentAt?: Date;
+
+  @Column({ type: 'text', nullable: true })
+  errorMessage?: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,78 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { UserEntity } from './user.entity';
+import { NotificationFrequency } from './notification-preference.entity';
+
+/**
+ * Where a digest is in sending
+ */
+export enum NotificationDigestStatus {
+  // Claimed by a dispatcher; left as is if it stopped mid-send, so the
+  // digest is never sent twice
+  SENDING = 'sending',
+  SENT = 'sent',
+  // Nothing to report for the period
+  EMPTY = 'empty',
+  FAILED = 'failed',
+}
+
+/**
+ * Notification Digest Entity
+ *
+ * One daily or weekly digest email for one user. Each user has at most one
+ * digest per frequency and period, which is claimed before it is sent.
+ */
+@Entity('notification_digests')
+@Index(['userId', 'frequency', 'periodKey'], { unique: true })
+export class NotificationDigestEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user?: UserEntity;
+
+  @Column({ type: 'enum', enum: NotificationFrequency })
+  frequency!: NotificationFrequency;
+
+  // Local date of the digest in the user's timezone, e.g. "2024-03-12";
+  // weekly digests use the date they are due
+  @Column({ type: 'varchar', length: 10 })
+  periodKey!: string;
+
+  // What the digest covers
+  @Column({ type: 'timestamptz' })
+  periodStart!: Date;
+
+  @Column({ type: 'timestamptz' })
+  periodEnd!: Date;
+
+  @Column({ type: 'enum', enum: NotificationDigestStatus })
+  status!: NotificationDigestStatus;
+
+  @Column({ type: 'int', default: 0 })
+  itemCount!: number;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  sentAt?: Date;
+
+  @Column({ type: 'text', nullable: true })
+  errorMessage?: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt!: Date;
+}
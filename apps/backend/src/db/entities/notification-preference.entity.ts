@@ -81,6 +81,23 @@ export class NotificationPreferenceEntity extends BaseEntity {
   @Column({ type: 'boolean', default: false })
   public pushMarketing!: boolean;
 
+  // In-app Notifications (the notification center in the app header)
+  @Field()
+  @Column({ type: 'boolean', default: true })
+  public inAppEnabled!: boolean;
+
+  @Field()
+  @Column({ type: 'boolean', default: true })
+  public inAppSecurityAlerts!: boolean;
+
+  @Field()
+  @Column({ type: 'boolean', default: true })
+  public inAppCivicUpdates!: boolean;
+
+  @Field()
+  @Column({ type: 'boolean', default: true })
+  public inAppDocumentUpdates!: boolean;
+
   // SMS Notifications
   @Field()
   @Column({ type: 'boolean', default: false })
@@ -0,0 +1,57 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { UserEntity } from './user.entity';
+import { NotificationCategory } from './notification-delivery.entity';
+
+/**
+ * Notification Entity
+ *
+ * A notification in a user's in-app notification center, posted by the
+ * notification dispatcher. Users read and delete their own notifications.
+ */
+@Entity('notifications')
+@Index(['userId', 'createdAt'])
+export class NotificationEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user?: UserEntity;
+
+  @Column({ type: 'enum', enum: NotificationCategory })
+  category!: NotificationCategory;
+
+  @Column({ type: 'varchar', length: 500 })
+  title!: string;
+
+  @Column({ type: 'jsonb', default: [] })
+  lines!: string[];
+
+  @Column({ type: 'varchar', nullable: true })
+  url?: string;
+
+  // What raised the notification, e.g. a follow alert
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  sourceType?: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  sourceId?: string;
+
+  // Unread while not set
+  @Column({ type: 'timestamptz', nullable: true })
+  readAt?: Date;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt!: Date;
+}
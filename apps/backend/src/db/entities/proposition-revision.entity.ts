@@ -0,0 +1,48 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { PropositionEntity } from './proposition.entity';
+
+/**
+ * Proposition Revision Entity
+ *
+ * Records a change to a synced proposition. Only the fields that changed
+ * are stored, with their values before and after the sync that changed them.
+ */
+@Entity('proposition_revisions')
+@Index(['propositionId', 'createdAt'])
+export class PropositionRevisionEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid' })
+  propositionId!: string;
+
+  @ManyToOne(() => PropositionEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'propositionId' })
+  proposition?: PropositionEntity;
+
+  // Sync run that detected the change (null if the run wasn't recorded)
+  @Column({ type: 'uuid', nullable: true })
+  @Index()
+  syncRunId?: string;
+
+  @Column({ type: 'text', array: true })
+  changedFields!: string[];
+
+  // Field values as strings (dates in ISO 8601), null when unset
+  @Column({ type: 'jsonb' })
+  previousValues!: Record<string, string | null>;
+
+  @Column({ type: 'jsonb' })
+  newValues!: Record<string, string | null>;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt!: Date;
+}
@@ -8,17 +8,42 @@ import {
   Index,
 } from 'typeorm';
 
+/**
+ * Argument for or against a proposition stored as JSON
+ */
+export interface PropositionArgumentJSON {
+  position: string;
+  text: string;
+  authors?: string[];
+  rebuttal?: string;
+}
+
+/**
+ * Endorsement of a proposition stored as JSON
+ */
+export interface EndorsementJSON {
+  organization: string;
+  position: string;
+  url?: string;
+}
+
 /**
  * Proposition Entity
  *
  * Stores ballot propositions/measures from the region.
  */
 @Entity('propositions')
+@Index(['regionId', 'externalId'], { unique: true })
 export class PropositionEntity {
   @PrimaryGeneratedColumn('uuid')
   id!: string;
 
-  @Column({ unique: true })
+  // RegionInfo.id of the provider this record was synced from
+  @Column({ type: 'varchar', length: 100 })
+  @Index()
+  regionId!: string;
+
+  @Column()
   @Index()
   externalId!: string;
 
@@ -45,6 +70,31 @@ export class PropositionEntity {
   @Column({ nullable: true })
   sourceUrl?: string;
 
+  // Voter guide sections
+  @Column({ type: 'jsonb', default: [] })
+  arguments!: PropositionArgumentJSON[];
+
+  @Column('text', { nullable: true })
+  fiscalImpact?: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  voteThreshold?: string;
+
+  @Column({ type: 'jsonb', default: [] })
+  endorsements!: EndorsementJSON[];
+
+  // Weighted full-text search document (title > summary > full text),
+  // maintained by Postgres and backed by a GIN index
+  @Column({
+    type: 'tsvector',
+    generatedType: 'STORED',
+    asExpression: `setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("summary", '')), 'B') || setweight(to_tsvector('english', coalesce("fullText", '')), 'C')`,
+    nullable: true,
+    select: false,
+  })
+  @Index('IDX_propositions_searchVector', { synchronize: false })
+  searchVector?: string;
+
   @CreateDateColumn()
   createdAt!: Date;
 
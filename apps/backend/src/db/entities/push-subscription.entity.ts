@@ -0,0 +1,65 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { UserEntity } from './user.entity';
+
+/**
+ * Push Subscription Entity
+ *
+ * A browser's Web Push subscription, one per device and browser profile
+ * the user enabled push on. The endpoint is the push service URL messages
+ * are posted to; p256dh and auth are the keys payloads are encrypted with
+ * (RFC 8291).
+ */
+@Entity('push_subscriptions')
+export class PushSubscriptionEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user?: UserEntity;
+
+  @Index({ unique: true })
+  @Column({ type: 'text' })
+  endpoint!: string;
+
+  // Browser's P-256 public key, base64url encoded
+  @Column({ type: 'varchar', length: 128 })
+  p256dh!: string;
+
+  // Browser's authentication secret, base64url encoded
+  @Column({ type: 'varchar', length: 64 })
+  auth!: string;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  userAgent?: string;
+
+  // When the push service expires the subscription, if it said
+  @Column({ type: 'timestamptz', nullable: true })
+  expiresAt?: Date | null;
+
+  // Last time the device registered; devices re-register on each visit
+  @Column({ type: 'timestamptz' })
+  lastSeenAt!: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastSentAt?: Date;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt!: Date;
+}
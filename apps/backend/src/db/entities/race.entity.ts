@@ -0,0 +1,75 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  DeleteDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Candidate stored as JSON
+ */
+export interface CandidateJSON {
+  name: string;
+  party?: string;
+  incumbent: boolean;
+  representativeExternalId?: string;
+  ballotDesignation?: string;
+  website?: string;
+}
+
+/**
+ * Race Entity
+ *
+ * Stores races (contests) for offices on upcoming ballots, with their
+ * candidates. A race without a district is region-wide.
+ */
+@Entity('races')
+@Index(['regionId', 'externalId'], { unique: true })
+export class RaceEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  // RegionInfo.id of the provider this record was synced from
+  @Column({ type: 'varchar', length: 100 })
+  @Index()
+  regionId!: string;
+
+  @Column()
+  @Index()
+  externalId!: string;
+
+  // Election.externalId of the election the race is decided in
+  @Column({ nullable: true })
+  electionExternalId?: string;
+
+  @Column()
+  office!: string;
+
+  @Column({ nullable: true })
+  chamber?: string;
+
+  @Column({ nullable: true })
+  district?: string;
+
+  @Column({ type: 'timestamp' })
+  @Index()
+  electionDate!: Date;
+
+  @Column({ type: 'jsonb', default: [] })
+  candidates!: CandidateJSON[];
+
+  @Column({ nullable: true })
+  sourceUrl?: string;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  @DeleteDateColumn()
+  deletedAt?: Date;
+}
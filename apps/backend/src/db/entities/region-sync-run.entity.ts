@@ -0,0 +1,108 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * What started a region sync run
+ */
+export enum SyncTrigger {
+  STARTUP = 'startup',
+  SCHEDULED = 'scheduled',
+  MANUAL = 'manual',
+}
+
+/**
+ * Lifecycle status of a region sync run
+ */
+export enum SyncRunStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  // Dry run finished; its changes can be reviewed and applied
+  PREVIEWED = 'previewed',
+  // Dry run whose changes were applied by a later run
+  APPLIED = 'applied',
+}
+
+/**
+ * Provider items fetched by a dry run
+ *
+ * Kept so the reviewed preview can be applied without fetching again.
+ */
+export interface SyncPreviewItems {
+  items: object[];
+  rejected: { externalId?: string; reason: string }[];
+}
+
+/**
+ * Region Sync Run Entity
+ *
+ * Records every sync of a civic data type so operators can see
+ * when data was last refreshed and why a sync failed.
+ *
+ * Dry runs are recorded too, with the provider items they fetched, so a
+ * reviewed preview can be applied as is.
+ */
+@Entity('region_sync_runs')
+@Index(['dataType', 'startedAt'])
+export class RegionSyncRunEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  @Index()
+  regionId!: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  @Index()
+  dataType!: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  trigger!: SyncTrigger;
+
+  @Column({ type: 'varchar', length: 20, default: SyncRunStatus.RUNNING })
+  @Index()
+  status!: SyncRunStatus;
+
+  @Column({ type: 'timestamptz' })
+  startedAt!: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  completedAt?: Date;
+
+  @Column({ type: 'int', nullable: true })
+  durationMs?: number;
+
+  @Column({ type: 'int', default: 0 })
+  itemsProcessed!: number;
+
+  @Column({ type: 'int', default: 0 })
+  itemsCreated!: number;
+
+  @Column({ type: 'int', default: 0 })
+  itemsUpdated!: number;
+
+  @Column({ type: 'int', default: 0 })
+  itemsRemoved!: number;
+
+  @Column({ type: 'text', array: true, default: '{}' })
+  errors!: string[];
+
+  @Column({ type: 'boolean', default: false })
+  dryRun!: boolean;
+
+  // Large; only loaded when a preview is applied
+  @Column({ type: 'jsonb', nullable: true, select: false })
+  previewItems?: SyncPreviewItems | null;
+
+  // Dry run this run applied
+  @Column({ type: 'uuid', nullable: true })
+  previewRunId?: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt!: Date;
+}
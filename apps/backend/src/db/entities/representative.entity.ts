@@ -24,11 +24,17 @@ export interface ContactInfoJSON {
  * Stores elected representatives from the region.
  */
 @Entity('representatives')
+@Index(['regionId', 'externalId'], { unique: true })
 export class RepresentativeEntity {
   @PrimaryGeneratedColumn('uuid')
   id!: string;
 
-  @Column({ unique: true })
+  // RegionInfo.id of the provider this record was synced from
+  @Column({ type: 'varchar', length: 100 })
+  @Index()
+  regionId!: string;
+
+  @Column()
   @Index()
   externalId!: string;
 
@@ -0,0 +1,53 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { UserEntity } from './user.entity';
+
+/**
+ * What a user can follow
+ */
+export enum FollowTargetType {
+  PROPOSITION = 'proposition',
+  REPRESENTATIVE = 'representative',
+  // Meetings of a body such as "City Council", matched by name
+  MEETING_BODY = 'meeting_body',
+}
+
+/**
+ * User Follow Entity
+ *
+ * A proposition, representative or meeting body a user follows.
+ * targetId is the record's ID, or the body name for meeting bodies.
+ */
+@Entity('user_follows')
+@Index(['userId', 'targetType', 'regionId', 'targetId'], { unique: true })
+@Index(['targetType', 'regionId', 'targetId'])
+export class UserFollowEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user?: UserEntity;
+
+  @Column({ type: 'varchar', length: 100 })
+  regionId!: string;
+
+  @Column({ type: 'enum', enum: FollowTargetType })
+  targetType!: FollowTargetType;
+
+  @Column()
+  targetId!: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt!: Date;
+}
@@ -0,0 +1,75 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  DeleteDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * One member's vote stored as JSON
+ */
+export interface MemberVoteJSON {
+  name: string;
+  representativeExternalId?: string;
+  option: string;
+}
+
+/**
+ * Vote Entity
+ *
+ * Stores roll-call votes in the region with how each member voted.
+ * Bills and representatives are linked by their externalId within the
+ * region, since votes may sync before the records they refer to.
+ */
+@Entity('votes')
+@Index(['regionId', 'externalId'], { unique: true })
+@Index(['regionId', 'billExternalId'])
+export class VoteEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  // RegionInfo.id of the provider this record was synced from
+  @Column({ type: 'varchar', length: 100 })
+  @Index()
+  regionId!: string;
+
+  @Column()
+  @Index()
+  externalId!: string;
+
+  @Column({ nullable: true })
+  billExternalId?: string;
+
+  @Column()
+  motion!: string;
+
+  @Column()
+  chamber!: string;
+
+  @Column({ type: 'timestamp' })
+  @Index()
+  votedAt!: Date;
+
+  @Column()
+  passed!: boolean;
+
+  // Searched by representativeExternalId for voting records
+  @Column('jsonb', { default: [] })
+  @Index('IDX_votes_memberVotes', { synchronize: false })
+  memberVotes!: MemberVoteJSON[];
+
+  @Column({ nullable: true })
+  sourceUrl?: string;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  @DeleteDateColumn()
+  deletedAt?: Date;
+}
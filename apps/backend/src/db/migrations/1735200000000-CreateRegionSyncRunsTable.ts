@@ -0,0 +1,61 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migration: Create region sync run history table
+ *
+ * Creates:
+ * - region_sync_runs: One row per civic data type sync, with timing,
+ *   item counts, errors and what triggered the run
+ */
+export class CreateRegionSyncRunsTable1735200000000 implements MigrationInterface {
+  name = 'CreateRegionSyncRunsTable1735200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "region_sync_runs" (
+        "id" UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "dataType" VARCHAR(50) NOT NULL,
+        "trigger" VARCHAR(20) NOT NULL,
+        "status" VARCHAR(20) NOT NULL DEFAULT 'running',
+
+        -- Timing
+        "startedAt" TIMESTAMPTZ NOT NULL,
+        "completedAt" TIMESTAMPTZ,
+        "durationMs" INTEGER,
+
+        -- Results
+        "itemsProcessed" INTEGER NOT NULL DEFAULT 0,
+        "itemsCreated" INTEGER NOT NULL DEFAULT 0,
+        "itemsUpdated" INTEGER NOT NULL DEFAULT 0,
+        "errors" TEXT[] NOT NULL DEFAULT '{}',
+
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_region_sync_runs_dataType" ON "region_sync_runs" ("dataType")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_region_sync_runs_status" ON "region_sync_runs" ("status")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_region_sync_runs_dataType_startedAt" ON "region_sync_runs" ("dataType", "startedAt")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_region_sync_runs_dataType_startedAt"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_region_sync_runs_status"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_region_sync_runs_dataType"`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS "region_sync_runs"`);
+  }
+}
@@ -0,0 +1,80 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const CIVIC_TABLES = ['propositions', 'meetings', 'representatives'];
+
+/**
+ * Migration: Tag civic data with the region it was synced from
+ *
+ * Adds "regionId" (RegionInfo.id) to the civic data tables and the sync run
+ * history so several region providers can share one deployment. Existing
+ * rows are backfilled with 'example', the default provider's region ID;
+ * update them manually if a different provider was in use.
+ *
+ * External IDs are now only unique within a region.
+ */
+export class AddRegionIdToCivicTables1735300000000 implements MigrationInterface {
+  name = 'AddRegionIdToCivicTables1735300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const namingStrategy = queryRunner.connection.namingStrategy;
+
+    for (const table of CIVIC_TABLES) {
+      await queryRunner.query(`
+        ALTER TABLE "${table}"
+        ADD COLUMN IF NOT EXISTS "regionId" VARCHAR(100) NOT NULL DEFAULT 'example'
+      `);
+      await queryRunner.query(`
+        ALTER TABLE "${table}" ALTER COLUMN "regionId" DROP DEFAULT
+      `);
+
+      await queryRunner.query(`
+        ALTER TABLE "${table}"
+        DROP CONSTRAINT IF EXISTS "${namingStrategy.uniqueConstraintName(table, ['externalId'])}"
+      `);
+
+      await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS "IDX_${table}_regionId" ON "${table}" ("regionId")
+      `);
+      await queryRunner.query(`
+        CREATE UNIQUE INDEX IF NOT EXISTS "IDX_${table}_regionId_externalId"
+        ON "${table}" ("regionId", "externalId")
+      `);
+    }
+
+    await queryRunner.query(`
+      ALTER TABLE "region_sync_runs"
+      ADD COLUMN IF NOT EXISTS "regionId" VARCHAR(100) NOT NULL DEFAULT 'example'
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "region_sync_runs" ALTER COLUMN "regionId" DROP DEFAULT
+    `);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_region_sync_runs_regionId" ON "region_sync_runs" ("regionId")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    const namingStrategy = queryRunner.connection.namingStrategy;
+
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_region_sync_runs_regionId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "region_sync_runs" DROP COLUMN IF EXISTS "regionId"`,
+    );
+
+    for (const table of CIVIC_TABLES) {
+      await queryRunner.query(
+        `DROP INDEX IF EXISTS "IDX_${table}_regionId_externalId"`,
+      );
+      await queryRunner.query(`DROP INDEX IF EXISTS "IDX_${table}_regionId"`);
+      await queryRunner.query(`
+        ALTER TABLE "${table}"
+        ADD CONSTRAINT "${namingStrategy.uniqueConstraintName(table, ['externalId'])}" UNIQUE ("externalId")
+      `);
+      await queryRunner.query(
+        `ALTER TABLE "${table}" DROP COLUMN IF EXISTS "regionId"`,
+      );
+    }
+  }
+}
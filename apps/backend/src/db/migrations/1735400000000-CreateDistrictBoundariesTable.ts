@@ -0,0 +1,59 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migration: Create district boundaries table
+ *
+ * Creates:
+ * - district_boundaries: District polygons loaded from GeoJSON boundary
+ *   files, used to assign addresses to districts offline
+ */
+export class CreateDistrictBoundariesTable1735400000000 implements MigrationInterface {
+  name = 'CreateDistrictBoundariesTable1735400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "district_boundaries" (
+        "id" UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "districtType" VARCHAR(30) NOT NULL,
+        "name" VARCHAR(100) NOT NULL,
+        "externalId" VARCHAR(100),
+        "source" VARCHAR(255) NOT NULL,
+        "geometry" JSONB NOT NULL,
+
+        -- Bounding box for candidate lookup
+        "minLongitude" DOUBLE PRECISION NOT NULL,
+        "minLatitude" DOUBLE PRECISION NOT NULL,
+        "maxLongitude" DOUBLE PRECISION NOT NULL,
+        "maxLatitude" DOUBLE PRECISION NOT NULL,
+
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_district_boundaries_districtType" ON "district_boundaries" ("districtType")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_district_boundaries_source" ON "district_boundaries" ("source")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_district_boundaries_bbox" ON "district_boundaries"
+        ("minLongitude", "maxLongitude", "minLatitude", "maxLatitude")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_district_boundaries_bbox"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_district_boundaries_source"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_district_boundaries_districtType"`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS "district_boundaries"`);
+  }
+}
@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migration: Add full-text search to propositions
+ *
+ * Adds:
+ * - searchVector: Generated tsvector over title (weight A), summary (B)
+ *   and full text (C)
+ * - GIN index on searchVector for the propositions text query
+ */
+export class AddPropositionSearchVector1735500000000 implements MigrationInterface {
+  name = 'AddPropositionSearchVector1735500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "propositions"
+      ADD COLUMN IF NOT EXISTS "searchVector" TSVECTOR
+        GENERATED ALWAYS AS (
+          setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+          setweight(to_tsvector('english', coalesce("summary", '')), 'B') ||
+          setweight(to_tsvector('english', coalesce("fullText", '')), 'C')
+        ) STORED
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_propositions_searchVector"
+        ON "propositions" USING GIN ("searchVector")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_propositions_searchVector"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "propositions" DROP COLUMN IF EXISTS "searchVector"`,
+    );
+  }
+}
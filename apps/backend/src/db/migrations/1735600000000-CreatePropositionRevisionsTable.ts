@@ -0,0 +1,48 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migration: Create proposition revision history table
+ *
+ * Creates:
+ * - proposition_revisions: One row per sync that changed a proposition,
+ *   with the changed fields' previous and new values
+ */
+export class CreatePropositionRevisionsTable1735600000000 implements MigrationInterface {
+  name = 'CreatePropositionRevisionsTable1735600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "proposition_revisions" (
+        "id" UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "propositionId" UUID NOT NULL REFERENCES "propositions"("id") ON DELETE CASCADE,
+        "syncRunId" UUID,
+
+        -- Changed fields and their values before and after the sync
+        "changedFields" TEXT[] NOT NULL,
+        "previousValues" JSONB NOT NULL,
+        "newValues" JSONB NOT NULL,
+
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_proposition_revisions_propositionId_createdAt"
+        ON "proposition_revisions" ("propositionId", "createdAt")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_proposition_revisions_syncRunId" ON "proposition_revisions" ("syncRunId")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_proposition_revisions_syncRunId"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_proposition_revisions_propositionId_createdAt"`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS "proposition_revisions"`);
+  }
+}
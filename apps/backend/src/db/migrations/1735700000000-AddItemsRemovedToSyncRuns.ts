@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migration: Record retired records in sync history
+ *
+ * Adds:
+ * - region_sync_runs.itemsRemoved: Records soft-deleted by the sync because
+ *   the provider stopped returning them
+ */
+export class AddItemsRemovedToSyncRuns1735700000000 implements MigrationInterface {
+  name = 'AddItemsRemovedToSyncRuns1735700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "region_sync_runs"
+      ADD COLUMN IF NOT EXISTS "itemsRemoved" INTEGER NOT NULL DEFAULT 0
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "region_sync_runs" DROP COLUMN IF EXISTS "itemsRemoved"`,
+    );
+  }
+}
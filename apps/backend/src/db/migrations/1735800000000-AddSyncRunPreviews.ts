@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migration: Record dry-run sync previews
+ *
+ * Adds:
+ * - region_sync_runs.dryRun: Whether the run only previewed its changes
+ * - region_sync_runs.previewItems: Provider items a dry run fetched, kept
+ *   until the preview is applied
+ * - region_sync_runs.previewRunId: Dry run applied by this run
+ */
+export class AddSyncRunPreviews1735800000000 implements MigrationInterface {
+  name = 'AddSyncRunPreviews1735800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "region_sync_runs"
+      ADD COLUMN IF NOT EXISTS "dryRun" BOOLEAN NOT NULL DEFAULT false,
+      ADD COLUMN IF NOT EXISTS "previewItems" JSONB,
+      ADD COLUMN IF NOT EXISTS "previewRunId" UUID
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "region_sync_runs"
+      DROP COLUMN IF EXISTS "previewRunId",
+      DROP COLUMN IF EXISTS "previewItems",
+      DROP COLUMN IF EXISTS "dryRun"
+    `);
+  }
+}
@@ -0,0 +1,65 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migration: Create follows and calendar feed tokens
+ *
+ * Creates:
+ * - user_follows: Propositions, representatives and meeting bodies users
+ *   follow
+ * - calendar_feed_tokens: Hashed tokens for personal calendar feed URLs
+ */
+export class CreateFollowsAndCalendarFeeds1735900000000 implements MigrationInterface {
+  name = 'CreateFollowsAndCalendarFeeds1735900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "user_follows_targettype_enum" AS ENUM (
+        'proposition', 'representative', 'meeting_body'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "user_follows" (
+        "id" UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "userId" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+        "regionId" VARCHAR(100) NOT NULL,
+        "targetType" "user_follows_targettype_enum" NOT NULL,
+        -- Record ID, or the body name for meeting bodies
+        "targetId" VARCHAR NOT NULL,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_user_follows_user_target"
+        ON "user_follows" ("userId", "targetType", "regionId", "targetId")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_user_follows_target"
+        ON "user_follows" ("targetType", "regionId", "targetId")
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "calendar_feed_tokens" (
+        "id" UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "userId" UUID NOT NULL UNIQUE REFERENCES "users"("id") ON DELETE CASCADE,
+        -- Hex SHA-256 of the token in the feed URL
+        "tokenHash" VARCHAR(64) NOT NULL UNIQUE,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "calendar_feed_tokens"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_user_follows_target"`);
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_user_follows_user_target"`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS "user_follows"`);
+    await queryRunner.query(
+      `DROP TYPE IF EXISTS "user_follows_targettype_enum"`,
+    );
+  }
+}
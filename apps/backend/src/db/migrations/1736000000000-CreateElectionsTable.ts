@@ -0,0 +1,65 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migration: Create elections table
+ *
+ * Creates:
+ * - elections: Elections synced from region providers, with their voter
+ *   registration and mail-ballot deadlines and early-voting window
+ */
+export class CreateElectionsTable1736000000000 implements MigrationInterface {
+  name = 'CreateElectionsTable1736000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "elections" (
+        "id" UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "regionId" VARCHAR(100) NOT NULL,
+        "externalId" VARCHAR NOT NULL,
+        "name" VARCHAR NOT NULL,
+        "electionDate" TIMESTAMP NOT NULL,
+
+        -- Voter deadlines; an early-voting window has both ends or neither
+        "registrationDeadline" TIMESTAMP,
+        "mailBallotRequestDeadline" TIMESTAMP,
+        "mailBallotReturnDeadline" TIMESTAMP,
+        "earlyVotingStart" TIMESTAMP,
+        "earlyVotingEnd" TIMESTAMP,
+
+        "sourceUrl" VARCHAR,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_elections_regionId_externalId"
+        ON "elections" ("regionId", "externalId")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_elections_regionId" ON "elections" ("regionId")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_elections_externalId" ON "elections" ("externalId")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_elections_electionDate" ON "elections" ("electionDate")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_elections_electionDate"`,
+    );
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_elections_externalId"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_elections_regionId"`);
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_elections_regionId_externalId"`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS "elections"`);
+  }
+}
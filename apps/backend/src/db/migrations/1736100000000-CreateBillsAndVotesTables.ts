@@ -0,0 +1,126 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migration: Create bills and votes tables
+ *
+ * Creates:
+ * - bills: Legislative bills synced from region providers, with their
+ *   sponsors and status timeline
+ * - votes: Roll-call votes with how each member voted, and a GIN index
+ *   for looking up a representative's voting record
+ */
+export class CreateBillsAndVotesTables1736100000000 implements MigrationInterface {
+  name = 'CreateBillsAndVotesTables1736100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "bills" (
+        "id" UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "regionId" VARCHAR(100) NOT NULL,
+        "externalId" VARCHAR NOT NULL,
+        "number" VARCHAR NOT NULL,
+        "title" VARCHAR NOT NULL,
+        "summary" TEXT,
+        "chamber" VARCHAR,
+        "session" VARCHAR,
+        "status" VARCHAR NOT NULL DEFAULT 'introduced',
+        "introducedAt" TIMESTAMP,
+        "sponsors" JSONB NOT NULL DEFAULT '[]',
+        "actions" JSONB NOT NULL DEFAULT '[]',
+        "sourceUrl" VARCHAR,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_bills_regionId_externalId"
+        ON "bills" ("regionId", "externalId")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_bills_regionId" ON "bills" ("regionId")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_bills_externalId" ON "bills" ("externalId")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_bills_number" ON "bills" ("number")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_bills_status" ON "bills" ("status")
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "votes" (
+        "id" UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "regionId" VARCHAR(100) NOT NULL,
+        "externalId" VARCHAR NOT NULL,
+        "billExternalId" VARCHAR,
+        "motion" VARCHAR NOT NULL,
+        "chamber" VARCHAR NOT NULL,
+        "votedAt" TIMESTAMP NOT NULL,
+        "passed" BOOLEAN NOT NULL,
+        "memberVotes" JSONB NOT NULL DEFAULT '[]',
+        "sourceUrl" VARCHAR,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_votes_regionId_externalId"
+        ON "votes" ("regionId", "externalId")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_votes_regionId_billExternalId"
+        ON "votes" ("regionId", "billExternalId")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_votes_regionId" ON "votes" ("regionId")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_votes_externalId" ON "votes" ("externalId")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_votes_votedAt" ON "votes" ("votedAt")
+    `);
+
+    // Serves "memberVotes" @> '[{"representativeExternalId": ...}]'
+    await queryRunner.query(`
+      CREATE INDEX "IDX_votes_memberVotes"
+        ON "votes" USING GIN ("memberVotes" jsonb_path_ops)
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_votes_memberVotes"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_votes_votedAt"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_votes_externalId"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_votes_regionId"`);
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_votes_regionId_billExternalId"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_votes_regionId_externalId"`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS "votes"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_bills_status"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_bills_number"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_bills_externalId"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_bills_regionId"`);
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_bills_regionId_externalId"`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS "bills"`);
+  }
+}
@@ -0,0 +1,63 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migration: Create races table
+ *
+ * Creates:
+ * - races: Races for offices on upcoming ballots, synced from region
+ *   providers, with their candidates as JSON
+ */
+export class CreateRacesTable1736200000000 implements MigrationInterface {
+  name = 'CreateRacesTable1736200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "races" (
+        "id" UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "regionId" VARCHAR(100) NOT NULL,
+        "externalId" VARCHAR NOT NULL,
+        "electionExternalId" VARCHAR,
+        "office" VARCHAR NOT NULL,
+
+        -- Matched to address districts like representatives; a race
+        -- without a district is region-wide
+        "chamber" VARCHAR,
+        "district" VARCHAR,
+
+        "electionDate" TIMESTAMP NOT NULL,
+        "candidates" JSONB NOT NULL DEFAULT '[]',
+        "sourceUrl" VARCHAR,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_races_regionId_externalId"
+        ON "races" ("regionId", "externalId")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_races_regionId" ON "races" ("regionId")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_races_externalId" ON "races" ("externalId")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_races_electionDate" ON "races" ("electionDate")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_races_electionDate"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_races_externalId"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_races_regionId"`);
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_races_regionId_externalId"`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS "races"`);
+  }
+}
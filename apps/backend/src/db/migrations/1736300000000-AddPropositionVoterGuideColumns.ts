@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migration: Add voter guide sections to propositions
+ *
+ * Adds:
+ * - propositions.arguments: Arguments for and against, with rebuttals
+ * - propositions.fiscalImpact: Fiscal impact statement
+ * - propositions.voteThreshold: Share of the vote needed to pass
+ * - propositions.endorsements: Organizations for and against
+ */
+export class AddPropositionVoterGuideColumns1736300000000 implements MigrationInterface {
+  name = 'AddPropositionVoterGuideColumns1736300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "propositions"
+      ADD COLUMN IF NOT EXISTS "arguments" JSONB NOT NULL DEFAULT '[]',
+      ADD COLUMN IF NOT EXISTS "fiscalImpact" TEXT,
+      ADD COLUMN IF NOT EXISTS "voteThreshold" VARCHAR,
+      ADD COLUMN IF NOT EXISTS "endorsements" JSONB NOT NULL DEFAULT '[]'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "propositions"
+      DROP COLUMN IF EXISTS "endorsements",
+      DROP COLUMN IF EXISTS "voteThreshold",
+      DROP COLUMN IF EXISTS "fiscalImpact",
+      DROP COLUMN IF EXISTS "arguments"
+    `);
+  }
+}
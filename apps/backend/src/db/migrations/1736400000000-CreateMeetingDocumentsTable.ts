@@ -0,0 +1,59 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migration: Create meeting documents table
+ *
+ * Adds:
+ * - meetings.minutesUrl: Link to the meeting's minutes
+ *
+ * Creates:
+ * - meeting_documents: Agendas and minutes fetched after meeting syncs,
+ *   split into agenda items stored as JSON
+ */
+export class CreateMeetingDocumentsTable1736400000000 implements MigrationInterface {
+  name = 'CreateMeetingDocumentsTable1736400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "meetings" ADD COLUMN IF NOT EXISTS "minutesUrl" VARCHAR
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "meeting_documents" (
+        "id" UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "meetingId" UUID NOT NULL REFERENCES "meetings"("id") ON DELETE CASCADE,
+        "regionId" VARCHAR(100) NOT NULL,
+
+        -- 'agenda' or 'minutes', and where it was fetched from
+        "kind" VARCHAR(20) NOT NULL,
+        "url" VARCHAR NOT NULL,
+
+        "items" JSONB NOT NULL DEFAULT '[]',
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_meeting_documents_meetingId_kind"
+        ON "meeting_documents" ("meetingId", "kind")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_meeting_documents_regionId" ON "meeting_documents" ("regionId")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_meeting_documents_regionId"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_meeting_documents_meetingId_kind"`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS "meeting_documents"`);
+    await queryRunner.query(
+      `ALTER TABLE "meetings" DROP COLUMN IF EXISTS "minutesUrl"`,
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migration: Create follow alerts table
+ *
+ * Creates:
+ * - follow_alerts: Per-user changes to followed propositions,
+ *   representatives and meeting bodies, found by region syncs, with their
+ *   delivery status
+ */
+export class CreateFollowAlertsTable1736500000000 implements MigrationInterface {
+  name = 'CreateFollowAlertsTable1736500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "follow_alerts_targettype_enum" AS ENUM (
+        'proposition', 'representative', 'meeting_body'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "follow_alerts_change_enum" AS ENUM (
+        'created', 'updated', 'restored'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "follow_alerts_status_enum" AS ENUM (
+        'pending', 'sent', 'skipped', 'failed'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "follow_alerts" (
+        "id" UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "userId" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+        "regionId" VARCHAR(100) NOT NULL,
+        "targetType" "follow_alerts_targettype_enum" NOT NULL,
+        "targetId" VARCHAR NOT NULL,
+
+        -- The changed record: the followed record, or a meeting of the
+        -- followed body
+        "recordId" UUID NOT NULL,
+        "label" VARCHAR NOT NULL,
+        "change" "follow_alerts_change_enum" NOT NULL,
+        "changes" JSONB NOT NULL DEFAULT '[]',
+        "syncRunId" UUID,
+
+        "status" "follow_alerts_status_enum" NOT NULL DEFAULT 'pending',
+        "deliveredAt" TIMESTAMPTZ,
+        "errorMessage" TEXT,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_follow_alerts_userId_status"
+        ON "follow_alerts" ("userId", "status")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_follow_alerts_userId_status"`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS "follow_alerts"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "follow_alerts_status_enum"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "follow_alerts_change_enum"`);
+    await queryRunner.query(
+      `DROP TYPE IF EXISTS "follow_alerts_targettype_enum"`,
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migration: Create notification deliveries table
+ *
+ * Creates:
+ * - notification_deliveries: Notifications handled by the notification
+ *   dispatcher, with every send/defer/digest/skip decision for auditing.
+ *   Deferred and digest notifications wait here until they are sent.
+ */
+export class CreateNotificationDeliveriesTable1736600000000 implements MigrationInterface {
+  name = 'CreateNotificationDeliveriesTable1736600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "notification_deliveries_category_enum" AS ENUM (
+        'product_update', 'security_alert', 'marketing',
+        'civic_ballot_update', 'civic_representative_update',
+        'civic_election_reminder', 'civic_voter_deadline', 'civic_local_news'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "notification_deliveries_channel_enum" AS ENUM ('email')
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "notification_deliveries_status_enum" AS ENUM (
+        'deferred', 'digest', 'sending', 'sent', 'skipped', 'failed'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "notification_deliveries_reason_enum" AS ENUM (
+        'immediate', 'security', 'quiet_hours', 'digest', 'unsubscribed',
+        'channel_disabled', 'category_disabled', 'no_consent',
+        'frequency_never', 'no_recipient'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "notification_deliveries_frequency_enum" AS ENUM (
+        'immediate', 'daily_digest', 'weekly_digest', 'never'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "notification_deliveries" (
+        "id" UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "userId" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+        "category" "notification_deliveries_category_enum" NOT NULL,
+        "channel" "notification_deliveries_channel_enum" NOT NULL,
+
+        -- Content
+        "title" VARCHAR(500) NOT NULL,
+        "lines" JSONB NOT NULL DEFAULT '[]',
+        "url" VARCHAR,
+        "sourceType" VARCHAR(50),
+        "sourceId" VARCHAR,
+
+        -- Latest decision, and every decision made
+        "status" "notification_deliveries_status_enum" NOT NULL,
+        "reason" "notification_deliveries_reason_enum" NOT NULL,
+        "frequency" "notification_deliveries_frequency_enum",
+        "deliverAfter" TIMESTAMPTZ,
+        "decisions" JSONB NOT NULL DEFAULT '[]',
+
+        "sentAt" TIMESTAMPTZ,
+        "errorMessage" TEXT,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_notification_deliveries_userId_status"
+        ON "notification_deliveries" ("userId", "status")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_notification_deliveries_status_deliverAfter"
+        ON "notification_deliveries" ("status", "deliverAfter")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_notification_deliveries_status_deliverAfter"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_notification_deliveries_userId_status"`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS "notification_deliveries"`);
+    for (const type of [
+      'frequency',
+      'reason',
+      'status',
+      'channel',
+      'category',
+    ]) {
+      await queryRunner.query(
+        `DROP TYPE IF EXISTS "notification_deliveries_${type}_enum"`,
+      );
+    }
+  }
+}
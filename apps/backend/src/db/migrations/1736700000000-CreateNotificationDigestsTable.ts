@@ -0,0 +1,83 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migration: Create notification digests table
+ *
+ * Creates:
+ * - notification_digests: Daily and weekly digest emails, at most one per
+ *   user, frequency and period, claimed before sending so a digest is never
+ *   sent twice.
+ *
+ * Alters:
+ * - notification_deliveries: Adds digestId, the digest a batched
+ *   notification was sent in.
+ */
+export class CreateNotificationDigestsTable1736700000000 implements MigrationInterface {
+  name = 'CreateNotificationDigestsTable1736700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "notification_digests_frequency_enum" AS ENUM (
+        'immediate', 'daily_digest', 'weekly_digest', 'never'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "notification_digests_status_enum" AS ENUM (
+        'sending', 'sent', 'empty', 'failed'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "notification_digests" (
+        "id" UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "userId" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+        "frequency" "notification_digests_frequency_enum" NOT NULL,
+        "periodKey" VARCHAR(10) NOT NULL,
+        "periodStart" TIMESTAMPTZ NOT NULL,
+        "periodEnd" TIMESTAMPTZ NOT NULL,
+        "status" "notification_digests_status_enum" NOT NULL,
+        "itemCount" INTEGER NOT NULL DEFAULT 0,
+        "sentAt" TIMESTAMPTZ,
+        "errorMessage" TEXT,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_notification_digests_userId_frequency_periodKey"
+        ON "notification_digests" ("userId", "frequency", "periodKey")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "notification_deliveries"
+        ADD COLUMN "digestId" UUID
+          REFERENCES "notification_digests"("id") ON DELETE SET NULL
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_notification_deliveries_digestId"
+        ON "notification_deliveries" ("digestId")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_notification_deliveries_digestId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification_deliveries" DROP COLUMN IF EXISTS "digestId"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_notification_digests_userId_frequency_periodKey"`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS "notification_digests"`);
+    await queryRunner.query(
+      `DROP TYPE IF EXISTS "notification_digests_status_enum"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE IF EXISTS "notification_digests_frequency_enum"`,
+    );
+  }
+}
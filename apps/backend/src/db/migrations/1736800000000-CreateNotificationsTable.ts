@@ -0,0 +1,125 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migration: Create notifications table
+ *
+ * Creates:
+ * - notifications: The in-app notification center, one row per
+ *   notification posted to a user.
+ *
+ * Alters:
+ * - notification_preferences: Adds the in-app channel and its category
+ *   toggles (security alerts, civic updates, document processing).
+ * - notification_deliveries: Adds the in_app channel and the
+ *   document_processed category.
+ */
+export class CreateNotificationsTable1736800000000 implements MigrationInterface {
+  name = 'CreateNotificationsTable1736800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TYPE "notification_deliveries_category_enum"
+        ADD VALUE IF NOT EXISTS 'document_processed'
+    `);
+
+    await queryRunner.query(`
+      ALTER TYPE "notification_deliveries_channel_enum"
+        ADD VALUE IF NOT EXISTS 'in_app'
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "notifications_category_enum" AS ENUM (
+        'product_update', 'security_alert', 'marketing',
+        'civic_ballot_update', 'civic_representative_update',
+        'civic_election_reminder', 'civic_voter_deadline', 'civic_local_news',
+        'document_processed'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "notifications" (
+        "id" UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "userId" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+        "category" "notifications_category_enum" NOT NULL,
+        "title" VARCHAR(500) NOT NULL,
+        "lines" JSONB NOT NULL DEFAULT '[]',
+        "url" VARCHAR,
+        "sourceType" VARCHAR(50),
+        "sourceId" VARCHAR,
+        "readAt" TIMESTAMPTZ,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_notifications_userId_createdAt"
+        ON "notifications" ("userId", "createdAt")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "notification_preferences"
+        ADD COLUMN "inAppEnabled" BOOLEAN NOT NULL DEFAULT true,
+        ADD COLUMN "inAppSecurityAlerts" BOOLEAN NOT NULL DEFAULT true,
+        ADD COLUMN "inAppCivicUpdates" BOOLEAN NOT NULL DEFAULT true,
+        ADD COLUMN "inAppDocumentUpdates" BOOLEAN NOT NULL DEFAULT true
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "notification_preferences"
+        DROP COLUMN IF EXISTS "inAppEnabled",
+        DROP COLUMN IF EXISTS "inAppSecurityAlerts",
+        DROP COLUMN IF EXISTS "inAppCivicUpdates",
+        DROP COLUMN IF EXISTS "inAppDocumentUpdates"
+    `);
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_notifications_userId_createdAt"`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS "notifications"`);
+    await queryRunner.query(
+      `DROP TYPE IF EXISTS "notifications_category_enum"`,
+    );
+
+    // Enum values can't be dropped, so the delivery enums are recreated
+    // without them
+    await queryRunner.query(`
+      DELETE FROM "notification_deliveries"
+        WHERE "channel" = 'in_app' OR "category" = 'document_processed'
+    `);
+    await queryRunner.query(`
+      ALTER TYPE "notification_deliveries_channel_enum"
+        RENAME TO "notification_deliveries_channel_enum_old"
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "notification_deliveries_channel_enum" AS ENUM ('email')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "notification_deliveries"
+        ALTER COLUMN "channel" TYPE "notification_deliveries_channel_enum"
+          USING "channel"::text::"notification_deliveries_channel_enum"
+    `);
+    await queryRunner.query(
+      `DROP TYPE "notification_deliveries_channel_enum_old"`,
+    );
+    await queryRunner.query(`
+      ALTER TYPE "notification_deliveries_category_enum"
+        RENAME TO "notification_deliveries_category_enum_old"
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "notification_deliveries_category_enum" AS ENUM (
+        'product_update', 'security_alert', 'marketing',
+        'civic_ballot_update', 'civic_representative_update',
+        'civic_election_reminder', 'civic_voter_deadline', 'civic_local_news'
+      )
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "notification_deliveries"
+        ALTER COLUMN "category" TYPE "notification_deliveries_category_enum"
+          USING "category"::text::"notification_deliveries_category_enum"
+    `);
+    await queryRunner.query(
+      `DROP TYPE "notification_deliveries_category_enum_old"`,
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migration: Create push subscriptions table
+ *
+ * Creates:
+ * - push_subscriptions: Browsers' Web Push subscriptions, one per device
+ *   the user enabled push on.
+ *
+ * Alters:
+ * - notification_deliveries: Adds the push channel and the no_device
+ *   reason for push notifications to users without a registered device.
+ */
+export class CreatePushSubscriptionsTable1736900000000 implements MigrationInterface {
+  name = 'CreatePushSubscriptionsTable1736900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TYPE "notification_deliveries_channel_enum"
+        ADD VALUE IF NOT EXISTS 'push'
+    `);
+
+    await queryRunner.query(`
+      ALTER TYPE "notification_deliveries_reason_enum"
+        ADD VALUE IF NOT EXISTS 'no_device'
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "push_subscriptions" (
+        "id" UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "userId" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+        "endpoint" TEXT NOT NULL,
+        "p256dh" VARCHAR(128) NOT NULL,
+        "auth" VARCHAR(64) NOT NULL,
+        "userAgent" VARCHAR(500),
+        "expiresAt" TIMESTAMPTZ,
+        "lastSeenAt" TIMESTAMPTZ NOT NULL,
+        "lastSentAt" TIMESTAMPTZ,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_push_subscriptions_endpoint"
+        ON "push_subscriptions" ("endpoint")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_push_subscriptions_userId"
+        ON "push_subscriptions" ("userId")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_push_subscriptions_userId"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_push_subscriptions_endpoint"`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS "push_subscriptions"`);
+
+    // Enum values can't be dropped, so the delivery enums are recreated
+    // without them
+    await queryRunner.query(`
+      DELETE FROM "notification_deliveries"
+        WHERE "channel" = 'push' OR "reason" = 'no_device'
+    `);
+    await queryRunner.query(`
+      ALTER TYPE "notification_deliveries_channel_enum"
+        RENAME TO "notification_deliveries_channel_enum_old"
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "notification_deliveries_channel_enum" AS ENUM (
+        'email', 'in_app'
+      )
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "notification_deliveries"
+        ALTER COLUMN "channel" TYPE "notification_deliveries_channel_enum"
+          USING "channel"::text::"notification_deliveries_channel_enum"
+    `);
+    await queryRunner.query(
+      `DROP TYPE "notification_deliveries_channel_enum_old"`,
+    );
+    await queryRunner.query(`
+      ALTER TYPE "notification_deliveries_reason_enum"
+        RENAME TO "notification_deliveries_reason_enum_old"
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "notification_deliveries_reason_enum" AS ENUM (
+        'immediate', 'security', 'quiet_hours', 'digest', 'unsubscribed',
+        'channel_disabled', 'category_disabled', 'no_consent',
+        'frequency_never', 'no_recipient'
+      )
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "notification_deliveries"
+        ALTER COLUMN "reason" TYPE "notification_deliveries_reason_enum"
+          USING "reason"::text::"notification_deliveries_reason_enum"
+    `);
+    await queryRunner.query(
+      `DROP TYPE "notification_deliveries_reason_enum_old"`,
+    );
+  }
+}
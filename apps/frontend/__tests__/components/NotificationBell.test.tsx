@@ -0,0 +1,166 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import "@testing-library/jest-dom";
+import { NotificationBell } from "@/components/NotificationBell";
+
+const mockRefetch = jest.fn();
+const mockMarkRead = jest.fn();
+const mockDeleteNotification = jest.fn();
+let mockOnData: (() => void) | undefined;
+
+let mockQueryResult = {
+  data: null as { myNotifications: unknown } | null,
+  refetch: mockRefetch,
+};
+
+jest.mock("@apollo/client/react", () => ({
+  useQuery: () => mockQueryResult,
+  useMutation: (mutation: unknown) => {
+    const notifications = require("@/lib/graphql/notifications");
+    if (mutation === notifications.MARK_NOTIFICATIONS_READ) {
+      return [mockMarkRead, { loading: false }];
+    }
+    if (mutation === notifications.DELETE_NOTIFICATION) {
+      return [mockDeleteNotification, { loading: false }];
+    }
+    return [jest.fn(), { loading: false }];
+  },
+  useSubscription: (
+    _subscription: unknown,
+    options: { onData: () => void },
+  ) => {
+    mockOnData = options.onData;
+    return {};
+  },
+}));
+
+const mockNotifications = [
+  {
+    id: "n-1",
+    category: "CIVIC_BALLOT_UPDATE",
+    title: "Proposition updated: Prop 12",
+    lines: ["Status: pending → passed"],
+    createdAt: "2024-03-12T10:00:00Z",
+  },
+  {
+    id: "n-2",
+    category: "DOCUMENT_PROCESSED",
+    title: "Your document is ready",
+    lines: [],
+    readAt: "2024-03-11T10:00:00Z",
+    createdAt: "2024-03-11T09:00:00Z",
+  },
+];
+
+describe("NotificationBell", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQueryResult = {
+      data: {
+        myNotifications: {
+          items: mockNotifications,
+          total: 2,
+          hasMore: false,
+          unreadCount: 1,
+        },
+      },
+      refetch: mockRefetch,
+    };
+  });
+
+  it("should show the unread count", () => {
+    render(<NotificationBell />);
+
+    expect(
+      screen.getByRole("button", { name: "Notifications (1 unread)" }),
+    ).toBeInTheDocument();
+    expect(screen.getByText("1")).toBeInTheDocument();
+  });
+
+  it("should list notifications when opened", async () => {
+    const user = userEvent.setup();
+    render(<NotificationBell />);
+
+    await user.click(screen.getByRole("button", { name: /Notifications/ }));
+
+    expect(
+      screen.getByText("Proposition updated: Prop 12"),
+    ).toBeInTheDocument();
+    expect(screen.getByText("Status: pending → passed")).toBeInTheDocument();
+    expect(screen.getByText("Your document is ready")).toBeInTheDocument();
+  });
+
+  it("should show an empty state", async () => {
+    mockQueryResult = {
+      data: {
+        myNotifications: {
+          items: [],
+          total: 0,
+          hasMore: false,
+          unreadCount: 0,
+        },
+      },
+      refetch: mockRefetch,
+    };
+    const user = userEvent.setup();
+    render(<NotificationBell />);
+
+    await user.click(screen.getByRole("button", { name: "Notifications" }));
+
+    expect(screen.getByText("No notifications")).toBeInTheDocument();
+    expect(screen.queryByText("Mark all read")).not.toBeInTheDocument();
+  });
+
+  it("should mark all notifications read", async () => {
+    const user = userEvent.setup();
+    render(<NotificationBell />);
+
+    await user.click(screen.getByRole("button", { name: /Notifications/ }));
+    await user.click(screen.getByText("Mark all read"));
+
+    await waitFor(() => {
+      expect(mockMarkRead).toHaveBeenCalledWith();
+      expect(mockRefetch).toHaveBeenCalled();
+    });
+  });
+
+  it("should mark an unread notification read when opened", async () => {
+    const user = userEvent.setup();
+    render(<NotificationBell />);
+
+    await user.click(screen.getByRole("button", { name: /Notifications/ }));
+    await user.click(screen.getByText("Proposition updated: Prop 12"));
+
+    await waitFor(() => {
+      expect(mockMarkRead).toHaveBeenCalledWith({
+        variables: { ids: ["n-1"] },
+      });
+    });
+  });
+
+  it("should delete a notification", async () => {
+    const user = userEvent.setup();
+    render(<NotificationBell />);
+
+    await user.click(screen.getByRole("button", { name: /Notifications/ }));
+    await user.click(
+      screen.getByRole("button", {
+        name: "Delete notification: Your document is ready",
+      }),
+    );
+
+    await waitFor(() => {
+      expect(mockDeleteNotification).toHaveBeenCalledWith({
+        variables: { id: "n-2" },
+      });
+    });
+  });
+
+  it("should refetch when a notification arrives", () => {
+    render(<NotificationBell />);
+
+    mockOnData?.();
+
+    expect(mockRefetch).toHaveBeenCalled();
+  });
+});
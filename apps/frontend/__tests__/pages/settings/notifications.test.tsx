@@ -36,6 +36,27 @@ jest.mock("@apollo/client/react", () => ({
   },
 }));
 
+// Mock the browser's push subscription
+const mockSubscribePush = jest.fn();
+const mockUnsubscribePush = jest.fn();
+let mockPush = {
+  isLoading: false,
+  error: null as string | null,
+  supportsPush: true,
+  available: true,
+  permission: "default" as NotificationPermission,
+  subscribed: false,
+};
+
+jest.mock("@/lib/hooks/usePushNotifications", () => ({
+  usePushNotifications: () => ({
+    ...mockPush,
+    subscribe: mockSubscribePush,
+    unsubscribe: mockUnsubscribePush,
+    clearError: jest.fn(),
+  }),
+}));
+
 const mockPreferences = {
   id: "pref-1",
   userId: "user-1",
@@ -44,6 +65,10 @@ const mockPreferences = {
   emailSecurityAlerts: true,
   emailMarketing: false,
   emailFrequency: "immediate",
+  inAppEnabled: true,
+  inAppSecurityAlerts: true,
+  inAppCivicUpdates: true,
+  inAppDocumentUpdates: false,
   pushEnabled: true,
   pushProductUpdates: true,
   pushSecurityAlerts: true,
@@ -73,6 +98,14 @@ describe("NotificationsPage", () => {
       error: null,
       refetch: mockRefetch,
     };
+    mockPush = {
+      isLoading: false,
+      error: null,
+      supportsPush: true,
+      available: true,
+      permission: "default",
+      subscribed: false,
+    };
     globalThis.confirm = jest.fn(() => true);
     globalThis.alert = jest.fn();
   });
@@ -123,13 +156,21 @@ describe("NotificationsPage", () => {
       render(<NotificationsPage />);
 
       expect(screen.getByText("Email Notifications")).toBeInTheDocument();
-      // Product updates and Security alerts appear in both Email and Push sections
+      // Product updates appear in Email and Push, Security alerts also In-App
       expect(screen.getAllByText("Product updates")).toHaveLength(2);
-      expect(screen.getAllByText("Security alerts")).toHaveLength(2);
+      expect(screen.getAllByText("Security alerts")).toHaveLength(3);
       // Marketing only appears in Email section
       expect(screen.getByText("Marketing")).toBeInTheDocument();
     });
 
+    it("should render in-app notifications section", () => {
+      render(<NotificationsPage />);
+
+      expect(screen.getByText("In-App Notifications")).toBeInTheDocument();
+      expect(screen.getByText("Civic updates")).toBeInTheDocument();
+      expect(screen.getByText("Document processing")).toBeInTheDocument();
+    });
+
     it("should render push notifications section", () => {
       render(<NotificationsPage />);
 
@@ -359,4 +400,65 @@ describe("NotificationsPage", () => {
       expect(frequencySelects[1]).toHaveValue("daily_digest");
     });
   });
+  describe("push on this browser", () => {
+    it("should turn on push notifications in this browser", async () => {
+      const user = userEvent.setup();
+      render(<NotificationsPage />);
+
+      expect(
+        screen.getByText(
+          "Turn on push notifications to receive them in this browser",
+        ),
+      ).toBeInTheDocument();
+      await user.click(screen.getByRole("button", { name: "Turn on" }));
+
+      expect(mockSubscribePush).toHaveBeenCalled();
+    });
+
+    it("should turn off push notifications in this browser", async () => {
+      mockPush.subscribed = true;
+      const user = userEvent.setup();
+      render(<NotificationsPage />);
+
+      expect(
+        screen.getByText("Push notifications are on in this browser"),
+      ).toBeInTheDocument();
+      await user.click(screen.getByRole("button", { name: "Turn off" }));
+
+      expect(mockUnsubscribePush).toHaveBeenCalled();
+    });
+
+    it("should explain when notifications are blocked", () => {
+      mockPush.permission = "denied";
+      render(<NotificationsPage />);
+
+      expect(
+        screen.getByText(
+          "Notifications are blocked for this site. Allow them in your browser settings.",
+        ),
+      ).toBeInTheDocument();
+      expect(screen.getByRole("button", { name: "Turn on" })).toBeDisabled();
+    });
+
+    it("should explain when the browser doesn't support push", () => {
+      mockPush.supportsPush = false;
+      render(<NotificationsPage />);
+
+      expect(
+        screen.getByText("This browser doesn't support push notifications"),
+      ).toBeInTheDocument();
+      expect(
+        screen.queryByRole("button", { name: "Turn on" }),
+      ).not.toBeInTheDocument();
+    });
+
+    it("should show errors from subscribing", () => {
+      mockPush.error = "Notifications are blocked for this site";
+      render(<NotificationsPage />);
+
+      expect(
+        screen.getByText("Notifications are blocked for this site"),
+      ).toBeInTheDocument();
+    });
+  });
 });
@@ -0,0 +1,201 @@
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { usePushNotifications } from "@/lib/hooks/usePushNotifications";
+
+// Mock Apollo Client
+const mockRegisterSubscription = jest.fn();
+const mockUnregisterSubscription = jest.fn();
+let mockPublicKey: string | null = "BPublicKey";
+
+jest.mock("@apollo/client/react", () => ({
+  useMutation: jest.fn((mutation) => {
+    const mutationName = mutation?.definitions?.[0]?.name?.value;
+    if (mutationName === "RegisterPushSubscription") {
+      return [mockRegisterSubscription, { loading: false }];
+    }
+    if (mutationName === "UnregisterPushSubscription") {
+      return [mockUnregisterSubscription, { loading: false }];
+    }
+    return [jest.fn(), { loading: false }];
+  }),
+  useQuery: jest.fn(() => ({
+    data: { webPushPublicKey: mockPublicKey },
+    loading: false,
+  })),
+}));
+
+// Mock the browser push APIs
+const subscription = {
+  endpoint: "https://fcm.googleapis.com/fcm/send/abc",
+  toJSON: () => ({
+    endpoint: "https://fcm.googleapis.com/fcm/send/abc",
+    expirationTime: null,
+    keys: { p256dh: "BBrowserKey", auth: "secret" },
+  }),
+  unsubscribe: jest.fn().mockResolvedValue(true),
+};
+const mockGetSubscription = jest.fn();
+const mockSubscribe = jest.fn();
+const registration = {
+  pushManager: {
+    getSubscription: mockGetSubscription,
+    subscribe: mockSubscribe,
+  },
+};
+const mockRegister = jest.fn();
+const mockGetRegistration = jest.fn();
+const mockRequestPermission = jest.fn();
+
+describe("usePushNotifications", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPublicKey = "BPublicKey";
+    mockRegister.mockResolvedValue(registration);
+    mockGetRegistration.mockResolvedValue(registration);
+    mockGetSubscription.mockResolvedValue(null);
+    mockSubscribe.mockResolvedValue(subscription);
+    mockRegisterSubscription.mockResolvedValue({
+      data: { registerPushSubscription: { id: "subscription-1" } },
+    });
+    mockUnregisterSubscription.mockResolvedValue({
+      data: { unregisterPushSubscription: true },
+    });
+    mockRequestPermission.mockResolvedValue("granted");
+
+    Object.defineProperty(navigator, "serviceWorker", {
+      configurable: true,
+      value: { register: mockRegister, getRegistration: mockGetRegistration },
+    });
+    Object.defineProperty(window, "PushManager", {
+      configurable: true,
+      value: jest.fn(),
+    });
+    Object.defineProperty(window, "Notification", {
+      configurable: true,
+      value: {
+        permission: "default",
+        requestPermission: mockRequestPermission,
+      },
+    });
+  });
+
+  afterEach(() => {
+    delete (navigator as { serviceWorker?: unknown }).serviceWorker;
+    delete (window as { PushManager?: unknown }).PushManager;
+    delete (window as { Notification?: unknown }).Notification;
+  });
+
+  describe("initial state", () => {
+    it("should install the service worker and detect support", async () => {
+      const { result } = renderHook(() => usePushNotifications());
+
+      await waitFor(() => expect(mockGetSubscription).toHaveBeenCalled());
+
+      expect(mockRegister).toHaveBeenCalledWith("/sw.js");
+      expect(result.current.supportsPush).toBe(true);
+      expect(result.current.available).toBe(true);
+      expect(result.current.permission).toBe("default");
+      expect(result.current.subscribed).toBe(false);
+      expect(mockRegisterSubscription).not.toHaveBeenCalled();
+    });
+
+    it("should register an existing subscription again", async () => {
+      mockGetSubscription.mockResolvedValue(subscription);
+
+      const { result } = renderHook(() => usePushNotifications());
+
+      await waitFor(() => expect(result.current.subscribed).toBe(true));
+      expect(mockRegisterSubscription).toHaveBeenCalledWith({
+        variables: {
+          input: {
+            endpoint: "https://fcm.googleapis.com/fcm/send/abc",
+            p256dh: "BBrowserKey",
+            auth: "secret",
+            expirationTime: undefined,
+          },
+        },
+      });
+    });
+
+    it("should report browsers without push support", () => {
+      delete (window as { PushManager?: unknown }).PushManager;
+
+      const { result } = renderHook(() => usePushNotifications());
+
+      expect(result.current.supportsPush).toBe(false);
+      expect(mockRegister).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("subscribe", () => {
+    it("should subscribe with the server key and register the browser", async () => {
+      const { result } = renderHook(() => usePushNotifications());
+      await waitFor(() => expect(result.current.supportsPush).toBe(true));
+
+      let success = false;
+      await act(async () => {
+        success = await result.current.subscribe();
+      });
+
+      expect(success).toBe(true);
+      expect(mockSubscribe).toHaveBeenCalledWith({
+        userVisibleOnly: true,
+        applicationServerKey: expect.any(Uint8Array),
+      });
+      expect(mockRegisterSubscription).toHaveBeenCalled();
+      expect(result.current.subscribed).toBe(true);
+      expect(result.current.permission).toBe("granted");
+    });
+
+    it("should fail when the user blocks notifications", async () => {
+      mockRequestPermission.mockResolvedValue("denied");
+      const { result } = renderHook(() => usePushNotifications());
+      await waitFor(() => expect(result.current.supportsPush).toBe(true));
+
+      let success = true;
+      await act(async () => {
+        success = await result.current.subscribe();
+      });
+
+      expect(success).toBe(false);
+      expect(result.current.error).toBe(
+        "Notifications are blocked for this site",
+      );
+      expect(mockSubscribe).not.toHaveBeenCalled();
+    });
+
+    it("should fail when the server has no push key", async () => {
+      mockPublicKey = null;
+      const { result } = renderHook(() => usePushNotifications());
+      await waitFor(() => expect(result.current.supportsPush).toBe(true));
+
+      let success = true;
+      await act(async () => {
+        success = await result.current.subscribe();
+      });
+
+      expect(success).toBe(false);
+      expect(result.current.available).toBe(false);
+      expect(result.current.error).toBe("Push notifications are not available");
+    });
+  });
+
+  describe("unsubscribe", () => {
+    it("should unregister and unsubscribe the browser", async () => {
+      mockGetSubscription.mockResolvedValue(subscription);
+      const { result } = renderHook(() => usePushNotifications());
+      await waitFor(() => expect(result.current.subscribed).toBe(true));
+
+      let success = false;
+      await act(async () => {
+        success = await result.current.unsubscribe();
+      });
+
+      expect(success).toBe(true);
+      expect(mockUnregisterSubscription).toHaveBeenCalledWith({
+        variables: { endpoint: "https://fcm.googleapis.com/fcm/send/abc" },
+      });
+      expect(subscription.unsubscribe).toHaveBeenCalled();
+      expect(result.current.subscribed).toBe(false);
+    });
+  });
+});
@@ -8,9 +8,12 @@ import {
   CivicDataType,
 } from "@/lib/graphql/region";
 
-const DATA_TYPE_CARDS: Record<
-  CivicDataType,
-  { title: string; description: string; href: string; icon: string }
+// Data types without a browse page of their own have no card
+const DATA_TYPE_CARDS: Partial<
+  Record<
+    CivicDataType,
+    { title: string; description: string; href: string; icon: string }
+  >
 > = {
   PROPOSITIONS: {
     title: "Propositions",
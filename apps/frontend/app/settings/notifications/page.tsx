@@ -14,6 +14,7 @@ import {
   NotificationFrequency,
   NotificationPreferences,
 } from "@/lib/graphql/profile";
+import { usePushNotifications } from "@/lib/hooks/usePushNotifications";
 
 interface ToggleProps {
   readonly enabled: boolean;
@@ -51,6 +52,22 @@ const FREQUENCY_OPTIONS: { value: NotificationFrequency; labelKey: string }[] =
     { value: "never", labelKey: "notifications.frequency.never" },
   ];
 
+/**
+ * Describe whether this browser receives push notifications
+ */
+function pushDeviceStatus(
+  push: ReturnType<typeof usePushNotifications>,
+  t: (key: string) => string,
+): string {
+  if (!push.supportsPush) return t("notifications.push.deviceUnsupported");
+  if (!push.available) return t("notifications.push.deviceUnavailable");
+  if (push.permission === "denied")
+    return t("notifications.push.deviceBlocked");
+  return push.subscribed
+    ? t("notifications.push.deviceOn")
+    : t("notifications.push.deviceOff");
+}
+
 interface NotificationFormProps {
   readonly preferences: NotificationPreferences;
   readonly onSave: () => void;
@@ -76,6 +93,10 @@ function NotificationForm({
     emailSecurityAlerts: preferences.emailSecurityAlerts,
     emailMarketing: preferences.emailMarketing,
     emailFrequency: preferences.emailFrequency,
+    inAppEnabled: preferences.inAppEnabled,
+    inAppSecurityAlerts: preferences.inAppSecurityAlerts,
+    inAppCivicUpdates: preferences.inAppCivicUpdates,
+    inAppDocumentUpdates: preferences.inAppDocumentUpdates,
     pushEnabled: preferences.pushEnabled,
     pushProductUpdates: preferences.pushProductUpdates,
     pushSecurityAlerts: preferences.pushSecurityAlerts,
@@ -93,6 +114,7 @@ function NotificationForm({
     quietHoursStart: preferences.quietHoursStart || "",
     quietHoursEnd: preferences.quietHoursEnd || "",
   });
+  const push = usePushNotifications();
   const [hasChanges, setHasChanges] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
@@ -235,6 +257,66 @@ function NotificationForm({
         </div>
       </div>
 
+      {/* In-App Notifications */}
+      <div className="mb-8">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-[#1e293b]">
+            {t("notifications.inApp.title")}
+          </h2>
+          <Toggle
+            enabled={prefs.inAppEnabled ?? true}
+            onChange={(v) => updatePref("inAppEnabled", v)}
+          />
+        </div>
+        <div className="space-y-4 pl-4 border-l-2 border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-[#1e293b]">
+                {t("notifications.inApp.securityAlerts")}
+              </p>
+              <p className="text-sm text-[#64748b]">
+                {t("notifications.inApp.securityAlertsDesc")}
+              </p>
+            </div>
+            <Toggle
+              enabled={prefs.inAppSecurityAlerts ?? true}
+              onChange={(v) => updatePref("inAppSecurityAlerts", v)}
+              disabled={!prefs.inAppEnabled}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-[#1e293b]">
+                {t("notifications.inApp.civicUpdates")}
+              </p>
+              <p className="text-sm text-[#64748b]">
+                {t("notifications.inApp.civicUpdatesDesc")}
+              </p>
+            </div>
+            <Toggle
+              enabled={prefs.inAppCivicUpdates ?? true}
+              onChange={(v) => updatePref("inAppCivicUpdates", v)}
+              disabled={!prefs.inAppEnabled}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-[#1e293b]">
+                {t("notifications.inApp.documentUpdates")}
+              </p>
+              <p className="text-sm text-[#64748b]">
+                {t("notifications.inApp.documentUpdatesDesc")}
+              </p>
+            </div>
+            <Toggle
+              enabled={prefs.inAppDocumentUpdates ?? true}
+              onChange={(v) => updatePref("inAppDocumentUpdates", v)}
+              disabled={!prefs.inAppEnabled}
+            />
+          </div>
+        </div>
+      </div>
+
       {/* Push Notifications */}
       <div className="mb-8">
         <div className="flex items-center justify-between mb-4">
@@ -247,6 +329,33 @@ function NotificationForm({
           />
         </div>
         <div className="space-y-4 pl-4 border-l-2 border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-[#1e293b]">
+                {t("notifications.push.device")}
+              </p>
+              <p className="text-sm text-[#64748b]">
+                {pushDeviceStatus(push, t)}
+              </p>
+              {push.error && (
+                <p className="text-sm text-red-600">{push.error}</p>
+              )}
+            </div>
+            {push.supportsPush && push.available && (
+              <button
+                type="button"
+                onClick={() =>
+                  push.subscribed ? push.unsubscribe() : push.subscribe()
+                }
+                disabled={push.isLoading || push.permission === "denied"}
+                className="px-4 py-2 rounded-lg border border-gray-200 text-sm font-medium text-[#1e293b] hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                {push.subscribed
+                  ? t("notifications.push.disableDevice")
+                  : t("notifications.push.enableDevice")}
+              </button>
+            )}
+          </div>
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-[#1e293b]">
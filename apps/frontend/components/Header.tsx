@@ -2,6 +2,7 @@
 
 import Link from "next/link";
 import { useAuth } from "@/lib/auth-context";
+import { NotificationBell } from "@/components/NotificationBell";
 
 export function Header() {
   const { user, isAuthenticated, logout, isLoading } = useAuth();
@@ -27,6 +28,7 @@ export function Header() {
               >
                 Region
               </Link>
+              <NotificationBell />
               <Link
                 href="/settings"
                 className="text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
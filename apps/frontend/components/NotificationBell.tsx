@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useSubscription } from "@apollo/client/react";
+import {
+  GET_MY_NOTIFICATIONS,
+  MARK_NOTIFICATIONS_READ,
+  DELETE_NOTIFICATION,
+  NOTIFICATION_ADDED,
+  MyNotificationsData,
+  MarkNotificationsReadData,
+  DeleteNotificationData,
+  NotificationAddedData,
+  AppNotification,
+} from "@/lib/graphql/notifications";
+import { usePushNotifications } from "@/lib/hooks/usePushNotifications";
+
+export function NotificationBell() {
+  const [open, setOpen] = useState(false);
+  const { data, refetch } = useQuery<MyNotificationsData>(
+    GET_MY_NOTIFICATIONS,
+    { variables: { take: 10 } },
+  );
+  const [markRead] = useMutation<MarkNotificationsReadData>(
+    MARK_NOTIFICATIONS_READ,
+  );
+  const [deleteNotification] =
+    useMutation<DeleteNotificationData>(DELETE_NOTIFICATION);
+
+  // Keep this browser's push subscription registered to the signed-in user
+  usePushNotifications();
+
+  // New notifications arrive live; refetch to keep the list and count right
+  useSubscription<NotificationAddedData>(NOTIFICATION_ADDED, {
+    onData: () => {
+      refetch();
+    },
+  });
+
+  const notifications = data?.myNotifications.items ?? [];
+  const unreadCount = data?.myNotifications.unreadCount ?? 0;
+
+  const handleMarkAllRead = async () => {
+    await markRead();
+    await refetch();
+  };
+
+  const handleOpen = async (notification: AppNotification) => {
+    if (!notification.readAt) {
+      await markRead({ variables: { ids: [notification.id] } });
+      await refetch();
+    }
+    if (notification.url) {
+      globalThis.location.assign(notification.url);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteNotification({ variables: { id } });
+    await refetch();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-label={
+          unreadCount > 0
+            ? `Notifications (${unreadCount} unread)`
+            : "Notifications"
+        }
+        aria-expanded={open}
+        className="relative p-2 text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+      >
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+          />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute top-0 right-0 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg z-10">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+            <span className="text-sm font-semibold text-gray-900 dark:text-white">
+              Notifications
+            </span>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={handleMarkAllRead}
+                className="text-xs text-blue-600 hover:text-blue-700"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">
+              No notifications
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto">
+              {notifications.map((notification) => (
+                <li
+                  key={notification.id}
+                  className={`flex items-start gap-2 px-4 py-3 border-b border-gray-100 dark:border-gray-700 ${
+                    notification.readAt ? "" : "bg-blue-50 dark:bg-gray-700"
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => handleOpen(notification)}
+                    className="flex-1 text-left"
+                  >
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">
+                      {notification.title}
+                    </p>
+                    {notification.lines.map((line) => (
+                      <p
+                        key={line}
+                        className="text-xs text-gray-600 dark:text-gray-300"
+                      >
+                        {line}
+                      </p>
+                    ))}
+                    <p className="text-xs text-gray-400 mt-1">
+                      {new Date(notification.createdAt).toLocaleString()}
+                    </p>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(notification.id)}
+                    aria-label={`Delete notification: ${notification.title}`}
+                    className="text-gray-400 hover:text-gray-600"
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
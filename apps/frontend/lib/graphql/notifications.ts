@@ -0,0 +1,157 @@
+import { gql } from "@apollo/client";
+
+// ============================================
+// Types
+// ============================================
+
+export type NotificationCategory =
+  | "PRODUCT_UPDATE"
+  | "SECURITY_ALERT"
+  | "MARKETING"
+  | "CIVIC_BALLOT_UPDATE"
+  | "CIVIC_REPRESENTATIVE_UPDATE"
+  | "CIVIC_ELECTION_REMINDER"
+  | "CIVIC_VOTER_DEADLINE"
+  | "CIVIC_LOCAL_NEWS"
+  | "DOCUMENT_PROCESSED";
+
+export interface AppNotification {
+  id: string;
+  category: NotificationCategory;
+  title: string;
+  lines: string[];
+  url?: string;
+  readAt?: string;
+  createdAt: string;
+}
+
+export interface PushSubscriptionInput {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  expirationTime?: number;
+}
+
+export interface PaginatedNotifications {
+  items: AppNotification[];
+  total: number;
+  hasMore: boolean;
+  unreadCount: number;
+}
+
+// ============================================
+// Query Response Types
+// ============================================
+
+export interface MyNotificationsData {
+  myNotifications: PaginatedNotifications;
+}
+
+export interface WebPushPublicKeyData {
+  webPushPublicKey: string | null;
+}
+
+// ============================================
+// Mutation Response Types
+// ============================================
+
+export interface MarkNotificationsReadData {
+  markNotificationsRead: number;
+}
+
+export interface DeleteNotificationData {
+  deleteNotification: boolean;
+}
+
+export interface RegisterPushSubscriptionData {
+  registerPushSubscription: { id: string };
+}
+
+export interface UnregisterPushSubscriptionData {
+  unregisterPushSubscription: boolean;
+}
+
+// ============================================
+// Subscription Response Types
+// ============================================
+
+export interface NotificationAddedData {
+  notificationAdded: AppNotification;
+}
+
+// ============================================
+// Queries
+// ============================================
+
+export const GET_MY_NOTIFICATIONS = gql`
+  query MyNotifications($skip: Int, $take: Int, $unreadOnly: Boolean) {
+    myNotifications(skip: $skip, take: $take, unreadOnly: $unreadOnly) {
+      items {
+        id
+        category
+        title
+        lines
+        url
+        readAt
+        createdAt
+      }
+      total
+      hasMore
+      unreadCount
+    }
+  }
+`;
+
+export const WEB_PUSH_PUBLIC_KEY = gql`
+  query WebPushPublicKey {
+    webPushPublicKey
+  }
+`;
+
+// ============================================
+// Mutations
+// ============================================
+
+export const MARK_NOTIFICATIONS_READ = gql`
+  mutation MarkNotificationsRead($ids: [ID!]) {
+    markNotificationsRead(ids: $ids)
+  }
+`;
+
+export const DELETE_NOTIFICATION = gql`
+  mutation DeleteNotification($id: ID!) {
+    deleteNotification(id: $id)
+  }
+`;
+
+export const REGISTER_PUSH_SUBSCRIPTION = gql`
+  mutation RegisterPushSubscription($input: RegisterPushSubscriptionDto!) {
+    registerPushSubscription(input: $input) {
+      id
+    }
+  }
+`;
+
+export const UNREGISTER_PUSH_SUBSCRIPTION = gql`
+  mutation UnregisterPushSubscription($endpoint: String!) {
+    unregisterPushSubscription(endpoint: $endpoint)
+  }
+`;
+
+// ============================================
+// Subscriptions
+// ============================================
+
+export const NOTIFICATION_ADDED = gql`
+  subscription NotificationAdded {
+    notificationAdded {
+      id
+      category
+      title
+      lines
+      url
+      readAt
+      createdAt
+    }
+  }
+`;
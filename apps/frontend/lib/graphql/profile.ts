@@ -153,10 +153,35 @@ export interface UserAddress {
   precinctId?: string;
   pollingPlace?: string;
   isVerified: boolean;
+  verificationMethod?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface AddressCorrection {
+  field: string;
+  original?: string;
+  suggested?: string;
+}
+
+export interface SuggestedAddress {
+  addressLine1: string;
+  addressLine2?: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+}
+
+export interface AddressVerificationResult {
+  address: UserAddress;
+  isVerified: boolean;
+  verificationMethod?: string;
+  suggestedAddress?: SuggestedAddress;
+  corrections: AddressCorrection[];
+  issues: string[];
+}
+
 export interface CreateAddressInput {
   addressType: AddressType;
   isPrimary?: boolean;
@@ -196,6 +221,10 @@ export interface NotificationPreferences {
   emailSecurityAlerts: boolean;
   emailMarketing: boolean;
   emailFrequency: NotificationFrequency;
+  inAppEnabled: boolean;
+  inAppSecurityAlerts: boolean;
+  inAppCivicUpdates: boolean;
+  inAppDocumentUpdates: boolean;
   pushEnabled: boolean;
   pushProductUpdates: boolean;
   pushSecurityAlerts: boolean;
@@ -222,6 +251,10 @@ export interface UpdateNotificationPreferencesInput {
   emailSecurityAlerts?: boolean;
   emailMarketing?: boolean;
   emailFrequency?: NotificationFrequency;
+  inAppEnabled?: boolean;
+  inAppSecurityAlerts?: boolean;
+  inAppCivicUpdates?: boolean;
+  inAppDocumentUpdates?: boolean;
   pushEnabled?: boolean;
   pushProductUpdates?: boolean;
   pushSecurityAlerts?: boolean;
@@ -475,6 +508,60 @@ export const SET_PRIMARY_ADDRESS = gql`
   }
 `;
 
+export const VERIFY_ADDRESS = gql`
+  mutation VerifyAddress($id: ID!, $acceptSuggestion: Boolean) {
+    verifyAddress(id: $id, acceptSuggestion: $acceptSuggestion) {
+      address {
+        id
+        addressLine1
+        addressLine2
+        city
+        state
+        postalCode
+        country
+        isVerified
+        verificationMethod
+        updatedAt
+      }
+      isVerified
+      verificationMethod
+      suggestedAddress {
+        addressLine1
+        addressLine2
+        city
+        state
+        postalCode
+        country
+      }
+      corrections {
+        field
+        original
+        suggested
+      }
+      issues
+    }
+  }
+`;
+
+export const REGEOCODE_ADDRESS = gql`
+  mutation RegeocodeAddress($id: ID!) {
+    regeocodeAddress(id: $id) {
+      id
+      latitude
+      longitude
+      formattedAddress
+      congressionalDistrict
+      stateSenatorialDistrict
+      stateAssemblyDistrict
+      county
+      municipality
+      schoolDistrict
+      precinctId
+      updatedAt
+    }
+  }
+`;
+
 // ============================================
 // Notification Preferences Queries & Mutations
 // ============================================
@@ -489,6 +576,10 @@ export const GET_MY_NOTIFICATION_PREFERENCES = gql`
       emailSecurityAlerts
       emailMarketing
       emailFrequency
+      inAppEnabled
+      inAppSecurityAlerts
+      inAppCivicUpdates
+      inAppDocumentUpdates
       pushEnabled
       pushProductUpdates
       pushSecurityAlerts
@@ -522,6 +613,10 @@ export const UPDATE_NOTIFICATION_PREFERENCES = gql`
       emailSecurityAlerts
       emailMarketing
       emailFrequency
+      inAppEnabled
+      inAppSecurityAlerts
+      inAppCivicUpdates
+      inAppDocumentUpdates
       pushEnabled
       pushProductUpdates
       pushSecurityAlerts
@@ -639,6 +734,14 @@ export interface SetPrimaryAddressData {
   setPrimaryAddress: UserAddress;
 }
 
+export interface VerifyAddressData {
+  verifyAddress: AddressVerificationResult;
+}
+
+export interface RegeocodeAddressData {
+  regeocodeAddress: UserAddress;
+}
+
 export interface MyNotificationPreferencesData {
   myNotificationPreferences: NotificationPreferences | null;
 }
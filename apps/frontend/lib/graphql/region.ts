@@ -5,7 +5,20 @@ import { gql } from "@apollo/client";
 // ============================================
 
 export type PropositionStatus = "PENDING" | "PASSED" | "FAILED" | "WITHDRAWN";
-export type CivicDataType = "PROPOSITIONS" | "MEETINGS" | "REPRESENTATIVES";
+export type PropositionPosition = "FOR" | "AGAINST";
+export type VoteThreshold =
+  | "MAJORITY"
+  | "FIFTY_FIVE_PERCENT"
+  | "THREE_FIFTHS"
+  | "TWO_THIRDS";
+export type CivicDataType =
+  | "PROPOSITIONS"
+  | "MEETINGS"
+  | "REPRESENTATIVES"
+  | "ELECTIONS"
+  | "BILLS"
+  | "VOTES"
+  | "RACES";
 
 export interface RegionInfo {
   id: string;
@@ -16,6 +29,19 @@ export interface RegionInfo {
   supportedDataTypes: CivicDataType[];
 }
 
+export interface PropositionArgument {
+  position: PropositionPosition;
+  text: string;
+  authors?: string[];
+  rebuttal?: string;
+}
+
+export interface Endorsement {
+  organization: string;
+  position: PropositionPosition;
+  url?: string;
+}
+
 export interface Proposition {
   id: string;
   externalId: string;
@@ -25,8 +51,39 @@ export interface Proposition {
   status: PropositionStatus;
   electionDate?: string;
   sourceUrl?: string;
+  // Voter guide sections, fetched with a single proposition
+  arguments?: PropositionArgument[];
+  fiscalImpact?: string;
+  voteThreshold?: VoteThreshold;
+  endorsements?: Endorsement[];
   createdAt: string;
   updatedAt: string;
+  // Set when searching; the snippet is HTML-escaped with <mark> highlights
+  searchRank?: number;
+  searchSnippet?: string;
+}
+
+export type DiffOperation = "ADDED" | "REMOVED" | "UNCHANGED";
+
+export interface DiffLine {
+  operation: DiffOperation;
+  text: string;
+}
+
+export interface PropositionFieldChange {
+  field: string;
+  previousValue?: string;
+  newValue?: string;
+  diff: DiffLine[];
+}
+
+export interface PropositionRevision {
+  id: string;
+  propositionId: string;
+  syncRunId?: string;
+  changedFields: string[];
+  changes: PropositionFieldChange[];
+  createdAt: string;
 }
 
 export interface PaginatedPropositions {
@@ -43,6 +100,7 @@ export interface Meeting {
   scheduledAt: string;
   location?: string;
   agendaUrl?: string;
+  minutesUrl?: string;
   videoUrl?: string;
   createdAt: string;
   updatedAt: string;
@@ -54,6 +112,37 @@ export interface PaginatedMeetings {
   hasMore: boolean;
 }
 
+export type MeetingDocumentKind = "AGENDA" | "MINUTES";
+
+export interface AgendaItem {
+  number?: string;
+  title: string;
+  text: string;
+}
+
+export interface MeetingDocument {
+  id: string;
+  meetingId: string;
+  kind: MeetingDocumentKind;
+  url: string;
+  items: AgendaItem[];
+  updatedAt: string;
+}
+
+export interface MeetingSearchResult {
+  meeting: Meeting;
+  kind: MeetingDocumentKind;
+  url: string;
+  content: string;
+  score: number;
+}
+
+export interface PaginatedMeetingSearchResults {
+  items: MeetingSearchResult[];
+  total: number;
+  hasMore: boolean;
+}
+
 export interface Representative {
   id: string;
   externalId: string;
@@ -80,11 +169,206 @@ export interface PaginatedRepresentatives {
   hasMore: boolean;
 }
 
+export interface Election {
+  id: string;
+  regionId: string;
+  externalId: string;
+  name: string;
+  electionDate: string;
+  registrationDeadline?: string;
+  mailBallotRequestDeadline?: string;
+  mailBallotReturnDeadline?: string;
+  earlyVotingStart?: string;
+  earlyVotingEnd?: string;
+  sourceUrl?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PaginatedElections {
+  items: Election[];
+  total: number;
+  hasMore: boolean;
+}
+
+export type VoterDeadlineType =
+  | "REGISTRATION"
+  | "MAIL_BALLOT_REQUEST"
+  | "MAIL_BALLOT_RETURN"
+  | "EARLY_VOTING";
+
+export interface VoterDeadline {
+  type: VoterDeadlineType;
+  date: string;
+  /** Set for EARLY_VOTING, when the window closes */
+  endDate?: string;
+  electionId: string;
+  electionName: string;
+  electionDate: string;
+  regionId: string;
+}
+
+export type BillStatus =
+  | "INTRODUCED"
+  | "IN_COMMITTEE"
+  | "PASSED_CHAMBER"
+  | "PASSED_LEGISLATURE"
+  | "ENACTED"
+  | "VETOED"
+  | "FAILED"
+  | "WITHDRAWN";
+
+export interface BillSponsor {
+  name: string;
+  representativeExternalId?: string;
+  primary: boolean;
+}
+
+export interface BillAction {
+  date: string;
+  description: string;
+  chamber?: string;
+  status?: BillStatus;
+}
+
+export interface Bill {
+  id: string;
+  regionId: string;
+  externalId: string;
+  number: string;
+  title: string;
+  summary?: string;
+  chamber?: string;
+  session?: string;
+  status: BillStatus;
+  introducedAt?: string;
+  sponsors: BillSponsor[];
+  /** Status timeline, oldest first */
+  actions: BillAction[];
+  sourceUrl?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PaginatedBills {
+  items: Bill[];
+  total: number;
+  hasMore: boolean;
+}
+
+export type VoteOption = "YES" | "NO" | "ABSTAIN" | "ABSENT";
+
+export interface MemberVote {
+  name: string;
+  representativeExternalId?: string;
+  option: VoteOption;
+}
+
+export interface Vote {
+  id: string;
+  regionId: string;
+  externalId: string;
+  billExternalId?: string;
+  motion: string;
+  chamber: string;
+  votedAt: string;
+  passed: boolean;
+  memberVotes: MemberVote[];
+  sourceUrl?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RepresentativeVote {
+  voteId: string;
+  motion: string;
+  chamber: string;
+  votedAt: string;
+  passed: boolean;
+  option: VoteOption;
+  billId?: string;
+  billNumber?: string;
+  billTitle?: string;
+}
+
+export interface PaginatedRepresentativeVotes {
+  items: RepresentativeVote[];
+  total: number;
+  hasMore: boolean;
+}
+
+export interface Candidate {
+  name: string;
+  party?: string;
+  incumbent: boolean;
+  representativeExternalId?: string;
+  /** The synced representative the candidate is, if any */
+  representative?: Representative;
+  ballotDesignation?: string;
+  website?: string;
+}
+
+export interface Race {
+  id: string;
+  regionId: string;
+  externalId: string;
+  electionExternalId?: string;
+  office: string;
+  chamber?: string;
+  /** Not set for region-wide races */
+  district?: string;
+  electionDate: string;
+  candidates: Candidate[];
+  sourceUrl?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PaginatedRaces {
+  items: Race[];
+  total: number;
+  hasMore: boolean;
+}
+
+export type DistrictType =
+  | "CONGRESSIONAL"
+  | "STATE_SENATE"
+  | "STATE_ASSEMBLY"
+  | "COUNTY"
+  | "MUNICIPALITY"
+  | "SCHOOL_DISTRICT";
+
+export interface RepresentativeMatch {
+  representative: Representative;
+  districtType: DistrictType;
+  district: string;
+}
+
+export interface MyRepresentatives {
+  addressId: string;
+  matches: RepresentativeMatch[];
+  missingDistricts: DistrictType[];
+}
+
+export interface BallotRace {
+  race: Race;
+  /** Not set for region-wide races */
+  districtType?: DistrictType;
+  district?: string;
+}
+
+export interface MyBallot {
+  addressId: string;
+  races: BallotRace[];
+  missingDistricts: DistrictType[];
+}
+
 export interface SyncResult {
   dataType: CivicDataType;
   itemsProcessed: number;
   itemsCreated: number;
   itemsUpdated: number;
+  itemsRemoved: number;
   errors: string[];
   syncedAt: string;
 }
@@ -105,6 +389,10 @@ export interface PropositionData {
   proposition: Proposition | null;
 }
 
+export interface PropositionRevisionsData {
+  propositionRevisions: PropositionRevision[];
+}
+
 export interface MeetingsData {
   meetings: PaginatedMeetings;
 }
@@ -113,6 +401,14 @@ export interface MeetingData {
   meeting: Meeting | null;
 }
 
+export interface MeetingDocumentsData {
+  meetingDocuments: MeetingDocument[];
+}
+
+export interface SearchMeetingsData {
+  searchMeetings: PaginatedMeetingSearchResults;
+}
+
 export interface RepresentativesData {
   representatives: PaginatedRepresentatives;
 }
@@ -121,6 +417,46 @@ export interface RepresentativeData {
   representative: Representative | null;
 }
 
+export interface ElectionsData {
+  elections: PaginatedElections;
+}
+
+export interface VoterDeadlinesData {
+  voterDeadlines: VoterDeadline[];
+}
+
+export interface BillsData {
+  bills: PaginatedBills;
+}
+
+export interface BillData {
+  bill: Bill | null;
+}
+
+export interface BillVotesData {
+  billVotes: Vote[];
+}
+
+export interface RepresentativeVotesData {
+  representativeVotes: PaginatedRepresentativeVotes | null;
+}
+
+export interface RacesData {
+  races: PaginatedRaces;
+}
+
+export interface RaceData {
+  race: Race | null;
+}
+
+export interface MyBallotData {
+  myBallot: MyBallot | null;
+}
+
+export interface MyRepresentativesData {
+  myRepresentatives: MyRepresentatives | null;
+}
+
 export interface SyncAllData {
   syncAll: SyncResult[];
 }
@@ -138,10 +474,97 @@ export interface PaginationVars {
   take?: number;
 }
 
+export type SortOrder = "ASC" | "DESC";
+export type PropositionSortField = "RELEVANCE" | "ELECTION_DATE" | "TITLE";
+
+export interface PropositionFilterInput {
+  statuses?: PropositionStatus[];
+  electionDateFrom?: string;
+  electionDateTo?: string;
+  query?: string;
+  sortBy?: PropositionSortField;
+  sortOrder?: SortOrder;
+}
+
+export interface MeetingFilterInput {
+  body?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  upcoming?: boolean;
+  location?: string;
+  sortOrder?: SortOrder;
+}
+
+export interface ElectionFilterInput {
+  dateFrom?: string;
+  dateTo?: string;
+  upcoming?: boolean;
+  sortOrder?: SortOrder;
+}
+
+export interface BillFilterInput {
+  statuses?: BillStatus[];
+  chamber?: string;
+  session?: string;
+  query?: string;
+}
+
+export interface RaceFilterInput {
+  upcoming?: boolean;
+  chamber?: string;
+  query?: string;
+}
+
+export interface PropositionsVars extends PaginationVars {
+  filter?: PropositionFilterInput;
+}
+
+export interface MeetingsVars extends PaginationVars {
+  filter?: MeetingFilterInput;
+}
+
+export interface MeetingDocumentsVars {
+  meetingId: string;
+}
+
+export interface SearchMeetingsVars extends PaginationVars {
+  query: string;
+  regionId?: string;
+}
+
+export interface ElectionsVars extends PaginationVars {
+  filter?: ElectionFilterInput;
+}
+
+export interface VoterDeadlinesVars {
+  from?: string;
+  to?: string;
+}
+
+export interface BillsVars extends PaginationVars {
+  filter?: BillFilterInput;
+}
+
+export interface RepresentativeVotesVars extends PaginationVars {
+  id: string;
+}
+
+export interface RacesVars extends PaginationVars {
+  filter?: RaceFilterInput;
+}
+
 export interface RepresentativesVars extends PaginationVars {
   chamber?: string;
 }
 
+export interface MyRepresentativesVars {
+  addressId?: string;
+}
+
+export interface MyBallotVars {
+  addressId?: string;
+}
+
 export interface IdVars {
   id: string;
 }
@@ -168,8 +591,12 @@ export const GET_REGION_INFO = gql`
 `;
 
 export const GET_PROPOSITIONS = gql`
-  query GetPropositions($skip: Int, $take: Int) {
-    propositions(skip: $skip, take: $take) {
+  query GetPropositions(
+    $skip: Int
+    $take: Int
+    $filter: PropositionFilterInput
+  ) {
+    propositions(skip: $skip, take: $take, filter: $filter) {
       items {
         id
         externalId
@@ -180,6 +607,8 @@ export const GET_PROPOSITIONS = gql`
         sourceUrl
         createdAt
         updatedAt
+        searchRank
+        searchSnippet
       }
       total
       hasMore
@@ -198,15 +627,49 @@ export const GET_PROPOSITION = gql`
       status
       electionDate
       sourceUrl
+      arguments {
+        position
+        text
+        authors
+        rebuttal
+      }
+      fiscalImpact
+      voteThreshold
+      endorsements {
+        organization
+        position
+        url
+      }
       createdAt
       updatedAt
     }
   }
 `;
 
+export const GET_PROPOSITION_REVISIONS = gql`
+  query GetPropositionRevisions($id: ID!) {
+    propositionRevisions(id: $id) {
+      id
+      propositionId
+      syncRunId
+      changedFields
+      changes {
+        field
+        previousValue
+        newValue
+        diff {
+          operation
+          text
+        }
+      }
+      createdAt
+    }
+  }
+`;
+
 export const GET_MEETINGS = gql`
-  query GetMeetings($skip: Int, $take: Int) {
-    meetings(skip: $skip, take: $take) {
+  query GetMeetings($skip: Int, $take: Int, $filter: MeetingFilterInput) {
+    meetings(skip: $skip, take: $take, filter: $filter) {
       items {
         id
         externalId
@@ -215,6 +678,7 @@ export const GET_MEETINGS = gql`
         scheduledAt
         location
         agendaUrl
+        minutesUrl
         videoUrl
         createdAt
         updatedAt
@@ -235,6 +699,7 @@ export const GET_MEETING = gql`
       scheduledAt
       location
       agendaUrl
+      minutesUrl
       videoUrl
       createdAt
       updatedAt
@@ -242,6 +707,183 @@ export const GET_MEETING = gql`
   }
 `;
 
+export const GET_MEETING_DOCUMENTS = gql`
+  query GetMeetingDocuments($meetingId: ID!) {
+    meetingDocuments(meetingId: $meetingId) {
+      id
+      meetingId
+      kind
+      url
+      items {
+        number
+        title
+        text
+      }
+      updatedAt
+    }
+  }
+`;
+
+export const SEARCH_MEETINGS = gql`
+  query SearchMeetings(
+    $query: String!
+    $skip: Int
+    $take: Int
+    $regionId: String
+  ) {
+    searchMeetings(
+      query: $query
+      skip: $skip
+      take: $take
+      regionId: $regionId
+    ) {
+      items {
+        meeting {
+          id
+          title
+          body
+          scheduledAt
+          agendaUrl
+          minutesUrl
+          videoUrl
+        }
+        kind
+        url
+        content
+        score
+      }
+      total
+      hasMore
+    }
+  }
+`;
+
+export const GET_ELECTIONS = gql`
+  query GetElections($skip: Int, $take: Int, $filter: ElectionFilterInput) {
+    elections(skip: $skip, take: $take, filter: $filter) {
+      items {
+        id
+        regionId
+        externalId
+        name
+        electionDate
+        registrationDeadline
+        mailBallotRequestDeadline
+        mailBallotReturnDeadline
+        earlyVotingStart
+        earlyVotingEnd
+        sourceUrl
+        createdAt
+        updatedAt
+      }
+      total
+      hasMore
+    }
+  }
+`;
+
+export const GET_VOTER_DEADLINES = gql`
+  query GetVoterDeadlines($from: DateTime, $to: DateTime) {
+    voterDeadlines(from: $from, to: $to) {
+      type
+      date
+      endDate
+      electionId
+      electionName
+      electionDate
+      regionId
+    }
+  }
+`;
+
+export const GET_BILLS = gql`
+  query GetBills($skip: Int, $take: Int, $filter: BillFilterInput) {
+    bills(skip: $skip, take: $take, filter: $filter) {
+      items {
+        id
+        externalId
+        number
+        title
+        chamber
+        session
+        status
+        introducedAt
+      }
+      total
+      hasMore
+    }
+  }
+`;
+
+export const GET_BILL = gql`
+  query GetBill($id: ID!) {
+    bill(id: $id) {
+      id
+      regionId
+      externalId
+      number
+      title
+      summary
+      chamber
+      session
+      status
+      introducedAt
+      sponsors {
+        name
+        representativeExternalId
+        primary
+      }
+      actions {
+        date
+        description
+        chamber
+        status
+      }
+      sourceUrl
+      createdAt
+      updatedAt
+    }
+  }
+`;
+
+export const GET_BILL_VOTES = gql`
+  query GetBillVotes($id: ID!) {
+    billVotes(id: $id) {
+      id
+      motion
+      chamber
+      votedAt
+      passed
+      memberVotes {
+        name
+        representativeExternalId
+        option
+      }
+      sourceUrl
+    }
+  }
+`;
+
+export const GET_REPRESENTATIVE_VOTES = gql`
+  query GetRepresentativeVotes($id: ID!, $skip: Int, $take: Int) {
+    representativeVotes(id: $id, skip: $skip, take: $take) {
+      items {
+        voteId
+        motion
+        chamber
+        votedAt
+        passed
+        option
+        billId
+        billNumber
+        billTitle
+      }
+      total
+      hasMore
+    }
+  }
+`;
+
 export const GET_REPRESENTATIVES = gql`
   query GetRepresentatives($skip: Int, $take: Int, $chamber: String) {
     representatives(skip: $skip, take: $take, chamber: $chamber) {
@@ -290,6 +932,120 @@ export const GET_REPRESENTATIVE = gql`
   }
 `;
 
+export const GET_MY_REPRESENTATIVES = gql`
+  query GetMyRepresentatives($addressId: ID) {
+    myRepresentatives(addressId: $addressId) {
+      addressId
+      matches {
+        districtType
+        district
+        representative {
+          id
+          externalId
+          name
+          chamber
+          district
+          party
+          photoUrl
+          contactInfo {
+            email
+            phone
+            website
+          }
+          createdAt
+          updatedAt
+        }
+      }
+      missingDistricts
+    }
+  }
+`;
+
+export const GET_RACES = gql`
+  query GetRaces($skip: Int, $take: Int, $filter: RaceFilterInput) {
+    races(skip: $skip, take: $take, filter: $filter) {
+      items {
+        id
+        externalId
+        office
+        chamber
+        district
+        electionDate
+        candidates {
+          name
+          party
+          incumbent
+        }
+      }
+      total
+      hasMore
+    }
+  }
+`;
+
+export const GET_RACE = gql`
+  query GetRace($id: ID!) {
+    race(id: $id) {
+      id
+      regionId
+      externalId
+      electionExternalId
+      office
+      chamber
+      district
+      electionDate
+      candidates {
+        name
+        party
+        incumbent
+        ballotDesignation
+        website
+        representative {
+          id
+          name
+          photoUrl
+        }
+      }
+      sourceUrl
+      createdAt
+      updatedAt
+    }
+  }
+`;
+
+export const GET_MY_BALLOT = gql`
+  query GetMyBallot($addressId: ID) {
+    myBallot(addressId: $addressId) {
+      addressId
+      races {
+        districtType
+        district
+        race {
+          id
+          office
+          chamber
+          district
+          electionDate
+          candidates {
+            name
+            party
+            incumbent
+            ballotDesignation
+            website
+            representative {
+              id
+              name
+              photoUrl
+            }
+          }
+          sourceUrl
+        }
+      }
+      missingDistricts
+    }
+  }
+`;
+
 // ============================================
 // Mutations
 // ============================================
@@ -301,6 +1057,7 @@ export const SYNC_ALL = gql`
       itemsProcessed
       itemsCreated
       itemsUpdated
+      itemsRemoved
       errors
       syncedAt
     }
@@ -314,6 +1071,7 @@ export const SYNC_DATA_TYPE = gql`
       itemsProcessed
       itemsCreated
       itemsUpdated
+      itemsRemoved
       errors
       syncedAt
     }
@@ -1,2 +1,3 @@
 export { usePasskey } from "./usePasskey";
 export { useMagicLink } from "./useMagicLink";
+export { usePushNotifications } from "./usePushNotifications";
@@ -0,0 +1,220 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import { useMutation, useQuery } from "@apollo/client/react";
+
+import {
+  WEB_PUSH_PUBLIC_KEY,
+  REGISTER_PUSH_SUBSCRIPTION,
+  UNREGISTER_PUSH_SUBSCRIPTION,
+  WebPushPublicKeyData,
+  RegisterPushSubscriptionData,
+  UnregisterPushSubscriptionData,
+} from "@/lib/graphql/notifications";
+
+// Service worker that shows push notifications (public/sw.js)
+const SERVICE_WORKER_URL = "/sw.js";
+
+interface UsePushNotificationsResult {
+  // State
+  isLoading: boolean;
+  error: string | null;
+  supportsPush: boolean;
+  // Whether the server can send push notifications
+  available: boolean;
+  permission: NotificationPermission;
+  subscribed: boolean;
+
+  // Actions
+  subscribe: () => Promise<boolean>;
+  unsubscribe: () => Promise<boolean>;
+  clearError: () => void;
+}
+
+/**
+ * Convert a base64url VAPID key to the bytes PushManager expects
+ */
+function base64UrlToUint8Array(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4))
+    .replaceAll("-", "+")
+    .replaceAll("_", "/");
+  const raw = atob(base64);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function browserSupportsPush(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window
+  );
+}
+
+export function usePushNotifications(): UsePushNotificationsResult {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [supportsPush, setSupportsPush] = useState(false);
+  const [permission, setPermission] =
+    useState<NotificationPermission>("default");
+  const [subscribed, setSubscribed] = useState(false);
+
+  const { data: publicKeyData } =
+    useQuery<WebPushPublicKeyData>(WEB_PUSH_PUBLIC_KEY);
+  const publicKey = publicKeyData?.webPushPublicKey ?? null;
+
+  const [registerSubscription] = useMutation<RegisterPushSubscriptionData>(
+    REGISTER_PUSH_SUBSCRIPTION,
+  );
+  const [unregisterSubscription] = useMutation<UnregisterPushSubscriptionData>(
+    UNREGISTER_PUSH_SUBSCRIPTION,
+  );
+
+  /**
+   * Store this browser's subscription for the signed-in user
+   */
+  const saveSubscription = useCallback(
+    async (subscription: PushSubscription) => {
+      const { endpoint, expirationTime, keys } = subscription.toJSON();
+      if (!endpoint || !keys?.p256dh || !keys?.auth) {
+        throw new Error("The browser returned an incomplete subscription");
+      }
+      await registerSubscription({
+        variables: {
+          input: {
+            endpoint,
+            p256dh: keys.p256dh,
+            auth: keys.auth,
+            expirationTime: expirationTime ?? undefined,
+          },
+        },
+      });
+    },
+    [registerSubscription],
+  );
+
+  // Install the service worker and pick up an existing subscription on mount.
+  // Existing subscriptions are registered again so the server keeps them and
+  // they follow whoever is signed in on this browser.
+  useEffect(() => {
+    if (!browserSupportsPush()) return;
+    setSupportsPush(true);
+    setPermission(Notification.permission);
+
+    let cancelled = false;
+    const restore = async () => {
+      const registration =
+        await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      const subscription = await registration.pushManager.getSubscription();
+      if (!subscription || cancelled) return;
+      setSubscribed(true);
+      await saveSubscription(subscription);
+    };
+
+    restore().catch(() => {
+      // Push stays off in this browser; subscribing reports the error
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [saveSubscription]);
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  /**
+   * Ask for permission and start receiving push notifications in this browser
+   */
+  const subscribe = useCallback(async (): Promise<boolean> => {
+    if (!supportsPush) {
+      setError("Push notifications are not supported in this browser");
+      return false;
+    }
+    if (!publicKey) {
+      setError("Push notifications are not available");
+      return false;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== "granted") {
+        throw new Error("Notifications are blocked for this site");
+      }
+
+      const registration =
+        await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      const subscription =
+        (await registration.pushManager.getSubscription()) ??
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: base64UrlToUint8Array(publicKey),
+        }));
+      await saveSubscription(subscription);
+
+      setSubscribed(true);
+      return true;
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to turn on push notifications",
+      );
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [supportsPush, publicKey, saveSubscription]);
+
+  /**
+   * Stop receiving push notifications in this browser
+   */
+  const unsubscribe = useCallback(async (): Promise<boolean> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const registration =
+        await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+      const subscription = await registration?.pushManager.getSubscription();
+      if (subscription) {
+        await unregisterSubscription({
+          variables: { endpoint: subscription.endpoint },
+        });
+        await subscription.unsubscribe();
+      }
+
+      setSubscribed(false);
+      return true;
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to turn off push notifications",
+      );
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [unregisterSubscription]);
+
+  return {
+    isLoading,
+    error,
+    supportsPush,
+    available: publicKey !== null,
+    permission,
+    subscribed,
+    subscribe,
+    unsubscribe,
+    clearError,
+  };
+}
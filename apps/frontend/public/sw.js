@@ -0,0 +1,49 @@
+/**
+ * Service worker showing Web Push notifications
+ *
+ * The server pushes JSON messages: { title, body?, url?, tag? }. Clicking a
+ * notification focuses an open tab of the app, or opens one, at its url.
+ */
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("push", (event) => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch {
+    message = { body: event.data ? event.data.text() : "" };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || "Notification", {
+      body: message.body,
+      tag: message.tag,
+      icon: "/favicons/favicon-512.png",
+      badge: "/favicons/favicon-32.png",
+      data: { url: message.url || "/" },
+    }),
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin)
+    .href;
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((windows) => {
+        const open = windows.find((client) => client.url === url);
+        if (open) return open.focus();
+        return self.clients.openWindow(url);
+      }),
+  );
+});
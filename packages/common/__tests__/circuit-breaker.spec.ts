@@ -332,6 +332,14 @@ describe("DEFAULT_CIRCUIT_CONFIGS", () => {
       serviceName: "Extraction",
     });
   });
+
+  it("should have geocoding config", () => {
+    expect(DEFAULT_CIRCUIT_CONFIGS.geocoding).toEqual({
+      failureThreshold: 5,
+      halfOpenAfterMs: 30000,
+      serviceName: "Geocoding",
+    });
+  });
 });
 
 describe("CircuitState enum", () => {
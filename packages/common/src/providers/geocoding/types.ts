@@ -0,0 +1,59 @@
+/**
+ * Geocoding Provider Types
+ *
+ * Interfaces for address geocoding (Nominatim, Pelias, etc.)
+ */
+
+/**
+ * Structured address to geocode
+ */
+export interface GeocodingQuery {
+  addressLine1: string;
+  addressLine2?: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string; // ISO 3166-1 alpha-2
+}
+
+/**
+ * Geocoding result for an address
+ */
+export interface GeocodingResult {
+  latitude: number;
+  longitude: number;
+  formattedAddress: string;
+  placeId?: string; // Provider-specific place identifier
+  confidence?: number; // 0-1 where the provider reports it
+}
+
+/**
+ * Strategy interface for geocoding providers
+ */
+export interface IGeocodingProvider {
+  /**
+   * Get provider name
+   */
+  getName(): string;
+
+  /**
+   * Geocode a structured address
+   *
+   * @returns The best match, or null when the address is not found
+   * @throws GeocodingError when the lookup fails
+   */
+  geocode(query: GeocodingQuery): Promise<GeocodingResult | null>;
+}
+
+/**
+ * Exception thrown when geocoding fails
+ */
+export class GeocodingError extends Error {
+  constructor(
+    public provider: string,
+    public originalError: Error,
+  ) {
+    super(`Geocoding failed in ${provider}: ${originalError.message}`);
+    this.name = "GeocodingError";
+  }
+}
@@ -13,6 +13,10 @@ export enum CivicDataType {
   PROPOSITIONS = "propositions",
   MEETINGS = "meetings",
   REPRESENTATIVES = "representatives",
+  ELECTIONS = "elections",
+  BILLS = "bills",
+  VOTES = "votes",
+  RACES = "races",
 }
 
 /**
@@ -25,6 +29,48 @@ export enum PropositionStatus {
   WITHDRAWN = "withdrawn",
 }
 
+/**
+ * Side of a ballot measure an argument or endorsement takes
+ */
+export enum PropositionPosition {
+  FOR = "for",
+  AGAINST = "against",
+}
+
+/**
+ * Share of the vote a ballot measure needs to pass
+ */
+export enum VoteThreshold {
+  MAJORITY = "majority",
+  FIFTY_FIVE_PERCENT = "fifty_five_percent",
+  THREE_FIFTHS = "three_fifths",
+  TWO_THIRDS = "two_thirds",
+}
+
+/**
+ * Bill status values, in the order a bill usually moves through them
+ */
+export enum BillStatus {
+  INTRODUCED = "introduced",
+  IN_COMMITTEE = "in_committee",
+  PASSED_CHAMBER = "passed_chamber",
+  PASSED_LEGISLATURE = "passed_legislature",
+  ENACTED = "enacted",
+  VETOED = "vetoed",
+  FAILED = "failed",
+  WITHDRAWN = "withdrawn",
+}
+
+/**
+ * How a member voted on a roll call
+ */
+export enum VoteOption {
+  YES = "yes",
+  NO = "no",
+  ABSTAIN = "abstain",
+  ABSENT = "absent",
+}
+
 /**
  * Region information and configuration
  */
@@ -33,6 +79,9 @@ export interface RegionInfo {
   name: string;
   description: string;
   timezone: string;
+  // Two-letter code of the US state the region is in, used to match
+  // addresses to the region
+  state?: string;
   dataSourceUrls?: string[];
 }
 
@@ -46,8 +95,32 @@ export interface ContactInfo {
   website?: string;
 }
 
+/**
+ * Argument for or against a ballot measure, as printed in the voter guide
+ */
+export interface PropositionArgument {
+  position: PropositionPosition;
+  text: string;
+  /** Signers of the argument */
+  authors?: string[];
+  /** The other side's rebuttal to this argument */
+  rebuttal?: string;
+}
+
+/**
+ * Organization taking a side on a ballot measure
+ */
+export interface Endorsement {
+  organization: string;
+  position: PropositionPosition;
+  url?: string;
+}
+
 /**
  * Proposition/ballot measure data
+ *
+ * The voter guide sections (arguments, fiscal impact, vote threshold and
+ * endorsements) are optional; providers fill the ones their sources publish.
  */
 export interface Proposition {
   externalId: string;
@@ -57,6 +130,12 @@ export interface Proposition {
   status: PropositionStatus;
   electionDate?: Date;
   sourceUrl?: string;
+  /** Arguments for and against, each with its rebuttal */
+  arguments?: PropositionArgument[];
+  /** Fiscal impact statement, e.g. by the legislative analyst */
+  fiscalImpact?: string;
+  voteThreshold?: VoteThreshold;
+  endorsements?: Endorsement[];
 }
 
 /**
@@ -69,6 +148,7 @@ export interface Meeting {
   scheduledAt: Date;
   location?: string;
   agendaUrl?: string;
+  minutesUrl?: string;
   videoUrl?: string;
 }
 
@@ -85,14 +165,138 @@ export interface Representative {
   contactInfo?: ContactInfo;
 }
 
+/**
+ * Election and its voter deadlines
+ *
+ * Deadlines are the last moment something can be done. An early-voting
+ * window has both a start and an end, or neither.
+ */
+export interface Election {
+  externalId: string;
+  name: string;
+  electionDate: Date;
+  registrationDeadline?: Date;
+  mailBallotRequestDeadline?: Date;
+  mailBallotReturnDeadline?: Date;
+  earlyVotingStart?: Date;
+  earlyVotingEnd?: Date;
+  sourceUrl?: string;
+}
+
+/**
+ * Sponsor of a bill
+ */
+export interface BillSponsor {
+  name: string;
+  /** Representative.externalId, when the sponsor is a synced representative */
+  representativeExternalId?: string;
+  /** Primary author, as opposed to a co-sponsor */
+  primary: boolean;
+}
+
+/**
+ * Step in a bill's history
+ */
+export interface BillAction {
+  date: Date;
+  description: string;
+  chamber?: string;
+  /** Status the bill reached with this action, if it changed */
+  status?: BillStatus;
+}
+
+/**
+ * Legislative bill data
+ */
+export interface Bill {
+  externalId: string;
+  /** Bill number as the legislature writes it (e.g., "AB 123") */
+  number: string;
+  title: string;
+  summary?: string;
+  /** Chamber the bill was introduced in */
+  chamber?: string;
+  session?: string;
+  status: BillStatus;
+  introducedAt?: Date;
+  sponsors: BillSponsor[];
+  /** Status timeline, oldest first */
+  actions: BillAction[];
+  sourceUrl?: string;
+}
+
+/**
+ * One member's vote in a roll call
+ */
+export interface MemberVote {
+  name: string;
+  /** Representative.externalId, when the member is a synced representative */
+  representativeExternalId?: string;
+  option: VoteOption;
+}
+
+/**
+ * Roll-call vote data
+ */
+export interface Vote {
+  externalId: string;
+  /** Bill.externalId of the bill voted on; missing for other motions */
+  billExternalId?: string;
+  motion: string;
+  chamber: string;
+  votedAt: Date;
+  passed: boolean;
+  memberVotes: MemberVote[];
+  sourceUrl?: string;
+}
+
+/**
+ * Candidate running in a race
+ */
+export interface Candidate {
+  name: string;
+  party?: string;
+  /** Holds the office the race is for */
+  incumbent: boolean;
+  /** Representative.externalId, when the candidate is a synced representative */
+  representativeExternalId?: string;
+  /** Designation printed under the name on the ballot (e.g., "Teacher") */
+  ballotDesignation?: string;
+  website?: string;
+}
+
+/**
+ * Race (contest) for an office on an upcoming ballot
+ *
+ * A race without a district is region-wide, so it is on every ballot in
+ * the region.
+ */
+export interface Race {
+  externalId: string;
+  /** Election.externalId of the election the race is decided in */
+  electionExternalId?: string;
+  /** Office the race is for (e.g., "State Senate, District 11") */
+  office: string;
+  /** Chamber of the office, named like Representative.chamber */
+  chamber?: string;
+  district?: string;
+  electionDate: Date;
+  candidates: Candidate[];
+  sourceUrl?: string;
+}
+
 /**
  * Sync result metadata
  */
 export interface SyncResult {
+  /** RegionInfo.id of the provider that was synced */
+  regionId?: string;
   dataType: CivicDataType;
   itemsProcessed: number;
   itemsCreated: number;
   itemsUpdated: number;
+  /** Records soft-deleted because the provider no longer returns them */
+  itemsRemoved: number;
   errors: string[];
   syncedAt: Date;
 }
@@ -130,6 +334,32 @@ export interface IRegionProvider {
    * Fetch representatives from the region's data sources
    */
   fetchRepresentatives(): Promise<Representative[]>;
+
+  /**
+   * Fetch elections and voter deadlines from the region's data sources
+   */
+  fetchElections(): Promise<Election[]>;
+
+  /**
+   * Fetch bills from the region's data sources
+   *
+   * Optional: only providers that list BILLS as supported implement it.
+   */
+  fetchBills?(): Promise<Bill[]>;
+
+  /**
+   * Fetch roll-call votes from the region's data sources
+   *
+   * Optional: only providers that list VOTES as supported implement it.
+   */
+  fetchVotes?(): Promise<Vote[]>;
+
+  /**
+   * Fetch races and their candidates from the region's data sources
+   *
+   * Optional: only providers that list RACES as supported implement it.
+   */
+  fetchRaces?(): Promise<Race[]>;
 }
 
 /**
@@ -147,3 +377,13 @@ export class RegionError extends Error {
     this.name = "RegionError";
   }
 }
+
+/**
+ * Exception thrown when a region ID does not match any registered provider
+ */
+export class UnknownRegionError extends Error {
+  constructor(public regionId: string) {
+    super(`No region provider registered for region: ${regionId}`);
+    this.name = "UnknownRegionError";
+  }
+}
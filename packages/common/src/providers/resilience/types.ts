@@ -83,4 +83,10 @@ export const DEFAULT_CIRCUIT_CONFIGS: Record<string, CircuitBreakerConfig> = {
     halfOpenAfterMs: 60000, // 60 seconds
     serviceName: "Extraction",
   },
+  /** Geocoding - external HTTP APIs, moderate threshold and recovery */
+  geocoding: {
+    failureThreshold: 5,
+    halfOpenAfterMs: 30000, // 30 seconds
+    serviceName: "Geocoding",
+  },
 };
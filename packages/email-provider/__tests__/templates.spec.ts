@@ -7,6 +7,14 @@ import {
   RepresentativeContactTemplateData,
   generateMailtoLink,
 } from "../src/templates/representative-contact.template";
+import {
+  notificationsEmailTemplate,
+  NotificationsTemplateData,
+} from "../src/templates/notifications.template";
+import {
+  digestEmailTemplate,
+  DigestTemplateData,
+} from "../src/templates/digest.template";
 
 describe("Email Templates", () => {
   describe("welcomeEmailTemplate", () => {
@@ -196,4 +204,149 @@ describe("Email Templates", () => {
       expect(result).toBe("mailto:rep@congress.gov?subject=Subject&body=");
     });
   });
+
+  describe("notificationsEmailTemplate", () => {
+    const baseData: NotificationsTemplateData = {
+      platformName: "Commonwealth Labs",
+      preferencesUrl: "https://app.example.com/settings/notifications",
+      notifications: [
+        {
+          title: "Proposition updated: Prop 12 - Housing Bond",
+          lines: ["Status: pending → passed"],
+          url: "https://app.example.com/region/propositions",
+        },
+      ],
+    };
+
+    it("should use a single notification's title as subject", () => {
+      const result = notificationsEmailTemplate(baseData);
+
+      expect(result.subject).toBe(
+        "Proposition updated: Prop 12 - Housing Bond",
+      );
+      expect(result.html).toContain("Status: pending → passed");
+      expect(result.text).toContain("- Status: pending → passed");
+      expect(result.text).toContain(
+        "https://app.example.com/region/propositions",
+      );
+    });
+
+    it("should count several notifications in the subject", () => {
+      const result = notificationsEmailTemplate({
+        ...baseData,
+        userName: "Jane",
+        notifications: [
+          ...baseData.notifications,
+          { title: "New meeting: City Council Regular Meeting", lines: [] },
+        ],
+      });
+
+      expect(result.subject).toBe("2 notifications from Commonwealth Labs");
+      expect(result.html).toContain("Hello Jane");
+      expect(result.text).toContain(
+        "New meeting: City Council Regular Meeting",
+      );
+    });
+
+    it("should escape civic data in HTML", () => {
+      const result = notificationsEmailTemplate({
+        ...baseData,
+        notifications: [{ title: "Parks & <Recreation>", lines: ['"quoted"'] }],
+      });
+
+      expect(result.html).toContain("Parks &amp; &lt;Recreation&gt;");
+      expect(result.html).toContain("&quot;quoted&quot;");
+      expect(result.text).toContain("Parks & <Recreation>");
+    });
+
+    it("should link to notification preferences", () => {
+      const result = notificationsEmailTemplate(baseData);
+
+      expect(result.html).toContain(
+        'href="https://app.example.com/settings/notifications"',
+      );
+      expect(result.text).toContain(
+        "Change your notification preferences: https://app.example.com/settings/notifications",
+      );
+    });
+  });
+
+  describe("digestEmailTemplate", () => {
+    const baseData: DigestTemplateData = {
+      userName: "Jane",
+      platformName: "Commonwealth Labs",
+      frequency: "daily",
+      preferencesUrl: "https://app.example.com/settings/notifications",
+      sections: [
+        {
+          title: "Propositions",
+          items: [
+            {
+              title: "Updated: Prop 12 - Housing Bond",
+              lines: ["Status: passed"],
+              url: "https://app.example.com/region/propositions",
+            },
+          ],
+        },
+        {
+          title: "Upcoming meetings",
+          items: [
+            {
+              title: "City Council: Regular Meeting",
+              lines: ["Mar 12, 2024, 6:30 PM"],
+            },
+          ],
+        },
+      ],
+    };
+
+    it("should name the digest frequency in the subject", () => {
+      expect(digestEmailTemplate(baseData).subject).toBe(
+        "Your daily digest from Commonwealth Labs",
+      );
+      expect(
+        digestEmailTemplate({ ...baseData, frequency: "weekly" }).subject,
+      ).toBe("Your weekly digest from Commonwealth Labs");
+    });
+
+    it("should render each section with its items", () => {
+      const result = digestEmailTemplate(baseData);
+
+      expect(result.html).toContain("Hello Jane");
+      expect(result.html).toContain(">Upcoming meetings</h3>");
+      expect(result.html).toContain("<li>Status: passed</li>");
+      expect(result.text).toContain(
+        "PROPOSITIONS\n\nUpdated: Prop 12 - Housing Bond\n- Status: passed\nhttps://app.example.com/region/propositions",
+      );
+      expect(result.text).toContain(
+        "UPCOMING MEETINGS\n\nCity Council: Regular Meeting\n- Mar 12, 2024, 6:30 PM",
+      );
+    });
+
+    it("should escape civic data in HTML", () => {
+      const result = digestEmailTemplate({
+        ...baseData,
+        sections: [
+          {
+            title: "Parks & Recreation",
+            items: [{ title: "<Budget>", lines: [] }],
+          },
+        ],
+      });
+
+      expect(result.html).toContain("Parks &amp; Recreation");
+      expect(result.html).toContain("&lt;Budget&gt;");
+    });
+
+    it("should link to notification preferences", () => {
+      const result = digestEmailTemplate(baseData);
+
+      expect(result.html).toContain(
+        'href="https://app.example.com/settings/notifications"',
+      );
+      expect(result.text).toContain(
+        "Change your notification preferences: https://app.example.com/settings/notifications",
+      );
+    });
+  });
 });
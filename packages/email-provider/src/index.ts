@@ -30,3 +30,13 @@ export {
   generateMailtoLink,
   type RepresentativeContactTemplateData,
 } from "./templates/representative-contact.template.js";
+export {
+  notificationsEmailTemplate,
+  type NotificationsTemplateData,
+  type NotificationTemplateItem,
+} from "./templates/notifications.template.js";
+export {
+  digestEmailTemplate,
+  type DigestTemplateData,
+  type DigestTemplateSection,
+} from "./templates/digest.template.js";
@@ -0,0 +1,92 @@
+/**
+ * Digest Email Template
+ *
+ * Sent once a day or week to users who chose a digest instead of immediate
+ * notifications, grouping what happened since their last digest into
+ * sections such as propositions, upcoming meetings and voter deadlines.
+ */
+
+import {
+  escapeHtml,
+  notificationHtml,
+  notificationText,
+  NotificationTemplateItem,
+} from "./notifications.template.js";
+
+export interface DigestTemplateSection {
+  // e.g. "Upcoming meetings"
+  title: string;
+  items: NotificationTemplateItem[];
+}
+
+export interface DigestTemplateData {
+  userName?: string;
+  platformName: string;
+  frequency: "daily" | "weekly";
+  sections: DigestTemplateSection[];
+  preferencesUrl: string;
+}
+
+export function digestEmailTemplate(data: DigestTemplateData): {
+  html: string;
+  text: string;
+  subject: string;
+} {
+  const greeting = data.userName ? `Hello ${data.userName}` : "Hello";
+  const period = data.frequency === "daily" ? "today" : "this week";
+  const subject = `Your ${data.frequency} digest from ${data.platformName}`;
+
+  const sections = data.sections
+    .map(
+      (section) => `
+    <h3 style="color: #1e293b; font-size: 16px; margin: 32px 0 0;">${escapeHtml(section.title)}</h3>
+${section.items.map(notificationHtml).join("")}`,
+    )
+    .join("");
+
+  const text = data.sections
+    .map((section) =>
+      [
+        section.title.toUpperCase(),
+        ...section.items.map(notificationText),
+      ].join("\n\n"),
+    )
+    .join("\n\n");
+
+  return {
+    subject,
+    html: `
+<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  </head>
+  <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #1e293b;">
+    <h2 style="color: #1e293b; font-size: 20px;">${escapeHtml(greeting)},</h2>
+
+    <p style="color: #475569; line-height: 1.6;">
+      Here is what's new ${period}:
+    </p>
+${sections}
+
+    <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 32px 0;">
+
+    <p style="color: #94a3b8; font-size: 12px; text-align: center;">
+      You are receiving this ${data.frequency} digest because of your notification preferences on ${data.platformName}.
+      <a href="${escapeHtml(data.preferencesUrl)}" style="color: #94a3b8;">Change your notification preferences</a>.
+    </p>
+  </body>
+</html>
+    `.trim(),
+    text: `${greeting},
+
+Here is what's new ${period}:
+
+${text}
+
+---
+You are receiving this ${data.frequency} digest because of your notification preferences on ${data.platformName}.
+Change your notification preferences: ${data.preferencesUrl}`,
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Notifications Email Template
+ *
+ * Sent by the notification dispatcher with one or more notifications, such
+ * as changes to propositions, representatives or meeting bodies a user
+ * follows.
+ */
+
+export interface NotificationTemplateItem {
+  // e.g. "Proposition updated: Prop 12 - Housing Bond"
+  title: string;
+  // e.g. "Status: pending → passed"
+  lines: string[];
+  url?: string;
+}
+
+export interface NotificationsTemplateData {
+  userName?: string;
+  platformName: string;
+  notifications: NotificationTemplateItem[];
+  preferencesUrl: string;
+}
+
+// Notifications carry text from civic data sources, so it is escaped for HTML
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * One notification as an HTML card (also used by digest emails)
+ */
+export function notificationHtml(
+  notification: NotificationTemplateItem,
+): string {
+  const title = notification.url
+    ? `<a href="${escapeHtml(notification.url)}" style="color: #1e293b;">${escapeHtml(notification.title)}</a>`
+    : escapeHtml(notification.title);
+  const lines = notification.lines
+    .map((line) => `<li>${escapeHtml(line)}</li>`)
+    .join("");
+  return `
+    <div style="background-color: #f8fafc; padding: 16px 20px; border-radius: 8px; margin: 16px 0;">
+      <p style="color: #1e293b; font-weight: 600; margin: 0;">${title}</p>
+      ${lines ? `<ul style="color: #475569; line-height: 1.6; margin: 8px 0 0;">${lines}</ul>` : ""}
+    </div>`;
+}
+
+/**
+ * One notification as plain text (also used by digest emails)
+ */
+export function notificationText(
+  notification: NotificationTemplateItem,
+): string {
+  return [
+    notification.title,
+    ...notification.lines.map((line) => `- ${line}`),
+    ...(notification.url ? [notification.url] : []),
+  ].join("\n");
+}
+
+export function notificationsEmailTemplate(data: NotificationsTemplateData): {
+  html: string;
+  text: string;
+  subject: string;
+} {
+  const greeting = data.userName ? `Hello ${data.userName}` : "Hello";
+  const count = data.notifications.length;
+  const subject =
+    count === 1
+      ? data.notifications[0].title
+      : `${count} notifications from ${data.platformName}`;
+
+  const sections = data.notifications.map(notificationHtml).join("");
+
+  const text = data.notifications.map(notificationText).join("\n\n");
+
+  return {
+    subject,
+    html: `
+<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  </head>
+  <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #1e293b;">
+    <h2 style="color: #1e293b; font-size: 20px;">${escapeHtml(greeting)},</h2>
+
+    <p style="color: #475569; line-height: 1.6;">
+      Here are your latest updates:
+    </p>
+${sections}
+
+    <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 32px 0;">
+
+    <p style="color: #94a3b8; font-size: 12px; text-align: center;">
+      You are receiving this email because of your notification preferences on ${data.platformName}.
+      <a href="${escapeHtml(data.preferencesUrl)}" style="color: #94a3b8;">Change your notification preferences</a>.
+    </p>
+  </body>
+</html>
+    `.trim(),
+    text: `${greeting},
+
+Here are your latest updates:
+
+${text}
+
+---
+You are receiving this email because of your notification preferences on ${data.platformName}.
+Change your notification preferences: ${data.preferencesUrl}`,
+  };
+}
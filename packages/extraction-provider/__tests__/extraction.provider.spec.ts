@@ -245,6 +245,39 @@ describe("ExtractionProvider", () => {
     });
   });
 
+  describe("fetchBuffer", () => {
+    it("should fetch URL content as bytes without caching", async () => {
+      const bytes = new TextEncoder().encode("%PDF-1.7");
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        arrayBuffer: () => Promise.resolve(bytes.buffer),
+        headers: new Map([["content-type", "application/pdf"]]),
+      });
+
+      const result = await provider.fetchBuffer("https://example.com/a.pdf");
+      await provider.fetchBuffer("https://example.com/a.pdf");
+
+      expect(result.content.toString()).toBe("%PDF-1.7");
+      expect(result.contentType).toBe("application/pdf");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(provider.getCacheStats().size).toBe(0);
+    });
+
+    it("should throw FetchError on non-ok response", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: "Not Found",
+      });
+
+      await expect(
+        provider.fetchBuffer("https://example.com/missing.pdf"),
+      ).rejects.toThrow(FetchError);
+    });
+  });
+
   describe("extractPdfText", () => {
     it("should extract text from PDF buffer", async () => {
       const buffer = Buffer.from("fake pdf content");
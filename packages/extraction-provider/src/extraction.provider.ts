@@ -28,6 +28,7 @@ import {
   FetchOptions,
   RetryOptions,
   CachedFetchResult,
+  BinaryFetchResult,
   FetchError,
 } from "./types.js";
 import { RateLimiter } from "./utils/rate-limiter.js";
@@ -175,6 +176,48 @@ export class ExtractionProvider {
     });
   }
 
+  /**
+   * Fetch URL content as bytes, e.g. a PDF to pass to extractPdfText
+   *
+   * Rate limited and protected by the circuit breaker like fetchUrl, but
+   * not cached.
+   *
+   * @param url - URL to fetch
+   * @param options - Fetch options (bypassCache is ignored)
+   * @returns Fetched bytes and metadata
+   */
+  async fetchBuffer(
+    url: string,
+    options: FetchOptions = {},
+  ): Promise<BinaryFetchResult> {
+    await this.rateLimiter.acquire();
+
+    this.logger.debug(`Fetching ${url} as binary`);
+
+    return this.circuitBreaker.execute(async () => {
+      const response = await fetch(url, {
+        headers: options.headers,
+        signal: AbortSignal.timeout(
+          options.timeout ?? this.config.defaultTimeout,
+        ),
+      });
+
+      if (!response.ok) {
+        throw new FetchError(
+          url,
+          response.status,
+          `HTTP ${response.status}: ${response.statusText}`,
+        );
+      }
+
+      return {
+        content: Buffer.from(await response.arrayBuffer()),
+        statusCode: response.status,
+        contentType: response.headers.get("content-type") || "unknown",
+      };
+    });
+  }
+
   /**
    * Fetch URL with exponential backoff retry
    *
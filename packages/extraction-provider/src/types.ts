@@ -109,6 +109,18 @@ export interface CachedFetchResult {
   contentType?: string;
 }
 
+/**
+ * Result from a binary fetch operation
+ */
+export interface BinaryFetchResult {
+  /** The fetched bytes */
+  content: Buffer;
+  /** HTTP status code */
+  statusCode: number;
+  /** Content-Type header value */
+  contentType: string;
+}
+
 /**
  * Error thrown when a fetch operation fails
  */
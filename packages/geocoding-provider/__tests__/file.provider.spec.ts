@@ -0,0 +1,100 @@
+import "reflect-metadata";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  FileGeocodingProvider,
+  geocodingKey,
+} from "../src/providers/file.provider";
+import { GeocodingError } from "@qckstrt/common";
+
+// Mock NestJS Logger
+jest.mock("@nestjs/common", () => ({
+  Injectable: () => (target: any) => target,
+  Logger: jest.fn().mockImplementation(() => ({
+    log: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  })),
+}));
+
+describe("FileGeocodingProvider", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "geocoding-"));
+    filePath = join(dir, "geocoding.json");
+    await writeFile(
+      filePath,
+      JSON.stringify([
+        {
+          address: "123 Main St, Springfield, IL 62701",
+          latitude: 39.7817,
+          longitude: -89.6501,
+          placeId: "fixture:1",
+        },
+      ]),
+    );
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should resolve addresses listed in the file", async () => {
+    const provider = new FileGeocodingProvider(filePath);
+
+    const result = await provider.geocode({
+      addressLine1: "123 MAIN ST.",
+      city: "Springfield",
+      state: "IL",
+      postalCode: "62701",
+      country: "US",
+    });
+
+    expect(provider.getName()).toBe("File");
+    expect(result).toEqual({
+      latitude: 39.7817,
+      longitude: -89.6501,
+      formattedAddress: "123 Main St, Springfield, IL 62701",
+      placeId: "fixture:1",
+    });
+  });
+
+  it("should return null for unknown addresses", async () => {
+    const provider = new FileGeocodingProvider(filePath);
+
+    const result = await provider.geocode({
+      addressLine1: "1 Elsewhere Rd",
+      city: "Springfield",
+      state: "IL",
+      postalCode: "62701",
+      country: "US",
+    });
+
+    expect(result).toBeNull();
+  });
+
+  it("should throw GeocodingError when the file cannot be read", async () => {
+    const provider = new FileGeocodingProvider(join(dir, "missing.json"));
+
+    await expect(
+      provider.geocode({
+        addressLine1: "123 Main St",
+        city: "Springfield",
+        state: "IL",
+        postalCode: "62701",
+        country: "US",
+      }),
+    ).rejects.toThrow(GeocodingError);
+  });
+
+  describe("geocodingKey", () => {
+    it("should ignore case, punctuation and spacing", () => {
+      expect(geocodingKey("  123 Main St.,  Springfield ")).toBe(
+        "123 main st springfield",
+      );
+    });
+  });
+});
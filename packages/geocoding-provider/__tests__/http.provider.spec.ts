@@ -0,0 +1,174 @@
+import "reflect-metadata";
+import { HttpGeocodingProvider } from "../src/providers/http.provider";
+import {
+  CircuitOpenError,
+  GeocodingError,
+  GeocodingQuery,
+} from "@qckstrt/common";
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+// Mock NestJS Logger
+jest.mock("@nestjs/common", () => ({
+  Injectable: () => (target: any) => target,
+  Logger: jest.fn().mockImplementation(() => ({
+    log: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  })),
+}));
+
+const query: GeocodingQuery = {
+  addressLine1: "1600 Pennsylvania Ave NW",
+  city: "Washington",
+  state: "DC",
+  postalCode: "20500",
+  country: "US",
+};
+
+const jsonResponse = (body: unknown) => ({
+  ok: true,
+  json: () => Promise.resolve(body),
+});
+
+describe("HttpGeocodingProvider", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("nominatim", () => {
+    let provider: HttpGeocodingProvider;
+
+    beforeEach(() => {
+      provider = new HttpGeocodingProvider({
+        api: "nominatim",
+        baseUrl: "http://nominatim.local/",
+        userAgent: "qckstrt-test",
+      });
+    });
+
+    it("should report its name", () => {
+      expect(provider.getName()).toBe("Nominatim");
+    });
+
+    it("should geocode a structured address", async () => {
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse([
+          {
+            lat: "38.8976633",
+            lon: "-77.0365739",
+            display_name: "White House, 1600, Pennsylvania Avenue Northwest",
+            osm_type: "way",
+            osm_id: 238241022,
+            importance: 0.9,
+          },
+        ]),
+      );
+
+      const result = await provider.geocode(query);
+
+      expect(result).toEqual({
+        latitude: 38.8976633,
+        longitude: -77.0365739,
+        formattedAddress: "White House, 1600, Pennsylvania Avenue Northwest",
+        placeId: "way/238241022",
+        confidence: 0.9,
+      });
+
+      const [url, init] = mockFetch.mock.calls[0];
+      const parsed = new URL(url);
+      expect(parsed.origin + parsed.pathname).toBe(
+        "http://nominatim.local/search",
+      );
+      expect(parsed.searchParams.get("street")).toBe(query.addressLine1);
+      expect(parsed.searchParams.get("postalcode")).toBe("20500");
+      expect(parsed.searchParams.get("countrycodes")).toBe("us");
+      expect(init.headers["User-Agent"]).toBe("qckstrt-test");
+    });
+
+    it("should return null when nothing matches", async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse([]));
+
+      expect(await provider.geocode(query)).toBeNull();
+    });
+
+    it("should throw GeocodingError on HTTP error", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        text: () => Promise.resolve("Service Unavailable"),
+      });
+
+      await expect(provider.geocode(query)).rejects.toThrow(GeocodingError);
+    });
+
+    it("should open the circuit after repeated failures", async () => {
+      mockFetch.mockRejectedValue(new Error("ECONNREFUSED"));
+
+      for (let i = 0; i < 5; i++) {
+        await expect(provider.geocode(query)).rejects.toThrow(GeocodingError);
+      }
+
+      await expect(provider.geocode(query)).rejects.toThrow(CircuitOpenError);
+      expect(mockFetch).toHaveBeenCalledTimes(5);
+      expect(provider.getCircuitBreakerHealth().isHealthy).toBe(false);
+    });
+  });
+
+  describe("pelias", () => {
+    let provider: HttpGeocodingProvider;
+
+    beforeEach(() => {
+      provider = new HttpGeocodingProvider({
+        api: "pelias",
+        baseUrl: "https://api.geocode.earth",
+        apiKey: "test-key",
+      });
+    });
+
+    it("should report its name", () => {
+      expect(provider.getName()).toBe("Pelias");
+    });
+
+    it("should geocode a structured address", async () => {
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse({
+          features: [
+            {
+              geometry: { coordinates: [-77.0365739, 38.8976633] },
+              properties: {
+                label: "1600 Pennsylvania Ave NW, Washington, DC, USA",
+                gid: "openaddresses:address:us/dc/statewide:abc",
+                confidence: 1,
+              },
+            },
+          ],
+        }),
+      );
+
+      const result = await provider.geocode(query);
+
+      expect(result).toEqual({
+        latitude: 38.8976633,
+        longitude: -77.0365739,
+        formattedAddress: "1600 Pennsylvania Ave NW, Washington, DC, USA",
+        placeId: "openaddresses:address:us/dc/statewide:abc",
+        confidence: 1,
+      });
+
+      const parsed = new URL(mockFetch.mock.calls[0][0]);
+      expect(parsed.pathname).toBe("/v1/search/structured");
+      expect(parsed.searchParams.get("address")).toBe(query.addressLine1);
+      expect(parsed.searchParams.get("locality")).toBe("Washington");
+      expect(parsed.searchParams.get("api_key")).toBe("test-key");
+    });
+
+    it("should return null when nothing matches", async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ features: [] }));
+
+      expect(await provider.geocode(query)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,4 @@
+/** @type {import('jest').Config} */
+const baseConfig = require("../jest.config.base.js");
+
+module.exports = { ...baseConfig };
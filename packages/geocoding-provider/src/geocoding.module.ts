@@ -0,0 +1,60 @@
+import { Module, Global } from "@nestjs/common";
+import { ConfigModule, ConfigService } from "@nestjs/config";
+import { IGeocodingProvider } from "@qckstrt/common";
+import { HttpGeocodingProvider } from "./providers/http.provider.js";
+import { FileGeocodingProvider } from "./providers/file.provider.js";
+
+/**
+ * Geocoding Module
+ *
+ * Configures Dependency Injection for geocoding providers.
+ * GEOCODING_PROVIDER resolves to null when geocoding is disabled.
+ *
+ * Configure via environment variables:
+ * - GEOCODING_PROVIDER: nominatim | pelias | file | none (default: none)
+ * - GEOCODING_URL: Base URL of the Nominatim or Pelias server
+ * - GEOCODING_API_KEY: Optional Pelias API key
+ * - GEOCODING_USER_AGENT: User-Agent sent to the server
+ * - GEOCODING_TIMEOUT_MS: Request timeout
+ * - GEOCODING_FILE_PATH: Fixture file for the file provider
+ */
+@Global()
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: "GEOCODING_PROVIDER",
+      useFactory: (configService: ConfigService): IGeocodingProvider | null => {
+        const provider =
+          configService.get<string>("geocoding.provider") || "none";
+
+        switch (provider.toLowerCase()) {
+          case "nominatim":
+          case "pelias":
+            return new HttpGeocodingProvider({
+              api: provider.toLowerCase() as "nominatim" | "pelias",
+              baseUrl:
+                configService.get<string>("geocoding.url") ||
+                "http://localhost:8080",
+              apiKey: configService.get<string>("geocoding.apiKey"),
+              userAgent: configService.get<string>("geocoding.userAgent"),
+              timeoutMs: configService.get<number>("geocoding.timeoutMs"),
+            });
+
+          case "file":
+            return new FileGeocodingProvider(
+              configService.get<string>("geocoding.filePath") ||
+                "geocoding.json",
+            );
+
+          case "none":
+          default:
+            return null;
+        }
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: ["GEOCODING_PROVIDER"],
+})
+export class GeocodingModule {}
@@ -0,0 +1,29 @@
+/**
+ * @qckstrt/geocoding-provider
+ *
+ * Geocoding provider implementations for the QCKSTRT platform.
+ * Provides pluggable address geocoding with Nominatim, Pelias or a fixture file.
+ */
+
+// Re-export types from common
+export {
+  IGeocodingProvider,
+  GeocodingQuery,
+  GeocodingResult,
+  GeocodingError,
+} from "@qckstrt/common";
+
+// Providers
+export {
+  HttpGeocodingProvider,
+  type HttpGeocodingConfig,
+  type GeocodingApi,
+} from "./providers/http.provider.js";
+export {
+  FileGeocodingProvider,
+  geocodingKey,
+  type GeocodingFixture,
+} from "./providers/file.provider.js";
+
+// Module
+export { GeocodingModule } from "./geocoding.module.js";
@@ -0,0 +1,86 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { readFile } from "node:fs/promises";
+import {
+  IGeocodingProvider,
+  GeocodingQuery,
+  GeocodingResult,
+  GeocodingError,
+} from "@qckstrt/common";
+
+/**
+ * One address in a geocoding fixture file
+ */
+export interface GeocodingFixture {
+  // "<addressLine1>, <city>, <state> <postalCode>"
+  address: string;
+  latitude: number;
+  longitude: number;
+  formattedAddress?: string;
+  placeId?: string;
+}
+
+/**
+ * Build the lookup key for an address
+ *
+ * Case, punctuation and repeated whitespace are ignored.
+ */
+export function geocodingKey(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * File Geocoding Provider
+ *
+ * Resolves addresses from a JSON array of fixtures instead of calling
+ * a geocoding service. Intended for tests and local development.
+ *
+ * Unknown addresses are reported as not found.
+ */
+@Injectable()
+export class FileGeocodingProvider implements IGeocodingProvider {
+  private readonly logger = new Logger(FileGeocodingProvider.name);
+  private fixtures?: Map<string, GeocodingFixture>;
+
+  constructor(private readonly filePath: string) {
+    this.logger.log(`Initialized file geocoding from ${filePath}`);
+  }
+
+  getName(): string {
+    return "File";
+  }
+
+  async geocode(query: GeocodingQuery): Promise<GeocodingResult | null> {
+    const fixtures = await this.loadFixtures();
+    const address = `${query.addressLine1}, ${query.city}, ${query.state} ${query.postalCode}`;
+    const fixture = fixtures.get(geocodingKey(address));
+    if (!fixture) {
+      return null;
+    }
+
+    return {
+      latitude: fixture.latitude,
+      longitude: fixture.longitude,
+      formattedAddress: fixture.formattedAddress ?? fixture.address,
+      placeId: fixture.placeId,
+    };
+  }
+
+  private async loadFixtures(): Promise<Map<string, GeocodingFixture>> {
+    if (!this.fixtures) {
+      try {
+        const entries = JSON.parse(
+          await readFile(this.filePath, "utf8"),
+        ) as GeocodingFixture[];
+        this.fixtures = new Map(
+          entries.map((entry) => [geocodingKey(entry.address), entry]),
+        );
+      } catch (error) {
+        throw new GeocodingError(this.getName(), error as Error);
+      }
+    }
+    return this.fixtures;
+  }
+}
@@ -0,0 +1,207 @@
+import { Injectable, Logger } from "@nestjs/common";
+import {
+  IGeocodingProvider,
+  GeocodingQuery,
+  GeocodingResult,
+  GeocodingError,
+  CircuitBreakerManager,
+  createCircuitBreaker,
+  DEFAULT_CIRCUIT_CONFIGS,
+  CircuitBreakerHealth,
+} from "@qckstrt/common";
+
+/**
+ * Search API spoken by the geocoding server
+ */
+export type GeocodingApi = "nominatim" | "pelias";
+
+/**
+ * HTTP geocoding provider configuration
+ */
+export interface HttpGeocodingConfig {
+  api: GeocodingApi;
+  baseUrl: string;
+  // Pelias API key (e.g. geocode.earth); not used by Nominatim
+  apiKey?: string;
+  // Nominatim's usage policy requires an identifying User-Agent
+  userAgent?: string;
+  timeoutMs?: number;
+}
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+  osm_type?: string;
+  osm_id?: number;
+  importance?: number;
+}
+
+interface PeliasResponse {
+  features?: {
+    geometry: { coordinates: [number, number] };
+    properties: { label: string; gid?: string; confidence?: number };
+  }[];
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * HTTP Geocoding Provider (OSS)
+ *
+ * Geocodes structured addresses against a self-hosted or hosted
+ * Nominatim or Pelias server.
+ *
+ * Setup:
+ * - Nominatim: https://nominatim.org/release-docs/latest/admin/Installation/
+ * - Pelias: https://github.com/pelias/docker
+ */
+@Injectable()
+export class HttpGeocodingProvider implements IGeocodingProvider {
+  private readonly logger = new Logger(HttpGeocodingProvider.name);
+  private readonly circuitBreaker: CircuitBreakerManager;
+  private readonly baseUrl: string;
+
+  constructor(private readonly config: HttpGeocodingConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, "");
+
+    this.logger.log(`Initialized ${config.api} geocoding at ${this.baseUrl}`);
+
+    // Initialize circuit breaker for geocoding calls
+    this.circuitBreaker = createCircuitBreaker(
+      DEFAULT_CIRCUIT_CONFIGS.geocoding,
+    );
+
+    // Log circuit state changes
+    this.circuitBreaker.addListener((event) => {
+      switch (event) {
+        case "break":
+          this.logger.warn(
+            `Circuit breaker OPENED for Geocoding - service unavailable`,
+          );
+          break;
+        case "reset":
+          this.logger.log(
+            `Circuit breaker RESET for Geocoding - service recovered`,
+          );
+          break;
+        case "half_open":
+          this.logger.log(
+            `Circuit breaker HALF-OPEN for Geocoding - testing recovery`,
+          );
+          break;
+      }
+    });
+  }
+
+  getName(): string {
+    return this.config.api === "pelias" ? "Pelias" : "Nominatim";
+  }
+
+  async geocode(query: GeocodingQuery): Promise<GeocodingResult | null> {
+    // Wrap the call with circuit breaker protection
+    return this.circuitBreaker.execute(async () => {
+      try {
+        return this.config.api === "pelias"
+          ? await this.searchPelias(query)
+          : await this.searchNominatim(query);
+      } catch (error) {
+        this.logger.error(
+          `Geocoding request failed: ${(error as Error).message}`,
+        );
+        throw new GeocodingError(this.getName(), error as Error);
+      }
+    });
+  }
+
+  /**
+   * Get circuit breaker health status
+   */
+  getCircuitBreakerHealth(): CircuitBreakerHealth {
+    return this.circuitBreaker.getHealth();
+  }
+
+  private async searchNominatim(
+    query: GeocodingQuery,
+  ): Promise<GeocodingResult | null> {
+    const params = new URLSearchParams({
+      format: "jsonv2",
+      limit: "1",
+      street: query.addressLine1,
+      city: query.city,
+      state: query.state,
+      postalcode: query.postalCode,
+      countrycodes: query.country.toLowerCase(),
+    });
+
+    const places = await this.fetchJson<NominatimPlace[]>(
+      `${this.baseUrl}/search?${params.toString()}`,
+    );
+    const place = places[0];
+    if (!place) {
+      return null;
+    }
+
+    return {
+      latitude: Number.parseFloat(place.lat),
+      longitude: Number.parseFloat(place.lon),
+      formattedAddress: place.display_name,
+      placeId:
+        place.osm_type && place.osm_id
+          ? `${place.osm_type}/${place.osm_id}`
+          : undefined,
+      confidence: place.importance,
+    };
+  }
+
+  private async searchPelias(
+    query: GeocodingQuery,
+  ): Promise<GeocodingResult | null> {
+    const params = new URLSearchParams({
+      address: query.addressLine1,
+      locality: query.city,
+      region: query.state,
+      postalcode: query.postalCode,
+      country: query.country,
+      size: "1",
+    });
+    if (this.config.apiKey) {
+      params.set("api_key", this.config.apiKey);
+    }
+
+    const data = await this.fetchJson<PeliasResponse>(
+      `${this.baseUrl}/v1/search/structured?${params.toString()}`,
+    );
+    const feature = data.features?.[0];
+    if (!feature) {
+      return null;
+    }
+
+    const [longitude, latitude] = feature.geometry.coordinates;
+    return {
+      latitude,
+      longitude,
+      formattedAddress: feature.properties.label,
+      placeId: feature.properties.gid,
+      confidence: feature.properties.confidence,
+    };
+  }
+
+  private async fetchJson<T>(url: string): Promise<T> {
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (this.config.userAgent) {
+      headers["User-Agent"] = this.config.userAgent;
+    }
+
+    const response = await fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+    }
+
+    return (await response.json()) as T;
+  }
+}
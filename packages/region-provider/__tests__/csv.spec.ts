@@ -0,0 +1,46 @@
+import { parseCsv, parseCsvRecords } from "../src/providers/file/csv";
+
+describe("parseCsv", () => {
+  it("should split rows and fields", () => {
+    expect(parseCsv("a,b,c\n1,2,3\n")).toEqual([
+      ["a", "b", "c"],
+      ["1", "2", "3"],
+    ]);
+  });
+
+  it("should read quoted fields", () => {
+    expect(parseCsv('"a, b","say ""hi""","line\none"')).toEqual([
+      ["a, b", 'say "hi"', "line\none"],
+    ]);
+  });
+
+  it("should accept CRLF line endings and a byte order mark", () => {
+    expect(parseCsv("\uFEFFa,b\r\n1,2\r\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("should keep empty fields and drop blank lines", () => {
+    expect(parseCsv("a,,c\n\n,,\n")).toEqual([
+      ["a", "", "c"],
+      ["", "", ""],
+    ]);
+  });
+});
+
+describe("parseCsvRecords", () => {
+  it("should key fields by trimmed header", () => {
+    expect(parseCsvRecords(" id , name\n1,Marge\n2\n")).toEqual({
+      headers: ["id", "name"],
+      records: [
+        { id: "1", name: "Marge" },
+        { id: "2", name: "" },
+      ],
+    });
+  });
+
+  it("should handle empty content", () => {
+    expect(parseCsvRecords("")).toEqual({ headers: [], records: [] });
+  });
+});
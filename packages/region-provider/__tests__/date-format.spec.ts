@@ -0,0 +1,60 @@
+import { parseDate } from "../src/providers/date-format";
+
+const TZ = "America/Los_Angeles";
+
+describe("parseDate", () => {
+  it("should parse JavaScript date strings without a format", () => {
+    expect(parseDate("2024-03-12T18:30:00Z", undefined, TZ)).toEqual(
+      new Date("2024-03-12T18:30:00Z"),
+    );
+  });
+
+  it("should read numeric formats in the region's time zone", () => {
+    expect(parseDate("03/12/2024 18:30", "MM/DD/YYYY HH:mm", TZ)).toEqual(
+      new Date("2024-03-13T01:30:00Z"),
+    );
+    expect(parseDate("1/2/24", "M/D/YY", TZ)).toEqual(
+      new Date("2024-01-02T08:00:00Z"),
+    );
+  });
+
+  it("should read month names and ignore surrounding text", () => {
+    expect(
+      parseDate("Tuesday, Sept. 3, 2024 at 10:00 a.m.", "MMM D, YYYY", TZ),
+    ).toEqual(new Date("2024-09-03T07:00:00Z"));
+    expect(
+      parseDate(
+        "Meeting: November 5, 2024 at 6:30 PM",
+        "MMMM D, YYYY [at] h:mm A",
+        TZ,
+      ),
+    ).toEqual(new Date("2024-11-06T02:30:00Z"));
+  });
+
+  it("should convert 12-hour times", () => {
+    expect(parseDate("2024-06-01 12:15 AM", "YYYY-MM-DD h:mm A", TZ)).toEqual(
+      new Date("2024-06-01T07:15:00Z"),
+    );
+    expect(parseDate("2024-06-01 12:15 PM", "YYYY-MM-DD h:mm A", TZ)).toEqual(
+      new Date("2024-06-01T19:15:00Z"),
+    );
+  });
+
+  it("should follow daylight saving time changes", () => {
+    expect(parseDate("2024-03-09 09:00", "YYYY-MM-DD HH:mm", TZ)).toEqual(
+      new Date("2024-03-09T17:00:00Z"),
+    );
+    expect(parseDate("2024-03-11 09:00", "YYYY-MM-DD HH:mm", TZ)).toEqual(
+      new Date("2024-03-11T16:00:00Z"),
+    );
+  });
+
+  it("should return an invalid date for text that doesn't match", () => {
+    expect(parseDate("TBD", "MM/DD/YYYY", TZ).getTime()).toBeNaN();
+    expect(parseDate("02/30/2024", "MM/DD/YYYY", TZ).getTime()).toBeNaN();
+    expect(parseDate("Smarch 1, 2024", "MMMM D, YYYY", TZ).getTime()).toBeNaN();
+    expect(
+      parseDate("2024-01-01 13:00 PM", "YYYY-MM-DD h:mm A", TZ).getTime(),
+    ).toBeNaN();
+  });
+});
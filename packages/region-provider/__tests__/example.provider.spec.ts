@@ -1,6 +1,12 @@
 import "reflect-metadata";
 import { ExampleRegionProvider } from "../src/providers/example.provider";
-import { CivicDataType } from "@qckstrt/common";
+import {
+  BillStatus,
+  CivicDataType,
+  PropositionPosition,
+  VoteOption,
+  VoteThreshold,
+} from "@qckstrt/common";
 
 // Mock NestJS Logger
 jest.mock("@nestjs/common", () => ({
@@ -34,6 +40,7 @@ describe("ExampleRegionProvider", () => {
       expect(info.name).toBe("Example Region");
       expect(info.description).toBeDefined();
       expect(info.timezone).toBe("America/Los_Angeles");
+      expect(info.state).toBe("CA");
       expect(info.dataSourceUrls).toBeDefined();
       expect(Array.isArray(info.dataSourceUrls)).toBe(true);
     });
@@ -46,7 +53,11 @@ describe("ExampleRegionProvider", () => {
       expect(types).toContain(CivicDataType.PROPOSITIONS);
       expect(types).toContain(CivicDataType.MEETINGS);
       expect(types).toContain(CivicDataType.REPRESENTATIVES);
-      expect(types).toHaveLength(3);
+      expect(types).toContain(CivicDataType.ELECTIONS);
+      expect(types).toContain(CivicDataType.BILLS);
+      expect(types).toContain(CivicDataType.VOTES);
+      expect(types).toContain(CivicDataType.RACES);
+      expect(types).toHaveLength(7);
     });
   });
 
@@ -77,6 +88,18 @@ describe("ExampleRegionProvider", () => {
         );
       });
     });
+
+    it("should include voter guide sections for an upcoming measure", async () => {
+      const [upcoming] = await provider.fetchPropositions();
+
+      expect(upcoming.arguments?.map((a) => a.position)).toEqual([
+        PropositionPosition.FOR,
+        PropositionPosition.AGAINST,
+      ]);
+      expect(upcoming.fiscalImpact).toBeTruthy();
+      expect(upcoming.voteThreshold).toBe(VoteThreshold.MAJORITY);
+      expect(upcoming.endorsements?.length).toBeGreaterThan(0);
+    });
   });
 
   describe("fetchMeetings", () => {
@@ -140,4 +163,94 @@ describe("ExampleRegionProvider", () => {
       }
     });
   });
+
+  describe("fetchElections", () => {
+    it("should return elections with required fields", async () => {
+      const elections = await provider.fetchElections();
+
+      expect(elections.length).toBeGreaterThan(0);
+      elections.forEach((election) => {
+        expect(election.externalId).toBeDefined();
+        expect(election.name).toBeDefined();
+        expect(isNaN(election.electionDate.getTime())).toBe(false);
+      });
+    });
+
+    it("should return deadlines before election day", async () => {
+      const [election] = await provider.fetchElections();
+
+      expect(election.registrationDeadline!.getTime()).toBeLessThan(
+        election.electionDate.getTime(),
+      );
+      expect(election.earlyVotingStart!.getTime()).toBeLessThan(
+        election.earlyVotingEnd!.getTime(),
+      );
+    });
+  });
+
+  describe("fetchBills", () => {
+    it("should return bills with sponsors and a status timeline", async () => {
+      const bills = await provider.fetchBills();
+
+      expect(bills.length).toBeGreaterThan(0);
+      bills.forEach((bill) => {
+        expect(bill.number).toBeDefined();
+        expect(Object.values(BillStatus)).toContain(bill.status);
+        expect(bill.sponsors.some((sponsor) => sponsor.primary)).toBe(true);
+        expect(bill.actions.length).toBeGreaterThan(0);
+      });
+    });
+
+    it("should end each timeline at the bill's status", async () => {
+      const bills = await provider.fetchBills();
+
+      bills.forEach((bill) => {
+        const last = bill.actions[bill.actions.length - 1];
+        expect(last.status).toBe(bill.status);
+      });
+    });
+  });
+
+  describe("fetchVotes", () => {
+    it("should return roll calls on example bills", async () => {
+      const billIds = (await provider.fetchBills()).map((b) => b.externalId);
+      const votes = await provider.fetchVotes();
+
+      expect(votes.length).toBeGreaterThan(0);
+      votes.forEach((vote) => {
+        expect(billIds).toContain(vote.billExternalId);
+        expect(vote.memberVotes.length).toBeGreaterThan(0);
+        vote.memberVotes.forEach((memberVote) => {
+          expect(Object.values(VoteOption)).toContain(memberVote.option);
+        });
+      });
+    });
+  });
+
+  describe("fetchRaces", () => {
+    it("should return races with their candidates", async () => {
+      const races = await provider.fetchRaces();
+
+      expect(races.length).toBeGreaterThan(0);
+      races.forEach((race) => {
+        expect(race.office).toBeTruthy();
+        expect(race.electionDate).toBeInstanceOf(Date);
+        expect(race.candidates.length).toBeGreaterThan(0);
+      });
+    });
+
+    it("should link incumbents to example representatives", async () => {
+      const repIds = (await provider.fetchRepresentatives()).map(
+        (r) => r.externalId,
+      );
+      const incumbents = (await provider.fetchRaces())
+        .flatMap((race) => race.candidates)
+        .filter((candidate) => candidate.incumbent);
+
+      expect(incumbents.length).toBeGreaterThan(0);
+      incumbents.forEach((candidate) => {
+        expect(repIds).toContain(candidate.representativeExternalId);
+      });
+    });
+  });
 });
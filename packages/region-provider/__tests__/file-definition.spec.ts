@@ -0,0 +1,161 @@
+import { join } from "node:path";
+import {
+  FileDefinitionError,
+  isFileDefinition,
+  loadFileDefinition,
+  parseFileDefinition,
+} from "../src/providers/file/file-definition";
+import { isDefinitionFilePath } from "../src/providers/definition-file";
+
+const region = {
+  id: "shelbyville",
+  name: "Shelbyville County",
+  timezone: "America/Chicago",
+};
+
+const parse = (definition: object, baseUrl?: string) =>
+  parseFileDefinition(JSON.stringify(definition), "test.json", baseUrl);
+
+describe("file definitions", () => {
+  describe("parseFileDefinition", () => {
+    it("should parse definitions", () => {
+      const definition = parse({
+        region,
+        files: {
+          meetings: { source: "https://data.example.gov/events.json" },
+        },
+      });
+
+      expect(definition).toEqual({
+        region: { description: "", ...region },
+        files: {
+          meetings: {
+            source: "https://data.example.gov/events.json",
+            format: "ocd",
+          },
+        },
+      });
+    });
+
+    it("should resolve relative sources against the base URL", () => {
+      const definition = parse(
+        { region, files: { propositions: { source: "data/measures.csv" } } },
+        "file:///srv/regions/shelbyville.yaml",
+      );
+
+      expect(definition.files.propositions?.source).toBe(
+        "file:///srv/regions/data/measures.csv",
+      );
+    });
+
+    it("should detect CSV files by extension", () => {
+      const definition = parse({
+        region,
+        files: {
+          propositions: { source: "https://data.example.gov/measures.csv" },
+          representatives: {
+            source: "https://data.example.gov/people",
+            format: "csv",
+          },
+        },
+      });
+
+      expect(definition.files.propositions?.format).toBe("csv");
+      expect(definition.files.representatives?.format).toBe("csv");
+    });
+
+    it("should accept storage sources", () => {
+      const definition = parse({
+        region,
+        files: { meetings: { source: "storage://civic-data/events.json" } },
+      });
+
+      expect(definition.files.meetings?.source).toBe(
+        "storage://civic-data/events.json",
+      );
+    });
+
+    it.each([
+      [{ files: {} }, /region must be an object/],
+      [
+        { region: { ...region, timezone: "Mars/Olympus" } },
+        /not a known time zone/,
+      ],
+      [
+        { region: { ...region, state: "Illinois" } },
+        /two-letter state code/,
+      ],
+      [{ region }, /files must be an object/],
+      [{ region, files: {} }, /define at least one of/],
+      [
+        { region, files: { bills: { source: "b.json" } } },
+        /unknown data type "bills"/,
+      ],
+      [
+        { region, files: { meetings: {} } },
+        /files\.meetings: source is required/,
+      ],
+      [
+        { region, files: { meetings: { source: "e.json", format: "xml" } } },
+        /format must be "ocd" or "csv"/,
+      ],
+      [
+        { region, files: { meetings: { source: "e.json", sheet: 1 } } },
+        /unknown option "sheet"/,
+      ],
+      [
+        {
+          region,
+          files: { meetings: { source: "e.csv", columns: { name: "Name" } } },
+        },
+        /columns has unknown field "name"/,
+      ],
+      [
+        { region, files: { meetings: { source: "ftp://example.gov/e.json" } } },
+        /protocol ftp: is not supported/,
+      ],
+      [
+        { region, files: { meetings: { source: "events.json" } } },
+        /path relative to a definition file/,
+      ],
+    ])("should reject %j", (definition, message) => {
+      expect(() => parse(definition)).toThrow(FileDefinitionError);
+      expect(() => parse(definition)).toThrow(message);
+    });
+
+    it("should report syntax errors", () => {
+      expect(() =>
+        parseFileDefinition("files: [unclosed", "broken.yaml"),
+      ).toThrow(/Invalid file definition broken\.yaml/);
+    });
+  });
+
+  describe("loadFileDefinition", () => {
+    it("should resolve sources against the definition file", async () => {
+      const definition = await loadFileDefinition(
+        join(__dirname, "fixtures", "files", "shelbyville.yaml"),
+      );
+
+      expect(definition.files.meetings?.source).toMatch(
+        /^file:\/\/.*\/fixtures\/files\/events\.json$/,
+      );
+    });
+  });
+
+  describe("isFileDefinition", () => {
+    it("should recognise definitions listing data files", () => {
+      expect(isFileDefinition({ region, files: {} })).toBe(true);
+      expect(isFileDefinition({ region, meetings: {} })).toBe(false);
+      expect(isFileDefinition(undefined)).toBe(false);
+    });
+  });
+
+  describe("isDefinitionFilePath", () => {
+    it("should recognise JSON and YAML files", () => {
+      expect(isDefinitionFilePath("regions/springfield.yaml")).toBe(true);
+      expect(isDefinitionFilePath("regions/springfield.YML")).toBe(true);
+      expect(isDefinitionFilePath("springfield.json")).toBe(true);
+      expect(isDefinitionFilePath("california")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,399 @@
+import "reflect-metadata";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { ExtractionProvider } from "@qckstrt/extraction-provider";
+import { FileRegionProvider } from "../src/providers/file/file.provider";
+import { parseFileDefinition } from "../src/providers/file/file-definition";
+import {
+  CivicDataType,
+  IStorageProvider,
+  PropositionStatus,
+  RegionError,
+  VoteThreshold,
+} from "@qckstrt/common";
+
+// Mock NestJS Logger
+jest.mock("@nestjs/common", () => ({
+  ...jest.requireActual("@nestjs/common"),
+  Logger: jest.fn().mockImplementation(() => ({
+    log: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  })),
+}));
+
+const FIXTURES = join(__dirname, "fixtures", "files");
+const BASE_URL = pathToFileURL(join(FIXTURES, "shelbyville.yaml")).toString();
+
+const fixture = (name: string) => readFileSync(join(FIXTURES, name), "utf8");
+
+const REGION = `
+region:
+  id: shelbyville
+  name: Shelbyville County
+  timezone: America/Chicago
+`;
+
+describe("FileRegionProvider", () => {
+  let extraction: ExtractionProvider;
+  let provider: FileRegionProvider;
+
+  const createProvider = (
+    files: string,
+    storage?: IStorageProvider,
+  ): FileRegionProvider =>
+    new FileRegionProvider(
+      parseFileDefinition(`${REGION}${files}`, "test.yaml", BASE_URL),
+      { extraction, storage },
+    );
+
+  beforeEach(async () => {
+    extraction = new ExtractionProvider();
+    provider = await FileRegionProvider.fromFile(
+      join(FIXTURES, "shelbyville.yaml"),
+      { extraction },
+    );
+  });
+
+  afterEach(() => {
+    extraction.onModuleDestroy();
+  });
+
+  describe("region info", () => {
+    it("should use the definition's region", () => {
+      expect(provider.getName()).toBe("shelbyville");
+      expect(provider.getRegionInfo()).toEqual(
+        expect.objectContaining({
+          id: "shelbyville",
+          name: "Shelbyville County",
+          timezone: "America/Chicago",
+        }),
+      );
+    });
+
+    it("should list http(s) sources as data sources", () => {
+      const remote = createProvider(`
+files:
+  meetings:
+    source: https://data.example.gov/events.json
+  representatives:
+    source: people.json
+`);
+
+      expect(provider.getRegionInfo().dataSourceUrls).toEqual([]);
+      expect(remote.getRegionInfo().dataSourceUrls).toEqual([
+        "https://data.example.gov/events.json",
+      ]);
+    });
+
+    it("should support the data types the definition lists", () => {
+      const meetingsOnly = createProvider(`
+files:
+  meetings:
+    source: events.json
+`);
+
+      expect(provider.getSupportedDataTypes()).toEqual([
+        CivicDataType.PROPOSITIONS,
+        CivicDataType.MEETINGS,
+        CivicDataType.REPRESENTATIVES,
+        CivicDataType.ELECTIONS,
+      ]);
+      expect(meetingsOnly.getSupportedDataTypes()).toEqual([
+        CivicDataType.MEETINGS,
+      ]);
+    });
+  });
+
+  describe("fetchPropositions", () => {
+    it("should read mapped CSV columns", async () => {
+      const propositions = await provider.fetchPropositions();
+
+      expect(propositions).toEqual([
+        {
+          externalId: "A",
+          title: "Library Parcel Tax",
+          summary: 'Funds branch libraries, including "bookmobile" service.',
+          fullText: undefined,
+          status: PropositionStatus.PENDING,
+          electionDate: new Date("2024-11-05T06:00:00Z"),
+          sourceUrl: "https://shelbyville.example.gov/elections",
+        },
+        {
+          externalId: "B",
+          title: "Road Bond",
+          summary: "Issues bonds for road repair.\nRepaid over 20 years.",
+          fullText: undefined,
+          status: PropositionStatus.PASSED,
+          electionDate: new Date("2024-03-05T06:00:00Z"),
+          sourceUrl: "https://shelbyville.example.gov/elections",
+        },
+        {
+          externalId: "C",
+          title: "Ward Redistricting",
+          summary: "",
+          fullText: undefined,
+          status: PropositionStatus.FAILED,
+          electionDate: new Date("2023-11-07T06:00:00Z"),
+          sourceUrl: "https://shelbyville.example.gov/elections",
+        },
+      ]);
+    });
+
+    it("should read columns named after fields without a mapping", async () => {
+      jest.spyOn(extraction, "fetchWithRetry").mockResolvedValue({
+        content: "externalId,title,status\nD,Parks Levy,Pending\n",
+      } as never);
+      const unmapped = createProvider(`
+files:
+  propositions:
+    source: https://data.example.gov/measures.csv
+`);
+
+      const [proposition] = await unmapped.fetchPropositions();
+
+      expect(proposition).toEqual(
+        expect.objectContaining({
+          externalId: "D",
+          title: "Parks Levy",
+          status: PropositionStatus.PENDING,
+        }),
+      );
+    });
+
+    it("should read fiscal impact and vote threshold columns", async () => {
+      jest.spyOn(extraction, "fetchWithRetry").mockResolvedValue({
+        content:
+          "externalId,title,status,fiscalImpact,voteThreshold\n" +
+          "E,School Bond,Pending,Costs $2 million a year.,Fifty_Five_Percent\n",
+      } as never);
+      const csv = createProvider(`
+files:
+  propositions:
+    source: https://data.example.gov/measures.csv
+`);
+
+      const [proposition] = await csv.fetchPropositions();
+
+      expect(proposition.fiscalImpact).toBe("Costs $2 million a year.");
+      expect(proposition.voteThreshold).toBe(VoteThreshold.FIFTY_FIVE_PERCENT);
+    });
+
+    it("should report mapped columns missing from the file", async () => {
+      const misnamed = createProvider(`
+files:
+  propositions:
+    source: measures.csv
+    columns:
+      externalId: Number
+`);
+
+      await expect(misnamed.fetchPropositions()).rejects.toThrow(
+        /Columns not found in .*measures\.csv: Number/,
+      );
+    });
+
+    it("should return an empty list when no file is defined", async () => {
+      const meetingsOnly = createProvider(`
+files:
+  meetings:
+    source: events.json
+`);
+
+      expect(await meetingsOnly.fetchPropositions()).toEqual([]);
+    });
+  });
+
+  describe("fetchMeetings", () => {
+    it("should read OCD events", async () => {
+      const meetings = await provider.fetchMeetings();
+
+      expect(meetings).toEqual([
+        {
+          externalId: "ocd-event/3b5a8d1e-0001",
+          title: "Regular Board Meeting",
+          body: "Board of Supervisors",
+          scheduledAt: new Date("2024-10-08T23:30:00Z"),
+          location: "County Building, Room 200",
+          agendaUrl: "https://shelbyville.example.gov/agendas/2024-10-08.pdf",
+          minutesUrl: "https://shelbyville.example.gov/minutes/2024-10-08.pdf",
+          videoUrl: "https://video.example.gov/2024-10-08",
+        },
+        {
+          externalId: "ocd-event/3b5a8d1e-0003",
+          title: "Planning Commission",
+          body: "Planning Commission",
+          scheduledAt: new Date("2024-10-22T14:00:00Z"),
+          location: "Annex Hearing Room",
+          agendaUrl: undefined,
+          minutesUrl: undefined,
+          videoUrl: undefined,
+        },
+      ]);
+    });
+
+    it("should leave out cancelled events", async () => {
+      const meetings = await provider.fetchMeetings();
+
+      expect(meetings.map((m) => m.title)).not.toContain("Budget Workshop");
+    });
+  });
+
+  describe("fetchElections", () => {
+    it("should read OCD elections with deadlines from extras", async () => {
+      const elections = await provider.fetchElections();
+
+      expect(elections).toEqual([
+        {
+          externalId: "ocd-election/7c1e2f90-0001",
+          name: "General Election",
+          electionDate: new Date("2024-11-05T06:00:00Z"),
+          registrationDeadline: new Date("2024-10-16T04:59:00Z"),
+          mailBallotRequestDeadline: new Date("2024-10-31T22:00:00Z"),
+          mailBallotReturnDeadline: new Date("2024-11-19T06:00:00Z"),
+          earlyVotingStart: new Date("2024-10-21T13:30:00Z"),
+          earlyVotingEnd: new Date("2024-11-04T22:30:00Z"),
+          sourceUrl: "https://shelbyville.example.gov/elections/2024-11",
+        },
+        {
+          externalId: "ocd-election/7c1e2f90-0002",
+          name: "Special Election",
+          electionDate: new Date("2025-04-01T05:00:00Z"),
+          registrationDeadline: undefined,
+          mailBallotRequestDeadline: undefined,
+          mailBallotReturnDeadline: undefined,
+          earlyVotingStart: undefined,
+          earlyVotingEnd: undefined,
+          sourceUrl: undefined,
+        },
+      ]);
+    });
+  });
+
+  describe("fetchRepresentatives", () => {
+    it("should read OCD people", async () => {
+      const representatives = await provider.fetchRepresentatives();
+
+      expect(representatives).toEqual([
+        {
+          externalId: "ocd-person/0a1b2c3d-0001",
+          name: "Marge Bouvier",
+          chamber: "Board of Supervisors",
+          district: "Council District 3",
+          party: "Democratic",
+          photoUrl: "https://shelbyville.example.gov/photos/bouvier.jpg",
+          contactInfo: {
+            email: "mbouvier@shelbyville.example.gov",
+            phone: "555-0103",
+            address: undefined,
+            website: "https://shelbyville.example.gov/district-3",
+          },
+        },
+        {
+          externalId: "ocd-person/0a1b2c3d-0002",
+          name: "Ned Flanders",
+          chamber: "Board of Supervisors",
+          district: "District 5",
+          party: "Republican",
+          photoUrl: undefined,
+          contactInfo: {
+            email: undefined,
+            phone: "555-0105",
+            address: "100 Main St, Shelbyville",
+            website: undefined,
+          },
+        },
+      ]);
+    });
+
+    it("should turn OCD division IDs in CSV files into district names", async () => {
+      jest.spyOn(extraction, "fetchWithRetry").mockResolvedValue({
+        content:
+          "externalId,name,chamber,district,party\n" +
+          "rep-1,Lisa Simpson,U.S. House,ocd-division/country:us/state:il/cd:13,Independent\n",
+      } as never);
+      const csv = createProvider(`
+files:
+  representatives:
+    source: https://data.example.gov/reps.csv
+`);
+
+      const [representative] = await csv.fetchRepresentatives();
+
+      expect(representative.district).toBe("Congressional District 13");
+      expect(extraction.fetchWithRetry).toHaveBeenCalledWith(
+        "https://data.example.gov/reps.csv",
+      );
+    });
+  });
+
+  describe("storage sources", () => {
+    const definition = `
+files:
+  meetings:
+    source: storage://civic-data/shelbyville/events.json
+`;
+
+    it("should fetch files through a signed storage URL", async () => {
+      const storage = {
+        getSignedUrl: jest
+          .fn()
+          .mockResolvedValue("https://storage.example.com/signed"),
+      } as unknown as IStorageProvider;
+      jest.spyOn(extraction, "fetchWithRetry").mockResolvedValue({
+        content: fixture("events.json"),
+      } as never);
+
+      const meetings = await createProvider(
+        definition,
+        storage,
+      ).fetchMeetings();
+
+      expect(meetings).toHaveLength(2);
+      expect(storage.getSignedUrl).toHaveBeenCalledWith(
+        "civic-data",
+        "shelbyville/events.json",
+        false,
+      );
+      expect(extraction.fetchWithRetry).toHaveBeenCalledWith(
+        "https://storage.example.com/signed",
+        { bypassCache: true },
+      );
+    });
+
+    it("should fail without a storage provider", async () => {
+      await expect(createProvider(definition).fetchMeetings()).rejects.toThrow(
+        /No storage provider configured/,
+      );
+    });
+  });
+
+  describe("errors", () => {
+    it("should wrap read failures in RegionError", async () => {
+      const missing = createProvider(`
+files:
+  meetings:
+    source: missing.json
+`);
+
+      await expect(missing.fetchMeetings()).rejects.toThrow(RegionError);
+    });
+
+    it("should reject OCD files without an array of objects", async () => {
+      jest
+        .spyOn(extraction, "fetchWithRetry")
+        .mockResolvedValue({ content: '{"count": 0}' } as never);
+      const remote = createProvider(`
+files:
+  meetings:
+    source: https://data.example.gov/events.json
+`);
+
+      await expect(remote.fetchMeetings()).rejects.toThrow(
+        /must be an array or have a results array/,
+      );
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  chamberForDivision,
+  fromOcdPerson,
+  fromOcdProposition,
+  getOcdObjects,
+  parseOcdDate,
+  toDistrict,
+} from "../src/providers/file/ocd";
+
+describe("Open Civic Data", () => {
+  describe("toDistrict", () => {
+    it.each([
+      ["ocd-division/country:us/state:ca/cd:12", "Congressional District 12"],
+      ["ocd-division/country:us/state:ca/sldu:05", "Senate District 5"],
+      ["ocd-division/country:us/state:ca/sldl:80", "House District 80"],
+      ["ocd-division/country:us/state:ca/county:san_diego", "San Diego County"],
+      ["ocd-division/country:us/state:ca/place:los_angeles", "Los Angeles"],
+      ["ocd-division/country:us/state:il/place:chicago/ward:7", "Ward 7"],
+      [
+        "ocd-division/country:us/state:ca/school_district:oakland_unified",
+        "Oakland Unified School District",
+      ],
+      ["ocd-division/country:us/state:ca/precinct:41", "41"],
+      ["District 3", "District 3"],
+    ])("should read %s as %s", (value, district) => {
+      expect(toDistrict(value)).toBe(district);
+    });
+  });
+
+  describe("chamberForDivision", () => {
+    it("should infer the chamber from the division type", () => {
+      expect(chamberForDivision("ocd-division/country:us/state:ca/cd:12")).toBe(
+        "U.S. House",
+      );
+      expect(
+        chamberForDivision("ocd-division/country:us/state:ca/precinct:41"),
+      ).toBeUndefined();
+      expect(chamberForDivision("District 3")).toBeUndefined();
+    });
+  });
+
+  describe("parseOcdDate", () => {
+    it("should read dates without an offset as local to the region", () => {
+      expect(parseOcdDate("2024-10-08T18:30", "America/Chicago")).toEqual(
+        new Date("2024-10-08T23:30:00Z"),
+      );
+      expect(parseOcdDate("2024-11-05", "America/Los_Angeles")).toEqual(
+        new Date("2024-11-05T08:00:00Z"),
+      );
+    });
+
+    it("should honour explicit offsets", () => {
+      expect(
+        parseOcdDate("2024-10-08T18:30:00-04:00", "America/Chicago"),
+      ).toEqual(new Date("2024-10-08T22:30:00Z"));
+    });
+  });
+
+  describe("getOcdObjects", () => {
+    it("should accept arrays and API pages", () => {
+      expect(getOcdObjects([{ id: "a" }])).toEqual([{ id: "a" }]);
+      expect(getOcdObjects({ results: [{ id: "b" }] })).toEqual([{ id: "b" }]);
+      expect(() => getOcdObjects({ id: "c" })).toThrow(/results array/);
+    });
+  });
+
+  describe("fromOcdProposition", () => {
+    it("should read ballot measure contests", () => {
+      expect(
+        fromOcdProposition({
+          id: "ocd-contest/1",
+          name: "Measure A",
+          description: "Library parcel tax",
+          election: { date: "2024-11-05" },
+          sources: [{ url: "https://elections.example.gov/a" }],
+        }),
+      ).toEqual({
+        externalId: "ocd-contest/1",
+        title: "Measure A",
+        summary: "Library parcel tax",
+        fullText: undefined,
+        status: undefined,
+        electionDate: "2024-11-05",
+        sourceUrl: "https://elections.example.gov/a",
+      });
+    });
+  });
+
+  describe("fromOcdPerson", () => {
+    const now = new Date("2024-06-01T00:00:00Z");
+
+    it("should prefer the current role", () => {
+      const fields = fromOcdPerson(
+        {
+          id: "ocd-person/1",
+          name: "Lisa Simpson",
+          roles: [
+            { type: "lower", district: "12", end_date: "2022-12-31" },
+            { type: "upper", district: "4" },
+          ],
+          party: [
+            { name: "Green", end_date: "2020-01-01" },
+            { name: "Independent" },
+          ],
+        },
+        now,
+      );
+
+      expect(fields).toEqual(
+        expect.objectContaining({
+          chamber: "State Senate",
+          district: "4",
+          party: "Independent",
+        }),
+      );
+    });
+
+    it("should infer chamber and district from a division ID", () => {
+      const fields = fromOcdPerson(
+        {
+          id: "ocd-person/2",
+          name: "Bart Simpson",
+          roles: [{ division_id: "ocd-division/country:us/state:il/cd:07" }],
+        },
+        now,
+      );
+
+      expect(fields).toEqual(
+        expect.objectContaining({
+          chamber: "U.S. House",
+          district: "Congressional District 7",
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import "reflect-metadata";
+import { RegionRegistry } from "../src/region.registry";
+import { RegionService } from "../src/region.service";
+import {
+  IRegionProvider,
+  CivicDataType,
+  UnknownRegionError,
+} from "@qckstrt/common";
+
+// Mock NestJS Logger
+jest.mock("@nestjs/common", () => ({
+  Injectable: () => (target: any) => target,
+  Logger: jest.fn().mockImplementation(() => ({
+    log: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  })),
+}));
+
+const createService = (id: string): RegionService => {
+  const provider: IRegionProvider = {
+    getName: () => `${id}-provider`,
+    getRegionInfo: () => ({
+      id,
+      name: `Region ${id}`,
+      description: `Test region ${id}`,
+      timezone: "America/Los_Angeles",
+    }),
+    getSupportedDataTypes: () => [CivicDataType.MEETINGS],
+    fetchPropositions: jest.fn().mockResolvedValue([]),
+    fetchMeetings: jest.fn().mockResolvedValue([]),
+    fetchRepresentatives: jest.fn().mockResolvedValue([]),
+    fetchElections: jest.fn().mockResolvedValue([]),
+  };
+  return new RegionService(provider);
+};
+
+describe("RegionRegistry", () => {
+  let registry: RegionRegistry;
+  let state: RegionService;
+  let county: RegionService;
+
+  beforeEach(() => {
+    state = createService("state");
+    county = createService("county");
+    registry = new RegionRegistry([state, county]);
+  });
+
+  it("should key services by RegionInfo.id in registration order", () => {
+    expect(registry.getRegionIds()).toEqual(["state", "county"]);
+    expect(registry.getAll()).toEqual([state, county]);
+  });
+
+  it("should return region info for every region", () => {
+    expect(registry.getRegions().map((r) => r.name)).toEqual([
+      "Region state",
+      "Region county",
+    ]);
+  });
+
+  it("should look up a region by ID", () => {
+    expect(registry.get("county")).toBe(county);
+    expect(registry.has("county")).toBe(true);
+    expect(registry.has("city")).toBe(false);
+  });
+
+  it("should throw UnknownRegionError for unregistered regions", () => {
+    expect(() => registry.get("city")).toThrow(UnknownRegionError);
+  });
+
+  it("should use the first registered region as the default", () => {
+    expect(registry.getDefault()).toBe(state);
+  });
+
+  it("should reject duplicate region IDs", () => {
+    expect(
+      () =>
+        new RegionRegistry([createService("state"), createService("state")]),
+    ).toThrow("Duplicate region provider for region: state");
+  });
+
+  it("should require at least one region", () => {
+    expect(() => new RegionRegistry([])).toThrow(
+      "RegionRegistry requires at least one region provider",
+    );
+  });
+});
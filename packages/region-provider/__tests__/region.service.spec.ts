@@ -1,6 +1,12 @@
 import "reflect-metadata";
 import { RegionService } from "../src/region.service";
-import { IRegionProvider, CivicDataType } from "@qckstrt/common";
+import {
+  IRegionProvider,
+  CivicDataType,
+  BillStatus,
+  RegionError,
+  VoteOption,
+} from "@qckstrt/common";
 
 // Mock NestJS Logger
 jest.mock("@nestjs/common", () => ({
@@ -70,6 +76,53 @@ describe("RegionService", () => {
     },
   ];
 
+  const mockElections = [
+    {
+      externalId: "election-1",
+      name: "General Election",
+      electionDate: new Date("2024-11-05T20:00:00-05:00"),
+      registrationDeadline: new Date("2024-10-15T23:59:59-04:00"),
+    },
+  ];
+
+  const mockBills = [
+    {
+      externalId: "bill-1",
+      number: "AB 1",
+      title: "Test Bill",
+      status: BillStatus.INTRODUCED,
+      sponsors: [{ name: "John Doe", primary: true }],
+      actions: [{ date: new Date("2024-01-08"), description: "Introduced" }],
+    },
+  ];
+
+  const mockVotes = [
+    {
+      externalId: "vote-1",
+      billExternalId: "bill-1",
+      motion: "Third Reading",
+      chamber: "Senate",
+      votedAt: new Date("2024-04-15T18:00:00Z"),
+      passed: true,
+      memberVotes: [
+        {
+          name: "John Doe",
+          representativeExternalId: "rep-1",
+          option: VoteOption.YES,
+        },
+      ],
+    },
+  ];
+
+  const mockRaces = [
+    {
+      externalId: "race-1",
+      office: "Governor",
+      electionDate: new Date("2024-11-05"),
+      candidates: [{ name: "Alex Rivera", incumbent: false }],
+    },
+  ];
+
   beforeEach(() => {
     jest.clearAllMocks();
 
@@ -86,6 +139,10 @@ describe("RegionService", () => {
       fetchPropositions: jest.fn().mockResolvedValue(mockPropositions),
       fetchMeetings: jest.fn().mockResolvedValue(mockMeetings),
       fetchRepresentatives: jest.fn().mockResolvedValue(mockRepresentatives),
+      fetchElections: jest.fn().mockResolvedValue(mockElections),
+      fetchBills: jest.fn().mockResolvedValue(mockBills),
+      fetchVotes: jest.fn().mockResolvedValue(mockVotes),
+      fetchRaces: jest.fn().mockResolvedValue(mockRaces),
     };
 
     service = new RegionService(mockProvider);
@@ -170,4 +227,82 @@ describe("RegionService", () => {
       );
     });
   });
+
+  describe("fetchElections", () => {
+    it("should fetch elections from provider", async () => {
+      const elections = await service.fetchElections();
+
+      expect(elections).toEqual(mockElections);
+      expect(mockProvider.fetchElections).toHaveBeenCalled();
+    });
+
+    it("should count elections when syncing them", async () => {
+      const result = await service.syncDataType(CivicDataType.ELECTIONS);
+
+      expect(result.dataType).toBe(CivicDataType.ELECTIONS);
+      expect(result.itemsProcessed).toBe(1);
+    });
+  });
+
+  describe("fetchBills", () => {
+    it("should fetch bills from provider", async () => {
+      const bills = await service.fetchBills();
+
+      expect(bills).toEqual(mockBills);
+      expect(mockProvider.fetchBills).toHaveBeenCalled();
+    });
+
+    it("should fail for providers without fetchBills", async () => {
+      delete mockProvider.fetchBills;
+
+      await expect(service.fetchBills()).rejects.toThrow(RegionError);
+      await expect(service.fetchBills()).rejects.toThrow(
+        "provider does not fetch bills",
+      );
+    });
+  });
+
+  describe("fetchVotes", () => {
+    it("should fetch votes from provider", async () => {
+      const votes = await service.fetchVotes();
+
+      expect(votes).toEqual(mockVotes);
+      expect(mockProvider.fetchVotes).toHaveBeenCalled();
+    });
+
+    it("should count votes when syncing them", async () => {
+      const result = await service.syncDataType(CivicDataType.VOTES);
+
+      expect(result.dataType).toBe(CivicDataType.VOTES);
+      expect(result.itemsProcessed).toBe(1);
+    });
+
+    it("should fail for providers without fetchVotes", async () => {
+      delete mockProvider.fetchVotes;
+
+      await expect(service.fetchVotes()).rejects.toThrow(RegionError);
+    });
+  });
+
+  describe("fetchRaces", () => {
+    it("should fetch races from provider", async () => {
+      const races = await service.fetchRaces();
+
+      expect(races).toEqual(mockRaces);
+      expect(mockProvider.fetchRaces).toHaveBeenCalled();
+    });
+
+    it("should count races when syncing them", async () => {
+      const result = await service.syncDataType(CivicDataType.RACES);
+
+      expect(result.dataType).toBe(CivicDataType.RACES);
+      expect(result.itemsProcessed).toBe(1);
+    });
+
+    it("should fail for providers without fetchRaces", async () => {
+      delete mockProvider.fetchRaces;
+
+      await expect(service.fetchRaces()).rejects.toThrow(RegionError);
+    });
+  });
 });
@@ -0,0 +1,149 @@
+import { join } from "node:path";
+import {
+  ScrapeDefinitionError,
+  loadScrapeDefinition,
+  parseScrapeDefinition,
+} from "../src/providers/scraping/scrape-definition";
+
+const region = {
+  id: "springfield",
+  name: "City of Springfield",
+  timezone: "America/Chicago",
+};
+
+const meetings = {
+  urls: ["https://springfield.example.gov/meetings"],
+  items: "li.meeting",
+  fields: {
+    externalId: { attribute: "data-id" },
+    title: "h3",
+    body: "h3",
+    scheduledAt: ".when",
+  },
+};
+
+const parse = (definition: object) =>
+  parseScrapeDefinition(JSON.stringify(definition), "test.json");
+
+describe("scrape definitions", () => {
+  describe("parseScrapeDefinition", () => {
+    it("should parse JSON definitions", () => {
+      const definition = parse({ region, meetings });
+
+      expect(definition.region).toEqual({ description: "", ...region });
+      expect(definition.meetings?.items).toBe("li.meeting");
+    });
+
+    it("should parse YAML definitions", () => {
+      const definition = parseScrapeDefinition(
+        [
+          "region:",
+          "  id: springfield",
+          "  name: City of Springfield",
+          "  timezone: America/Chicago",
+          "meetings:",
+          "  urls: [https://springfield.example.gov/meetings]",
+          "  items: li.meeting",
+          "  fields:",
+          "    externalId: { attribute: data-id }",
+          "    title: h3",
+          "    body: h3",
+          "    scheduledAt: .when",
+        ].join("\n"),
+        "test.yaml",
+      );
+
+      expect(definition.meetings?.fields.title).toBe("h3");
+    });
+
+    it("should resolve relative URLs against the base URL", () => {
+      const definition = parseScrapeDefinition(
+        JSON.stringify({
+          region,
+          meetings: { ...meetings, urls: ["fixtures/meetings.html"] },
+        }),
+        "test.json",
+        "file:///regions/springfield.json",
+      );
+
+      expect(definition.meetings?.urls).toEqual([
+        "file:///regions/fixtures/meetings.html",
+      ]);
+    });
+
+    it.each([
+      [{ meetings }, "region must be an object"],
+      [{ region: { ...region, id: "" }, meetings }, "region.id is required"],
+      [
+        { region: { ...region, timezone: "Mars/Olympus" }, meetings },
+        'region.timezone "Mars/Olympus" is not a known time zone',
+      ],
+      [{ region }, "define at least one of"],
+      [
+        { region, meetings: { ...meetings, urls: [] } },
+        "meetings: urls must be a non-empty list",
+      ],
+      [
+        { region, meetings: { ...meetings, urls: ["/meetings"] } },
+        "meetings: urls must be absolute",
+      ],
+      [
+        { region, meetings: { ...meetings, pagination: { maxPages: 2 } } },
+        "meetings: pagination.next must be a CSS selector",
+      ],
+      [
+        {
+          region,
+          meetings: { ...meetings, fields: { ...meetings.fields, room: "p" } },
+        },
+        'meetings: unknown field "room"',
+      ],
+      [
+        {
+          region,
+          meetings: {
+            ...meetings,
+            fields: { ...meetings.fields, title: { css: "h3" } },
+          },
+        },
+        'meetings: field "title" has unknown option "css"',
+      ],
+      [
+        {
+          region,
+          meetings: {
+            ...meetings,
+            fields: { ...meetings.fields, title: { pattern: "(" } },
+          },
+        },
+        'meetings: field "title" has an invalid pattern',
+      ],
+      [
+        { region, meetings: { ...meetings, fields: { title: "h3" } } },
+        "meetings: missing required fields: externalId, body, scheduledAt",
+      ],
+    ])("should reject malformed definitions (%#)", (definition, message) => {
+      expect(() => parse(definition)).toThrow(ScrapeDefinitionError);
+      expect(() => parse(definition)).toThrow(message);
+    });
+
+    it("should reject unparseable files", () => {
+      expect(() =>
+        parseScrapeDefinition("region: [unclosed", "broken.yaml"),
+      ).toThrow("Invalid scrape definition broken.yaml");
+    });
+  });
+
+  describe("loadScrapeDefinition", () => {
+    it("should load a file and resolve URLs next to it", async () => {
+      const definition = await loadScrapeDefinition(
+        join(__dirname, "fixtures", "scraping", "springfield.yaml"),
+      );
+
+      expect(definition.region.id).toBe("springfield");
+      expect(definition.propositions?.urls[0]).toMatch(
+        /^file:\/\/.*\/fixtures\/scraping\/measures\.html$/,
+      );
+    });
+  });
+});
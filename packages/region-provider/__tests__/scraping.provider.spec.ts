@@ -0,0 +1,243 @@
+import "reflect-metadata";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { ExtractionProvider } from "@qckstrt/extraction-provider";
+import { ScrapingRegionProvider } from "../src/providers/scraping/scraping.provider";
+import { parseScrapeDefinition } from "../src/providers/scraping/scrape-definition";
+import { CivicDataType, PropositionStatus, RegionError } from "@qckstrt/common";
+
+// Mock NestJS Logger
+jest.mock("@nestjs/common", () => ({
+  ...jest.requireActual("@nestjs/common"),
+  Logger: jest.fn().mockImplementation(() => ({
+    log: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  })),
+}));
+
+const FIXTURES = join(__dirname, "fixtures", "scraping");
+
+const fixture = (name: string) => readFileSync(join(FIXTURES, name), "utf8");
+
+describe("ScrapingRegionProvider", () => {
+  let extraction: ExtractionProvider;
+  let provider: ScrapingRegionProvider;
+
+  beforeEach(async () => {
+    extraction = new ExtractionProvider();
+    provider = await ScrapingRegionProvider.fromFile(
+      join(FIXTURES, "springfield.yaml"),
+      extraction,
+    );
+  });
+
+  afterEach(() => {
+    extraction.onModuleDestroy();
+  });
+
+  describe("region info", () => {
+    it("should use the definition's region", () => {
+      expect(provider.getName()).toBe("springfield");
+      expect(provider.getRegionInfo()).toEqual(
+        expect.objectContaining({
+          id: "springfield",
+          name: "City of Springfield",
+          timezone: "America/Chicago",
+        }),
+      );
+    });
+
+    it("should not list fixture files as data sources", () => {
+      expect(provider.getRegionInfo().dataSourceUrls).toEqual([]);
+    });
+
+    it("should support the data types the definition describes", () => {
+      expect(provider.getSupportedDataTypes()).toEqual([
+        CivicDataType.PROPOSITIONS,
+        CivicDataType.MEETINGS,
+        CivicDataType.REPRESENTATIVES,
+        CivicDataType.ELECTIONS,
+      ]);
+    });
+  });
+
+  describe("fetchPropositions", () => {
+    it("should scrape every page of the listing", async () => {
+      const propositions = await provider.fetchPropositions();
+
+      expect(propositions.map((p) => p.externalId)).toEqual([
+        "2024-A",
+        "2024-B",
+        "2023-C",
+      ]);
+    });
+
+    it("should read, map and parse each field", async () => {
+      const [first, second, third] = await provider.fetchPropositions();
+
+      expect(first).toEqual({
+        externalId: "2024-A",
+        title: "Library Parcel Tax",
+        summary: "Renews the library parcel tax for twelve years.",
+        fullText: undefined,
+        status: PropositionStatus.PASSED,
+        electionDate: new Date("2024-03-05T06:00:00.000Z"),
+        sourceUrl: "https://springfield.example.gov/measures/2024-a",
+      });
+      expect(second.status).toBe(PropositionStatus.PENDING);
+      expect(third.status).toBe(PropositionStatus.FAILED);
+    });
+  });
+
+  describe("fetchMeetings", () => {
+    it("should apply patterns, date formats and defaults", async () => {
+      const meetings = await provider.fetchMeetings();
+
+      expect(meetings).toHaveLength(2);
+      expect(meetings[0]).toEqual(
+        expect.objectContaining({
+          externalId: "cc-2024-03-12",
+          title: "City Council Regular Meeting",
+          body: "City Council",
+          // Daylight saving time started on March 10
+          scheduledAt: new Date("2024-03-12T23:30:00.000Z"),
+          location: "Council Chambers, 100 Main St",
+        }),
+      );
+      expect(meetings[1]).toEqual(
+        expect.objectContaining({
+          body: "Planning Commission",
+          scheduledAt: new Date("2024-03-14T14:00:00.000Z"),
+          location: "City Hall",
+          agendaUrl: undefined,
+        }),
+      );
+    });
+  });
+
+  describe("fetchRepresentatives", () => {
+    it("should fill fixed values and contact info", async () => {
+      const [lopez, okafor] = await provider.fetchRepresentatives();
+
+      expect(lopez).toEqual({
+        externalId: "ana-lopez",
+        name: "Ana Lopez",
+        chamber: "City Council",
+        district: "Ward 1",
+        party: "Nonpartisan",
+        photoUrl: "https://springfield.example.gov/photos/ana-lopez.jpg",
+        contactInfo: {
+          email: "alopez@springfield.example.gov",
+          phone: "(555) 010-0101",
+          address: undefined,
+          website: undefined,
+        },
+      });
+      expect(okafor.contactInfo).toBeUndefined();
+    });
+  });
+
+  describe("fetchElections", () => {
+    it("should read deadlines and split the early-voting window", async () => {
+      const [consolidated, general] = await provider.fetchElections();
+
+      expect(consolidated).toEqual({
+        externalId: "2024-04-02",
+        name: "Consolidated Election",
+        electionDate: new Date("2024-04-02T05:00:00.000Z"),
+        registrationDeadline: new Date("2024-03-05T06:00:00.000Z"),
+        mailBallotRequestDeadline: new Date("2024-03-28T05:00:00.000Z"),
+        mailBallotReturnDeadline: undefined,
+        earlyVotingStart: new Date("2024-03-18T05:00:00.000Z"),
+        earlyVotingEnd: new Date("2024-04-01T05:00:00.000Z"),
+        sourceUrl: expect.stringMatching(/\/elections\/2024-04-02$/),
+      });
+      expect(general).toEqual(
+        expect.objectContaining({
+          externalId: "2024-11-05",
+          mailBallotRequestDeadline: undefined,
+          earlyVotingStart: undefined,
+          earlyVotingEnd: undefined,
+        }),
+      );
+    });
+  });
+
+  describe("fetching over HTTP", () => {
+    const definition = parseScrapeDefinition(
+      `
+region:
+  id: springfield
+  name: City of Springfield
+  timezone: America/Chicago
+headers:
+  User-Agent: civic-bot
+meetings:
+  urls: ["https://springfield.example.gov/meetings"]
+  items: li.meeting
+  fields:
+    externalId: { attribute: data-id }
+    title: h3
+    body: h3
+    scheduledAt: .when
+    agendaUrl: { selector: a.agenda, attribute: href }
+`,
+      "inline",
+    );
+
+    it("should fetch through ExtractionProvider and resolve links", async () => {
+      const fetchWithRetry = jest
+        .spyOn(extraction, "fetchWithRetry")
+        .mockResolvedValue({
+          content: fixture("meetings.html"),
+          fromCache: false,
+        });
+      provider = new ScrapingRegionProvider(definition, extraction);
+
+      const meetings = await provider.fetchMeetings();
+
+      expect(fetchWithRetry).toHaveBeenCalledWith(
+        "https://springfield.example.gov/meetings",
+        { headers: { "User-Agent": "civic-bot" } },
+      );
+      expect(meetings[0].agendaUrl).toBe(
+        "https://springfield.example.gov/agendas/cc-2024-03-12.pdf",
+      );
+      expect(provider.getRegionInfo().dataSourceUrls).toEqual([
+        "https://springfield.example.gov/meetings",
+      ]);
+    });
+
+    it("should pass unparseable dates on for validation", async () => {
+      jest.spyOn(extraction, "fetchWithRetry").mockResolvedValue({
+        content: fixture("meetings.html"),
+        fromCache: false,
+      });
+      provider = new ScrapingRegionProvider(definition, extraction);
+
+      const [meeting] = await provider.fetchMeetings();
+
+      expect(meeting.scheduledAt.getTime()).toBeNaN();
+    });
+
+    it("should return nothing for data types without a listing", async () => {
+      provider = new ScrapingRegionProvider(definition, extraction);
+
+      expect(provider.getSupportedDataTypes()).toEqual([
+        CivicDataType.MEETINGS,
+      ]);
+      await expect(provider.fetchPropositions()).resolves.toEqual([]);
+    });
+
+    it("should wrap fetch failures in RegionError", async () => {
+      jest
+        .spyOn(extraction, "fetchWithRetry")
+        .mockRejectedValue(new Error("HTTP 503"));
+      provider = new ScrapingRegionProvider(definition, extraction);
+
+      await expect(provider.fetchMeetings()).rejects.toThrow(RegionError);
+    });
+  });
+});
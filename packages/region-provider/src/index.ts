@@ -2,12 +2,23 @@
  * @qckstrt/region-provider
  *
  * Region provider implementations for the QCKSTRT platform.
- * Supports pluggable data sources for civic information (propositions, meetings, representatives).
+ * Supports pluggable data sources for civic information (propositions, meetings,
+ * representatives, elections, bills, roll-call votes, and races with their
+ * candidates).
  *
  * Usage:
  * 1. Import RegionModule in your app module
  * 2. Set REGION_PROVIDER environment variable to select provider
- * 3. Inject RegionService to access civic data
+ *    (or REGION_PROVIDERS=a,b,c to serve several regions)
+ * 3. Inject RegionService (default region) or RegionRegistry (all regions)
+ *
+ * Scraping a region's website without code:
+ * 1. Write a JSON or YAML scrape definition (see ScrapeDefinition)
+ * 2. Set REGION_PROVIDER=path/to/definition.yaml in .env
+ *
+ * Loading a region from OCD JSON or CSV data files:
+ * 1. Write a JSON or YAML file definition (see FileDefinition)
+ * 2. Set REGION_PROVIDER=path/to/definition.yaml in .env
  *
  * Creating custom providers:
  * 1. Create a new package implementing IRegionProvider
@@ -21,17 +32,78 @@ export {
   RegionInfo,
   CivicDataType,
   PropositionStatus,
+  PropositionPosition,
+  PropositionArgument,
+  Endorsement,
+  VoteThreshold,
   Proposition,
   Meeting,
   Representative,
+  Election,
+  BillStatus,
+  BillSponsor,
+  BillAction,
+  Bill,
+  VoteOption,
+  MemberVote,
+  Vote,
+  Candidate,
+  Race,
   ContactInfo,
   SyncResult,
   RegionError,
+  UnknownRegionError,
 } from "@qckstrt/common";
 
 // Provider implementations
 export { ExampleRegionProvider } from "./providers/example.provider.js";
+export { ScrapingRegionProvider } from "./providers/scraping/scraping.provider.js";
+export {
+  FileRegionProvider,
+  FileRegionProviderOptions,
+} from "./providers/file/file.provider.js";
+
+// Definition files
+export {
+  DEFINITION_FILE_EXTENSIONS,
+  isDefinitionFilePath,
+} from "./providers/definition-file.js";
+
+// Scrape definitions
+export {
+  ScrapeDefinition,
+  ListingDefinition,
+  PaginationRule,
+  FieldRule,
+  FieldSelector,
+  PropositionField,
+  MeetingField,
+  RepresentativeField,
+  ElectionField,
+} from "./providers/scraping/scrape-definition.types.js";
+export {
+  ScrapeDefinitionError,
+  parseScrapeDefinition,
+  loadScrapeDefinition,
+} from "./providers/scraping/scrape-definition.js";
+export { parseDate } from "./providers/date-format.js";
+
+// File definitions
+export {
+  FileDefinition,
+  DataFileDefinition,
+  DataFileFormat,
+} from "./providers/file/file-definition.types.js";
+export {
+  FileDefinitionError,
+  parseFileDefinition,
+  loadFileDefinition,
+  isFileDefinition,
+} from "./providers/file/file-definition.js";
+export { parseCsv, parseCsvRecords } from "./providers/file/csv.js";
+export { toDistrict, chamberForDivision } from "./providers/file/ocd.js";
 
 // Service and module
 export { RegionService } from "./region.service.js";
+export { RegionRegistry } from "./region.registry.js";
 export { RegionModule } from "./region.module.js";
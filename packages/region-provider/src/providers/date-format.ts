@@ -0,0 +1,242 @@
+/**
+ * Date Parsing for Scraped Pages
+ *
+ * Reads dates written the way a region's website writes them (e.g.
+ * "March 12, 2024 10:00 AM") as wall-clock times in the region's time zone.
+ */
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+/**
+ * Format tokens and the text they match, longest tokens first
+ */
+const TOKENS: [string, string][] = [
+  ["YYYY", "(\\d{4})"],
+  ["YY", "(\\d{2})"],
+  ["MMMM", "([A-Za-z]+)"],
+  ["MMM", "([A-Za-z]{3,4})\\.?"],
+  ["MM", "(\\d{2})"],
+  ["M", "(\\d{1,2})"],
+  ["DD", "(\\d{2})"],
+  ["D", "(\\d{1,2})"],
+  ["HH", "(\\d{2})"],
+  ["H", "(\\d{1,2})"],
+  ["hh", "(\\d{2})"],
+  ["h", "(\\d{1,2})"],
+  ["mm", "(\\d{2})"],
+  ["ss", "(\\d{2})"],
+  ["A", "([AaPp]\\.?[Mm]\\.?)"],
+  ["a", "([AaPp]\\.?[Mm]\\.?)"],
+];
+
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const invalidDate = () => new Date(Number.NaN);
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Compile a format into a regular expression and the token of each group
+ */
+function compileFormat(format: string): { regex: RegExp; tokens: string[] } {
+  const tokens: string[] = [];
+  let source = "";
+
+  for (let i = 0; i < format.length; ) {
+    const match = TOKENS.find(([token]) => format.startsWith(token, i));
+    const literalEnd = format[i] === "[" ? format.indexOf("]", i) : -1;
+    if (literalEnd !== -1) {
+      source += escapeRegExp(format.slice(i + 1, literalEnd));
+      i = literalEnd + 1;
+    } else if (match) {
+      tokens.push(match[0]);
+      source += match[1];
+      i += match[0].length;
+    } else if (/\s/.test(format[i])) {
+      source += "\\s+";
+      while (i < format.length && /\s/.test(format[i])) i++;
+    } else {
+      source += escapeRegExp(format[i]);
+      i++;
+    }
+  }
+
+  return { regex: new RegExp(source), tokens };
+}
+
+function monthFromName(name: string): number | undefined {
+  const lower = name.toLowerCase().replace(/\.$/, "");
+  const index = MONTHS.findIndex(
+    (month) => lower.length >= 3 && month.startsWith(lower.slice(0, 3)),
+  );
+  return index === -1 ? undefined : index + 1;
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+function timeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(new Date(instant));
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const wallClock = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second"),
+  );
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in a time zone to an instant
+ */
+function fromWallClock(parts: DateParts, timeZone: string): Date {
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+
+  // The offset at the guess can differ from the offset at the answer when a
+  // DST change falls in between, so correct once more
+  let instant = wallClock - timeZoneOffset(wallClock, timeZone);
+  instant = wallClock - timeZoneOffset(instant, timeZone);
+  return new Date(instant);
+}
+
+/**
+ * Parse a scraped date
+ *
+ * Without a format the text must be a date JavaScript understands (e.g.
+ * ISO 8601). With one, the text is searched for the format, so surrounding
+ * words such as a weekday are ignored. Supported tokens: YYYY, YY, MMMM,
+ * MMM, MM, M, DD, D, HH, H, hh, h, mm, ss, A, a. Text in square brackets
+ * is matched literally, e.g. "MMMM D [at] h:mm A".
+ *
+ * @returns The instant, or an invalid Date if the text doesn't match
+ */
+export function parseDate(
+  text: string,
+  format: string | undefined,
+  timeZone: string,
+): Date {
+  if (!format) {
+    return new Date(text);
+  }
+
+  const { regex, tokens } = compileFormat(format);
+  const match = regex.exec(text);
+  if (!match) {
+    return invalidDate();
+  }
+
+  const parts: DateParts = {
+    year: 0,
+    month: 1,
+    day: 1,
+    hour: 0,
+    minute: 0,
+    second: 0,
+  };
+  let meridiem: string | undefined;
+
+  for (const [index, token] of tokens.entries()) {
+    const value = match[index + 1];
+    switch (token) {
+      case "YYYY":
+        parts.year = Number(value);
+        break;
+      case "YY":
+        parts.year = 2000 + Number(value);
+        break;
+      case "MMMM":
+      case "MMM": {
+        const month = monthFromName(value);
+        if (month === undefined) return invalidDate();
+        parts.month = month;
+        break;
+      }
+      case "MM":
+      case "M":
+        parts.month = Number(value);
+        break;
+      case "DD":
+      case "D":
+        parts.day = Number(value);
+        break;
+      case "HH":
+      case "H":
+      case "hh":
+      case "h":
+        parts.hour = Number(value);
+        break;
+      case "mm":
+        parts.minute = Number(value);
+        break;
+      case "ss":
+        parts.second = Number(value);
+        break;
+      case "A":
+      case "a":
+        meridiem = value[0].toLowerCase();
+        break;
+    }
+  }
+
+  if (meridiem) {
+    if (parts.hour < 1 || parts.hour > 12) return invalidDate();
+    parts.hour = (parts.hour % 12) + (meridiem === "p" ? 12 : 0);
+  }
+
+  // Reject dates such as February 30 that Date.UTC would roll over
+  const check = new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+  if (
+    parts.year === 0 ||
+    check.getUTCMonth() !== parts.month - 1 ||
+    check.getUTCDate() !== parts.day ||
+    parts.hour > 23 ||
+    parts.minute > 59 ||
+    parts.second > 59
+  ) {
+    return invalidDate();
+  }
+
+  return fromWallClock(parts, timeZone);
+}
@@ -0,0 +1,96 @@
+/**
+ * Region Definition Files
+ *
+ * Helpers shared by the providers configured from a JSON or YAML file
+ * (ScrapingRegionProvider and FileRegionProvider).
+ */
+
+import { readFile } from "node:fs/promises";
+import { extname, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parse as parseYaml } from "yaml";
+import { RegionInfo } from "@qckstrt/common";
+
+/**
+ * File extensions recognised as region definitions
+ */
+export const DEFINITION_FILE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+/**
+ * A definition file's content and where relative paths in it resolve
+ */
+export interface DefinitionFile {
+  content: string;
+  source: string;
+  baseUrl: string;
+}
+
+/**
+ * Check whether a REGION_PROVIDER value names a definition file
+ */
+export function isDefinitionFilePath(value: string): boolean {
+  return DEFINITION_FILE_EXTENSIONS.includes(extname(value).toLowerCase());
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse JSON or YAML definition content
+ *
+ * YAML is a superset of JSON, so one parser reads both.
+ */
+export function parseDefinitionContent(content: string): unknown {
+  return parseYaml(content);
+}
+
+/**
+ * Check a definition's region block
+ *
+ * @returns A description of the first problem, or undefined if valid
+ */
+export function checkRegionInfo(region: unknown): string | undefined {
+  if (!isObject(region)) {
+    return "region must be an object";
+  }
+  for (const key of ["id", "name", "timezone"]) {
+    const value = region[key];
+    if (typeof value !== "string" || !value.trim()) {
+      return `region.${key} is required`;
+    }
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: region.timezone as string });
+  } catch {
+    return `region.timezone "${region.timezone}" is not a known time zone`;
+  }
+  if (
+    region.state !== undefined &&
+    (typeof region.state !== "string" || !/^[A-Za-z]{2}$/.test(region.state))
+  ) {
+    return "region.state must be a two-letter state code";
+  }
+  return undefined;
+}
+
+/**
+ * Fill optional RegionInfo fields of a checked region block
+ */
+export function toRegionInfo(region: Record<string, unknown>): RegionInfo {
+  return { description: "", ...region } as unknown as RegionInfo;
+}
+
+/**
+ * Read a definition file
+ */
+export async function readDefinitionFile(
+  path: string,
+): Promise<DefinitionFile> {
+  const absolutePath = resolve(path);
+  return {
+    content: await readFile(absolutePath, "utf8"),
+    source: path,
+    baseUrl: pathToFileURL(absolutePath).toString(),
+  };
+}
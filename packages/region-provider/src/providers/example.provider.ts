@@ -6,7 +6,15 @@ import {
   Proposition,
   Meeting,
   Representative,
+  Election,
+  Bill,
+  BillStatus,
+  Vote,
+  VoteOption,
+  Race,
   PropositionStatus,
+  PropositionPosition,
+  VoteThreshold,
   RegionError,
 } from "@qckstrt/common";
 
@@ -41,6 +49,7 @@ export class ExampleRegionProvider implements IRegionProvider {
       description:
         "A sample region with mock civic data for development and testing",
       timezone: "America/Los_Angeles",
+      state: "CA",
       dataSourceUrls: ["https://example.com/civic-data"],
     };
   }
@@ -50,6 +59,10 @@ export class ExampleRegionProvider implements IRegionProvider {
       CivicDataType.PROPOSITIONS,
       CivicDataType.MEETINGS,
       CivicDataType.REPRESENTATIVES,
+      CivicDataType.ELECTIONS,
+      CivicDataType.BILLS,
+      CivicDataType.VOTES,
+      CivicDataType.RACES,
     ];
   }
 
@@ -71,6 +84,36 @@ export class ExampleRegionProvider implements IRegionProvider {
           status: PropositionStatus.PENDING,
           electionDate: new Date("2024-11-05"),
           sourceUrl: "https://example.com/propositions/2024-001",
+          arguments: [
+            {
+              position: PropositionPosition.FOR,
+              text: "Proposition A fixes a real problem at no new cost to taxpayers.",
+              authors: ["Jane Smith, State Senator"],
+              rebuttal:
+                "The costs are hidden, not absent. Read the fiscal analysis.",
+            },
+            {
+              position: PropositionPosition.AGAINST,
+              text: "Proposition A is poorly drafted and will be tied up in court.",
+              authors: ["Robert Johnson, Assemblymember"],
+              rebuttal:
+                "The measure was reviewed by legal experts before qualifying.",
+            },
+          ],
+          fiscalImpact:
+            "Increased state costs of about $5 million annually, partly offset by local savings.",
+          voteThreshold: VoteThreshold.MAJORITY,
+          endorsements: [
+            {
+              organization: "Example League of Voters",
+              position: PropositionPosition.FOR,
+              url: "https://example.com/league",
+            },
+            {
+              organization: "Example Taxpayers Association",
+              position: PropositionPosition.AGAINST,
+            },
+          ],
         },
         {
           externalId: "prop-2024-002",
@@ -143,6 +186,7 @@ export class ExampleRegionProvider implements IRegionProvider {
           scheduledAt: lastWeek,
           location: "Room 113, State Capitol",
           agendaUrl: "https://example.com/meetings/jlac-2024/agenda",
+          minutesUrl: "https://example.com/meetings/jlac-2024/minutes",
           videoUrl: "https://example.com/meetings/jlac-2024/video",
         },
       ];
@@ -236,4 +280,282 @@ export class ExampleRegionProvider implements IRegionProvider {
       );
     }
   }
+
+  async fetchElections(): Promise<Election[]> {
+    this.logger.log("Fetching example elections");
+
+    try {
+      // In a real provider, you would read the election authority's calendar
+      // For example: await this.fetchElectionCalendar()
+
+      const elections: Election[] = [
+        {
+          externalId: "election-2024-11-05",
+          name: "General Election",
+          electionDate: new Date("2024-11-05T20:00:00-08:00"),
+          registrationDeadline: new Date("2024-10-21T23:59:59-07:00"),
+          mailBallotRequestDeadline: new Date("2024-10-29T17:00:00-07:00"),
+          mailBallotReturnDeadline: new Date("2024-11-05T20:00:00-08:00"),
+          earlyVotingStart: new Date("2024-10-26T09:00:00-07:00"),
+          earlyVotingEnd: new Date("2024-11-04T17:00:00-08:00"),
+          sourceUrl: "https://example.com/elections/2024-11-05",
+        },
+        {
+          externalId: "election-2024-03-05",
+          name: "Primary Election",
+          electionDate: new Date("2024-03-05T20:00:00-08:00"),
+          registrationDeadline: new Date("2024-02-20T23:59:59-08:00"),
+          mailBallotReturnDeadline: new Date("2024-03-05T20:00:00-08:00"),
+          sourceUrl: "https://example.com/elections/2024-03-05",
+        },
+      ];
+
+      this.logger.log(`Fetched ${elections.length} example elections`);
+      return elections;
+    } catch (error) {
+      throw new RegionError(
+        this.getName(),
+        CivicDataType.ELECTIONS,
+        error as Error,
+      );
+    }
+  }
+
+  async fetchBills(): Promise<Bill[]> {
+    this.logger.log("Fetching example bills");
+
+    try {
+      // In a real provider, you would read the legislature's bill tracker
+      // For example: await this.fetchFromLegislatureAPI()
+
+      const bills: Bill[] = [
+        {
+          externalId: "bill-2024-ab-100",
+          number: "AB 100",
+          title: "Example Housing Affordability Act",
+          summary:
+            "An example bill that funds affordable housing construction.",
+          chamber: "Assembly",
+          session: "2023-2024",
+          status: BillStatus.ENACTED,
+          introducedAt: new Date("2024-01-08"),
+          sponsors: [
+            {
+              name: "Maria Garcia",
+              representativeExternalId: "rep-assembly-001",
+              primary: true,
+            },
+            {
+              name: "Jane Smith",
+              representativeExternalId: "rep-senate-001",
+              primary: false,
+            },
+          ],
+          actions: [
+            {
+              date: new Date("2024-01-08"),
+              description: "Introduced",
+              chamber: "Assembly",
+              status: BillStatus.INTRODUCED,
+            },
+            {
+              date: new Date("2024-02-12"),
+              description: "Referred to Committee on Housing",
+              chamber: "Assembly",
+              status: BillStatus.IN_COMMITTEE,
+            },
+            {
+              date: new Date("2024-04-15"),
+              description: "Passed Assembly",
+              chamber: "Assembly",
+              status: BillStatus.PASSED_CHAMBER,
+            },
+            {
+              date: new Date("2024-06-20"),
+              description: "Passed Senate",
+              chamber: "Senate",
+              status: BillStatus.PASSED_LEGISLATURE,
+            },
+            {
+              date: new Date("2024-07-10"),
+              description: "Signed by Governor",
+              status: BillStatus.ENACTED,
+            },
+          ],
+          sourceUrl: "https://example.com/bills/ab-100",
+        },
+        {
+          externalId: "bill-2024-sb-200",
+          number: "SB 200",
+          title: "Example Transit Safety Act",
+          chamber: "Senate",
+          session: "2023-2024",
+          status: BillStatus.IN_COMMITTEE,
+          introducedAt: new Date("2024-02-01"),
+          sponsors: [
+            {
+              name: "John Doe",
+              representativeExternalId: "rep-senate-002",
+              primary: true,
+            },
+          ],
+          actions: [
+            {
+              date: new Date("2024-02-01"),
+              description: "Introduced",
+              chamber: "Senate",
+              status: BillStatus.INTRODUCED,
+            },
+            {
+              date: new Date("2024-02-15"),
+              description: "Referred to Committee on Transportation",
+              chamber: "Senate",
+              status: BillStatus.IN_COMMITTEE,
+            },
+          ],
+          sourceUrl: "https://example.com/bills/sb-200",
+        },
+      ];
+
+      this.logger.log(`Fetched ${bills.length} example bills`);
+      return bills;
+    } catch (error) {
+      throw new RegionError(
+        this.getName(),
+        CivicDataType.BILLS,
+        error as Error,
+      );
+    }
+  }
+
+  async fetchVotes(): Promise<Vote[]> {
+    this.logger.log("Fetching example votes");
+
+    try {
+      // In a real provider, you would read roll calls from the journal
+      // For example: await this.fetchRollCalls()
+
+      const votes: Vote[] = [
+        {
+          externalId: "vote-2024-ab-100-assembly",
+          billExternalId: "bill-2024-ab-100",
+          motion: "AB 100 Third Reading",
+          chamber: "Assembly",
+          votedAt: new Date("2024-04-15T11:30:00-07:00"),
+          passed: true,
+          memberVotes: [
+            {
+              name: "Maria Garcia",
+              representativeExternalId: "rep-assembly-001",
+              option: VoteOption.YES,
+            },
+            {
+              name: "Robert Johnson",
+              representativeExternalId: "rep-assembly-002",
+              option: VoteOption.NO,
+            },
+          ],
+          sourceUrl: "https://example.com/votes/ab-100-assembly",
+        },
+        {
+          externalId: "vote-2024-ab-100-senate",
+          billExternalId: "bill-2024-ab-100",
+          motion: "AB 100 Third Reading",
+          chamber: "Senate",
+          votedAt: new Date("2024-06-20T14:00:00-07:00"),
+          passed: true,
+          memberVotes: [
+            {
+              name: "Jane Smith",
+              representativeExternalId: "rep-senate-001",
+              option: VoteOption.YES,
+            },
+            {
+              name: "John Doe",
+              representativeExternalId: "rep-senate-002",
+              option: VoteOption.ABSENT,
+            },
+          ],
+          sourceUrl: "https://example.com/votes/ab-100-senate",
+        },
+      ];
+
+      this.logger.log(`Fetched ${votes.length} example votes`);
+      return votes;
+    } catch (error) {
+      throw new RegionError(
+        this.getName(),
+        CivicDataType.VOTES,
+        error as Error,
+      );
+    }
+  }
+
+  async fetchRaces(): Promise<Race[]> {
+    this.logger.log("Fetching example races");
+
+    try {
+      // In a real provider, you would read the certified candidate list
+      // For example: await this.fetchCandidateList()
+
+      const races: Race[] = [
+        {
+          externalId: "race-2024-governor",
+          electionExternalId: "election-2024-11-05",
+          office: "Governor",
+          electionDate: new Date("2024-11-05T20:00:00-08:00"),
+          candidates: [
+            {
+              name: "Alex Rivera",
+              party: "Democratic",
+              incumbent: false,
+              ballotDesignation: "Mayor",
+              website: "https://example.com/candidates/rivera",
+            },
+            {
+              name: "Sam Chen",
+              party: "Republican",
+              incumbent: false,
+              ballotDesignation: "Business Owner",
+            },
+          ],
+          sourceUrl: "https://example.com/races/governor",
+        },
+        {
+          externalId: "race-2024-senate-001",
+          electionExternalId: "election-2024-11-05",
+          office: "State Senate, District 1",
+          chamber: "Senate",
+          district: "District 1",
+          electionDate: new Date("2024-11-05T20:00:00-08:00"),
+          candidates: [
+            {
+              name: "Jane Smith",
+              party: "Democratic",
+              incumbent: true,
+              representativeExternalId: "rep-senate-001",
+              ballotDesignation: "State Senator",
+              website: "https://example.com/candidates/smith",
+            },
+            {
+              name: "Pat Lee",
+              party: "Independent",
+              incumbent: false,
+              ballotDesignation: "Teacher",
+            },
+          ],
+          sourceUrl: "https://example.com/races/senate-001",
+        },
+      ];
+
+      this.logger.log(`Fetched ${races.length} example races`);
+      return races;
+    } catch (error) {
+      throw new RegionError(
+        this.getName(),
+        CivicDataType.RACES,
+        error as Error,
+      );
+    }
+  }
 }
@@ -0,0 +1,100 @@
+/**
+ * Civic Items from Field Values
+ *
+ * Configurable providers first read each item as flat text values keyed by
+ * field name, then build the civic data type from them here.
+ *
+ * Missing or malformed values are passed through rather than dropped; the
+ * region service validates items before storing them and reports the ones
+ * it skips.
+ */
+
+import {
+  Election,
+  Meeting,
+  Proposition,
+  PropositionStatus,
+  Representative,
+  VoteThreshold,
+} from "@qckstrt/common";
+
+/**
+ * Text values of one item, keyed by field name
+ */
+export type FieldValues = Record<string, string | undefined>;
+
+/**
+ * Parses a date field's value
+ */
+export type DateReader = (field: string) => Date | undefined;
+
+export function toProposition(
+  fields: FieldValues,
+  readDate: DateReader,
+): Proposition {
+  return {
+    externalId: fields.externalId ?? "",
+    title: fields.title ?? "",
+    summary: fields.summary ?? "",
+    fullText: fields.fullText,
+    status: (fields.status?.toLowerCase() ?? "") as PropositionStatus,
+    electionDate: readDate("electionDate"),
+    sourceUrl: fields.sourceUrl,
+    fiscalImpact: fields.fiscalImpact,
+    voteThreshold: fields.voteThreshold?.toLowerCase() as
+      | VoteThreshold
+      | undefined,
+  };
+}
+
+export function toMeeting(fields: FieldValues, readDate: DateReader): Meeting {
+  return {
+    externalId: fields.externalId ?? "",
+    title: fields.title ?? "",
+    body: fields.body ?? "",
+    scheduledAt: readDate("scheduledAt") ?? new Date(Number.NaN),
+    location: fields.location,
+    agendaUrl: fields.agendaUrl,
+    minutesUrl: fields.minutesUrl,
+    videoUrl: fields.videoUrl,
+  };
+}
+
+// Contact fields (email, phone, address, website) fill contactInfo
+export function toRepresentative(fields: FieldValues): Representative {
+  const contactInfo = {
+    email: fields.email,
+    phone: fields.phone,
+    address: fields.address,
+    website: fields.website,
+  };
+
+  return {
+    externalId: fields.externalId ?? "",
+    name: fields.name ?? "",
+    chamber: fields.chamber ?? "",
+    district: fields.district ?? "",
+    party: fields.party ?? "",
+    photoUrl: fields.photoUrl,
+    contactInfo: Object.values(contactInfo).some(Boolean)
+      ? contactInfo
+      : undefined,
+  };
+}
+
+export function toElection(
+  fields: FieldValues,
+  readDate: DateReader,
+): Election {
+  return {
+    externalId: fields.externalId ?? "",
+    name: fields.name ?? "",
+    electionDate: readDate("electionDate") ?? new Date(Number.NaN),
+    registrationDeadline: readDate("registrationDeadline"),
+    mailBallotRequestDeadline: readDate("mailBallotRequestDeadline"),
+    mailBallotReturnDeadline: readDate("mailBallotReturnDeadline"),
+    earlyVotingStart: readDate("earlyVotingStart"),
+    earlyVotingEnd: readDate("earlyVotingEnd"),
+    sourceUrl: fields.sourceUrl,
+  };
+}
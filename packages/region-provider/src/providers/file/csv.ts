@@ -0,0 +1,75 @@
+/**
+ * CSV Parsing
+ *
+ * Reads RFC 4180 CSV: quoted fields may contain commas, line breaks and
+ * doubled quotes; rows end in LF or CRLF.
+ */
+
+/**
+ * Split CSV text into rows of fields
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  // A byte order mark would otherwise end up in the first header
+  const text = content.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines hold no record
+  return rows.filter((r) => r.length > 1 || r[0].trim() !== "");
+}
+
+/**
+ * Parse CSV with a header row into records keyed by header
+ */
+export function parseCsvRecords(content: string): {
+  headers: string[];
+  records: Record<string, string>[];
+} {
+  const [headerRow = [], ...rows] = parseCsv(content);
+  const headers = headerRow.map((header) => header.trim());
+
+  return {
+    headers,
+    records: rows.map((row) =>
+      Object.fromEntries(
+        headers.map((header, index) => [header, row[index] ?? ""]),
+      ),
+    ),
+  };
+}
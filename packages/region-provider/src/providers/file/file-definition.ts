@@ -0,0 +1,234 @@
+/**
+ * File Definition Loading
+ *
+ * Parses JSON or YAML file definitions and checks them before any data
+ * file is read, so a typo fails at startup rather than during a sync.
+ */
+
+import { DataFileDefinition, FileDefinition } from "./file-definition.types.js";
+import {
+  checkRegionInfo,
+  isObject,
+  parseDefinitionContent,
+  readDefinitionFile,
+  toRegionInfo,
+} from "../definition-file.js";
+
+/**
+ * Exception thrown when a file definition is malformed
+ */
+export class FileDefinitionError extends Error {
+  constructor(
+    public source: string,
+    message: string,
+  ) {
+    super(`Invalid file definition ${source}: ${message}`);
+    this.name = "FileDefinitionError";
+  }
+}
+
+const FIELDS: Record<keyof FileDefinition["files"], string[]> = {
+  propositions: [
+    "externalId",
+    "title",
+    "summary",
+    "fullText",
+    "status",
+    "electionDate",
+    "sourceUrl",
+    "fiscalImpact",
+    "voteThreshold",
+  ],
+  meetings: [
+    "externalId",
+    "title",
+    "body",
+    "scheduledAt",
+    "location",
+    "agendaUrl",
+    "minutesUrl",
+    "videoUrl",
+  ],
+  representatives: [
+    "externalId",
+    "name",
+    "chamber",
+    "district",
+    "party",
+    "photoUrl",
+    "email",
+    "phone",
+    "address",
+    "website",
+  ],
+  elections: [
+    "externalId",
+    "name",
+    "electionDate",
+    "registrationDeadline",
+    "mailBallotRequestDeadline",
+    "mailBallotReturnDeadline",
+    "earlyVotingStart",
+    "earlyVotingEnd",
+    "sourceUrl",
+  ],
+};
+
+const SOURCE_PROTOCOLS = ["file:", "http:", "https:", "storage:"];
+
+const FILE_KEYS = [
+  "source",
+  "format",
+  "columns",
+  "defaults",
+  "statuses",
+  "dateFormat",
+];
+
+/**
+ * Check whether parsed definition content describes data files
+ *
+ * File definitions list their data under `files`; scrape definitions
+ * don't have that key.
+ */
+export function isFileDefinition(raw: unknown): boolean {
+  return isObject(raw) && raw.files !== undefined;
+}
+
+/**
+ * Check one data file and resolve its source
+ */
+function checkDataFile(
+  source: string,
+  name: keyof FileDefinition["files"],
+  file: unknown,
+  baseUrl?: string,
+): DataFileDefinition<string> {
+  const fail = (message: string) =>
+    new FileDefinitionError(source, `files.${name}: ${message}`);
+
+  if (!isObject(file)) {
+    throw fail("must be an object");
+  }
+  const unknownKey = Object.keys(file).find((key) => !FILE_KEYS.includes(key));
+  if (unknownKey) {
+    throw fail(`unknown option "${unknownKey}"`);
+  }
+  if (typeof file.source !== "string" || !file.source.trim()) {
+    throw fail("source is required");
+  }
+  if (
+    file.format !== undefined &&
+    file.format !== "ocd" &&
+    file.format !== "csv"
+  ) {
+    throw fail('format must be "ocd" or "csv"');
+  }
+  for (const key of ["columns", "defaults"] as const) {
+    if (file[key] === undefined) continue;
+    if (!isObject(file[key])) {
+      throw fail(`${key} must be an object`);
+    }
+    const unknownField = Object.keys(file[key]).find(
+      (field) => !FIELDS[name].includes(field),
+    );
+    if (unknownField) {
+      throw fail(`${key} has unknown field "${unknownField}"`);
+    }
+  }
+  if (file.statuses !== undefined && !isObject(file.statuses)) {
+    throw fail("statuses must be an object");
+  }
+  if (file.dateFormat !== undefined && typeof file.dateFormat !== "string") {
+    throw fail("dateFormat must be a string");
+  }
+
+  let url: URL;
+  try {
+    url = new URL(file.source, baseUrl);
+  } catch {
+    throw fail("source must be a URL, or a path relative to a definition file");
+  }
+  if (!SOURCE_PROTOCOLS.includes(url.protocol)) {
+    throw fail(`source protocol ${url.protocol} is not supported`);
+  }
+
+  const format = file.format ?? (url.pathname.endsWith(".csv") ? "csv" : "ocd");
+  return {
+    ...(file as unknown as DataFileDefinition<string>),
+    source: url.toString(),
+    format,
+  };
+}
+
+/**
+ * Parse and check a file definition
+ *
+ * @param content - JSON or YAML source
+ * @param source - Name used in error messages (usually the file path)
+ * @param baseUrl - URL that relative data file paths resolve against
+ * @throws FileDefinitionError if the definition is malformed
+ */
+export function parseFileDefinition(
+  content: string,
+  source: string,
+  baseUrl?: string,
+): FileDefinition {
+  let raw: unknown;
+  try {
+    raw = parseDefinitionContent(content);
+  } catch (error) {
+    throw new FileDefinitionError(source, (error as Error).message);
+  }
+
+  if (!isObject(raw)) {
+    throw new FileDefinitionError(source, "region must be an object");
+  }
+  const regionError = checkRegionInfo(raw.region);
+  if (regionError) {
+    throw new FileDefinitionError(source, regionError);
+  }
+  if (!isObject(raw.files)) {
+    throw new FileDefinitionError(source, "files must be an object");
+  }
+
+  const { files } = raw;
+  const unknownType = Object.keys(files).find((name) => !(name in FIELDS));
+  if (unknownType) {
+    throw new FileDefinitionError(
+      source,
+      `files has unknown data type "${unknownType}"`,
+    );
+  }
+  const names = Object.keys(files) as (keyof FileDefinition["files"])[];
+  if (names.length === 0) {
+    throw new FileDefinitionError(
+      source,
+      "define at least one of propositions, meetings, representatives or elections",
+    );
+  }
+
+  return {
+    region: toRegionInfo(raw.region as Record<string, unknown>),
+    files: Object.fromEntries(
+      names.map((name) => [
+        name,
+        checkDataFile(source, name, files[name], baseUrl),
+      ]),
+    ),
+  };
+}
+
+/**
+ * Load a file definition from a JSON or YAML file
+ *
+ * Relative data file paths resolve against the definition file.
+ *
+ * @throws FileDefinitionError if the definition is malformed
+ */
+export async function loadFileDefinition(
+  path: string,
+): Promise<FileDefinition> {
+  const { content, source, baseUrl } = await readDefinitionFile(path);
+  return parseFileDefinition(content, source, baseUrl);
+}
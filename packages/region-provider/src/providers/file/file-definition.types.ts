@@ -0,0 +1,57 @@
+/**
+ * File Definition Types
+ *
+ * Describes the bulk data files FileRegionProvider loads a region's civic
+ * data from.
+ */
+
+import { RegionInfo } from "@qckstrt/common";
+import {
+  ElectionField,
+  MeetingField,
+  PropositionField,
+  RepresentativeField,
+} from "../scraping/scrape-definition.types.js";
+
+/**
+ * Supported data file formats
+ *
+ * - ocd: JSON in Open Civic Data format (people, events, ballot measures,
+ *   elections)
+ * - csv: CSV with a header row
+ */
+export type DataFileFormat = "ocd" | "csv";
+
+/**
+ * One data file and how to read it
+ */
+export interface DataFileDefinition<TField extends string> {
+  /**
+   * Path relative to the definition file, http(s) URL, or
+   * storage://bucket/key for a file in the configured storage provider
+   */
+  source: string;
+  /** File format (default: csv for .csv files, ocd otherwise) */
+  format?: DataFileFormat;
+  /** CSV column header holding each field (default: the field name) */
+  columns?: Partial<Record<TField, string>>;
+  /** Values for fields the file leaves empty */
+  defaults?: Partial<Record<TField, string>>;
+  /** Maps file values (case-insensitive) to proposition statuses */
+  statuses?: Record<string, string>;
+  /** Date format of CSV date columns (see parseDate) */
+  dateFormat?: string;
+}
+
+/**
+ * A complete file definition, loaded from JSON or YAML
+ */
+export interface FileDefinition {
+  region: RegionInfo;
+  files: {
+    propositions?: DataFileDefinition<PropositionField>;
+    meetings?: DataFileDefinition<MeetingField>;
+    representatives?: DataFileDefinition<RepresentativeField>;
+    elections?: DataFileDefinition<ElectionField>;
+  };
+}
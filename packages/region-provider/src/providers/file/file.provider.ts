@@ -0,0 +1,308 @@
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { Injectable, Logger } from "@nestjs/common";
+import {
+  IRegionProvider,
+  IStorageProvider,
+  RegionInfo,
+  CivicDataType,
+  Proposition,
+  Meeting,
+  Representative,
+  Election,
+  RegionError,
+} from "@qckstrt/common";
+import { ExtractionProvider } from "@qckstrt/extraction-provider";
+import { DataFileDefinition, FileDefinition } from "./file-definition.types.js";
+import { loadFileDefinition } from "./file-definition.js";
+import { parseCsvRecords } from "./csv.js";
+import {
+  fromOcdElection,
+  fromOcdEvent,
+  fromOcdPerson,
+  fromOcdProposition,
+  getOcdObjects,
+  isCancelledOcdEvent,
+  parseOcdDate,
+  toDistrict,
+} from "./ocd.js";
+import { parseDate } from "../date-format.js";
+import {
+  DateReader,
+  FieldValues,
+  toElection,
+  toMeeting,
+  toProposition,
+  toRepresentative,
+} from "../field-values.js";
+
+// Data types a file definition can describe; bills and votes are not supported
+type FileDataType =
+  | CivicDataType.PROPOSITIONS
+  | CivicDataType.MEETINGS
+  | CivicDataType.REPRESENTATIVES
+  | CivicDataType.ELECTIONS;
+
+const FILE_DATA_TYPES: FileDataType[] = [
+  CivicDataType.PROPOSITIONS,
+  CivicDataType.MEETINGS,
+  CivicDataType.REPRESENTATIVES,
+  CivicDataType.ELECTIONS,
+];
+
+/**
+ * Optional collaborators of FileRegionProvider
+ */
+export interface FileRegionProviderOptions {
+  /** Fetches http(s) sources (default: a new ExtractionProvider) */
+  extraction?: ExtractionProvider;
+  /** Resolves storage://bucket/key sources */
+  storage?: IStorageProvider;
+}
+
+/**
+ * File Region Provider
+ *
+ * Loads civic data from bulk data files described by a FileDefinition:
+ * JSON in Open Civic Data (OCD) format, or CSV with a column mapping.
+ * Files can be local, served over http(s), or kept in the storage provider.
+ * District values given as OCD division IDs become readable district names.
+ *
+ * Local files also make deterministic fixtures for region sync tests.
+ *
+ * Usage:
+ *   REGION_PROVIDER=./regions/springfield-files.yaml
+ */
+@Injectable()
+export class FileRegionProvider implements IRegionProvider {
+  private readonly logger = new Logger(FileRegionProvider.name);
+  private readonly extraction: ExtractionProvider;
+  private readonly storage?: IStorageProvider;
+
+  constructor(
+    private readonly definition: FileDefinition,
+    options: FileRegionProviderOptions = {},
+  ) {
+    this.extraction = options.extraction ?? new ExtractionProvider();
+    this.storage = options.storage;
+    this.logger.log(
+      `Initialized File Region Provider for ${definition.region.name}`,
+    );
+  }
+
+  /**
+   * Create a provider from a JSON or YAML definition file
+   */
+  static async fromFile(
+    path: string,
+    options?: FileRegionProviderOptions,
+  ): Promise<FileRegionProvider> {
+    return new FileRegionProvider(await loadFileDefinition(path), options);
+  }
+
+  getName(): string {
+    return this.definition.region.id;
+  }
+
+  getRegionInfo(): RegionInfo {
+    const { region, files } = this.definition;
+    return {
+      ...region,
+      dataSourceUrls:
+        region.dataSourceUrls ??
+        Object.values(files)
+          .map((file) => file.source)
+          .filter((source) => /^https?:/.test(source)),
+    };
+  }
+
+  getSupportedDataTypes(): CivicDataType[] {
+    return FILE_DATA_TYPES.filter(
+      (dataType) => this.definition.files[dataType] !== undefined,
+    );
+  }
+
+  async fetchPropositions(): Promise<Proposition[]> {
+    return this.load(
+      CivicDataType.PROPOSITIONS,
+      (objects) => objects.map(fromOcdProposition),
+      toProposition,
+    );
+  }
+
+  async fetchMeetings(): Promise<Meeting[]> {
+    return this.load(
+      CivicDataType.MEETINGS,
+      (objects) =>
+        objects
+          .filter((object) => !isCancelledOcdEvent(object))
+          .map(fromOcdEvent),
+      toMeeting,
+    );
+  }
+
+  async fetchRepresentatives(): Promise<Representative[]> {
+    return this.load(
+      CivicDataType.REPRESENTATIVES,
+      (objects) => objects.map((object) => fromOcdPerson(object)),
+      toRepresentative,
+    );
+  }
+
+  async fetchElections(): Promise<Election[]> {
+    return this.load(
+      CivicDataType.ELECTIONS,
+      (objects) => objects.map(fromOcdElection),
+      toElection,
+    );
+  }
+
+  /**
+   * Load a data type's file into items
+   */
+  private async load<T>(
+    dataType: FileDataType,
+    fromOcd: (objects: Record<string, unknown>[]) => FieldValues[],
+    toItem: (fields: FieldValues, readDate: DateReader) => T,
+  ): Promise<T[]> {
+    const file = this.definition.files[dataType] as
+      | DataFileDefinition<string>
+      | undefined;
+    if (!file) {
+      return [];
+    }
+
+    this.logger.log(`Loading ${dataType} from ${file.source}`);
+
+    try {
+      const content = await this.readSource(file.source);
+      const records =
+        file.format === "csv"
+          ? this.readCsv(content, file)
+          : fromOcd(getOcdObjects(JSON.parse(content)));
+
+      const items = records.map((record) => {
+        const fields = this.normalize(record, file);
+        return toItem(fields, (field) =>
+          this.toDate(fields[field], file.format === "csv" ? file : undefined),
+        );
+      });
+
+      this.logger.log(`Loaded ${items.length} ${dataType}`);
+      return items;
+    } catch (error) {
+      throw new RegionError(this.getName(), dataType, error as Error);
+    }
+  }
+
+  /**
+   * Read a data file's content from disk, http(s) or storage
+   */
+  private async readSource(source: string): Promise<string> {
+    const url = new URL(source);
+
+    switch (url.protocol) {
+      case "file:":
+        return readFile(fileURLToPath(url), "utf8");
+
+      case "storage:": {
+        if (!this.storage) {
+          throw new Error(`No storage provider configured to read ${source}`);
+        }
+        const signedUrl = await this.storage.getSignedUrl(
+          url.hostname,
+          decodeURIComponent(url.pathname.slice(1)),
+          false,
+        );
+        // Signed URLs differ on every request, so caching them is useless
+        const result = await this.extraction.fetchWithRetry(signedUrl, {
+          bypassCache: true,
+        });
+        return result.content;
+      }
+
+      default: {
+        const result = await this.extraction.fetchWithRetry(source);
+        return result.content;
+      }
+    }
+  }
+
+  /**
+   * Read CSV rows as field values using the column mapping
+   *
+   * @throws Error if a mapped column is missing from the header
+   */
+  private readCsv(
+    content: string,
+    file: DataFileDefinition<string>,
+  ): FieldValues[] {
+    const { headers, records } = parseCsvRecords(content);
+    const columns: Record<string, string | undefined> = file.columns ?? {};
+
+    const missing = Object.values(columns).filter(
+      (column) => column && !headers.includes(column),
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `Columns not found in ${file.source}: ${missing.join(", ")}`,
+      );
+    }
+
+    return records.map((record) => {
+      const fields: FieldValues = {};
+      for (const header of headers) {
+        fields[header] = record[header];
+      }
+      for (const [field, column] of Object.entries(columns)) {
+        fields[field] = column ? record[column] : undefined;
+      }
+      return fields;
+    });
+  }
+
+  /**
+   * Trim values and apply defaults, status mapping and OCD districts
+   */
+  private normalize(
+    record: FieldValues,
+    file: DataFileDefinition<string>,
+  ): FieldValues {
+    const fields: FieldValues = {};
+    for (const [field, value] of Object.entries(record)) {
+      fields[field] = value?.trim() || undefined;
+    }
+    for (const [field, value] of Object.entries(file.defaults ?? {})) {
+      fields[field] ??= value;
+    }
+
+    const { status, district } = fields;
+    if (status && file.statuses) {
+      const key = Object.keys(file.statuses).find(
+        (candidate) => candidate.toLowerCase() === status.toLowerCase(),
+      );
+      fields.status = key ? file.statuses[key] : status;
+    }
+    if (district) {
+      fields.district = toDistrict(district);
+    }
+
+    return fields;
+  }
+
+  /**
+   * Parse a date field; CSV files may set a dateFormat, OCD uses ISO 8601
+   */
+  private toDate(
+    value: string | undefined,
+    csvFile: DataFileDefinition<string> | undefined,
+  ): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const { timezone } = this.definition.region;
+    return csvFile
+      ? parseDate(value, csvFile.dateFormat, timezone)
+      : parseOcdDate(value, timezone);
+  }
+}
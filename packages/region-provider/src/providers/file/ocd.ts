@@ -0,0 +1,329 @@
+/**
+ * Open Civic Data (OCD) Mapping
+ *
+ * Reads OCD JSON objects into field values: people (Popolo memberships or
+ * Open States roles), events, ballot measure contests or bills, and
+ * elections.
+ *
+ * @see https://open-civic-data.readthedocs.io/
+ */
+
+import { FieldValues } from "../field-values.js";
+import { parseDate } from "../date-format.js";
+
+/**
+ * An OCD JSON object; only the properties read here are typed
+ */
+type OcdObject = Record<string, unknown>;
+
+interface OcdLink {
+  url?: string;
+  note?: string;
+  media_type?: string;
+}
+
+interface OcdLinked {
+  note?: string;
+  links?: OcdLink[];
+}
+
+interface OcdContactDetail {
+  type?: string;
+  value?: string;
+}
+
+interface OcdRole {
+  type?: string;
+  chamber?: string;
+  district?: string;
+  division_id?: string;
+  end_date?: string;
+  organization?: { name?: string; classification?: string };
+  organization_name?: string;
+  post?: { label?: string; division_id?: string };
+}
+
+const DIVISION_ID_PREFIX = "ocd-division/";
+
+/**
+ * District label and chamber for each OCD division type
+ */
+const DIVISION_TYPES: Record<
+  string,
+  { label: (name: string) => string; chamber?: string }
+> = {
+  cd: { label: (n) => `Congressional District ${n}`, chamber: "U.S. House" },
+  sldu: { label: (n) => `Senate District ${n}`, chamber: "State Senate" },
+  sldl: { label: (n) => `House District ${n}`, chamber: "State House" },
+  county: { label: (n) => `${n} County`, chamber: "Board of Supervisors" },
+  place: { label: (n) => n, chamber: "City Council" },
+  council_district: {
+    label: (n) => `Council District ${n}`,
+    chamber: "City Council",
+  },
+  ward: { label: (n) => `Ward ${n}`, chamber: "City Council" },
+  school_district: {
+    label: (n) => `${n} School District`,
+    chamber: "School Board",
+  },
+};
+
+// Open States role types
+const ROLE_CHAMBERS: Record<string, string> = {
+  upper: "State Senate",
+  lower: "State House",
+  legislature: "Legislature",
+  mayor: "Mayor",
+};
+
+/**
+ * Split the last segment of an OCD division ID into type and name
+ *
+ * "ocd-division/country:us/state:ca/sldl:12" gives { type: "sldl",
+ * name: "12" }. Names use underscores or tildes for spaces.
+ */
+function parseDivisionId(
+  divisionId: string,
+): { type: string; name: string } | undefined {
+  if (!divisionId.startsWith(DIVISION_ID_PREFIX)) {
+    return undefined;
+  }
+  const [type, value] = divisionId.split("/").pop()!.split(":");
+  if (!value) {
+    return undefined;
+  }
+
+  const name = decodeURIComponent(value).replace(/[_~]/g, " ");
+  return {
+    type,
+    name: /^\d+$/.test(name)
+      ? String(Number(name))
+      : name.replace(/\b\p{Ll}/gu, (c) => c.toUpperCase()),
+  };
+}
+
+/**
+ * Turn an OCD division ID into a readable district name
+ *
+ * e.g. "ocd-division/country:us/state:ca/cd:12" becomes "Congressional
+ * District 12". Other values are returned unchanged.
+ */
+export function toDistrict(value: string): string {
+  const division = parseDivisionId(value);
+  if (!division) {
+    return value;
+  }
+  const divisionType = DIVISION_TYPES[division.type];
+  return divisionType ? divisionType.label(division.name) : division.name;
+}
+
+/**
+ * Chamber serving an OCD division, if the division type implies one
+ */
+export function chamberForDivision(divisionId: string): string | undefined {
+  const division = parseDivisionId(divisionId);
+  return division ? DIVISION_TYPES[division.type]?.chamber : undefined;
+}
+
+/**
+ * Parse an OCD date or datetime
+ *
+ * Values without a UTC offset are wall-clock times in the region.
+ */
+export function parseOcdDate(value: string, timeZone: string): Date {
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(value)) {
+    return new Date(value);
+  }
+  return parseDate(
+    value,
+    value.includes("T") ? "YYYY-MM-DD[T]HH:mm" : "YYYY-MM-DD",
+    timeZone,
+  );
+}
+
+/**
+ * Get the objects of an OCD JSON file
+ *
+ * Accepts an array or an OCD API page ({ results: [...] }).
+ */
+export function getOcdObjects(data: unknown): OcdObject[] {
+  const objects = Array.isArray(data)
+    ? data
+    : (data as { results?: unknown } | null)?.results;
+  if (!Array.isArray(objects)) {
+    throw new Error("OCD data must be an array or have a results array");
+  }
+  return objects as OcdObject[];
+}
+
+function text(value: unknown): string | undefined {
+  if (typeof value === "number") return String(value);
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function array<T>(value: unknown): T[] {
+  return Array.isArray(value) ? (value as T[]) : [];
+}
+
+function firstUrl(linked: OcdLinked | undefined): string | undefined {
+  return text(array<OcdLink>(linked?.links)[0]?.url);
+}
+
+function firstSourceUrl(object: OcdObject): string | undefined {
+  return text(array<OcdLink>(object.sources)[0]?.url);
+}
+
+/**
+ * Read an OCD ballot measure contest (or bill) as proposition fields
+ */
+export function fromOcdProposition(object: OcdObject): FieldValues {
+  const election = object.election as { date?: string } | undefined;
+  const abstract = array<{ abstract?: string }>(object.abstracts)[0];
+
+  return {
+    externalId: text(object.id) ?? text(object.identifier),
+    title: text(object.name) ?? text(object.title),
+    summary:
+      text(object.description) ??
+      text(object.summary) ??
+      text(abstract?.abstract),
+    fullText: text(object.full_text) ?? text(object.text),
+    status: text(object.status) ?? text(object.outcome),
+    electionDate:
+      text(object.date) ?? text(election?.date) ?? text(object.election_date),
+    sourceUrl: firstSourceUrl(object),
+  };
+}
+
+/**
+ * Read an OCD election as election fields
+ *
+ * OCD elections have no voter deadline properties, so deadlines and the
+ * early-voting window are read from snake_case keys in extras.
+ */
+export function fromOcdElection(object: OcdObject): FieldValues {
+  const extras = (object.extras ?? {}) as Record<string, unknown>;
+
+  return {
+    externalId: text(object.id),
+    name: text(object.name),
+    electionDate: text(object.date) ?? text(object.start_date),
+    registrationDeadline: text(extras.registration_deadline),
+    mailBallotRequestDeadline: text(extras.mail_ballot_request_deadline),
+    mailBallotReturnDeadline: text(extras.mail_ballot_return_deadline),
+    earlyVotingStart: text(extras.early_voting_start),
+    earlyVotingEnd: text(extras.early_voting_end),
+    sourceUrl: firstSourceUrl(object),
+  };
+}
+
+/**
+ * Read an OCD event as meeting fields
+ */
+export function fromOcdEvent(object: OcdObject): FieldValues {
+  const participants = array<{ name?: string; entity_type?: string }>(
+    object.participants,
+  );
+  const organization =
+    participants.find((p) => p.entity_type === "organization") ??
+    participants[0];
+  const documents = array<OcdLinked>(object.documents);
+  const agenda = documents.find((document) =>
+    /agenda/i.test(document.note ?? ""),
+  );
+  const minutes = documents.find((document) =>
+    /minutes/i.test(document.note ?? ""),
+  );
+  const video = array<OcdLinked>(object.media).find(
+    (media) =>
+      /video/i.test(media.note ?? "") ||
+      array<OcdLink>(media.links).some((link) =>
+        link.media_type?.startsWith("video/"),
+      ),
+  );
+
+  return {
+    externalId: text(object.id),
+    title: text(object.name),
+    body: text(organization?.name),
+    scheduledAt: text(object.start_date),
+    location: text((object.location as { name?: string } | undefined)?.name),
+    agendaUrl: firstUrl(agenda),
+    minutesUrl: firstUrl(minutes),
+    videoUrl: firstUrl(video),
+  };
+}
+
+/**
+ * Whether an OCD event was cancelled
+ *
+ * Cancelled events are left out, so the meeting is retired on sync.
+ */
+export function isCancelledOcdEvent(object: OcdObject): boolean {
+  return object.status === "cancelled";
+}
+
+/**
+ * Read an OCD person as representative fields
+ *
+ * The current role (one without a past end date) gives the chamber and
+ * district; party memberships give the party.
+ */
+export function fromOcdPerson(
+  object: OcdObject,
+  now = new Date(),
+): FieldValues {
+  const today = now.toISOString().slice(0, 10);
+  const isCurrent = (role: OcdRole) => !role.end_date || role.end_date >= today;
+
+  const memberships = array<OcdRole>(object.memberships);
+  const roles = [
+    ...array<OcdRole>(object.roles),
+    ...memberships.filter(
+      (membership) => membership.organization?.classification !== "party",
+    ),
+  ];
+  const role = roles.find(isCurrent) ?? roles[0];
+
+  const divisionId =
+    text(role?.division_id) ??
+    text(role?.post?.division_id) ??
+    text(object.division_id);
+  const district =
+    text(role?.district) ?? text(role?.post?.label) ?? divisionId;
+
+  const parties = [
+    ...array<{ name?: string; end_date?: string }>(object.party),
+    ...memberships
+      .filter((m) => m.organization?.classification === "party")
+      .map((m) => ({ name: m.organization?.name, end_date: m.end_date })),
+  ];
+  const party =
+    text(object.party) ?? text((parties.find(isCurrent) ?? parties[0])?.name);
+
+  const contact = (type: string) =>
+    text(
+      array<OcdContactDetail>(object.contact_details).find(
+        (detail) => detail.type === type,
+      )?.value,
+    );
+  const office = array<{ address?: string; voice?: string }>(object.offices)[0];
+
+  return {
+    externalId: text(object.id),
+    name: text(object.name),
+    chamber:
+      text(role?.chamber) ??
+      text(role?.organization?.name) ??
+      text(role?.organization_name) ??
+      (role?.type ? ROLE_CHAMBERS[role.type] : undefined) ??
+      (divisionId ? chamberForDivision(divisionId) : undefined),
+    district: district && toDistrict(district),
+    party,
+    photoUrl: text(object.image),
+    email: text(object.email) ?? contact("email"),
+    phone: contact("voice") ?? text(office?.voice),
+    address: contact("address") ?? text(office?.address),
+    website: firstUrl({ links: array<OcdLink>(object.links) }),
+  };
+}
@@ -0,0 +1,256 @@
+/**
+ * Scrape Definition Loading
+ *
+ * Parses JSON or YAML scrape definitions and checks them before any page
+ * is fetched, so a typo fails at startup rather than during a sync.
+ */
+
+import {
+  ElectionField,
+  ListingDefinition,
+  MeetingField,
+  PropositionField,
+  RepresentativeField,
+  ScrapeDefinition,
+} from "./scrape-definition.types.js";
+import {
+  checkRegionInfo,
+  isObject,
+  parseDefinitionContent,
+  readDefinitionFile,
+  toRegionInfo,
+} from "../definition-file.js";
+
+/**
+ * Exception thrown when a scrape definition is malformed
+ */
+export class ScrapeDefinitionError extends Error {
+  constructor(
+    public source: string,
+    message: string,
+  ) {
+    super(`Invalid scrape definition ${source}: ${message}`);
+    this.name = "ScrapeDefinitionError";
+  }
+}
+
+const FIELDS = {
+  propositions: [
+    "externalId",
+    "title",
+    "summary",
+    "fullText",
+    "status",
+    "electionDate",
+    "sourceUrl",
+    "fiscalImpact",
+    "voteThreshold",
+  ] satisfies PropositionField[],
+  meetings: [
+    "externalId",
+    "title",
+    "body",
+    "scheduledAt",
+    "location",
+    "agendaUrl",
+    "minutesUrl",
+    "videoUrl",
+  ] satisfies MeetingField[],
+  representatives: [
+    "externalId",
+    "name",
+    "chamber",
+    "district",
+    "party",
+    "photoUrl",
+    "email",
+    "phone",
+    "address",
+    "website",
+  ] satisfies RepresentativeField[],
+  elections: [
+    "externalId",
+    "name",
+    "electionDate",
+    "registrationDeadline",
+    "mailBallotRequestDeadline",
+    "mailBallotReturnDeadline",
+    "earlyVotingStart",
+    "earlyVotingEnd",
+    "sourceUrl",
+  ] satisfies ElectionField[],
+};
+
+// Fields without which an item can never be stored
+const REQUIRED_FIELDS: Record<keyof typeof FIELDS, string[]> = {
+  propositions: ["externalId", "title", "status"],
+  meetings: ["externalId", "title", "body", "scheduledAt"],
+  representatives: ["externalId", "name", "chamber"],
+  elections: ["externalId", "name", "electionDate"],
+};
+
+const RULE_KEYS = [
+  "selector",
+  "attribute",
+  "pattern",
+  "value",
+  "default",
+  "map",
+  "format",
+];
+
+/**
+ * Check one listing and resolve its URLs
+ */
+function checkListing(
+  source: string,
+  name: keyof typeof FIELDS,
+  listing: unknown,
+  baseUrl?: string,
+): ListingDefinition<string> {
+  const fail = (message: string) =>
+    new ScrapeDefinitionError(source, `${name}: ${message}`);
+
+  if (!isObject(listing)) {
+    throw fail("must be an object");
+  }
+  if (
+    !Array.isArray(listing.urls) ||
+    listing.urls.length === 0 ||
+    !listing.urls.every((url) => typeof url === "string")
+  ) {
+    throw fail("urls must be a non-empty list of URLs");
+  }
+  if (typeof listing.items !== "string" || !listing.items.trim()) {
+    throw fail("items must be a CSS selector");
+  }
+  if (listing.pagination !== undefined) {
+    const { pagination } = listing;
+    if (!isObject(pagination) || typeof pagination.next !== "string") {
+      throw fail("pagination.next must be a CSS selector");
+    }
+    if (
+      pagination.maxPages !== undefined &&
+      !(
+        Number.isInteger(pagination.maxPages) && Number(pagination.maxPages) > 0
+      )
+    ) {
+      throw fail("pagination.maxPages must be a positive integer");
+    }
+  }
+  if (!isObject(listing.fields)) {
+    throw fail("fields must be an object");
+  }
+
+  for (const [field, rule] of Object.entries(listing.fields)) {
+    if (!(FIELDS[name] as string[]).includes(field)) {
+      throw fail(`unknown field "${field}"`);
+    }
+    if (typeof rule === "string") continue;
+    if (!isObject(rule)) {
+      throw fail(`field "${field}" must be a selector or a rule object`);
+    }
+    const unknownKey = Object.keys(rule).find(
+      (key) => !RULE_KEYS.includes(key),
+    );
+    if (unknownKey) {
+      throw fail(`field "${field}" has unknown option "${unknownKey}"`);
+    }
+    if (rule.pattern !== undefined) {
+      try {
+        new RegExp(String(rule.pattern));
+      } catch {
+        throw fail(`field "${field}" has an invalid pattern`);
+      }
+    }
+  }
+  const missing = REQUIRED_FIELDS[name].filter(
+    (field) => !(field in (listing.fields as object)),
+  );
+  if (missing.length > 0) {
+    throw fail(`missing required fields: ${missing.join(", ")}`);
+  }
+
+  let urls: string[];
+  try {
+    urls = (listing.urls as string[]).map((url) =>
+      new URL(url, baseUrl).toString(),
+    );
+  } catch {
+    throw fail("urls must be absolute, or relative to a definition file");
+  }
+
+  return { ...(listing as unknown as ListingDefinition<string>), urls };
+}
+
+/**
+ * Parse and check a scrape definition
+ *
+ * @param content - JSON or YAML source
+ * @param source - Name used in error messages (usually the file path)
+ * @param baseUrl - URL that relative listing URLs resolve against
+ * @throws ScrapeDefinitionError if the definition is malformed
+ */
+export function parseScrapeDefinition(
+  content: string,
+  source: string,
+  baseUrl?: string,
+): ScrapeDefinition {
+  let raw: unknown;
+  try {
+    raw = parseDefinitionContent(content);
+  } catch (error) {
+    throw new ScrapeDefinitionError(source, (error as Error).message);
+  }
+
+  if (!isObject(raw)) {
+    throw new ScrapeDefinitionError(source, "region must be an object");
+  }
+  const regionError = checkRegionInfo(raw.region);
+  if (regionError) {
+    throw new ScrapeDefinitionError(source, regionError);
+  }
+  if (raw.headers !== undefined && !isObject(raw.headers)) {
+    throw new ScrapeDefinitionError(source, "headers must be an object");
+  }
+
+  const listingNames = (Object.keys(FIELDS) as (keyof typeof FIELDS)[]).filter(
+    (name) => raw[name] !== undefined,
+  );
+  if (listingNames.length === 0) {
+    throw new ScrapeDefinitionError(
+      source,
+      "define at least one of propositions, meetings, representatives or elections",
+    );
+  }
+
+  const definition = {
+    ...raw,
+    region: toRegionInfo(raw.region as Record<string, unknown>),
+  } as unknown as ScrapeDefinition;
+  for (const name of listingNames) {
+    (definition as unknown as Record<string, unknown>)[name] = checkListing(
+      source,
+      name,
+      raw[name],
+      baseUrl,
+    );
+  }
+
+  return definition;
+}
+
+/**
+ * Load a scrape definition from a JSON or YAML file
+ *
+ * Relative listing URLs resolve against the file, so a definition can
+ * point at saved HTML fixtures next to it.
+ *
+ * @throws ScrapeDefinitionError if the definition is malformed
+ */
+export async function loadScrapeDefinition(
+  path: string,
+): Promise<ScrapeDefinition> {
+  const { content, source, baseUrl } = await readDefinitionFile(path);
+  return parseScrapeDefinition(content, source, baseUrl);
+}
@@ -0,0 +1,114 @@
+/**
+ * Scrape Definition Types
+ *
+ * Describes how ScrapingRegionProvider turns a region's web pages into
+ * civic data: which pages to fetch, which elements are items, and where
+ * each field of an item is found.
+ */
+
+import { RegionInfo } from "@qckstrt/common";
+
+/**
+ * How to read one field from an item element
+ *
+ * A plain string is shorthand for { selector } and reads the text of the
+ * first matching element.
+ */
+export interface FieldRule {
+  /** CSS selector relative to the item (omit to read the item itself) */
+  selector?: string;
+  /** Attribute to read instead of the text (e.g. "href") */
+  attribute?: string;
+  /** Regular expression applied to the value; keeps the first group if any */
+  pattern?: string;
+  /** Fixed value, used instead of reading the page */
+  value?: string;
+  /** Value to use when nothing is found */
+  default?: string;
+  /** Maps scraped values (case-insensitive) to stored values */
+  map?: Record<string, string>;
+  /** Date format for date fields, e.g. "MM/DD/YYYY h:mm A" */
+  format?: string;
+}
+
+export type FieldSelector = string | FieldRule;
+
+/**
+ * How to find further pages of a listing
+ */
+export interface PaginationRule {
+  /** CSS selector of the link to the next page */
+  next: string;
+  /** Maximum pages to fetch per listing URL (default: 10) */
+  maxPages?: number;
+}
+
+/**
+ * Pages listing one kind of civic data
+ */
+export interface ListingDefinition<TField extends string> {
+  /** Listing pages to fetch; relative URLs resolve against the definition file */
+  urls: string[];
+  /** CSS selector matching one element per item */
+  items: string;
+  pagination?: PaginationRule;
+  fields: Partial<Record<TField, FieldSelector>>;
+}
+
+export type PropositionField =
+  | "externalId"
+  | "title"
+  | "summary"
+  | "fullText"
+  | "status"
+  | "electionDate"
+  | "sourceUrl"
+  | "fiscalImpact"
+  | "voteThreshold";
+
+export type MeetingField =
+  | "externalId"
+  | "title"
+  | "body"
+  | "scheduledAt"
+  | "location"
+  | "agendaUrl"
+  | "minutesUrl"
+  | "videoUrl";
+
+// Contact fields (email, phone, address, website) fill contactInfo
+export type RepresentativeField =
+  | "externalId"
+  | "name"
+  | "chamber"
+  | "district"
+  | "party"
+  | "photoUrl"
+  | "email"
+  | "phone"
+  | "address"
+  | "website";
+
+export type ElectionField =
+  | "externalId"
+  | "name"
+  | "electionDate"
+  | "registrationDeadline"
+  | "mailBallotRequestDeadline"
+  | "mailBallotReturnDeadline"
+  | "earlyVotingStart"
+  | "earlyVotingEnd"
+  | "sourceUrl";
+
+/**
+ * A complete scrape definition, loaded from JSON or YAML
+ */
+export interface ScrapeDefinition {
+  region: RegionInfo;
+  /** Headers sent with every request (e.g. a User-Agent) */
+  headers?: Record<string, string>;
+  propositions?: ListingDefinition<PropositionField>;
+  meetings?: ListingDefinition<MeetingField>;
+  representatives?: ListingDefinition<RepresentativeField>;
+  elections?: ListingDefinition<ElectionField>;
+}
@@ -0,0 +1,296 @@
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { Injectable, Logger } from "@nestjs/common";
+import {
+  IRegionProvider,
+  RegionInfo,
+  CivicDataType,
+  Proposition,
+  Meeting,
+  Representative,
+  Election,
+  RegionError,
+} from "@qckstrt/common";
+import {
+  ExtractionProvider,
+  SelectedElement,
+} from "@qckstrt/extraction-provider";
+import {
+  FieldSelector,
+  ListingDefinition,
+  ScrapeDefinition,
+} from "./scrape-definition.types.js";
+import { loadScrapeDefinition } from "./scrape-definition.js";
+import { parseDate } from "../date-format.js";
+import {
+  DateReader,
+  FieldValues,
+  toElection,
+  toMeeting,
+  toProposition,
+  toRepresentative,
+} from "../field-values.js";
+
+/**
+ * Pages fetched per listing URL when pagination sets no maxPages
+ */
+const DEFAULT_MAX_PAGES = 10;
+
+// Fields holding links, resolved against the page they were found on
+const URL_FIELDS = new Set([
+  "sourceUrl",
+  "agendaUrl",
+  "minutesUrl",
+  "videoUrl",
+  "photoUrl",
+  "website",
+]);
+
+// Data types a scrape definition can describe; bills and votes are not supported
+type ScrapedDataType =
+  | CivicDataType.PROPOSITIONS
+  | CivicDataType.MEETINGS
+  | CivicDataType.REPRESENTATIVES
+  | CivicDataType.ELECTIONS;
+
+const SCRAPED_DATA_TYPES: ScrapedDataType[] = [
+  CivicDataType.PROPOSITIONS,
+  CivicDataType.MEETINGS,
+  CivicDataType.REPRESENTATIVES,
+  CivicDataType.ELECTIONS,
+];
+
+/**
+ * Scraping Region Provider
+ *
+ * Builds civic data from a region's web pages as described by a
+ * declarative ScrapeDefinition, so a region can be onboarded with
+ * configuration instead of a hand-written IRegionProvider.
+ *
+ * Pages are fetched through ExtractionProvider (cached, rate-limited,
+ * retried). file: URLs are read from disk, which lets a definition run
+ * against saved HTML fixtures.
+ *
+ * Usage:
+ *   REGION_PROVIDER=./regions/springfield.yaml
+ */
+@Injectable()
+export class ScrapingRegionProvider implements IRegionProvider {
+  private readonly logger = new Logger(ScrapingRegionProvider.name);
+
+  constructor(
+    private readonly definition: ScrapeDefinition,
+    private readonly extraction: ExtractionProvider = new ExtractionProvider(),
+  ) {
+    this.logger.log(
+      `Initialized Scraping Region Provider for ${definition.region.name}`,
+    );
+  }
+
+  /**
+   * Create a provider from a JSON or YAML definition file
+   */
+  static async fromFile(
+    path: string,
+    extraction?: ExtractionProvider,
+  ): Promise<ScrapingRegionProvider> {
+    return new ScrapingRegionProvider(
+      await loadScrapeDefinition(path),
+      extraction,
+    );
+  }
+
+  getName(): string {
+    return this.definition.region.id;
+  }
+
+  getRegionInfo(): RegionInfo {
+    const { region } = this.definition;
+    return {
+      ...region,
+      dataSourceUrls:
+        region.dataSourceUrls ??
+        this.getListings().flatMap((listing) =>
+          listing.urls.filter((url) => !url.startsWith("file:")),
+        ),
+    };
+  }
+
+  getSupportedDataTypes(): CivicDataType[] {
+    return this.getDefinedDataTypes();
+  }
+
+  async fetchPropositions(): Promise<Proposition[]> {
+    return this.scrape(CivicDataType.PROPOSITIONS, toProposition);
+  }
+
+  async fetchMeetings(): Promise<Meeting[]> {
+    return this.scrape(CivicDataType.MEETINGS, toMeeting);
+  }
+
+  async fetchRepresentatives(): Promise<Representative[]> {
+    return this.scrape(CivicDataType.REPRESENTATIVES, toRepresentative);
+  }
+
+  async fetchElections(): Promise<Election[]> {
+    return this.scrape(CivicDataType.ELECTIONS, toElection);
+  }
+
+  /**
+   * Scrape every page of a data type's listing into items
+   */
+  private async scrape<T>(
+    dataType: ScrapedDataType,
+    toItem: (fields: FieldValues, readDate: DateReader) => T,
+  ): Promise<T[]> {
+    const listing = this.definition[dataType] as
+      | ListingDefinition<string>
+      | undefined;
+    if (!listing) {
+      return [];
+    }
+
+    this.logger.log(`Scraping ${dataType} for ${this.getName()}`);
+
+    try {
+      const items: T[] = [];
+      for (const url of listing.urls) {
+        for await (const page of this.fetchPages(url, listing)) {
+          const elements = this.extraction.selectElements(
+            page.html,
+            listing.items,
+          );
+          for (const element of elements) {
+            const fields = this.readFields(element, listing, page.url);
+            items.push(
+              toItem(fields, (field) =>
+                this.toDate(fields[field], listing.fields[field]),
+              ),
+            );
+          }
+        }
+      }
+
+      this.logger.log(`Scraped ${items.length} ${dataType}`);
+      return items;
+    } catch (error) {
+      throw new RegionError(this.getName(), dataType, error as Error);
+    }
+  }
+
+  /**
+   * Fetch a listing URL and the pages its pagination links to
+   */
+  private async *fetchPages(
+    url: string,
+    listing: ListingDefinition<string>,
+  ): AsyncGenerator<{ url: string; html: string }> {
+    const maxPages = listing.pagination?.maxPages ?? DEFAULT_MAX_PAGES;
+    const visited = new Set<string>();
+    let next: string | undefined = url;
+
+    while (next && !visited.has(next) && visited.size < maxPages) {
+      visited.add(next);
+      const html = await this.fetchPage(next);
+      yield { url: next, html };
+
+      const link = listing.pagination
+        ? this.extraction
+            .selectElements(html, listing.pagination.next)[0]
+            ?.attr("href")
+        : undefined;
+      next = link ? new URL(link, next).toString() : undefined;
+    }
+  }
+
+  private async fetchPage(url: string): Promise<string> {
+    if (url.startsWith("file:")) {
+      return readFile(fileURLToPath(url), "utf8");
+    }
+
+    const result = await this.extraction.fetchWithRetry(url, {
+      headers: this.definition.headers,
+    });
+    return result.content;
+  }
+
+  /**
+   * Read all of a listing's fields from one item element
+   */
+  private readFields(
+    element: SelectedElement,
+    listing: ListingDefinition<string>,
+    pageUrl: string,
+  ): FieldValues {
+    const fields: FieldValues = {};
+
+    for (const [field, selector] of Object.entries(listing.fields)) {
+      const value = this.readField(element, selector as FieldSelector);
+      fields[field] =
+        value && URL_FIELDS.has(field) ? this.toUrl(value, pageUrl) : value;
+    }
+
+    return fields;
+  }
+
+  private readField(
+    element: SelectedElement,
+    selector: FieldSelector,
+  ): string | undefined {
+    const rule = typeof selector === "string" ? { selector } : selector;
+
+    let value = rule.value;
+    if (value === undefined) {
+      const target = rule.selector ? element.find(rule.selector)[0] : element;
+      value = rule.attribute
+        ? target?.attr(rule.attribute)
+        : target?.text.replace(/\s+/g, " ");
+    }
+
+    if (value && rule.pattern) {
+      const match = new RegExp(rule.pattern).exec(value);
+      value = match ? (match[1] ?? match[0]) : undefined;
+    }
+    value = value?.trim() || rule.default;
+
+    if (value && rule.map) {
+      const key = Object.keys(rule.map).find(
+        (candidate) => candidate.toLowerCase() === value?.toLowerCase(),
+      );
+      value = key ? rule.map[key] : value;
+    }
+
+    return value || undefined;
+  }
+
+  private toUrl(value: string, pageUrl: string): string {
+    try {
+      return new URL(value, pageUrl).toString();
+    } catch {
+      return value;
+    }
+  }
+
+  private toDate(
+    value: string | undefined,
+    selector: FieldSelector | undefined,
+  ): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const format = typeof selector === "object" ? selector.format : undefined;
+    return parseDate(value, format, this.definition.region.timezone);
+  }
+
+  private getDefinedDataTypes(): ScrapedDataType[] {
+    return SCRAPED_DATA_TYPES.filter(
+      (dataType) => this.definition[dataType] !== undefined,
+    );
+  }
+
+  private getListings(): ListingDefinition<string>[] {
+    return this.getDefinedDataTypes().map(
+      (dataType) => this.definition[dataType] as ListingDefinition<string>,
+    );
+  }
+}
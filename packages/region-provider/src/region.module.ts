@@ -1,8 +1,21 @@
-import { Module, DynamicModule } from "@nestjs/common";
+import { Module, DynamicModule, Provider } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
-import { IRegionProvider } from "@qckstrt/common";
+import { IRegionProvider, IStorageProvider } from "@qckstrt/common";
 import { RegionService } from "./region.service.js";
+import { RegionRegistry } from "./region.registry.js";
 import { ExampleRegionProvider } from "./providers/example.provider.js";
+import { ScrapingRegionProvider } from "./providers/scraping/scraping.provider.js";
+import { parseScrapeDefinition } from "./providers/scraping/scrape-definition.js";
+import { FileRegionProvider } from "./providers/file/file.provider.js";
+import {
+  isFileDefinition,
+  parseFileDefinition,
+} from "./providers/file/file-definition.js";
+import {
+  isDefinitionFilePath,
+  parseDefinitionContent,
+  readDefinitionFile,
+} from "./providers/definition-file.js";
 
 /**
  * Region Module
@@ -12,8 +25,16 @@ import { ExampleRegionProvider } from "./providers/example.provider.js";
  * To swap providers, set the REGION_PROVIDER environment variable:
  * - example (default): Mock data for development
  * - california: California civic data (requires region-provider-california package)
+ * - path/to/definition.yaml: A JSON or YAML definition file, either a scrape
+ *   definition (see ScrapingRegionProvider) or a file definition listing
+ *   OCD JSON or CSV data files (see FileRegionProvider)
  * - Add your own implementation of IRegionProvider
  *
+ * To serve several regions from one deployment (e.g. a state plus a few
+ * counties), set REGION_PROVIDERS to a comma-separated list instead. Each
+ * provider is registered in RegionRegistry under its RegionInfo.id; the
+ * first one is the default region.
+ *
  * For custom providers:
  * 1. Create a package implementing IRegionProvider
  * 2. Register it in getProviderForRegion() below
@@ -29,18 +50,17 @@ export class RegionModule {
       module: RegionModule,
       providers: [
         {
-          provide: "REGION_PROVIDER",
-          useClass: ExampleRegionProvider,
-        },
-        {
-          provide: RegionService,
-          useFactory: (provider: IRegionProvider) => {
-            return new RegionService(provider);
-          },
-          inject: ["REGION_PROVIDER"],
+          provide: "REGION_PROVIDERS",
+          useFactory: (): IRegionProvider[] => [new ExampleRegionProvider()],
         },
+        ...RegionModule.createServiceProviders(),
+      ],
+      exports: [
+        RegionService,
+        RegionRegistry,
+        "REGION_PROVIDER",
+        "REGION_PROVIDERS",
       ],
-      exports: [RegionService, "REGION_PROVIDER"],
     };
   }
 
@@ -52,29 +72,72 @@ export class RegionModule {
       module: RegionModule,
       providers: [
         {
-          provide: "REGION_PROVIDER",
+          provide: "REGION_PROVIDERS",
           useFactory: async (
             configService: ConfigService,
-          ): Promise<IRegionProvider> => {
-            const providerName =
-              configService.get<string>("region.provider") || "example";
+            storage?: IStorageProvider,
+          ): Promise<IRegionProvider[]> => {
+            const configured = configService.get<string[]>("region.providers");
+            const providerNames =
+              configured && configured.length > 0
+                ? configured
+                : [configService.get<string>("region.provider") || "example"];
 
-            return RegionModule.getProviderForRegion(providerName);
-          },
-          inject: [ConfigService],
-        },
-        {
-          provide: RegionService,
-          useFactory: (provider: IRegionProvider) => {
-            return new RegionService(provider);
+            return Promise.all(
+              providerNames.map((name) =>
+                RegionModule.getProviderForRegion(name, storage),
+              ),
+            );
           },
-          inject: ["REGION_PROVIDER"],
+          // Storage is only needed by file definitions with storage:// sources
+          inject: [
+            ConfigService,
+            { token: "STORAGE_PROVIDER", optional: true },
+          ],
         },
+        ...RegionModule.createServiceProviders(),
+      ],
+      exports: [
+        RegionService,
+        RegionRegistry,
+        "REGION_PROVIDER",
+        "REGION_PROVIDERS",
       ],
-      exports: [RegionService, "REGION_PROVIDER"],
     };
   }
 
+  /**
+   * Providers derived from REGION_PROVIDERS
+   *
+   * REGION_PROVIDER and RegionService expose the default (first) provider
+   * for consumers that only deal with a single region.
+   */
+  private static createServiceProviders(): Provider[] {
+    return [
+      {
+        provide: "REGION_PROVIDER",
+        useFactory: (providers: IRegionProvider[]) => providers[0],
+        inject: ["REGION_PROVIDERS"],
+      },
+      {
+        provide: RegionService,
+        useFactory: (provider: IRegionProvider) => {
+          return new RegionService(provider);
+        },
+        inject: ["REGION_PROVIDER"],
+      },
+      {
+        provide: RegionRegistry,
+        useFactory: (providers: IRegionProvider[]) => {
+          return new RegionRegistry(
+            providers.map((provider) => new RegionService(provider)),
+          );
+        },
+        inject: ["REGION_PROVIDERS"],
+      },
+    ];
+  }
+
   /**
    * Get provider instance based on region name
    *
@@ -86,7 +149,12 @@ export class RegionModule {
    */
   private static async getProviderForRegion(
     region: string,
+    storage?: IStorageProvider,
   ): Promise<IRegionProvider> {
+    if (isDefinitionFilePath(region)) {
+      return RegionModule.createDefinitionProvider(region, storage);
+    }
+
     switch (region.toLowerCase()) {
       // Add custom providers here:
       //
@@ -103,4 +171,34 @@ export class RegionModule {
         return new ExampleRegionProvider();
     }
   }
+
+  /**
+   * Create the provider a definition file describes
+   *
+   * File definitions list data files under `files`; anything else is
+   * read as a scrape definition.
+   */
+  private static async createDefinitionProvider(
+    path: string,
+    storage?: IStorageProvider,
+  ): Promise<IRegionProvider> {
+    const { content, source, baseUrl } = await readDefinitionFile(path);
+
+    let raw: unknown;
+    try {
+      raw = parseDefinitionContent(content);
+    } catch {
+      // Leave reporting the syntax error to the definition parser below
+    }
+
+    if (isFileDefinition(raw)) {
+      return new FileRegionProvider(
+        parseFileDefinition(content, source, baseUrl),
+        { storage },
+      );
+    }
+    return new ScrapingRegionProvider(
+      parseScrapeDefinition(content, source, baseUrl),
+    );
+  }
 }
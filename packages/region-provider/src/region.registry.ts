@@ -0,0 +1,86 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { RegionInfo, UnknownRegionError } from "@qckstrt/common";
+import { RegionService } from "./region.service.js";
+
+/**
+ * Region Registry
+ *
+ * Holds one RegionService per configured region provider, keyed by the
+ * provider's RegionInfo.id. Lets a single deployment serve several
+ * jurisdictions (e.g. a state plus a few counties) and sync each one
+ * independently.
+ *
+ * The first registered region is the default, used when callers do not
+ * specify a region.
+ */
+@Injectable()
+export class RegionRegistry {
+  private readonly logger = new Logger(RegionRegistry.name);
+  private readonly services = new Map<string, RegionService>();
+
+  constructor(services: RegionService[]) {
+    if (services.length === 0) {
+      throw new Error("RegionRegistry requires at least one region provider");
+    }
+
+    for (const service of services) {
+      const regionId = service.getRegionInfo().id;
+      if (this.services.has(regionId)) {
+        throw new Error(`Duplicate region provider for region: ${regionId}`);
+      }
+      this.services.set(regionId, service);
+    }
+
+    this.logger.log(
+      `Initialized Region Registry with ${this.services.size} regions: ${this.getRegionIds().join(", ")}`,
+    );
+  }
+
+  /**
+   * Get the IDs of all registered regions
+   */
+  getRegionIds(): string[] {
+    return [...this.services.keys()];
+  }
+
+  /**
+   * Get information for all registered regions
+   */
+  getRegions(): RegionInfo[] {
+    return this.getAll().map((service) => service.getRegionInfo());
+  }
+
+  /**
+   * Get all registered region services
+   */
+  getAll(): RegionService[] {
+    return [...this.services.values()];
+  }
+
+  /**
+   * Check whether a region is registered
+   */
+  has(regionId: string): boolean {
+    return this.services.has(regionId);
+  }
+
+  /**
+   * Get the service for a region
+   *
+   * @throws UnknownRegionError if no provider is registered for the region
+   */
+  get(regionId: string): RegionService {
+    const service = this.services.get(regionId);
+    if (!service) {
+      throw new UnknownRegionError(regionId);
+    }
+    return service;
+  }
+
+  /**
+   * Get the default (first registered) region service
+   */
+  getDefault(): RegionService {
+    return this.getAll()[0];
+  }
+}
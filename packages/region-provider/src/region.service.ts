@@ -6,7 +6,12 @@ import {
   Proposition,
   Meeting,
   Representative,
+  Election,
+  Bill,
+  Vote,
+  Race,
   SyncResult,
+  RegionError,
 } from "@qckstrt/common";
 
 /**
@@ -96,6 +101,92 @@ export class RegionService {
     return representatives;
   }
 
+  /**
+   * Fetch elections and voter deadlines from the provider
+   */
+  async fetchElections(): Promise<Election[]> {
+    this.logger.log("Fetching elections from provider");
+    const startTime = Date.now();
+
+    const elections = await this.provider.fetchElections();
+
+    const duration = Date.now() - startTime;
+    this.logger.log(`Fetched ${elections.length} elections in ${duration}ms`);
+
+    return elections;
+  }
+
+  /**
+   * Fetch bills from the provider
+   *
+   * @throws RegionError if the provider does not implement fetchBills
+   */
+  async fetchBills(): Promise<Bill[]> {
+    if (!this.provider.fetchBills) {
+      throw this.notImplemented(CivicDataType.BILLS);
+    }
+    this.logger.log("Fetching bills from provider");
+    const startTime = Date.now();
+
+    const bills = await this.provider.fetchBills();
+
+    const duration = Date.now() - startTime;
+    this.logger.log(`Fetched ${bills.length} bills in ${duration}ms`);
+
+    return bills;
+  }
+
+  /**
+   * Fetch roll-call votes from the provider
+   *
+   * @throws RegionError if the provider does not implement fetchVotes
+   */
+  async fetchVotes(): Promise<Vote[]> {
+    if (!this.provider.fetchVotes) {
+      throw this.notImplemented(CivicDataType.VOTES);
+    }
+    this.logger.log("Fetching votes from provider");
+    const startTime = Date.now();
+
+    const votes = await this.provider.fetchVotes();
+
+    const duration = Date.now() - startTime;
+    this.logger.log(`Fetched ${votes.length} votes in ${duration}ms`);
+
+    return votes;
+  }
+
+  /**
+   * Fetch races and their candidates from the provider
+   *
+   * @throws RegionError if the provider does not implement fetchRaces
+   */
+  async fetchRaces(): Promise<Race[]> {
+    if (!this.provider.fetchRaces) {
+      throw this.notImplemented(CivicDataType.RACES);
+    }
+    this.logger.log("Fetching races from provider");
+    const startTime = Date.now();
+
+    const races = await this.provider.fetchRaces();
+
+    const duration = Date.now() - startTime;
+    this.logger.log(`Fetched ${races.length} races in ${duration}ms`);
+
+    return races;
+  }
+
+  /**
+   * Error for an optional data type the provider has no fetch method for
+   */
+  private notImplemented(dataType: CivicDataType): RegionError {
+    return new RegionError(
+      this.provider.getName(),
+      dataType,
+      new Error(`provider does not fetch ${dataType}`),
+    );
+  }
+
   /**
    * Sync all supported data types
    * Returns sync results for each data type
@@ -116,6 +207,7 @@ export class RegionService {
           itemsProcessed: 0,
           itemsCreated: 0,
           itemsUpdated: 0,
+          itemsRemoved: 0,
           errors: [(error as Error).message],
           syncedAt: new Date(),
         });
@@ -150,6 +242,26 @@ export class RegionService {
         const representatives = await this.fetchRepresentatives();
         itemsProcessed = representatives.length;
         break;
+
+      case CivicDataType.ELECTIONS:
+        const elections = await this.fetchElections();
+        itemsProcessed = elections.length;
+        break;
+
+      case CivicDataType.BILLS:
+        const bills = await this.fetchBills();
+        itemsProcessed = bills.length;
+        break;
+
+      case CivicDataType.VOTES:
+        const votes = await this.fetchVotes();
+        itemsProcessed = votes.length;
+        break;
+
+      case CivicDataType.RACES:
+        const races = await this.fetchRaces();
+        itemsProcessed = races.length;
+        break;
     }
 
     const duration = Date.now() - startTime;
@@ -157,13 +269,14 @@ export class RegionService {
       `Synced ${dataType}: ${itemsProcessed} items in ${duration}ms`,
     );
 
-    // Note: itemsCreated and itemsUpdated would be set by the microservice
-    // after comparing with database records
+    // Note: itemsCreated, itemsUpdated and itemsRemoved would be set by the
+    // microservice after comparing with database records
     return {
       dataType,
       itemsProcessed,
       itemsCreated: 0,
       itemsUpdated: 0,
+      itemsRemoved: 0,
       errors: [],
       syncedAt: new Date(),
     };